@@ -0,0 +1,191 @@
+/**
+ * Analytics Events
+ *
+ * Append-only log of what happened in the widget (`AnalyticsEvent`). Writers only insert
+ * rows; the `analytics.rollup` job rebuilds the day's `ChatAnalytics` row from them, so
+ * concurrent requests can't lose updates and a day can be recomputed at any time.
+ * Latency percentiles and exact distributions are queried from the events directly
+ * (see AnalyticsService).
+ */
+
+import { prisma as db } from "../db.server";
+import { createLogger } from "./logger.server";
+import { enqueueJob } from "./job-queue.server";
+import { ANALYTICS } from "../config/limits";
+import type { WidgetEntryPoint } from "./widget-events";
+
+const logger = createLogger({ service: "AnalyticsEvents" });
+
+export const ANALYTICS_EVENT_TYPES = [
+  // The chat window was opened
+  "widget_open",
+  // A chat message answered by the assistant
+  "message",
+  // A recommended product clicked in the widget
+  "click",
+  // A product added to the cart from the widget
+  "add_to_cart",
+  "rating",
+  // The customer asked for a person (human handoff)
+  "escalation",
+  // An order attributed to a chat session
+  "conversion",
+  // Any order of the shop (baseline for conversion rate and AOV uplift)
+  "order",
+] as const;
+
+export type AnalyticsEventType = (typeof ANALYTICS_EVENT_TYPES)[number];
+
+interface BaseEvent {
+  chatSessionId?: string | null;
+  // Widget session id (UserProfile.sessionId)
+  visitorId?: string | null;
+  occurredAt?: Date;
+}
+
+export type AnalyticsEventInput = BaseEvent & (
+  | {
+      type: "message";
+      isNewSession?: boolean;
+      intent?: string;
+      sentiment?: string;
+      confidence?: number;
+      responseTimeMs?: number;
+      workflowType?: string;
+      entryPoint?: WidgetEntryPoint;
+      productsShown?: number;
+    }
+  | { type: "widget_open" }
+  | { type: "click"; productId: string; productTitle?: string }
+  | { type: "add_to_cart"; productId?: string }
+  | { type: "rating"; rating: number }
+  | { type: "escalation" }
+  | { type: "conversion" | "order"; orderId: string; revenue: number }
+);
+
+/**
+ * Start of the analytics day a date falls in (server time, like the existing ChatAnalytics rows)
+ */
+export function analyticsDay(date: Date): Date {
+  const day = new Date(date);
+  day.setHours(0, 0, 0, 0);
+  return day;
+}
+
+export function formatAnalyticsDay(date: Date): string {
+  const day = analyticsDay(date);
+  const month = String(day.getMonth() + 1).padStart(2, "0");
+  const dayOfMonth = String(day.getDate()).padStart(2, "0");
+  return `${day.getFullYear()}-${month}-${dayOfMonth}`;
+}
+
+export function parseAnalyticsDay(value: string): Date {
+  const [year, month, day] = value.split("-").map(Number);
+  return new Date(year!, month! - 1, day!);
+}
+
+export async function recordAnalyticsEvent(shop: string, event: AnalyticsEventInput): Promise<void> {
+  const occurredAt = event.occurredAt ?? new Date();
+
+  await db.analyticsEvent.create({
+    data: {
+      ...event,
+      shop,
+      occurredAt,
+      responseTimeMs: "responseTimeMs" in event && event.responseTimeMs !== undefined
+        ? Math.round(event.responseTimeMs)
+        : undefined,
+    },
+  });
+
+  await scheduleRollup(shop, occurredAt);
+}
+
+/**
+ * Queue a rebuild of the day's ChatAnalytics row. Events within ROLLUP_DELAY_MS share one job.
+ */
+export async function scheduleRollup(shop: string, date: Date): Promise<void> {
+  const day = formatAnalyticsDay(date);
+  const slot = Math.floor(Date.now() / ANALYTICS.ROLLUP_DELAY_MS);
+
+  await enqueueJob("analytics.rollup", { day }, {
+    shop,
+    idempotencyKey: `analytics.rollup:${shop}:${day}:${slot}`,
+    runAt: new Date((slot + 1) * ANALYTICS.ROLLUP_DELAY_MS),
+  });
+}
+
+function countBy<T extends Record<string, unknown>>(
+  groups: Array<T & { _count: { _all: number } }>,
+  key: (group: T) => string | null
+): Record<string, number> {
+  const counts: Record<string, number> = {};
+  for (const group of groups) {
+    const name = key(group);
+    if (name) counts[name] = (counts[name] || 0) + group._count._all;
+  }
+  return counts;
+}
+
+/**
+ * Recompute a day's ChatAnalytics row from its events. Idempotent: the row is overwritten,
+ * not incremented. Days without events (e.g. before the event log existed) are left alone.
+ */
+export async function rebuildDailyAnalytics(shop: string, date: Date): Promise<boolean> {
+  const start = analyticsDay(date);
+  const end = new Date(start);
+  end.setDate(end.getDate() + 1);
+
+  const where = { shop, occurredAt: { gte: start, lt: end } };
+  const messages = { ...where, type: "message" };
+
+  const [eventCount, messageStats, newSessions, intents, sentiments, workflows, clicks, conversions, orders] =
+    await Promise.all([
+      db.analyticsEvent.count({ where }),
+      db.analyticsEvent.aggregate({
+        where: messages,
+        _count: { _all: true },
+        _avg: { responseTimeMs: true, confidence: true },
+      }),
+      db.analyticsEvent.count({ where: { ...messages, isNewSession: true } }),
+      db.analyticsEvent.groupBy({ by: ["intent"], where: messages, _count: { _all: true } }),
+      db.analyticsEvent.groupBy({ by: ["sentiment"], where: messages, _count: { _all: true } }),
+      db.analyticsEvent.groupBy({ by: ["workflowType"], where: messages, _count: { _all: true } }),
+      db.analyticsEvent.groupBy({
+        by: ["productId", "productTitle"],
+        where: { ...where, type: "click" },
+        _count: { _all: true },
+      }),
+      db.analyticsEvent.aggregate({ where: { ...where, type: "conversion" }, _count: { _all: true }, _sum: { revenue: true } }),
+      db.analyticsEvent.aggregate({ where: { ...where, type: "order" }, _count: { _all: true }, _sum: { revenue: true } }),
+    ]);
+
+  if (eventCount === 0) return false;
+
+  const totals = {
+    totalSessions: newSessions,
+    totalMessages: messageStats._count._all,
+    avgResponseTime: messageStats._avg.responseTimeMs ?? 0,
+    avgConfidence: messageStats._avg.confidence ?? 0,
+    topIntents: JSON.stringify(countBy(intents, (group: any) => group.intent)),
+    sentimentBreakdown: JSON.stringify(countBy(sentiments, (group: any) => group.sentiment)),
+    workflowUsage: JSON.stringify(countBy(workflows, (group: any) => group.workflowType)),
+    // "productId|||productTitle" keys, as read by AnalyticsService.getTopProducts
+    topProducts: JSON.stringify(countBy(clicks, (group: any) =>
+      group.productTitle ? `${group.productId}|||${group.productTitle}` : group.productId
+    )),
+    conversionsTracked: conversions._count._all,
+    assistedRevenue: conversions._sum.revenue ?? 0,
+    ordersCount: orders._count._all,
+    ordersRevenue: orders._sum.revenue ?? 0,
+  };
+
+  await db.chatAnalytics.upsert({
+    where: { shop_date: { shop, date: start } },
+    update: totals,
+    create: { shop, date: start, ...totals },
+  });
+
+  logger.debug({ shop, day: formatAnalyticsDay(start), events: eventCount }, "Daily analytics rebuilt");
+  return true;
+}
@@ -0,0 +1,18 @@
+/**
+ * Conversion Attribution
+ *
+ * Shared by the settings page, the orders/create webhook and the widgets.
+ */
+
+// Cart attribute the widgets write with the current chat session id. The leading
+// underscore keeps it out of the checkout; it comes back in the order's note_attributes.
+export const CHAT_SESSION_CART_ATTRIBUTE = "_shopibot_chat_session";
+
+// Attribution windows (days) merchants can pick from
+export const ATTRIBUTION_WINDOW_OPTIONS = [1, 3, 7, 14, 30] as const;
+
+export const DEFAULT_ATTRIBUTION_WINDOW_DAYS = 7;
+
+export function isAttributionWindow(value: number): boolean {
+  return (ATTRIBUTION_WINDOW_OPTIONS as readonly number[]).includes(value);
+}
@@ -0,0 +1,167 @@
+/**
+ * Audit Log Writer
+ *
+ * Append-only record of merchant configuration changes and security-sensitive actions
+ * (settings saves, plan migrations, API key tests, GDPR requests). Events are only ever
+ * inserted; the database rejects updates to AuditEvent rows.
+ *
+ * Secrets never reach the log: fields listed as secret are masked to their last 4 characters
+ * before the before/after diff is stored.
+ */
+
+import { prisma as db } from "../db.server";
+import { logError } from "./logger.server";
+import type { AuditAction, AuditActorType, AuditChanges } from "./audit";
+
+const MASK = "••••";
+
+export const AUDIT_PAGE_SIZE = 50;
+
+export interface AuditActor {
+  type: AuditActorType;
+  // Shopify user id, script name, ... (null when unknown)
+  id?: string | null;
+}
+
+export interface AuditEventInput {
+  shop: string | null;
+  actor: AuditActor;
+  action: AuditAction;
+  targetType?: string;
+  targetId?: string;
+  changes?: AuditChanges | null;
+  metadata?: Record<string, unknown>;
+  // Adds the caller's IP, user agent and request id to the metadata
+  request?: Request;
+}
+
+export interface AuditEventRecord {
+  id: string;
+  shop: string | null;
+  actorType: AuditActorType;
+  actorId: string | null;
+  action: AuditAction;
+  targetType: string | null;
+  targetId: string | null;
+  changes: AuditChanges | null;
+  metadata: Record<string, unknown>;
+  createdAt: Date;
+}
+
+/**
+ * Merchant behind an admin request (the session token names the staff member)
+ */
+export function merchantActor(context: { sessionToken?: { sub?: string } }): AuditActor {
+  return { type: "merchant", id: context.sessionToken?.sub ?? null };
+}
+
+export function maskSecret(value: unknown): string | null {
+  if (value === null || value === undefined || value === "") return null;
+  const text = String(value);
+  return text.length > 8 ? `${MASK}${text.slice(-4)}` : MASK;
+}
+
+function normalizeValue(value: unknown): unknown {
+  if (value instanceof Date) return value.toISOString();
+  if (value === undefined || value === "") return null;
+  return value;
+}
+
+/**
+ * Fields of `after` whose value differs from `before` (null for a new record). Secret fields
+ * are compared in plain text but stored masked.
+ */
+export function diffChanges(
+  before: Record<string, unknown> | null,
+  after: Record<string, unknown>,
+  secretFields: readonly string[] = []
+): AuditChanges {
+  const changes: AuditChanges = {};
+
+  for (const [field, value] of Object.entries(after)) {
+    const from = normalizeValue(before?.[field]);
+    const to = normalizeValue(value);
+    if (JSON.stringify(from) === JSON.stringify(to)) continue;
+
+    changes[field] = secretFields.includes(field)
+      ? { from: maskSecret(from), to: maskSecret(to) }
+      : { from, to };
+  }
+
+  return changes;
+}
+
+function requestMetadata(request: Request): Record<string, unknown> {
+  const forwardedFor = request.headers.get("x-forwarded-for");
+  return {
+    ip: forwardedFor?.split(",")[0]?.trim() || request.headers.get("x-real-ip") || request.headers.get("cf-connecting-ip") || null,
+    userAgent: request.headers.get("user-agent"),
+    requestId: request.headers.get("x-request-id"),
+    path: new URL(request.url).pathname,
+  };
+}
+
+/**
+ * Append an event to the audit log. Never throws: a failed write is logged and the audited
+ * action goes ahead.
+ */
+export async function recordAuditEvent(event: AuditEventInput): Promise<void> {
+  try {
+    const metadata = {
+      ...(event.request ? requestMetadata(event.request) : {}),
+      ...event.metadata,
+    };
+
+    await db.auditEvent.create({
+      data: {
+        shop: event.shop,
+        actorType: event.actor.type,
+        actorId: event.actor.id ?? null,
+        action: event.action,
+        targetType: event.targetType ?? null,
+        targetId: event.targetId ?? null,
+        changes: event.changes && Object.keys(event.changes).length > 0 ? JSON.stringify(event.changes) : null,
+        metadata: JSON.stringify(metadata),
+      },
+    });
+  } catch (error) {
+    logError(error, "Failed to write audit event", { shop: event.shop, action: event.action });
+  }
+}
+
+/**
+ * A page of a shop's audit events, newest first
+ */
+export async function listAuditEvents(
+  shop: string,
+  options: { action?: AuditAction | null; page?: number } = {}
+): Promise<{ events: AuditEventRecord[]; total: number }> {
+  const where = { shop, ...(options.action ? { action: options.action } : {}) };
+  const page = Math.max(1, options.page ?? 1);
+
+  const [rows, total] = await Promise.all([
+    db.auditEvent.findMany({
+      where,
+      orderBy: [{ createdAt: "desc" }, { id: "desc" }],
+      skip: (page - 1) * AUDIT_PAGE_SIZE,
+      take: AUDIT_PAGE_SIZE,
+    }),
+    db.auditEvent.count({ where }),
+  ]);
+
+  return {
+    events: rows.map((row): AuditEventRecord => ({
+      id: row.id,
+      shop: row.shop,
+      actorType: row.actorType as AuditActorType,
+      actorId: row.actorId,
+      action: row.action as AuditAction,
+      targetType: row.targetType,
+      targetId: row.targetId,
+      changes: row.changes ? JSON.parse(row.changes) : null,
+      metadata: row.metadata ? JSON.parse(row.metadata) : {},
+      createdAt: row.createdAt,
+    })),
+    total,
+  };
+}
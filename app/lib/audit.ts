@@ -0,0 +1,36 @@
+/**
+ * Audit Log
+ *
+ * Shared by the audit log page and the audit writer.
+ */
+
+export const AUDIT_ACTIONS = [
+  "settings.updated",
+  "plan.migrated",
+  "apiKey.tested",
+  "gdpr.customerDataRequested",
+  "gdpr.customerDataExported",
+  "gdpr.customerDataFulfilled",
+  "gdpr.customerRedacted",
+  "gdpr.shopRedacted",
+  "retention.policyUpdated",
+  "retention.purged",
+] as const;
+
+export type AuditAction = (typeof AUDIT_ACTIONS)[number];
+
+// Who did it: a merchant in the admin, Shopify (compliance webhooks), the app itself
+// (scripts, jobs) or an unauthenticated API caller
+export type AuditActorType = "merchant" | "shopify" | "system" | "api";
+
+// Field changed by an action; secrets are masked before they are stored
+export interface AuditChange {
+  from: unknown;
+  to: unknown;
+}
+
+export type AuditChanges = Record<string, AuditChange>;
+
+export function isAuditAction(value: unknown): value is AuditAction {
+  return typeof value === "string" && (AUDIT_ACTIONS as readonly string[]).includes(value);
+}
@@ -0,0 +1,514 @@
+/**
+ * Chat Engine Tools
+ *
+ * Tools the built-in chat engine (services/chat-engine.service.server.ts) calls to look up
+ * what a conversation needs - products, stock, policies, orders - instead of receiving the
+ * whole catalog and every policy up front. All lookups go through the shop's Admin GraphQL
+ * client (unauthenticated.admin).
+ *
+ * Arguments are validated with zod; a failed or invalid call is returned to the model as
+ * `{ error }` so it can recover, and every call is logged (see ChatToolCall).
+ */
+
+import { z } from "zod";
+import type { AdminApiContext } from "@shopify/shopify-app-remix/server";
+import { createLogger } from "./logger.server";
+import type { LLMToolDefinition } from "./llm-provider.server";
+import { buildProductSearchQuery } from "./product-search.server";
+import { shopPoliciesService } from "../services/shop-policies.service.server";
+import { htmlToText, toProductGid } from "../services/catalog-sync.service.server";
+import { lookupOrder, type OrderCard } from "./order-lookup.server";
+
+const logger = createLogger({ service: "ChatTools" });
+
+const MAX_SEARCH_RESULTS = 10;
+const MAX_DESCRIPTION_LENGTH = 1000;
+const MAX_POLICY_LENGTH = 4000;
+const MAX_CART_QUANTITY = 10;
+
+// Argument keys never written to the tool call log
+const REDACTED_ARGUMENTS = ["email"];
+
+export interface ChatToolContext {
+  shop: string;
+  admin: AdminApiContext;
+  // Verified storefront customer id; lookup_order then accepts their orders without an email.
+  // Never set this from unverified widget input.
+  customerId?: string;
+  // Rate limit key of the shopper (order lookups)
+  visitorId?: string;
+}
+
+/**
+ * Product shape returned by tools (same fields as the products sent to N8N)
+ */
+export interface ChatToolProduct {
+  id: string;
+  title: string;
+  handle: string;
+  description: string;
+  image?: string;
+  price: string;
+  compareAtPrice: string | null;
+  inventory: number;
+  tags: string[];
+  options: Array<{ name: string; values: string[] }>;
+}
+
+export interface ChatToolResult {
+  // JSON sent back to the model
+  output: unknown;
+  // Products the model may recommend
+  products?: ChatToolProduct[];
+  // Verified order the shopper looked up (shown as an order card)
+  order?: OrderCard;
+}
+
+/**
+ * One tool call, as logged in ChatMessage.metadata.toolCalls
+ */
+export interface ChatToolCall {
+  name: string;
+  arguments: Record<string, unknown>;
+  success: boolean;
+  durationMs: number;
+  error?: string;
+}
+
+interface ChatToolDefinition<T extends z.ZodTypeAny> {
+  description: string;
+  // JSON schema sent to the model
+  parameters: Record<string, unknown>;
+  schema: T;
+  run(args: z.infer<T>, context: ChatToolContext): Promise<ChatToolResult>;
+}
+
+function defineTool<T extends z.ZodTypeAny>(definition: ChatToolDefinition<T>): ChatToolDefinition<T> {
+  return definition;
+}
+
+const PRODUCT_FIELDS = `
+  id
+  title
+  handle
+  description
+  totalInventory
+  tags
+  featuredImage { url }
+  options { name values }
+  variants(first: 1) {
+    edges {
+      node {
+        price
+        compareAtPrice
+      }
+    }
+  }
+`;
+
+async function queryAdmin(
+  admin: AdminApiContext,
+  query: string,
+  variables: Record<string, unknown> = {}
+): Promise<any> {
+  // admin.graphql throws on GraphQL errors
+  const response = await admin.graphql(query, { variables });
+  const body = await response.json();
+  return body.data;
+}
+
+function truncate(text: string, maxLength: number): string {
+  return text.length > maxLength ? `${text.substring(0, maxLength)}...` : text;
+}
+
+function toProduct(node: any): ChatToolProduct {
+  return {
+    id: node.id,
+    title: node.title,
+    handle: node.handle,
+    description: truncate(node.description || "", MAX_DESCRIPTION_LENGTH),
+    image: node.featuredImage?.url,
+    price: node.variants?.edges?.[0]?.node.price || "0.00",
+    compareAtPrice: node.variants?.edges?.[0]?.node.compareAtPrice || null,
+    inventory: node.totalInventory || 0,
+    tags: node.tags || [],
+    options: node.options || [],
+  };
+}
+
+// Numeric id from a GID or a plain id ("gid://shopify/Customer/42" -> "42")
+function numericId(id: string): string {
+  return id.split("/").pop() || id;
+}
+
+function toVariantGid(id: string): string {
+  return id.startsWith("gid://") ? id : `gid://shopify/ProductVariant/${id}`;
+}
+
+const productIdSchema = z.string().min(1).max(100).transform(toProductGid);
+
+const searchProducts = defineTool({
+  description: "Search the store's active products. Use it before recommending products.",
+  parameters: {
+    type: "object",
+    properties: {
+      query: { type: "string", description: "Search words, e.g. \"linen shirt\"" },
+      sort: { type: "string", enum: ["relevance", "best_selling", "newest", "price_low", "price_high"] },
+      minPrice: { type: "number" },
+      maxPrice: { type: "number" },
+      availableOnly: { type: "boolean", description: "Only products in stock" },
+      limit: { type: "integer", minimum: 1, maximum: MAX_SEARCH_RESULTS },
+    },
+  },
+  schema: z.object({
+    query: z.string().max(200).optional(),
+    sort: z.enum(["relevance", "best_selling", "newest", "price_low", "price_high"]).optional(),
+    minPrice: z.number().nonnegative().optional(),
+    maxPrice: z.number().nonnegative().optional(),
+    availableOnly: z.boolean().optional(),
+    limit: z.number().int().min(1).max(MAX_SEARCH_RESULTS).default(5),
+  }),
+  async run(args, { admin }) {
+    const query = buildProductSearchQuery({
+      terms: (args.query || "").split(/\s+/).filter(Boolean),
+      tags: [],
+      colors: [],
+      sizes: [],
+      minPrice: args.minPrice,
+      maxPrice: args.maxPrice,
+      available: args.availableOnly,
+    });
+
+    const sort = args.sort || (args.query ? "relevance" : "best_selling");
+    const sortKeys: Record<typeof sort, { sortKey: string; reverse: boolean }> = {
+      relevance: { sortKey: "RELEVANCE", reverse: false },
+      best_selling: { sortKey: "BEST_SELLING", reverse: false },
+      newest: { sortKey: "CREATED_AT", reverse: true },
+      price_low: { sortKey: "PRICE", reverse: false },
+      price_high: { sortKey: "PRICE", reverse: true },
+    };
+
+    const data = await queryAdmin(
+      admin,
+      `#graphql
+      query chatSearchProducts($first: Int!, $query: String, $sortKey: ProductSortKeys, $reverse: Boolean) {
+        products(first: $first, query: $query, sortKey: $sortKey, reverse: $reverse) {
+          edges { node { ${PRODUCT_FIELDS} } }
+        }
+      }`,
+      { first: args.limit, query, ...sortKeys[sort] }
+    );
+
+    const products = (data?.products?.edges || []).map((edge: any) => toProduct(edge.node));
+    return {
+      output: {
+        count: products.length,
+        products: products.map((product: ChatToolProduct) => ({
+          ...product,
+          description: truncate(product.description, 200),
+        })),
+      },
+      products,
+    };
+  },
+});
+
+const getProductDetails = defineTool({
+  description: "Get the full description, options and variants of one product, by id or handle.",
+  parameters: {
+    type: "object",
+    properties: {
+      productId: { type: "string" },
+      handle: { type: "string" },
+    },
+  },
+  schema: z.object({
+    productId: productIdSchema.optional(),
+    handle: z.string().max(255).optional(),
+  }).refine(args => !!args.productId || !!args.handle, "productId or handle is required"),
+  async run(args, { admin }) {
+    const fields = `
+      ${PRODUCT_FIELDS}
+      vendor
+      productType
+      allVariants: variants(first: 50) {
+        edges {
+          node { id title price compareAtPrice availableForSale selectedOptions { name value } }
+        }
+      }
+    `;
+
+    const data = args.productId
+      ? await queryAdmin(admin, `#graphql
+          query chatProductById($id: ID!) { product(id: $id) { ${fields} } }`, { id: args.productId })
+      : await queryAdmin(admin, `#graphql
+          query chatProductByHandle($handle: String!) {
+            product: productByIdentifier(identifier: { handle: $handle }) { ${fields} }
+          }`, { handle: args.handle });
+
+    const node = data?.product;
+    if (!node) {
+      return { output: { found: false } };
+    }
+
+    const product = toProduct(node);
+    return {
+      output: {
+        found: true,
+        ...product,
+        vendor: node.vendor,
+        productType: node.productType,
+        variants: (node.allVariants?.edges || []).map((edge: any) => ({
+          id: edge.node.id,
+          title: edge.node.title,
+          price: edge.node.price,
+          compareAtPrice: edge.node.compareAtPrice,
+          available: edge.node.availableForSale,
+        })),
+      },
+      products: [product],
+    };
+  },
+});
+
+const getVariantAvailability = defineTool({
+  description: "Check which variants (size, color, ...) of a product are in stock. Optionally filter by option values.",
+  parameters: {
+    type: "object",
+    properties: {
+      productId: { type: "string" },
+      options: {
+        type: "object",
+        description: "Option values to match, e.g. {\"Size\": \"M\", \"Color\": \"Blue\"}",
+        additionalProperties: { type: "string" },
+      },
+    },
+    required: ["productId"],
+  },
+  schema: z.object({
+    productId: productIdSchema,
+    options: z.record(z.string()).optional(),
+  }),
+  async run(args, { admin }) {
+    const data = await queryAdmin(
+      admin,
+      `#graphql
+      query chatVariantAvailability($id: ID!) {
+        product(id: $id) {
+          id
+          title
+          variants(first: 100) {
+            edges {
+              node { id title price availableForSale selectedOptions { name value } }
+            }
+          }
+        }
+      }`,
+      { id: args.productId }
+    );
+
+    if (!data?.product) {
+      return { output: { found: false } };
+    }
+
+    const wanted = Object.entries(args.options || {}).map(([name, value]) => [name.toLowerCase(), value.toLowerCase()]);
+    const variants = (data.product.variants?.edges || [])
+      .map((edge: any) => edge.node)
+      .filter((variant: any) => wanted.every(([name, value]) =>
+        (variant.selectedOptions || []).some((option: { name: string; value: string }) =>
+          option.name.toLowerCase() === name && option.value.toLowerCase() === value
+        )
+      ))
+      .map((variant: any) => ({
+        id: variant.id,
+        title: variant.title,
+        price: variant.price,
+        available: variant.availableForSale,
+      }));
+
+    return {
+      output: {
+        found: true,
+        productId: data.product.id,
+        title: data.product.title,
+        anyAvailable: variants.some((variant: { available: boolean }) => variant.available),
+        variants,
+      },
+    };
+  },
+});
+
+const POLICY_TYPES = ["returns", "shipping", "privacy", "terms_of_service", "contact"] as const;
+
+const getPolicy = defineTool({
+  description: "Get one of the store's policies, or its contact details.",
+  parameters: {
+    type: "object",
+    properties: {
+      type: { type: "string", enum: [...POLICY_TYPES] },
+    },
+    required: ["type"],
+  },
+  schema: z.object({
+    type: z.enum(POLICY_TYPES),
+  }),
+  async run(args, { shop, admin }) {
+    const policies = await shopPoliciesService.getPolicies(shop, admin);
+    if (!policies) {
+      return { output: { type: args.type, text: null, note: "The store policies could not be loaded" } };
+    }
+
+    if (args.type === "contact") {
+      return { output: { email: policies.contactEmail, phone: policies.contactPhone } };
+    }
+
+    const body = {
+      returns: policies.returns,
+      shipping: policies.shipping,
+      privacy: policies.privacy,
+      terms_of_service: policies.termsOfService,
+    }[args.type];
+
+    return {
+      output: body
+        ? { type: args.type, text: truncate(htmlToText(body), MAX_POLICY_LENGTH) }
+        : { type: args.type, text: null, note: "The store has not published this policy" },
+    };
+  },
+});
+
+const lookupOrderTool = defineTool({
+  description: "Look up the status and tracking of an order. Requires the order number and the email used for the order (not needed for logged-in customers).",
+  parameters: {
+    type: "object",
+    properties: {
+      orderNumber: { type: "string", description: "e.g. \"#1001\" or \"1001\"" },
+      email: { type: "string" },
+    },
+    required: ["orderNumber"],
+  },
+  schema: z.object({
+    orderNumber: z.string().regex(/^#?\s*[A-Za-z0-9-]{1,30}$/, "Invalid order number"),
+    email: z.string().email().max(254).optional(),
+  }),
+  async run(args, { shop, admin, customerId, visitorId }) {
+    const lookup = await lookupOrder(admin, shop, { ...args, customerId, visitorId });
+
+    switch (lookup.status) {
+      case "found":
+        return { output: { found: true, ...lookup.order }, order: lookup.order };
+      case "needs_verification":
+        return { output: { found: false, note: "Ask the customer for the email address used for the order" } };
+      case "rate_limited":
+        return { output: { found: false, note: "Too many order lookups. Ask the customer to try again later." } };
+      case "not_found":
+        return { output: { found: false, note: "No order matches this order number and email" } };
+    }
+  },
+});
+
+const addToCartLink = defineTool({
+  description: "Create a link that adds product variants to the cart and opens it. Use variant ids from get_product_details or get_variant_availability.",
+  parameters: {
+    type: "object",
+    properties: {
+      items: {
+        type: "array",
+        items: {
+          type: "object",
+          properties: {
+            variantId: { type: "string" },
+            quantity: { type: "integer", minimum: 1, maximum: MAX_CART_QUANTITY },
+          },
+          required: ["variantId"],
+        },
+      },
+    },
+    required: ["items"],
+  },
+  schema: z.object({
+    items: z.array(z.object({
+      variantId: z.string().regex(/^(gid:\/\/shopify\/ProductVariant\/)?\d+$/, "Invalid variant id"),
+      quantity: z.number().int().min(1).max(MAX_CART_QUANTITY).default(1),
+    })).min(1).max(10),
+  }),
+  async run(args, { shop }) {
+    const lines = args.items.map(item => `${numericId(toVariantGid(item.variantId))}:${item.quantity}`);
+    return { output: { url: `https://${shop}/cart/${lines.join(",")}` } };
+  },
+});
+
+const TOOLS = {
+  search_products: searchProducts,
+  get_product_details: getProductDetails,
+  get_variant_availability: getVariantAvailability,
+  get_policy: getPolicy,
+  lookup_order: lookupOrderTool,
+  add_to_cart_link: addToCartLink,
+} satisfies Record<string, ChatToolDefinition<any>>;
+
+export type ChatToolName = keyof typeof TOOLS;
+
+export const CHAT_TOOL_NAMES = Object.keys(TOOLS) as ChatToolName[];
+
+/**
+ * Tool definitions passed to the LLM provider
+ */
+export function getChatToolDefinitions(): LLMToolDefinition[] {
+  return CHAT_TOOL_NAMES.map(name => ({
+    name,
+    description: TOOLS[name].description,
+    parameters: TOOLS[name].parameters,
+  }));
+}
+
+function redactArguments(args: unknown): Record<string, unknown> {
+  if (!args || typeof args !== "object") return {};
+  return Object.fromEntries(
+    Object.entries(args).map(([key, value]) => [key, REDACTED_ARGUMENTS.includes(key) ? "[redacted]" : value])
+  );
+}
+
+/**
+ * Run a tool call from the model. Never throws: failures are returned as `{ error }`.
+ */
+export async function executeChatTool(
+  name: string,
+  rawArguments: string,
+  context: ChatToolContext
+): Promise<{ result: ChatToolResult; call: ChatToolCall }> {
+  const startTime = Date.now();
+  let args: unknown = {};
+
+  const fail = (error: string) => ({
+    result: { output: { error } },
+    call: { name, arguments: redactArguments(args), success: false, durationMs: Date.now() - startTime, error },
+  });
+
+  const tool = (TOOLS as Record<string, ChatToolDefinition<any>>)[name];
+  if (!tool) {
+    return fail(`Unknown tool: ${name}`);
+  }
+
+  try {
+    args = rawArguments ? JSON.parse(rawArguments) : {};
+  } catch {
+    return fail("Arguments are not valid JSON");
+  }
+
+  const parsed = tool.schema.safeParse(args);
+  if (!parsed.success) {
+    return fail(parsed.error.issues.map((issue: z.ZodIssue) => issue.message).join(", "));
+  }
+
+  try {
+    const result = await tool.run(parsed.data, context);
+    const call = { name, arguments: redactArguments(args), success: true, durationMs: Date.now() - startTime };
+    logger.debug({ shop: context.shop, ...call }, "Chat tool called");
+    return { result, call };
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    logger.warn({ shop: context.shop, tool: name, error: message }, "Chat tool failed");
+    return fail("The lookup failed, try again or answer without it");
+  }
+}
@@ -0,0 +1,22 @@
+/**
+ * Customer Data Requests (customers/data_request)
+ *
+ * Shared by the data requests page and the data export service.
+ */
+
+// pending: archive being built, ready: archive can be downloaded, fulfilled: sent to the
+// customer (marked by the merchant), failed: the archive could not be built
+export const DATA_REQUEST_STATUSES = ["pending", "ready", "fulfilled", "failed"] as const;
+
+export type DataRequestStatus = (typeof DATA_REQUEST_STATUSES)[number];
+
+// Records of each type in an export archive (one CSV per type)
+export interface DataExportCounts {
+  profiles: number;
+  chatSessions: number;
+  chatMessages: number;
+  ratings: number;
+  clicks: number;
+  conversations: number;
+  orders: number;
+}
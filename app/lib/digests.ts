@@ -0,0 +1,13 @@
+/**
+ * Analytics Digests
+ *
+ * Shared by the settings page and the digest service.
+ */
+
+export const DIGEST_FREQUENCIES = ["off", "weekly", "monthly"] as const;
+
+export type DigestFrequency = (typeof DIGEST_FREQUENCIES)[number];
+
+export function isDigestFrequency(value: unknown): value is DigestFrequency {
+  return typeof value === "string" && (DIGEST_FREQUENCIES as readonly string[]).includes(value);
+}
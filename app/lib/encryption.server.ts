@@ -1,8 +1,16 @@
 /**
  * Encryption Utility for Securing Sensitive Data
  *
- * Uses AES-256-GCM encryption for storing sensitive information like API keys
- * Requires ENCRYPTION_KEY environment variable (32-byte hex string)
+ * Uses AES-256-GCM encryption for storing sensitive information like API keys.
+ *
+ * Keys come from a keyring so they can be rotated:
+ * - ENCRYPTION_KEYS: comma-separated `id:hex` pairs (32-byte keys), all usable for decryption
+ * - ENCRYPTION_KEY_ID: the key new data is encrypted with (defaults to the first one)
+ * - ENCRYPTION_KEY: single key from before rotation support; joins the keyring as "default"
+ *
+ * Ciphertexts are `v2:<keyId>:iv:authTag:data`. Values from before the keyring
+ * (`iv:authTag:data`) still decrypt with any key in the keyring; `npm run reencrypt-secrets`
+ * moves everything to the current key.
  */
 
 import { createCipheriv, createDecipheriv, randomBytes } from 'crypto';
@@ -11,28 +19,25 @@ const ALGORITHM = 'aes-256-gcm';
 const IV_LENGTH = 16; // For AES, this is always 16
 const AUTH_TAG_LENGTH = 16;
 
-/**
- * Get encryption key from environment variable
- * @throws {Error} if ENCRYPTION_KEY is not set or invalid
- */
-function getEncryptionKey(): Buffer {
-  const encryptionKey = process.env.ENCRYPTION_KEY;
+const CIPHERTEXT_VERSION = 'v2';
+const LEGACY_KEY_ID = 'default';
+const KEY_ID_PATTERN = /^[A-Za-z0-9_-]+$/;
 
-  if (!encryptionKey) {
-    throw new Error(
-      'ENCRYPTION_KEY environment variable is not set. ' +
-      'Generate one with: node -e "console.log(require(\'crypto\').randomBytes(32).toString(\'hex\'))"'
-    );
-  }
+const GENERATE_HINT =
+  'Generate one with: node -e "console.log(require(\'crypto\').randomBytes(32).toString(\'hex\'))"';
 
-  // Convert hex string to buffer
-  const keyBuffer = Buffer.from(encryptionKey, 'hex');
+export interface Keyring {
+  currentKeyId: string;
+  keys: Map<string, Buffer>;
+}
+
+function parseKey(id: string, hex: string): Buffer {
+  const keyBuffer = Buffer.from(hex.trim(), 'hex');
 
   if (keyBuffer.length !== 32) {
     throw new Error(
-      'ENCRYPTION_KEY must be a 32-byte hex string (64 hex characters). ' +
-      'Current length: ' + keyBuffer.length + ' bytes. ' +
-      'Generate a new one with: node -e "console.log(require(\'crypto\').randomBytes(32).toString(\'hex\'))"'
+      `Encryption key "${id}" must be a 32-byte hex string (64 hex characters). ` +
+      'Current length: ' + keyBuffer.length + ' bytes. ' + GENERATE_HINT
     );
   }
 
@@ -40,14 +45,106 @@ function getEncryptionKey(): Buffer {
 }
 
 /**
- * Encrypt a string using AES-256-GCM
+ * Read the keyring from ENCRYPTION_KEYS / ENCRYPTION_KEY_ID / ENCRYPTION_KEY
+ * @throws {Error} if no key is configured or a key is invalid
+ */
+export function getKeyring(): Keyring {
+  const keys = new Map<string, Buffer>();
+
+  for (const entry of (process.env.ENCRYPTION_KEYS || '').split(',')) {
+    if (!entry.trim()) continue;
+
+    const separator = entry.indexOf(':');
+    const id = entry.slice(0, separator).trim();
+    if (separator < 0 || !KEY_ID_PATTERN.test(id)) {
+      throw new Error('ENCRYPTION_KEYS must be comma-separated "id:hexKey" pairs (ids: letters, digits, - and _)');
+    }
+    keys.set(id, parseKey(id, entry.slice(separator + 1)));
+  }
+
+  const legacyKey = process.env.ENCRYPTION_KEY;
+  if (legacyKey && !keys.has(LEGACY_KEY_ID)) {
+    keys.set(LEGACY_KEY_ID, parseKey('ENCRYPTION_KEY', legacyKey));
+  }
+
+  if (keys.size === 0) {
+    throw new Error('ENCRYPTION_KEY environment variable is not set. ' + GENERATE_HINT);
+  }
+
+  const currentKeyId = process.env.ENCRYPTION_KEY_ID || keys.keys().next().value!;
+  if (!keys.has(currentKeyId)) {
+    throw new Error(`ENCRYPTION_KEY_ID "${currentKeyId}" is not in ENCRYPTION_KEYS`);
+  }
+
+  return { currentKeyId, keys };
+}
+
+/**
+ * Encrypt with a raw 32-byte key
+ *
+ * @returns iv:authTag:encryptedData (all hex encoded)
+ */
+export function encryptWithKey(plaintext: string, key: Buffer): string {
+  const iv = randomBytes(IV_LENGTH);
+  const cipher = createCipheriv(ALGORITHM, key, iv, { authTagLength: AUTH_TAG_LENGTH });
+
+  let encrypted = cipher.update(plaintext, 'utf8', 'hex');
+  encrypted += cipher.final('hex');
+
+  const authTag = cipher.getAuthTag();
+
+  return `${iv.toString('hex')}:${authTag.toString('hex')}:${encrypted}`;
+}
+
+/**
+ * Decrypt iv:authTag:encryptedData produced by encryptWithKey
+ */
+export function decryptWithKey(payload: string, key: Buffer): string {
+  const parts = payload.split(':');
+
+  if (parts.length !== 3) {
+    throw new Error('Invalid encrypted format. Expected format: iv:authTag:encryptedData');
+  }
+
+  const [ivHex, authTagHex, encryptedHex] = parts;
+
+  const decipher = createDecipheriv(ALGORITHM, key, Buffer.from(ivHex, 'hex'), { authTagLength: AUTH_TAG_LENGTH });
+  decipher.setAuthTag(Buffer.from(authTagHex, 'hex'));
+
+  let decrypted = decipher.update(Buffer.from(encryptedHex, 'hex'), undefined, 'utf8');
+  decrypted += decipher.final('utf8');
+
+  return decrypted;
+}
+
+/**
+ * Key id a ciphertext was encrypted with: null for values from before the keyring,
+ * undefined if it isn't a master-key ciphertext at all (e.g. encrypted with a shop data key)
+ */
+export function getCiphertextKeyId(encrypted: string): string | null | undefined {
+  const parts = encrypted.split(':');
+  if (parts.length === 3) return null;
+  if (parts.length === 5 && parts[0] === CIPHERTEXT_VERSION) return parts[1];
+  return undefined;
+}
+
+/**
+ * Whether a master-key ciphertext should be re-encrypted with the current key
+ */
+export function needsReencryption(encrypted: string, keyring: Keyring = getKeyring()): boolean {
+  const keyId = getCiphertextKeyId(encrypted);
+  return keyId !== undefined && keyId !== keyring.currentKeyId;
+}
+
+/**
+ * Encrypt a string using AES-256-GCM with the current key
  *
  * @param plaintext - The text to encrypt (e.g., API key)
- * @returns Encrypted string in format: iv:authTag:encryptedData (all hex encoded)
+ * @returns Encrypted string in format: v2:keyId:iv:authTag:encryptedData (all hex encoded)
  *
  * @example
  * const encrypted = encryptApiKey('sk-proj-abc123...');
- * // Returns: "a1b2c3d4....:e5f6g7h8....:i9j0k1l2...."
+ * // Returns: "v2:2026-02:a1b2c3d4....:e5f6g7h8....:i9j0k1l2...."
  */
 export function encryptApiKey(plaintext: string): string {
   if (!plaintext || typeof plaintext !== 'string') {
@@ -55,17 +152,8 @@ export function encryptApiKey(plaintext: string): string {
   }
 
   try {
-    const key = getEncryptionKey();
-    const iv = randomBytes(IV_LENGTH);
-    const cipher = createCipheriv(ALGORITHM, key, iv);
-
-    let encrypted = cipher.update(plaintext, 'utf8', 'hex');
-    encrypted += cipher.final('hex');
-
-    const authTag = cipher.getAuthTag();
-
-    // Return in format: iv:authTag:encryptedData
-    return `${iv.toString('hex')}:${authTag.toString('hex')}:${encrypted}`;
+    const { currentKeyId, keys } = getKeyring();
+    return `${CIPHERTEXT_VERSION}:${currentKeyId}:${encryptWithKey(plaintext, keys.get(currentKeyId)!)}`;
   } catch (error) {
     throw new Error(
       `Encryption failed: ${error instanceof Error ? error.message : 'Unknown error'}`
@@ -74,13 +162,14 @@ export function encryptApiKey(plaintext: string): string {
 }
 
 /**
- * Decrypt a string that was encrypted with encryptApiKey
+ * Decrypt a string that was encrypted with encryptApiKey, with whichever keyring key it names
+ * (values from before the keyring are tried with every key)
  *
- * @param encrypted - Encrypted string in format: iv:authTag:encryptedData
+ * @param encrypted - Encrypted string in format: v2:keyId:iv:authTag:encryptedData
  * @returns Decrypted plaintext
  *
  * @example
- * const decrypted = decryptApiKey('a1b2c3d4....:e5f6g7h8....:i9j0k1l2....');
+ * const decrypted = decryptApiKey('v2:2026-02:a1b2c3d4....:e5f6g7h8....:i9j0k1l2....');
  * // Returns: "sk-proj-abc123..."
  */
 export function decryptApiKey(encrypted: string): string {
@@ -89,28 +178,29 @@ export function decryptApiKey(encrypted: string): string {
   }
 
   try {
-    const parts = encrypted.split(':');
+    const { keys } = getKeyring();
+    const keyId = getCiphertextKeyId(encrypted);
 
-    if (parts.length !== 3) {
-      throw new Error(
-        'Invalid encrypted format. Expected format: iv:authTag:encryptedData'
-      );
+    if (keyId === undefined) {
+      throw new Error('Invalid encrypted format. Expected format: v2:keyId:iv:authTag:encryptedData');
     }
 
-    const [ivHex, authTagHex, encryptedHex] = parts;
-
-    const key = getEncryptionKey();
-    const iv = Buffer.from(ivHex, 'hex');
-    const authTag = Buffer.from(authTagHex, 'hex');
-    const encryptedData = Buffer.from(encryptedHex, 'hex');
-
-    const decipher = createDecipheriv(ALGORITHM, key, iv);
-    decipher.setAuthTag(authTag);
-
-    let decrypted = decipher.update(encryptedData, undefined, 'utf8');
-    decrypted += decipher.final('utf8');
+    if (keyId === null) {
+      for (const key of keys.values()) {
+        try {
+          return decryptWithKey(encrypted, key);
+        } catch {
+          // Wrong key - the auth tag doesn't match; try the next one
+        }
+      }
+      throw new Error('No key in the keyring decrypts this value');
+    }
 
-    return decrypted;
+    const key = keys.get(keyId);
+    if (!key) {
+      throw new Error(`Key "${keyId}" is not in the keyring`);
+    }
+    return decryptWithKey(encrypted.split(':').slice(2).join(':'), key);
   } catch (error) {
     throw new Error(
       `Decryption failed: ${error instanceof Error ? error.message : 'Unknown error'}. ` +
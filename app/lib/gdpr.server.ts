@@ -0,0 +1,375 @@
+/**
+ * GDPR Data Redaction
+ *
+ * Deletion logic for the customers/redact and shop/redact compliance webhooks.
+ * The webhook routes enqueue these as background jobs (see job-handlers.server.ts)
+ * so Shopify gets a response immediately; the job queue retries transient failures.
+ * A customer's records are matched the same way for redaction as for data exports
+ * (data-export.service.server.ts): by customer id and by email in chat messages and
+ * conversation logs.
+ */
+
+import type { Prisma } from "@prisma/client";
+import { prisma as db } from "../db.server";
+
+// Email addresses in free text, taken whole so "bob@x.com" never matches "jimbob@x.com"
+const EMAIL_PATTERN = /[\w.%+-]+@[\w-]+(?:\.[\w-]+)+/g;
+
+export interface CustomerIdentifiers {
+  customerId?: string | null;
+  customerEmail?: string | null;
+}
+
+export interface CustomerMatch {
+  // Where clause of the customer's user profiles, null when there is nothing to match by
+  profiles: Prisma.UserProfileWhereInput | null;
+  // Widget session ids of conversation logs that mention the customer's email
+  conversationSessionIds: string[];
+}
+
+export interface CustomerRedactionResult {
+  profilesDeleted: number;
+  chatSessions: number;
+  chatMessages: number;
+  conversations: number;
+  analyticsEvents: number;
+  dataExports: number;
+}
+
+export interface ShopRedactionResult {
+  sessions: number;
+  widgetSettings: number;
+  shopDataKeys: number;
+  productEmbeddings: number;
+  catalogSync: number;
+  chatMessages: number;
+  chatSessions: number;
+  chatConversions: number;
+  userProfiles: number;
+  chatAnalytics: number;
+  conversations: number;
+  byokUsage: number;
+  auditEvents: number;
+  retentionRuns: number;
+  dataExportRequests: number;
+  analyticsEvents: number;
+  faqEntries: number;
+  knowledgeChunks: number;
+  knowledgeDocuments: number;
+  shopPolicies: number;
+  intentRules: number;
+}
+
+/**
+ * Whether a text contains the email address itself (not merely as part of a longer address)
+ */
+export function mentionsEmail(text: string | null | undefined, email: string): boolean {
+  const wanted = email.trim().toLowerCase();
+  return (text?.match(EMAIL_PATTERN) || []).some(found => found.toLowerCase() === wanted);
+}
+
+/**
+ * Which records belong to a customer: profiles with the customer id, profiles whose chat
+ * messages mention the customer's email, and visitors whose conversation logs mention it
+ */
+export async function matchCustomer(shop: string, customer: CustomerIdentifiers): Promise<CustomerMatch> {
+  const { customerId, customerEmail } = customer;
+  const profileMatches: Prisma.UserProfileWhereInput[] = [];
+  let conversationSessionIds: string[] = [];
+
+  if (customerId) {
+    profileMatches.push({ customerId });
+  }
+
+  if (customerEmail) {
+    // The database narrows down by substring; only whole-address matches are kept
+    const mentions = { contains: customerEmail, mode: "insensitive" as const };
+    const [candidateMessages, candidateConversations] = await Promise.all([
+      db.chatMessage.findMany({
+        where: { session: { shop }, content: mentions },
+        select: { content: true, session: { select: { userProfileId: true } } },
+      }),
+      db.conversation.findMany({
+        where: { shop, OR: [{ message: mentions }, { response: mentions }] },
+        select: { sessionId: true, message: true, response: true },
+      }),
+    ]);
+    const messages = candidateMessages.filter(message => mentionsEmail(message.content, customerEmail));
+    const conversations = candidateConversations.filter(conversation =>
+      mentionsEmail(conversation.message, customerEmail) || mentionsEmail(conversation.response, customerEmail)
+    );
+
+    profileMatches.push({ id: { in: [...new Set(messages.map(message => message.session.userProfileId))] } });
+    conversationSessionIds = [...new Set(conversations.map(conversation => conversation.sessionId))];
+    profileMatches.push({ sessionId: { in: conversationSessionIds } });
+  }
+
+  return {
+    profiles: profileMatches.length > 0 ? { shop, OR: profileMatches } : null,
+    conversationSessionIds,
+  };
+}
+
+/**
+ * Delete all personal data stored for a customer of a shop: everything a data export of the
+ * same customer would contain
+ */
+export async function redactCustomerData(
+  shop: string,
+  customer: CustomerIdentifiers
+): Promise<CustomerRedactionResult> {
+  const result: CustomerRedactionResult = {
+    profilesDeleted: 0,
+    chatSessions: 0,
+    chatMessages: 0,
+    conversations: 0,
+    analyticsEvents: 0,
+    dataExports: 0,
+  };
+  const customerEmail = customer.customerEmail?.trim().toLowerCase() || null;
+
+  // Data export requests (archives of this customer's data), whether or not profiles remain
+  const exportMatches: Prisma.DataExportRequestWhereInput[] = [
+    ...(customer.customerId ? [{ customerId: customer.customerId }] : []),
+    ...(customerEmail ? [{ customerEmail }] : []),
+  ];
+  if (exportMatches.length > 0) {
+    const deletedExports = await db.dataExportRequest.deleteMany({
+      where: { shop, OR: exportMatches },
+    });
+    result.dataExports = deletedExports.count;
+  }
+
+  // Find all user profiles for this customer
+  const match = await matchCustomer(shop, { customerId: customer.customerId, customerEmail });
+  const userProfiles = match.profiles
+    ? await db.userProfile.findMany({
+        where: match.profiles,
+        select: { id: true, sessionId: true },
+      })
+    : [];
+
+  const profileIds = userProfiles.map(profile => profile.id);
+  // Widget session ids: the visitor id of the customer's analytics events and conversation logs
+  const visitorIds = [...new Set([...userProfiles.map(profile => profile.sessionId), ...match.conversationSessionIds])];
+  if (profileIds.length === 0 && visitorIds.length === 0) {
+    return result;
+  }
+
+  // Delete all related data in a transaction to ensure data integrity
+  await db.$transaction(async (tx: Prisma.TransactionClient) => {
+    const chatSessions = await tx.chatSession.findMany({
+      where: { userProfileId: { in: profileIds } },
+      select: { id: true },
+    });
+
+    const sessionIds = chatSessions.map((s: { id: string }) => s.id);
+
+    // Event log rows of the customer's visits and conversations (clicks, products, orders)
+    const deletedEvents = await tx.analyticsEvent.deleteMany({
+      where: {
+        shop,
+        OR: [{ visitorId: { in: visitorIds } }, { chatSessionId: { in: sessionIds } }],
+      },
+    });
+    result.analyticsEvents = deletedEvents.count;
+
+    if (sessionIds.length > 0) {
+      const deletedMessages = await tx.chatMessage.deleteMany({
+        where: { sessionId: { in: sessionIds } },
+      });
+      result.chatMessages = deletedMessages.count;
+
+      // Orders attributed to these conversations
+      await tx.chatConversion.deleteMany({
+        where: { chatSessionId: { in: sessionIds } },
+      });
+
+      const deletedSessions = await tx.chatSession.deleteMany({
+        where: { id: { in: sessionIds } },
+      });
+      result.chatSessions = deletedSessions.count;
+    }
+
+    // Conversation logs of the customer's visits
+    const deletedConversations = await tx.conversation.deleteMany({
+      where: { shop, sessionId: { in: visitorIds } },
+    });
+    result.conversations = deletedConversations.count;
+
+    const deletedProfiles = await tx.userProfile.deleteMany({
+      where: { id: { in: profileIds } },
+    });
+    result.profilesDeleted = deletedProfiles.count;
+
+    // Note: We keep aggregated analytics data (ChatAnalytics) as it doesn't contain
+    // personal information, only counts and averages.
+  });
+
+  return result;
+}
+
+/**
+ * Delete all data stored for a shop (48 hours after uninstall)
+ */
+export async function redactShopData(shop: string): Promise<ShopRedactionResult> {
+  return db.$transaction(async (tx: Prisma.TransactionClient) => {
+    const deletionStats: ShopRedactionResult = {
+      sessions: 0,
+      widgetSettings: 0,
+      shopDataKeys: 0,
+      productEmbeddings: 0,
+      catalogSync: 0,
+      chatMessages: 0,
+      chatSessions: 0,
+      chatConversions: 0,
+      userProfiles: 0,
+      chatAnalytics: 0,
+      conversations: 0,
+      byokUsage: 0,
+      auditEvents: 0,
+      retentionRuns: 0,
+      dataExportRequests: 0,
+      analyticsEvents: 0,
+      faqEntries: 0,
+      knowledgeChunks: 0,
+      knowledgeDocuments: 0,
+      shopPolicies: 0,
+      intentRules: 0,
+    };
+
+    // Step 1: Delete all chat messages for this shop
+    // (We need to do this first before deleting sessions due to foreign key constraints)
+    const chatSessions = await tx.chatSession.findMany({
+      where: { shop },
+      select: { id: true },
+    });
+
+    const sessionIds = chatSessions.map((s: { id: string }) => s.id);
+
+    if (sessionIds.length > 0) {
+      const deletedMessages = await tx.chatMessage.deleteMany({
+        where: { sessionId: { in: sessionIds } },
+      });
+      deletionStats.chatMessages = deletedMessages.count;
+    }
+
+    // Step 2: Delete attributed orders and all chat sessions
+    const deletedConversions = await tx.chatConversion.deleteMany({
+      where: { shop },
+    });
+    deletionStats.chatConversions = deletedConversions.count;
+
+    const deletedSessions = await tx.chatSession.deleteMany({
+      where: { shop },
+    });
+    deletionStats.chatSessions = deletedSessions.count;
+
+    // Step 3: Delete all user profiles
+    const deletedProfiles = await tx.userProfile.deleteMany({
+      where: { shop },
+    });
+    deletionStats.userProfiles = deletedProfiles.count;
+
+    // Step 4: Delete all product embeddings and catalog sync state
+    const deletedEmbeddings = await tx.productEmbedding.deleteMany({
+      where: { shop },
+    });
+    deletionStats.productEmbeddings = deletedEmbeddings.count;
+
+    const deletedCatalogSync = await tx.catalogSync.deleteMany({
+      where: { shop },
+    });
+    deletionStats.catalogSync = deletedCatalogSync.count;
+
+    // Step 5: Delete widget settings and the shop's data key
+    const deletedSettings = await tx.widgetSettings.deleteMany({
+      where: { shop },
+    });
+    deletionStats.widgetSettings = deletedSettings.count;
+
+    const deletedDataKeys = await tx.shopDataKey.deleteMany({
+      where: { shop },
+    });
+    deletionStats.shopDataKeys = deletedDataKeys.count;
+
+    // Step 6: Delete all analytics data
+    const deletedAnalytics = await tx.chatAnalytics.deleteMany({
+      where: { shop },
+    });
+    deletionStats.chatAnalytics = deletedAnalytics.count;
+
+    const deletedEvents = await tx.analyticsEvent.deleteMany({
+      where: { shop },
+    });
+    deletionStats.analyticsEvents = deletedEvents.count;
+
+    // Step 7: Delete all conversation records (for usage tracking)
+    const deletedConversations = await tx.conversation.deleteMany({
+      where: { shop },
+    });
+    deletionStats.conversations = deletedConversations.count;
+
+    // Step 8: Delete all BYOK usage records
+    const deletedByokUsage = await tx.byokUsage.deleteMany({
+      where: { shop },
+    });
+    deletionStats.byokUsage = deletedByokUsage.count;
+
+    // Step 9: Delete all sessions
+    // Note: This might already be done by webhooks.app.uninstalled, but we do it again to be sure
+    const deletedSessionRecords = await tx.session.deleteMany({
+      where: { shop },
+    });
+    deletionStats.sessions = deletedSessionRecords.count;
+
+    // Step 10: Delete the audit log (settings diffs include merchant data)
+    const deletedAuditEvents = await tx.auditEvent.deleteMany({
+      where: { shop },
+    });
+    deletionStats.auditEvents = deletedAuditEvents.count;
+
+    // Step 11: Delete the retention purge reports
+    const deletedRetentionRuns = await tx.retentionRun.deleteMany({
+      where: { shop },
+    });
+    deletionStats.retentionRuns = deletedRetentionRuns.count;
+
+    // Step 12: Delete customer data requests and their export archives
+    const deletedDataExportRequests = await tx.dataExportRequest.deleteMany({
+      where: { shop },
+    });
+    deletionStats.dataExportRequests = deletedDataExportRequests.count;
+
+    // Step 13: Delete the custom FAQ answers
+    const deletedFaqEntries = await tx.faqEntry.deleteMany({
+      where: { shop },
+    });
+    deletionStats.faqEntries = deletedFaqEntries.count;
+
+    // Step 14: Delete the knowledge base (chunks first, they reference their document)
+    const deletedKnowledgeChunks = await tx.knowledgeChunk.deleteMany({
+      where: { shop },
+    });
+    deletionStats.knowledgeChunks = deletedKnowledgeChunks.count;
+
+    const deletedKnowledgeDocuments = await tx.knowledgeDocument.deleteMany({
+      where: { shop },
+    });
+    deletionStats.knowledgeDocuments = deletedKnowledgeDocuments.count;
+
+    // Step 15: Delete the stored shop policies and contact details
+    const deletedShopPolicies = await tx.shopPolicies.deleteMany({
+      where: { shop },
+    });
+    deletionStats.shopPolicies = deletedShopPolicies.count;
+
+    // Step 16: Delete the custom intent rules
+    const deletedIntentRules = await tx.intentRule.deleteMany({
+      where: { shop },
+    });
+    deletionStats.intentRules = deletedIntentRules.count;
+
+    return deletionStats;
+  });
+}
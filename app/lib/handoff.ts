@@ -0,0 +1,24 @@
+/**
+ * Human Handoff States
+ *
+ * `ChatSession.status` values, shared by the chat route, the widget API and the admin inbox.
+ */
+
+export const CHAT_SESSION_STATUSES = [
+  // The assistant answers
+  "bot",
+  // The customer asked for a person; the assistant keeps answering until an agent joins
+  "waiting",
+  // A merchant agent owns the conversation; the assistant stays quiet
+  "agent",
+  "closed",
+] as const;
+
+export type ChatSessionStatus = (typeof CHAT_SESSION_STATUSES)[number];
+
+/**
+ * Statuses shown to the customer as a live conversation with the store team
+ */
+export function isHandoffActive(status: string | null | undefined): boolean {
+  return status === "waiting" || status === "agent";
+}
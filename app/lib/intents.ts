@@ -0,0 +1,105 @@
+/**
+ * Shared Intent Taxonomy
+ *
+ * Single source of truth for the intents the assistant understands.
+ * The chat route, the fallback engine and analytics all read from this list,
+ * so `ChatMessage.intent` and `ChatAnalytics.topIntents` use the same keys everywhere.
+ */
+
+export const INTENT_TYPES = [
+  // Product discovery (quick action buttons)
+  "BESTSELLERS",
+  "NEW_ARRIVALS",
+  "ON_SALE",
+  "RECOMMENDATIONS",
+  // Product questions
+  "PRODUCT_SEARCH",
+  "PRICE_INQUIRY",
+  "COMPARISON",
+  "AVAILABILITY",
+  "SIZE_FIT",
+  // Customer support (no products needed)
+  "SHIPPING_INFO",
+  "RETURNS",
+  "TRACK_ORDER",
+  "HELP_FAQ",
+  // Conversational
+  "GREETING",
+  "THANKS",
+  "GENERAL_CHAT",
+] as const;
+
+export type IntentType = (typeof INTENT_TYPES)[number];
+
+/**
+ * Where a classification came from
+ */
+export type IntentSource = "merchant_rule" | "rule" | "llm" | "default";
+
+/**
+ * Result of intent classification
+ */
+export interface Intent {
+  type: IntentType;
+  /** Confidence score between 0 and 1 */
+  confidence: number;
+  source: IntentSource;
+  /** Product search hint (e.g. "t-shirt", "shoe") when type is PRODUCT_SEARCH */
+  query?: string;
+  /** Id of the rule that matched, if any */
+  ruleId?: string;
+}
+
+export const SUPPORT_INTENTS: readonly IntentType[] = [
+  "SHIPPING_INFO",
+  "RETURNS",
+  "TRACK_ORDER",
+  "HELP_FAQ",
+];
+
+export const PRODUCT_INTENTS: readonly IntentType[] = [
+  "BESTSELLERS",
+  "NEW_ARRIVALS",
+  "ON_SALE",
+  "RECOMMENDATIONS",
+  "PRODUCT_SEARCH",
+  "PRICE_INQUIRY",
+  "COMPARISON",
+  "AVAILABILITY",
+  "SIZE_FIT",
+];
+
+/**
+ * Intent names used before the taxonomy was unified, mapped to their current key
+ */
+const LEGACY_INTENTS: Record<string, IntentType> = {
+  SHIPPING: "SHIPPING_INFO",
+  SUPPORT: "HELP_FAQ",
+  OTHER: "GENERAL_CHAT",
+};
+
+export function isIntentType(value: unknown): value is IntentType {
+  return typeof value === "string" && (INTENT_TYPES as readonly string[]).includes(value);
+}
+
+export function isSupportIntent(type: IntentType): boolean {
+  return SUPPORT_INTENTS.includes(type);
+}
+
+export function isProductIntent(type: IntentType): boolean {
+  return PRODUCT_INTENTS.includes(type);
+}
+
+/**
+ * Normalize a stored or model-produced intent name to the shared taxonomy.
+ * Unknown values (and legacy names like "OTHER") are mapped so older rows
+ * aggregate under the same keys as new ones.
+ */
+export function normalizeIntent(value: string | null | undefined): IntentType {
+  if (!value) return "GENERAL_CHAT";
+
+  const upper = value.trim().toUpperCase().replace(/[\s-]+/g, "_");
+  if (isIntentType(upper)) return upper;
+
+  return LEGACY_INTENTS[upper] || "GENERAL_CHAT";
+}
@@ -0,0 +1,150 @@
+/**
+ * Background Job Handlers
+ *
+ * Maps each job type from job-queue.server.ts to the service that does the work.
+ * Called once by the worker (scripts/job-worker.ts) and the /api/jobs/run endpoint.
+ */
+
+import { registerJobHandler } from "./job-queue.server";
+import { redactCustomerData, redactShopData } from "./gdpr.server";
+import { rebuildDailyAnalytics, parseAnalyticsDay } from "./analytics-events.server";
+import { createLogger } from "./logger.server";
+import { recordAuditEvent } from "./audit.server";
+import { unauthenticated } from "../shopify.server";
+import { personalizationService } from "../services/personalization.service";
+import { getEmbeddingService } from "../services/embedding.service";
+import { catalogSync } from "../services/catalog-sync.service.server";
+import { attributionService } from "../services/attribution.service.server";
+import { digestService } from "../services/digest.service.server";
+import { knowledgeBaseService } from "../services/knowledge-base.service.server";
+import { shopPoliciesService } from "../services/shop-policies.service.server";
+import { retentionService } from "../services/retention.service.server";
+import { dataExportService } from "../services/data-export.service.server";
+
+const logger = createLogger({ service: "JobHandlers" });
+
+let registered = false;
+
+function requireShop(shop: string | null): string {
+  if (!shop) {
+    throw new Error("Job is missing a shop");
+  }
+  return shop;
+}
+
+export function registerJobHandlers(): void {
+  if (registered) return;
+  registered = true;
+
+  registerJobHandler("analytics.update", async ({ data, occurredAt }, job) => {
+    await personalizationService.updateAnalytics(requireShop(job.shop), data, occurredAt ? new Date(occurredAt) : undefined);
+  });
+
+  registerJobHandler("analytics.rollup", async ({ day }, job) => {
+    await rebuildDailyAnalytics(requireShop(job.shop), parseAnalyticsDay(day));
+  });
+
+  registerJobHandler("analytics.digest", async ({ frequency }, job) => {
+    await digestService.runScheduledDigest(requireShop(job.shop), frequency);
+  });
+
+  registerJobHandler("personalization.learn", async ({ userProfileId, message, productIds }) => {
+    await personalizationService.learnPreferences(userProfileId, message, productIds);
+  });
+
+  registerJobHandler("embeddings.generate", async ({ products }, job) => {
+    await getEmbeddingService().batchGenerateProductEmbeddings(requireShop(job.shop), products);
+  });
+
+  registerJobHandler("catalog.product_sync", async ({ product }, job) => {
+    const result = await catalogSync.syncProduct(requireShop(job.shop), product);
+    logger.debug({ shop: job.shop, productId: product.id, result }, "Product synced");
+  });
+
+  registerJobHandler("catalog.product_delete", async ({ productId }, job) => {
+    await catalogSync.deleteProduct(requireShop(job.shop), productId);
+  });
+
+  registerJobHandler("catalog.bulk_finish", async ({ bulkOperationId }, job) => {
+    const shop = requireShop(job.shop);
+    const { admin } = await unauthenticated.admin(shop);
+    await catalogSync.completeBulkBackfill(shop, admin, bulkOperationId);
+  });
+
+  registerJobHandler("attribution.order", async ({ order }, job) => {
+    const result = await attributionService.recordOrder(requireShop(job.shop), order);
+    logger.debug({ shop: job.shop, orderId: order.orderId, result }, "Order processed for attribution");
+  });
+
+  registerJobHandler("knowledge.index", async ({ documentId }, job) => {
+    await knowledgeBaseService.indexDocument(requireShop(job.shop), documentId);
+  });
+
+  registerJobHandler("knowledge.import", async ({ kind }, job) => {
+    const shop = requireShop(job.shop);
+    const { admin } = await unauthenticated.admin(shop);
+    await knowledgeBaseService.importFromStore(shop, admin, kind);
+  });
+
+  registerJobHandler("policies.refresh", async (_payload, job) => {
+    const shop = requireShop(job.shop);
+    const { admin } = await unauthenticated.admin(shop);
+    await shopPoliciesService.refresh(shop, admin);
+  });
+
+  registerJobHandler("retention.schedule", async ({ day }) => {
+    await retentionService.enqueueShopPurges(day);
+  });
+
+  registerJobHandler("retention.purge", async ({ trigger }, job) => {
+    await retentionService.purgeShop(requireShop(job.shop), { trigger });
+  });
+
+  registerJobHandler("gdpr.customer_export", async ({ requestId }, job) => {
+    const shop = requireShop(job.shop);
+    const counts = await dataExportService.runExport(shop, requestId, job.attempts >= job.maxAttempts);
+    if (!counts) return;
+
+    await recordAuditEvent({
+      shop,
+      actor: { type: "system", id: "gdpr.customer_export" },
+      action: "gdpr.customerDataExported",
+      targetType: "DataExportRequest",
+      targetId: requestId,
+      metadata: { jobId: job.id, ...counts },
+    });
+  });
+
+  registerJobHandler("gdpr.export_expire", async ({ requestId }, job) => {
+    await dataExportService.expireArchive(requireShop(job.shop), requestId);
+  });
+
+  registerJobHandler("gdpr.customer_redact", async ({ customerId, customerEmail }, job) => {
+    const shop = requireShop(job.shop);
+    if (!customerId && !customerEmail) {
+      throw new Error("Customer redaction job has no customer id or email");
+    }
+    const result = await redactCustomerData(shop, { customerId, customerEmail });
+    logger.info({ shop, ...result }, "Customer data redacted");
+    // The customer id and email are not kept: the job queue clears them from the payload too
+    await recordAuditEvent({
+      shop,
+      actor: { type: "shopify", id: "customers/redact" },
+      action: "gdpr.customerRedacted",
+      metadata: { jobId: job.id, ...result },
+    });
+  });
+
+  registerJobHandler("gdpr.shop_redact", async (_payload, job) => {
+    const shop = requireShop(job.shop);
+    const result = await redactShopData(shop);
+    logger.info({ shop, deletionStats: result }, "Shop data redacted");
+    // Written after the shop's earlier events were deleted, as the record of the redaction
+    await recordAuditEvent({
+      shop,
+      actor: { type: "shopify", id: "shop/redact" },
+      action: "gdpr.shopRedacted",
+      metadata: { jobId: job.id, ...result },
+    });
+  });
+}
@@ -0,0 +1,336 @@
+/**
+ * Background Job Queue
+ *
+ * Postgres-backed queue for work that should not block a request:
+ * embeddings, analytics updates and webhook follow-up work.
+ *
+ * - Jobs are claimed with FOR UPDATE SKIP LOCKED, so several workers can run side by side
+ * - Failed jobs are retried with exponential backoff; after `maxAttempts` they move
+ *   to the dead-letter state ("dead") and can be requeued with retryJob()
+ * - An idempotency key makes enqueueing safe for redelivered webhooks
+ * - GDPR jobs lose their payload (customer ids) once they complete or go dead, so they
+ *   can't be requeued
+ *
+ * Handlers are registered in job-handlers.server.ts and run by scripts/job-worker.ts
+ * (or the /api/jobs/run endpoint on serverless hosts).
+ */
+
+import { prisma as db } from "../db.server";
+import { createLogger, logError } from "./logger.server";
+import { JOBS } from "../config/limits";
+import type { AnalyticsUpdate } from "../services/personalization.service";
+import type { Product } from "../services/embedding.service";
+import type { ProductWebhookPayload } from "../services/catalog-sync.service.server";
+import type { AttributableOrder } from "../services/attribution.service.server";
+import type { ScheduledDigestFrequency } from "../services/digest.service.server";
+import type { KnowledgeImportKind } from "./knowledge";
+import type { RetentionRunTrigger } from "./retention";
+
+const logger = createLogger({ service: "JobQueue" });
+
+/**
+ * Payload of each job type
+ */
+export interface JobPayloads {
+  // occurredAt: when the message or click happened (ISO), so worker lag doesn't move it to another day
+  "analytics.update": { data: AnalyticsUpdate; occurredAt?: string };
+  // Rebuild the shop's ChatAnalytics row for a day ("YYYY-MM-DD", server time)
+  "analytics.rollup": { day: string };
+  "analytics.digest": { frequency: ScheduledDigestFrequency };
+  "personalization.learn": { userProfileId: string; message: string; productIds: string[] };
+  "embeddings.generate": { products: Product[] };
+  "catalog.product_sync": { product: ProductWebhookPayload };
+  "catalog.product_delete": { productId: string };
+  "catalog.bulk_finish": { bulkOperationId: string };
+  "attribution.order": { order: AttributableOrder };
+  "knowledge.index": { documentId: string };
+  "knowledge.import": { kind: KnowledgeImportKind };
+  "policies.refresh": Record<string, never>;
+  // Queues the day's retention.purge job of every shop ("YYYY-MM-DD", UTC)
+  "retention.schedule": { day: string };
+  "retention.purge": { trigger: RetentionRunTrigger };
+  "gdpr.customer_export": { requestId: string };
+  // Deletes the export archive once it has expired (scheduled for DataExportRequest.expiresAt)
+  "gdpr.export_expire": { requestId: string };
+  "gdpr.customer_redact": { customerId?: string | null; customerEmail?: string | null };
+  "gdpr.shop_redact": Record<string, never>;
+}
+
+export type JobType = keyof JobPayloads;
+
+export type JobStatus = "pending" | "running" | "completed" | "dead";
+
+export interface JobContext {
+  id: string;
+  shop: string | null;
+  attempts: number;
+  maxAttempts: number;
+}
+
+export type JobHandler<T extends JobType = JobType> = (
+  payload: JobPayloads[T],
+  job: JobContext
+) => Promise<void>;
+
+export interface EnqueueOptions {
+  shop?: string | null;
+  // Jobs with the same key are only enqueued once (e.g. `webhook:<X-Shopify-Webhook-Id>`)
+  idempotencyKey?: string;
+  runAt?: Date;
+  maxAttempts?: number;
+}
+
+export interface EnqueueResult {
+  id: string;
+  status: JobStatus;
+  deduplicated: boolean;
+}
+
+interface ClaimedJob {
+  id: string;
+  type: string;
+  shop: string | null;
+  payload: string;
+  attempts: number;
+  maxAttempts: number;
+}
+
+// Job types whose payload is cleared once the job is done with it
+const CLEARED_PAYLOAD_PREFIX = "gdpr.";
+
+const handlers = new Map<string, JobHandler<any>>();
+
+export function registerJobHandler<T extends JobType>(type: T, handler: JobHandler<T>): void {
+  handlers.set(type, handler);
+}
+
+/**
+ * Delay before the next attempt: base * 2^(attempt - 1), capped
+ */
+export function computeBackoffMs(
+  attempt: number,
+  baseMs: number = JOBS.BACKOFF_BASE_MS,
+  maxMs: number = JOBS.BACKOFF_MAX_MS
+): number {
+  const exponent = Math.max(0, attempt - 1);
+  return Math.min(baseMs * Math.pow(2, exponent), maxMs);
+}
+
+/**
+ * Add a job to the queue
+ */
+export async function enqueueJob<T extends JobType>(
+  type: T,
+  payload: JobPayloads[T],
+  options: EnqueueOptions = {}
+): Promise<EnqueueResult> {
+  const data = {
+    type,
+    shop: options.shop ?? null,
+    payload: JSON.stringify(payload),
+    maxAttempts: options.maxAttempts ?? JOBS.MAX_ATTEMPTS,
+    runAt: options.runAt ?? new Date(),
+    idempotencyKey: options.idempotencyKey ?? null,
+  };
+
+  try {
+    const job = await db.job.create({ data, select: { id: true, status: true } });
+    logger.debug({ jobId: job.id, type, shop: data.shop }, "Job enqueued");
+    return { id: job.id, status: job.status as JobStatus, deduplicated: false };
+  } catch (error) {
+    // Unique violation on idempotencyKey: the job already exists
+    if (options.idempotencyKey && (error as { code?: string })?.code === "P2002") {
+      const existing = await db.job.findUnique({
+        where: { idempotencyKey: options.idempotencyKey },
+        select: { id: true, status: true },
+      });
+      if (existing) {
+        logger.debug({ jobId: existing.id, type }, "Duplicate job skipped");
+        return { id: existing.id, status: existing.status as JobStatus, deduplicated: true };
+      }
+    }
+    throw error;
+  }
+}
+
+/**
+ * Enqueue without failing the caller; used from request handlers where the
+ * background work is best-effort (analytics, preference learning)
+ */
+export async function enqueueJobSafe<T extends JobType>(
+  type: T,
+  payload: JobPayloads[T],
+  options: EnqueueOptions = {}
+): Promise<EnqueueResult | null> {
+  try {
+    return await enqueueJob(type, payload, options);
+  } catch (error) {
+    logError(error, "Failed to enqueue job", { type, shop: options.shop });
+    return null;
+  }
+}
+
+/**
+ * Atomically claim due jobs for a worker
+ */
+export async function claimJobs(workerId: string, limit: number = JOBS.BATCH_SIZE): Promise<ClaimedJob[]> {
+  return db.$queryRaw<ClaimedJob[]>`
+    UPDATE "Job"
+    SET "status" = 'running',
+        "lockedAt" = NOW(),
+        "lockedBy" = ${workerId},
+        "attempts" = "attempts" + 1,
+        "updatedAt" = NOW()
+    WHERE "id" IN (
+      SELECT "id" FROM "Job"
+      WHERE "status" = 'pending' AND "runAt" <= NOW()
+      ORDER BY "runAt" ASC
+      LIMIT ${limit}
+      FOR UPDATE SKIP LOCKED
+    )
+    RETURNING "id", "type", "shop", "payload", "attempts", "maxAttempts"
+  `;
+}
+
+/**
+ * Run one claimed job and record the outcome
+ */
+async function runJob(job: ClaimedJob): Promise<boolean> {
+  const handler = handlers.get(job.type);
+  const context: JobContext = {
+    id: job.id,
+    shop: job.shop,
+    attempts: job.attempts,
+    maxAttempts: job.maxAttempts,
+  };
+
+  const clearedPayload = job.type.startsWith(CLEARED_PAYLOAD_PREFIX) ? { payload: "{}" } : {};
+
+  try {
+    if (!handler) {
+      throw new Error(`No handler registered for job type "${job.type}"`);
+    }
+
+    await handler(JSON.parse(job.payload), context);
+
+    await db.job.update({
+      where: { id: job.id },
+      data: {
+        status: "completed",
+        completedAt: new Date(),
+        lockedAt: null,
+        lockedBy: null,
+        lastError: null,
+        ...clearedPayload,
+      },
+    });
+
+    logger.debug({ jobId: job.id, type: job.type }, "Job completed");
+    return true;
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    const dead = !handler || job.attempts >= job.maxAttempts;
+
+    await db.job.update({
+      where: { id: job.id },
+      data: {
+        status: dead ? "dead" : "pending",
+        runAt: dead ? undefined : new Date(Date.now() + computeBackoffMs(job.attempts)),
+        lockedAt: null,
+        lockedBy: null,
+        lastError: message.substring(0, 2000),
+        ...(dead ? clearedPayload : {}),
+      },
+    });
+
+    logError(error, dead ? "Job moved to dead-letter state" : "Job failed, will retry", {
+      jobId: job.id,
+      type: job.type,
+      shop: job.shop,
+      attempts: job.attempts,
+    });
+    return false;
+  }
+}
+
+/**
+ * Claim and run one batch of due jobs
+ */
+export async function processJobs(
+  workerId: string,
+  limit: number = JOBS.BATCH_SIZE
+): Promise<{ processed: number; failed: number }> {
+  const jobs = await claimJobs(workerId, limit);
+  let failed = 0;
+
+  for (const job of jobs) {
+    const succeeded = await runJob(job);
+    if (!succeeded) failed++;
+  }
+
+  return { processed: jobs.length, failed };
+}
+
+/**
+ * Release jobs whose worker died mid-run
+ */
+export async function recoverStaleJobs(staleMs: number = JOBS.STALE_LOCK_MS): Promise<number> {
+  const recovered = await db.$executeRaw`
+    UPDATE "Job"
+    SET "status" = CASE WHEN "attempts" >= "maxAttempts" THEN 'dead' ELSE 'pending' END,
+        "payload" = CASE
+          WHEN "attempts" >= "maxAttempts" AND "type" LIKE ${`${CLEARED_PAYLOAD_PREFIX}%`} THEN '{}'
+          ELSE "payload"
+        END,
+        "lastError" = COALESCE("lastError", 'Worker lock expired'),
+        "lockedAt" = NULL,
+        "lockedBy" = NULL,
+        "updatedAt" = NOW()
+    WHERE "status" = 'running' AND "lockedAt" < ${new Date(Date.now() - staleMs)}
+  `;
+
+  if (recovered > 0) {
+    logger.warn({ recovered }, "Recovered stale jobs");
+  }
+  return recovered;
+}
+
+/**
+ * Requeue a dead job (resets its attempts). GDPR jobs can't be requeued: their payload is gone.
+ */
+export async function retryJob(id: string): Promise<boolean> {
+  const result = await db.job.updateMany({
+    where: { id, status: "dead", NOT: { type: { startsWith: CLEARED_PAYLOAD_PREFIX } } },
+    data: { status: "pending", attempts: 0, runAt: new Date(), lastError: null },
+  });
+  return result.count > 0;
+}
+
+/**
+ * Delete completed jobs older than the retention window
+ */
+export async function purgeCompletedJobs(
+  retentionDays: number = JOBS.COMPLETED_RETENTION_DAYS
+): Promise<number> {
+  const cutoff = new Date(Date.now() - retentionDays * 24 * 60 * 60 * 1000);
+  const result = await db.job.deleteMany({
+    where: { status: "completed", completedAt: { lt: cutoff } },
+  });
+  return result.count;
+}
+
+/**
+ * Queue counts by status (for monitoring)
+ */
+export async function getJobStats(): Promise<Record<JobStatus, number>> {
+  const rows = await db.job.groupBy({
+    by: ["status"],
+    _count: { _all: true },
+  });
+
+  const stats: Record<JobStatus, number> = { pending: 0, running: 0, completed: 0, dead: 0 };
+  for (const row of rows) {
+    stats[row.status as JobStatus] = row._count._all;
+  }
+  return stats;
+}
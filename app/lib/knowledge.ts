@@ -0,0 +1,35 @@
+/**
+ * Knowledge Base
+ *
+ * Shared by the knowledge base page, the knowledge base service and the chat engines.
+ */
+
+export const KNOWLEDGE_DOCUMENT_TYPES = ["text", "page", "article", "policy"] as const;
+
+export type KnowledgeDocumentType = (typeof KNOWLEDGE_DOCUMENT_TYPES)[number];
+
+// Store content that can be imported through the Admin API
+export type KnowledgeImportKind = "pages" | "articles";
+
+export type KnowledgeDocumentStatus = "pending" | "ready" | "failed";
+
+// A chunk of a knowledge base document retrieved for a chat message
+export interface KnowledgePassage {
+  documentId: string;
+  type: KnowledgeDocumentType;
+  title: string;
+  url?: string | null;
+  content: string;
+  similarity: number;
+}
+
+// Source an answer was based on, shown under the assistant's reply
+export interface KnowledgeCitation {
+  type: "faq" | KnowledgeDocumentType;
+  title: string;
+  url?: string;
+}
+
+export function isKnowledgeImportKind(value: unknown): value is KnowledgeImportKind {
+  return value === "pages" || value === "articles";
+}
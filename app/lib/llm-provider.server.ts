@@ -0,0 +1,625 @@
+/**
+ * LLM Providers
+ *
+ * One interface for chat completion, embeddings and token accounting, with adapters for
+ * OpenAI, Azure OpenAI, Ollama (or any OpenAI-compatible server) and Anthropic.
+ * Services ask for a provider here instead of creating vendor SDK clients:
+ *
+ *   - getDefaultLLMProvider(): the app's provider (LLM_PROVIDER) for utility calls
+ *   - getEmbeddingProvider():  the app's embeddings provider (EMBEDDING_PROVIDER)
+ *   - resolveShopLLMConfig():  a shop's chat provider/model (WidgetSettings, BYOK key)
+ *
+ * Every chat() and embed() call returns token usage, which BYOK shops are billed on
+ * (recordLLMUsage).
+ */
+
+import { OpenAI, AzureOpenAI } from "openai";
+import { prisma as db } from "../db.server";
+import { createLogger } from "./logger.server";
+import { readLines } from "./stream-lines.server";
+import { AI, LLM, TIMEOUTS } from "../config/limits";
+import {
+  LLM_PROVIDER_INFO,
+  estimateLLMCost,
+  isLLMProviderName,
+  type LLMProviderName,
+} from "./llm-providers";
+
+const logger = createLogger({ service: "LLMProvider" });
+
+const ANTHROPIC_API_URL = "https://api.anthropic.com";
+const ANTHROPIC_VERSION = "2023-06-01";
+
+export interface LLMUsage {
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+}
+
+export interface LLMToolCall {
+  id: string;
+  name: string;
+  // JSON-encoded arguments, as produced by the model
+  arguments: string;
+}
+
+export type LLMMessage =
+  | { role: "system" | "user"; content: string }
+  | { role: "assistant"; content: string; toolCalls?: LLMToolCall[] }
+  | { role: "tool"; toolCallId: string; content: string };
+
+export interface LLMToolDefinition {
+  name: string;
+  description: string;
+  // JSON schema of the arguments
+  parameters: Record<string, unknown>;
+}
+
+export interface ChatCompletionRequest {
+  messages: LLMMessage[];
+  model?: string;
+  temperature?: number;
+  maxTokens?: number;
+  tools?: LLMToolDefinition[];
+  // Ask for a single JSON object as the reply
+  json?: boolean;
+  // Stream text deltas; the full text is still returned
+  onToken?: (token: string) => void;
+}
+
+export interface ChatCompletionResult {
+  content: string;
+  toolCalls: LLMToolCall[];
+  usage: LLMUsage;
+  model: string;
+}
+
+export interface EmbeddingResult {
+  embeddings: number[][];
+  usage: LLMUsage;
+  model: string;
+}
+
+export interface LLMProvider {
+  readonly name: LLMProviderName;
+  readonly chatModel: string;
+  // null when the provider can't create embeddings
+  readonly embeddingModel: string | null;
+  chat(request: ChatCompletionRequest): Promise<ChatCompletionResult>;
+  embed(input: string[], model?: string): Promise<EmbeddingResult>;
+}
+
+export interface LLMProviderConfig {
+  provider: LLMProviderName;
+  apiKey?: string | null;
+  chatModel?: string | null;
+  embeddingModel?: string | null;
+  // Azure resource endpoint, Ollama/compatible server URL, or an Anthropic proxy
+  baseUrl?: string | null;
+}
+
+function emptyUsage(): LLMUsage {
+  return { promptTokens: 0, completionTokens: 0, totalTokens: 0 };
+}
+
+function toUsage(promptTokens = 0, completionTokens = 0): LLMUsage {
+  return { promptTokens, completionTokens, totalTokens: promptTokens + completionTokens };
+}
+
+/**
+ * OpenAI, Azure OpenAI and OpenAI-compatible servers (Ollama, vLLM, LM Studio, ...)
+ */
+export class OpenAICompatibleProvider implements LLMProvider {
+  readonly name: LLMProviderName;
+  readonly chatModel: string;
+  readonly embeddingModel: string | null;
+  private client: OpenAI;
+
+  constructor(config: LLMProviderConfig & { chatModel: string }) {
+    this.name = config.provider;
+    this.chatModel = config.chatModel;
+    this.embeddingModel = config.embeddingModel ?? LLM_PROVIDER_INFO[config.provider].defaultEmbeddingModel;
+
+    const options = { timeout: TIMEOUTS.N8N_WEBHOOK_MS, maxRetries: 1 };
+
+    if (config.provider === "azure") {
+      // Deployments are passed as the model name
+      this.client = new AzureOpenAI({
+        ...options,
+        apiKey: config.apiKey || undefined,
+        endpoint: config.baseUrl || undefined,
+        apiVersion: LLM.AZURE_API_VERSION,
+      });
+    } else {
+      this.client = new OpenAI({
+        ...options,
+        // Local servers ignore the key, but the SDK requires one
+        apiKey: config.apiKey || (config.provider === "ollama" ? "ollama" : undefined),
+        baseURL: config.baseUrl || undefined,
+      });
+    }
+  }
+
+  async chat(request: ChatCompletionRequest): Promise<ChatCompletionResult> {
+    const model = request.model || this.chatModel;
+    const params = {
+      model,
+      messages: request.messages.map(toOpenAIMessage),
+      temperature: request.temperature,
+      max_tokens: request.maxTokens,
+      ...(request.json ? { response_format: { type: "json_object" as const } } : {}),
+      ...(request.tools?.length ? {
+        tools: request.tools.map(tool => ({
+          type: "function" as const,
+          function: { name: tool.name, description: tool.description, parameters: tool.parameters },
+        })),
+      } : {}),
+    };
+
+    if (!request.onToken) {
+      const response = await this.client.chat.completions.create(params);
+      const message = response.choices[0]?.message;
+      return {
+        content: message?.content || "",
+        toolCalls: (message?.tool_calls || [])
+          .filter(call => call.type === "function")
+          .map(call => ({ id: call.id, name: call.function.name, arguments: call.function.arguments })),
+        usage: toUsage(response.usage?.prompt_tokens, response.usage?.completion_tokens),
+        model,
+      };
+    }
+
+    const stream = await this.client.chat.completions.create({
+      ...params,
+      stream: true,
+      stream_options: { include_usage: true },
+    });
+
+    let content = "";
+    let usage = emptyUsage();
+    // Tool calls arrive in fragments, keyed by index
+    const toolCalls: LLMToolCall[] = [];
+
+    for await (const chunk of stream) {
+      if (chunk.usage) {
+        usage = toUsage(chunk.usage.prompt_tokens, chunk.usage.completion_tokens);
+      }
+
+      const delta = chunk.choices[0]?.delta;
+      if (delta?.content) {
+        content += delta.content;
+        request.onToken(delta.content);
+      }
+
+      for (const fragment of delta?.tool_calls || []) {
+        const call = toolCalls[fragment.index] ??= { id: "", name: "", arguments: "" };
+        if (fragment.id) call.id = fragment.id;
+        if (fragment.function?.name) call.name += fragment.function.name;
+        if (fragment.function?.arguments) call.arguments += fragment.function.arguments;
+      }
+    }
+
+    return { content, toolCalls: toolCalls.filter(Boolean), usage, model };
+  }
+
+  async embed(input: string[], model?: string): Promise<EmbeddingResult> {
+    const embeddingModel = model || this.embeddingModel;
+    if (!embeddingModel) {
+      throw new Error(`No embedding model configured for ${LLM_PROVIDER_INFO[this.name].label}`);
+    }
+
+    const response = await this.client.embeddings.create({ model: embeddingModel, input });
+
+    return {
+      embeddings: response.data
+        .sort((a, b) => a.index - b.index)
+        .map(item => item.embedding),
+      usage: toUsage(response.usage?.prompt_tokens, 0),
+      model: embeddingModel,
+    };
+  }
+}
+
+function toOpenAIMessage(message: LLMMessage): OpenAI.Chat.ChatCompletionMessageParam {
+  switch (message.role) {
+    case "tool":
+      return { role: "tool", tool_call_id: message.toolCallId, content: message.content };
+    case "assistant":
+      return message.toolCalls?.length
+        ? {
+          role: "assistant",
+          content: message.content || null,
+          tool_calls: message.toolCalls.map(call => ({
+            id: call.id,
+            type: "function" as const,
+            function: { name: call.name, arguments: call.arguments },
+          })),
+        }
+        : { role: "assistant", content: message.content };
+    default:
+      return { role: message.role, content: message.content };
+  }
+}
+
+type AnthropicContentBlock =
+  | { type: "text"; text: string }
+  | { type: "tool_use"; id: string; name: string; input: unknown }
+  | { type: "tool_result"; tool_use_id: string; content: string };
+
+export interface AnthropicMessage {
+  role: "user" | "assistant";
+  content: AnthropicContentBlock[];
+}
+
+function parseToolInput(args: string): unknown {
+  try {
+    return JSON.parse(args || "{}");
+  } catch {
+    return {};
+  }
+}
+
+/**
+ * Convert chat messages to the Messages API format: system prompts are pulled out,
+ * tool results become user messages, and consecutive messages of one role are merged.
+ */
+export function toAnthropicMessages(messages: LLMMessage[]): { system: string; messages: AnthropicMessage[] } {
+  const system: string[] = [];
+  const converted: AnthropicMessage[] = [];
+
+  for (const message of messages) {
+    let next: AnthropicMessage;
+
+    if (message.role === "system") {
+      system.push(message.content);
+      continue;
+    } else if (message.role === "tool") {
+      next = { role: "user", content: [{ type: "tool_result", tool_use_id: message.toolCallId, content: message.content }] };
+    } else if (message.role === "assistant") {
+      next = {
+        role: "assistant",
+        content: [
+          ...(message.content ? [{ type: "text" as const, text: message.content }] : []),
+          ...(message.toolCalls || []).map(call => ({
+            type: "tool_use" as const,
+            id: call.id,
+            name: call.name,
+            input: parseToolInput(call.arguments),
+          })),
+        ],
+      };
+    } else {
+      next = { role: "user", content: [{ type: "text", text: message.content }] };
+    }
+
+    const previous = converted[converted.length - 1];
+    if (previous && previous.role === next.role) {
+      previous.content.push(...next.content);
+    } else {
+      converted.push(next);
+    }
+  }
+
+  return { system: system.join("\n\n"), messages: converted.filter(message => message.content.length > 0) };
+}
+
+/**
+ * Anthropic Messages API (called over fetch; no embeddings endpoint)
+ */
+export class AnthropicProvider implements LLMProvider {
+  readonly name = "anthropic" as const;
+  readonly chatModel: string;
+  readonly embeddingModel = null;
+  private apiKey: string;
+  private baseUrl: string;
+
+  constructor(config: LLMProviderConfig & { chatModel: string }) {
+    if (!config.apiKey) {
+      throw new Error("Anthropic API key required");
+    }
+    this.apiKey = config.apiKey;
+    this.chatModel = config.chatModel;
+    this.baseUrl = (config.baseUrl || ANTHROPIC_API_URL).replace(/\/+$/, "");
+  }
+
+  async chat(request: ChatCompletionRequest): Promise<ChatCompletionResult> {
+    const model = request.model || this.chatModel;
+    const { system, messages } = toAnthropicMessages(request.messages);
+
+    const body = {
+      model,
+      max_tokens: request.maxTokens || AI.CHAT_MAX_TOKENS,
+      temperature: request.temperature,
+      system: request.json
+        ? `${system}\n\nRespond with a single JSON object and nothing else.`.trim()
+        : system || undefined,
+      messages,
+      stream: !!request.onToken,
+      ...(request.tools?.length ? {
+        tools: request.tools.map(tool => ({
+          name: tool.name,
+          description: tool.description,
+          input_schema: tool.parameters,
+        })),
+      } : {}),
+    };
+
+    const response = await fetch(`${this.baseUrl}/v1/messages`, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        "x-api-key": this.apiKey,
+        "anthropic-version": ANTHROPIC_VERSION,
+      },
+      body: JSON.stringify(body),
+      signal: AbortSignal.timeout(TIMEOUTS.N8N_WEBHOOK_MS),
+    });
+
+    if (!response.ok) {
+      const error = await response.json().catch(() => null);
+      throw new Error(`Anthropic API error ${response.status}: ${error?.error?.message || response.statusText}`);
+    }
+
+    if (!request.onToken) {
+      const data = await response.json();
+      const blocks: any[] = Array.isArray(data.content) ? data.content : [];
+      return {
+        content: blocks.filter(block => block.type === "text").map(block => block.text).join(""),
+        toolCalls: blocks
+          .filter(block => block.type === "tool_use")
+          .map(block => ({ id: block.id, name: block.name, arguments: JSON.stringify(block.input ?? {}) })),
+        usage: toUsage(data.usage?.input_tokens, data.usage?.output_tokens),
+        model,
+      };
+    }
+
+    return this.readStream(response, model, request.onToken);
+  }
+
+  async embed(): Promise<EmbeddingResult> {
+    throw new Error("Anthropic does not provide an embeddings API");
+  }
+
+  private async readStream(
+    response: Response,
+    model: string,
+    onToken: (token: string) => void
+  ): Promise<ChatCompletionResult> {
+    let content = "";
+    let promptTokens = 0;
+    let completionTokens = 0;
+    // Tool calls are keyed by content block index
+    const toolCalls: LLMToolCall[] = [];
+
+    for await (const event of readServerSentEvents(response)) {
+      switch (event.type) {
+        case "message_start":
+          promptTokens = event.message?.usage?.input_tokens || 0;
+          break;
+        case "content_block_start":
+          if (event.content_block?.type === "tool_use") {
+            toolCalls[event.index] = { id: event.content_block.id, name: event.content_block.name, arguments: "" };
+          }
+          break;
+        case "content_block_delta":
+          if (event.delta?.type === "text_delta") {
+            content += event.delta.text;
+            onToken(event.delta.text);
+          } else if (event.delta?.type === "input_json_delta" && toolCalls[event.index]) {
+            toolCalls[event.index]!.arguments += event.delta.partial_json;
+          }
+          break;
+        case "message_delta":
+          completionTokens = event.usage?.output_tokens || completionTokens;
+          break;
+        case "error":
+          throw new Error(`Anthropic stream error: ${event.error?.message || "unknown"}`);
+      }
+    }
+
+    return {
+      content,
+      toolCalls: toolCalls.filter(Boolean),
+      usage: toUsage(promptTokens, completionTokens),
+      model,
+    };
+  }
+}
+
+/**
+ * Parse the JSON `data:` payloads of a text/event-stream response
+ */
+async function* readServerSentEvents(response: Response): AsyncGenerator<any> {
+  if (!response.body) return;
+
+  for await (const line of readLines(response.body)) {
+    const trimmed = line.trim();
+    if (!trimmed.startsWith("data:")) continue;
+
+    try {
+      yield JSON.parse(trimmed.substring(5).trim());
+    } catch {
+      // Ignore keep-alive and malformed frames
+    }
+  }
+}
+
+/**
+ * Create a provider from a config. Throws when required settings are missing.
+ */
+export function createLLMProvider(config: LLMProviderConfig): LLMProvider {
+  const info = LLM_PROVIDER_INFO[config.provider];
+  const chatModel = config.chatModel || info.defaultChatModel;
+
+  if (!chatModel) {
+    throw new Error(`${info.label} needs a model (deployment) name`);
+  }
+  if (info.requiresApiKey && !config.apiKey) {
+    throw new Error(`${info.label} API key required`);
+  }
+  if (info.requiresBaseUrl && !config.baseUrl) {
+    throw new Error(`${info.label} endpoint URL required`);
+  }
+
+  if (config.provider === "anthropic") {
+    return new AnthropicProvider({ ...config, chatModel });
+  }
+  return new OpenAICompatibleProvider({ ...config, chatModel });
+}
+
+/**
+ * The app's own credentials for a provider (environment), or null when not configured
+ */
+export function getAppLLMConfig(provider: LLMProviderName): LLMProviderConfig | null {
+  let config: LLMProviderConfig;
+
+  switch (provider) {
+    case "openai":
+      config = { provider, apiKey: process.env.OPENAI_API_KEY };
+      break;
+    case "anthropic":
+      config = { provider, apiKey: process.env.ANTHROPIC_API_KEY };
+      break;
+    case "azure":
+      config = {
+        provider,
+        apiKey: process.env.AZURE_OPENAI_API_KEY,
+        baseUrl: process.env.AZURE_OPENAI_ENDPOINT,
+        chatModel: process.env.AZURE_OPENAI_DEPLOYMENT,
+        embeddingModel: process.env.AZURE_OPENAI_EMBEDDING_DEPLOYMENT || null,
+      };
+      break;
+    case "ollama":
+      config = { provider, apiKey: process.env.OLLAMA_API_KEY, baseUrl: LLM.OLLAMA_BASE_URL };
+      break;
+  }
+
+  const info = LLM_PROVIDER_INFO[provider];
+  const configured = (!info.requiresApiKey || !!config.apiKey) &&
+    (!info.requiresBaseUrl || !!config.baseUrl) &&
+    !!(config.chatModel || info.defaultChatModel);
+
+  return configured ? config : null;
+}
+
+let defaultProvider: LLMProvider | null | undefined;
+let embeddingProvider: LLMProvider | null | undefined;
+
+/**
+ * The app's provider (LLM_PROVIDER) for utility calls such as intent classification,
+ * preference extraction and sentiment. Null when it isn't configured.
+ */
+export function getDefaultLLMProvider(): LLMProvider | null {
+  if (defaultProvider === undefined) {
+    const config = getAppLLMConfig(LLM.PROVIDER);
+    defaultProvider = config
+      ? createLLMProvider({ ...config, chatModel: AI.CHAT_MODEL || config.chatModel })
+      : null;
+
+    if (!defaultProvider) {
+      logger.warn({ provider: LLM.PROVIDER }, "LLM provider not configured - AI features unavailable");
+    }
+  }
+  return defaultProvider;
+}
+
+/**
+ * The app's embeddings provider (EMBEDDING_PROVIDER). Null when it isn't configured.
+ */
+export function getEmbeddingProvider(): LLMProvider | null {
+  if (embeddingProvider === undefined) {
+    const config = getAppLLMConfig(LLM.EMBEDDING_PROVIDER);
+    embeddingProvider = config
+      ? createLLMProvider({ ...config, embeddingModel: AI.EMBEDDING_MODEL || config.embeddingModel })
+      : null;
+
+    if (embeddingProvider && !embeddingProvider.embeddingModel) {
+      logger.warn({ provider: LLM.EMBEDDING_PROVIDER }, "Embedding provider has no embedding model");
+      embeddingProvider = null;
+    }
+  }
+  return embeddingProvider;
+}
+
+export function isEmbeddingProviderConfigured(): boolean {
+  return getEmbeddingProvider() !== null;
+}
+
+export interface ShopLLMSettings {
+  plan?: string | null;
+  llmProvider?: string | null;
+  llmModel?: string | null;
+  llmBaseUrl?: string | null;
+}
+
+/**
+ * Provider config for a shop's chat engine.
+ * BYOK shops use their own key (and endpoint); other plans use the app's credentials for
+ * the shop's provider, or the app default when the app has none for it.
+ * Returns null when no provider can be used.
+ */
+export function resolveShopLLMConfig(
+  settings: ShopLLMSettings | null | undefined,
+  byokKey?: string | null
+): LLMProviderConfig | null {
+  const provider = isLLMProviderName(settings?.llmProvider) ? settings.llmProvider : "openai";
+  const chatModel = settings?.llmModel || null;
+
+  if (settings?.plan === "BYOK") {
+    const info = LLM_PROVIDER_INFO[provider];
+    if (info.requiresApiKey && !byokKey) return null;
+    if (info.requiresBaseUrl && !settings.llmBaseUrl) return null;
+    if (!chatModel && !info.defaultChatModel) return null;
+
+    return { provider, apiKey: byokKey, chatModel, baseUrl: settings.llmBaseUrl };
+  }
+
+  const shopConfig = getAppLLMConfig(provider);
+  if (shopConfig) {
+    return { ...shopConfig, chatModel: chatModel || AI.CHAT_MODEL || shopConfig.chatModel };
+  }
+
+  const appConfig = getAppLLMConfig(LLM.PROVIDER);
+  return appConfig ? { ...appConfig, chatModel: AI.CHAT_MODEL || appConfig.chatModel } : null;
+}
+
+/**
+ * Add a call's token usage to the shop's daily BYOK usage
+ */
+export async function recordLLMUsage(
+  shop: string,
+  model: string,
+  usage: LLMUsage,
+  provider?: LLMProviderName
+) {
+  const today = new Date();
+  today.setHours(0, 0, 0, 0);
+
+  const estimatedCost = estimateLLMCost(model, usage.promptTokens, usage.completionTokens, provider);
+
+  return db.byokUsage.upsert({
+    where: {
+      shop_date: {
+        shop,
+        date: today,
+      },
+    },
+    update: {
+      totalApiCalls: { increment: 1 },
+      totalTokensUsed: { increment: usage.totalTokens },
+      promptTokens: { increment: usage.promptTokens },
+      completionTokens: { increment: usage.completionTokens },
+      estimatedCost: { increment: estimatedCost },
+    },
+    create: {
+      shop,
+      date: today,
+      totalApiCalls: 1,
+      totalTokensUsed: usage.totalTokens,
+      promptTokens: usage.promptTokens,
+      completionTokens: usage.completionTokens,
+      estimatedCost,
+      plan: "BYOK",
+    },
+  });
+}
@@ -0,0 +1,160 @@
+/**
+ * LLM Provider Catalog
+ *
+ * Supported AI providers, their default models, key formats and token pricing.
+ * Shared by the settings page and the server-side adapters (llm-provider.server.ts).
+ */
+
+export const LLM_PROVIDERS = ["openai", "anthropic", "azure", "ollama"] as const;
+
+export type LLMProviderName = (typeof LLM_PROVIDERS)[number];
+
+export interface LLMProviderInfo {
+  label: string;
+  defaultChatModel: string;
+  // null when the provider has no embeddings API
+  defaultEmbeddingModel: string | null;
+  requiresApiKey: boolean;
+  // Azure resource endpoint / local server URL
+  requiresBaseUrl: boolean;
+  keyPlaceholder: string;
+  keyUrl?: string;
+}
+
+export const LLM_PROVIDER_INFO: Record<LLMProviderName, LLMProviderInfo> = {
+  openai: {
+    label: "OpenAI",
+    defaultChatModel: "gpt-4o-mini",
+    defaultEmbeddingModel: "text-embedding-3-small",
+    requiresApiKey: true,
+    requiresBaseUrl: false,
+    keyPlaceholder: "sk-proj-...",
+    keyUrl: "https://platform.openai.com/api-keys",
+  },
+  anthropic: {
+    label: "Anthropic",
+    defaultChatModel: "claude-3-5-haiku-latest",
+    defaultEmbeddingModel: null,
+    requiresApiKey: true,
+    requiresBaseUrl: false,
+    keyPlaceholder: "sk-ant-...",
+    keyUrl: "https://console.anthropic.com/settings/keys",
+  },
+  azure: {
+    // Models are deployment names, so there is no default
+    label: "Azure OpenAI",
+    defaultChatModel: "",
+    defaultEmbeddingModel: null,
+    requiresApiKey: true,
+    requiresBaseUrl: true,
+    keyPlaceholder: "Azure OpenAI resource key",
+    keyUrl: "https://portal.azure.com/#view/Microsoft_Azure_ProjectOxford/CognitiveServicesHub/~/OpenAI",
+  },
+  ollama: {
+    label: "Ollama / OpenAI-compatible",
+    defaultChatModel: "llama3.1",
+    defaultEmbeddingModel: "nomic-embed-text",
+    requiresApiKey: false,
+    requiresBaseUrl: true,
+    keyPlaceholder: "Optional",
+  },
+};
+
+export function isLLMProviderName(value: unknown): value is LLMProviderName {
+  return typeof value === "string" && (LLM_PROVIDERS as readonly string[]).includes(value);
+}
+
+/**
+ * Basic API key format check for a provider
+ */
+export function isValidProviderKey(provider: LLMProviderName, apiKey: string | null | undefined): boolean {
+  const key = (apiKey || "").trim();
+
+  switch (provider) {
+    case "openai":
+      return key.startsWith("sk-") && key.length >= 20;
+    case "anthropic":
+      return key.startsWith("sk-ant-") && key.length >= 20;
+    case "azure":
+      return /^[A-Za-z0-9]{32,}$/.test(key);
+    case "ollama":
+      // Local servers usually don't need a key
+      return key.length <= 500;
+  }
+}
+
+/**
+ * Merchant-supplied endpoints must be public HTTPS URLs
+ * (the server calls them, so internal addresses are refused)
+ */
+export function isValidProviderBaseUrl(url: string | null | undefined): boolean {
+  if (!url) return false;
+
+  let parsed: URL;
+  try {
+    parsed = new URL(url);
+  } catch {
+    return false;
+  }
+
+  if (parsed.protocol !== "https:") return false;
+
+  const host = parsed.hostname.toLowerCase();
+  return !(
+    host === "localhost" ||
+    host.endsWith(".localhost") ||
+    host.endsWith(".local") ||
+    host.endsWith(".internal") ||
+    host === "[::1]" ||
+    /^(127|10|0)\./.test(host) ||
+    /^192\.168\./.test(host) ||
+    /^169\.254\./.test(host) ||
+    /^172\.(1[6-9]|2\d|3[01])\./.test(host)
+  );
+}
+
+/**
+ * Token prices in USD per 1M tokens.
+ * Looked up by longest prefix, so dated versions (gpt-4o-mini-2024-07-18) match.
+ */
+export const MODEL_PRICING: Record<string, { prompt: number; completion: number }> = {
+  "gpt-4o-mini": { prompt: 0.15, completion: 0.60 },
+  "gpt-4o": { prompt: 2.50, completion: 10.00 },
+  "gpt-4.1-nano": { prompt: 0.10, completion: 0.40 },
+  "gpt-4.1-mini": { prompt: 0.40, completion: 1.60 },
+  "gpt-4.1": { prompt: 2.00, completion: 8.00 },
+  "gpt-4": { prompt: 30.00, completion: 60.00 },
+  "gpt-3.5-turbo": { prompt: 0.50, completion: 1.50 },
+  "claude-3-5-haiku": { prompt: 0.80, completion: 4.00 },
+  "claude-3-haiku": { prompt: 0.25, completion: 1.25 },
+  "claude-3-5-sonnet": { prompt: 3.00, completion: 15.00 },
+  "claude-3-7-sonnet": { prompt: 3.00, completion: 15.00 },
+  "claude-sonnet-4": { prompt: 3.00, completion: 15.00 },
+  "text-embedding-3-small": { prompt: 0.02, completion: 0 },
+  "text-embedding-3-large": { prompt: 0.13, completion: 0 },
+  "text-embedding-ada-002": { prompt: 0.10, completion: 0 },
+};
+
+// Used for models missing from the table
+const DEFAULT_PRICING_MODEL = "gpt-4o-mini";
+
+/**
+ * Estimated cost in USD of a call. Local (ollama) models are free.
+ */
+export function estimateLLMCost(
+  model: string,
+  promptTokens: number,
+  completionTokens: number,
+  provider?: LLMProviderName
+): number {
+  if (provider === "ollama") return 0;
+
+  const name = (model || "").toLowerCase();
+  const match = Object.keys(MODEL_PRICING)
+    .filter(prefix => name.startsWith(prefix))
+    .sort((a, b) => b.length - a.length)[0];
+  const pricing = MODEL_PRICING[match || DEFAULT_PRICING_MODEL]!;
+
+  return (promptTokens / 1_000_000) * pricing.prompt +
+    (completionTokens / 1_000_000) * pricing.completion;
+}
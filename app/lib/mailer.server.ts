@@ -0,0 +1,69 @@
+/**
+ * Mail Transport
+ *
+ * Outgoing email (analytics digests) goes through a MailTransport. The default one sends
+ * over SMTP with nodemailer, configured by SMTP_URL; point it at a local stand-in server
+ * such as Mailpit or MailHog (smtp://localhost:1025) to try emails out in development.
+ * setMailTransport() plugs in another transport (an email API, or a fake in tests).
+ */
+
+import nodemailer from "nodemailer";
+import type { Transporter } from "nodemailer";
+import { createLogger } from "./logger.server";
+import { EMAIL } from "../config/limits";
+
+const logger = createLogger({ service: "Mailer" });
+
+export interface MailMessage {
+  to: string;
+  subject: string;
+  html: string;
+  text: string;
+}
+
+export interface MailTransport {
+  readonly name: string;
+  send(message: MailMessage): Promise<void>;
+}
+
+export class SmtpMailTransport implements MailTransport {
+  readonly name = "smtp";
+  private transporter: Transporter;
+
+  constructor(smtpUrl: string, private from: string = EMAIL.FROM) {
+    this.transporter = nodemailer.createTransport(smtpUrl);
+  }
+
+  async send(message: MailMessage): Promise<void> {
+    const info = await this.transporter.sendMail({ from: this.from, ...message });
+    logger.debug({ messageId: info.messageId }, "Email sent");
+  }
+}
+
+let transport: MailTransport | null | undefined;
+
+/**
+ * The configured transport, or null when email isn't set up (SMTP_URL is empty)
+ */
+export function getMailTransport(): MailTransport | null {
+  if (transport === undefined) {
+    transport = EMAIL.SMTP_URL ? new SmtpMailTransport(EMAIL.SMTP_URL) : null;
+
+    if (!transport) {
+      logger.warn("SMTP_URL not configured - emails are disabled");
+    }
+  }
+  return transport;
+}
+
+export function setMailTransport(value: MailTransport | null): void {
+  transport = value;
+}
+
+export async function sendMail(message: MailMessage): Promise<void> {
+  const mailer = getMailTransport();
+  if (!mailer) {
+    throw new Error("Email is not configured (SMTP_URL)");
+  }
+  await mailer.send(message);
+}
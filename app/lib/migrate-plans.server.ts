@@ -8,13 +8,45 @@
 import { prisma as db } from "../db.server";
 import { PlanCode, normalizePlanCode } from "../lib/plans.config";
 import { createLogger } from "../lib/logger.server";
+import { recordAuditEvent, type AuditActor } from "../lib/audit.server";
 
 const logger = createLogger({ service: 'plan-migration' });
 
+const SYSTEM_ACTOR: AuditActor = { type: 'system', id: 'plan-migration' };
+
+/**
+ * Who started the migration, for the audit log (defaults to the app itself)
+ */
+interface MigrationAudit {
+  actor: AuditActor;
+  request?: Request;
+  metadata?: Record<string, unknown>;
+}
+
+async function auditPlanChange(
+  setting: { id: string; shop: string },
+  from: string,
+  to: string,
+  audit: MigrationAudit
+) {
+  await recordAuditEvent({
+    shop: setting.shop,
+    actor: audit.actor,
+    action: 'plan.migrated',
+    targetType: 'WidgetSettings',
+    targetId: setting.id,
+    changes: { plan: { from, to } },
+    metadata: audit.metadata,
+    request: audit.request,
+  });
+}
+
 /**
  * Migrate all widget settings to use new plan codes
  */
-export async function migratePlanCodes(): Promise<{ updated: number; errors: number }> {
+export async function migratePlanCodes(
+  audit: MigrationAudit = { actor: SYSTEM_ACTOR }
+): Promise<{ updated: number; errors: number }> {
   let updated = 0;
   let errors = 0;
 
@@ -47,6 +79,7 @@ export async function migratePlanCodes(): Promise<{ updated: number; errors: num
             oldPlan: currentPlan,
             newPlan: normalizedPlan
           }, 'Updated plan code');
+          await auditPlanChange(setting, currentPlan, normalizedPlan, audit);
 
           updated++;
         }
@@ -73,7 +106,10 @@ export async function migratePlanCodes(): Promise<{ updated: number; errors: num
 /**
  * Migrate a single shop's plan code
  */
-export async function migrateSingleShopPlan(shop: string): Promise<boolean> {
+export async function migrateSingleShopPlan(
+  shop: string,
+  audit: MigrationAudit = { actor: SYSTEM_ACTOR }
+): Promise<boolean> {
   try {
     const setting = await db.widgetSettings.findUnique({
       where: { shop },
@@ -99,6 +135,7 @@ export async function migrateSingleShopPlan(shop: string): Promise<boolean> {
         oldPlan: currentPlan,
         newPlan: normalizedPlan
       }, 'Migrated single shop plan code');
+      await auditPlanChange({ id: setting.id, shop }, currentPlan, normalizedPlan, audit);
 
       return true;
     }
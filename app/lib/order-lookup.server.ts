@@ -0,0 +1,209 @@
+/**
+ * Verified Order Lookup
+ *
+ * Finds an order by its number for a shopper and returns it as an order card
+ * (status, items, shipments with tracking). Used by the TRACK_ORDER flow
+ * (services/order-tracking.service.server.ts) and the chat engine's lookup_order tool.
+ *
+ * An order is only returned when the shopper proves it is theirs: the email used for
+ * the order, or a verified customer id (never an id taken from widget input).
+ * "No such order" and "not yours" give the same result, so order numbers can't be
+ * probed, and lookups are rate limited per visitor and per order number.
+ */
+
+import type { AdminApiContext } from "@shopify/shopify-app-remix/server";
+import { checkSharedRateLimit } from "./rate-limit.server";
+import { RATE_LIMITS } from "../config/limits";
+
+export interface OrderTracking {
+  company: string | null;
+  number: string | null;
+  url: string | null;
+}
+
+export interface OrderShipment {
+  status: string;
+  estimatedDeliveryAt: string | null;
+  tracking: OrderTracking[];
+}
+
+/**
+ * Order as shown to the shopper (widget order card, lookup_order tool output)
+ */
+export interface OrderCard {
+  name: string;
+  createdAt: string;
+  cancelled: boolean;
+  financialStatus: string | null;
+  fulfillmentStatus: string | null;
+  total: { amount: string; currencyCode: string } | null;
+  items: Array<{ title: string; quantity: number; image: string | null }>;
+  shipments: OrderShipment[];
+  // Shopify order status page
+  statusUrl: string | null;
+}
+
+export interface OrderLookupRequest {
+  orderNumber: string;
+  email?: string | null;
+  // Verified storefront customer id only
+  customerId?: string | null;
+  // Rate limit key of the requester (session or IP)
+  visitorId?: string;
+}
+
+export type OrderLookupResult =
+  | { status: "found"; order: OrderCard }
+  | { status: "not_found" }
+  | { status: "needs_verification" }
+  | { status: "rate_limited"; retryAfter: number };
+
+const MAX_ITEMS = 10;
+const MAX_SHIPMENTS = 5;
+
+const ORDER_LOOKUP_QUERY = `#graphql
+  query orderLookup($query: String!) {
+    orders(first: 1, query: $query) {
+      edges {
+        node {
+          name
+          email
+          createdAt
+          cancelledAt
+          statusPageUrl
+          displayFinancialStatus
+          displayFulfillmentStatus
+          customer { id }
+          totalPriceSet { shopMoney { amount currencyCode } }
+          lineItems(first: ${MAX_ITEMS}) {
+            edges { node { title quantity image { url } } }
+          }
+          fulfillments(first: ${MAX_SHIPMENTS}) {
+            displayStatus
+            status
+            estimatedDeliveryAt
+            trackingInfo(first: 3) { company number url }
+          }
+        }
+      }
+    }
+  }`;
+
+// "#1001", "order 1001", "commande n° 1001", ...
+const ORDER_NUMBER_PATTERNS = [
+  /#\s*([A-Za-z]{0,5}-?\d{3,12})\b/,
+  /\b(?:order|commande|pedido|bestellung|ordine|encomenda|注文|订单)\s*(?:number|no\.?|n°|nº|num(?:ero|éro)?|nummer)?\s*[:#]?\s*([A-Za-z]{0,5}-?\d{3,12})\b/i,
+];
+
+const EMAIL_PATTERN = /[A-Za-z0-9._%+-]+@[A-Za-z0-9.-]+\.[A-Za-z]{2,}/;
+
+/**
+ * Order number and email mentioned in the given texts (latest mention wins)
+ */
+export function extractOrderReference(texts: string[]): { orderNumber: string | null; email: string | null } {
+  let orderNumber: string | null = null;
+  let email: string | null = null;
+
+  for (const text of texts) {
+    const emailMatch = text.match(EMAIL_PATTERN);
+    if (emailMatch) email = emailMatch[0];
+
+    // Emails can contain digits, so look for the order number without them
+    const withoutEmail = text.replace(EMAIL_PATTERN, " ");
+    for (const pattern of ORDER_NUMBER_PATTERNS) {
+      const match = withoutEmail.match(pattern);
+      if (match?.[1]) {
+        orderNumber = match[1];
+        break;
+      }
+    }
+  }
+
+  return { orderNumber, email };
+}
+
+export function normalizeOrderNumber(orderNumber: string): string {
+  return orderNumber.replace(/^#\s*/, "").trim();
+}
+
+function numericId(id: string): string {
+  return id.split("/").pop() || id;
+}
+
+function toOrderCard(order: any): OrderCard {
+  const money = order.totalPriceSet?.shopMoney;
+
+  return {
+    name: order.name,
+    createdAt: order.createdAt,
+    cancelled: !!order.cancelledAt,
+    financialStatus: order.displayFinancialStatus || null,
+    fulfillmentStatus: order.displayFulfillmentStatus || null,
+    total: money ? { amount: money.amount, currencyCode: money.currencyCode } : null,
+    items: (order.lineItems?.edges || []).map((edge: any) => ({
+      title: edge.node.title,
+      quantity: edge.node.quantity,
+      image: edge.node.image?.url || null,
+    })),
+    shipments: (order.fulfillments || []).map((fulfillment: any) => ({
+      status: fulfillment.displayStatus || fulfillment.status,
+      estimatedDeliveryAt: fulfillment.estimatedDeliveryAt || null,
+      tracking: (fulfillment.trackingInfo || []).map((info: any) => ({
+        company: info.company || null,
+        number: info.number || null,
+        url: info.url || null,
+      })),
+    })),
+    statusUrl: order.statusPageUrl || null,
+  };
+}
+
+/**
+ * Look up an order for a shopper
+ */
+export async function lookupOrder(
+  admin: AdminApiContext,
+  shop: string,
+  request: OrderLookupRequest
+): Promise<OrderLookupResult> {
+  const email = request.email?.trim().toLowerCase() || null;
+  if (!email && !request.customerId) {
+    return { status: "needs_verification" };
+  }
+
+  const name = normalizeOrderNumber(request.orderNumber);
+  if (!/^[A-Za-z0-9-]{1,30}$/.test(name)) {
+    return { status: "not_found" };
+  }
+
+  const window = { windowMs: RATE_LIMITS.ORDER_LOOKUP_WINDOW_SECONDS * 1000 };
+  // Hard limits across instances: every lookup waits for the shared count
+  const limits = await Promise.all([
+    // Each visitor can only try a few orders...
+    ...(request.visitorId
+      ? [checkSharedRateLimit(request.visitorId, { ...window, maxRequests: RATE_LIMITS.ORDER_LOOKUPS_PER_VISITOR }, `order-lookup:${shop}`)]
+      : []),
+    // ...and each order can only be tried a few times, whoever asks (stops email guessing)
+    checkSharedRateLimit(name.toLowerCase(), { ...window, maxRequests: RATE_LIMITS.ORDER_LOOKUPS_PER_ORDER }, `order-lookup-order:${shop}`),
+  ]);
+  const limited = limits.find(limit => limit.isLimited);
+  if (limited) {
+    return { status: "rate_limited", retryAfter: limited.retryAfter };
+  }
+
+  // admin.graphql throws on GraphQL errors
+  const response = await admin.graphql(ORDER_LOOKUP_QUERY, { variables: { query: `name:#${name}` } });
+  const body = await response.json();
+  const order = body.data?.orders?.edges?.[0]?.node;
+
+  const emailMatches = !!order && !!email && order.email?.toLowerCase() === email;
+  const customerMatches = !!order && !!request.customerId && !!order.customer?.id &&
+    numericId(order.customer.id) === numericId(request.customerId);
+
+  // Same answer for "no such order" and "not yours"
+  if (!emailMatches && !customerMatches) {
+    return { status: "not_found" };
+  }
+
+  return { status: "found", order: toOrderCard(order) };
+}
@@ -0,0 +1,324 @@
+/**
+ * Product Search Utility
+ *
+ * Extracts structured filters from a shopper's message ("blue linen dress under $80")
+ * and turns them into an Admin GraphQL `products(query:)` search string.
+ *
+ * Query syntax: https://shopify.dev/docs/api/usage/search-syntax
+ */
+
+export interface ProductSearchFilters {
+  /** Free-text terms matched against title, description, tags, etc. */
+  terms: string[];
+  productType?: string;
+  vendor?: string;
+  tags: string[];
+  minPrice?: number;
+  maxPrice?: number;
+  /** Variant option values, matched locally against product options */
+  colors: string[];
+  sizes: string[];
+  /** true = only products with inventory */
+  available?: boolean;
+}
+
+export interface ProductSearchOptions {
+  /** Product types from the shop's catalog, matched before the built-in list */
+  knownProductTypes?: string[];
+  /** Vendors from the shop's catalog */
+  knownVendors?: string[];
+}
+
+/**
+ * Minimal product shape needed for local option ranking
+ */
+export interface SearchableProduct {
+  title: string;
+  options?: Array<{ name: string; values: string[] }>;
+  [key: string]: any;
+}
+
+const COLORS: Record<string, string> = {
+  // English
+  black: "black", white: "white", red: "red", blue: "blue", navy: "navy", green: "green",
+  yellow: "yellow", orange: "orange", purple: "purple", pink: "pink", brown: "brown",
+  grey: "grey", gray: "grey", beige: "beige", gold: "gold", silver: "silver", cream: "cream",
+  // French
+  noir: "black", noire: "black", blanc: "white", blanche: "white", rouge: "red", bleu: "blue",
+  bleue: "blue", vert: "green", verte: "green", jaune: "yellow", violet: "purple", rose: "pink",
+  marron: "brown", gris: "grey", grise: "grey",
+  // Spanish / Italian / Portuguese
+  negro: "black", negra: "black", blanco: "white", blanca: "white", rojo: "red", roja: "red",
+  azul: "blue", verde: "green", amarillo: "yellow", nero: "black", bianco: "white", rosso: "red",
+  preto: "black", branco: "white", vermelho: "red",
+  // German
+  schwarz: "black", weiss: "white", weiß: "white", rot: "red", blau: "blue", grün: "green", gelb: "yellow",
+};
+
+const SIZE_WORDS: Record<string, string> = {
+  xxs: "XXS", xs: "XS", s: "S", m: "M", l: "L", xl: "XL", xxl: "XXL", xxxl: "XXXL",
+  small: "S", medium: "M", large: "L",
+  petit: "S", moyen: "M", grand: "L",
+};
+
+/**
+ * Common product types (singular). Plurals are matched by stripping a trailing "s"/"es".
+ */
+const PRODUCT_TYPES = [
+  "t-shirt", "shirt", "blouse", "top", "sweater", "hoodie", "sweatshirt", "jacket", "coat",
+  "dress", "skirt", "pants", "jeans", "shorts", "leggings", "suit", "swimsuit",
+  "shoe", "sneaker", "boot", "sandal", "heel", "loafer",
+  "hat", "cap", "scarf", "glove", "sock", "belt", "bag", "backpack", "wallet",
+  "watch", "ring", "necklace", "bracelet", "earring", "sunglasses",
+  "mug", "candle", "poster", "book", "phone case", "pillow", "blanket",
+];
+
+const PRODUCT_TYPE_ALIASES: Record<string, string> = {
+  tshirt: "t-shirt", tee: "t-shirt", chaussure: "shoe", basket: "sneaker", robe: "dress",
+  jupe: "skirt", pantalon: "pants", veste: "jacket", manteau: "coat", sac: "bag",
+  vestido: "dress", zapato: "shoe", camisa: "shirt", kleid: "dress", schuh: "shoe",
+};
+
+const STOP_WORDS = new Set([
+  "a", "an", "the", "and", "or", "for", "with", "in", "on", "of", "to", "me", "my", "i", "im",
+  "you", "your", "we", "our", "is", "are", "do", "does", "have", "has", "any", "some", "something",
+  "show", "see", "find", "search", "looking", "look", "want", "need", "get", "buy", "browse",
+  "please", "can", "could", "would", "like", "what", "which", "there", "that", "this", "these",
+  "those", "product", "products", "item", "items", "stuff", "thing", "things", "one", "ones",
+  "cheap", "price", "priced", "cost", "costs", "size", "color", "colour", "stock", "available",
+  "de", "la", "le", "les", "des", "un", "une", "et", "pour", "avec", "en", "moi", "je", "cherche",
+  "montre", "voir", "el", "los", "las", "una", "para", "con", "y", "quiero", "busco", "der", "die",
+  "das", "und", "mit", "ich", "suche",
+]);
+
+const MAX_TERMS = 5;
+
+function singularize(word: string): string {
+  if (PRODUCT_TYPES.includes(word)) return word;
+  if (/(?:sses|xes|ches|shes)$/.test(word)) {
+    return word.slice(0, -2);
+  }
+  if (word.endsWith("s") && !word.endsWith("ss") && word.length > 3) {
+    return word.slice(0, -1);
+  }
+  return word;
+}
+
+function parsePrice(value: string): number | undefined {
+  const parsed = parseFloat(value.replace(/,(\d{1,2})$/, ".$1").replace(/,/g, ""));
+  return Number.isFinite(parsed) ? parsed : undefined;
+}
+
+/**
+ * Quote a value for the search syntax when it contains spaces or special characters
+ */
+function quote(value: string): string {
+  const escaped = value.replace(/\\/g, "\\\\").replace(/"/g, '\\"');
+  return /^[\p{L}\p{N}_-]+$/u.test(value) ? escaped : `"${escaped}"`;
+}
+
+/**
+ * Extract structured product filters from a message
+ */
+export function extractProductFilters(
+  message: string,
+  options: ProductSearchOptions = {}
+): ProductSearchFilters {
+  const filters: ProductSearchFilters = { terms: [], tags: [], colors: [], sizes: [] };
+  let text = ` ${message.toLowerCase()} `;
+
+  const consume = (pattern: RegExp, handler: (...groups: string[]) => void) => {
+    text = text.replace(pattern, (...args) => {
+      handler(...(args.slice(1, -2) as string[]));
+      return " ";
+    });
+  };
+
+  const amount = String.raw`[$€£¥]?\s?(\d+(?:[.,]\d{1,2})?)\s?(?:[$€£¥]|usd|eur|gbp|dollars?|euros?)?`;
+
+  // Price ranges: "between $20 and $50", "from 20 to 50", "$20-$50"
+  consume(new RegExp(String.raw`(?:between|from|entre|zwischen|tra)\s+${amount}\s+(?:and|to|et|y|e|und|-)\s+${amount}`, "g"), (min, max) => {
+    filters.minPrice = parsePrice(min);
+    filters.maxPrice = parsePrice(max);
+  });
+  consume(new RegExp(String.raw`[$€£¥]\s?(\d+(?:[.,]\d{1,2})?)\s?-\s?[$€£¥]?\s?(\d+(?:[.,]\d{1,2})?)`, "g"), (min, max) => {
+    filters.minPrice = parsePrice(min);
+    filters.maxPrice = parsePrice(max);
+  });
+
+  // Upper bound: "under $80", "less than 80", "moins de 80€", "< 80"
+  consume(new RegExp(String.raw`(?:under|below|less than|cheaper than|max(?:imum)?|up to|no more than|moins de|en dessous de|menos de|por debajo de|unter|weniger als|sotto|meno di|<=?)\s*${amount}`, "g"), (max) => {
+    filters.maxPrice = parsePrice(max);
+  });
+
+  // Lower bound: "over $50", "more than 50", "plus de 50"
+  consume(new RegExp(String.raw`(?:over|above|more than|min(?:imum)?|at least|plus de|más de|über|mehr als|sopra|più di|>=?)\s*${amount}`, "g"), (min) => {
+    filters.minPrice = parsePrice(min);
+  });
+
+  // Availability
+  consume(/\b(?:in stock|available now|available|en stock|disponible|disponibles|verfügbar|lieferbar|disponibile|disponível)\b/g, () => {
+    filters.available = true;
+  });
+
+  // Explicit sizes: "size 10", "size M", "taille 38", "talla M"
+  consume(/\b(?:size|taille|talla|größe|taglia|tamanho)\s+([a-z0-9.]{1,5})\b/g, (size) => {
+    filters.sizes.push(SIZE_WORDS[size] || size.toUpperCase());
+  });
+
+  // Tags: "#summer", "tagged summer"
+  consume(/(?:#|\btagged\s+)([\p{L}\p{N}_-]+)/gu, (tag) => {
+    filters.tags.push(tag);
+  });
+
+  // Vendor: "by Nike", "from Adidas" (only when the vendor is known, or capitalized in the original message)
+  const knownVendors = (options.knownVendors || []).filter(Boolean);
+  for (const vendor of knownVendors) {
+    const pattern = new RegExp(`\\b(?:by|from|de|von|di)?\\s*${vendor.toLowerCase().replace(/[.*+?^${}()|[\]\\]/g, "\\$&")}\\b`);
+    if (pattern.test(text)) {
+      filters.vendor = vendor;
+      text = text.replace(pattern, " ");
+      break;
+    }
+  }
+  if (!filters.vendor) {
+    const vendorMatch = message.match(/\b(?:by|from)\s+([A-Z][\p{L}\p{N}&'-]*(?:\s+[A-Z][\p{L}\p{N}&'-]*)?)/u);
+    if (vendorMatch?.[1]) {
+      filters.vendor = vendorMatch[1];
+      text = text.replace(new RegExp(`\\b(?:by|from)\\s+${vendorMatch[1].toLowerCase().replace(/[.*+?^${}()|[\]\\]/g, "\\$&")}\\b`), " ");
+    }
+  }
+
+  // Product type: shop's own types first, then the built-in list (multi-word types before single words)
+  const knownTypes = (options.knownProductTypes || []).filter(Boolean);
+  for (const type of knownTypes) {
+    const lower = type.toLowerCase();
+    const pattern = new RegExp(`\\b${lower.replace(/[.*+?^${}()|[\]\\]/g, "\\$&")}(?:e?s)?\\b`);
+    if (pattern.test(text)) {
+      filters.productType = type;
+      text = text.replace(pattern, " ");
+      break;
+    }
+  }
+
+  const words = text.split(/[^\p{L}\p{N}'-]+/u).filter(Boolean);
+  const remaining: string[] = [];
+
+  for (let i = 0; i < words.length; i++) {
+    const word = words[i]!;
+    const pair = i + 1 < words.length ? `${word} ${words[i + 1]}` : "";
+    const singular = singularize(word);
+    const color = COLORS[word];
+    const size = SIZE_WORDS[word];
+
+    if (!filters.productType && pair && PRODUCT_TYPES.includes(singularize(pair))) {
+      filters.productType = singularize(pair);
+      i++;
+      continue;
+    }
+    if (!filters.productType && (PRODUCT_TYPES.includes(singular) || PRODUCT_TYPE_ALIASES[singular])) {
+      filters.productType = PRODUCT_TYPE_ALIASES[singular] || singular;
+      continue;
+    }
+    if (color) {
+      if (!filters.colors.includes(color)) filters.colors.push(color);
+      continue;
+    }
+    // Single-letter sizes are too ambiguous outside "size X"; accept the longer forms only
+    if (size && word.length > 1) {
+      if (!filters.sizes.includes(size)) filters.sizes.push(size);
+      continue;
+    }
+    if (STOP_WORDS.has(word) || word.length < 3 || /^\d+$/.test(word)) {
+      continue;
+    }
+    remaining.push(word);
+  }
+
+  filters.terms = Array.from(new Set(remaining)).slice(0, MAX_TERMS);
+  return filters;
+}
+
+/**
+ * Whether any filter was extracted (otherwise the caller should fall back to a generic query)
+ */
+export function hasProductFilters(filters: ProductSearchFilters): boolean {
+  return (
+    filters.terms.length > 0 ||
+    !!filters.productType ||
+    !!filters.vendor ||
+    filters.tags.length > 0 ||
+    filters.minPrice !== undefined ||
+    filters.maxPrice !== undefined ||
+    filters.colors.length > 0 ||
+    filters.sizes.length > 0 ||
+    filters.available !== undefined
+  );
+}
+
+/**
+ * Build an Admin GraphQL product search query string.
+ *
+ * Colors and sizes are not part of the query (the products search has no option-value filter);
+ * use rankProductsByOptions() on the results instead.
+ */
+export function buildProductSearchQuery(filters: ProductSearchFilters): string {
+  const parts: string[] = ["status:active"];
+
+  if (filters.productType) {
+    // Product types vary per shop ("Dress" vs "Dresses"), so also match titles
+    parts.push(`(product_type:${quote(filters.productType)} OR title:${quote(filters.productType)}*)`);
+  }
+  if (filters.vendor) {
+    parts.push(`vendor:${quote(filters.vendor)}`);
+  }
+  for (const tag of filters.tags) {
+    parts.push(`tag:${quote(tag)}`);
+  }
+  if (filters.minPrice !== undefined) {
+    parts.push(`price:>=${filters.minPrice}`);
+  }
+  if (filters.maxPrice !== undefined) {
+    parts.push(`price:<=${filters.maxPrice}`);
+  }
+  if (filters.available) {
+    parts.push("inventory_total:>0");
+  }
+  for (const term of filters.terms) {
+    parts.push(quote(term));
+  }
+
+  return parts.join(" AND ");
+}
+
+/**
+ * Drop the free-text terms and the vendor (the most likely reasons for zero results),
+ * keeping the structured filters. Returns null when there is nothing left to relax.
+ */
+export function relaxProductSearchFilters(filters: ProductSearchFilters): ProductSearchFilters | null {
+  if (filters.terms.length === 0 && !filters.vendor) return null;
+  return { ...filters, terms: [], vendor: undefined };
+}
+
+/**
+ * Order products so those matching the requested colors/sizes come first.
+ * Products without a match are kept (after the matches) so the shopper still sees results.
+ */
+export function rankProductsByOptions<T extends SearchableProduct>(products: T[], filters: ProductSearchFilters): T[] {
+  const wanted = [...filters.colors, ...filters.sizes].map(value => value.toLowerCase());
+  if (wanted.length === 0) return products;
+
+  const score = (product: T) => {
+    const values = new Set<string>();
+    for (const option of product.options || []) {
+      option.values.forEach(value => values.add(value.toLowerCase()));
+    }
+    const title = product.title.toLowerCase();
+    return wanted.filter(value => values.has(value) || title.includes(value)).length;
+  };
+
+  return products
+    .map((product, index) => ({ product, index, score: score(product) }))
+    .sort((a, b) => b.score - a.score || a.index - b.index)
+    .map(entry => entry.product);
+}
@@ -2,22 +2,29 @@
  * Rate Limiting Implementation
  *
  * This module provides rate limiting functionality to prevent API abuse.
- * Uses in-memory storage with automatic cleanup for serverless environments.
+ * Counts are kept in process memory. With several instances, a shared RateLimitStore in Redis
+ * or Postgres (RATE_LIMITS.STORE) adds the instances' requests up to one limit:
+ * - checkRateLimit/rateLimit/compositeRateLimit answer synchronously and sync the shared store
+ *   in the background. The other instances don't see requests still on their way to the
+ *   store, so a burst spread over instances can overshoot the limit by up to one round trip's
+ *   worth of requests (never more than the limit per instance). Fine for analytics and
+ *   settings endpoints.
+ * - checkSharedRateLimit/sharedRateLimit wait for the shared store's count: a hard limit across
+ *   instances, for order lookups, human handoff requests and chat messages.
  *
  * Features:
  * - Configurable rate limits per endpoint
  * - Multiple rate limit windows (per minute, hour, day)
  * - IP-based and shop-based rate limiting
+ * - Sliding window counter (the previous window is weighted by how much of it still overlaps)
  * - Automatic cleanup of expired entries
- * - Support for serverless/edge functions
+ * - Falls back to the instance's own counts when the shared store is unreachable
  */
 
-import { logger } from './logger.server';
-
-interface RateLimitEntry {
-  count: number;
-  resetAt: number;
-}
+import { Redis } from 'ioredis';
+import { prisma as db } from '../db.server';
+import { RATE_LIMITS, type RateLimitStoreName } from '../config/limits';
+import { logger, logError } from './logger.server';
 
 interface RateLimitConfig {
   windowMs: number; // Time window in milliseconds
@@ -25,96 +32,92 @@ interface RateLimitConfig {
   message?: string; // Custom error message
 }
 
-// ============================================================================
-// In-Memory Store
-// ============================================================================
+/**
+ * Requests counted in the current window and the one before it
+ */
+export interface RateLimitCounts {
+  current: number;
+  previous: number;
+}
 
-class RateLimitStore {
-  private store: Map<string, RateLimitEntry> = new Map();
-  private cleanupInterval: NodeJS.Timeout | null = null;
+export interface RateLimitStoreStats {
+  totalEntries: number;
+  activeEntries: number;
+}
 
-  constructor() {
-    // Start cleanup process (runs every minute)
-    this.startCleanup();
-  }
+/**
+ * Shared storage for sliding window counters (Redis, Postgres). Each key keeps the count of
+ * its current window and of the window before; `hit` counts a request atomically.
+ */
+export interface RateLimitStore {
+  readonly name: Exclude<RateLimitStoreName, 'memory'>;
 
   /**
-   * Get rate limit entry for a key
+   * Count a request for key in the window starting at windowStart (ms)
    */
-  get(key: string): RateLimitEntry | undefined {
-    return this.store.get(key);
-  }
+  hit(key: string, windowStart: number, windowMs: number): Promise<RateLimitCounts>;
+
+  delete(key: string): Promise<void>;
 
   /**
-   * Set rate limit entry for a key
+   * Remove expired entries; returns how many were removed
    */
-  set(key: string, entry: RateLimitEntry): void {
-    this.store.set(key, entry);
+  cleanup(): Promise<number>;
+
+  getStats(): Promise<RateLimitStoreStats>;
+}
+
+// ============================================================================
+// In-Memory Store
+// ============================================================================
+
+interface MemoryEntry {
+  windowStart: number;
+  count: number;
+  previousCount: number;
+  expiresAt: number;
+}
+
+/**
+ * Per-process counters, checked synchronously on every request. On its own each instance
+ * limits separately, so with several instances a shared store is synced behind it.
+ */
+export class MemoryRateLimitStore {
+  private store: Map<string, MemoryEntry> = new Map();
+
+  hit(key: string, windowStart: number, windowMs: number): RateLimitCounts {
+    const entry = this.store.get(key);
+    const next = rollWindow(entry, windowStart, windowMs);
+    next.count++;
+    this.store.set(key, next);
+
+    return { current: next.count, previous: next.previousCount };
   }
 
-  /**
-   * Delete rate limit entry for a key
-   */
   delete(key: string): void {
     this.store.delete(key);
   }
 
-  /**
-   * Clean up expired entries
-   */
-  cleanup(): void {
+  cleanup(): number {
     const now = Date.now();
-    const keysToDelete: string[] = [];
+    let removed = 0;
 
     for (const [key, entry] of this.store.entries()) {
-      if (entry.resetAt < now) {
-        keysToDelete.push(key);
+      if (entry.expiresAt < now) {
+        this.store.delete(key);
+        removed++;
       }
     }
 
-    keysToDelete.forEach(key => this.store.delete(key));
-
-    if (keysToDelete.length > 0) {
-      logger.info(`🧹 Rate limit cleanup: Removed ${keysToDelete.length} expired entries`);
-    }
+    return removed;
   }
 
-  /**
-   * Start automatic cleanup
-   */
-  private startCleanup(): void {
-    // Only run cleanup in Node.js environment (not in edge/browser)
-    if (typeof setInterval !== 'undefined') {
-      this.cleanupInterval = setInterval(() => {
-        this.cleanup();
-      }, 60000); // Run every minute
-
-      // Don't block process exit
-      if (this.cleanupInterval.unref) {
-        this.cleanupInterval.unref();
-      }
-    }
-  }
-
-  /**
-   * Stop automatic cleanup
-   */
-  stopCleanup(): void {
-    if (this.cleanupInterval) {
-      clearInterval(this.cleanupInterval);
-      this.cleanupInterval = null;
-    }
-  }
-
-  /**
-   * Get store statistics
-   */
-  getStats(): { totalEntries: number; activeEntries: number } {
+  getStats(): RateLimitStoreStats {
     const now = Date.now();
     let activeEntries = 0;
 
     for (const entry of this.store.values()) {
-      if (entry.resetAt >= now) {
+      if (entry.expiresAt >= now) {
         activeEntries++;
       }
     }
@@ -126,8 +129,311 @@ class RateLimitStore {
   }
 }
 
-// Global store instance
-const rateLimitStore = new RateLimitStore();
+/**
+ * Move an entry to the window starting at windowStart: the current count becomes the previous
+ * one when the windows are adjacent, and is dropped when they are further apart. An entry
+ * already in a later window (clock skew between instances) stays where it is.
+ */
+function rollWindow(entry: MemoryEntry | undefined, windowStart: number, windowMs: number): MemoryEntry {
+  const expiresAt = windowStart + 2 * windowMs;
+
+  if (entry && entry.windowStart >= windowStart) {
+    return { ...entry, expiresAt: Math.max(entry.expiresAt, expiresAt) };
+  }
+  if (entry && entry.windowStart === windowStart - windowMs) {
+    return { windowStart, count: 0, previousCount: entry.count, expiresAt };
+  }
+  return { windowStart, count: 0, previousCount: 0, expiresAt };
+}
+
+// ============================================================================
+// Redis Store
+// ============================================================================
+
+const REDIS_KEY_PREFIX = 'ratelimit:';
+
+// Same roll-over as rollWindow(), run atomically in Redis. The hash expires two windows after
+// the last request, so Redis does the cleanup.
+const REDIS_HIT_SCRIPT = `
+local entry = redis.call('HMGET', KEYS[1], 'w', 'c', 'p')
+local windowStart = tonumber(ARGV[1])
+local windowMs = tonumber(ARGV[2])
+local storedStart = tonumber(entry[1])
+local count = tonumber(entry[2]) or 0
+local previous = tonumber(entry[3]) or 0
+
+if storedStart == nil or storedStart < windowStart - windowMs then
+  storedStart, count, previous = windowStart, 0, 0
+elseif storedStart == windowStart - windowMs then
+  storedStart, count, previous = windowStart, 0, count
+end
+
+count = count + 1
+redis.call('HSET', KEYS[1], 'w', storedStart, 'c', count, 'p', previous)
+redis.call('PEXPIRE', KEYS[1], windowMs * 2)
+return {count, previous}
+`;
+
+/**
+ * Counters shared by all instances in Redis (REDIS_URL)
+ */
+export class RedisRateLimitStore implements RateLimitStore {
+  readonly name = 'redis';
+  private client: Redis;
+
+  constructor(url: string = RATE_LIMITS.REDIS_URL) {
+    this.client = new Redis(url, {
+      lazyConnect: true,
+      // Fail fast so the instance soon limits on its own counts again
+      maxRetriesPerRequest: 1,
+      connectTimeout: 2000,
+      commandTimeout: 1000,
+    });
+    this.client.on('error', (error: Error) => {
+      logger.warn({ error: error.message }, 'Rate limit Redis connection error');
+    });
+  }
+
+  async hit(key: string, windowStart: number, windowMs: number): Promise<RateLimitCounts> {
+    const [current, previous] = (await this.client.eval(
+      REDIS_HIT_SCRIPT,
+      1,
+      REDIS_KEY_PREFIX + key,
+      windowStart,
+      windowMs
+    )) as [number, number];
+
+    return { current, previous };
+  }
+
+  async delete(key: string): Promise<void> {
+    await this.client.del(REDIS_KEY_PREFIX + key);
+  }
+
+  async cleanup(): Promise<number> {
+    // Keys expire on their own
+    return 0;
+  }
+
+  async getStats(): Promise<RateLimitStoreStats> {
+    let totalEntries = 0;
+    let cursor = '0';
+
+    do {
+      const [next, keys] = await this.client.scan(cursor, 'MATCH', `${REDIS_KEY_PREFIX}*`, 'COUNT', 1000);
+      totalEntries += keys.length;
+      cursor = next;
+    } while (cursor !== '0');
+
+    return { totalEntries, activeEntries: totalEntries };
+  }
+
+  async disconnect(): Promise<void> {
+    await this.client.quit();
+  }
+}
+
+// ============================================================================
+// Postgres Store
+// ============================================================================
+
+/**
+ * Counters shared by all instances in the RateLimitBucket table. Costs one upsert per check.
+ */
+export class PostgresRateLimitStore implements RateLimitStore {
+  readonly name = 'postgres';
+
+  async hit(key: string, windowStart: number, windowMs: number): Promise<RateLimitCounts> {
+    const start = BigInt(windowStart);
+    const previousStart = BigInt(windowStart - windowMs);
+    const expiresAt = new Date(windowStart + 2 * windowMs);
+
+    // Same roll-over as rollWindow(), in a single atomic upsert
+    const [row]: [{ count: number; previousCount: number }] = await db.$queryRaw`
+      INSERT INTO "RateLimitBucket" ("key", "windowStart", "count", "previousCount", "expiresAt")
+      VALUES (${key}, ${start}, 1, 0, ${expiresAt})
+      ON CONFLICT ("key") DO UPDATE SET
+        "count" = CASE
+          WHEN "RateLimitBucket"."windowStart" >= EXCLUDED."windowStart" THEN "RateLimitBucket"."count" + 1
+          ELSE 1
+        END,
+        "previousCount" = CASE
+          WHEN "RateLimitBucket"."windowStart" >= EXCLUDED."windowStart" THEN "RateLimitBucket"."previousCount"
+          WHEN "RateLimitBucket"."windowStart" = ${previousStart} THEN "RateLimitBucket"."count"
+          ELSE 0
+        END,
+        "windowStart" = GREATEST("RateLimitBucket"."windowStart", EXCLUDED."windowStart"),
+        "expiresAt" = GREATEST("RateLimitBucket"."expiresAt", EXCLUDED."expiresAt")
+      RETURNING "count", "previousCount"
+    `;
+
+    return { current: row.count, previous: row.previousCount };
+  }
+
+  async delete(key: string): Promise<void> {
+    await db.rateLimitBucket.deleteMany({ where: { key } });
+  }
+
+  async cleanup(): Promise<number> {
+    const result = await db.rateLimitBucket.deleteMany({
+      where: { expiresAt: { lt: new Date() } },
+    });
+    return result.count;
+  }
+
+  async getStats(): Promise<RateLimitStoreStats> {
+    const [totalEntries, activeEntries] = await Promise.all([
+      db.rateLimitBucket.count(),
+      db.rateLimitBucket.count({ where: { expiresAt: { gte: new Date() } } }),
+    ]);
+    return { totalEntries, activeEntries };
+  }
+}
+
+// ============================================================================
+// Store Selection
+// ============================================================================
+
+/**
+ * Counts of a key in the shared store, as of the last hit it answered, plus this instance's
+ * hits still on their way there
+ */
+interface SharedEntry extends MemoryEntry {
+  pending: number;
+}
+
+let localStore = new MemoryRateLimitStore();
+let sharedStore: RateLimitStore | null = createSharedStore(RATE_LIMITS.STORE);
+let sharedCounts = new Map<string, SharedEntry>();
+
+function createSharedStore(name: RateLimitStoreName): RateLimitStore | null {
+  switch (name) {
+    case 'redis':
+      return new RedisRateLimitStore();
+    case 'postgres':
+      return new PostgresRateLimitStore();
+    default:
+      return null;
+  }
+}
+
+/**
+ * Replace the shared store, or use none (tests, scripts); starts from empty counts
+ */
+export function setRateLimitStore(store: RateLimitStore | null): void {
+  sharedStore = store;
+  localStore = new MemoryRateLimitStore();
+  sharedCounts = new Map();
+}
+
+/**
+ * A key's last known shared counts, moved to the window starting at windowStart
+ */
+function rollSharedEntry(key: string, windowStart: number, windowMs: number): SharedEntry {
+  const entry = sharedCounts.get(key);
+  const rolled = rollWindow(entry, windowStart, windowMs);
+  const shared: SharedEntry = { ...rolled, pending: entry && entry.windowStart === rolled.windowStart ? entry.pending : 0 };
+  sharedCounts.set(key, shared);
+  return shared;
+}
+
+/**
+ * Record the shared store's answer for a hit in the window starting at windowStart
+ */
+function settleSharedHit(key: string, windowStart: number, counts: RateLimitCounts | null, pending: boolean): void {
+  const current = sharedCounts.get(key);
+  // Answers for a window that has since rolled over are stale
+  if (!current || current.windowStart !== windowStart) return;
+
+  if (pending) {
+    current.pending = Math.max(0, current.pending - 1);
+  }
+  if (counts) {
+    current.count = Math.max(current.count, counts.current);
+    current.previousCount = Math.max(current.previousCount, counts.previous);
+  }
+}
+
+function sharedStoreFailed(store: RateLimitStore, error: unknown): void {
+  logError(error, 'Rate limit store failed, using in-memory counts', { store: store.name });
+}
+
+/**
+ * Count a request without waiting on the shared store: this instance's own counts, or the
+ * shared counts last reported plus the hits not yet reported back, whichever is higher. The
+ * hit is sent to the shared store in the background, so the other instances' requests show
+ * up within one round trip. If the shared store fails, the instance limits on its own counts.
+ */
+function countHit(key: string, windowStart: number, windowMs: number): RateLimitCounts {
+  const local = localStore.hit(key, windowStart, windowMs);
+  const store = sharedStore;
+  if (!store) {
+    return local;
+  }
+
+  const shared = rollSharedEntry(key, windowStart, windowMs);
+  shared.pending++;
+
+  store.hit(key, windowStart, windowMs).then(
+    (counts) => settleSharedHit(key, windowStart, counts, true),
+    (error: unknown) => {
+      settleSharedHit(key, windowStart, null, true);
+      sharedStoreFailed(store, error);
+    }
+  );
+
+  return {
+    current: Math.max(local.current, shared.count + shared.pending),
+    previous: Math.max(local.previous, shared.previousCount),
+  };
+}
+
+/**
+ * Count a request and wait for the shared store's counts, which include every instance's
+ * requests. If the shared store fails, the instance limits on its own counts and the shared
+ * counts last reported, as countHit does.
+ */
+async function countSharedHit(key: string, windowStart: number, windowMs: number): Promise<RateLimitCounts> {
+  const local = localStore.hit(key, windowStart, windowMs);
+  const store = sharedStore;
+  if (!store) {
+    return local;
+  }
+
+  let counts: RateLimitCounts | null = null;
+  try {
+    counts = await store.hit(key, windowStart, windowMs);
+  } catch (error) {
+    sharedStoreFailed(store, error);
+  }
+
+  const shared = rollSharedEntry(key, windowStart, windowMs);
+  settleSharedHit(key, windowStart, counts, false);
+
+  return {
+    current: Math.max(local.current, counts?.current ?? shared.count + shared.pending),
+    previous: Math.max(local.previous, counts?.previous ?? shared.previousCount),
+  };
+}
+
+/**
+ * Periodic cleanup of expired entries (runs every minute)
+ */
+function startCleanup(): void {
+  // Only run cleanup in Node.js environment (not in edge/browser)
+  if (typeof setInterval !== 'undefined') {
+    const cleanupInterval = setInterval(() => {
+      cleanupRateLimits();
+    }, 60000);
+
+    // Don't block process exit
+    if (cleanupInterval.unref) {
+      cleanupInterval.unref();
+    }
+  }
+}
+
+startCleanup();
 
 // ============================================================================
 // Rate Limit Configurations
@@ -228,7 +534,56 @@ export function getRequestIdentifier(
 }
 
 /**
- * Check if request is rate limited
+ * When the next request fits under the limit again: once enough of the previous window has
+ * slid out, or, when the current window alone is at the limit, part way into the next window
+ */
+function nextAllowedAt(windowStart: number, config: RateLimitConfig, counts: RateLimitCounts): number {
+  const room = config.maxRequests - 1 - counts.current;
+  if (room >= 0 && counts.previous > 0) {
+    return windowStart + config.windowMs * (1 - room / counts.previous);
+  }
+  const carried = Math.max(0, 1 - (config.maxRequests - 1) / counts.current);
+  return windowStart + config.windowMs * (1 + carried);
+}
+
+export interface RateLimitResult {
+  isLimited: boolean;
+  remaining: number;
+  resetAt: number;
+  retryAfter: number;
+}
+
+/**
+ * Sliding window counter: requests in the last windowMs are estimated from the current
+ * window's count plus the previous window's, weighted by how much of it still overlaps.
+ */
+function evaluateLimit(
+  config: RateLimitConfig,
+  counts: RateLimitCounts,
+  now: number,
+  windowStart: number
+): RateLimitResult {
+  const overlap = 1 - (now - windowStart) / config.windowMs;
+  const estimated = counts.previous * overlap + counts.current;
+
+  const isLimited = estimated > config.maxRequests;
+  const remaining = Math.max(0, Math.floor(config.maxRequests - estimated));
+  const resetAt = isLimited
+    ? Math.ceil(nextAllowedAt(windowStart, config, counts))
+    : windowStart + config.windowMs;
+  const retryAfter = isLimited ? Math.max(1, Math.ceil((resetAt - now) / 1000)) : 0;
+
+  return {
+    isLimited,
+    remaining,
+    resetAt,
+    retryAfter,
+  };
+}
+
+/**
+ * Check if request is rate limited, counting with the shared store in the background (see
+ * checkSharedRateLimit for a hard limit across instances)
  *
  * @param identifier - Unique identifier for the requester (IP, shop, etc.)
  * @param config - Rate limit configuration
@@ -239,47 +594,36 @@ export function checkRateLimit(
   identifier: string,
   config: RateLimitConfig,
   namespace: string = 'default'
-): {
-  isLimited: boolean;
-  remaining: number;
-  resetAt: number;
-  retryAfter: number;
-} {
-  const key = `${namespace}:${identifier}`;
+): RateLimitResult {
   const now = Date.now();
-  const entry = rateLimitStore.get(key);
-
-  // No existing entry - create new one
-  if (!entry || entry.resetAt < now) {
-    rateLimitStore.set(key, {
-      count: 1,
-      resetAt: now + config.windowMs,
-    });
+  const windowStart = now - (now % config.windowMs);
+  const counts = countHit(`${namespace}:${identifier}`, windowStart, config.windowMs);
 
-    return {
-      isLimited: false,
-      remaining: config.maxRequests - 1,
-      resetAt: now + config.windowMs,
-      retryAfter: 0,
-    };
-  }
-
-  // Increment existing entry
-  entry.count++;
-  rateLimitStore.set(key, entry);
+  return evaluateLimit(config, counts, now, windowStart);
+}
 
-  const remaining = Math.max(0, config.maxRequests - entry.count);
-  const isLimited = entry.count > config.maxRequests;
-  const retryAfter = isLimited ? Math.ceil((entry.resetAt - now) / 1000) : 0;
+/**
+ * Check if request is rate limited, waiting for the shared store's count so the limit holds
+ * across instances
+ */
+export async function checkSharedRateLimit(
+  identifier: string,
+  config: RateLimitConfig,
+  namespace: string = 'default'
+): Promise<RateLimitResult> {
+  const now = Date.now();
+  const windowStart = now - (now % config.windowMs);
+  const counts = await countSharedHit(`${namespace}:${identifier}`, windowStart, config.windowMs);
 
-  return {
-    isLimited,
-    remaining,
-    resetAt: entry.resetAt,
-    retryAfter,
-  };
+  return evaluateLimit(config, counts, now, windowStart);
 }
 
+type RateLimitOptions = {
+  useShop?: boolean;
+  customKey?: string;
+  namespace?: string;
+};
+
 /**
  * Apply rate limit to a request
  *
@@ -291,17 +635,37 @@ export function checkRateLimit(
 export function rateLimit(
   request: Request,
   config: RateLimitConfig,
-  options?: {
-    useShop?: boolean;
-    customKey?: string;
-    namespace?: string;
-  }
+  options?: RateLimitOptions
 ): Response | null {
   const identifier = getRequestIdentifier(request, options);
   const namespace = options?.namespace || new URL(request.url).pathname;
 
-  const result = checkRateLimit(identifier, config, namespace);
+  return limitResponse(identifier, namespace, config, checkRateLimit(identifier, config, namespace));
+}
+
+/**
+ * Apply rate limit to a request, as a hard limit across instances (waits for the shared store)
+ */
+export async function sharedRateLimit(
+  request: Request,
+  config: RateLimitConfig,
+  options?: RateLimitOptions
+): Promise<Response | null> {
+  const identifier = getRequestIdentifier(request, options);
+  const namespace = options?.namespace || new URL(request.url).pathname;
+
+  return limitResponse(identifier, namespace, config, await checkSharedRateLimit(identifier, config, namespace));
+}
 
+/**
+ * 429 response for a limited request, null when it is allowed
+ */
+function limitResponse(
+  identifier: string,
+  namespace: string,
+  config: RateLimitConfig,
+  result: RateLimitResult
+): Response | null {
   // Add rate limit headers
   const headers = new Headers({
     'X-RateLimit-Limit': config.maxRequests.toString(),
@@ -354,21 +718,58 @@ export function createRateLimiter(config: RateLimitConfig, options?: {
  */
 export function resetRateLimit(identifier: string, namespace: string = 'default'): void {
   const key = `${namespace}:${identifier}`;
-  rateLimitStore.delete(key);
+  localStore.delete(key);
+  sharedCounts.delete(key);
+
+  const store = sharedStore;
+  store?.delete(key).catch((error: unknown) => {
+    logError(error, 'Failed to reset rate limit in the shared store', { store: store.name });
+  });
 }
 
 /**
- * Get rate limit store statistics
+ * Get rate limit store statistics (this instance's counters)
  */
-export function getRateLimitStats() {
-  return rateLimitStore.getStats();
+export function getRateLimitStats(): RateLimitStoreStats {
+  return localStore.getStats();
 }
 
 /**
- * Manual cleanup of expired rate limit entries
+ * Statistics of the shared store, null when there is none
+ */
+export function getSharedRateLimitStats(): Promise<RateLimitStoreStats | null> {
+  return sharedStore ? sharedStore.getStats() : Promise.resolve(null);
+}
+
+/**
+ * Manual cleanup of expired rate limit entries (the shared store's in the background)
  */
 export function cleanupRateLimits(): void {
-  rateLimitStore.cleanup();
+  const now = Date.now();
+  let removed = localStore.cleanup();
+
+  for (const [key, entry] of sharedCounts.entries()) {
+    if (entry.expiresAt < now && entry.pending === 0) {
+      sharedCounts.delete(key);
+      removed++;
+    }
+  }
+
+  if (removed > 0) {
+    logger.info(`🧹 Rate limit cleanup: Removed ${removed} expired entries`);
+  }
+
+  const store = sharedStore;
+  store?.cleanup().then(
+    (count) => {
+      if (count > 0) {
+        logger.info(`🧹 Rate limit cleanup: Removed ${count} expired entries from ${store.name}`);
+      }
+    },
+    (error: unknown) => {
+      logError(error, 'Rate limit cleanup failed', { store: store.name });
+    }
+  );
 }
 
 // ============================================================================
@@ -0,0 +1,64 @@
+/**
+ * Data Retention
+ *
+ * Shared by the data retention page and the retention service.
+ */
+
+// chats: ChatSession + ChatMessage, conversations: Conversation, profileActivity: the
+// browsingHistory / interactions of UserProfile, analytics: ChatAnalytics + AnalyticsEvent
+export const RETENTION_DATA_CLASSES = ["chats", "conversations", "profileActivity", "analytics"] as const;
+
+export type RetentionDataClass = (typeof RETENTION_DATA_CLASSES)[number];
+
+// A shop's overrides (days per data class); missing classes use the app default
+export type RetentionPolicy = Partial<Record<RetentionDataClass, number>>;
+
+export type RetentionRunTrigger = "scheduled" | "manual";
+
+export type RetentionRunStatus = "running" | "completed" | "failed";
+
+// What a purge run deleted or anonymized (or, in a dry run, would have)
+export interface RetentionReport {
+  dryRun: boolean;
+  // Days and cutoff (ISO) applied to each data class
+  days: Record<RetentionDataClass, number>;
+  cutoffs: Record<RetentionDataClass, string>;
+  deleted: {
+    chatSessions: number;
+    chatMessages: number;
+    conversations: number;
+    chatAnalytics: number;
+    analyticsEvents: number;
+  };
+  anonymized: {
+    // Sessions kept because an order was attributed to them: messages and comments removed
+    chatSessions: number;
+    userProfiles: number;
+  };
+}
+
+export function isRetentionDataClass(value: unknown): value is RetentionDataClass {
+  return typeof value === "string" && (RETENTION_DATA_CLASSES as readonly string[]).includes(value);
+}
+
+/**
+ * A stored policy (JSON), without unknown classes and invalid values
+ */
+export function parseRetentionPolicy(value: string | null | undefined): RetentionPolicy {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(value || "{}");
+  } catch {
+    return {};
+  }
+
+  const policy: RetentionPolicy = {};
+  if (raw && typeof raw === "object") {
+    for (const [dataClass, days] of Object.entries(raw)) {
+      if (isRetentionDataClass(dataClass) && Number.isInteger(days) && days > 0) {
+        policy[dataClass] = days;
+      }
+    }
+  }
+  return policy;
+}
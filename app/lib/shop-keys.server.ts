@@ -0,0 +1,183 @@
+/**
+ * Per-Shop Data Keys (envelope encryption)
+ *
+ * With ENCRYPTION_SHOP_KEYS=true, each shop's secrets are encrypted with its own random data key.
+ * The data key is stored in ShopDataKey, wrapped (encrypted) with the master keyring from
+ * encryption.server.ts. Rotating the master key then only re-wraps the data keys, and deleting a
+ * shop's data key makes its secrets unreadable.
+ *
+ * Ciphertexts made with a data key are `v2d:<dataKeyId>:iv:authTag:data`. encryptShopSecret and
+ * decryptShopSecret handle both modes and every ciphertext version.
+ */
+
+import { randomBytes } from "crypto";
+import { prisma as db } from "../db.server";
+import {
+  decryptApiKey,
+  decryptWithKey,
+  encryptApiKey,
+  encryptWithKey,
+  getCiphertextKeyId,
+  getKeyring,
+  needsReencryption,
+} from "./encryption.server";
+import { logError } from "./logger.server";
+
+const DATA_KEY_VERSION = "v2d";
+const CACHE_TTL_MS = 60 * 1000;
+
+// Encrypted WidgetSettings columns: the BYOK provider key (named after the original OpenAI-only
+// BYOK) and the secret signing logged-in customer ids
+const ENCRYPTED_SETTINGS_COLUMNS = ["openaiApiKey", "customerTokenSecret"] as const;
+
+interface DataKey {
+  id: string;
+  key: Buffer;
+}
+
+export interface ReencryptionResult {
+  dataKeysRewrapped: number;
+  secretsReencrypted: number;
+  failed: number;
+}
+
+const dataKeyCache = new Map<string, { dataKey: DataKey; expiresAt: number }>();
+
+export function shopKeysEnabled(): boolean {
+  return process.env.ENCRYPTION_SHOP_KEYS === "true";
+}
+
+function unwrapDataKey(row: { id: string; wrappedKey: string }): DataKey {
+  return { id: row.id, key: Buffer.from(decryptApiKey(row.wrappedKey), "hex") };
+}
+
+async function getDataKey(shop: string): Promise<DataKey | null> {
+  const cached = dataKeyCache.get(shop);
+  if (cached && cached.expiresAt > Date.now()) {
+    return cached.dataKey;
+  }
+
+  const row = await db.shopDataKey.findUnique({ where: { shop } });
+  if (!row) return null;
+
+  const dataKey = unwrapDataKey(row);
+  dataKeyCache.set(shop, { dataKey, expiresAt: Date.now() + CACHE_TTL_MS });
+  return dataKey;
+}
+
+async function getOrCreateDataKey(shop: string): Promise<DataKey> {
+  const existing = await getDataKey(shop);
+  if (existing) return existing;
+
+  const wrappedKey = encryptApiKey(randomBytes(32).toString("hex"));
+  // A concurrent request may have created it first; upsert keeps that one
+  const row = await db.shopDataKey.upsert({
+    where: { shop },
+    create: { shop, wrappedKey, keyId: getCiphertextKeyId(wrappedKey)! },
+    update: {},
+  });
+
+  const dataKey = unwrapDataKey(row);
+  dataKeyCache.set(shop, { dataKey, expiresAt: Date.now() + CACHE_TTL_MS });
+  return dataKey;
+}
+
+/**
+ * Encrypt a shop's secret: with its data key when ENCRYPTION_SHOP_KEYS is on, otherwise with
+ * the current master key
+ */
+export async function encryptShopSecret(shop: string, plaintext: string): Promise<string> {
+  if (!shopKeysEnabled()) {
+    return encryptApiKey(plaintext);
+  }
+
+  const dataKey = await getOrCreateDataKey(shop);
+  return `${DATA_KEY_VERSION}:${dataKey.id}:${encryptWithKey(plaintext, dataKey.key)}`;
+}
+
+/**
+ * Decrypt a shop's secret, whichever key it was encrypted with
+ */
+export async function decryptShopSecret(shop: string, encrypted: string): Promise<string> {
+  if (!encrypted.startsWith(`${DATA_KEY_VERSION}:`)) {
+    return decryptApiKey(encrypted);
+  }
+
+  const [, dataKeyId, ...payload] = encrypted.split(":");
+  const dataKey = await getDataKey(shop);
+  if (!dataKey || dataKey.id !== dataKeyId) {
+    throw new Error("Decryption failed: the shop's data key no longer exists");
+  }
+
+  try {
+    return decryptWithKey(payload.join(":"), dataKey.key);
+  } catch (error) {
+    throw new Error(
+      `Decryption failed: ${error instanceof Error ? error.message : "Unknown error"}. ` +
+      "The data may be corrupted."
+    );
+  }
+}
+
+/**
+ * Whether a stored secret is already encrypted the way encryptShopSecret would now do it
+ */
+function isCurrent(encrypted: string): boolean {
+  if (encrypted.startsWith(`${DATA_KEY_VERSION}:`)) {
+    return shopKeysEnabled();
+  }
+  return !shopKeysEnabled() && !needsReencryption(encrypted);
+}
+
+/**
+ * Move every stored secret to the current keys: re-wrap data keys wrapped with an older master
+ * key, then re-encrypt secrets not yet encrypted with the current master key (or, with
+ * ENCRYPTION_SHOP_KEYS on, with the shop's data key). Safe to re-run.
+ */
+export async function reencryptSecrets(): Promise<ReencryptionResult> {
+  const { currentKeyId } = getKeyring();
+  const result: ReencryptionResult = { dataKeysRewrapped: 0, secretsReencrypted: 0, failed: 0 };
+
+  const staleDataKeys: Array<{ id: string; shop: string; wrappedKey: string }> = await db.shopDataKey.findMany({
+    where: { keyId: { not: currentKeyId } },
+    select: { id: true, shop: true, wrappedKey: true },
+  });
+
+  for (const row of staleDataKeys) {
+    try {
+      const wrappedKey = encryptApiKey(decryptApiKey(row.wrappedKey));
+      await db.shopDataKey.update({ where: { id: row.id }, data: { wrappedKey, keyId: currentKeyId } });
+      result.dataKeysRewrapped++;
+    } catch (error) {
+      logError(error, "Failed to re-wrap shop data key", { shop: row.shop });
+      result.failed++;
+    }
+  }
+
+  for (const column of ENCRYPTED_SETTINGS_COLUMNS) {
+    const settings = await db.widgetSettings.findMany({
+      where: { [column]: { not: null } },
+      select: { shop: true, openaiApiKey: true, customerTokenSecret: true },
+    });
+
+    for (const row of settings) {
+      const encrypted = row[column];
+      if (!encrypted || isCurrent(encrypted)) continue;
+
+      try {
+        const reencrypted = await encryptShopSecret(row.shop, await decryptShopSecret(row.shop, encrypted));
+        // Only if the secret wasn't changed in the meantime
+        const updated = await db.widgetSettings.updateMany({
+          where: { shop: row.shop, [column]: encrypted },
+          data: { [column]: reencrypted },
+        });
+        result.secretsReencrypted += updated.count;
+      } catch (error) {
+        logError(error, "Failed to re-encrypt shop secret", { shop: row.shop, column });
+        result.failed++;
+      }
+    }
+  }
+
+  return result;
+}
@@ -0,0 +1,97 @@
+/**
+ * Server-Sent Events helpers
+ *
+ * Used by the chat endpoint to stream reply tokens to the storefront widgets
+ * before the final structured frame (recommendations, quick replies, ...).
+ *
+ * Frames:
+ *   event: token   data: {"text":"..."}
+ *   event: final   data: { ...same body as the JSON response, status }
+ *   event: error   data: {"message":"..."}
+ */
+
+import { logError } from "./logger.server";
+
+export type SSESend = (event: string, data: unknown) => void;
+
+// Comment frames keep proxies from closing an idle connection while the AI is thinking
+const HEARTBEAT_INTERVAL_MS = 15 * 1000;
+
+/**
+ * Whether the client asked for a streamed response
+ * (`Accept: text/event-stream` or `?stream=1`)
+ */
+export function wantsEventStream(request: Request): boolean {
+  const accept = request.headers.get("Accept") || "";
+  if (accept.includes("text/event-stream")) return true;
+
+  const stream = new URL(request.url).searchParams.get("stream");
+  return stream === "1" || stream === "true";
+}
+
+export function formatSSE(event: string, data: unknown): string {
+  return `event: ${event}\ndata: ${JSON.stringify(data)}\n\n`;
+}
+
+/**
+ * Create a text/event-stream response fed by `run`.
+ * The stream is closed when `run` settles; a rejection is sent as an `error` frame.
+ */
+export function createEventStreamResponse(
+  request: Request,
+  run: (send: SSESend) => Promise<void>,
+  headers: HeadersInit = {}
+): Response {
+  const encoder = new TextEncoder();
+  let closed = false;
+
+  const stream = new ReadableStream<Uint8Array>({
+    start(controller) {
+      const write = (chunk: string) => {
+        if (closed) return;
+        try {
+          controller.enqueue(encoder.encode(chunk));
+        } catch {
+          closed = true;
+        }
+      };
+
+      const send: SSESend = (event, data) => write(formatSSE(event, data));
+      const heartbeat = setInterval(() => write(": ping\n\n"), HEARTBEAT_INTERVAL_MS);
+
+      const close = () => {
+        clearInterval(heartbeat);
+        if (closed) return;
+        closed = true;
+        try {
+          controller.close();
+        } catch {
+          // Already closed by the client
+        }
+      };
+
+      request.signal?.addEventListener("abort", close);
+
+      run(send)
+        .catch((error) => {
+          logError(error, "Event stream failed");
+          send("error", { message: "Sorry, I'm having trouble processing your request right now. Please try again later." });
+        })
+        .finally(close);
+    },
+    cancel() {
+      closed = true;
+    },
+  });
+
+  return new Response(stream, {
+    status: 200,
+    headers: {
+      ...headers,
+      "Content-Type": "text/event-stream; charset=utf-8",
+      "Cache-Control": "no-cache, no-transform",
+      "Connection": "keep-alive",
+      "X-Accel-Buffering": "no", // Disable proxy buffering (nginx)
+    },
+  });
+}
@@ -6,6 +6,8 @@
  */
 
 import type { PlanCodeType } from './plans.config';
+import type { LLMProviderName } from './llm-providers';
+import type { DigestFrequency } from './digests';
 
 /**
  * Widget Settings stored in database
@@ -27,7 +29,14 @@ export interface WidgetSettings {
   apiKeyLastTested?: Date | string | null;
   apiKeyStatus?: string | null;
   webhookUrl?: string | null;
-  workflowType?: 'DEFAULT' | 'CUSTOM';
+  workflowType?: 'DEFAULT' | 'CUSTOM' | 'BUILTIN';
+  llmProvider?: LLMProviderName;
+  llmModel?: string | null;
+  llmBaseUrl?: string | null;
+  attributionWindowDays?: number;
+  digestFrequency?: DigestFrequency;
+  digestEmail?: string | null;
+  digestLastSentAt?: Date | string | null;
   createdAt?: Date | string;
   updatedAt?: Date | string;
 }
@@ -185,6 +194,10 @@ export interface SettingsLoaderData {
   conversationUsage: ConversationUsage | null;
   planLimits: ReturnType<typeof import('./plans.config').getPlanLimits>;
   activePlan: string | null;
+  // Providers the app has credentials for (built-in engine without BYOK)
+  appLLMProviders?: LLMProviderName[];
+  // Whether outgoing email (analytics digests) is set up
+  emailConfigured?: boolean;
 }
 
 /**
@@ -1,4 +1,5 @@
 import { z } from 'zod';
+import { WIDGET_ENTRY_POINTS, TRACKED_WIDGET_EVENTS } from './widget-events';
 
 /**
  * Input Validation Schemas
@@ -91,6 +92,8 @@ export const chatContextSchema = z.object({
   previousMessages: z.array(z.string()).nullish(),
   sessionId: z.string().min(1).max(200).nullish(),
   customerId: z.string().min(1).max(100).nullish(),
+  // Signed by the theme block for a logged-in customer (see customer-identity.service.server.ts)
+  customerToken: z.string().min(1).max(200).nullish(),
   shopDomain: z.string().max(255).nullish(), // Relaxed validation for widget compatibility
   sentiment: z.enum(['POSITIVE', 'NEGATIVE', 'NEUTRAL']).nullish(),
   intent: z.string().max(50).nullish(),
@@ -100,6 +103,7 @@ export const chatContextSchema = z.object({
   page: z.string().max(2048).nullish(),
   productId: z.string().max(100).nullish(), // Widget sends null when no product
   conversationHistory: z.array(z.any()).nullish(),
+  entryPoint: z.enum(WIDGET_ENTRY_POINTS).nullish(),
 }).passthrough().optional();
 
 /**
@@ -139,6 +143,26 @@ export const chatRequestSchema = z.object({
   'Either userMessage or message is required'
 );
 
+/**
+ * Human handoff request from the widget (ask for a person / poll for agent replies)
+ */
+export const handoffRequestSchema = z.object({
+  shop: shopDomainSchema,
+  chatSessionId: z.string().min(1).max(100),
+  since: z.string().datetime().optional(),
+});
+
+/**
+ * Widget funnel event (chat opened / product added to the cart)
+ */
+export const widgetEventSchema = z.object({
+  shop: shopDomainSchema,
+  event: z.enum(TRACKED_WIDGET_EVENTS),
+  sessionId: z.string().min(1).max(200),
+  chatSessionId: z.string().min(1).max(100).nullish(),
+  productId: z.string().min(1).max(100).nullish(),
+});
+
 // ============================================================================
 // Widget Settings Schemas
 // ============================================================================
@@ -272,6 +296,7 @@ export function validationErrorResponse(errors: z.ZodError, status = 400) {
 // ============================================================================
 
 export type ChatRequest = z.infer<typeof chatRequestSchema>;
+export type HandoffRequest = z.infer<typeof handoffRequestSchema>;
 export type WidgetSettings = z.infer<typeof widgetSettingsSchema>;
 export type CustomerDataRequest = z.infer<typeof customerDataRequestSchema>;
 export type CustomerRedact = z.infer<typeof customerRedactSchema>;
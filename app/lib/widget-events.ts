@@ -0,0 +1,15 @@
+/**
+ * Widget Events
+ *
+ * Shared by the widget API routes, the analytics event log and the Analytics page.
+ */
+
+// How the customer started a message: typed it, or used a quick-action / quick-reply button
+export const WIDGET_ENTRY_POINTS = ["typed", "quick_action", "quick_reply"] as const;
+
+export type WidgetEntryPoint = (typeof WIDGET_ENTRY_POINTS)[number];
+
+// Events the widgets report through /api/track-widget-event (messages and clicks have their own endpoints)
+export const TRACKED_WIDGET_EVENTS = ["widget_open", "add_to_cart"] as const;
+
+export type TrackedWidgetEvent = (typeof TRACKED_WIDGET_EVENTS)[number];
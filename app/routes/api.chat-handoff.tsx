@@ -0,0 +1,94 @@
+import type { ActionFunctionArgs, LoaderFunctionArgs } from "@remix-run/node";
+import { json } from "@remix-run/node";
+import { getSecureCorsHeaders, createCorsPreflightResponse } from "../lib/cors.server";
+import { rateLimit, RateLimitPresets, sharedRateLimit } from "../lib/rate-limit.server";
+import { handoffRequestSchema, validateData, validationErrorResponse } from "../lib/validation.server";
+import { logError } from "../lib/logger.server";
+import { handoffService } from "../services/handoff.service.server";
+
+/**
+ * Human handoff API for the widget
+ *
+ * POST { shop, chatSessionId }                    -> ask for a person ({ status: "waiting" })
+ * GET  ?shop=&chatSessionId=&since=<ISO date>     -> { status, messages } agent replies after `since`
+ *
+ * The widget polls GET while the conversation is waiting for or owned by an agent.
+ */
+
+export const loader = async ({ request }: LoaderFunctionArgs) => {
+  if (request.method === "OPTIONS") {
+    return createCorsPreflightResponse(request);
+  }
+
+  const corsHeaders = getSecureCorsHeaders(request);
+
+  // Polling every few seconds stays well under the standard limit
+  const rateLimitResponse = rateLimit(request, RateLimitPresets.STANDARD, { namespace: "chat-handoff-poll" });
+  if (rateLimitResponse) {
+    return rateLimitResponse;
+  }
+
+  const url = new URL(request.url);
+  const validation = validateData(handoffRequestSchema, {
+    shop: url.searchParams.get("shop") || undefined,
+    chatSessionId: url.searchParams.get("chatSessionId") || undefined,
+    since: url.searchParams.get("since") || undefined,
+  });
+
+  if (!validation.success) {
+    const { status, ...body } = validationErrorResponse(validation.errors);
+    return json(body, { status, headers: corsHeaders });
+  }
+
+  const { shop, chatSessionId, since } = validation.data;
+
+  try {
+    const updates = await handoffService.getUpdates(shop, chatSessionId, since ? new Date(since) : undefined);
+    if (!updates) {
+      return json({ error: "Conversation not found" }, { status: 404, headers: corsHeaders });
+    }
+
+    return json(updates, { headers: corsHeaders });
+  } catch (error) {
+    logError(error, "Failed to load handoff updates", { shop });
+    return json({ error: "Failed to load messages" }, { status: 500, headers: corsHeaders });
+  }
+};
+
+export const action = async ({ request }: ActionFunctionArgs) => {
+  if (request.method === "OPTIONS") {
+    return createCorsPreflightResponse(request);
+  }
+
+  const corsHeaders = getSecureCorsHeaders(request);
+
+  if (request.method !== "POST") {
+    return json({ error: "Method not allowed" }, { status: 405, headers: corsHeaders });
+  }
+
+  const rateLimitResponse = await sharedRateLimit(request, RateLimitPresets.STRICT, { namespace: "chat-handoff-request" });
+  if (rateLimitResponse) {
+    return rateLimitResponse;
+  }
+
+  const body = await request.json().catch(() => null);
+  const validation = validateData(handoffRequestSchema, body);
+  if (!validation.success) {
+    const { status, ...errorBody } = validationErrorResponse(validation.errors);
+    return json(errorBody, { status, headers: corsHeaders });
+  }
+
+  const { shop, chatSessionId } = validation.data;
+
+  try {
+    const status = await handoffService.requestHandoff(shop, chatSessionId);
+    if (!status) {
+      return json({ error: "Conversation not found" }, { status: 404, headers: corsHeaders });
+    }
+
+    return json({ success: true, status }, { headers: corsHeaders });
+  } catch (error) {
+    logError(error, "Failed to request handoff", { shop });
+    return json({ error: "Failed to contact the store team" }, { status: 500, headers: corsHeaders });
+  }
+};
@@ -38,7 +38,17 @@ const translations: Record<string, any> = {
     // 👋 Welcome popup
     welcomeMessage: "👋 I'm here to help",
     // 💬 Fallback message when all quick buttons are hidden
-    typeYourQuestion: "Type your question below to get started"
+    typeYourQuestion: "Type your question below to get started",
+    // 📦 Order card
+    trackPackage: "Track package",
+    orderStatusPage: "Order status",
+    estimatedDelivery: "Estimated delivery",
+    orderCancelled: "Cancelled",
+    sources: "Sources",
+    // 🙋 Human handoff
+    handoffWaiting: "A member of our team will join this chat shortly. You can keep writing here.",
+    handoffEnded: "Our team has left the chat. The assistant is back to help you.",
+    storeTeam: "Store team"
   },
   es: {
     online: "En línea",
@@ -75,7 +85,17 @@ const translations: Record<string, any> = {
     // 👋 Welcome popup
     welcomeMessage: "👋 Estoy aquí para ayudarte",
     // 💬 Fallback message when all quick buttons are hidden
-    typeYourQuestion: "Escribe tu pregunta abajo para comenzar"
+    typeYourQuestion: "Escribe tu pregunta abajo para comenzar",
+    // 📦 Order card
+    trackPackage: "Rastrear paquete",
+    orderStatusPage: "Estado del pedido",
+    estimatedDelivery: "Entrega estimada",
+    orderCancelled: "Cancelado",
+    sources: "Fuentes",
+    // 🙋 Human handoff
+    handoffWaiting: "Un miembro de nuestro equipo se unirá a este chat en breve. Puede seguir escribiendo aquí.",
+    handoffEnded: "Nuestro equipo ha salido del chat. El asistente vuelve a ayudarle.",
+    storeTeam: "Equipo de la tienda"
   },
   fr: {
     online: "En ligne",
@@ -112,7 +132,17 @@ const translations: Record<string, any> = {
     // 👋 Welcome popup
     welcomeMessage: "👋 Je suis là pour vous aider",
     // 💬 Fallback message when all quick buttons are hidden
-    typeYourQuestion: "Tapez votre question ci-dessous pour commencer"
+    typeYourQuestion: "Tapez votre question ci-dessous pour commencer",
+    // 📦 Order card
+    trackPackage: "Suivre le colis",
+    orderStatusPage: "Statut de la commande",
+    estimatedDelivery: "Livraison estimée",
+    orderCancelled: "Annulée",
+    sources: "Sources",
+    // 🙋 Human handoff
+    handoffWaiting: "Un membre de notre équipe va rejoindre cette conversation. Vous pouvez continuer à écrire ici.",
+    handoffEnded: "Notre équipe a quitté la conversation. L'assistant est de retour pour vous aider.",
+    storeTeam: "Équipe de la boutique"
   },
   de: {
     online: "Online",
@@ -149,7 +179,17 @@ const translations: Record<string, any> = {
     // 👋 Welcome popup
     welcomeMessage: "👋 Ich bin hier, um Ihnen zu helfen",
     // 💬 Fallback message when all quick buttons are hidden
-    typeYourQuestion: "Geben Sie Ihre Frage unten ein, um zu beginnen"
+    typeYourQuestion: "Geben Sie Ihre Frage unten ein, um zu beginnen",
+    // 📦 Order card
+    trackPackage: "Sendung verfolgen",
+    orderStatusPage: "Bestellstatus",
+    estimatedDelivery: "Voraussichtliche Lieferung",
+    orderCancelled: "Storniert",
+    sources: "Quellen",
+    // 🙋 Human handoff
+    handoffWaiting: "Ein Mitglied unseres Teams wird diesem Chat in Kürze beitreten. Sie können hier weiterschreiben.",
+    handoffEnded: "Unser Team hat den Chat verlassen. Der Assistent hilft Ihnen wieder weiter.",
+    storeTeam: "Shop-Team"
   },
   ja: {
     online: "オンライン",
@@ -186,7 +226,17 @@ const translations: Record<string, any> = {
     // 👋 Welcome popup
     welcomeMessage: "👋 お手伝いさせていただきます",
     // 💬 Fallback message when all quick buttons are hidden
-    typeYourQuestion: "下にご質問を入力してください"
+    typeYourQuestion: "下にご質問を入力してください",
+    // 📦 Order card
+    trackPackage: "荷物を追跡",
+    orderStatusPage: "注文状況",
+    estimatedDelivery: "お届け予定日",
+    orderCancelled: "キャンセル済み",
+    sources: "出典",
+    // 🙋 Human handoff
+    handoffWaiting: "まもなくスタッフがこのチャットに参加します。このままメッセージをお送りください。",
+    handoffEnded: "スタッフがチャットを退出しました。アシスタントが引き続きお手伝いします。",
+    storeTeam: "ストアスタッフ"
   },
   it: {
     online: "Online",
@@ -223,7 +273,17 @@ const translations: Record<string, any> = {
     // 👋 Welcome popup
     welcomeMessage: "👋 Sono qui per aiutarti",
     // 💬 Fallback message when all quick buttons are hidden
-    typeYourQuestion: "Scrivi la tua domanda qui sotto per iniziare"
+    typeYourQuestion: "Scrivi la tua domanda qui sotto per iniziare",
+    // 📦 Order card
+    trackPackage: "Traccia il pacco",
+    orderStatusPage: "Stato dell'ordine",
+    estimatedDelivery: "Consegna prevista",
+    orderCancelled: "Annullato",
+    sources: "Fonti",
+    // 🙋 Human handoff
+    handoffWaiting: "Un membro del nostro team si unirà a questa chat a breve. Puoi continuare a scrivere qui.",
+    handoffEnded: "Il nostro team ha lasciato la chat. L'assistente è di nuovo qui per aiutarti.",
+    storeTeam: "Team del negozio"
   },
   pt: {
     online: "Online",
@@ -260,7 +320,17 @@ const translations: Record<string, any> = {
     // 👋 Welcome popup
     welcomeMessage: "👋 Estou aqui para ajudar",
     // 💬 Fallback message when all quick buttons are hidden
-    typeYourQuestion: "Digite sua pergunta abaixo para começar"
+    typeYourQuestion: "Digite sua pergunta abaixo para começar",
+    // 📦 Order card
+    trackPackage: "Rastrear pacote",
+    orderStatusPage: "Status do pedido",
+    estimatedDelivery: "Entrega prevista",
+    orderCancelled: "Cancelado",
+    sources: "Fontes",
+    // 🙋 Human handoff
+    handoffWaiting: "Um membro da nossa equipe entrará neste chat em breve. Você pode continuar escrevendo aqui.",
+    handoffEnded: "Nossa equipe saiu do chat. O assistente está de volta para ajudar.",
+    storeTeam: "Equipe da loja"
   },
   zh: {
     online: "在线",
@@ -297,7 +367,17 @@ const translations: Record<string, any> = {
     // 👋 Welcome popup
     welcomeMessage: "👋 我在这里帮助您",
     // 💬 Fallback message when all quick buttons are hidden
-    typeYourQuestion: "在下方输入您的问题开始"
+    typeYourQuestion: "在下方输入您的问题开始",
+    // 📦 Order card
+    trackPackage: "追踪包裹",
+    orderStatusPage: "订单状态",
+    estimatedDelivery: "预计送达",
+    orderCancelled: "已取消",
+    sources: "来源",
+    // 🙋 Human handoff
+    handoffWaiting: "我们的团队成员很快会加入此对话。您可以继续在这里留言。",
+    handoffEnded: "我们的团队已离开对话。助手将继续为您服务。",
+    storeTeam: "店铺团队"
   }
 };
 
@@ -0,0 +1,62 @@
+/**
+ * Job Runner Endpoint
+ *
+ * Processes due background jobs for hosts that cannot run a long-lived worker
+ * (e.g. Vercel). Call it from a scheduler every minute:
+ *   POST /api/jobs/run   Authorization: Bearer <CRON_SECRET>
+ * (GET is accepted too, for Vercel Cron.)
+ */
+
+import { json } from "@remix-run/node";
+import type { ActionFunctionArgs, LoaderFunctionArgs } from "@remix-run/node";
+import { timingSafeEqual } from "crypto";
+import { registerJobHandlers } from "../lib/job-handlers.server";
+import { processJobs, recoverStaleJobs, getJobStats } from "../lib/job-queue.server";
+import { logError } from "../lib/logger.server";
+import { retentionService } from "../services/retention.service.server";
+
+// Stop claiming new batches after this long so the function does not time out
+const MAX_RUN_MS = 20 * 1000;
+
+function isAuthorized(request: Request): boolean {
+  const secret = process.env.CRON_SECRET;
+  if (!secret) return false;
+
+  const expected = Buffer.from(`Bearer ${secret}`);
+  const provided = Buffer.from(request.headers.get("Authorization") || "");
+  return expected.length === provided.length && timingSafeEqual(expected, provided);
+}
+
+async function runJobs(request: Request) {
+  if (!isAuthorized(request)) {
+    return json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  registerJobHandlers();
+
+  const workerId = `http:${Date.now()}`;
+  const startedAt = Date.now();
+  let processed = 0;
+  let failed = 0;
+
+  try {
+    await recoverStaleJobs();
+    await retentionService.schedulePurges();
+
+    while (Date.now() - startedAt < MAX_RUN_MS) {
+      const result = await processJobs(workerId);
+      processed += result.processed;
+      failed += result.failed;
+      if (result.processed === 0) break;
+    }
+
+    return json({ success: true, processed, failed, queue: await getJobStats() });
+  } catch (error) {
+    logError(error, "Job runner failed", { processed, failed });
+    return json({ success: false, processed, failed }, { status: 500 });
+  }
+}
+
+export const loader = async ({ request }: LoaderFunctionArgs) => runJobs(request);
+
+export const action = async ({ request }: ActionFunctionArgs) => runJobs(request);
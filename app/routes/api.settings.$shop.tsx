@@ -10,7 +10,7 @@
 import type { LoaderFunctionArgs } from "@remix-run/node";
 import { json } from "@remix-run/node";
 import { prisma as db } from "../db.server";
-import { decryptApiKey } from "../lib/encryption.server";
+import { decryptShopSecret } from "../lib/shop-keys.server";
 import { logger } from "../lib/logger.server";
 
 /**
@@ -87,7 +87,7 @@ export const loader = async ({ request, params }: LoaderFunctionArgs) => {
     let decryptedApiKey: string | null = null;
     if ((settings as any).openaiApiKey) {
       try {
-        decryptedApiKey = decryptApiKey((settings as any).openaiApiKey);
+        decryptedApiKey = await decryptShopSecret(shop, (settings as any).openaiApiKey);
       } catch (error) {
         logger.error({
           error: error instanceof Error ? error.message : String(error),
@@ -1,15 +1,66 @@
 import { json, type ActionFunctionArgs } from "@remix-run/node";
 import { logger } from "../lib/logger.server";
 import { prisma as db } from "../db.server";
-import { isValidOpenAIKey } from "../lib/encryption.server";
+import { LLM } from "../config/limits";
+import { recordAuditEvent } from "../lib/audit.server";
+import {
+  LLM_PROVIDER_INFO,
+  isLLMProviderName,
+  isValidProviderBaseUrl,
+  isValidProviderKey,
+  type LLMProviderName
+} from "../lib/llm-providers";
 
 /**
- * API endpoint to test OpenAI API key validity
+ * API endpoint to test a BYOK provider key (OpenAI, Anthropic, Azure OpenAI, Ollama)
  * POST /api/test-openai-key
  *
- * Body: { shop: string, apiKey: string }
+ * Body: { shop: string, apiKey: string, provider?: string (default "openai"), baseUrl?: string }
  * Returns: { valid: boolean, message: string, details?: any }
  */
+
+/**
+ * A cheap authenticated request that fails with 401/403 for a bad key
+ */
+function getProviderTestRequest(provider: LLMProviderName, apiKey: string, baseUrl: string): { url: string; headers: Record<string, string> } {
+  const base = baseUrl.replace(/\/+$/, "");
+
+  switch (provider) {
+    case "anthropic":
+      return {
+        url: "https://api.anthropic.com/v1/models",
+        headers: { "x-api-key": apiKey, "anthropic-version": "2023-06-01" }
+      };
+    case "azure":
+      return {
+        url: `${base}/openai/models?api-version=${LLM.AZURE_API_VERSION}`,
+        headers: { "api-key": apiKey }
+      };
+    case "ollama":
+      return {
+        url: `${base}/models`,
+        headers: apiKey ? { "Authorization": `Bearer ${apiKey}` } : {}
+      };
+    case "openai":
+      return {
+        url: "https://api.openai.com/v1/models",
+        headers: { "Authorization": `Bearer ${apiKey}` }
+      };
+  }
+}
+/**
+ * Record the test in the shop's audit log (the key itself is never logged)
+ */
+function auditKeyTest(request: Request, shop: string, provider: LLMProviderName, result: string, status?: number) {
+  return recordAuditEvent({
+    shop,
+    actor: { type: "api" },
+    action: "apiKey.tested",
+    metadata: { provider, result, status },
+    request,
+  });
+}
+
 export const action = async ({ request }: ActionFunctionArgs) => {
   if (request.method !== "POST") {
     return json({ error: "Method not allowed. Use POST." }, { status: 405 });
@@ -17,7 +68,8 @@ export const action = async ({ request }: ActionFunctionArgs) => {
 
   try {
     const body = await request.json();
-    const { shop, apiKey } = body;
+    const { shop, apiKey = "", baseUrl = "" } = body;
+    const provider: unknown = body.provider ?? "openai";
 
     // Validation
     if (!shop || typeof shop !== "string") {
@@ -27,7 +79,16 @@ export const action = async ({ request }: ActionFunctionArgs) => {
       }, { status: 400 });
     }
 
-    if (!apiKey || typeof apiKey !== "string") {
+    if (!isLLMProviderName(provider)) {
+      return json({
+        valid: false,
+        message: "Unsupported AI provider"
+      }, { status: 400 });
+    }
+
+    const providerInfo = LLM_PROVIDER_INFO[provider];
+
+    if (typeof apiKey !== "string" || (providerInfo.requiresApiKey && !apiKey)) {
       return json({
         valid: false,
         message: "API key is required and must be a string"
@@ -35,15 +96,24 @@ export const action = async ({ request }: ActionFunctionArgs) => {
     }
 
     // Basic format validation
-    if (!isValidOpenAIKey(apiKey)) {
+    if (!isValidProviderKey(provider, apiKey)) {
+      return json({
+        valid: false,
+        message: `Invalid API key format for ${providerInfo.label}.`
+      }, { status: 400 });
+    }
+
+    // The server calls this URL, so only public HTTPS endpoints are allowed
+    if (providerInfo.requiresBaseUrl && !isValidProviderBaseUrl(baseUrl)) {
       return json({
         valid: false,
-        message: "Invalid API key format. Key should start with 'sk-' or 'sk-proj-' and be at least 20 characters long."
+        message: "A public HTTPS endpoint URL is required for this provider."
       }, { status: 400 });
     }
 
-    // Test the API key by making a simple request to OpenAI
-    logger.info({ shop }, "Testing OpenAI API key");
+    // Test the API key by making a simple authenticated request to the provider
+    logger.info({ shop, provider }, "Testing BYOK API key");
+    const testRequest = getProviderTestRequest(provider, apiKey, baseUrl);
 
     // ✅ PERFORMANCE FIX: Add 10-second timeout to prevent hanging requests
     const controller = new AbortController();
@@ -51,10 +121,10 @@ export const action = async ({ request }: ActionFunctionArgs) => {
 
     let testResponse;
     try {
-      testResponse = await fetch("https://api.openai.com/v1/models", {
+      testResponse = await fetch(testRequest.url, {
         method: "GET",
         headers: {
-          "Authorization": `Bearer ${apiKey}`,
+          ...testRequest.headers,
           "Content-Type": "application/json"
         },
         signal: controller.signal
@@ -63,10 +133,11 @@ export const action = async ({ request }: ActionFunctionArgs) => {
     } catch (fetchError: any) {
       clearTimeout(timeoutId);
       if (fetchError.name === 'AbortError') {
-        logger.error({ shop }, "OpenAI API request timed out after 10 seconds");
+        logger.error({ shop, provider }, "Provider API request timed out after 10 seconds");
+        await auditKeyTest(request, shop, provider, "timeout");
         return json({
           valid: false,
-          message: "Request timed out. OpenAI API is not responding. Please try again later.",
+          message: `Request timed out. ${providerInfo.label} is not responding. Please try again later.`,
           details: {
             error: "timeout"
           }
@@ -79,7 +150,8 @@ export const action = async ({ request }: ActionFunctionArgs) => {
 
     if (testResponse.ok) {
       // API key is valid
-      logger.info({ shop, status: testResponse.status }, "✅ OpenAI API key is valid");
+      logger.info({ shop, provider, status: testResponse.status }, "✅ BYOK API key is valid");
+      await auditKeyTest(request, shop, provider, "valid", testResponse.status);
 
       // Update the database with test results
       try {
@@ -109,9 +181,11 @@ export const action = async ({ request }: ActionFunctionArgs) => {
 
       logger.warn({
         shop,
+        provider,
         status: testResponse.status,
         error: errorData
-      }, "❌ OpenAI API key validation failed");
+      }, "❌ BYOK API key validation failed");
+      await auditKeyTest(request, shop, provider, "invalid", testResponse.status);
 
       // Update the database with test results
       try {
@@ -129,13 +203,15 @@ export const action = async ({ request }: ActionFunctionArgs) => {
       // Determine error message based on status code
       let message = "API key validation failed";
       if (testResponse.status === 401) {
-        message = "Invalid API key. Please check that you've entered the correct key from OpenAI.";
+        message = `Invalid API key. Please check that you've entered the correct key from ${providerInfo.label}.`;
       } else if (testResponse.status === 403) {
-        message = "API key is valid but doesn't have permission to access models. Please check your OpenAI account.";
+        message = `API key is valid but doesn't have permission to access models. Please check your ${providerInfo.label} account.`;
+      } else if (testResponse.status === 404) {
+        message = "Endpoint not found. Please check the endpoint URL.";
       } else if (testResponse.status === 429) {
         message = "Rate limit exceeded. Your API key is valid but has too many requests. Please try again later.";
       } else if (testResponse.status >= 500) {
-        message = "OpenAI service is currently unavailable. Please try again later.";
+        message = `${providerInfo.label} is currently unavailable. Please try again later.`;
       }
 
       return json({
@@ -153,7 +229,7 @@ export const action = async ({ request }: ActionFunctionArgs) => {
     logger.error({
       error: error.message,
       stack: error.stack
-    }, "Error testing OpenAI API key");
+    }, "Error testing BYOK API key");
 
     return json({
       valid: false,
@@ -1,6 +1,7 @@
 import { json, type ActionFunctionArgs } from "@remix-run/node";
 import { logger } from "../lib/logger.server";
-import { prisma as db } from "../db.server";
+import { recordLLMUsage } from "../lib/llm-provider.server";
+import { estimateLLMCost, isLLMProviderName } from "../lib/llm-providers";
 
 /**
  * API endpoint to track BYOK usage (API calls, tokens, costs)
@@ -11,7 +12,8 @@ import { prisma as db } from "../db.server";
  *   promptTokens: number,
  *   completionTokens: number,
  *   totalTokens: number,
- *   model: string
+ *   model: string,
+ *   provider?: "openai" | "anthropic" | "azure" | "ollama"
  * }
  */
 export const action = async ({ request }: ActionFunctionArgs) => {
@@ -21,7 +23,7 @@ export const action = async ({ request }: ActionFunctionArgs) => {
 
   try {
     const body = await request.json();
-    const { shop, promptTokens, completionTokens, totalTokens, model } = body;
+    const { shop, promptTokens, completionTokens, totalTokens, model, provider } = body;
 
     // Validation
     if (!shop || typeof shop !== "string") {
@@ -36,24 +38,8 @@ export const action = async ({ request }: ActionFunctionArgs) => {
       }, { status: 400 });
     }
 
-    // Calculate estimated cost based on model
-    // Prices per 1M tokens for gpt-4o-mini (as of 2024)
-    const PRICING: Record<string, { prompt: number; completion: number }> = {
-      "gpt-4o-mini": { prompt: 0.15, completion: 0.60 },  // $0.15/$0.60 per 1M tokens
-      "gpt-4o": { prompt: 2.50, completion: 10.00 },      // $2.50/$10.00 per 1M tokens
-      "gpt-4": { prompt: 30.00, completion: 60.00 },      // $30/$60 per 1M tokens
-      "gpt-3.5-turbo": { prompt: 0.50, completion: 1.50 }, // $0.50/$1.50 per 1M tokens
-    };
-
-    const pricing = PRICING[model] || PRICING["gpt-4o-mini"]; // Default to gpt-4o-mini pricing
-    const estimatedCost = (
-      (promptTokens / 1_000_000) * pricing.prompt +
-      (completionTokens / 1_000_000) * pricing.completion
-    );
-
-    // Get today's date at midnight (for aggregation)
-    const today = new Date();
-    today.setHours(0, 0, 0, 0);
+    const usageProvider = isLLMProviderName(provider) ? provider : undefined;
+    const estimatedCost = estimateLLMCost(model, promptTokens, completionTokens, usageProvider);
 
     logger.info({
       shop,
@@ -61,45 +47,16 @@ export const action = async ({ request }: ActionFunctionArgs) => {
       completionTokens,
       totalTokens,
       estimatedCost,
-      model
+      model,
+      provider: usageProvider
     }, "Tracking BYOK usage");
 
     // Update or create usage record for today
-    const usage = await db.byokUsage.upsert({
-      where: {
-        shop_date: {
-          shop,
-          date: today
-        }
-      },
-      update: {
-        totalApiCalls: {
-          increment: 1
-        },
-        totalTokensUsed: {
-          increment: totalTokens
-        },
-        promptTokens: {
-          increment: promptTokens
-        },
-        completionTokens: {
-          increment: completionTokens
-        },
-        estimatedCost: {
-          increment: estimatedCost
-        }
-      },
-      create: {
-        shop,
-        date: today,
-        totalApiCalls: 1,
-        totalTokensUsed: totalTokens,
-        promptTokens,
-        completionTokens,
-        estimatedCost,
-        plan: "BYOK"
-      }
-    });
+    const usage = await recordLLMUsage(shop, model, {
+      promptTokens,
+      completionTokens,
+      totalTokens: typeof totalTokens === "number" ? totalTokens : promptTokens + completionTokens
+    }, usageProvider);
 
     logger.info({ shop, usageId: usage.id }, "✅ BYOK usage tracked successfully");
 
@@ -74,8 +74,16 @@ export const action = async ({ request }: ActionFunctionArgs) => {
     await personalizationService.updateAnalytics(shop, {
       productClicked: productId,
       productTitle: productTitle, // ✅ FIX: Pass product title for better analytics
+      visitorId: typeof sessionId === "string" ? sessionId : undefined,
     });
 
+    // Tie the click to the conversation turn that recommended the product (non-blocking)
+    if (typeof sessionId === "string" && typeof productId === "string") {
+      await personalizationService.recordProductClick(shop, sessionId, productId).catch((error) => {
+        logger.warn({ error: error instanceof Error ? error.message : String(error), shop }, "Failed to link product click to chat message");
+      });
+    }
+
     // Return success response with CORS headers
     const corsHeaders = getSecureCorsHeaders(request);
     return json(
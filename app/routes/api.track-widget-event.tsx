@@ -0,0 +1,61 @@
+import type { ActionFunctionArgs, LoaderFunctionArgs } from "@remix-run/node";
+import { json } from "@remix-run/node";
+import { getSecureCorsHeaders, createCorsPreflightResponse } from "../lib/cors.server";
+import { rateLimit, RateLimitPresets } from "../lib/rate-limit.server";
+import { widgetEventSchema, validateData, validationErrorResponse } from "../lib/validation.server";
+import { recordAnalyticsEvent } from "../lib/analytics-events.server";
+import { logError } from "../lib/logger.server";
+
+/**
+ * Widget funnel events
+ *
+ * POST { shop, event: "widget_open" | "add_to_cart", sessionId, chatSessionId?, productId? }
+ *
+ * Messages and product clicks are recorded by their own endpoints; these are the funnel
+ * steps only the widget sees (see AnalyticsService.getFunnel).
+ */
+
+export const loader = async ({ request }: LoaderFunctionArgs) => {
+  if (request.method === "OPTIONS") {
+    return createCorsPreflightResponse(request);
+  }
+
+  return json({ error: "Method not allowed. Use POST to track events." }, { status: 405 });
+};
+
+export const action = async ({ request }: ActionFunctionArgs) => {
+  if (request.method === "OPTIONS") {
+    return createCorsPreflightResponse(request);
+  }
+
+  const corsHeaders = getSecureCorsHeaders(request);
+
+  if (request.method !== "POST") {
+    return json({ error: "Method not allowed" }, { status: 405, headers: corsHeaders });
+  }
+
+  const rateLimitResponse = rateLimit(request, RateLimitPresets.STANDARD, { namespace: "widget-event" });
+  if (rateLimitResponse) {
+    return rateLimitResponse;
+  }
+
+  const body = await request.json().catch(() => null);
+  const validation = validateData(widgetEventSchema, body);
+  if (!validation.success) {
+    const { status, ...errorBody } = validationErrorResponse(validation.errors);
+    return json(errorBody, { status, headers: corsHeaders });
+  }
+
+  const { shop, event, sessionId, chatSessionId, productId } = validation.data;
+
+  try {
+    await recordAnalyticsEvent(shop, event === "add_to_cart"
+      ? { type: "add_to_cart", visitorId: sessionId, chatSessionId, productId: productId ?? undefined }
+      : { type: "widget_open", visitorId: sessionId, chatSessionId });
+
+    return json({ success: true }, { headers: corsHeaders });
+  } catch (error) {
+    logError(error, "Failed to track widget event", { shop, event });
+    return json({ error: "Failed to track event" }, { status: 500, headers: corsHeaders });
+  }
+};
@@ -3,16 +3,36 @@ import { json } from "@remix-run/node";
 import { unauthenticated } from "../shopify.server";
 import { prisma as db } from "../db.server";
 import { getSecureCorsHeaders, createCorsPreflightResponse, isOriginAllowed } from "../lib/cors.server";
-import { rateLimit, RateLimitPresets } from "../lib/rate-limit.server";
+import { getRequestIdentifier, rateLimit, RateLimitPresets, sharedRateLimit } from "../lib/rate-limit.server";
 import { chatRequestSchema, validateData, validationErrorResponse } from "../lib/validation.server";
 import { getAPISecurityHeaders, mergeSecurityHeaders } from "../lib/security-headers.server";
 import { logError, createLogger } from "../lib/logger.server";
-import { personalizationService } from "../services/personalization.service";
+import { enqueueJobSafe } from "../lib/job-queue.server";
+import { createEventStreamResponse, wantsEventStream } from "../lib/sse.server";
 import { checkConversationLimit, getConversationUsage } from "../lib/conversation-usage.server";
 import { normalizePlanCode, PlanCode } from "../lib/plans.config";
 import type { WidgetSettings } from "../lib/types";
-import { fetchShopPolicies, toShopPoliciesFormat, type CachedShopPolicies } from "../services/policy-cache.service.server";
-import type { ShopPolicies } from "../services/n8n.service.server";
+import { shopPoliciesService } from "../services/shop-policies.service.server";
+import type { N8NWebhookResponse, ShopPolicies } from "../services/n8n.service.server";
+import { orderTrackingService } from "../services/order-tracking.service.server";
+import { handoffService } from "../services/handoff.service.server";
+import { customerIdentityService } from "../services/customer-identity.service.server";
+import { knowledgeBaseService, type KnowledgeRetrieval } from "../services/knowledge-base.service.server";
+import { isHandoffActive } from "../lib/handoff";
+import type { ChatResponder } from "../services/chat-engine.service.server";
+import type { ChatToolContext } from "../lib/chat-tools.server";
+import { AI } from "../config/limits";
+import { createLLMProvider, recordLLMUsage, resolveShopLLMConfig } from "../lib/llm-provider.server";
+import { intentClassifier } from "../services/intent-classifier.service";
+import { isProductIntent as isProductIntentType, isSupportIntent as isSupportIntentType } from "../lib/intents";
+import {
+  extractProductFilters,
+  buildProductSearchQuery,
+  hasProductFilters,
+  relaxProductSearchFilters,
+  rankProductsByOptions,
+  type ProductSearchFilters,
+} from "../lib/product-search.server";
 
 // Default settings (same as in settings page)
 const DEFAULT_SETTINGS: Partial<WidgetSettings> = {
@@ -26,101 +46,22 @@ const DEFAULT_SETTINGS: Partial<WidgetSettings> = {
   plan: PlanCode.STARTER, // ✅ Use standardized plan code
 };
 
-// ✅ COMPREHENSIVE Intent detection system for Quick Action Buttons
-type Intent =
-  // Product Discovery Intents
-  | { type: "BESTSELLERS" }
-  | { type: "NEW_ARRIVALS" }
-  | { type: "ON_SALE" }
-  | { type: "RECOMMENDATIONS" }
-  // Customer Support Intents (NO PRODUCTS)
-  | { type: "SHIPPING_INFO" }
-  | { type: "RETURNS" }
-  | { type: "TRACK_ORDER" }
-  | { type: "HELP_FAQ" }
-  // Fallback Intents
-  | { type: "PRODUCT_SEARCH"; query: string }
-  | { type: "GENERAL_CHAT" };
-
-function detectIntent(message: string): Intent {
-  const lower = message.toLowerCase().trim();
-
-  // ========================================
-  // CUSTOMER SUPPORT INTENTS (NO PRODUCTS)
-  // ========================================
-
-  // Shipping Info: "Tell me about shipping and delivery"
-  // 🌍 Multilingual: EN, FR, ES, DE, JA, IT, PT, ZH
-  if (/(shipping|delivery|livraison|expédition|délai.*livraison|frais.*port|envío|entrega|enviar|versand|lieferung|spedizione|consegna|envio|entrega|配送|配达|发货|物流|配送について|配達)/i.test(lower)) {
-    return { type: "SHIPPING_INFO" };
-  }
-
-  // Returns: "What is your return policy?"
-  // 🌍 Multilingual: EN, FR, ES, DE, JA, IT, PT, ZH
-  if (/(return|refund|exchange|retour|remboursement|échange|politique.*retour|devoluciones?|reembolso|cambio|rücksendung|erstattung|umtausch|resi|rimborso|cambio|devolução|reembolso|troca|退货|退款|换货|返品|返金|返品ポリシー)/i.test(lower)) {
-    return { type: "RETURNS" };
-  }
-
-  // Track Order: "How can I track my order?"
-  // 🌍 Multilingual: EN, FR, ES, DE, JA, IT, PT, ZH
-  if (/(track|tracking|where.*is.*my.*order|order.*status|suivre.*commande|suivi.*colis|rastrear|seguimiento|pedido|verfolgen|sendungsverfolgung|bestellung|traccia.*ordine|stato.*ordine|rastrear|acompanhar|pedido|追踪|订单状态|查询|追跡|注文.*追跡|注文状況)/i.test(lower)) {
-    return { type: "TRACK_ORDER" };
-  }
-
-  // Help/FAQ: "I need help with something" or "How can I talk to someone"
-  // 🌍 Multilingual: EN, FR, ES, DE, JA, IT, PT, ZH
-  if (/(help|faq|question|support|assistance|aide|besoin.*aide|customer.*service|service.*client|talk.*to.*someone|speak.*to.*someone|contact.*you|reach.*you|parler.*avec|parler.*quelqu'un|contacter|joindre|comment.*vous.*contacter|ayuda|asistencia|soporte|servicio.*cliente|preguntas?|hilfe|unterstützung|kundendienst|fragen?|aiuto|supporto|assistenza|servizio.*clienti|domande?|ajuda|suporte|atendimento|perguntas?|帮助|支持|客服|联系|咨询|ヘルプ|サポート|助け|お問い合わせ)/i.test(lower)) {
-    return { type: "HELP_FAQ" };
-  }
-
-  // ========================================
-  // PRODUCT DISCOVERY INTENTS
-  // ========================================
-
-  // Best Sellers: "What are your best-selling products?"
-  // 🌍 Multilingual: EN, FR, ES, DE, JA, IT, PT, ZH
-  if (/(best[-\s]?selling|best[-\s]?seller|top[-\s]?seller|most[-\s]?popular|popular.*product|meilleur.*vente|plus.*vendus|más.*vendido|populares?|producto.*popular|bestseller|beliebte.*produkte?|più.*venduti|popolari|mais.*vendidos|畅销|热门|人気|ベストセラー|人気商品)/i.test(lower)) {
-    return { type: "BESTSELLERS" };
-  }
-
-  // New Arrivals: "Show me new arrivals"
-  // 🌍 Multilingual: EN, FR, ES, DE, JA, IT, PT, ZH
-  if (/(new[-\s]?arrival|latest|recent|just[-\s]?added|nouveauté|nouveau.*produit|dernier.*ajout|novedades?|nuevo.*producto|neuheiten?|neue.*produkte?|novità|nuovi.*prodotti|novidades?|novo.*produto|新品|新上市|新着|新商品|新製品)/i.test(lower)) {
-    return { type: "NEW_ARRIVALS" };
-  }
-
-  // On Sale: "What products are on sale?"
-  // 🌍 Multilingual: EN, FR, ES, DE, JA, IT, PT, ZH
-  if (/(on[-\s]?sale|discount|promo|deal|solde|réduction|promotion|rabais|oferta|descuento|rebaja|angebot|rabatt|reduziert|offerta|sconto|promoção|desconto|促销|打折|优惠|特价|セール|割引|特売)/i.test(lower)) {
-    return { type: "ON_SALE" };
-  }
-
-  // Recommendations: "Show me recommendations for me"
-  // 🌍 Multilingual: EN, FR, ES, DE, JA, IT, PT, ZH
-  if (/(recommendation|recommend.*for.*me|suggest.*for.*me|for[-\s]?you|personnalisé|recommandation|recomendaciones?|recomendado|sugerencias?|empfehlungen?|empfohlen|vorschläge|raccomandazioni?|consigliato|suggerimenti|recomendações?|recomendado|sugestões|推荐|建议|おすすめ|推奨|お勧め)/i.test(lower)) {
-    return { type: "RECOMMENDATIONS" };
-  }
-
-  // ========================================
-  // FALLBACK: Generic Product Search
-  // ========================================
-
-  // T-shirts
-  if (/(t[-\s]?shirt)/i.test(lower)) {
-    return { type: "PRODUCT_SEARCH", query: "t-shirt" };
-  }
-
-  // Shoes
-  if (/(shoe|chaussure|sneaker|boot|basket)/i.test(lower)) {
-    return { type: "PRODUCT_SEARCH", query: "shoe" };
-  }
-
-  // General product queries
-  if (/(show|see|display|browse|view|product|item|all.*product|categor|montre|affiche|voir|parcour|vêtement|produit|collection)/i.test(lower)) {
-    return { type: "PRODUCT_SEARCH", query: "product" };
-  }
-
-  return { type: "GENERAL_CHAT" };
+// Map a GraphQL product node to the product shape sent to N8N and the widget
+function mapProductNode(node: any) {
+  return {
+    id: node.id,
+    title: node.title,
+    handle: node.handle,
+    description: node.description || '',
+    image: node.featuredImage?.url,
+    price: node.variants.edges[0]?.node.price || '0.00',
+    compareAtPrice: node.variants.edges[0]?.node.compareAtPrice || null,
+    inventory: node.totalInventory || 0,
+    tags: node.tags || [],
+    options: node.options || [],
+    rating: null, // Add if you have review apps
+    reviewCount: 0 // Add if you have review apps
+  };
 }
 
 // ✅ ADDED: Sentiment analysis helper
@@ -306,7 +247,31 @@ export const loader = async ({ request }: LoaderFunctionArgs) => {
 };
 
 // Handle POST requests for chat messages to N8N webhook
+/**
+ * Chat endpoint. Returns JSON, or Server-Sent Events when the client sends
+ * `Accept: text/event-stream`: `token` frames while the reply is generated, then a
+ * `final` frame with the same body as the JSON response (plus its HTTP status).
+ */
 export const action = async ({ request }: ActionFunctionArgs) => {
+  if (request.method !== 'OPTIONS' && wantsEventStream(request)) {
+    return createEventStreamResponse(
+      request,
+      async (send) => {
+        const response = await handleChatRequest(request, (token) => send('token', { text: token }));
+        const body = await response.json().catch(() => ({ error: 'Invalid response' }));
+        send('final', { ...body, status: response.status });
+      },
+      mergeSecurityHeaders(getSecureCorsHeaders(request), getAPISecurityHeaders())
+    );
+  }
+
+  return handleChatRequest(request);
+};
+
+async function handleChatRequest(
+  request: Request,
+  onToken?: (token: string) => void
+): Promise<Response> {
   const routeLogger = createLogger({ route: '/api/widget-settings' });
 
   // ✅ SECURITY FIX: Use secure CORS headers (whitelist Shopify domains only)
@@ -325,7 +290,7 @@ export const action = async ({ request }: ActionFunctionArgs) => {
 
   // ✅ SECURITY FIX: Apply rate limiting
   // Moderate limit for chat messages: 100 requests per minute
-  const rateLimitResponse = rateLimit(request, RateLimitPresets.MODERATE, {
+  const rateLimitResponse = await sharedRateLimit(request, RateLimitPresets.MODERATE, {
     useShop: true,
     namespace: '/api/widget-settings/action',
   });
@@ -401,6 +366,53 @@ export const action = async ({ request }: ActionFunctionArgs) => {
 
     routeLogger.debug({ messageLength: finalMessage.length }, 'Processing chat message');
 
+    // Logged-in customer: only trusted when signed by the theme block (context.customerId is
+    // whatever the widget sent, so it is ignored). Their other profiles are merged into this one.
+    let customerId: string | null = null;
+    if (context.sessionId && context.customerToken) {
+      try {
+        customerId = await customerIdentityService.verifyToken(shopDomain, context.customerToken);
+        if (customerId) {
+          await customerIdentityService.identify(shopDomain, context.sessionId, customerId);
+        }
+      } catch (error) {
+        routeLogger.warn({ error: (error as Error).message, shop: shopDomain }, 'Failed to identify customer (non-blocking)');
+      }
+    }
+
+    // ========================================
+    // HUMAN HANDOFF: the assistant stays quiet while an agent owns the conversation
+    // ========================================
+    if (context.sessionId) {
+      try {
+        const activeSession = await handoffService.findActiveSession(shopDomain, context.sessionId);
+        if (activeSession?.status === 'agent') {
+          await handoffService.addCustomerMessage(activeSession.id, finalMessage);
+          routeLogger.info({ shop: shopDomain, chatSessionId: activeSession.id }, 'Message stored for the agent - assistant quiet');
+
+          return json({
+            response: '',
+            message: '',
+            messageType: 'handoff',
+            recommendations: [],
+            quickReplies: [],
+            handoff: { status: activeSession.status },
+            chatSessionId: activeSession.id,
+            sessionId: context.sessionId,
+            timestamp: new Date().toISOString(),
+            success: true,
+          }, {
+            headers: mergeSecurityHeaders(
+              getSecureCorsHeaders(request),
+              getAPISecurityHeaders()
+            ),
+          });
+        }
+      } catch (error) {
+        routeLogger.warn({ error: (error as Error).message }, 'Failed to check handoff status (non-blocking)');
+      }
+    }
+
     // ========================================
     // CONVERSATION LIMIT ENFORCEMENT
     // ========================================
@@ -489,29 +501,17 @@ export const action = async ({ request }: ActionFunctionArgs) => {
     let shopPolicies: ShopPolicies | undefined;
 
     try {
-      routeLogger.info({ shop: shopDomain }, '🔄 Attempting to fetch shop policies...');
-      const { session } = await unauthenticated.admin(shopDomain);
+      const { admin } = await unauthenticated.admin(shopDomain);
+
+      // Stored per shop; fetched through the Admin API on first use and refreshed in the background
+      shopPolicies = (await shopPoliciesService.getPolicies(shopDomain, admin)) || undefined;
 
       routeLogger.info({
         shop: shopDomain,
-        hasSession: !!session,
-        hasAccessToken: !!session?.accessToken
-      }, '🔑 Session retrieved for policy fetch');
-
-      // Use REST API for policies with direct fetch (GraphQL doesn't expose policy fields)
-      if (session?.accessToken) {
-        const cachedPolicies = await fetchShopPolicies(shopDomain, session.accessToken);
-        shopPolicies = toShopPoliciesFormat(cachedPolicies);
-
-        routeLogger.info({
-          shop: shopDomain,
-          hasReturns: !!shopPolicies?.returns,
-          hasShipping: !!shopPolicies?.shipping,
-          hasPolicies: !!shopPolicies,
-        }, '✅ Shop policies fetched/cached for fallback support');
-      } else {
-        routeLogger.warn({ shop: shopDomain }, '⚠️ No access token available for policy fetch');
-      }
+        hasReturns: !!shopPolicies?.returns,
+        hasShipping: !!shopPolicies?.shipping,
+        hasPolicies: !!shopPolicies,
+      }, '✅ Shop policies loaded for fallback support');
     } catch (policyError) {
       routeLogger.warn({
         shop: shopDomain,
@@ -521,8 +521,29 @@ export const action = async ({ request }: ActionFunctionArgs) => {
       // Continue without policies - fallback will use generic messages
     }
 
+    // Answers the merchant wrote for similar questions and knowledge base passages
+    let knowledge: KnowledgeRetrieval = { faqs: [], passages: [] };
+    try {
+      knowledge = await knowledgeBaseService.retrieve(shopDomain, finalMessage);
+    } catch (knowledgeError) {
+      routeLogger.warn({
+        shop: shopDomain,
+        error: knowledgeError instanceof Error ? knowledgeError.message : String(knowledgeError),
+      }, '⚠️ Failed to search the knowledge base (non-blocking)');
+    }
+
+    // An order number / email sent after the order tracking flow asked for it
+    let awaitingOrderDetails = false;
+    if (context.sessionId) {
+      try {
+        awaitingOrderDetails = await orderTrackingService.isAwaitingOrderDetails(shopDomain, context.sessionId);
+      } catch (error) {
+        routeLogger.warn({ error: (error as Error).message }, 'Failed to load the order tracking state (non-blocking)');
+      }
+    }
+
     // ✅ IMPROVED: Detect intent, sentiment, and language
-    const intent = detectIntent(finalMessage);
+    const intent = await intentClassifier.classify(finalMessage, { shop: shopDomain, awaitingOrderDetails });
     const sentiment = analyzeSentiment(finalMessage);
 
     // 🌍 LANGUAGE DETECTION FIX: Prioritize interface locale over message content
@@ -547,16 +568,175 @@ export const action = async ({ request }: ActionFunctionArgs) => {
 
     routeLogger.debug({
       intent: intent.type,
+      intentConfidence: intent.confidence,
+      intentSource: intent.source,
       sentiment,
       language: detectedLanguage
     }, 'Intent, sentiment, and language detected');
 
+    // ========================================
+    // GET WEBHOOK URL (for all intents)
+    // ========================================
+
+    // Get webhook URL from widget settings
+    let settings = null;
+    let decryptedOpenAIKey: string | null = null;
+    try {
+      settings = await db.widgetSettings.findUnique({
+        where: { shop: shopDomain },
+      });
+
+      // ✅ CRITICAL: Decrypt the BYOK provider key if it exists (for BYOK plan)
+      if ((settings as any)?.openaiApiKey && (settings as any)?.plan === 'BYOK') {
+        try {
+          const { decryptShopSecret } = await import("../lib/shop-keys.server");
+          decryptedOpenAIKey = await decryptShopSecret(shopDomain, (settings as any).openaiApiKey);
+          routeLogger.info({ shop: shopDomain }, '🔑 Decrypted BYOK API key');
+        } catch (error) {
+          routeLogger.error({
+            error: error instanceof Error ? error.message : String(error),
+            shop: shopDomain
+          }, '❌ Failed to decrypt BYOK API key');
+        }
+      }
+
+      routeLogger.debug({
+        shop: shopDomain,
+        workflowType: (settings as any)?.workflowType || 'DEFAULT',
+        plan: (settings as any)?.plan || 'BASIC',
+        hasCustomWebhook: !!(settings as any)?.webhookUrl,
+        hasOpenAIKey: !!decryptedOpenAIKey
+      }, 'Retrieved widget settings');
+    } catch (error) {
+      routeLogger.debug('Could not fetch settings from database');
+      settings = null;
+    }
+
+    // ✅ IMPROVED: Determine workflow type and webhook URL based on PLAN
+    const workflowType = (settings as any)?.workflowType || 'DEFAULT';
+    const plan = (settings as any)?.plan || 'BASIC';
+    let webhookUrl: string | undefined;
+    let workflowDescription: string;
+
+    // First check if custom workflow is selected (overrides plan-based routing)
+    if (workflowType === 'CUSTOM') {
+      // CUSTOM WORKFLOW: Use merchant's custom N8N webhook
+      const customWebhookUrl = (settings as any)?.webhookUrl;
+      const isValidCustomUrl = customWebhookUrl &&
+                              typeof customWebhookUrl === 'string' &&
+                              customWebhookUrl.trim() !== '' &&
+                              customWebhookUrl !== 'https://' &&
+                              customWebhookUrl !== 'null' &&
+                              customWebhookUrl !== 'undefined' &&
+                              customWebhookUrl.startsWith('https://') &&
+                              customWebhookUrl.length > 8;
+
+      if (isValidCustomUrl) {
+        webhookUrl = customWebhookUrl;
+        workflowDescription = 'CUSTOM N8N Workflow (merchant webhook)';
+      } else {
+        // Invalid custom URL - fallback to plan-based routing
+        if (plan === 'BYOK') {
+          webhookUrl = process.env.N8N_WEBHOOK_BYOK || process.env.N8N_WEBHOOK_URL;
+          workflowDescription = 'BYOK Workflow (fallback from invalid custom URL)';
+        } else {
+          webhookUrl = process.env.N8N_WEBHOOK_URL;
+          workflowDescription = 'DEFAULT Workflow (invalid custom URL, using fallback)';
+        }
+        routeLogger.warn({
+          shop: shopDomain,
+          customUrl: customWebhookUrl,
+          plan
+        }, '⚠️ Custom workflow selected but URL invalid - falling back to plan-based routing');
+      }
+    } else {
+      // DEFAULT WORKFLOW: Use plan-based webhook routing
+      if (plan === 'BYOK') {
+        // BYOK Plan: Use BYOK-specific webhook (with customer's own OpenAI API key)
+        webhookUrl = process.env.N8N_WEBHOOK_BYOK || process.env.N8N_WEBHOOK_URL;
+        workflowDescription = 'BYOK Plan Workflow (customer API key)';
+        routeLogger.info({
+          shop: shopDomain,
+          plan,
+          hasByokWebhook: !!process.env.N8N_WEBHOOK_BYOK
+        }, '🔑 Using BYOK plan webhook');
+      } else if (plan === 'Starter') {
+        // BASIC Plan ($25/month): Use default webhook
+        webhookUrl = process.env.N8N_WEBHOOK_URL;
+        workflowDescription = 'Starter Plan Workflow ($25/month)';
+      } else if (plan === 'Pro') {
+        // UNLIMITED Plan ($79/month): Use default webhook (or could be a separate one)
+        webhookUrl = process.env.N8N_WEBHOOK_URL;
+        workflowDescription = 'Pro Plan Workflow ($79/month)';
+      } else {
+        // Fallback for unknown plans
+        webhookUrl = process.env.N8N_WEBHOOK_URL;
+        workflowDescription = 'DEFAULT Workflow (unknown plan)';
+        routeLogger.warn({
+          shop: shopDomain,
+          plan
+        }, '⚠️ Unknown plan, using default webhook');
+      }
+    }
+
+    // Built-in chat engine: selected in settings, or used automatically when no N8N webhook is configured.
+    // BYOK shops always use their own key; other plans use the app's credentials for the shop's provider.
+    const llmConfig = resolveShopLLMConfig(settings as any, decryptedOpenAIKey);
+    const useBuiltinEngine = !!llmConfig && (workflowType === 'BUILTIN' || !webhookUrl);
+    // With tools the engine looks up products and policies itself, so nothing is pre-fetched
+    const useChatTools = useBuiltinEngine && AI.CHAT_TOOLS_ENABLED;
+
+    if (useBuiltinEngine) {
+      workflowDescription = `Built-in Chat Engine (${llmConfig?.provider})`;
+    } else if (workflowType === 'BUILTIN') {
+      routeLogger.warn({ shop: shopDomain, plan }, '⚠️ Built-in engine selected but no LLM provider available - using N8N routing');
+    }
+
+    routeLogger.info({
+      workflow: workflowDescription,
+      workflowType,
+      plan,
+      shop: shopDomain,
+      intent: intent.type,
+      hasWebhook: !!webhookUrl,
+      builtinEngine: useBuiltinEngine,
+      chatTools: useChatTools
+    }, '🔄 Using workflow');
+
+    // N8N webhook, or the built-in engine with the N8N local fallback behind it
+    const createChatService = async (): Promise<ChatResponder> => {
+      const { N8NService } = await import("../services/n8n.service.server");
+      const n8nService = new N8NService(webhookUrl);
+      if (!useBuiltinEngine || !llmConfig) return n8nService;
+
+      let provider;
+      try {
+        provider = createLLMProvider(llmConfig);
+      } catch (error) {
+        routeLogger.warn({ error: (error as Error).message, shop: shopDomain }, '⚠️ LLM provider misconfigured - using N8N routing');
+        return n8nService;
+      }
+
+      let tools: ChatToolContext | undefined;
+      if (useChatTools) {
+        try {
+          const { admin: shopAdmin } = await unauthenticated.admin(shopDomain);
+          tools = { shop: shopDomain, admin: shopAdmin, visitorId: getRequestIdentifier(request) };
+        } catch (error) {
+          routeLogger.warn({ error: (error as Error).message, shop: shopDomain }, '⚠️ Admin API unavailable - chat engine runs without tools');
+        }
+      }
+
+      const { ChatEngineService } = await import("../services/chat-engine.service.server");
+      return new ChatEngineService(provider, { fallback: n8nService, tools });
+    };
+
     // ========================================
     // HANDLE SUPPORT INTENTS (NO PRODUCTS)
     // ========================================
 
     // Support intents return text-only responses and DON'T need products
-    const isSupportIntent = ["SHIPPING_INFO", "RETURNS", "TRACK_ORDER", "HELP_FAQ"].includes(intent.type);
+    const isSupportIntent = isSupportIntentType(intent.type);
 
     // ✅ IMPROVED: Fetch more products (50 instead of 20) - ONLY for product intents
     let products: any[] = [];
@@ -565,18 +745,21 @@ export const action = async ({ request }: ActionFunctionArgs) => {
 
     // Declare variables outside try block for error logging
     const variables: { first: number; query?: string; sortKey?: string; reverse?: boolean } = { first: 50 };
+    // Structured filters pulled from the message (open-ended product search)
+    let searchFilters: ProductSearchFilters | null = null;
 
     // ✅ CRITICAL FIX: Always fetch products for ALL intents (including GENERAL_CHAT)
     // This ensures AI has actual shop context and doesn't make up fake products
-    const productIntents = ["BESTSELLERS", "NEW_ARRIVALS", "ON_SALE", "RECOMMENDATIONS", "PRODUCT_SEARCH"];
-    const isProductIntent = productIntents.includes(intent.type);
+    const isProductIntent = isProductIntentType(intent.type);
 
     // ✅ BYOK FIX: Always fetch products to send to N8N, even for GENERAL_CHAT
     // This prevents AI from inventing generic products like "Electronics, Smartphones"
     // 🆘 CRITICAL: Do NOT fetch for support intents - they don't need inventory
-    const shouldFetchProducts = isProductIntent || intent.type === "GENERAL_CHAT";
+    const shouldFetchProducts = isProductIntent || !isSupportIntent;
 
-    if (shouldFetchProducts && !isSupportIntent) {
+    if (useChatTools) {
+      routeLogger.info({ intent: intent.type }, 'Skipping product fetch - chat engine searches with tools');
+    } else if (shouldFetchProducts && !isSupportIntent) {
       try {
         // Use unauthenticated admin (uses offline token, works in production)
         const { admin: shopAdmin } = await unauthenticated.admin(shopDomain);
@@ -595,6 +778,7 @@ export const action = async ({ request }: ActionFunctionArgs) => {
                   totalInventory
                   tags
                   featuredImage { url }
+                  options { name values }
                   variants(first: 1) {
                     edges {
                       node {
@@ -700,9 +884,15 @@ export const action = async ({ request }: ActionFunctionArgs) => {
             }
           `;
           delete variables.query;
-        } else if (intent.type === "PRODUCT_SEARCH") {
-          // Generic product search
-          if (intent.query === "t-shirt") {
+        } else if (intent.source === "merchant_rule" && intent.query) {
+          // Search term from a merchant intent rule
+          variables.query = intent.query;
+        } else if (isProductIntent) {
+          // Open-ended search: turn "blue linen dress under $80" into structured filters
+          searchFilters = extractProductFilters(finalMessage);
+          if (hasProductFilters(searchFilters)) {
+            variables.query = buildProductSearchQuery(searchFilters);
+          } else if (intent.query === "t-shirt") {
             variables.query = "product_type:t-shirt";
           } else if (intent.query === "shoe") {
             variables.query = "product_type:shoe";
@@ -717,6 +907,7 @@ export const action = async ({ request }: ActionFunctionArgs) => {
         routeLogger.info({
           intentType: intent.type,
           graphqlQuery: variables.query || 'sortKey-based query',
+          searchFilters,
           message: finalMessage
         }, '🔍 Query being sent to GraphQL');
 
@@ -753,19 +944,26 @@ export const action = async ({ request }: ActionFunctionArgs) => {
             productsFetchFailed = true;
             products = [];
           } else {
-            products = responseData?.data?.products?.edges?.map((edge: any) => ({
-              id: edge.node.id,
-              title: edge.node.title,
-              handle: edge.node.handle,
-              description: edge.node.description || '',
-              image: edge.node.featuredImage?.url,
-              price: edge.node.variants.edges[0]?.node.price || '0.00',
-              compareAtPrice: edge.node.variants.edges[0]?.node.compareAtPrice || null,
-              inventory: edge.node.totalInventory || 0,
-              tags: edge.node.tags || [],
-              rating: null, // Add if you have review apps
-              reviewCount: 0 // Add if you have review apps
-            })) || [];
+            products = responseData?.data?.products?.edges?.map((edge: any) => mapProductNode(edge.node)) || [];
+
+            // Nothing matched the full filter set: retry once without free-text terms/vendor
+            const relaxedFilters = searchFilters && products.length === 0
+              ? relaxProductSearchFilters(searchFilters)
+              : null;
+            if (relaxedFilters) {
+              variables.query = hasProductFilters(relaxedFilters)
+                ? buildProductSearchQuery(relaxedFilters)
+                : "status:active";
+              routeLogger.info({ query: variables.query }, '🔍 No exact matches, retrying with relaxed filters');
+
+              const relaxedResponse = await shopAdmin.graphql(graphqlQuery, { variables });
+              const relaxedData = (await relaxedResponse.json()) as any;
+              products = relaxedData?.data?.products?.edges?.map((edge: any) => mapProductNode(edge.node)) || [];
+            }
+
+            if (searchFilters) {
+              products = rankProductsByOptions(products, searchFilters);
+            }
 
             routeLogger.info({ count: products.length, shop: shopDomain, intent: intent.type }, '✅ Fetched products');
           }
@@ -806,7 +1004,7 @@ export const action = async ({ request }: ActionFunctionArgs) => {
     const languageName = getLanguageName(detectedLanguage);
     const enhancedContext = {
       ...context,
-      customerId: context.customerId || undefined,
+      customerId: customerId || undefined,
       customerEmail: (context.customerEmail as string) || undefined,
       previousMessages: context.previousMessages || undefined,
       sentiment: sentiment,
@@ -816,6 +1014,10 @@ export const action = async ({ request }: ActionFunctionArgs) => {
       languageInstruction: `🌍 CRITICAL LANGUAGE INSTRUCTION: You MUST respond ONLY in ${languageName}. User's interface language: ${detectedLanguage}. NEVER respond in English unless the locale is 'en'. This is a strict requirement.`, // ✅ IMPROVED: More explicit language instruction
       // ✅ NEW: Include shop policies for fallback processing
       shopPolicies: shopPolicies,
+      customFaqs: knowledge.faqs.length > 0 ? knowledge.faqs : undefined,
+      knowledge: knowledge.passages.length > 0 ? knowledge.passages : undefined,
+      // Structured filters used for the product query (open-ended search)
+      searchFilters: searchFilters || undefined,
       timestamp: new Date().toISOString(),
       userAgent: request.headers.get('user-agent') || undefined,
       referer: request.headers.get('referer') || undefined,
@@ -867,8 +1069,9 @@ export const action = async ({ request }: ActionFunctionArgs) => {
           isFirstMessage = false;
 
           // Convert messages to conversation history format
+          // Agent replies read as the store's side of the conversation
           conversationHistory = chatSession.messages.map(msg => ({
-            role: msg.role,
+            role: msg.role === 'agent' ? 'assistant' : msg.role,
             content: msg.content
           }));
 
@@ -894,120 +1097,6 @@ export const action = async ({ request }: ActionFunctionArgs) => {
       // Continue without history - better to respond than fail
     }
 
-    // ========================================
-    // GET WEBHOOK URL (for all intents)
-    // ========================================
-
-    // Get webhook URL from widget settings
-    let settings = null;
-    let decryptedOpenAIKey: string | null = null;
-    try {
-      settings = await db.widgetSettings.findUnique({
-        where: { shop: shopDomain },
-      });
-
-      // ✅ CRITICAL: Decrypt OpenAI API key if it exists (for BYOK plan)
-      if ((settings as any)?.openaiApiKey && (settings as any)?.plan === 'BYOK') {
-        try {
-          const { decryptApiKey } = await import("../lib/encryption.server");
-          decryptedOpenAIKey = decryptApiKey((settings as any).openaiApiKey);
-          routeLogger.info({ shop: shopDomain }, '🔑 Decrypted OpenAI API key for BYOK plan');
-        } catch (error) {
-          routeLogger.error({
-            error: error instanceof Error ? error.message : String(error),
-            shop: shopDomain
-          }, '❌ Failed to decrypt OpenAI API key for BYOK plan');
-        }
-      }
-
-      routeLogger.debug({
-        shop: shopDomain,
-        workflowType: (settings as any)?.workflowType || 'DEFAULT',
-        plan: (settings as any)?.plan || 'BASIC',
-        hasCustomWebhook: !!(settings as any)?.webhookUrl,
-        hasOpenAIKey: !!decryptedOpenAIKey
-      }, 'Retrieved widget settings');
-    } catch (error) {
-      routeLogger.debug('Could not fetch settings from database');
-      settings = null;
-    }
-
-    // ✅ IMPROVED: Determine workflow type and webhook URL based on PLAN
-    const workflowType = (settings as any)?.workflowType || 'DEFAULT';
-    const plan = (settings as any)?.plan || 'BASIC';
-    let webhookUrl: string | undefined;
-    let workflowDescription: string;
-
-    // First check if custom workflow is selected (overrides plan-based routing)
-    if (workflowType === 'CUSTOM') {
-      // CUSTOM WORKFLOW: Use merchant's custom N8N webhook
-      const customWebhookUrl = (settings as any)?.webhookUrl;
-      const isValidCustomUrl = customWebhookUrl &&
-                              typeof customWebhookUrl === 'string' &&
-                              customWebhookUrl.trim() !== '' &&
-                              customWebhookUrl !== 'https://' &&
-                              customWebhookUrl !== 'null' &&
-                              customWebhookUrl !== 'undefined' &&
-                              customWebhookUrl.startsWith('https://') &&
-                              customWebhookUrl.length > 8;
-
-      if (isValidCustomUrl) {
-        webhookUrl = customWebhookUrl;
-        workflowDescription = 'CUSTOM N8N Workflow (merchant webhook)';
-      } else {
-        // Invalid custom URL - fallback to plan-based routing
-        if (plan === 'BYOK') {
-          webhookUrl = process.env.N8N_WEBHOOK_BYOK || process.env.N8N_WEBHOOK_URL;
-          workflowDescription = 'BYOK Workflow (fallback from invalid custom URL)';
-        } else {
-          webhookUrl = process.env.N8N_WEBHOOK_URL;
-          workflowDescription = 'DEFAULT Workflow (invalid custom URL, using fallback)';
-        }
-        routeLogger.warn({
-          shop: shopDomain,
-          customUrl: customWebhookUrl,
-          plan
-        }, '⚠️ Custom workflow selected but URL invalid - falling back to plan-based routing');
-      }
-    } else {
-      // DEFAULT WORKFLOW: Use plan-based webhook routing
-      if (plan === 'BYOK') {
-        // BYOK Plan: Use BYOK-specific webhook (with customer's own OpenAI API key)
-        webhookUrl = process.env.N8N_WEBHOOK_BYOK || process.env.N8N_WEBHOOK_URL;
-        workflowDescription = 'BYOK Plan Workflow (customer API key)';
-        routeLogger.info({
-          shop: shopDomain,
-          plan,
-          hasByokWebhook: !!process.env.N8N_WEBHOOK_BYOK
-        }, '🔑 Using BYOK plan webhook');
-      } else if (plan === 'Starter') {
-        // BASIC Plan ($25/month): Use default webhook
-        webhookUrl = process.env.N8N_WEBHOOK_URL;
-        workflowDescription = 'Starter Plan Workflow ($25/month)';
-      } else if (plan === 'Pro') {
-        // UNLIMITED Plan ($79/month): Use default webhook (or could be a separate one)
-        webhookUrl = process.env.N8N_WEBHOOK_URL;
-        workflowDescription = 'Pro Plan Workflow ($79/month)';
-      } else {
-        // Fallback for unknown plans
-        webhookUrl = process.env.N8N_WEBHOOK_URL;
-        workflowDescription = 'DEFAULT Workflow (unknown plan)';
-        routeLogger.warn({
-          shop: shopDomain,
-          plan
-        }, '⚠️ Unknown plan, using default webhook');
-      }
-    }
-
-    routeLogger.info({
-      workflow: workflowDescription,
-      workflowType,
-      plan,
-      shop: shopDomain,
-      intent: intent.type,
-      hasWebhook: !!webhookUrl
-    }, '🔄 Using workflow');
-
     // ✅ CRITICAL: Add OpenAI API key and plan to enhanced context
     // This must be done AFTER fetching settings and BEFORE calling N8N
     if (decryptedOpenAIKey) {
@@ -1023,17 +1112,38 @@ export const action = async ({ request }: ActionFunctionArgs) => {
     let n8nResponse;
     let recommendations = [];
 
+    // Order tracking: answer with the shopper's real order (verified by order number + email)
+    let orderTrackingResponse: N8NWebhookResponse | undefined;
+    if (intent.type === "TRACK_ORDER") {
+      try {
+        const { admin: shopAdmin } = await unauthenticated.admin(shopDomain);
+        orderTrackingResponse = await orderTrackingService.handle(finalMessage, {
+          shop: shopDomain,
+          admin: shopAdmin,
+          lang: enhancedContext.locale?.toLowerCase().split('-')[0] || 'en',
+          // By IP: session ids are chosen by the widget and could be rotated to dodge the limit
+          visitorId: getRequestIdentifier(request),
+          history: conversationHistory.filter(m => m.role === 'user').slice(-5).map(m => m.content),
+          // Verified by the customer token (context.customerId comes from the widget and is never used)
+          customerId,
+        });
+      } catch (error) {
+        routeLogger.warn({ error: String(error), shop: shopDomain }, '⚠️ Order lookup failed - using support flow');
+      }
+    }
 
+    if (orderTrackingResponse) {
+      n8nResponse = orderTrackingResponse;
+    }
     // ✅ AI-POWERED: Send support intents to N8N for shop-specific AI responses
-    if (isSupportIntent) {
+    else if (isSupportIntent) {
       routeLogger.info({ intent: intent.type }, '✅ Sending support query to N8N with shop policies');
 
       try {
         // ✅ IMPROVED: Use pre-fetched and cached shop policies (fetched early in request)
         // This avoids duplicate API calls and ensures fallback has the same data
 
-        const { N8NService } = await import("../services/n8n.service.server");
-        const customN8NService = new N8NService(webhookUrl);
+        const chatService = await createChatService();
 
         // Generate localized default messages for missing policies
         const getDefaultReturnPolicy = (locale: string): string => {
@@ -1063,7 +1173,7 @@ export const action = async ({ request }: ActionFunctionArgs) => {
         // Send to N8N with intent context so AI knows it's a support query
         // 🆘 CRITICAL FIX: Support questions don't need products - they need store policies
         // Questions like "return policy" have NOTHING to do with inventory
-        n8nResponse = await customN8NService.processUserMessage({
+        n8nResponse = await chatService.processUserMessage({
           userMessage: finalMessage,
           products: [], // NO PRODUCTS - support questions don't need inventory
           context: {
@@ -1077,7 +1187,7 @@ export const action = async ({ request }: ActionFunctionArgs) => {
               privacy: shopPolicies?.privacy || null
             }
           }
-        });
+        }, { onToken });
 
         // Ensure no products are returned for support queries (user shouldn't see product cards)
         recommendations = [];
@@ -1181,7 +1291,7 @@ export const action = async ({ request }: ActionFunctionArgs) => {
             "shoe": "👟 Here are our shoes:",
             "product": "📦 Here are some products you might like:"
           };
-          const query = (intent as any).query || "product";
+          const query = intent.query || "product";
           responseText = messages[query] || messages["product"];
           quickReplies = ["Show bestsellers", "What's on sale?", "New arrivals"];
         } else {
@@ -1205,13 +1315,12 @@ export const action = async ({ request }: ActionFunctionArgs) => {
 
         // Try N8N first, but have fallback ready
         try {
-          const { N8NService } = await import("../services/n8n.service.server");
-          const customN8NService = new N8NService(webhookUrl);
-          n8nResponse = await customN8NService.processUserMessage({
+          const chatService = await createChatService();
+          n8nResponse = await chatService.processUserMessage({
             userMessage: finalMessage,
             products,
             context: enhancedContext
-          });
+          }, { onToken });
 
           // ✅ TRUST THE AI: Use N8N's response and recommendations as-is
           // The AI knows best what to recommend based on the user's query
@@ -1242,9 +1351,8 @@ export const action = async ({ request }: ActionFunctionArgs) => {
 
         // Try N8N to generate a helpful response even without products
         try {
-          const { N8NService } = await import("../services/n8n.service.server");
-          const customN8NService = new N8NService(webhookUrl);
-          n8nResponse = await customN8NService.processUserMessage({
+          const chatService = await createChatService();
+          n8nResponse = await chatService.processUserMessage({
             userMessage: finalMessage,
             products: [], // Empty array - let AI know no products found
             context: {
@@ -1252,7 +1360,7 @@ export const action = async ({ request }: ActionFunctionArgs) => {
               noProductsFound: true,
               intentType: "product_search_no_results"
             } as any
-          });
+          }, { onToken });
 
           recommendations = [];
           routeLogger.info({ intent: intent.type }, 'N8N handled product search with no results');
@@ -1288,13 +1396,12 @@ export const action = async ({ request }: ActionFunctionArgs) => {
       } else {
         // General chat - use N8N
         try {
-          const { N8NService } = await import("../services/n8n.service.server");
-          const customN8NService = new N8NService(webhookUrl);
-          n8nResponse = await customN8NService.processUserMessage({
+          const chatService = await createChatService();
+          n8nResponse = await chatService.processUserMessage({
             userMessage: finalMessage,
             products: products, // ✅ BYOK FIX: Always send products so AI knows actual inventory
             context: enhancedContext
-          });
+          }, { onToken });
 
           // ✅ TRUST THE AI: Use N8N's response as-is
           // The AI knows best how to respond to general chat queries
@@ -1365,7 +1472,7 @@ export const action = async ({ request }: ActionFunctionArgs) => {
           data: {
             shop: shopDomain,
             sessionId: sessionId,
-            customerId: context.customerId as string | null || null,
+            customerId,
             preferences: JSON.stringify({}),
             browsingHistory: JSON.stringify([]),
             purchaseHistory: JSON.stringify([]),
@@ -1433,10 +1540,12 @@ export const action = async ({ request }: ActionFunctionArgs) => {
           content: finalMessage,
           intent: intent.type,
           sentiment: sentiment,
-          confidence: null,
+          confidence: intent.confidence,
           productsShown: JSON.stringify([]),
           metadata: JSON.stringify({
             language: detectedLanguage,
+            intentSource: intent.source,
+            ...(intent.ruleId ? { intentRuleId: intent.ruleId } : {}),
             timestamp: new Date().toISOString()
           })
         }
@@ -1458,6 +1567,11 @@ export const action = async ({ request }: ActionFunctionArgs) => {
             responseTime: responseTime,
             hasRecommendations: recommendations.length > 0,
             recommendationCount: recommendations.length,
+            ...(n8nResponse.toolCalls?.length ? { toolCalls: n8nResponse.toolCalls } : {}),
+            // Order name only: order details stay in Shopify
+            ...(n8nResponse.orderCard ? { orderName: n8nResponse.orderCard.name } : {}),
+            ...(n8nResponse.awaitingOrderDetails ? { awaitingOrderDetails: true } : {}),
+            ...(n8nResponse.citations?.length ? { citations: n8nResponse.citations } : {}),
             timestamp: new Date().toISOString()
           })
         }
@@ -1469,21 +1583,34 @@ export const action = async ({ request }: ActionFunctionArgs) => {
         userProfileId: userProfile.id
       }, '✅ Saved chat data to database');
 
-      // FIX: Update ChatAnalytics aggregated data for dashboard
-      await personalizationService.updateAnalytics(shopDomain, {
-        intent: intent.type,
-        sentiment: sentiment,
-        responseTime: responseTime,
-        confidence: n8nResponse.confidence || 0.7,
-        workflowType: 'default', // Widget always uses default workflow
-        isNewSession: isNewSession,
-      });
+      // FIX: Update ChatAnalytics aggregated data for dashboard (in the background job worker)
+      await enqueueJobSafe('analytics.update', {
+        data: {
+          intent: intent.type,
+          sentiment: sentiment,
+          responseTime: responseTime,
+          confidence: n8nResponse.confidence || 0.7,
+          workflowType: useBuiltinEngine ? 'builtin' : 'default',
+          isNewSession: isNewSession,
+          chatSessionId: chatSession.id,
+          visitorId: sessionId,
+          entryPoint: context.entryPoint ?? undefined,
+          productsShown: recommendations.length,
+        },
+        occurredAt: new Date().toISOString(),
+      }, { shop: shopDomain });
 
       routeLogger.debug({
         isNewSession,
         intent: intent.type,
         sentiment: sentiment,
-      }, '✅ Updated ChatAnalytics for dashboard');
+      }, '✅ Enqueued ChatAnalytics update for dashboard');
+
+      // BYOK shops pay their provider directly: track the engine's token usage for the billing page
+      if (plan === 'BYOK' && n8nResponse.usage) {
+        const { model, provider: usageProvider, ...usage } = n8nResponse.usage;
+        await recordLLMUsage(shopDomain, model, usage, usageProvider);
+      }
 
     } catch (dbError) {
       // Log error but don't break the chatbot
@@ -1503,6 +1630,8 @@ export const action = async ({ request }: ActionFunctionArgs) => {
       // Rich response fields
       messageType: n8nResponse.messageType || (intent.type === "PRODUCT_SEARCH" ? "product_recommendation" : "general"),
       recommendations: recommendations,
+      orderCard: n8nResponse.orderCard,
+      citations: n8nResponse.citations,
       quickReplies: n8nResponse.quickReplies || [],
       suggestedActions: n8nResponse.suggestedActions || [],
 
@@ -1510,6 +1639,8 @@ export const action = async ({ request }: ActionFunctionArgs) => {
       confidence: n8nResponse.confidence || 0.7,
       sentiment: sentiment,
       requiresHumanEscalation: n8nResponse.requiresHumanEscalation || false,
+      // Set while the customer waits for or talks to the store team (the widget polls /api/chat-handoff)
+      handoff: isHandoffActive(chatSession?.status) ? { status: chatSession.status } : undefined,
 
       // Session info
       timestamp: new Date().toISOString(),
@@ -1519,7 +1650,9 @@ export const action = async ({ request }: ActionFunctionArgs) => {
       // Analytics
       analytics: {
         intentDetected: intent.type,
-        subIntent: intent.type === "PRODUCT_SEARCH" ? (intent as any).query : undefined,
+        subIntent: intent.type === "PRODUCT_SEARCH" ? intent.query : undefined,
+        intentConfidence: intent.confidence,
+        intentSource: intent.source,
         sentiment: sentiment,
         confidence: n8nResponse.confidence || 0.7,
         productsShown: recommendations.length,
@@ -1566,4 +1699,4 @@ export const action = async ({ request }: ActionFunctionArgs) => {
       )
     });
   }
-};
\ No newline at end of file
+}
\ No newline at end of file
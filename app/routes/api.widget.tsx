@@ -69,6 +69,10 @@ export const loader = async ({ request }: LoaderFunctionArgs) => {
   let conversationHistory = [];
   let widgetSettings = null;
   let isLoading = false;
+  let chatSessionId = null;
+  let handoffTimer = null;
+  let handoffSince = null;
+  let cartAttributedSessionId = null;
 
   // ✅ FIX: Persist sessionId in localStorage to prevent repeated greetings
   // Try to retrieve existing sessionId from localStorage, or create a new one
@@ -143,12 +147,47 @@ export const loader = async ({ request }: LoaderFunctionArgs) => {
     };
   }
 
-  async function sendMessage(message) {
+  // Parse a text/event-stream response, calling onEvent(event, data) for each frame
+  async function readEventStream(response, onEvent) {
+    const reader = response.body.getReader();
+    const decoder = new TextDecoder();
+    let buffer = '';
+
+    function dispatch(frame) {
+      let event = 'message';
+      const dataLines = [];
+      frame.split('\\n').forEach(function(line) {
+        if (line.indexOf('event:') === 0) event = line.slice(6).trim();
+        else if (line.indexOf('data:') === 0) dataLines.push(line.slice(5).trim());
+      });
+      if (!dataLines.length) return;
+      try {
+        onEvent(event, JSON.parse(dataLines.join('\\n')));
+      } catch (e) {}
+    }
+
+    while (true) {
+      const chunk = await reader.read();
+      if (chunk.done) break;
+      buffer += decoder.decode(chunk.value, { stream: true });
+      let boundary = buffer.indexOf('\\n\\n');
+      while (boundary !== -1) {
+        dispatch(buffer.slice(0, boundary));
+        buffer = buffer.slice(boundary + 2);
+        boundary = buffer.indexOf('\\n\\n');
+      }
+    }
+    if (buffer.trim()) dispatch(buffer);
+  }
+
+  // Streams the reply when the server supports it: onToken(text) is called with
+  // each chunk, and the final structured response is returned
+  async function sendMessage(message, onToken) {
     const response = await fetch(
       API_BASE_URL + '/api/widget-settings?shop=' + encodeURIComponent(SHOP_DOMAIN),
       {
         method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
+        headers: { 'Content-Type': 'application/json', 'Accept': 'text/event-stream, application/json' },
         body: JSON.stringify({
           message: message,
           sessionId: sessionId,
@@ -157,13 +196,25 @@ export const loader = async ({ request }: LoaderFunctionArgs) => {
             sessionId: sessionId,
             pageUrl: window.location.href,
             userAgent: navigator.userAgent,
-            previousMessages: conversationHistory.slice(-5).map(m => m.content)
+            previousMessages: conversationHistory.slice(-5).map(m => m.content),
+            entryPoint: 'typed'
           }
         })
       }
     );
 
     if (!response.ok) throw new Error('Failed to send message');
+
+    if (response.body && (response.headers.get('Content-Type') || '').indexOf('text/event-stream') !== -1) {
+      let final = null;
+      await readEventStream(response, function(event, data) {
+        if (event === 'token' && data.text) onToken(data.text);
+        else if (event === 'final' || event === 'error') final = data;
+      });
+      if (!final) throw new Error('Stream ended without a response');
+      return final;
+    }
+
     return await response.json();
   }
 
@@ -231,6 +282,8 @@ export const loader = async ({ request }: LoaderFunctionArgs) => {
         .ai-msg.user { background: \${primaryColor}; color: white; align-self: flex-end; border-bottom-right-radius: 4px; }
         .ai-msg.assistant { background: white; color: #1f2937; align-self: flex-start; border-bottom-left-radius: 4px; box-shadow: 0 1px 2px rgba(0,0,0,0.05); }
         .ai-msg-time { font-size: 11px; opacity: 0.6; margin-top: 4px; }
+        .ai-msg.agent { background: white; color: #1f2937; align-self: flex-start; border-bottom-left-radius: 4px; border-left: 3px solid \${primaryColor}; box-shadow: 0 1px 2px rgba(0,0,0,0.05); }
+        .ai-handoff-btn { align-self: flex-start; background: white; color: \${primaryColor}; border: 2px solid \${primaryColor}; border-radius: 8px; padding: 8px 14px; font-size: 13px; font-weight: 600; cursor: pointer; }
         .ai-typing { display: flex; gap: 4px; padding: 12px 16px; background: white; border-radius: 16px; width: fit-content; box-shadow: 0 1px 2px rgba(0,0,0,0.05); }
         .ai-dot { width: 8px; height: 8px; border-radius: 50%; background: #9ca3af; animation: bounce 1.4s infinite; }
         .ai-dot:nth-child(2) { animation-delay: 0.2s; }
@@ -250,6 +303,16 @@ export const loader = async ({ request }: LoaderFunctionArgs) => {
         .ai-product-info { flex: 1; }
         .ai-product-title { font-weight: 600; font-size: 13px; margin: 0 0 4px 0; color: #1f2937; }
         .ai-product-price { color: \${primaryColor}; font-weight: 600; font-size: 14px; }
+        .ai-order { background: white; border-radius: 12px; padding: 12px; margin-top: 8px; box-shadow: 0 2px 4px rgba(0,0,0,0.06); font-size: 13px; color: #1f2937; }
+        .ai-order-head { display: flex; justify-content: space-between; align-items: center; margin-bottom: 6px; }
+        .ai-order-status { font-size: 11px; font-weight: 600; padding: 2px 8px; border-radius: 999px; background: #f3f4f6; color: \${primaryColor}; }
+        .ai-order-meta { color: #6b7280; font-size: 12px; margin-bottom: 6px; }
+        .ai-order-item { display: flex; align-items: center; gap: 8px; margin-top: 4px; }
+        .ai-order-item img { width: 32px; height: 32px; border-radius: 4px; object-fit: cover; }
+        .ai-order-ship { border-top: 1px solid #f3f4f6; margin-top: 8px; padding-top: 8px; }
+        .ai-order a { display: block; color: \${primaryColor}; font-weight: 600; text-decoration: none; margin-top: 4px; }
+        .ai-sources { color: #6b7280; font-size: 11px; margin-top: 4px; }
+        .ai-sources a { color: \${primaryColor}; text-decoration: none; }
         @media (max-width: 480px) {
           #ai-widget-container { left: 10px !important; right: 10px !important; bottom: 10px !important; }
           #ai-chat-window { width: 100%; max-width: none; height: calc(100vh - 90px); bottom: 70px; left: 0; right: 0; }
@@ -297,6 +360,7 @@ export const loader = async ({ request }: LoaderFunctionArgs) => {
     const win = document.getElementById('ai-chat-window');
     const btn = document.getElementById('ai-toggle-btn');
     if (chatOpen) {
+      trackWidgetEvent('widget_open');
       win.classList.add('open');
       btn.classList.add('open');
       btn.setAttribute('aria-expanded', 'true');
@@ -315,6 +379,13 @@ export const loader = async ({ request }: LoaderFunctionArgs) => {
     div.innerHTML = escapeHTML(content) + '<div class="ai-msg-time">' + formatTimestamp() + '</div>';
     msgs.appendChild(div);
     msgs.scrollTop = msgs.scrollHeight;
+    return div;
+  }
+
+  function updateMessage(div, content) {
+    const msgs = document.getElementById('ai-messages');
+    div.innerHTML = escapeHTML(content) + '<div class="ai-msg-time">' + formatTimestamp() + '</div>';
+    msgs.scrollTop = msgs.scrollHeight;
   }
 
   function addProducts(products) {
@@ -353,6 +424,162 @@ export const loader = async ({ request }: LoaderFunctionArgs) => {
     msgs.scrollTop = msgs.scrollHeight;
   }
 
+  // escapeHTML leaves quotes alone, which matters inside attributes
+  function escapeAttr(str) {
+    return escapeHTML(str).replace(/"/g, '&quot;');
+  }
+
+  function isWebUrl(url) {
+    return typeof url === 'string' && (url.indexOf('https://') === 0 || url.indexOf('http://') === 0);
+  }
+
+  function formatStatus(status) {
+    const text = String(status || '').toLowerCase().replace(/_/g, ' ');
+    return text.charAt(0).toUpperCase() + text.slice(1);
+  }
+
+  // FAQ entries and store pages the answer is based on
+  function addCitations(citations) {
+    const msgs = document.getElementById('ai-messages');
+    const div = document.createElement('div');
+    div.className = 'ai-sources';
+    div.innerHTML = 'Sources: ' + citations.map(citation => isWebUrl(citation.url)
+      ? '<a href="' + escapeAttr(citation.url) + '" target="_blank" rel="noopener noreferrer">' + escapeHTML(citation.title) + '</a>'
+      : escapeHTML(citation.title)).join(' · ');
+    msgs.appendChild(div);
+    msgs.scrollTop = msgs.scrollHeight;
+  }
+
+  // Order found by the order tracking flow: status, items and tracking links
+  function addOrderCard(order) {
+    if (!order) return;
+    const msgs = document.getElementById('ai-messages');
+    const div = document.createElement('div');
+    div.className = 'ai-order';
+
+    let html = '<div class="ai-order-head"><strong>' + escapeHTML(order.name) + '</strong><span class="ai-order-status">' +
+      escapeHTML(order.cancelled ? 'Cancelled' : formatStatus(order.fulfillmentStatus || order.financialStatus)) + '</span></div>';
+    const meta = [];
+    if (order.createdAt) meta.push(new Date(order.createdAt).toLocaleDateString());
+    if (order.total) meta.push(order.total.amount + ' ' + order.total.currencyCode);
+    html += '<div class="ai-order-meta">' + escapeHTML(meta.join(' · ')) + '</div>';
+
+    (order.items || []).forEach(item => {
+      html += '<div class="ai-order-item">' +
+        (isWebUrl(item.image) ? '<img src="' + escapeAttr(item.image) + '" alt=""/>' : '') +
+        '<span>' + escapeHTML(item.quantity + ' × ' + item.title) + '</span></div>';
+    });
+
+    (order.shipments || []).forEach(shipment => {
+      html += '<div class="ai-order-ship"><div>' + escapeHTML(formatStatus(shipment.status)) +
+        (shipment.estimatedDeliveryAt ? escapeHTML(' · Estimated delivery: ' + new Date(shipment.estimatedDeliveryAt).toLocaleDateString()) : '') + '</div>';
+      (shipment.tracking || []).forEach(info => {
+        const label = [info.company, info.number].filter(Boolean).join(' ');
+        if (isWebUrl(info.url)) {
+          html += '<a href="' + escapeAttr(info.url) + '" target="_blank" rel="noopener noreferrer">Track package' + (label ? ' (' + escapeHTML(label) + ')' : '') + '</a>';
+        } else if (label) {
+          html += '<div>' + escapeHTML(label) + '</div>';
+        }
+      });
+      html += '</div>';
+    });
+
+    if (isWebUrl(order.statusUrl)) {
+      html += '<a href="' + escapeAttr(order.statusUrl) + '" target="_blank" rel="noopener noreferrer">Order status →</a>';
+    }
+
+    div.innerHTML = html;
+    msgs.appendChild(div);
+    msgs.scrollTop = msgs.scrollHeight;
+  }
+
+  // ============================================================================
+  // Human Handoff
+  // ============================================================================
+
+  function addHandoffButton() {
+    if (document.getElementById('ai-handoff-btn')) return;
+    const msgs = document.getElementById('ai-messages');
+    const btn = document.createElement('button');
+    btn.id = 'ai-handoff-btn';
+    btn.className = 'ai-handoff-btn';
+    btn.textContent = 'Talk to our team';
+    btn.addEventListener('click', requestHandoff);
+    msgs.appendChild(btn);
+    msgs.scrollTop = msgs.scrollHeight;
+  }
+
+  async function requestHandoff() {
+    const btn = document.getElementById('ai-handoff-btn');
+    if (btn) btn.remove();
+    try {
+      const response = await fetch(API_BASE_URL + '/api/chat-handoff', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ shop: SHOP_DOMAIN, chatSessionId: chatSessionId })
+      });
+      if (!response.ok) throw new Error('Handoff request failed');
+      addMessage('A member of our team will join this chat shortly. You can keep writing here.', 'assistant');
+      startHandoffPolling();
+    } catch (e) {
+      addMessage('Sorry, our team can not be reached right now. Please use the contact page.', 'assistant');
+    }
+  }
+
+  // Report a funnel step to the app (see /api/track-widget-event)
+  function trackWidgetEvent(event) {
+    fetch(API_BASE_URL + '/api/track-widget-event', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ shop: SHOP_DOMAIN, event: event, sessionId: sessionId, chatSessionId: chatSessionId })
+    }).catch(() => {});
+  }
+
+  // Store the chat session on the cart so the order can be attributed to the conversation
+  function attributeCartToChat() {
+    if (!chatSessionId || chatSessionId === cartAttributedSessionId) return;
+    cartAttributedSessionId = chatSessionId;
+    fetch('/cart/update.js', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ attributes: { _shopibot_chat_session: chatSessionId } })
+    }).catch(() => { cartAttributedSessionId = null; });
+  }
+
+  function startHandoffPolling() {
+    if (handoffTimer || !chatSessionId) return;
+    handoffTimer = setInterval(pollHandoff, 5000);
+  }
+
+  function stopHandoffPolling() {
+    if (handoffTimer) clearInterval(handoffTimer);
+    handoffTimer = null;
+  }
+
+  async function pollHandoff() {
+    try {
+      const params = new URLSearchParams({ shop: SHOP_DOMAIN, chatSessionId: chatSessionId });
+      if (handoffSince) params.set('since', handoffSince);
+      const response = await fetch(API_BASE_URL + '/api/chat-handoff?' + params.toString());
+      if (!response.ok) {
+        if (response.status === 404) stopHandoffPolling();
+        return;
+      }
+      const data = await response.json();
+      (data.messages || []).forEach(m => {
+        addMessage(m.content, 'agent');
+        conversationHistory.push({ role: 'assistant', content: m.content });
+        handoffSince = m.timestamp;
+      });
+      if (data.status === 'bot' || data.status === 'closed') {
+        stopHandoffPolling();
+        addMessage('Our team has left the chat. The assistant is back to help you.', 'assistant');
+      }
+    } catch (e) {
+      console.debug('Handoff poll failed:', e);
+    }
+  }
+
   function showTyping() {
     const msgs = document.getElementById('ai-messages');
     const div = document.createElement('div');
@@ -382,13 +609,32 @@ export const loader = async ({ request }: LoaderFunctionArgs) => {
     isLoading = true;
     showTyping();
 
+    let streamingDiv = null;
+    let streamedText = '';
+
     try {
-      const res = await sendMessage(msg);
+      const res = await sendMessage(msg, function(token) {
+        if (!streamingDiv) {
+          hideTyping();
+          streamingDiv = addMessage('', 'assistant');
+        }
+        streamedText += token;
+        updateMessage(streamingDiv, streamedText);
+      });
       hideTyping();
+      if (res.chatSessionId) chatSessionId = res.chatSessionId;
+      if (res.handoff) startHandoffPolling();
+      attributeCartToChat();
+      // A store team member owns the conversation: the assistant stays quiet
+      if (res.handoff && res.handoff.status === 'agent' && !res.message) return;
       const reply = res.response || res.message || 'Sorry, something went wrong.';
-      addMessage(reply, 'assistant');
+      if (streamingDiv) updateMessage(streamingDiv, reply);
+      else addMessage(reply, 'assistant');
       conversationHistory.push({ role: 'assistant', content: reply });
       if (res.recommendations) addProducts(res.recommendations);
+      if (res.orderCard) addOrderCard(res.orderCard);
+      if (res.citations && res.citations.length) addCitations(res.citations);
+      if (res.requiresHumanEscalation && !res.handoff) addHandoffButton();
     } catch (e) {
       hideTyping();
       addMessage('Sorry, I\\'m having trouble. Please try again.', 'assistant');
@@ -18,6 +18,7 @@ import {
   ProgressBar,
   Icon,
   Banner,
+  DataTable,
 } from "@shopify/polaris";
 import {
   ArrowUpIcon,
@@ -28,7 +29,13 @@ import {
 } from "@shopify/polaris-icons";
 import { authenticate } from "../shopify.server";
 import { requireBilling } from "../lib/billing.server";
-import { analyticsService, AnalyticsService } from "../services/analytics.service";
+import {
+  analyticsService,
+  AnalyticsService,
+  type EntryPointBreakdown,
+  type FunnelStep,
+  type WeeklyCohort,
+} from "../services/analytics.service";
 import { useTranslation } from "react-i18next";
 
 export const handle = {
@@ -58,7 +65,7 @@ export const loader = async ({ request }: LoaderFunctionArgs) => {
     });
 
     // Fetch all analytics data
-    const [overview, intents, sentiments, workflowUsage, topProducts, trends, engagement, activeUsers] =
+    const [overview, intents, sentiments, workflowUsage, topProducts, trends, engagement, activeUsers, conversions, latency, funnel, entryPoints, cohorts] =
       await Promise.all([
         analyticsService.getOverview(session.shop, period),
         analyticsService.getIntentDistribution(session.shop, period),
@@ -68,6 +75,11 @@ export const loader = async ({ request }: LoaderFunctionArgs) => {
         analyticsService.getDailyTrends(session.shop, period),
         analyticsService.getUserEngagement(session.shop, period),
         analyticsService.getActiveUsers(session.shop, period),
+        analyticsService.getConversionMetrics(session.shop, period),
+        analyticsService.getLatencyPercentiles(session.shop, period),
+        analyticsService.getFunnel(session.shop, period),
+        analyticsService.getEntryPointBreakdown(session.shop, period),
+        analyticsService.getWeeklyCohorts(session.shop, period),
       ]);
 
     // Log the results for debugging
@@ -92,6 +104,11 @@ export const loader = async ({ request }: LoaderFunctionArgs) => {
       trends,
       engagement,
       activeUsers,
+      conversions,
+      latency,
+      funnel,
+      entryPoints,
+      cohorts,
       periodPreset,
       period: {
         startDate: period.startDate.toISOString(),
@@ -126,6 +143,20 @@ export const loader = async ({ request }: LoaderFunctionArgs) => {
         avgSessionDuration: 0,
       },
       activeUsers: 0,
+      conversions: {
+        attributedOrders: 0,
+        assistedRevenue: 0,
+        influencedRevenue: 0,
+        conversionRate: 0,
+        assistedAov: 0,
+        baselineAov: 0,
+        aovUplift: 0,
+        currency: null,
+      },
+      latency: { p50: 0, p95: 0, samples: 0 },
+      funnel: [] as FunnelStep[],
+      entryPoints: [] as EntryPointBreakdown[],
+      cohorts: [] as WeeklyCohort[],
       periodPreset: "week",
       period: {
         startDate: new Date().toISOString(),
@@ -148,6 +179,32 @@ export const action = async ({ request }: ActionFunctionArgs) => {
   if (actionType === "export") {
     const periodPreset = formData.get("period") as string || "week";
     const period = AnalyticsService.getPeriodFromPreset(periodPreset);
+    const format = formData.get("format") as string || "csv";
+    const filename = `shopibot-analytics-${periodPreset}`;
+
+    if (format === "json") {
+      const body = await analyticsService.exportToJSON(session.shop, period);
+
+      return new Response(body, {
+        status: 200,
+        headers: {
+          "Content-Type": "application/json",
+          "Content-Disposition": `attachment; filename="${filename}.json"`,
+        },
+      });
+    }
+
+    if (format === "xlsx") {
+      const workbook = await analyticsService.exportToXLSX(session.shop, period);
+
+      return new Response(new Uint8Array(workbook), {
+        status: 200,
+        headers: {
+          "Content-Type": "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet",
+          "Content-Disposition": `attachment; filename="${filename}.xlsx"`,
+        },
+      });
+    }
 
     const csv = await analyticsService.exportToCSV(session.shop, period);
 
@@ -155,7 +212,7 @@ export const action = async ({ request }: ActionFunctionArgs) => {
       status: 200,
       headers: {
         "Content-Type": "text/csv",
-        "Content-Disposition": `attachment; filename="shopibot-analytics-${periodPreset}.csv"`,
+        "Content-Disposition": `attachment; filename="${filename}.csv"`,
       },
     });
   }
@@ -181,8 +238,8 @@ export default function AnalyticsPage() {
     [submit]
   );
 
-  const handleExport = useCallback(() => {
-    submit({ action: "export", period: selectedPeriod }, { method: "post" });
+  const handleExport = useCallback((format: "csv" | "json" | "xlsx") => {
+    submit({ action: "export", period: selectedPeriod, format }, { method: "post" });
   }, [submit, selectedPeriod]);
 
   const periodOptions = [
@@ -197,6 +254,12 @@ export default function AnalyticsPage() {
     return new Intl.NumberFormat().format(Math.round(num));
   };
 
+  const formatMoney = (amount: number, currency: string | null) => {
+    return currency
+      ? new Intl.NumberFormat(undefined, { style: "currency", currency }).format(amount)
+      : new Intl.NumberFormat(undefined, { maximumFractionDigits: 2 }).format(amount);
+  };
+
   // Helper to get change badge
   const getChangeBadge = (change: number | null | undefined) => {
   if (change === 0 || change === null || change === undefined) return null;
@@ -235,9 +298,13 @@ export default function AnalyticsPage() {
       subtitle={t("analytics.subtitle")}
       primaryAction={{
         content: t("analytics.exportCsv"),
-        onAction: handleExport,
+        onAction: () => handleExport("csv"),
         icon: CalendarIcon,
       }}
+      secondaryActions={[
+        { content: t("analytics.exportJson"), onAction: () => handleExport("json") },
+        { content: t("analytics.exportXlsx"), onAction: () => handleExport("xlsx") },
+      ]}
     >
       <BlockStack gap="500">
         {/* Period Selector */}
@@ -383,6 +450,14 @@ export default function AnalyticsPage() {
                   <Text variant="headingLg" as="h3">
                     {((data.overview?.avgResponseTime ?? 0) / 1000).toFixed(1)}s
                   </Text>
+                  {(data.latency?.samples ?? 0) > 0 && (
+                    <Text variant="bodySm" as="p" tone="subdued">
+                      {t("analytics.latencyPercentiles", {
+                        p50: (data.latency.p50 / 1000).toFixed(1),
+                        p95: (data.latency.p95 / 1000).toFixed(1),
+                      })}
+                    </Text>
+                  )}
                 </BlockStack>
               </Box>
 
@@ -400,6 +475,205 @@ export default function AnalyticsPage() {
           </BlockStack>
         </Card>
 
+        {/* Conversions */}
+        <Card>
+          <BlockStack gap="400">
+            <BlockStack gap="100">
+              <Text variant="headingMd" as="h2">
+                {t("analytics.conversions")}
+              </Text>
+              <Text variant="bodySm" as="p" tone="subdued">
+                {t("analytics.conversionsHelp")}
+              </Text>
+            </BlockStack>
+
+            <InlineGrid columns={4} gap="400">
+              <BlockStack gap="200">
+                <Text variant="bodyMd" as="p" tone="subdued">
+                  {t("analytics.assistedRevenue")}
+                </Text>
+                <Text variant="headingLg" as="h3">
+                  {formatMoney(data.conversions.assistedRevenue, data.conversions.currency)}
+                </Text>
+                <Text variant="bodySm" as="p" tone="subdued">
+                  {t("analytics.attributedOrders", { count: data.conversions.attributedOrders })}
+                </Text>
+              </BlockStack>
+
+              <Box borderInlineStartWidth="025" borderColor="border" paddingInlineStart="400">
+                <BlockStack gap="200">
+                  <Text variant="bodyMd" as="p" tone="subdued">
+                    {t("analytics.influencedRevenue")}
+                  </Text>
+                  <Text variant="headingLg" as="h3">
+                    {formatMoney(data.conversions.influencedRevenue, data.conversions.currency)}
+                  </Text>
+                </BlockStack>
+              </Box>
+
+              <Box borderInlineStartWidth="025" borderColor="border" paddingInlineStart="400">
+                <BlockStack gap="200">
+                  <Text variant="bodyMd" as="p" tone="subdued">
+                    {t("analytics.conversionRate")}
+                  </Text>
+                  <Text variant="headingLg" as="h3">
+                    {data.conversions.conversionRate.toFixed(1)}%
+                  </Text>
+                </BlockStack>
+              </Box>
+
+              <Box borderInlineStartWidth="025" borderColor="border" paddingInlineStart="400">
+                <BlockStack gap="200">
+                  <Text variant="bodyMd" as="p" tone="subdued">
+                    {t("analytics.aovUplift")}
+                  </Text>
+                  <InlineStack gap="200" blockAlign="center">
+                    <Text variant="headingLg" as="h3">
+                      {formatMoney(data.conversions.assistedAov, data.conversions.currency)}
+                    </Text>
+                    {getChangeBadge(data.conversions.aovUplift)}
+                  </InlineStack>
+                  <Text variant="bodySm" as="p" tone="subdued">
+                    {t("analytics.baselineAov", { value: formatMoney(data.conversions.baselineAov, data.conversions.currency) })}
+                  </Text>
+                </BlockStack>
+              </Box>
+            </InlineGrid>
+          </BlockStack>
+        </Card>
+
+        {/* Funnel */}
+        <Card>
+          <BlockStack gap="400">
+            <BlockStack gap="100">
+              <Text variant="headingMd" as="h2">
+                {t("analytics.funnel")}
+              </Text>
+              <Text variant="bodySm" as="p" tone="subdued">
+                {t("analytics.funnelHelp")}
+              </Text>
+            </BlockStack>
+
+            {data.funnel.some((step) => step.visitors > 0) ? (
+              <BlockStack gap="400">
+                {data.funnel.map((step, index) => (
+                  <BlockStack gap="200" key={step.step}>
+                    <InlineStack align="space-between" blockAlign="center">
+                      <Text variant="bodyMd" as="p" fontWeight="medium">
+                        {t(`analytics.funnelSteps.${step.step}`)}
+                      </Text>
+                      <InlineStack gap="300" blockAlign="center">
+                        {index > 0 && (
+                          <Text variant="bodySm" as="p" tone="subdued">
+                            {t("analytics.ofPreviousStep", { value: step.stepRate.toFixed(1) })}
+                          </Text>
+                        )}
+                        <Text variant="bodyMd" as="p" fontWeight="semibold">
+                          {formatNumber(step.visitors)}
+                        </Text>
+                        {getChangeBadge(step.change)}
+                      </InlineStack>
+                    </InlineStack>
+                    <ProgressBar progress={Math.min(step.overallRate, 100)} size="small" tone="primary" />
+                  </BlockStack>
+                ))}
+              </BlockStack>
+            ) : (
+              <Box background="bg-surface-secondary" padding="400" borderRadius="200">
+                <Text variant="bodyMd" as="p" tone="subdued" alignment="center">
+                  {t("analytics.noFunnelData")}
+                </Text>
+              </Box>
+            )}
+          </BlockStack>
+        </Card>
+
+        {/* Entry Points */}
+        <Card>
+          <BlockStack gap="400">
+            <Text variant="headingMd" as="h2">
+              {t("analytics.entryPoints")}
+            </Text>
+
+            {data.entryPoints.length > 0 ? (
+              <BlockStack gap="400">
+                {data.entryPoints.map((row, index) => (
+                  <BlockStack gap="200" key={row.entryPoint}>
+                    <InlineStack align="space-between" blockAlign="center">
+                      <BlockStack gap="100">
+                        <Text variant="bodyMd" as="p" fontWeight="medium">
+                          {t(`analytics.entryPointTypes.${row.entryPoint}`)}
+                        </Text>
+                        <Text variant="bodySm" as="p" tone="subdued">
+                          {t("analytics.entryPointDetails", {
+                            messages: formatNumber(row.messages),
+                            rate: row.conversionRate.toFixed(1),
+                          })}
+                        </Text>
+                      </BlockStack>
+                      <InlineStack gap="300" blockAlign="center">
+                        <Text variant="bodySm" as="p" tone="subdued">
+                          {t("analytics.conversationsCount", { count: row.sessions })}
+                        </Text>
+                        <Text variant="bodyMd" as="p" fontWeight="semibold">
+                          {row.share.toFixed(1)}%
+                        </Text>
+                        {getChangeBadge(row.change)}
+                      </InlineStack>
+                    </InlineStack>
+                    <ProgressBar progress={row.share} size="small" tone="primary" />
+                    {index < data.entryPoints.length - 1 && <Divider />}
+                  </BlockStack>
+                ))}
+              </BlockStack>
+            ) : (
+              <Box background="bg-surface-secondary" padding="400" borderRadius="200">
+                <Text variant="bodyMd" as="p" tone="subdued" alignment="center">
+                  {t("analytics.noEntryPointData")}
+                </Text>
+              </Box>
+            )}
+          </BlockStack>
+        </Card>
+
+        {/* Weekly Cohorts */}
+        <Card>
+          <BlockStack gap="400">
+            <BlockStack gap="100">
+              <Text variant="headingMd" as="h2">
+                {t("analytics.cohorts")}
+              </Text>
+              <Text variant="bodySm" as="p" tone="subdued">
+                {t("analytics.cohortsHelp")}
+              </Text>
+            </BlockStack>
+
+            {data.cohorts.length > 0 ? (
+              <DataTable
+                columnContentTypes={["text", "numeric", ...data.cohorts[0]!.retention.map(() => "numeric" as const)]}
+                headings={[
+                  t("analytics.cohortWeek"),
+                  t("analytics.cohortVisitors"),
+                  ...data.cohorts[0]!.retention.map((_, week) => t("analytics.cohortWeekOffset", { week })),
+                ]}
+                rows={data.cohorts.map((cohort) => [
+                  new Date(`${cohort.weekStart}T00:00:00Z`).toLocaleDateString(undefined, { timeZone: "UTC" }),
+                  formatNumber(cohort.visitors),
+                  ...data.cohorts[0]!.retention.map((_, week) =>
+                    week < cohort.retention.length ? `${cohort.retention[week]!.toFixed(1)}%` : ""
+                  ),
+                ])}
+              />
+            ) : (
+              <Box background="bg-surface-secondary" padding="400" borderRadius="200">
+                <Text variant="bodyMd" as="p" tone="subdued" alignment="center">
+                  {t("analytics.noCohortData")}
+                </Text>
+              </Box>
+            )}
+          </BlockStack>
+        </Card>
+
         {/* Intent Distribution */}
         <Card>
           <BlockStack gap="400">
@@ -657,7 +931,7 @@ export default function AnalyticsPage() {
           )}
 
           {data.intents && data.intents.length > 0 &&
-            data.intents[0]?.intent === "OTHER" &&
+            data.intents[0]?.intent === "GENERAL_CHAT" &&
             (data.intents[0]?.percentage ?? 0) > 30 && (
               <Banner tone="warning">
                 {t("analytics.insightOtherIntent")}
@@ -0,0 +1,177 @@
+/**
+ * Audit Log Route
+ *
+ * The shop's audit events, newest first: settings changes with what changed (secrets masked),
+ * plan migrations, API key tests, GDPR requests and retention purges, with who made them and from where.
+ *
+ * Access: /app/audit-log
+ */
+
+import type { LoaderFunctionArgs } from "@remix-run/node";
+import { json } from "@remix-run/node";
+import { useLoaderData, useSearchParams } from "@remix-run/react";
+import {
+  Page,
+  Layout,
+  Card,
+  Select,
+  BlockStack,
+  InlineStack,
+  Text,
+  Badge,
+  Divider,
+  Pagination,
+} from "@shopify/polaris";
+import { useTranslation } from "react-i18next";
+import { authenticate } from "../shopify.server";
+import { requireBilling } from "../lib/billing.server";
+import { AUDIT_ACTIONS, isAuditAction, type AuditAction, type AuditActorType } from "../lib/audit";
+import { AUDIT_PAGE_SIZE, listAuditEvents } from "../lib/audit.server";
+
+export const handle = {
+  i18n: "common",
+};
+
+// Request details shown under an event (the rest stays in the database)
+const METADATA_KEYS = ["ip", "provider", "result", "status", "startedFromShop", "profiles", "chatSessions", "chatMessages", "trigger", "rowsDeleted", "rowsAnonymized"];
+
+interface EventRow {
+  id: string;
+  action: AuditAction;
+  actorType: AuditActorType;
+  actorId: string | null;
+  changes: Array<{ field: string; from: string; to: string }>;
+  details: Array<[string, string]>;
+  createdAt: string;
+}
+
+function formatValue(value: unknown): string {
+  if (value === null || value === undefined) return "—";
+  return typeof value === "string" ? value : JSON.stringify(value);
+}
+
+export const loader = async ({ request }: LoaderFunctionArgs) => {
+  const { billing, session } = await authenticate.admin(request);
+  await requireBilling(billing);
+
+  const url = new URL(request.url);
+  const actionParam = url.searchParams.get("action");
+  const action = isAuditAction(actionParam) ? actionParam : null;
+  const page = Math.max(1, parseInt(url.searchParams.get("page") || "1", 10) || 1);
+
+  const { events, total } = await listAuditEvents(session.shop, { action, page });
+
+  return json({
+    action,
+    page,
+    total,
+    pageCount: Math.max(1, Math.ceil(total / AUDIT_PAGE_SIZE)),
+    events: events.map((event): EventRow => ({
+      id: event.id,
+      action: event.action,
+      actorType: event.actorType,
+      actorId: event.actorId,
+      changes: Object.entries(event.changes ?? {}).map(([field, change]) => ({
+        field,
+        from: formatValue(change.from),
+        to: formatValue(change.to),
+      })),
+      details: METADATA_KEYS
+        .filter((key) => event.metadata[key] !== undefined && event.metadata[key] !== null)
+        .map((key) => [key, formatValue(event.metadata[key])]),
+      createdAt: event.createdAt.toISOString(),
+    })),
+  });
+};
+
+export default function AuditLogPage() {
+  const { action, page, total, pageCount, events } = useLoaderData<typeof loader>();
+  const [searchParams, setSearchParams] = useSearchParams();
+  const { t } = useTranslation();
+
+  const setAction = (value: string) => {
+    const params = new URLSearchParams();
+    if (value) params.set("action", value);
+    setSearchParams(params);
+  };
+
+  const goToPage = (target: number) => {
+    const params = new URLSearchParams(searchParams);
+    params.set("page", String(target));
+    setSearchParams(params);
+  };
+
+  return (
+    <Page title={t("auditLog.title")} subtitle={t("auditLog.subtitle")}>
+      <Layout>
+        <Layout.Section>
+          <Card>
+            <BlockStack gap="300">
+              <InlineStack align="space-between" blockAlign="end">
+                <Select
+                  label={t("auditLog.action")}
+                  value={action || ""}
+                  onChange={setAction}
+                  options={[
+                    { label: t("auditLog.allActions"), value: "" },
+                    ...AUDIT_ACTIONS.map((value) => ({ label: t(`auditLog.actions.${value}`), value })),
+                  ]}
+                />
+                <Text as="p" variant="bodySm" tone="subdued">
+                  {t("auditLog.count", { count: total })}
+                </Text>
+              </InlineStack>
+              <Divider />
+              {events.length === 0 ? (
+                <Text as="p" tone="subdued">
+                  {t("auditLog.empty")}
+                </Text>
+              ) : (
+                events.map((event: EventRow, index: number) => (
+                  <BlockStack gap="200" key={event.id}>
+                    <InlineStack gap="200" blockAlign="center">
+                      <Text as="p" variant="bodyMd" fontWeight="semibold">
+                        {t(`auditLog.actions.${event.action}`)}
+                      </Text>
+                      <Badge>{t(`auditLog.actors.${event.actorType}`)}</Badge>
+                      {event.actorId && (
+                        <Text as="span" variant="bodySm" tone="subdued">
+                          {event.actorId}
+                        </Text>
+                      )}
+                      <Text as="span" variant="bodySm" tone="subdued">
+                        {new Date(event.createdAt).toLocaleString()}
+                      </Text>
+                    </InlineStack>
+                    {event.changes.map((change) => (
+                      <Text as="p" variant="bodySm" key={change.field}>
+                        {t("auditLog.change", change)}
+                      </Text>
+                    ))}
+                    {event.details.length > 0 && (
+                      <Text as="p" variant="bodySm" tone="subdued">
+                        {event.details.map(([key, value]) => `${key}: ${value}`).join(" · ")}
+                      </Text>
+                    )}
+                    {index < events.length - 1 && <Divider />}
+                  </BlockStack>
+                ))
+              )}
+              {pageCount > 1 && (
+                <InlineStack align="center">
+                  <Pagination
+                    hasPrevious={page > 1}
+                    onPrevious={() => goToPage(page - 1)}
+                    hasNext={page < pageCount}
+                    onNext={() => goToPage(page + 1)}
+                    label={t("auditLog.page", { page, pageCount })}
+                  />
+                </InlineStack>
+              )}
+            </BlockStack>
+          </Card>
+        </Layout.Section>
+      </Layout>
+    </Page>
+  );
+}
@@ -0,0 +1,218 @@
+/**
+ * Data Requests Route
+ *
+ * Customer data requests received through the customers/data_request webhook, newest first:
+ * when each is due, what its export archive contains, a signed download link (valid for
+ * GDPR.EXPORT_LINK_HOURS) to send to the customer, and a button to mark it fulfilled.
+ *
+ * Access: /app/data-requests
+ */
+
+import type { ActionFunctionArgs, LoaderFunctionArgs } from "@remix-run/node";
+import { json } from "@remix-run/node";
+import { useActionData, useLoaderData, useNavigation, useSubmit } from "@remix-run/react";
+import {
+  Page,
+  Layout,
+  Card,
+  TextField,
+  Banner,
+  BlockStack,
+  InlineStack,
+  Text,
+  Button,
+  Badge,
+  Divider,
+} from "@shopify/polaris";
+import { useTranslation } from "react-i18next";
+import { authenticate } from "../shopify.server";
+import { requireBilling } from "../lib/billing.server";
+import { logError } from "../lib/logger.server";
+import { merchantActor, recordAuditEvent } from "../lib/audit.server";
+import type { DataExportCounts, DataRequestStatus } from "../lib/data-requests";
+import { GDPR } from "../config/limits";
+import { dataExportService } from "../services/data-export.service.server";
+
+export const handle = {
+  i18n: "common",
+};
+
+interface RequestRow {
+  id: string;
+  customer: string;
+  status: DataRequestStatus;
+  overdue: boolean;
+  error: string | null;
+  counts: DataExportCounts | null;
+  dueAt: string;
+  createdAt: string;
+  expiresAt: string | null;
+  downloadedAt: string | null;
+  fulfilledAt: string | null;
+  downloadUrl: string | null;
+}
+
+const STATUS_TONES: Record<DataRequestStatus, "info" | "attention" | "success" | "critical"> = {
+  pending: "info",
+  ready: "attention",
+  fulfilled: "success",
+  failed: "critical",
+};
+
+export const loader = async ({ request }: LoaderFunctionArgs) => {
+  const { billing, session } = await authenticate.admin(request);
+  await requireBilling(billing);
+
+  const now = new Date();
+  const requests = await dataExportService.listRequests(session.shop, now);
+
+  return json({
+    linkHours: GDPR.EXPORT_LINK_HOURS,
+    requests: requests.map((item): RequestRow => ({
+      id: item.id,
+      customer: [item.customerEmail, item.customerId && `#${item.customerId}`].filter(Boolean).join(" · "),
+      status: item.status,
+      overdue: item.status !== "fulfilled" && item.dueAt < now,
+      error: item.error,
+      counts: item.counts,
+      dueAt: item.dueAt.toISOString(),
+      createdAt: item.createdAt.toISOString(),
+      expiresAt: item.expiresAt ? item.expiresAt.toISOString() : null,
+      downloadedAt: item.downloadedAt ? item.downloadedAt.toISOString() : null,
+      fulfilledAt: item.fulfilledAt ? item.fulfilledAt.toISOString() : null,
+      downloadUrl: item.downloadUrl,
+    })),
+  });
+};
+
+export const action = async ({ request }: ActionFunctionArgs) => {
+  const { billing, session, sessionToken } = await authenticate.admin(request);
+  await requireBilling(billing);
+
+  const formData = await request.formData();
+  const actionType = formData.get("action");
+
+  try {
+    if (actionType === "fulfill") {
+      const requestId = String(formData.get("id"));
+      await dataExportService.markFulfilled(session.shop, requestId);
+      await recordAuditEvent({
+        shop: session.shop,
+        actor: merchantActor({ sessionToken }),
+        action: "gdpr.customerDataFulfilled",
+        targetType: "DataExportRequest",
+        targetId: requestId,
+        request,
+      });
+      return json({ success: true, message: "fulfilled" });
+    }
+
+    return json({ success: false, message: "Unknown action" }, { status: 400 });
+  } catch (error) {
+    logError(error, "Data request action failed", { shop: session.shop, action: actionType });
+    return json(
+      { success: false, message: error instanceof Error ? error.message : String(error) },
+      { status: 400 }
+    );
+  }
+};
+
+export default function DataRequestsPage() {
+  const { linkHours, requests } = useLoaderData<typeof loader>();
+  const actionData = useActionData<typeof action>();
+  const navigation = useNavigation();
+  const submit = useSubmit();
+  const { t } = useTranslation();
+
+  const isSubmitting = navigation.state === "submitting";
+
+  return (
+    <Page title={t("dataRequests.title")} subtitle={t("dataRequests.subtitle")}>
+      <Layout>
+        {actionData && !actionData.success && (
+          <Layout.Section>
+            <Banner tone="critical">
+              <Text as="p">{actionData.message}</Text>
+            </Banner>
+          </Layout.Section>
+        )}
+
+        <Layout.Section>
+          <Card>
+            <BlockStack gap="400">
+              {requests.length === 0 ? (
+                <Text as="p" tone="subdued">
+                  {t("dataRequests.empty")}
+                </Text>
+              ) : (
+                requests.map((item: RequestRow, index: number) => (
+                  <BlockStack gap="200" key={item.id}>
+                    <InlineStack align="space-between" blockAlign="start" wrap={false} gap="400">
+                      <BlockStack gap="100">
+                        <InlineStack gap="200" blockAlign="center">
+                          <Text as="p" variant="bodyMd" fontWeight="semibold">
+                            {item.customer || t("dataRequests.unknownCustomer")}
+                          </Text>
+                          <Badge tone={STATUS_TONES[item.status]}>{t(`dataRequests.status.${item.status}`)}</Badge>
+                          {item.overdue && <Badge tone="critical">{t("dataRequests.overdue")}</Badge>}
+                        </InlineStack>
+                        <Text as="p" variant="bodySm" tone="subdued">
+                          {t("dataRequests.received", {
+                            date: new Date(item.createdAt).toLocaleString(),
+                            due: new Date(item.dueAt).toLocaleDateString(),
+                          })}
+                          {item.downloadedAt &&
+                            ` · ${t("dataRequests.downloadedAt", { date: new Date(item.downloadedAt).toLocaleString() })}`}
+                          {item.fulfilledAt &&
+                            ` · ${t("dataRequests.fulfilledAt", { date: new Date(item.fulfilledAt).toLocaleString() })}`}
+                        </Text>
+                        {item.counts && (
+                          <Text as="p" variant="bodySm">
+                            {Object.entries(item.counts)
+                              .map(([key, count]) => `${t(`dataRequests.records.${key}`)}: ${count}`)
+                              .join(" · ")}
+                          </Text>
+                        )}
+                        {item.error && (
+                          <Text as="p" variant="bodySm" tone="critical">
+                            {item.error}
+                          </Text>
+                        )}
+                      </BlockStack>
+                      {item.status === "ready" && (
+                        <Button
+                          onClick={() => submit({ action: "fulfill", id: item.id }, { method: "post" })}
+                          loading={isSubmitting}
+                        >
+                          {t("dataRequests.markFulfilled")}
+                        </Button>
+                      )}
+                    </InlineStack>
+                    {item.downloadUrl && (
+                      <TextField
+                        label={t("dataRequests.downloadLink")}
+                        value={item.downloadUrl}
+                        readOnly
+                        autoComplete="off"
+                        helpText={t("dataRequests.downloadHelp", {
+                          hours: linkHours,
+                          expires: item.expiresAt ? new Date(item.expiresAt).toLocaleDateString() : "",
+                        })}
+                        connectedRight={
+                          <Button url={item.downloadUrl} external>
+                            {t("dataRequests.download")}
+                          </Button>
+                        }
+                      />
+                    )}
+                    {index < requests.length - 1 && <Divider />}
+                  </BlockStack>
+                ))
+              )}
+            </BlockStack>
+          </Card>
+        </Layout.Section>
+      </Layout>
+    </Page>
+  );
+}
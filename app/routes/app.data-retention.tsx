@@ -0,0 +1,311 @@
+/**
+ * Data Retention Route
+ *
+ * How long the shop's chat data is kept, per data class (empty fields use the app default),
+ * a dry run of the purge, a button to purge now instead of waiting for the daily run, and
+ * the reports of recent runs.
+ *
+ * Access: /app/data-retention
+ */
+
+import { useState } from "react";
+import type { ActionFunctionArgs, LoaderFunctionArgs } from "@remix-run/node";
+import { json } from "@remix-run/node";
+import { useActionData, useLoaderData, useNavigation, useSubmit } from "@remix-run/react";
+import {
+  Page,
+  Layout,
+  Card,
+  TextField,
+  Banner,
+  BlockStack,
+  InlineStack,
+  Text,
+  Button,
+  Badge,
+  Divider,
+} from "@shopify/polaris";
+import { useTranslation } from "react-i18next";
+import { authenticate } from "../shopify.server";
+import { requireBilling } from "../lib/billing.server";
+import { logError } from "../lib/logger.server";
+import { diffChanges, merchantActor, recordAuditEvent } from "../lib/audit.server";
+import { RETENTION } from "../config/limits";
+import {
+  RETENTION_DATA_CLASSES,
+  type RetentionDataClass,
+  type RetentionPolicy,
+  type RetentionReport,
+  type RetentionRunStatus,
+  type RetentionRunTrigger,
+} from "../lib/retention";
+import { RETENTION_DEFAULTS, retentionService } from "../services/retention.service.server";
+
+export const handle = {
+  i18n: "common",
+};
+
+interface RunRow {
+  id: string;
+  trigger: RetentionRunTrigger;
+  dryRun: boolean;
+  status: RetentionRunStatus;
+  report: RetentionReport | null;
+  error: string | null;
+  startedAt: string;
+}
+
+const STATUS_TONES: Record<RetentionRunStatus, "info" | "success" | "critical"> = {
+  running: "info",
+  completed: "success",
+  failed: "critical",
+};
+
+export const loader = async ({ request }: LoaderFunctionArgs) => {
+  const { billing, session } = await authenticate.admin(request);
+  await requireBilling(billing);
+
+  const [{ policy, days }, runs] = await Promise.all([
+    retentionService.getRetention(session.shop),
+    retentionService.listRuns(session.shop),
+  ]);
+
+  return json({
+    policy,
+    days,
+    defaults: RETENTION_DEFAULTS,
+    minDays: RETENTION.MIN_DAYS,
+    maxDays: RETENTION.MAX_DAYS,
+    runs: runs.map((run): RunRow => ({
+      id: run.id,
+      trigger: run.trigger,
+      dryRun: run.dryRun,
+      status: run.status,
+      report: run.report,
+      error: run.error,
+      startedAt: run.startedAt.toISOString(),
+    })),
+  });
+};
+
+export const action = async ({ request }: ActionFunctionArgs) => {
+  const { billing, session, sessionToken } = await authenticate.admin(request);
+  await requireBilling(billing);
+
+  const formData = await request.formData();
+  const actionType = formData.get("action");
+
+  try {
+    if (actionType === "save") {
+      const policy: RetentionPolicy = {};
+      for (const dataClass of RETENTION_DATA_CLASSES) {
+        const value = String(formData.get(dataClass) || "").trim();
+        if (value) policy[dataClass] = Number(value);
+      }
+
+      const previous = await retentionService.getRetention(session.shop);
+      await retentionService.savePolicy(session.shop, policy);
+      const { days } = await retentionService.getRetention(session.shop);
+
+      const changes = diffChanges(previous.days, days);
+      if (Object.keys(changes).length > 0) {
+        await recordAuditEvent({
+          shop: session.shop,
+          actor: merchantActor({ sessionToken }),
+          action: "retention.policyUpdated",
+          targetType: "WidgetSettings",
+          changes,
+          request,
+        });
+      }
+      return json({ success: true, message: "saved", report: null });
+    }
+
+    if (actionType === "preview") {
+      const { report } = await retentionService.purgeShop(session.shop, { dryRun: true, trigger: "manual" });
+      return json({ success: true, message: "previewed", report });
+    }
+
+    if (actionType === "purge") {
+      await retentionService.enqueuePurge(session.shop);
+      return json({ success: true, message: "purgeStarted", report: null });
+    }
+
+    return json({ success: false, message: "Unknown action", report: null }, { status: 400 });
+  } catch (error) {
+    logError(error, "Data retention action failed", { shop: session.shop, action: actionType });
+    return json(
+      { success: false, message: error instanceof Error ? error.message : String(error), report: null },
+      { status: 400 }
+    );
+  }
+};
+
+function ReportCounts({ report }: { report: RetentionReport }) {
+  const { t } = useTranslation();
+  const deleted = Object.entries(report.deleted).filter(([, count]) => count > 0);
+  const anonymized = Object.entries(report.anonymized).filter(([, count]) => count > 0);
+
+  if (deleted.length === 0 && anonymized.length === 0) {
+    return (
+      <Text as="p" variant="bodySm" tone="subdued">
+        {t("dataRetention.nothingExpired")}
+      </Text>
+    );
+  }
+
+  return (
+    <BlockStack gap="100">
+      {deleted.length > 0 && (
+        <Text as="p" variant="bodySm">
+          {t(report.dryRun ? "dataRetention.wouldDelete" : "dataRetention.deleted")}{" "}
+          {deleted.map(([key, count]) => `${t(`dataRetention.rows.${key}`)}: ${count}`).join(" · ")}
+        </Text>
+      )}
+      {anonymized.length > 0 && (
+        <Text as="p" variant="bodySm">
+          {t(report.dryRun ? "dataRetention.wouldAnonymize" : "dataRetention.anonymized")}{" "}
+          {anonymized.map(([key, count]) => `${t(`dataRetention.anonymizedRows.${key}`)}: ${count}`).join(" · ")}
+        </Text>
+      )}
+    </BlockStack>
+  );
+}
+
+export default function DataRetentionPage() {
+  const { policy, days, defaults, minDays, maxDays, runs } = useLoaderData<typeof loader>();
+  const actionData = useActionData<typeof action>();
+  const navigation = useNavigation();
+  const submit = useSubmit();
+  const { t } = useTranslation();
+
+  const [values, setValues] = useState<Record<RetentionDataClass, string>>(
+    () =>
+      Object.fromEntries(
+        RETENTION_DATA_CLASSES.map((dataClass) => [dataClass, policy[dataClass] ? String(policy[dataClass]) : ""])
+      ) as Record<RetentionDataClass, string>
+  );
+
+  const isSubmitting = navigation.state === "submitting";
+
+  return (
+    <Page title={t("dataRetention.title")} subtitle={t("dataRetention.subtitle")}>
+      <Layout>
+        {actionData && !actionData.success && (
+          <Layout.Section>
+            <Banner tone="critical">
+              <Text as="p">{actionData.message}</Text>
+            </Banner>
+          </Layout.Section>
+        )}
+
+        {actionData?.success && (actionData.message === "saved" || actionData.message === "purgeStarted") && (
+          <Layout.Section>
+            <Banner tone="success">
+              <Text as="p">{t(`dataRetention.messages.${actionData.message}`)}</Text>
+            </Banner>
+          </Layout.Section>
+        )}
+
+        <Layout.Section>
+          <Card>
+            <BlockStack gap="400">
+              <Text variant="headingMd" as="h2">
+                {t("dataRetention.periods")}
+              </Text>
+              <Text as="p" tone="subdued">
+                {t("dataRetention.periodsHelp", { minDays, maxDays })}
+              </Text>
+              {RETENTION_DATA_CLASSES.map((dataClass) => (
+                <TextField
+                  key={dataClass}
+                  label={t(`dataRetention.classes.${dataClass}.label`)}
+                  type="number"
+                  min={minDays}
+                  max={maxDays}
+                  suffix={t("dataRetention.days")}
+                  value={values[dataClass]}
+                  onChange={(value) => setValues({ ...values, [dataClass]: value })}
+                  placeholder={String(defaults[dataClass])}
+                  helpText={`${t(`dataRetention.classes.${dataClass}.help`)} ${t("dataRetention.current", {
+                    days: days[dataClass],
+                    defaultDays: defaults[dataClass],
+                  })}`}
+                  autoComplete="off"
+                />
+              ))}
+              <InlineStack align="end">
+                <Button
+                  variant="primary"
+                  loading={isSubmitting}
+                  onClick={() => submit({ action: "save", ...values }, { method: "post" })}
+                >
+                  {t("common.save")}
+                </Button>
+              </InlineStack>
+            </BlockStack>
+          </Card>
+        </Layout.Section>
+
+        <Layout.Section>
+          <Card>
+            <BlockStack gap="400">
+              <InlineStack align="space-between" blockAlign="center">
+                <Text variant="headingMd" as="h2">
+                  {t("dataRetention.purge")}
+                </Text>
+                <InlineStack gap="200">
+                  <Button onClick={() => submit({ action: "preview" }, { method: "post" })} loading={isSubmitting}>
+                    {t("dataRetention.preview")}
+                  </Button>
+                  <Button tone="critical" onClick={() => submit({ action: "purge" }, { method: "post" })} loading={isSubmitting}>
+                    {t("dataRetention.purgeNow")}
+                  </Button>
+                </InlineStack>
+              </InlineStack>
+              <Text as="p" tone="subdued">
+                {t("dataRetention.purgeHelp")}
+              </Text>
+              {actionData?.success && actionData.report && <ReportCounts report={actionData.report} />}
+            </BlockStack>
+          </Card>
+        </Layout.Section>
+
+        <Layout.Section>
+          <Card>
+            <BlockStack gap="400">
+              <Text variant="headingMd" as="h2">
+                {t("dataRetention.runs")}
+              </Text>
+              {runs.length === 0 ? (
+                <Text as="p" tone="subdued">
+                  {t("dataRetention.runsEmpty")}
+                </Text>
+              ) : (
+                runs.map((run: RunRow, index: number) => (
+                  <BlockStack gap="200" key={run.id}>
+                    <InlineStack gap="200" blockAlign="center">
+                      <Text as="p" variant="bodyMd" fontWeight="semibold">
+                        {new Date(run.startedAt).toLocaleString()}
+                      </Text>
+                      <Badge>{t(`dataRetention.triggers.${run.trigger}`)}</Badge>
+                      {run.dryRun && <Badge tone="info">{t("dataRetention.dryRun")}</Badge>}
+                      <Badge tone={STATUS_TONES[run.status]}>{t(`dataRetention.status.${run.status}`)}</Badge>
+                    </InlineStack>
+                    {run.report && <ReportCounts report={run.report} />}
+                    {run.error && (
+                      <Text as="p" variant="bodySm" tone="critical">
+                        {run.error}
+                      </Text>
+                    )}
+                    {index < runs.length - 1 && <Divider />}
+                  </BlockStack>
+                ))
+              )}
+            </BlockStack>
+          </Card>
+        </Layout.Section>
+      </Layout>
+    </Page>
+  );
+}
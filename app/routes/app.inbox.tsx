@@ -0,0 +1,328 @@
+/**
+ * Inbox Route
+ *
+ * Conversations escalated to the store team. Agents take a conversation over, reply to the
+ * customer (the widget shows the reply in the same chat) and hand it back to the assistant
+ * or close it. While an agent owns a conversation the assistant stays quiet.
+ *
+ * Access: /app/inbox
+ */
+
+import { useEffect, useState } from "react";
+import type { ActionFunctionArgs, LoaderFunctionArgs } from "@remix-run/node";
+import { json } from "@remix-run/node";
+import { useActionData, useLoaderData, useNavigation, useRevalidator, useSearchParams, useSubmit } from "@remix-run/react";
+import {
+  Page,
+  Layout,
+  Card,
+  Tabs,
+  TextField,
+  Banner,
+  BlockStack,
+  InlineStack,
+  Box,
+  Text,
+  Button,
+  Badge,
+  Divider,
+} from "@shopify/polaris";
+import { useTranslation } from "react-i18next";
+import { authenticate } from "../shopify.server";
+import { requireBilling } from "../lib/billing.server";
+import { logError } from "../lib/logger.server";
+import type { ChatSessionStatus } from "../lib/handoff";
+import { handoffService, MAX_AGENT_MESSAGE_LENGTH } from "../services/handoff.service.server";
+
+export const handle = {
+  i18n: "common",
+};
+
+// New customer messages show up without reloading
+const REFRESH_INTERVAL_MS = 10_000;
+
+const TABS: Array<{ id: string; statuses: ChatSessionStatus[] }> = [
+  { id: "open", statuses: ["waiting", "agent"] },
+  { id: "closed", statuses: ["closed"] },
+];
+
+interface ConversationRow {
+  id: string;
+  status: string;
+  escalatedAt: string | null;
+  lastMessageAt: string;
+  preview: string;
+}
+
+interface TranscriptMessage {
+  id: string;
+  role: string;
+  content: string;
+  timestamp: string;
+}
+
+export const loader = async ({ request }: LoaderFunctionArgs) => {
+  const { billing, session } = await authenticate.admin(request);
+  await requireBilling(billing);
+
+  const url = new URL(request.url);
+  const tab = TABS.find((entry) => entry.id === url.searchParams.get("tab")) || TABS[0]!;
+  const selectedId = url.searchParams.get("session");
+
+  const [conversations, selected] = await Promise.all([
+    handoffService.listConversations(session.shop, tab.statuses),
+    selectedId ? handoffService.getConversation(session.shop, selectedId) : null,
+  ]);
+
+  return json({
+    tab: tab.id,
+    conversations: conversations.map((conversation: any): ConversationRow => ({
+      id: conversation.id,
+      status: conversation.status,
+      escalatedAt: conversation.escalatedAt ? new Date(conversation.escalatedAt).toISOString() : null,
+      lastMessageAt: new Date(conversation.lastMessageAt).toISOString(),
+      preview: conversation.messages[0]?.content?.slice(0, 120) || "",
+    })),
+    selected: selected
+      ? {
+          id: selected.id,
+          status: selected.status as string,
+          messages: selected.messages.map((message: any): TranscriptMessage => ({
+            id: message.id,
+            role: message.role,
+            content: message.content,
+            timestamp: new Date(message.timestamp).toISOString(),
+          })),
+        }
+      : null,
+  });
+};
+
+export const action = async ({ request }: ActionFunctionArgs) => {
+  const { billing, session } = await authenticate.admin(request);
+  await requireBilling(billing);
+
+  const formData = await request.formData();
+  const actionType = formData.get("action");
+  const chatSessionId = String(formData.get("id") || "");
+
+  try {
+    if (actionType === "reply") {
+      await handoffService.sendAgentMessage(session.shop, chatSessionId, String(formData.get("message") || ""));
+      return json({ success: true, message: "sent" });
+    }
+
+    if (actionType === "claim") {
+      await handoffService.claim(session.shop, chatSessionId);
+      return json({ success: true, message: "claimed" });
+    }
+
+    if (actionType === "release") {
+      await handoffService.release(session.shop, chatSessionId);
+      return json({ success: true, message: "released" });
+    }
+
+    if (actionType === "close") {
+      await handoffService.close(session.shop, chatSessionId);
+      return json({ success: true, message: "closed" });
+    }
+
+    return json({ success: false, message: "Unknown action" }, { status: 400 });
+  } catch (error) {
+    logError(error, "Inbox action failed", { shop: session.shop, action: actionType });
+    return json(
+      { success: false, message: error instanceof Error ? error.message : String(error) },
+      { status: 400 }
+    );
+  }
+};
+
+function statusTone(status: string): "attention" | "info" | undefined {
+  if (status === "waiting") return "attention";
+  if (status === "agent") return "info";
+  return undefined;
+}
+
+export default function InboxPage() {
+  const { tab, conversations, selected } = useLoaderData<typeof loader>();
+  const actionData = useActionData<typeof action>();
+  const navigation = useNavigation();
+  const revalidator = useRevalidator();
+  const submit = useSubmit();
+  const [searchParams, setSearchParams] = useSearchParams();
+  const { t } = useTranslation();
+
+  const [reply, setReply] = useState("");
+
+  const isSubmitting = navigation.state === "submitting";
+  const selectedTab = Math.max(0, TABS.findIndex((entry) => entry.id === tab));
+
+  useEffect(() => {
+    const interval = setInterval(() => {
+      if (revalidator.state === "idle" && document.visibilityState === "visible") {
+        revalidator.revalidate();
+      }
+    }, REFRESH_INTERVAL_MS);
+    return () => clearInterval(interval);
+  }, [revalidator]);
+
+  const selectTab = (index: number) => {
+    setSearchParams({ tab: TABS[index]!.id });
+  };
+
+  const selectConversation = (id: string) => {
+    const params = new URLSearchParams(searchParams);
+    params.set("session", id);
+    setSearchParams(params);
+  };
+
+  const runAction = (action: string) => {
+    if (!selected) return;
+    submit({ action, id: selected.id }, { method: "post" });
+  };
+
+  const handleReply = () => {
+    if (!selected || !reply.trim()) return;
+    submit({ action: "reply", id: selected.id, message: reply }, { method: "post" });
+    setReply("");
+  };
+
+  const roleLabel = (role: string) => {
+    if (role === "user") return t("inbox.customer");
+    if (role === "agent") return t("inbox.you");
+    return t("inbox.assistant");
+  };
+
+  return (
+    <Page title={t("inbox.title")} subtitle={t("inbox.subtitle")}>
+      <Layout>
+        {actionData && !actionData.success && (
+          <Layout.Section>
+            <Banner tone="critical">
+              <Text as="p">{actionData.message}</Text>
+            </Banner>
+          </Layout.Section>
+        )}
+
+        <Layout.Section variant="oneThird">
+          <Card padding="0">
+            <Tabs
+              tabs={TABS.map((entry) => ({ id: entry.id, content: t(`inbox.tabs.${entry.id}`) }))}
+              selected={selectedTab}
+              onSelect={selectTab}
+              fitted
+            />
+            <Box padding="300">
+              <BlockStack gap="200">
+                {conversations.length === 0 ? (
+                  <Text as="p" tone="subdued">
+                    {t("inbox.empty")}
+                  </Text>
+                ) : (
+                  conversations.map((conversation: ConversationRow, index: number) => (
+                    <BlockStack gap="200" key={conversation.id}>
+                      <Button
+                        variant={selected?.id === conversation.id ? "primary" : "tertiary"}
+                        textAlign="start"
+                        fullWidth
+                        onClick={() => selectConversation(conversation.id)}
+                      >
+                        {conversation.preview || t("inbox.noMessages")}
+                      </Button>
+                      <InlineStack gap="200" blockAlign="center">
+                        <Badge tone={statusTone(conversation.status)}>{t(`inbox.status.${conversation.status}`)}</Badge>
+                        <Text as="span" variant="bodySm" tone="subdued">
+                          {new Date(conversation.lastMessageAt).toLocaleString()}
+                        </Text>
+                      </InlineStack>
+                      {index < conversations.length - 1 && <Divider />}
+                    </BlockStack>
+                  ))
+                )}
+              </BlockStack>
+            </Box>
+          </Card>
+        </Layout.Section>
+
+        <Layout.Section>
+          <Card>
+            {!selected ? (
+              <Text as="p" tone="subdued">
+                {t("inbox.selectConversation")}
+              </Text>
+            ) : (
+              <BlockStack gap="400">
+                <InlineStack align="space-between" blockAlign="center">
+                  <Badge tone={statusTone(selected.status)}>{t(`inbox.status.${selected.status}`)}</Badge>
+                  <InlineStack gap="200">
+                    {selected.status !== "agent" && (
+                      <Button onClick={() => runAction("claim")} loading={isSubmitting}>
+                        {t("inbox.claim")}
+                      </Button>
+                    )}
+                    {selected.status !== "bot" && (
+                      <Button onClick={() => runAction("release")} loading={isSubmitting}>
+                        {t("inbox.release")}
+                      </Button>
+                    )}
+                    {selected.status !== "closed" && (
+                      <Button tone="critical" onClick={() => runAction("close")} loading={isSubmitting}>
+                        {t("inbox.close")}
+                      </Button>
+                    )}
+                  </InlineStack>
+                </InlineStack>
+
+                <Divider />
+
+                <BlockStack gap="300">
+                  {selected.messages.map((message: TranscriptMessage) => (
+                    <Box
+                      key={message.id}
+                      padding="300"
+                      borderRadius="200"
+                      background={message.role === "user" ? "bg-surface-secondary" : message.role === "agent" ? "bg-surface-info" : "bg-surface"}
+                    >
+                      <BlockStack gap="100">
+                        <InlineStack gap="200">
+                          <Text as="span" variant="bodySm" fontWeight="semibold">
+                            {roleLabel(message.role)}
+                          </Text>
+                          <Text as="span" variant="bodySm" tone="subdued">
+                            {new Date(message.timestamp).toLocaleString()}
+                          </Text>
+                        </InlineStack>
+                        <Text as="p" variant="bodyMd">
+                          {message.content}
+                        </Text>
+                      </BlockStack>
+                    </Box>
+                  ))}
+                </BlockStack>
+
+                {selected.status !== "closed" && (
+                  <BlockStack gap="200">
+                    <TextField
+                      label={t("inbox.reply")}
+                      value={reply}
+                      onChange={setReply}
+                      multiline={3}
+                      maxLength={MAX_AGENT_MESSAGE_LENGTH}
+                      helpText={selected.status === "agent" ? t("inbox.replyHelpAgent") : t("inbox.replyHelp")}
+                      autoComplete="off"
+                    />
+                    <InlineStack align="end">
+                      <Button variant="primary" onClick={handleReply} loading={isSubmitting} disabled={!reply.trim()}>
+                        {t("inbox.send")}
+                      </Button>
+                    </InlineStack>
+                  </BlockStack>
+                )}
+              </BlockStack>
+            )}
+          </Card>
+        </Layout.Section>
+      </Layout>
+    </Page>
+  );
+}
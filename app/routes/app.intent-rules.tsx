@@ -0,0 +1,268 @@
+/**
+ * Intent Rules Route
+ *
+ * Lets merchants extend intent classification with their own keyword/regex rules.
+ * Merchant rules are evaluated before the built-in rules (see intent-classifier.service.ts).
+ *
+ * Access: /app/intent-rules
+ */
+
+import { useState } from "react";
+import type { ActionFunctionArgs, LoaderFunctionArgs } from "@remix-run/node";
+import { json } from "@remix-run/node";
+import { useActionData, useLoaderData, useNavigation, useSubmit } from "@remix-run/react";
+import {
+  Page,
+  Layout,
+  Card,
+  TextField,
+  Select,
+  Banner,
+  BlockStack,
+  InlineStack,
+  Text,
+  Button,
+  Badge,
+  Divider,
+} from "@shopify/polaris";
+import { useTranslation } from "react-i18next";
+import { authenticate } from "../shopify.server";
+import { requireBilling } from "../lib/billing.server";
+import { logError } from "../lib/logger.server";
+import { INTENT_TYPES } from "../lib/intents";
+import { intentClassifier } from "../services/intent-classifier.service";
+
+export const handle = {
+  i18n: "common",
+};
+
+interface IntentRuleRow {
+  id: string;
+  intent: string;
+  pattern: string;
+  matchType: string;
+  query: string | null;
+  priority: number;
+  enabled: boolean;
+}
+
+export const loader = async ({ request }: LoaderFunctionArgs) => {
+  const { billing, session } = await authenticate.admin(request);
+  await requireBilling(billing);
+
+  const rules = await intentClassifier.listRules(session.shop);
+
+  return json({
+    rules: rules.map((rule: any): IntentRuleRow => ({
+      id: rule.id,
+      intent: rule.intent,
+      pattern: rule.pattern,
+      matchType: rule.matchType,
+      query: rule.query,
+      priority: rule.priority,
+      enabled: rule.enabled,
+    })),
+  });
+};
+
+export const action = async ({ request }: ActionFunctionArgs) => {
+  const { billing, session } = await authenticate.admin(request);
+  await requireBilling(billing);
+
+  const formData = await request.formData();
+  const actionType = formData.get("action");
+
+  try {
+    if (actionType === "create") {
+      await intentClassifier.createRule(session.shop, {
+        intent: String(formData.get("intent") || ""),
+        pattern: String(formData.get("pattern") || ""),
+        matchType: formData.get("matchType") === "regex" ? "regex" : "keyword",
+        query: (formData.get("query") as string) || null,
+        priority: parseInt(String(formData.get("priority") || "0"), 10) || 0,
+      });
+      return json({ success: true, message: "created" });
+    }
+
+    if (actionType === "toggle") {
+      await intentClassifier.updateRule(session.shop, String(formData.get("id")), {
+        intent: String(formData.get("intent") || ""),
+        pattern: String(formData.get("pattern") || ""),
+        matchType: formData.get("matchType") === "regex" ? "regex" : "keyword",
+        query: (formData.get("query") as string) || null,
+        priority: parseInt(String(formData.get("priority") || "0"), 10) || 0,
+        enabled: formData.get("enabled") === "true",
+      });
+      return json({ success: true, message: "updated" });
+    }
+
+    if (actionType === "delete") {
+      await intentClassifier.deleteRule(session.shop, String(formData.get("id")));
+      return json({ success: true, message: "deleted" });
+    }
+
+    return json({ success: false, message: "Unknown action" }, { status: 400 });
+  } catch (error) {
+    logError(error, "Intent rule action failed", { shop: session.shop, action: actionType });
+    return json(
+      { success: false, message: error instanceof Error ? error.message : String(error) },
+      { status: 400 }
+    );
+  }
+};
+
+export default function IntentRulesPage() {
+  const { rules } = useLoaderData<typeof loader>();
+  const actionData = useActionData<typeof action>();
+  const navigation = useNavigation();
+  const submit = useSubmit();
+  const { t } = useTranslation();
+
+  const [intent, setIntent] = useState<string>("PRODUCT_SEARCH");
+  const [pattern, setPattern] = useState("");
+  const [matchType, setMatchType] = useState("keyword");
+  const [query, setQuery] = useState("");
+  const [priority, setPriority] = useState("0");
+
+  const isSubmitting = navigation.state === "submitting";
+  const intentOptions = INTENT_TYPES.map((type) => ({ label: type.replace(/_/g, " "), value: type }));
+
+  const handleCreate = () => {
+    submit({ action: "create", intent, pattern, matchType, query, priority }, { method: "post" });
+    setPattern("");
+    setQuery("");
+  };
+
+  const handleToggle = (rule: IntentRuleRow) => {
+    submit(
+      {
+        action: "toggle",
+        id: rule.id,
+        intent: rule.intent,
+        pattern: rule.pattern,
+        matchType: rule.matchType,
+        query: rule.query || "",
+        priority: String(rule.priority),
+        enabled: String(!rule.enabled),
+      },
+      { method: "post" }
+    );
+  };
+
+  const handleDelete = (id: string) => {
+    submit({ action: "delete", id }, { method: "post" });
+  };
+
+  return (
+    <Page
+      title={t("intentRules.title")}
+      subtitle={t("intentRules.subtitle")}
+      backAction={{ content: t("nav.settings"), url: "/app/settings" }}
+    >
+      <Layout>
+        {actionData && !actionData.success && (
+          <Layout.Section>
+            <Banner tone="critical">
+              <Text as="p">{actionData.message}</Text>
+            </Banner>
+          </Layout.Section>
+        )}
+
+        <Layout.Section>
+          <Card>
+            <BlockStack gap="400">
+              <Text variant="headingMd" as="h2">
+                {t("intentRules.addRule")}
+              </Text>
+              <Select
+                label={t("intentRules.intent")}
+                options={intentOptions}
+                value={intent}
+                onChange={setIntent}
+              />
+              <Select
+                label={t("intentRules.matchType")}
+                options={[
+                  { label: t("intentRules.keyword"), value: "keyword" },
+                  { label: t("intentRules.regex"), value: "regex" },
+                ]}
+                value={matchType}
+                onChange={setMatchType}
+              />
+              <TextField
+                label={t("intentRules.pattern")}
+                value={pattern}
+                onChange={setPattern}
+                helpText={matchType === "regex" ? t("intentRules.regexHelp") : t("intentRules.keywordHelp")}
+                autoComplete="off"
+              />
+              {intent === "PRODUCT_SEARCH" && (
+                <TextField
+                  label={t("intentRules.query")}
+                  value={query}
+                  onChange={setQuery}
+                  helpText={t("intentRules.queryHelp")}
+                  autoComplete="off"
+                />
+              )}
+              <TextField
+                label={t("intentRules.priority")}
+                type="number"
+                value={priority}
+                onChange={setPriority}
+                helpText={t("intentRules.priorityHelp")}
+                autoComplete="off"
+              />
+              <InlineStack align="end">
+                <Button variant="primary" onClick={handleCreate} loading={isSubmitting} disabled={!pattern.trim()}>
+                  {t("intentRules.addRule")}
+                </Button>
+              </InlineStack>
+            </BlockStack>
+          </Card>
+        </Layout.Section>
+
+        <Layout.Section>
+          <Card>
+            <BlockStack gap="300">
+              <Text variant="headingMd" as="h2">
+                {t("intentRules.rules")}
+              </Text>
+              {rules.length === 0 ? (
+                <Text as="p" tone="subdued">
+                  {t("intentRules.empty")}
+                </Text>
+              ) : (
+                rules.map((rule: IntentRuleRow, index: number) => (
+                  <BlockStack gap="200" key={rule.id}>
+                    <InlineStack align="space-between" blockAlign="center">
+                      <BlockStack gap="100">
+                        <InlineStack gap="200">
+                          <Badge tone="info">{rule.intent.replace(/_/g, " ")}</Badge>
+                          <Badge>{rule.matchType}</Badge>
+                          {!rule.enabled && <Badge tone="attention">{t("intentRules.disabled")}</Badge>}
+                        </InlineStack>
+                        <Text as="p" variant="bodyMd">
+                          {rule.pattern}
+                        </Text>
+                      </BlockStack>
+                      <InlineStack gap="200">
+                        <Button onClick={() => handleToggle(rule)}>
+                          {rule.enabled ? t("intentRules.disable") : t("intentRules.enable")}
+                        </Button>
+                        <Button tone="critical" onClick={() => handleDelete(rule.id)}>
+                          {t("common.delete")}
+                        </Button>
+                      </InlineStack>
+                    </InlineStack>
+                    {index < rules.length - 1 && <Divider />}
+                  </BlockStack>
+                ))
+              )}
+            </BlockStack>
+          </Card>
+        </Layout.Section>
+      </Layout>
+    </Page>
+  );
+}
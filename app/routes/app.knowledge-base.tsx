@@ -0,0 +1,388 @@
+/**
+ * Knowledge Base Route
+ *
+ * Store information the assistant answers from besides the catalog: custom FAQ entries
+ * (written here or from the Unanswered questions report), long-form text pasted by the
+ * merchant, the store's Pages and Blog articles imported through the Admin API, and its
+ * policies (added automatically). Documents are indexed in the background; replies based
+ * on them cite their source.
+ *
+ * Access: /app/knowledge-base
+ */
+
+import { useState } from "react";
+import type { ActionFunctionArgs, LoaderFunctionArgs } from "@remix-run/node";
+import { json } from "@remix-run/node";
+import { useActionData, useLoaderData, useNavigation, useSubmit } from "@remix-run/react";
+import {
+  Page,
+  Layout,
+  Card,
+  TextField,
+  Banner,
+  BlockStack,
+  InlineStack,
+  Text,
+  Button,
+  Badge,
+  Divider,
+} from "@shopify/polaris";
+import { useTranslation } from "react-i18next";
+import { authenticate } from "../shopify.server";
+import { requireBilling } from "../lib/billing.server";
+import { logError } from "../lib/logger.server";
+import { isKnowledgeImportKind, type KnowledgeDocumentStatus, type KnowledgeDocumentType } from "../lib/knowledge";
+import { isEmbeddingServiceAvailable } from "../services/embedding.service";
+import { faqService } from "../services/faq.service.server";
+import { knowledgeBaseService } from "../services/knowledge-base.service.server";
+
+export const handle = {
+  i18n: "common",
+};
+
+interface FaqRow {
+  id: string;
+  question: string;
+  answer: string;
+  source: string;
+  enabled: boolean;
+}
+
+interface DocumentRow {
+  id: string;
+  type: KnowledgeDocumentType;
+  title: string;
+  url: string | null;
+  status: KnowledgeDocumentStatus;
+  error: string | null;
+  chunkCount: number;
+  indexedAt: string | null;
+}
+
+const STATUS_TONES: Record<KnowledgeDocumentStatus, "info" | "success" | "critical"> = {
+  pending: "info",
+  ready: "success",
+  failed: "critical",
+};
+
+export const loader = async ({ request }: LoaderFunctionArgs) => {
+  const { billing, session } = await authenticate.admin(request);
+  await requireBilling(billing);
+
+  const [entries, documents] = await Promise.all([
+    faqService.listEntries(session.shop),
+    knowledgeBaseService.listDocuments(session.shop),
+  ]);
+
+  return json({
+    semantic: isEmbeddingServiceAvailable(),
+    entries: entries.map((entry: any): FaqRow => ({
+      id: entry.id,
+      question: entry.question,
+      answer: entry.answer,
+      source: entry.source,
+      enabled: entry.enabled,
+    })),
+    documents: documents.map((document: any): DocumentRow => ({
+      id: document.id,
+      type: document.type,
+      title: document.title,
+      url: document.url,
+      status: document.status,
+      error: document.error,
+      chunkCount: document.chunkCount,
+      indexedAt: document.indexedAt ? document.indexedAt.toISOString() : null,
+    })),
+  });
+};
+
+export const action = async ({ request }: ActionFunctionArgs) => {
+  const { billing, session } = await authenticate.admin(request);
+  await requireBilling(billing);
+
+  const formData = await request.formData();
+  const actionType = formData.get("action");
+
+  try {
+    if (actionType === "createFaq") {
+      await faqService.createEntry(session.shop, {
+        question: String(formData.get("question") || ""),
+        answer: String(formData.get("answer") || ""),
+      });
+      return json({ success: true, message: "faqCreated" });
+    }
+
+    if (actionType === "toggleFaq") {
+      await faqService.setEnabled(session.shop, String(formData.get("id")), formData.get("enabled") === "true");
+      return json({ success: true, message: "updated" });
+    }
+
+    if (actionType === "deleteFaq") {
+      await faqService.deleteEntry(session.shop, String(formData.get("id")));
+      return json({ success: true, message: "deleted" });
+    }
+
+    if (actionType === "createDocument") {
+      await knowledgeBaseService.createTextDocument(session.shop, {
+        title: String(formData.get("title") || ""),
+        content: String(formData.get("content") || ""),
+      });
+      return json({ success: true, message: "documentCreated" });
+    }
+
+    if (actionType === "import") {
+      const kind = formData.get("kind");
+      if (!isKnowledgeImportKind(kind)) {
+        return json({ success: false, message: "Unknown import" }, { status: 400 });
+      }
+      await knowledgeBaseService.enqueueImport(session.shop, kind);
+      return json({ success: true, message: "importStarted" });
+    }
+
+    if (actionType === "reindexDocument") {
+      await knowledgeBaseService.reindexDocument(session.shop, String(formData.get("id")));
+      return json({ success: true, message: "reindexStarted" });
+    }
+
+    if (actionType === "deleteDocument") {
+      await knowledgeBaseService.deleteDocument(session.shop, String(formData.get("id")));
+      return json({ success: true, message: "deleted" });
+    }
+
+    return json({ success: false, message: "Unknown action" }, { status: 400 });
+  } catch (error) {
+    logError(error, "Knowledge base action failed", { shop: session.shop, action: actionType });
+    return json(
+      { success: false, message: error instanceof Error ? error.message : String(error) },
+      { status: 400 }
+    );
+  }
+};
+
+export default function KnowledgeBasePage() {
+  const { semantic, entries, documents } = useLoaderData<typeof loader>();
+  const actionData = useActionData<typeof action>();
+  const navigation = useNavigation();
+  const submit = useSubmit();
+  const { t } = useTranslation();
+
+  const [question, setQuestion] = useState("");
+  const [answer, setAnswer] = useState("");
+  const [title, setTitle] = useState("");
+  const [content, setContent] = useState("");
+
+  const isSubmitting = navigation.state === "submitting";
+
+  const handleCreateFaq = () => {
+    submit({ action: "createFaq", question, answer }, { method: "post" });
+    setQuestion("");
+    setAnswer("");
+  };
+
+  const handleCreateDocument = () => {
+    submit({ action: "createDocument", title, content }, { method: "post" });
+    setTitle("");
+    setContent("");
+  };
+
+  return (
+    <Page title={t("knowledgeBase.title")} subtitle={t("knowledgeBase.subtitle")}>
+      <Layout>
+        {actionData && !actionData.success && (
+          <Layout.Section>
+            <Banner tone="critical">
+              <Text as="p">{actionData.message}</Text>
+            </Banner>
+          </Layout.Section>
+        )}
+
+        {actionData?.success && (actionData.message === "importStarted" || actionData.message === "documentCreated") && (
+          <Layout.Section>
+            <Banner tone="success">
+              <Text as="p">{t(`knowledgeBase.messages.${actionData.message}`)}</Text>
+            </Banner>
+          </Layout.Section>
+        )}
+
+        {!semantic && (
+          <Layout.Section>
+            <Banner tone="info">
+              <Text as="p">{t("knowledgeBase.keywordMatching")}</Text>
+            </Banner>
+          </Layout.Section>
+        )}
+
+        <Layout.Section>
+          <Card>
+            <BlockStack gap="400">
+              <Text variant="headingMd" as="h2">
+                {t("knowledgeBase.faq")}
+              </Text>
+              <TextField
+                label={t("knowledgeBase.question")}
+                value={question}
+                onChange={setQuestion}
+                autoComplete="off"
+              />
+              <TextField
+                label={t("knowledgeBase.answer")}
+                value={answer}
+                onChange={setAnswer}
+                multiline={3}
+                autoComplete="off"
+              />
+              <InlineStack align="end">
+                <Button
+                  variant="primary"
+                  onClick={handleCreateFaq}
+                  loading={isSubmitting}
+                  disabled={!question.trim() || !answer.trim()}
+                >
+                  {t("knowledgeBase.addFaq")}
+                </Button>
+              </InlineStack>
+              <Divider />
+              {entries.length === 0 ? (
+                <Text as="p" tone="subdued">
+                  {t("knowledgeBase.faqEmpty")}
+                </Text>
+              ) : (
+                entries.map((entry: FaqRow, index: number) => (
+                  <BlockStack gap="200" key={entry.id}>
+                    <InlineStack align="space-between" blockAlign="start" wrap={false} gap="400">
+                      <BlockStack gap="100">
+                        <InlineStack gap="200">
+                          <Text as="p" variant="bodyMd" fontWeight="semibold">
+                            {entry.question}
+                          </Text>
+                          <Badge>{t(`knowledgeBase.faqSources.${entry.source}`)}</Badge>
+                          {!entry.enabled && <Badge tone="attention">{t("intentRules.disabled")}</Badge>}
+                        </InlineStack>
+                        <Text as="p" variant="bodyMd">
+                          {entry.answer}
+                        </Text>
+                      </BlockStack>
+                      <InlineStack gap="200" wrap={false}>
+                        <Button
+                          onClick={() =>
+                            submit({ action: "toggleFaq", id: entry.id, enabled: String(!entry.enabled) }, { method: "post" })
+                          }
+                        >
+                          {entry.enabled ? t("intentRules.disable") : t("intentRules.enable")}
+                        </Button>
+                        <Button tone="critical" onClick={() => submit({ action: "deleteFaq", id: entry.id }, { method: "post" })}>
+                          {t("common.delete")}
+                        </Button>
+                      </InlineStack>
+                    </InlineStack>
+                    {index < entries.length - 1 && <Divider />}
+                  </BlockStack>
+                ))
+              )}
+            </BlockStack>
+          </Card>
+        </Layout.Section>
+
+        <Layout.Section>
+          <Card>
+            <BlockStack gap="400">
+              <InlineStack align="space-between" blockAlign="center">
+                <Text variant="headingMd" as="h2">
+                  {t("knowledgeBase.documents")}
+                </Text>
+                <InlineStack gap="200">
+                  <Button onClick={() => submit({ action: "import", kind: "pages" }, { method: "post" })} loading={isSubmitting}>
+                    {t("knowledgeBase.importPages")}
+                  </Button>
+                  <Button onClick={() => submit({ action: "import", kind: "articles" }, { method: "post" })} loading={isSubmitting}>
+                    {t("knowledgeBase.importArticles")}
+                  </Button>
+                </InlineStack>
+              </InlineStack>
+              <Text as="p" tone="subdued">
+                {t("knowledgeBase.importHelp")} {t("knowledgeBase.policyHelp")}
+              </Text>
+              <TextField
+                label={t("knowledgeBase.documentTitle")}
+                value={title}
+                onChange={setTitle}
+                autoComplete="off"
+              />
+              <TextField
+                label={t("knowledgeBase.documentContent")}
+                value={content}
+                onChange={setContent}
+                multiline={6}
+                helpText={t("knowledgeBase.documentContentHelp")}
+                autoComplete="off"
+              />
+              <InlineStack align="end">
+                <Button
+                  variant="primary"
+                  onClick={handleCreateDocument}
+                  loading={isSubmitting}
+                  disabled={!title.trim() || !content.trim()}
+                >
+                  {t("knowledgeBase.addDocument")}
+                </Button>
+              </InlineStack>
+              <Divider />
+              {documents.length === 0 ? (
+                <Text as="p" tone="subdued">
+                  {t("knowledgeBase.documentsEmpty")}
+                </Text>
+              ) : (
+                documents.map((document: DocumentRow, index: number) => (
+                  <BlockStack gap="200" key={document.id}>
+                    <InlineStack align="space-between" blockAlign="start" wrap={false} gap="400">
+                      <BlockStack gap="100">
+                        <InlineStack gap="200">
+                          <Text as="p" variant="bodyMd" fontWeight="semibold">
+                            {document.title}
+                          </Text>
+                          <Badge>{t(`knowledgeBase.types.${document.type}`)}</Badge>
+                          <Badge tone={STATUS_TONES[document.status]}>{t(`knowledgeBase.status.${document.status}`)}</Badge>
+                        </InlineStack>
+                        {document.url && (
+                          <Text as="p" variant="bodySm" tone="subdued">
+                            {document.url}
+                          </Text>
+                        )}
+                        {document.status === "failed" && document.error ? (
+                          <Text as="p" variant="bodySm" tone="critical">
+                            {document.error}
+                          </Text>
+                        ) : (
+                          document.indexedAt && (
+                            <Text as="p" variant="bodySm" tone="subdued">
+                              {t("knowledgeBase.indexed", {
+                                count: document.chunkCount,
+                                date: new Date(document.indexedAt).toLocaleString(),
+                              })}
+                            </Text>
+                          )
+                        )}
+                      </BlockStack>
+                      <InlineStack gap="200" wrap={false}>
+                        <Button onClick={() => submit({ action: "reindexDocument", id: document.id }, { method: "post" })}>
+                          {t("knowledgeBase.reindex")}
+                        </Button>
+                        <Button
+                          tone="critical"
+                          onClick={() => submit({ action: "deleteDocument", id: document.id }, { method: "post" })}
+                        >
+                          {t("common.delete")}
+                        </Button>
+                      </InlineStack>
+                    </InlineStack>
+                    {index < documents.length - 1 && <Divider />}
+                  </BlockStack>
+                ))
+              )}
+            </BlockStack>
+          </Card>
+        </Layout.Section>
+      </Layout>
+    </Page>
+  );
+}
@@ -0,0 +1,279 @@
+/**
+ * Unanswered Questions Route
+ *
+ * Questions the assistant couldn't answer well (fallback replies, low-confidence replies and
+ * sessions rated 1-2 stars), clustered by similarity and ranked by how often they were asked.
+ * Answering a cluster adds a custom FAQ entry the assistant uses from then on; the entries
+ * are managed in the knowledge base (/app/knowledge-base).
+ *
+ * Access: /app/knowledge-gaps
+ */
+
+import { useState } from "react";
+import type { ActionFunctionArgs, LoaderFunctionArgs } from "@remix-run/node";
+import { json } from "@remix-run/node";
+import { useActionData, useLoaderData, useNavigation, useSubmit } from "@remix-run/react";
+import {
+  Page,
+  Layout,
+  Card,
+  TextField,
+  Select,
+  Banner,
+  BlockStack,
+  InlineStack,
+  Text,
+  Button,
+  Badge,
+  Divider,
+  List,
+} from "@shopify/polaris";
+import { useTranslation } from "react-i18next";
+import { authenticate } from "../shopify.server";
+import { requireBilling } from "../lib/billing.server";
+import { logError } from "../lib/logger.server";
+import { AnalyticsService } from "../services/analytics.service";
+import { isEmbeddingServiceAvailable } from "../services/embedding.service";
+import { faqService } from "../services/faq.service.server";
+import { knowledgeGapService, type KnowledgeGapReason } from "../services/knowledge-gap.service.server";
+
+export const handle = {
+  i18n: "common",
+};
+
+const PERIOD_PRESETS = ["week", "month", "quarter"];
+
+interface ClusterRow {
+  id: string;
+  question: string;
+  count: number;
+  sessions: number;
+  reasons: Record<KnowledgeGapReason, number>;
+  samples: string[];
+  lastAskedAt: string;
+}
+
+export const loader = async ({ request }: LoaderFunctionArgs) => {
+  const { billing, session } = await authenticate.admin(request);
+  await requireBilling(billing);
+
+  const url = new URL(request.url);
+  const periodPreset = PERIOD_PRESETS.find((preset) => preset === url.searchParams.get("period")) || "month";
+  const period = AnalyticsService.getPeriodFromPreset(periodPreset);
+
+  const [clusters, entries] = await Promise.all([
+    knowledgeGapService.getClusters(session.shop, period),
+    faqService.listEntries(session.shop),
+  ]);
+
+  return json({
+    periodPreset,
+    semantic: isEmbeddingServiceAvailable(),
+    clusters: clusters.map((cluster): ClusterRow => ({
+      ...cluster,
+      lastAskedAt: cluster.lastAskedAt.toISOString(),
+    })),
+    faqCount: entries.length,
+  });
+};
+
+export const action = async ({ request }: ActionFunctionArgs) => {
+  const { billing, session } = await authenticate.admin(request);
+  await requireBilling(billing);
+
+  const formData = await request.formData();
+  const actionType = formData.get("action");
+
+  try {
+    if (actionType === "answer") {
+      let samples: string[] = [];
+      try {
+        const parsed = JSON.parse(String(formData.get("samples") || "[]"));
+        samples = Array.isArray(parsed) ? parsed.map(String) : [];
+      } catch {
+        // Save the answer without the other phrasings
+      }
+
+      await knowledgeGapService.answerCluster(session.shop, {
+        question: String(formData.get("question") || ""),
+        answer: String(formData.get("answer") || ""),
+        samples,
+      });
+      return json({ success: true, message: "answered" });
+    }
+
+    return json({ success: false, message: "Unknown action" }, { status: 400 });
+  } catch (error) {
+    logError(error, "Knowledge gap action failed", { shop: session.shop, action: actionType });
+    return json(
+      { success: false, message: error instanceof Error ? error.message : String(error) },
+      { status: 400 }
+    );
+  }
+};
+
+export default function KnowledgeGapsPage() {
+  const { periodPreset, semantic, clusters, faqCount } = useLoaderData<typeof loader>();
+  const actionData = useActionData<typeof action>();
+  const navigation = useNavigation();
+  const submit = useSubmit();
+  const { t } = useTranslation();
+
+  const [answeringId, setAnsweringId] = useState<string | null>(null);
+  const [answer, setAnswer] = useState("");
+
+  const isSubmitting = navigation.state === "submitting";
+  const periodOptions = [
+    { label: t("analytics.last7Days"), value: "week" },
+    { label: t("analytics.last30Days"), value: "month" },
+    { label: t("analytics.last90Days"), value: "quarter" },
+  ];
+
+  const handleAnswer = (cluster: ClusterRow) => {
+    submit(
+      {
+        action: "answer",
+        question: cluster.question,
+        answer,
+        samples: JSON.stringify(cluster.samples),
+      },
+      { method: "post" }
+    );
+    setAnsweringId(null);
+    setAnswer("");
+  };
+
+  return (
+    <Page
+      title={t("knowledgeGaps.title")}
+      subtitle={t("knowledgeGaps.subtitle")}
+      backAction={{ content: t("nav.analytics"), url: "/app/analytics" }}
+    >
+      <Layout>
+        {actionData && !actionData.success && (
+          <Layout.Section>
+            <Banner tone="critical">
+              <Text as="p">{actionData.message}</Text>
+            </Banner>
+          </Layout.Section>
+        )}
+
+        {!semantic && (
+          <Layout.Section>
+            <Banner tone="info">
+              <Text as="p">{t("knowledgeGaps.keywordClustering")}</Text>
+            </Banner>
+          </Layout.Section>
+        )}
+
+        <Layout.Section>
+          <Card>
+            <BlockStack gap="400">
+              <InlineStack align="space-between" blockAlign="center">
+                <Text variant="headingMd" as="h2">
+                  {t("knowledgeGaps.clusters")}
+                </Text>
+                <Select
+                  label={t("analytics.timePeriod")}
+                  labelHidden
+                  options={periodOptions}
+                  value={periodPreset}
+                  onChange={(value) => submit({ period: value }, { method: "get" })}
+                />
+              </InlineStack>
+              {clusters.length === 0 ? (
+                <Text as="p" tone="subdued">
+                  {t("knowledgeGaps.empty")}
+                </Text>
+              ) : (
+                clusters.map((cluster: ClusterRow, index: number) => (
+                  <BlockStack gap="200" key={cluster.id}>
+                    <InlineStack align="space-between" blockAlign="start" wrap={false} gap="400">
+                      <BlockStack gap="100">
+                        <Text as="p" variant="bodyMd" fontWeight="semibold">
+                          {cluster.question}
+                        </Text>
+                        <InlineStack gap="200">
+                          <Badge tone="info">{t("knowledgeGaps.asked", { count: cluster.count })}</Badge>
+                          {(Object.keys(cluster.reasons) as KnowledgeGapReason[])
+                            .filter((reason) => cluster.reasons[reason] > 0)
+                            .map((reason) => (
+                              <Badge key={reason}>{`${t(`knowledgeGaps.reasons.${reason}`)} · ${cluster.reasons[reason]}`}</Badge>
+                            ))}
+                        </InlineStack>
+                        {cluster.samples.length > 0 && (
+                          <List type="bullet">
+                            {cluster.samples.map((sample) => (
+                              <List.Item key={sample}>
+                                <Text as="span" tone="subdued">
+                                  {sample}
+                                </Text>
+                              </List.Item>
+                            ))}
+                          </List>
+                        )}
+                        <Text as="p" variant="bodySm" tone="subdued">
+                          {t("knowledgeGaps.lastAsked", { date: new Date(cluster.lastAskedAt).toLocaleString() })}
+                        </Text>
+                      </BlockStack>
+                      {answeringId !== cluster.id && (
+                        <Button
+                          onClick={() => {
+                            setAnsweringId(cluster.id);
+                            setAnswer("");
+                          }}
+                        >
+                          {t("knowledgeGaps.answer")}
+                        </Button>
+                      )}
+                    </InlineStack>
+                    {answeringId === cluster.id && (
+                      <BlockStack gap="200">
+                        <TextField
+                          label={t("knowledgeGaps.answerLabel")}
+                          value={answer}
+                          onChange={setAnswer}
+                          multiline={3}
+                          helpText={t("knowledgeGaps.answerHelp")}
+                          autoComplete="off"
+                        />
+                        <InlineStack align="end" gap="200">
+                          <Button onClick={() => setAnsweringId(null)}>{t("common.cancel")}</Button>
+                          <Button
+                            variant="primary"
+                            onClick={() => handleAnswer(cluster)}
+                            loading={isSubmitting}
+                            disabled={!answer.trim()}
+                          >
+                            {t("knowledgeGaps.saveAnswer")}
+                          </Button>
+                        </InlineStack>
+                      </BlockStack>
+                    )}
+                    {index < clusters.length - 1 && <Divider />}
+                  </BlockStack>
+                ))
+              )}
+            </BlockStack>
+          </Card>
+        </Layout.Section>
+
+        <Layout.Section>
+          <Card>
+            <InlineStack align="space-between" blockAlign="center" gap="400">
+              <BlockStack gap="100">
+                <Text variant="headingMd" as="h2">
+                  {t("knowledgeGaps.faq")}
+                </Text>
+                <Text as="p" tone="subdued">
+                  {t("knowledgeGaps.faqCount", { count: faqCount })}
+                </Text>
+              </BlockStack>
+              <Button url="/app/knowledge-base">{t("knowledgeGaps.manageFaq")}</Button>
+            </InlineStack>
+          </Card>
+        </Layout.Section>
+      </Layout>
+    </Page>
+  );
+}
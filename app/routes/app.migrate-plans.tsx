@@ -13,6 +13,7 @@ import { useLoaderData } from "@remix-run/react";
 import { Page, Layout, Card, Text, Banner, BlockStack, List, Badge } from "@shopify/polaris";
 import { authenticate } from "../shopify.server";
 import { migratePlanCodes } from "../lib/migrate-plans.server";
+import { merchantActor } from "../lib/audit.server";
 
 export const loader = async ({ request }: LoaderFunctionArgs) => {
   // ✅ SECURITY FIX: Block access to migration tool in production
@@ -20,10 +21,15 @@ export const loader = async ({ request }: LoaderFunctionArgs) => {
     throw new Response("Not Found", { status: 404 });
   }
 
-  await authenticate.admin(request);
+  const { session, sessionToken } = await authenticate.admin(request);
 
   try {
-    const result = await migratePlanCodes();
+    // Migrates every shop; the audit events name the shop it was started from
+    const result = await migratePlanCodes({
+      actor: merchantActor({ sessionToken }),
+      request,
+      metadata: { startedFromShop: session.shop },
+    });
     return json({
       success: true,
       ...result
@@ -26,8 +26,22 @@ import { authenticate } from "../shopify.server";
 import { requireBilling, getPlanLimits, checkBillingStatus } from "../lib/billing.server";
 import { prisma as db } from "../db.server";
 import { useTranslation } from "react-i18next";
-import { encryptApiKey, decryptApiKey, isValidOpenAIKey } from "../lib/encryption.server";
+import { z } from "zod";
+import { encryptShopSecret, decryptShopSecret } from "../lib/shop-keys.server";
+import { diffChanges, merchantActor, recordAuditEvent } from "../lib/audit.server";
+import { getAppLLMConfig } from "../lib/llm-provider.server";
+import {
+  LLM_PROVIDERS,
+  LLM_PROVIDER_INFO,
+  isLLMProviderName,
+  isValidProviderBaseUrl,
+  isValidProviderKey,
+} from "../lib/llm-providers";
 import { getConversationUsage } from "../lib/conversation-usage.server";
+import { ATTRIBUTION_WINDOW_OPTIONS, DEFAULT_ATTRIBUTION_WINDOW_DAYS, isAttributionWindow } from "../lib/attribution";
+import { DIGEST_FREQUENCIES, isDigestFrequency } from "../lib/digests";
+import { getMailTransport } from "../lib/mailer.server";
+import { digestService } from "../services/digest.service.server";
 import { PlanCode, getPlanOptions, normalizePlanCode } from "../lib/plans.config";
 import type { WidgetSettings, ConversationUsage, SettingsLoaderData, ActionData } from "../lib/types";
 
@@ -47,8 +61,18 @@ const DEFAULT_SETTINGS = {
   interfaceLanguage: "en",
   plan: PlanCode.STARTER, // ✅ Use standardized plan code
   openaiApiKey: "",
+  llmProvider: "openai",
 };
 
+// Form values arrive as strings: treat "", "null" and "undefined" as unset
+function normalizeOptionalField(value: FormDataEntryValue | null): string | null {
+  if (typeof value !== "string") return null;
+  const trimmed = value.trim();
+  return trimmed === "" || trimmed === "null" || trimmed === "undefined" ? null : trimmed;
+}
+
+const digestEmailSchema = z.string().email().max(254);
+
 export const loader = async ({ request }: LoaderFunctionArgs) => {
   const { billing, session } = await authenticate.admin(request);
 
@@ -76,7 +100,7 @@ export const loader = async ({ request }: LoaderFunctionArgs) => {
     let decryptedSettings: WidgetSettings = { ...settings } as unknown as WidgetSettings;
     if (settings.openaiApiKey) {
       try {
-        decryptedSettings.openaiApiKey = decryptApiKey(settings.openaiApiKey);
+        decryptedSettings.openaiApiKey = await decryptShopSecret(session.shop, settings.openaiApiKey);
       } catch (error) {
         logger.error(error, "Failed to decrypt OpenAI API key");
         // If decryption fails, clear the key to avoid showing corrupted data
@@ -178,7 +202,9 @@ export const loader = async ({ request }: LoaderFunctionArgs) => {
       settings: decryptedSettings,
       conversationUsage,
       planLimits,
-      activePlan
+      activePlan,
+      appLLMProviders: LLM_PROVIDERS.filter(provider => !!getAppLLMConfig(provider)),
+      emailConfigured: !!getMailTransport()
     };
 
     return json(loaderData);
@@ -197,38 +223,103 @@ export const loader = async ({ request }: LoaderFunctionArgs) => {
 };
 
 export const action = async ({ request }: ActionFunctionArgs) => {
-  const { billing, session } = await authenticate.admin(request);
+  const { billing, session, sessionToken } = await authenticate.admin(request);
 
   await requireBilling(billing);
 
   const formData = await request.formData();
 
+  const digestFrequencyFromForm = formData.get("digestFrequency");
+  const digestFrequency = isDigestFrequency(digestFrequencyFromForm) ? digestFrequencyFromForm : "off";
+  const digestEmail = normalizeOptionalField(formData.get("digestEmail"));
+
+  if (digestEmail && !digestEmailSchema.safeParse(digestEmail).success) {
+    return json({
+      success: false,
+      message: "Please enter a valid email address for the analytics digest.",
+      settings: null
+    }, { status: 400 });
+  }
+
+  // Send a digest right away so merchants can check what they'll receive
+  if (formData.get("intent") === "sendTestDigest") {
+    if (!digestEmail) {
+      return json({
+        success: false,
+        message: "Enter the email address digests should be sent to first.",
+        settings: null
+      }, { status: 400 });
+    }
+
+    try {
+      await digestService.sendDigest(session.shop, digestFrequency === "monthly" ? "monthly" : "weekly", digestEmail);
+      return json({ success: true, message: `Test digest sent to ${digestEmail}.` });
+    } catch (error) {
+      logger.error(error, `Failed to send test digest for shop: ${session.shop}`);
+      return json({
+        success: false,
+        message: `Failed to send test digest: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        settings: null
+      }, { status: 500 });
+    }
+  }
+
   const webhookUrl = formData.get("webhookUrl") as string | null;
   // Normalize webhook URL - convert empty strings and "null" string to actual null
   const normalizedWebhookUrl = (webhookUrl && webhookUrl.trim() !== "" && webhookUrl !== "null" && webhookUrl !== "undefined")
     ? webhookUrl.trim()
     : null;
-  const workflowType = (formData.get("workflowType") as string) || "DEFAULT";
+  const workflowTypeFromForm = formData.get("workflowType") as string;
+  const workflowType = ["DEFAULT", "CUSTOM", "BUILTIN"].includes(workflowTypeFromForm)
+    ? workflowTypeFromForm
+    : "DEFAULT";
   const planFromForm = (formData.get("plan") as string) || PlanCode.STARTER;
   // ✅ Normalize plan code to handle legacy values
   const plan = normalizePlanCode(planFromForm);
+  // The BYOK key is stored in openaiApiKey whatever the provider
   const openaiApiKey = formData.get("openaiApiKey") as string | null;
-
-  // Validation: If plan is BYOK, openaiApiKey must be provided
+  const llmProviderFromForm = formData.get("llmProvider");
+  const llmProvider = isLLMProviderName(llmProviderFromForm) ? llmProviderFromForm : "openai";
+  const llmModel = normalizeOptionalField(formData.get("llmModel"))?.substring(0, 100) ?? null;
+  // Only BYOK shops bring their own endpoint; other plans use the app's credentials
+  const llmBaseUrl = plan === PlanCode.BYOK ? normalizeOptionalField(formData.get("llmBaseUrl")) : null;
+  const providerInfo = LLM_PROVIDER_INFO[llmProvider];
+  const attributionWindowFromForm = parseInt(String(formData.get("attributionWindowDays") || ""), 10);
+  const attributionWindowDays = isAttributionWindow(attributionWindowFromForm)
+    ? attributionWindowFromForm
+    : DEFAULT_ATTRIBUTION_WINDOW_DAYS;
+
+  // Validation: If plan is BYOK, the provider's API key (and endpoint) must be provided
   if (plan === PlanCode.BYOK) {
-    if (!openaiApiKey || openaiApiKey.trim() === "") {
+    if (providerInfo.requiresApiKey && (!openaiApiKey || openaiApiKey.trim() === "")) {
       return json({
         success: false,
-        message: "OpenAI API Key is required for the BYOK plan. Please enter your API key.",
+        message: `${providerInfo.label} API Key is required for the BYOK plan. Please enter your API key.`,
         settings: null
       }, { status: 400 });
     }
 
     // Validate API key format
-    if (!isValidOpenAIKey(openaiApiKey)) {
+    if (openaiApiKey && openaiApiKey.trim() !== "" && !isValidProviderKey(llmProvider, openaiApiKey)) {
+      return json({
+        success: false,
+        message: `Invalid ${providerInfo.label} API Key format. Please check the key and try again.`,
+        settings: null
+      }, { status: 400 });
+    }
+
+    if (providerInfo.requiresBaseUrl && !isValidProviderBaseUrl(llmBaseUrl)) {
+      return json({
+        success: false,
+        message: `${providerInfo.label} needs a public HTTPS endpoint URL.`,
+        settings: null
+      }, { status: 400 });
+    }
+
+    if (!llmModel && !providerInfo.defaultChatModel) {
       return json({
         success: false,
-        message: "Invalid OpenAI API Key format. The key should start with 'sk-' or 'sk-proj-' and be at least 20 characters long.",
+        message: `Please enter the ${providerInfo.label} model (deployment) name.`,
         settings: null
       }, { status: 400 });
     }
@@ -238,13 +329,13 @@ export const action = async ({ request }: ActionFunctionArgs) => {
   let encryptedApiKey: string | null = null;
   if (openaiApiKey && openaiApiKey.trim() !== "") {
     try {
-      encryptedApiKey = encryptApiKey(openaiApiKey.trim());
-      logger.info("OpenAI API key encrypted successfully");
+      encryptedApiKey = await encryptShopSecret(session.shop, openaiApiKey.trim());
+      logger.info({ provider: llmProvider }, "BYOK API key encrypted successfully");
     } catch (error) {
-      logger.error(error, "Failed to encrypt OpenAI API key");
+      logger.error(error, "Failed to encrypt BYOK API key");
       return json({
         success: false,
-        message: "Failed to encrypt API key. Please check your ENCRYPTION_KEY environment variable.",
+        message: "Failed to encrypt API key. Please check your ENCRYPTION_KEY / ENCRYPTION_KEYS environment variables.",
         settings: null
       }, { status: 500 });
     }
@@ -260,10 +351,16 @@ export const action = async ({ request }: ActionFunctionArgs) => {
     inputPlaceholder: formData.get("inputPlaceholder") as string,
     primaryColor: formData.get("primaryColor") as string,
     interfaceLanguage: formData.get("interfaceLanguage") as string,
-    workflowType: workflowType as "DEFAULT" | "CUSTOM",
+    workflowType: workflowType as "DEFAULT" | "CUSTOM" | "BUILTIN",
     webhookUrl: normalizedWebhookUrl,
     plan: plan,
     openaiApiKey: encryptedApiKey,
+    llmProvider,
+    llmModel,
+    llmBaseUrl,
+    attributionWindowDays,
+    digestFrequency,
+    digestEmail,
   };
 
   // Update apiKeyLastUpdated if API key was changed
@@ -276,6 +373,10 @@ export const action = async ({ request }: ActionFunctionArgs) => {
     logger.info(`Workflow type being saved: ${workflowType}`);
     logger.info(`Webhook URL being saved: ${normalizedWebhookUrl || '[CLEARED/DEFAULT]'}`);
 
+    const previous = await db.widgetSettings.findUnique({
+      where: { shop: session.shop }
+    });
+
     const settings = await db.widgetSettings.upsert({
       where: { shop: session.shop },
       update: settingsData,
@@ -286,9 +387,44 @@ export const action = async ({ request }: ActionFunctionArgs) => {
     });
 
     logger.info("Settings saved to database successfully");
+
+    // The API key is compared in plain text (ciphertexts differ on every save) and logged masked
+    let previousApiKey: string | null = previous?.openaiApiKey ?? null;
+    if (previousApiKey) {
+      previousApiKey = await decryptShopSecret(session.shop, previousApiKey).catch(() => previousApiKey);
+    }
+    const { apiKeyLastUpdated: _apiKeyLastUpdated, ...auditedFields } = settingsData;
+    const changes = diffChanges(
+      previous ? { ...previous, openaiApiKey: previousApiKey } : null,
+      { ...auditedFields, openaiApiKey: openaiApiKey?.trim() || null },
+      ["openaiApiKey"]
+    );
+    if (Object.keys(changes).length > 0) {
+      await recordAuditEvent({
+        shop: session.shop,
+        actor: merchantActor({ sessionToken }),
+        action: "settings.updated",
+        targetType: "WidgetSettings",
+        targetId: settings.id,
+        changes,
+        request,
+      });
+    }
     logger.info(`Final workflowType in database: ${settings.workflowType}`);
     logger.info(`Final webhookUrl in database: ${settings.webhookUrl || '[NULL/DEFAULT]'}`);
 
+    // Start (or keep) the digest chain; the job itself checks the saved frequency
+    if (digestEmail) {
+      try {
+        await digestService.scheduleDigest(session.shop, digestFrequency);
+      } catch (error) {
+        logger.warn({
+          error: error instanceof Error ? error.message : String(error),
+          shop: session.shop
+        }, 'Failed to schedule analytics digest (non-blocking)');
+      }
+    }
+
     return json({
       success: true,
       message: "Settings saved successfully!",
@@ -310,7 +446,7 @@ export const action = async ({ request }: ActionFunctionArgs) => {
 };
 
 export default function SettingsPage() {
-  const { settings: initialSettings, conversationUsage, planLimits, activePlan } = useLoaderData<SettingsLoaderData>();
+  const { settings: initialSettings, conversationUsage, planLimits, activePlan, appLLMProviders, emailConfigured } = useLoaderData<SettingsLoaderData>();
   const actionData = useActionData<ActionData>();
   const submit = useSubmit();
   const navigate = useNavigate();
@@ -382,22 +518,40 @@ export default function SettingsPage() {
                            webhookUrl.startsWith('https://') &&
                            webhookUrl.length > 8;
 
-    const workflowType = isValidCustomUrl ? "CUSTOM" : "DEFAULT";
+    const workflowType = settings.workflowType === "BUILTIN"
+      ? "BUILTIN"
+      : isValidCustomUrl ? "CUSTOM" : "DEFAULT";
 
     Object.entries(settings).forEach(([key, value]) => {
       formData.append(key, String(value));
     });
 
-    // ✅ ADDED: Append workflowType
-    formData.append("workflowType", workflowType);
+    // ✅ ADDED: Set workflowType (replaces the stored value appended above)
+    formData.set("workflowType", workflowType);
 
     submit(formData, { method: "post" });
     setIsSaving(false);
   }, [settings, submit]);
 
+  const handleSendTestDigest = useCallback(() => {
+    const formData = new FormData();
+    formData.append("intent", "sendTestDigest");
+    formData.append("digestFrequency", settings.digestFrequency || "off");
+    formData.append("digestEmail", settings.digestEmail || "");
+    submit(formData, { method: "post" });
+  }, [settings.digestFrequency, settings.digestEmail, submit]);
+
+  const llmProvider = settings.llmProvider || "openai";
+  const llmProviderInfo = LLM_PROVIDER_INFO[llmProvider];
+  const llmProviderOptions = LLM_PROVIDERS.map(provider => ({
+    label: LLM_PROVIDER_INFO[provider].label,
+    value: provider
+  }));
+
   const handleTestConnection = useCallback(async () => {
     const apiKey = settings.openaiApiKey;
-    if (!apiKey || apiKey.trim() === "") {
+    const providerInfo = LLM_PROVIDER_INFO[settings.llmProvider || "openai"];
+    if (providerInfo.requiresApiKey && (!apiKey || apiKey.trim() === "")) {
       setKeyTestResult({
         valid: false,
         message: "Please enter an API key first"
@@ -416,7 +570,9 @@ export default function SettingsPage() {
         },
         body: JSON.stringify({
           shop: settings.shop,
-          apiKey: apiKey
+          apiKey: apiKey || "",
+          provider: settings.llmProvider || "openai",
+          baseUrl: settings.llmBaseUrl || ""
         })
       });
 
@@ -600,6 +756,76 @@ export default function SettingsPage() {
           </Card>
         </Layout.Section>
 
+        {/* Conversion Tracking */}
+        <Layout.Section>
+          <Card>
+            <BlockStack gap="300">
+              <Text variant="headingMd" as="h2">
+                {t("settings.attribution.title")}
+              </Text>
+              <Text variant="bodyMd" as="p" tone="subdued">
+                {t("settings.attribution.subtitle")}
+              </Text>
+              <Select
+                label={t("settings.attribution.window")}
+                options={ATTRIBUTION_WINDOW_OPTIONS.map((days) => ({
+                  label: t("settings.attribution.days", { count: days }),
+                  value: String(days),
+                }))}
+                value={String(settings.attributionWindowDays ?? DEFAULT_ATTRIBUTION_WINDOW_DAYS)}
+                onChange={(value) => setSettings((prev: any) => ({ ...prev, attributionWindowDays: parseInt(value, 10) }))}
+                helpText={t("settings.attribution.windowHelp")}
+              />
+            </BlockStack>
+          </Card>
+        </Layout.Section>
+
+        {/* Analytics Email Digest */}
+        <Layout.Section>
+          <Card>
+            <BlockStack gap="300">
+              <Text variant="headingMd" as="h2">
+                {t("settings.digest.title")}
+              </Text>
+              <Text variant="bodyMd" as="p" tone="subdued">
+                {t("settings.digest.subtitle")}
+              </Text>
+              {!emailConfigured && (
+                <Banner tone="warning">
+                  <p>{t("settings.digest.notConfigured")}</p>
+                </Banner>
+              )}
+              <Select
+                label={t("settings.digest.frequency")}
+                options={DIGEST_FREQUENCIES.map((frequency) => ({
+                  label: t(`settings.digest.frequencies.${frequency}`),
+                  value: frequency,
+                }))}
+                value={settings.digestFrequency || "off"}
+                onChange={(value) => setSettings((prev: any) => ({ ...prev, digestFrequency: value }))}
+              />
+              <TextField
+                label={t("settings.digest.email")}
+                type="email"
+                value={settings.digestEmail || ""}
+                onChange={(value) => setSettings((prev: any) => ({ ...prev, digestEmail: value }))}
+                autoComplete="email"
+                helpText={settings.digestLastSentAt
+                  ? t("settings.digest.lastSent", { date: new Date(settings.digestLastSentAt).toLocaleString() })
+                  : t("settings.digest.emailHelp")}
+              />
+              <InlineStack>
+                <Button
+                  onClick={handleSendTestDigest}
+                  disabled={!emailConfigured || !settings.digestEmail}
+                >
+                  {t("settings.digest.sendTest")}
+                </Button>
+              </InlineStack>
+            </BlockStack>
+          </Card>
+        </Layout.Section>
+
         {/* Pricing Plan Settings */}
         <Layout.Section>
           <Card>
@@ -643,38 +869,77 @@ export default function SettingsPage() {
                         <Text variant="bodySm" as="p" tone="subdued">
                           {t("settings.byokInfoDesc")}
                         </Text>
-                        <Button
-                          variant="plain"
-                          url="https://platform.openai.com/api-keys"
-                          external
-                        >
-                          {t("settings.getApiKeyLink")} →
-                        </Button>
+                        {llmProviderInfo.keyUrl && (
+                          <Button
+                            variant="plain"
+                            url={llmProviderInfo.keyUrl}
+                            external
+                          >
+                            {t("settings.getProviderApiKeyLink", { provider: llmProviderInfo.label })}
+                          </Button>
+                        )}
                       </BlockStack>
                     </Box>
 
+                    <Select
+                      label={t("settings.llmProvider")}
+                      value={llmProvider}
+                      options={llmProviderOptions}
+                      onChange={(value) => {
+                        setSettings((prev: any) => ({ ...prev, llmProvider: value, llmModel: "", llmBaseUrl: "" }));
+                        setKeyTestResult(null);
+                      }}
+                      helpText={t("settings.llmProviderHelp")}
+                    />
+
+                    {llmProviderInfo.requiresBaseUrl && (
+                      <TextField
+                        label={t("settings.llmBaseUrl")}
+                        value={settings.llmBaseUrl || ""}
+                        onChange={(value) => {
+                          setSettings((prev: any) => ({ ...prev, llmBaseUrl: value }));
+                          setKeyTestResult(null);
+                        }}
+                        placeholder={llmProvider === "azure"
+                          ? "https://my-resource.openai.azure.com"
+                          : "https://llm.example.com/v1"}
+                        helpText={t("settings.llmBaseUrlHelp")}
+                        autoComplete="off"
+                        type="url"
+                      />
+                    )}
+
                     <TextField
-                      label={t("settings.openaiApiKey")}
+                      label={t("settings.providerApiKey", { provider: llmProviderInfo.label })}
                       value={settings.openaiApiKey || ""}
                       onChange={(value) => {
                         setSettings((prev: any) => ({ ...prev, openaiApiKey: value }));
                         setKeyTestResult(null); // Clear test result when key changes
                       }}
                       type="password"
-                      placeholder={t("settings.openaiApiKeyPlaceholder")}
-                      helpText={t("settings.openaiApiKeyHelp")}
+                      placeholder={llmProviderInfo.keyPlaceholder}
+                      helpText={t("settings.providerApiKeyHelp")}
                       autoComplete="off"
                       connectedRight={
                         <Button
                           onClick={handleTestConnection}
                           loading={isTestingKey}
-                          disabled={!settings.openaiApiKey || settings.openaiApiKey.trim() === ""}
+                          disabled={llmProviderInfo.requiresApiKey && (!settings.openaiApiKey || settings.openaiApiKey.trim() === "")}
                         >
                           {t("settings.testConnection")}
                         </Button>
                       }
                     />
 
+                    <TextField
+                      label={t("settings.llmModel")}
+                      value={settings.llmModel || ""}
+                      onChange={(value) => setSettings((prev: any) => ({ ...prev, llmModel: value }))}
+                      placeholder={llmProviderInfo.defaultChatModel}
+                      helpText={llmProvider === "azure" ? t("settings.llmDeploymentHelp") : t("settings.llmModelHelp")}
+                      autoComplete="off"
+                    />
+
                     {keyTestResult && (
                       <Box
                         padding="300"
@@ -941,6 +1206,7 @@ export default function SettingsPage() {
                 <Select
                   label={t("settings.workflowType")}
                   value={(() => {
+                    if (settings.workflowType === "BUILTIN") return "builtin";
                     const url = settings.webhookUrl;
                     const isValidCustomUrl = url &&
                                            typeof url === 'string' &&
@@ -954,49 +1220,82 @@ export default function SettingsPage() {
                   })()}
                   options={[
                     { label: t("settings.defaultWorkflow"), value: "default" },
-                    { label: t("settings.customWorkflow"), value: "custom" }
+                    { label: t("settings.customWorkflow"), value: "custom" },
+                    { label: t("settings.builtinWorkflow"), value: "builtin" }
                   ]}
                   onChange={(value) => {
                     if (value === "default") {
-                      setSettings((prev: any) => ({ ...prev, webhookUrl: "" }));
+                      setSettings((prev: any) => ({ ...prev, workflowType: "DEFAULT", webhookUrl: "" }));
+                    } else if (value === "builtin") {
+                      setSettings((prev: any) => ({ ...prev, workflowType: "BUILTIN", webhookUrl: "" }));
                     } else {
                       setSettings((prev: any) => {
                         const currentUrl = prev.webhookUrl || "";
-                        return { ...prev, webhookUrl: currentUrl || "https://" };
+                        return { ...prev, workflowType: "CUSTOM", webhookUrl: currentUrl || "https://" };
                       });
                     }
                   }}
-                  helpText={t("settings.workflowTypeHelp")}
+                  helpText={settings.workflowType === "BUILTIN"
+                    ? t("settings.builtinWorkflowHelp")
+                    : t("settings.workflowTypeHelp")}
                 />
 
-                <TextField
-                  label={t("settings.customWebhookUrl")}
-                  value={settings.webhookUrl || ""}
-                  onChange={(value) =>
-                    setSettings((prev: any) => ({ ...prev, webhookUrl: value }))
-                  }
-                  placeholder={t("settings.webhookPlaceholder")}
-                  helpText={(() => {
-                    const url = settings.webhookUrl;
-                    const isValidCustomUrl = url &&
-                                           typeof url === 'string' &&
-                                           url.trim() !== '' &&
-                                           url !== 'https://' &&
-                                           url !== 'null' &&
-                                           url !== 'undefined' &&
-                                           url.startsWith('https://') &&
-                                           url.length > 8;
-                    if (isValidCustomUrl) {
-                      return t("settings.webhookValidHelp");
-                    } else if (url && url.length > 0) {
-                      return t("settings.webhookInvalidHelp");
-                    } else {
-                      return t("settings.webhookEmptyHelp");
+                {/* BYOK shops pick their provider next to their key */}
+                {settings.workflowType === "BUILTIN" && settings.plan !== PlanCode.BYOK && (
+                  <InlineStack gap="400" wrap={false}>
+                    <Box width="50%">
+                      <Select
+                        label={t("settings.llmProvider")}
+                        value={llmProvider}
+                        options={llmProviderOptions.filter(option => !appLLMProviders || appLLMProviders.includes(option.value))}
+                        onChange={(value) =>
+                          setSettings((prev: any) => ({ ...prev, llmProvider: value, llmModel: "" }))
+                        }
+                      />
+                    </Box>
+                    <Box width="50%">
+                      <TextField
+                        label={t("settings.llmModel")}
+                        value={settings.llmModel || ""}
+                        onChange={(value) => setSettings((prev: any) => ({ ...prev, llmModel: value }))}
+                        placeholder={llmProviderInfo.defaultChatModel}
+                        helpText={t("settings.llmModelHelp")}
+                        autoComplete="off"
+                      />
+                    </Box>
+                  </InlineStack>
+                )}
+
+                {settings.workflowType !== "BUILTIN" && (
+                  <TextField
+                    label={t("settings.customWebhookUrl")}
+                    value={settings.webhookUrl || ""}
+                    onChange={(value) =>
+                      setSettings((prev: any) => ({ ...prev, webhookUrl: value }))
                     }
-                  })()}
-                  autoComplete="off"
-                  type="url"
-                />
+                    placeholder={t("settings.webhookPlaceholder")}
+                    helpText={(() => {
+                      const url = settings.webhookUrl;
+                      const isValidCustomUrl = url &&
+                                             typeof url === 'string' &&
+                                             url.trim() !== '' &&
+                                             url !== 'https://' &&
+                                             url !== 'null' &&
+                                             url !== 'undefined' &&
+                                             url.startsWith('https://') &&
+                                             url.length > 8;
+                      if (isValidCustomUrl) {
+                        return t("settings.webhookValidHelp");
+                      } else if (url && url.length > 0) {
+                        return t("settings.webhookInvalidHelp");
+                      } else {
+                        return t("settings.webhookEmptyHelp");
+                      }
+                    })()}
+                    autoComplete="off"
+                    type="url"
+                  />
+                )}
 
                 <Divider />
 
@@ -0,0 +1,277 @@
+/**
+ * Transcript Route
+ *
+ * One conversation as the customer saw it: every message with its intent, sentiment and
+ * confidence, and for assistant turns the product cards and metadata (response type,
+ * response time, tool calls, order) the turn returned. The product a customer clicked
+ * is highlighted.
+ *
+ * Access: /app/transcripts/:id
+ */
+
+import type { LoaderFunctionArgs } from "@remix-run/node";
+import { json } from "@remix-run/node";
+import { useLoaderData, useNavigate } from "@remix-run/react";
+import {
+  Page,
+  Layout,
+  Card,
+  BlockStack,
+  InlineStack,
+  InlineGrid,
+  Box,
+  Text,
+  Badge,
+  Thumbnail,
+} from "@shopify/polaris";
+import { ImageIcon } from "@shopify/polaris-icons";
+import { useTranslation } from "react-i18next";
+import { authenticate } from "../shopify.server";
+import { requireBilling } from "../lib/billing.server";
+import { transcriptService, type TranscriptProduct } from "../services/transcript.service.server";
+
+export const handle = {
+  i18n: "common",
+};
+
+interface MessageView {
+  id: string;
+  role: string;
+  content: string;
+  timestamp: string;
+  intent: string | null;
+  sentiment: string | null;
+  confidence: number | null;
+  productsShown: string[];
+  productClicked: string | null;
+  messageType: string | null;
+  responseTime: number | null;
+  toolCalls: string[];
+  orderName: string | null;
+}
+
+export const loader = async ({ request, params }: LoaderFunctionArgs) => {
+  const { admin, billing, session } = await authenticate.admin(request);
+  await requireBilling(billing);
+
+  const transcript = await transcriptService.getTranscript(session.shop, params.id || "");
+  if (!transcript) {
+    throw new Response("Conversation not found", { status: 404 });
+  }
+
+  const products = await transcriptService.getProductCards(
+    admin,
+    transcript.messages.flatMap((message) => message.productsShown)
+  );
+
+  return json({
+    session: {
+      id: transcript.id,
+      createdAt: new Date(transcript.createdAt).toISOString(),
+      status: transcript.status,
+      escalatedAt: transcript.escalatedAt ? new Date(transcript.escalatedAt).toISOString() : null,
+      rating: transcript.rating,
+      ratingComment: transcript.ratingComment,
+      language: transcript.language,
+      orders: transcript.orders.map((order) => ({
+        orderName: order.orderName,
+        total: `${order.totalPrice.toFixed(2)} ${order.currency}`,
+        orderCreatedAt: new Date(order.orderCreatedAt).toISOString(),
+      })),
+    },
+    messages: transcript.messages.map((message): MessageView => {
+      const { metadata } = message;
+      return {
+        id: message.id,
+        role: message.role,
+        content: message.content,
+        timestamp: new Date(message.timestamp).toISOString(),
+        intent: message.intent,
+        sentiment: message.sentiment,
+        confidence: message.confidence,
+        productsShown: message.productsShown,
+        productClicked: message.productClicked,
+        messageType: typeof metadata.messageType === "string" ? metadata.messageType : null,
+        responseTime: typeof metadata.responseTime === "number" ? metadata.responseTime : null,
+        toolCalls: Array.isArray(metadata.toolCalls)
+          ? metadata.toolCalls.map((call: any) => String(call?.name ?? call))
+          : [],
+        orderName: typeof metadata.orderName === "string" ? metadata.orderName : null,
+      };
+    }),
+    products: Object.fromEntries(products.map((product) => [product.id, product])) as Record<string, TranscriptProduct>,
+  });
+};
+
+function sentimentTone(sentiment: string | null): "success" | "critical" | undefined {
+  if (sentiment === "positive") return "success";
+  if (sentiment === "negative") return "critical";
+  return undefined;
+}
+
+export default function TranscriptPage() {
+  const { session, messages, products } = useLoaderData<typeof loader>();
+  const navigate = useNavigate();
+  const { t } = useTranslation();
+
+  const roleLabel = (role: string) => {
+    if (role === "user") return t("inbox.customer");
+    if (role === "agent") return t("inbox.you");
+    return t("inbox.assistant");
+  };
+
+  return (
+    <Page
+      title={t("transcripts.transcriptTitle")}
+      subtitle={new Date(session.createdAt).toLocaleString()}
+      backAction={{ content: t("transcripts.title"), onAction: () => navigate(-1) }}
+    >
+      <Layout>
+        <Layout.Section>
+          <Card>
+            <BlockStack gap="300">
+              {messages.length === 0 && (
+                <Text as="p" tone="subdued">
+                  {t("transcripts.noMessages")}
+                </Text>
+              )}
+              {messages.map((message: MessageView) => (
+                <Box
+                  key={message.id}
+                  padding="300"
+                  borderRadius="200"
+                  background={message.role === "user" ? "bg-surface-secondary" : message.role === "agent" ? "bg-surface-info" : "bg-surface"}
+                >
+                  <BlockStack gap="200">
+                    <InlineStack gap="200" blockAlign="center">
+                      <Text as="span" variant="bodySm" fontWeight="semibold">
+                        {roleLabel(message.role)}
+                      </Text>
+                      <Text as="span" variant="bodySm" tone="subdued">
+                        {new Date(message.timestamp).toLocaleString()}
+                      </Text>
+                      {message.intent && <Badge>{message.intent}</Badge>}
+                      {message.sentiment && (
+                        <Badge tone={sentimentTone(message.sentiment)}>
+                          {t(`transcripts.sentimentOptions.${message.sentiment}`)}
+                        </Badge>
+                      )}
+                      {message.confidence !== null && (
+                        <Text as="span" variant="bodySm" tone="subdued">
+                          {t("transcripts.confidence", { value: Math.round(message.confidence * 100) })}
+                        </Text>
+                      )}
+                    </InlineStack>
+
+                    <Text as="p" variant="bodyMd">
+                      {message.content}
+                    </Text>
+
+                    {message.productsShown.length > 0 && (
+                      <InlineGrid columns={{ xs: 1, sm: 2, md: 3 }} gap="200">
+                        {message.productsShown.map((productId) => {
+                          const product = products[productId];
+                          const clicked = message.productClicked === productId;
+                          return (
+                            <Box
+                              key={productId}
+                              padding="200"
+                              borderRadius="200"
+                              borderWidth={clicked ? "050" : "025"}
+                              borderColor={clicked ? "border-success" : "border"}
+                            >
+                              <InlineStack gap="200" blockAlign="center" wrap={false}>
+                                <Thumbnail source={product?.image || ImageIcon} alt={product?.title || ""} size="small" />
+                                <BlockStack gap="050">
+                                  <Text as="span" variant="bodySm" fontWeight="semibold">
+                                    {product?.title || t("transcripts.productUnavailable")}
+                                  </Text>
+                                  {product?.price && (
+                                    <Text as="span" variant="bodySm" tone="subdued">
+                                      {product.price}
+                                    </Text>
+                                  )}
+                                  {clicked && <Badge tone="success">{t("transcripts.clicked")}</Badge>}
+                                </BlockStack>
+                              </InlineStack>
+                            </Box>
+                          );
+                        })}
+                      </InlineGrid>
+                    )}
+
+                    {message.role === "assistant" && (message.messageType || message.responseTime !== null || message.toolCalls.length > 0 || message.orderName) && (
+                      <InlineStack gap="300">
+                        {message.messageType && (
+                          <Text as="span" variant="bodySm" tone="subdued">
+                            {t("transcripts.messageType", { value: message.messageType })}
+                          </Text>
+                        )}
+                        {message.responseTime !== null && (
+                          <Text as="span" variant="bodySm" tone="subdued">
+                            {t("transcripts.responseTime", { value: message.responseTime })}
+                          </Text>
+                        )}
+                        {message.toolCalls.length > 0 && (
+                          <Text as="span" variant="bodySm" tone="subdued">
+                            {t("transcripts.toolCalls", { value: message.toolCalls.join(", ") })}
+                          </Text>
+                        )}
+                        {message.orderName && (
+                          <Text as="span" variant="bodySm" tone="subdued">
+                            {t("transcripts.order", { value: message.orderName })}
+                          </Text>
+                        )}
+                      </InlineStack>
+                    )}
+                  </BlockStack>
+                </Box>
+              ))}
+            </BlockStack>
+          </Card>
+        </Layout.Section>
+
+        <Layout.Section variant="oneThird">
+          <Card>
+            <BlockStack gap="200">
+              <Text as="h2" variant="headingMd">
+                {t("transcripts.details")}
+              </Text>
+              <InlineStack gap="200">
+                <Badge>{t(`inbox.status.${session.status}`)}</Badge>
+                {session.language && <Badge>{session.language.toUpperCase()}</Badge>}
+                {session.escalatedAt && <Badge tone="attention">{t("transcripts.escalatedBadge")}</Badge>}
+              </InlineStack>
+              <Text as="p" variant="bodySm">
+                {session.rating !== null
+                  ? `${t("transcripts.rating")}: ${"★".repeat(session.rating)}`
+                  : t("transcripts.ratingOptions.unrated")}
+              </Text>
+              {session.ratingComment && (
+                <Text as="p" variant="bodySm" tone="subdued">
+                  “{session.ratingComment}”
+                </Text>
+              )}
+              {session.escalatedAt && (
+                <Text as="p" variant="bodySm" tone="subdued">
+                  {t("transcripts.escalatedAt", { date: new Date(session.escalatedAt).toLocaleString() })}
+                </Text>
+              )}
+              {session.orders.map((order) => (
+                <InlineStack key={order.orderCreatedAt} gap="200" blockAlign="center">
+                  <Badge tone="success">{t("transcripts.order", { value: order.orderName || "" })}</Badge>
+                  <Text as="span" variant="bodySm">
+                    {order.total}
+                  </Text>
+                  <Text as="span" variant="bodySm" tone="subdued">
+                    {new Date(order.orderCreatedAt).toLocaleString()}
+                  </Text>
+                </InlineStack>
+              ))}
+            </BlockStack>
+          </Card>
+        </Layout.Section>
+      </Layout>
+    </Page>
+  );
+}
@@ -0,0 +1,243 @@
+/**
+ * Transcripts Route
+ *
+ * Every stored conversation, filterable by date, rating, sentiment, intent, escalation,
+ * conversion and language, with full-text search over the messages. Opening a
+ * conversation shows the full transcript (app.transcripts.$id).
+ *
+ * Access: /app/transcripts
+ */
+
+import { useState } from "react";
+import type { LoaderFunctionArgs } from "@remix-run/node";
+import { json } from "@remix-run/node";
+import { useLoaderData, useNavigate, useNavigation, useSearchParams } from "@remix-run/react";
+import {
+  Page,
+  Layout,
+  Card,
+  TextField,
+  Select,
+  BlockStack,
+  InlineStack,
+  InlineGrid,
+  Text,
+  Button,
+  Badge,
+  Divider,
+  Pagination,
+} from "@shopify/polaris";
+import { useTranslation } from "react-i18next";
+import { authenticate } from "../shopify.server";
+import { requireBilling } from "../lib/billing.server";
+import { INTENT_TYPES } from "../lib/intents";
+import {
+  transcriptService,
+  parseTranscriptFilters,
+  TRANSCRIPTS_PAGE_SIZE,
+} from "../services/transcript.service.server";
+
+export const handle = {
+  i18n: "common",
+};
+
+// Languages the widget is translated into
+const LANGUAGES = ["en", "fr", "es", "de", "pt", "it", "zh", "ja"];
+
+const FILTER_KEYS = ["from", "to", "q", "rating", "sentiment", "intent", "escalated", "converted", "language"] as const;
+
+type FilterKey = (typeof FILTER_KEYS)[number];
+
+interface SessionRow {
+  id: string;
+  createdAt: string;
+  lastMessageAt: string;
+  messageCount: number;
+  preview: string;
+  language: string | null;
+  rating: number | null;
+  status: string;
+  escalated: boolean;
+  converted: boolean;
+}
+
+export const loader = async ({ request }: LoaderFunctionArgs) => {
+  const { billing, session } = await authenticate.admin(request);
+  await requireBilling(billing);
+
+  const url = new URL(request.url);
+  const filters = parseTranscriptFilters(url.searchParams);
+  const page = Math.max(1, parseInt(url.searchParams.get("page") || "1", 10) || 1);
+
+  const { sessions, total } = await transcriptService.listSessions(session.shop, filters, page);
+
+  return json({
+    page,
+    total,
+    pageCount: Math.max(1, Math.ceil(total / TRANSCRIPTS_PAGE_SIZE)),
+    sessions: sessions.map((row): SessionRow => ({
+      ...row,
+      createdAt: new Date(row.createdAt).toISOString(),
+      lastMessageAt: new Date(row.lastMessageAt).toISOString(),
+    })),
+  });
+};
+
+export default function TranscriptsPage() {
+  const { page, total, pageCount, sessions } = useLoaderData<typeof loader>();
+  const navigation = useNavigation();
+  const navigate = useNavigate();
+  const [searchParams, setSearchParams] = useSearchParams();
+  const { t } = useTranslation();
+
+  const [filters, setFilters] = useState<Record<FilterKey, string>>(() =>
+    Object.fromEntries(FILTER_KEYS.map((key) => [key, searchParams.get(key) || ""])) as Record<FilterKey, string>
+  );
+
+  const setFilter = (key: FilterKey) => (value: string) => {
+    setFilters((current) => ({ ...current, [key]: value }));
+  };
+
+  const applyFilters = () => {
+    const params = new URLSearchParams();
+    for (const key of FILTER_KEYS) {
+      if (filters[key]) params.set(key, filters[key]);
+    }
+    setSearchParams(params);
+  };
+
+  const clearFilters = () => {
+    setFilters(Object.fromEntries(FILTER_KEYS.map((key) => [key, ""])) as Record<FilterKey, string>);
+    setSearchParams(new URLSearchParams());
+  };
+
+  const goToPage = (target: number) => {
+    const params = new URLSearchParams(searchParams);
+    params.set("page", String(target));
+    setSearchParams(params);
+  };
+
+  const anyOption = { label: t("transcripts.any"), value: "" };
+  const yesNoOptions = [
+    anyOption,
+    { label: t("transcripts.yes"), value: "yes" },
+    { label: t("transcripts.no"), value: "no" },
+  ];
+
+  return (
+    <Page title={t("transcripts.title")} subtitle={t("transcripts.subtitle")}>
+      <Layout>
+        <Layout.Section>
+          <Card>
+            <BlockStack gap="400">
+              <TextField
+                label={t("transcripts.search")}
+                value={filters.q}
+                onChange={setFilter("q")}
+                placeholder={t("transcripts.searchPlaceholder")}
+                autoComplete="off"
+                clearButton
+                onClearButtonClick={() => setFilter("q")("")}
+              />
+              <InlineGrid columns={{ xs: 1, sm: 2, md: 4 }} gap="300">
+                <TextField label={t("transcripts.from")} type="date" value={filters.from} onChange={setFilter("from")} autoComplete="off" />
+                <TextField label={t("transcripts.to")} type="date" value={filters.to} onChange={setFilter("to")} autoComplete="off" />
+                <Select
+                  label={t("transcripts.rating")}
+                  value={filters.rating}
+                  onChange={setFilter("rating")}
+                  options={[
+                    anyOption,
+                    { label: t("transcripts.ratingOptions.rated"), value: "rated" },
+                    { label: t("transcripts.ratingOptions.unrated"), value: "unrated" },
+                    { label: t("transcripts.ratingOptions.low"), value: "low" },
+                    { label: t("transcripts.ratingOptions.high"), value: "high" },
+                    ...["1", "2", "3", "4", "5"].map((stars) => ({ label: "★".repeat(Number(stars)), value: stars })),
+                  ]}
+                />
+                <Select
+                  label={t("transcripts.sentiment")}
+                  value={filters.sentiment}
+                  onChange={setFilter("sentiment")}
+                  options={[
+                    anyOption,
+                    ...["positive", "neutral", "negative"].map((value) => ({ label: t(`transcripts.sentimentOptions.${value}`), value })),
+                  ]}
+                />
+                <Select
+                  label={t("transcripts.intent")}
+                  value={filters.intent}
+                  onChange={setFilter("intent")}
+                  options={[anyOption, ...INTENT_TYPES.map((intent) => ({ label: intent, value: intent }))]}
+                />
+                <Select label={t("transcripts.escalated")} value={filters.escalated} onChange={setFilter("escalated")} options={yesNoOptions} />
+                <Select label={t("transcripts.converted")} value={filters.converted} onChange={setFilter("converted")} options={yesNoOptions} />
+                <Select
+                  label={t("transcripts.language")}
+                  value={filters.language}
+                  onChange={setFilter("language")}
+                  options={[anyOption, ...LANGUAGES.map((language) => ({ label: language.toUpperCase(), value: language }))]}
+                />
+              </InlineGrid>
+              <InlineStack gap="200" align="end">
+                <Button onClick={clearFilters}>{t("transcripts.clear")}</Button>
+                <Button variant="primary" onClick={applyFilters} loading={navigation.state === "loading"}>
+                  {t("transcripts.apply")}
+                </Button>
+              </InlineStack>
+            </BlockStack>
+          </Card>
+        </Layout.Section>
+
+        <Layout.Section>
+          <Card>
+            <BlockStack gap="300">
+              <Text as="p" variant="bodySm" tone="subdued">
+                {t("transcripts.count", { count: total })}
+              </Text>
+              {sessions.length === 0 ? (
+                <Text as="p" tone="subdued">
+                  {t("transcripts.empty")}
+                </Text>
+              ) : (
+                sessions.map((row: SessionRow, index: number) => (
+                  <BlockStack gap="200" key={row.id}>
+                    <Button variant="tertiary" textAlign="start" fullWidth onClick={() => navigate(`/app/transcripts/${row.id}`)}>
+                      {row.preview || t("transcripts.noMessages")}
+                    </Button>
+                    <InlineStack gap="200" blockAlign="center">
+                      <Text as="span" variant="bodySm" tone="subdued">
+                        {new Date(row.lastMessageAt).toLocaleString()}
+                      </Text>
+                      <Badge>{t("transcripts.messages", { count: row.messageCount })}</Badge>
+                      {row.language && <Badge>{row.language.toUpperCase()}</Badge>}
+                      {row.rating !== null && (
+                        <Badge tone={row.rating >= 4 ? "success" : row.rating <= 2 ? "critical" : undefined}>
+                          {"★".repeat(row.rating)}
+                        </Badge>
+                      )}
+                      {row.escalated && <Badge tone="attention">{t("transcripts.escalatedBadge")}</Badge>}
+                      {row.converted && <Badge tone="success">{t("transcripts.convertedBadge")}</Badge>}
+                    </InlineStack>
+                    {index < sessions.length - 1 && <Divider />}
+                  </BlockStack>
+                ))
+              )}
+              {pageCount > 1 && (
+                <InlineStack align="center">
+                  <Pagination
+                    hasPrevious={page > 1}
+                    onPrevious={() => goToPage(page - 1)}
+                    hasNext={page < pageCount}
+                    onNext={() => goToPage(page + 1)}
+                    label={t("transcripts.page", { page, pageCount })}
+                  />
+                </InlineStack>
+              )}
+            </BlockStack>
+          </Card>
+        </Layout.Section>
+      </Layout>
+    </Page>
+  );
+}
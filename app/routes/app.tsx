@@ -9,6 +9,8 @@ import { useEffect, useState } from "react";
 import { useTranslation, I18nextProvider } from "react-i18next";
 import { authenticate } from "../shopify.server";
 import { getLocaleFromRequest } from "../i18n/i18next.server";
+import { logError } from "../lib/logger.server";
+import { customerIdentityService } from "../services/customer-identity.service.server";
 import { boundary } from "@shopify/shopify-app-remix/server";
 import i18nClient from "../i18n/i18next.client";
 import { loadPolarisTranslations } from "../lib/polaris-i18n";
@@ -17,9 +19,13 @@ import type { SupportedLocale } from "../i18n/resources";
 export const links = () => [{ rel: "stylesheet", href: polarisStyles }];
 
 export const loader = async ({ request }: LoaderFunctionArgs) => {
-  await authenticate.admin(request);
+  const { admin, session } = await authenticate.admin(request);
   const locale = await getLocaleFromRequest(request);
 
+  customerIdentityService.ensureSecret(session.shop, admin).catch((error) => {
+    logError(error, "Failed to provision customer token secret", { shop: session.shop });
+  });
+
   return json({
     apiKey: process.env.SHOPIFY_API_KEY || "",
     locale,
@@ -65,6 +71,14 @@ export default function App() {
           <Link to="/app">{t("nav.home")}</Link>
           <Link to="/app/settings">{t("nav.settings")}</Link>
           <Link to="/app/analytics">{t("nav.analytics")}</Link>
+          <Link to="/app/inbox">{t("nav.inbox")}</Link>
+          <Link to="/app/transcripts">{t("nav.transcripts")}</Link>
+          <Link to="/app/knowledge-gaps">{t("nav.knowledgeGaps")}</Link>
+          <Link to="/app/knowledge-base">{t("nav.knowledgeBase")}</Link>
+          <Link to="/app/intent-rules">{t("nav.intentRules")}</Link>
+          <Link to="/app/data-requests">{t("nav.dataRequests")}</Link>
+          <Link to="/app/data-retention">{t("nav.dataRetention")}</Link>
+          <Link to="/app/audit-log">{t("nav.auditLog")}</Link>
         </NavMenu>
         <Box paddingInlineStart="400" paddingInlineEnd="400" paddingBlockStart="400">
           <Outlet />
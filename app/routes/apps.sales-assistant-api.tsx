@@ -2,12 +2,15 @@ import type { ActionFunctionArgs, LoaderFunctionArgs } from "@remix-run/node";
 import { json } from "@remix-run/node";
 import { authenticate, unauthenticated, sessionStorage } from "../shopify.server";
 import { personalizationService } from "../services/personalization.service";
+import { customerIdentityService } from "../services/customer-identity.service.server";
+import { enqueueJobSafe } from "../lib/job-queue.server";
 import { prisma as db } from "../db.server";
 import { getSecureCorsHeaders, createCorsPreflightResponse, isOriginAllowed, logCorsViolation } from "../lib/cors.server";
-import { rateLimit, RateLimitPresets } from "../lib/rate-limit.server";
+import { sharedRateLimit, RateLimitPresets } from "../lib/rate-limit.server";
 import { chatRequestSchema, validateData, validationErrorResponse } from "../lib/validation.server";
 import { getAPISecurityHeaders, mergeSecurityHeaders } from "../lib/security-headers.server";
 import { logError } from "../lib/logger.server";
+import { createLLMProvider, recordLLMUsage, resolveShopLLMConfig, type LLMProvider } from "../lib/llm-provider.server";
 import { checkBillingStatus } from "../lib/billing.server";
 
 export const action = async ({ request }: ActionFunctionArgs) => {
@@ -31,7 +34,7 @@ export const action = async ({ request }: ActionFunctionArgs) => {
 
   // ✅ SECURITY FIX: Apply rate limiting
   // Moderate limit: 100 requests per minute for chat messages
-  const rateLimitResponse = rateLimit(request, RateLimitPresets.MODERATE, {
+  const rateLimitResponse = await sharedRateLimit(request, RateLimitPresets.MODERATE, {
     useShop: true,
     namespace: '/apps/sales-assistant-api',
   });
@@ -161,7 +164,19 @@ export const action = async ({ request }: ActionFunctionArgs) => {
     // Generate or extract session ID
     const context = validatedData.context || {};
     const sessionId = context.sessionId || `session_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
-    const customerId = context.customerId;
+    // Only a customer signed by the theme block is trusted; their other profiles are merged in
+    let customerId: string | null = null;
+    if (context.customerToken) {
+      // Best effort: the chat is answered even if the customer can't be identified
+      try {
+        customerId = await customerIdentityService.verifyToken(shopDomain, context.customerToken);
+        if (customerId && context.sessionId) {
+          await customerIdentityService.identify(shopDomain, context.sessionId, customerId);
+        }
+      } catch (error) {
+        logError(error, 'Failed to identify customer', { shop: shopDomain });
+      }
+    }
 
     // Get products for context
     // ✅ PERFORMANCE FIX: Add 15-second timeout to prevent hanging GraphQL requests
@@ -247,7 +262,7 @@ export const action = async ({ request }: ActionFunctionArgs) => {
     // Classify intent and sentiment
     const startTime = Date.now();
     const [intent, sentiment] = await Promise.all([
-      personalizationService.classifyIntent(finalMessage),
+      personalizationService.classifyIntent(finalMessage, shopDomain),
       personalizationService.analyzeSentiment(finalMessage),
     ]);
 
@@ -352,7 +367,36 @@ export const action = async ({ request }: ActionFunctionArgs) => {
 
     const { N8NService, n8nService } = await import('../services/n8n.service.server');
 
-    if (isValidCustomUrl) {
+    // Built-in chat engine: selected in settings, or used when no N8N webhook is configured at all
+    // (BYOK shops use their own provider key, other plans the app's credentials)
+    let byokKey: string | null = null;
+    if (widgetSettings?.plan === 'BYOK' && widgetSettings.openaiApiKey) {
+      try {
+        const { decryptShopSecret } = await import('../lib/shop-keys.server');
+        byokKey = await decryptShopSecret(shopDomain, widgetSettings.openaiApiKey);
+      } catch (error) {
+        logError(error, 'Failed to decrypt BYOK API key', { shop: shopDomain });
+      }
+    }
+
+    let llmProvider: LLMProvider | null = null;
+    const llmConfig = resolveShopLLMConfig(widgetSettings as any, byokKey);
+    if (llmConfig && (widgetSettings?.workflowType === 'BUILTIN' || (!isValidCustomUrl && !process.env.N8N_WEBHOOK_URL))) {
+      try {
+        llmProvider = createLLMProvider(llmConfig);
+      } catch (error) {
+        logError(error, 'LLM provider misconfigured', { shop: shopDomain, provider: llmConfig.provider });
+      }
+    }
+    const useBuiltinEngine = !!llmProvider;
+
+    if (llmProvider) {
+      const { ChatEngineService } = await import('../services/chat-engine.service.server');
+      serviceToUse = new ChatEngineService(llmProvider, {
+        fallback: isValidCustomUrl ? new N8NService(customWebhookUrl) : n8nService,
+        tools: { shop: shopDomain, admin },
+      });
+    } else if (isValidCustomUrl) {
       // CUSTOM WORKFLOW: User has configured their own N8N webhook
       // Create a new N8NService instance with the custom webhook URL
       serviceToUse = new N8NService(customWebhookUrl);
@@ -393,24 +437,39 @@ export const action = async ({ request }: ActionFunctionArgs) => {
       }
     );
 
-    // Learn from this interaction
+    // Learn from this interaction (in the background job worker)
     if (n8nResponse.recommendations && n8nResponse.recommendations.length > 0) {
-      await personalizationService.learnPreferences(
-        userProfile.id,
-        finalMessage,
-        n8nResponse.recommendations.map(r => r.id)
+      await enqueueJobSafe('personalization.learn', {
+        userProfileId: userProfile.id,
+        message: finalMessage,
+        productIds: n8nResponse.recommendations.map(r => r.id),
+      }, { shop: shopDomain });
+    }
+
+    // BYOK shops pay their provider directly: track the engine's token usage for the billing page
+    if (widgetSettings?.plan === 'BYOK' && n8nResponse.usage) {
+      const { model, provider: usageProvider, ...usage } = n8nResponse.usage;
+      await recordLLMUsage(shopDomain, model, usage, usageProvider).catch(error =>
+        logError(error, 'Failed to record BYOK usage', { shop: shopDomain })
       );
     }
 
     // Update analytics (including workflow usage tracking)
-    await personalizationService.updateAnalytics(shopDomain, {
-      intent,
-      sentiment,
-      responseTime,
-      confidence: n8nResponse.confidence,
-      workflowType: isValidCustomUrl ? 'custom' : 'default',
-      isNewSession, // FIX: Track session creation for proper analytics
-    });
+    await enqueueJobSafe('analytics.update', {
+      data: {
+        intent,
+        sentiment,
+        responseTime,
+        confidence: n8nResponse.confidence,
+        workflowType: useBuiltinEngine ? 'builtin' : isValidCustomUrl ? 'custom' : 'default',
+        isNewSession, // FIX: Track session creation for proper analytics
+        chatSessionId: chatSession.id,
+        visitorId: sessionId,
+        entryPoint: context.entryPoint ?? undefined,
+        productsShown: n8nResponse.recommendations?.length ?? 0,
+      },
+      occurredAt: new Date().toISOString(),
+    }, { shop: shopDomain });
 
     return json(
       {
@@ -3,7 +3,7 @@ import { json } from "@remix-run/node";
 import { authenticate, unauthenticated, sessionStorage } from "../shopify.server";
 import { prisma as db } from "../db.server";
 import { getSecureCorsHeaders, createCorsPreflightResponse } from "../lib/cors.server";
-import { rateLimit, RateLimitPresets } from "../lib/rate-limit.server";
+import { rateLimit, RateLimitPresets, sharedRateLimit } from "../lib/rate-limit.server";
 import { chatRequestSchema, validateData, validationErrorResponse } from "../lib/validation.server";
 import { getAPISecurityHeaders, mergeSecurityHeaders } from "../lib/security-headers.server";
 import { logError, createLogger } from "../lib/logger.server";
@@ -106,7 +106,7 @@ export const action = async ({ request }: ActionFunctionArgs) => {
 
   // ✅ SECURITY FIX: Apply rate limiting
   // Moderate limit for chat messages: 100 requests per minute
-  const rateLimitResponse = rateLimit(request, RateLimitPresets.MODERATE, {
+  const rateLimitResponse = await sharedRateLimit(request, RateLimitPresets.MODERATE, {
     useShop: true,
     namespace: '/apps/widget-settings/action',
   });
@@ -0,0 +1,50 @@
+/**
+ * Customer Data Export Download
+ *
+ * Serves the archive of a customers/data_request through the signed, expiring link shown on
+ * the Data requests page. No admin session is needed, so the merchant can hand the link to
+ * the customer; the signature covers the request id and the expiry.
+ *
+ *   GET /data-exports/:id?expires=<unix seconds>&signature=<hmac>
+ */
+
+import type { LoaderFunctionArgs } from "@remix-run/node";
+import { getAPISecurityHeaders } from "../lib/security-headers.server";
+import { logger } from "../lib/logger.server";
+import { dataExportService, verifyDownloadUrl } from "../services/data-export.service.server";
+
+// The link itself is a credential: keep it out of Referer headers
+const HEADERS = { ...getAPISecurityHeaders(), "Referrer-Policy": "no-referrer", "X-Robots-Tag": "noindex, nofollow" };
+
+export const loader = async ({ request, params }: LoaderFunctionArgs) => {
+  const requestId = params.id || "";
+  const url = new URL(request.url);
+
+  if (!verifyDownloadUrl(requestId, url.searchParams.get("expires"), url.searchParams.get("signature"))) {
+    return new Response("This download link is invalid or has expired.", {
+      status: 403,
+      headers: { "Content-Type": "text/plain", ...HEADERS },
+    });
+  }
+
+  const result = await dataExportService.getArchive(requestId);
+  if (!result) {
+    return new Response("This export is no longer available.", {
+      status: 410,
+      headers: { "Content-Type": "text/plain", ...HEADERS },
+    });
+  }
+
+  logger.info({ shop: result.shop, requestId }, "Customer data export downloaded");
+
+  return new Response(new Uint8Array(result.archive), {
+    status: 200,
+    headers: {
+      "Content-Type": "application/zip",
+      "Content-Disposition": `attachment; filename="customer-data-${requestId}.zip"`,
+      "Content-Length": String(result.archive.length),
+      "Cache-Control": "no-store",
+      ...HEADERS,
+    },
+  });
+};
@@ -36,7 +36,9 @@ export const action = async ({ request }: ActionFunctionArgs) => {
       const deletionStats = {
         sessions: 0,
         widgetSettings: 0,
+        shopDataKeys: 0,
         productEmbeddings: 0,
+        catalogSync: 0,
         chatMessages: 0,
         chatSessions: 0,
         userProfiles: 0,
@@ -79,12 +81,23 @@ export const action = async ({ request }: ActionFunctionArgs) => {
       });
       deletionStats.productEmbeddings = deletedEmbeddings.count;
 
-      // Delete widget settings
+      // Delete catalog sync state so a reinstall runs a fresh backfill
+      const deletedCatalogSync = await tx.catalogSync.deleteMany({
+        where: { shop },
+      });
+      deletionStats.catalogSync = deletedCatalogSync.count;
+
+      // Delete widget settings and the shop's data key
       const deletedSettings = await tx.widgetSettings.deleteMany({
         where: { shop },
       });
       deletionStats.widgetSettings = deletedSettings.count;
 
+      const deletedDataKeys = await tx.shopDataKey.deleteMany({
+        where: { shop },
+      });
+      deletionStats.shopDataKeys = deletedDataKeys.count;
+
       // Delete analytics data
       const deletedAnalytics = await tx.chatAnalytics.deleteMany({
         where: { shop },
@@ -0,0 +1,50 @@
+import type { ActionFunctionArgs } from "@remix-run/node";
+import { authenticate } from "../shopify.server";
+import { getWebhookSecurityHeaders } from "../lib/security-headers.server";
+import { logger } from "../lib/logger.server";
+import { enqueueJob } from "../lib/job-queue.server";
+import { randomBytes } from "crypto";
+
+/**
+ * Bulk Operations Finish Webhook
+ *
+ * Triggered when a bulk operation completes. For the catalog backfill started on
+ * install, a background job downloads the product export and embeds new/changed products.
+ */
+export const action = async ({ request }: ActionFunctionArgs) => {
+  const correlationId = randomBytes(16).toString("hex");
+  const webhookLogger = logger.child({ correlationId, webhook: "bulk_operations/finish" });
+
+  const { shop, payload, topic, webhookId } = await authenticate.webhook(request);
+  const bulkOperationId = payload.admin_graphql_api_id as string;
+
+  webhookLogger.info({ shop, topic, bulkOperationId, status: payload.status }, "Webhook authenticated successfully");
+
+  try {
+    const job = await enqueueJob(
+      "catalog.bulk_finish",
+      { bulkOperationId },
+      { shop, idempotencyKey: `webhook:${webhookId}` }
+    );
+
+    webhookLogger.info({ shop, bulkOperationId, jobId: job.id }, "Bulk operation result enqueued");
+
+    return new Response(JSON.stringify({ success: true, shop, jobId: job.id }), {
+      status: 200,
+      headers: { "Content-Type": "application/json", ...getWebhookSecurityHeaders() }
+    });
+  } catch (error) {
+    webhookLogger.error({
+      shop,
+      bulkOperationId,
+      error: error instanceof Error ? error.message : 'Unknown error',
+      stack: error instanceof Error ? error.stack : undefined
+    }, "Error enqueueing bulk operation result");
+
+    // Return 500 so Shopify retries the delivery
+    return new Response(JSON.stringify({ error: "Error processing bulk operation" }), {
+      status: 500,
+      headers: { "Content-Type": "application/json", ...getWebhookSecurityHeaders() }
+    });
+  }
+};
@@ -1,15 +1,18 @@
 import type { ActionFunctionArgs } from "@remix-run/node";
 import { authenticate } from "../shopify.server";
-import { prisma as db } from "../db.server";
 import { getWebhookSecurityHeaders } from "../lib/security-headers.server";
 import { logger } from "../lib/logger.server";
+import { recordAuditEvent } from "../lib/audit.server";
+import { dataExportService } from "../services/data-export.service.server";
 import { randomBytes } from "crypto";
 
 /**
  * GDPR Webhook: Customer Data Request
  *
  * When a customer requests their data, Shopify sends this webhook.
- * We must return all personal data we have stored for this customer.
+ * We must provide all personal data we have stored for this customer to the merchant.
+ * The request is tracked as a DataExportRequest; the archive is built by a background job
+ * (see services/data-export.service.server.ts) and downloaded from the Data requests page.
  *
  * Required by Shopify App Store for GDPR compliance.
  * Reference: https://shopify.dev/docs/apps/build/privacy-law-compliance
@@ -25,7 +28,7 @@ export const action = async ({ request }: ActionFunctionArgs) => {
     }
   }, "GDPR webhook received: customer data request");
 
-  const { shop, payload, topic } = await authenticate.webhook(request);
+  const { shop, payload, topic, webhookId } = await authenticate.webhook(request);
 
   webhookLogger.info({ shop, topic }, "Webhook authenticated successfully");
 
@@ -56,101 +59,34 @@ export const action = async ({ request }: ActionFunctionArgs) => {
     }
 
 
-    // Collect all customer data from our database
-    const customerData: any = {
-      shop_domain: shop,
-      customer_id: customerId,
-      customer_email: customerEmail,
-      customer_phone: customerPhone,
-      data_requested_at: new Date().toISOString(),
-      profiles: [],
-      chat_sessions: [],
-      chat_messages: [],
-      analytics: [],
-    };
-
-    // Find all user profiles for this customer
-    const userProfiles = await db.userProfile.findMany({
-      where: {
-        shop,
-        ...(customerId ? { customerId } : {}),
-      },
-      include: {
-        chatSessions: {
-          include: {
-            messages: true,
-          },
-        },
-      },
+    // The archive is built by the background job worker (retried on failure) and offered
+    // to the merchant on the Data requests page
+    const dataRequest = await dataExportService.createRequest(shop, {
+      webhookId,
+      customerId,
+      customerEmail,
     });
 
-
-    // Collect data from each profile
-    for (const profile of userProfiles) {
-      customerData.profiles.push({
-        profile_id: profile.id,
-        session_id: profile.sessionId,
-        preferences: JSON.parse(profile.preferences || '{}'),
-        browsing_history: JSON.parse(profile.browsingHistory || '[]'),
-        purchase_history: JSON.parse(profile.purchaseHistory || '[]'),
-        interactions: JSON.parse(profile.interactions || '[]'),
-        created_at: profile.createdAt.toISOString(),
-        updated_at: profile.updatedAt.toISOString(),
-      });
-
-      // Collect chat sessions
-      for (const session of profile.chatSessions) {
-        customerData.chat_sessions.push({
-          session_id: session.id,
-          context: JSON.parse(session.context || '{}'),
-          last_message_at: session.lastMessageAt.toISOString(),
-          created_at: session.createdAt.toISOString(),
-        });
-
-        // Collect chat messages
-        for (const message of session.messages) {
-          customerData.chat_messages.push({
-            message_id: message.id,
-            session_id: session.id,
-            role: message.role,
-            content: message.content,
-            intent: message.intent,
-            sentiment: message.sentiment,
-            confidence: message.confidence,
-            products_shown: JSON.parse(message.productsShown || '[]'),
-            product_clicked: message.productClicked,
-            metadata: JSON.parse(message.metadata || '{}'),
-            timestamp: message.timestamp.toISOString(),
-          });
-        }
-      }
-    }
-
-    // Collect aggregated analytics data (if it contains customer-specific info)
-    const analytics = await db.chatAnalytics.findMany({
-      where: { shop },
-      take: 30, // Last 30 days
-      orderBy: { date: 'desc' },
+    webhookLogger.info({
+      requestId: dataRequest.id,
+      customerId: customerId ? "[REDACTED]" : undefined,
+    }, "Customer data export enqueued");
+
+    await recordAuditEvent({
+      shop,
+      actor: { type: "shopify", id: topic },
+      action: "gdpr.customerDataRequested",
+      targetType: "DataExportRequest",
+      targetId: dataRequest.id,
+      metadata: { webhookId },
+      request,
     });
 
-    customerData.analytics = analytics.map((a) => ({
-      date: a.date.toISOString(),
-      total_sessions: a.totalSessions,
-      total_messages: a.totalMessages,
-      avg_response_time: a.avgResponseTime,
-      avg_confidence: a.avgConfidence,
-    }));
-
-    webhookLogger.info({
-      profileCount: customerData.profiles.length,
-      sessionCount: customerData.chat_sessions.length,
-      messageCount: customerData.chat_messages.length,
-      analyticsCount: customerData.analytics.length
-    }, "Customer data collected successfully");
-
-    // Return the collected data
-    // Note: Shopify will store this and provide it to the customer
-    return new Response(JSON.stringify(customerData, null, 2), {
+    return new Response(JSON.stringify({
+      success: true,
+      message: "Customer data export scheduled",
+      request_id: dataRequest.id,
+    }), {
       status: 200,
       headers: {
         "Content-Type": "application/json",
@@ -162,7 +98,7 @@ export const action = async ({ request }: ActionFunctionArgs) => {
     webhookLogger.error({
       error: error instanceof Error ? error.message : 'Unknown error',
       stack: error instanceof Error ? error.stack : undefined
-    }, "Error collecting customer data - manual intervention may be required");
+    }, "Error recording customer data request - manual intervention may be required");
 
     // GDPR COMPLIANCE: Return 500 to trigger Shopify retry for transient errors
     // This ensures we don't miss customer data requests due to temporary issues
@@ -0,0 +1,51 @@
+import type { ActionFunctionArgs } from "@remix-run/node";
+import { authenticate } from "../shopify.server";
+import { getWebhookSecurityHeaders } from "../lib/security-headers.server";
+import { logger } from "../lib/logger.server";
+import { enqueueJob } from "../lib/job-queue.server";
+import { toAttributableOrder, type OrderWebhookPayload } from "../services/attribution.service.server";
+import { randomBytes } from "crypto";
+
+/**
+ * Orders Create Webhook
+ *
+ * Attributes new orders to the chat session stored in the cart attributes
+ * and adds them to the conversion analytics.
+ */
+export const action = async ({ request }: ActionFunctionArgs) => {
+  const correlationId = randomBytes(16).toString("hex");
+  const webhookLogger = logger.child({ correlationId, webhook: "orders/create" });
+
+  const { shop, payload, topic, webhookId } = await authenticate.webhook(request);
+
+  webhookLogger.info({ shop, topic, orderId: payload.id }, "Webhook authenticated successfully");
+
+  try {
+    // Only the fields needed for attribution are queued (no customer details)
+    const order = toAttributableOrder(payload as OrderWebhookPayload);
+    const job = await enqueueJob(
+      "attribution.order",
+      { order },
+      { shop, idempotencyKey: `webhook:${webhookId}` }
+    );
+
+    webhookLogger.info({ shop, orderId: order.orderId, hasChatSession: !!order.chatSessionId, jobId: job.id }, "Order attribution enqueued");
+
+    return new Response(JSON.stringify({ success: true, shop, jobId: job.id }), {
+      status: 200,
+      headers: { "Content-Type": "application/json", ...getWebhookSecurityHeaders() }
+    });
+  } catch (error) {
+    webhookLogger.error({
+      shop,
+      error: error instanceof Error ? error.message : 'Unknown error',
+      stack: error instanceof Error ? error.stack : undefined
+    }, "Error enqueueing order attribution");
+
+    // Return 500 so Shopify retries the delivery
+    return new Response(JSON.stringify({ error: "Error processing order" }), {
+      status: 500,
+      headers: { "Content-Type": "application/json", ...getWebhookSecurityHeaders() }
+    });
+  }
+};
@@ -0,0 +1,49 @@
+import type { ActionFunctionArgs } from "@remix-run/node";
+import { authenticate } from "../shopify.server";
+import { getWebhookSecurityHeaders } from "../lib/security-headers.server";
+import { logger } from "../lib/logger.server";
+import { enqueueJob } from "../lib/job-queue.server";
+import type { ProductWebhookPayload } from "../services/catalog-sync.service.server";
+import { randomBytes } from "crypto";
+
+/**
+ * Products Create Webhook
+ *
+ * Embeds newly created products so they are searchable from the chat widget.
+ */
+export const action = async ({ request }: ActionFunctionArgs) => {
+  const correlationId = randomBytes(16).toString("hex");
+  const webhookLogger = logger.child({ correlationId, webhook: "products/create" });
+
+  const { shop, payload, topic, webhookId } = await authenticate.webhook(request);
+
+  webhookLogger.info({ shop, topic, productId: payload.id }, "Webhook authenticated successfully");
+
+  try {
+    // Embedding runs in the background job worker
+    const job = await enqueueJob(
+      "catalog.product_sync",
+      { product: payload as ProductWebhookPayload },
+      { shop, idempotencyKey: `webhook:${webhookId}` }
+    );
+
+    webhookLogger.info({ shop, productId: payload.id, jobId: job.id }, "Product sync enqueued");
+
+    return new Response(JSON.stringify({ success: true, shop, jobId: job.id }), {
+      status: 200,
+      headers: { "Content-Type": "application/json", ...getWebhookSecurityHeaders() }
+    });
+  } catch (error) {
+    webhookLogger.error({
+      shop,
+      error: error instanceof Error ? error.message : 'Unknown error',
+      stack: error instanceof Error ? error.stack : undefined
+    }, "Error enqueueing product sync");
+
+    // Return 500 so Shopify retries the delivery
+    return new Response(JSON.stringify({ error: "Error syncing product" }), {
+      status: 500,
+      headers: { "Content-Type": "application/json", ...getWebhookSecurityHeaders() }
+    });
+  }
+};
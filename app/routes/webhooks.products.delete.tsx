@@ -0,0 +1,49 @@
+import type { ActionFunctionArgs } from "@remix-run/node";
+import { authenticate } from "../shopify.server";
+import { getWebhookSecurityHeaders } from "../lib/security-headers.server";
+import { logger } from "../lib/logger.server";
+import { enqueueJob } from "../lib/job-queue.server";
+import { toProductGid, type ProductWebhookPayload } from "../services/catalog-sync.service.server";
+import { randomBytes } from "crypto";
+
+/**
+ * Products Delete Webhook
+ *
+ * Removes the deleted product's embedding.
+ */
+export const action = async ({ request }: ActionFunctionArgs) => {
+  const correlationId = randomBytes(16).toString("hex");
+  const webhookLogger = logger.child({ correlationId, webhook: "products/delete" });
+
+  const { shop, payload, topic, webhookId } = await authenticate.webhook(request);
+
+  webhookLogger.info({ shop, topic, productId: payload.id }, "Webhook authenticated successfully");
+
+  try {
+    const productId = (payload as ProductWebhookPayload).admin_graphql_api_id || toProductGid(payload.id);
+    const job = await enqueueJob(
+      "catalog.product_delete",
+      { productId },
+      { shop, idempotencyKey: `webhook:${webhookId}` }
+    );
+
+    webhookLogger.info({ shop, productId, jobId: job.id }, "Product removal enqueued");
+
+    return new Response(JSON.stringify({ success: true, shop, productId, jobId: job.id }), {
+      status: 200,
+      headers: { "Content-Type": "application/json", ...getWebhookSecurityHeaders() }
+    });
+  } catch (error) {
+    webhookLogger.error({
+      shop,
+      error: error instanceof Error ? error.message : 'Unknown error',
+      stack: error instanceof Error ? error.stack : undefined
+    }, "Error enqueueing product removal");
+
+    // Return 500 so Shopify retries the delivery
+    return new Response(JSON.stringify({ error: "Error removing product" }), {
+      status: 500,
+      headers: { "Content-Type": "application/json", ...getWebhookSecurityHeaders() }
+    });
+  }
+};
@@ -0,0 +1,44 @@
+import type { ActionFunctionArgs } from "@remix-run/node";
+import { authenticate } from "../shopify.server";
+import { getWebhookSecurityHeaders } from "../lib/security-headers.server";
+import { logger } from "../lib/logger.server";
+import { shopPoliciesService } from "../services/shop-policies.service.server";
+import { randomBytes } from "crypto";
+
+/**
+ * Shop Update Webhook
+ *
+ * Refreshes the stored policies and contact details; the refresh job only re-indexes
+ * policies whose content changed.
+ */
+export const action = async ({ request }: ActionFunctionArgs) => {
+  const correlationId = randomBytes(16).toString("hex");
+  const webhookLogger = logger.child({ correlationId, webhook: "shop/update" });
+
+  const { shop, topic, webhookId } = await authenticate.webhook(request);
+
+  webhookLogger.info({ shop, topic }, "Webhook authenticated successfully");
+
+  try {
+    const job = await shopPoliciesService.scheduleRefresh(shop, `webhook:${webhookId}`);
+
+    webhookLogger.info({ shop, jobId: job.id }, "Shop policies refresh enqueued");
+
+    return new Response(JSON.stringify({ success: true, shop, jobId: job.id }), {
+      status: 200,
+      headers: { "Content-Type": "application/json", ...getWebhookSecurityHeaders() }
+    });
+  } catch (error) {
+    webhookLogger.error({
+      shop,
+      error: error instanceof Error ? error.message : 'Unknown error',
+      stack: error instanceof Error ? error.stack : undefined
+    }, "Error enqueueing shop policies refresh");
+
+    // Return 500 so Shopify retries the delivery
+    return new Response(JSON.stringify({ error: "Error refreshing shop policies" }), {
+      status: 500,
+      headers: { "Content-Type": "application/json", ...getWebhookSecurityHeaders() }
+    });
+  }
+};
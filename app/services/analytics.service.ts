@@ -1,5 +1,17 @@
+import ExcelJS from 'exceljs';
 import { prisma as db } from "../db.server";
 import { logError, createLogger } from '../lib/logger.server';
+import { normalizeIntent } from '../lib/intents';
+import { analyticsDay } from '../lib/analytics-events.server';
+import type { WidgetEntryPoint } from '../lib/widget-events';
+import { ANALYTICS, AI } from '../config/limits';
+
+const WEEK_MS = 7 * 24 * 60 * 60 * 1000;
+
+// Funnel steps, each counted as distinct visitors (widget session ids)
+export const FUNNEL_STEPS = ['opened', 'messaged', 'productShown', 'clicked', 'addedToCart', 'ordered'] as const;
+
+export type FunnelStepName = (typeof FUNNEL_STEPS)[number];
 
 export interface AnalyticsOverview {
   totalSessions: number;
@@ -54,6 +66,112 @@ export interface DailyTrend {
   avgConfidence: number;
 }
 
+export interface LatencyPercentiles {
+  p50: number;
+  p95: number;
+  // Messages with a recorded response time
+  samples: number;
+}
+
+export interface FunnelStep {
+  step: FunnelStepName;
+  visitors: number;
+  previousVisitors: number;
+  // Share of the previous step's visitors (%)
+  stepRate: number;
+  // Share of the visitors who opened the widget (%)
+  overallRate: number;
+  // Change against the previous period (%)
+  change: number;
+}
+
+export interface EntryPointBreakdown {
+  entryPoint: WidgetEntryPoint;
+  // Conversations started from this entry point
+  sessions: number;
+  previousSessions: number;
+  change: number;
+  messages: number;
+  // Share of all conversations started in the period (%)
+  share: number;
+  // Share of those conversations with an attributed order (%)
+  conversionRate: number;
+}
+
+interface EntryPointCounts {
+  entryPoint: WidgetEntryPoint;
+  sessions: number;
+  messages: number;
+  converted: number;
+}
+
+export interface WeeklyCohort {
+  // Monday of the week the visitors first chatted (YYYY-MM-DD, UTC)
+  weekStart: string;
+  visitors: number;
+  // Share of the cohort chatting again N weeks later (%), index 0 is the first week
+  retention: number[];
+}
+
+export interface UnansweredQuestion {
+  question: string;
+  // The reply came from the keyword fallback, or the assistant wasn't confident
+  reason: 'fallback' | 'low_confidence';
+  confidence: number | null;
+  askedAt: Date;
+  chatSessionId: string;
+}
+
+// Rows of the JSON / XLSX exports, one list per sheet
+export interface AnalyticsExport {
+  shop: string;
+  period: { startDate: string; endDate: string };
+  overview: AnalyticsOverview;
+  sessions: Array<{
+    id: string;
+    createdAt: Date;
+    lastMessageAt: Date;
+    messages: number;
+    status: string;
+    escalatedAt: Date | null;
+    rating: number | null;
+    orders: number;
+  }>;
+  messages: Array<{
+    sessionId: string;
+    timestamp: Date;
+    role: string;
+    content: string;
+    intent: string | null;
+    sentiment: string | null;
+    confidence: number | null;
+  }>;
+  products: TopProduct[];
+  ratings: Array<{
+    sessionId: string;
+    rating: number;
+    comment: string | null;
+    ratedAt: Date | null;
+  }>;
+}
+
+export interface ConversionMetrics {
+  // Orders attributed to a chat session
+  attributedOrders: number;
+  // Total of the attributed orders (shop currency)
+  assistedRevenue: number;
+  // Part of it spent on products the assistant recommended
+  influencedRevenue: number;
+  // Share of chat sessions that led to an order (%)
+  conversionRate: number;
+  // Average order value of attributed orders vs. orders without a chat
+  assistedAov: number;
+  baselineAov: number;
+  // How much larger attributed orders are (%)
+  aovUplift: number;
+  currency: string | null;
+}
+
 export interface AnalyticsPeriod {
   startDate: Date;
   endDate: Date;
@@ -260,6 +378,11 @@ export class AnalyticsService {
    */
   async getIntentDistribution(shop: string, period: AnalyticsPeriod): Promise<IntentDistribution[]> {
     try {
+      const exact = await this.getEventDistribution(shop, period, 'intent');
+      if (exact) {
+        return exact.map(({ value, count, percentage }) => ({ intent: value, count, percentage }));
+      }
+
       const data = await db.chatAnalytics.findMany({
         where: {
           shop,
@@ -278,7 +401,9 @@ export class AnalyticsService {
         try {
           // FIX: Add fallback for empty/null values
           const intents = JSON.parse(record.topIntents || '{}');
-          Object.entries(intents).forEach(([intent, count]) => {
+          Object.entries(intents).forEach(([rawIntent, count]) => {
+            // Older rows may use legacy names (e.g. "OTHER", "SHIPPING")
+            const intent = normalizeIntent(rawIntent);
             intentCounts[intent] = (intentCounts[intent] || 0) + (count as number);
             totalIntents += count as number;
           });
@@ -309,6 +434,15 @@ export class AnalyticsService {
    */
   async getSentimentBreakdown(shop: string, period: AnalyticsPeriod): Promise<SentimentData[]> {
     try {
+      const exact = await this.getEventDistribution(shop, period, 'sentiment');
+      if (exact) {
+        return exact.map(({ value, count, percentage }) => ({
+          sentiment: value.charAt(0).toUpperCase() + value.slice(1),
+          count,
+          percentage,
+        }));
+      }
+
       const data = await db.chatAnalytics.findMany({
         where: {
           shop,
@@ -624,6 +758,513 @@ export class AnalyticsService {
     }
   }
 
+  /**
+   * Response time percentiles of assistant messages, from the analytics event log
+   */
+  async getLatencyPercentiles(shop: string, period: AnalyticsPeriod): Promise<LatencyPercentiles> {
+    try {
+      const [row] = await db.$queryRaw<Array<{ p50: number | null; p95: number | null; samples: bigint }>>`
+        SELECT
+          percentile_cont(0.5) WITHIN GROUP (ORDER BY "responseTimeMs") AS p50,
+          percentile_cont(0.95) WITHIN GROUP (ORDER BY "responseTimeMs") AS p95,
+          COUNT("responseTimeMs") AS samples
+        FROM "AnalyticsEvent"
+        WHERE "shop" = ${shop}
+          AND "type" = 'message'
+          AND "responseTimeMs" IS NOT NULL
+          AND "occurredAt" >= ${period.startDate}
+          AND "occurredAt" <= ${period.endDate}
+      `;
+
+      return {
+        p50: Math.round(row?.p50 ?? 0),
+        p95: Math.round(row?.p95 ?? 0),
+        samples: Number(row?.samples ?? 0),
+      };
+    } catch (error: any) {
+      logError(error, 'Error getting latency percentiles');
+      return { p50: 0, p95: 0, samples: 0 };
+    }
+  }
+
+  /**
+   * Exact counts of a message dimension from the analytics event log.
+   * Returns null when the log doesn't cover the whole period (days recorded before it
+   * existed only have the ChatAnalytics counters).
+   */
+  private async getEventDistribution(
+    shop: string,
+    period: AnalyticsPeriod,
+    dimension: 'intent' | 'sentiment'
+  ): Promise<Array<{ value: string; count: number; percentage: number }> | null> {
+    const firstEvent = await db.analyticsEvent.findFirst({
+      where: { shop, type: 'message' },
+      orderBy: { occurredAt: 'asc' },
+      select: { occurredAt: true },
+    });
+    if (!firstEvent || analyticsDay(firstEvent.occurredAt) > period.startDate) {
+      return null;
+    }
+
+    const groups = await db.analyticsEvent.groupBy({
+      by: [dimension],
+      where: {
+        shop,
+        type: 'message',
+        [dimension]: { not: null },
+        occurredAt: {
+          gte: period.startDate,
+          lte: period.endDate,
+        },
+      },
+      _count: { _all: true },
+    });
+
+    const total = groups.reduce((sum: number, group: any) => sum + group._count._all, 0);
+
+    return groups
+      .map((group: any) => ({
+        value: group[dimension] as string,
+        count: group._count._all as number,
+        percentage: total > 0 ? Math.round((group._count._all / total) * 100 * 10) / 10 : 0,
+      }))
+      .sort((a: { count: number }, b: { count: number }) => b.count - a.count);
+  }
+
+  /**
+   * Revenue from orders attributed to chat sessions (see AttributionService)
+   */
+  async getConversionMetrics(shop: string, period: AnalyticsPeriod): Promise<ConversionMetrics> {
+    try {
+      const [analyticsData, conversions] = await Promise.all([
+        db.chatAnalytics.findMany({
+          where: {
+            shop,
+            date: {
+              gte: period.startDate,
+              lte: period.endDate,
+            },
+          },
+          select: {
+            totalSessions: true,
+            conversionsTracked: true,
+            assistedRevenue: true,
+            ordersCount: true,
+            ordersRevenue: true,
+          },
+        }),
+        db.chatConversion.findMany({
+          where: {
+            shop,
+            orderCreatedAt: {
+              gte: period.startDate,
+              lte: period.endDate,
+            },
+          },
+          select: { chatSessionId: true, influencedRevenue: true, currency: true },
+        }),
+      ]);
+
+      const totals = analyticsData.reduce((sum: any, d: any) => ({
+        sessions: sum.sessions + d.totalSessions,
+        attributedOrders: sum.attributedOrders + d.conversionsTracked,
+        assistedRevenue: sum.assistedRevenue + d.assistedRevenue,
+        orders: sum.orders + d.ordersCount,
+        revenue: sum.revenue + d.ordersRevenue,
+      }), { sessions: 0, attributedOrders: 0, assistedRevenue: 0, orders: 0, revenue: 0 });
+
+      const convertedSessions = new Set(conversions.map((c: any) => c.chatSessionId)).size;
+      const influencedRevenue = conversions.reduce((sum: number, c: any) => sum + c.influencedRevenue, 0);
+
+      const assistedAov = totals.attributedOrders > 0 ? totals.assistedRevenue / totals.attributedOrders : 0;
+      const baselineOrders = totals.orders - totals.attributedOrders;
+      const baselineAov = baselineOrders > 0 ? (totals.revenue - totals.assistedRevenue) / baselineOrders : 0;
+
+      const round = (value: number) => Math.round(value * 100) / 100;
+
+      return {
+        attributedOrders: totals.attributedOrders,
+        assistedRevenue: round(totals.assistedRevenue),
+        influencedRevenue: round(influencedRevenue),
+        conversionRate: totals.sessions > 0 ? Math.round((convertedSessions / totals.sessions) * 1000) / 10 : 0,
+        assistedAov: round(assistedAov),
+        baselineAov: round(baselineAov),
+        aovUplift: assistedAov > 0 && baselineAov > 0
+          ? Math.round(((assistedAov - baselineAov) / baselineAov) * 1000) / 10
+          : 0,
+        currency: conversions[0]?.currency || null,
+      };
+    } catch (error: any) {
+      logError(error, 'Error getting conversion metrics');
+      return {
+        attributedOrders: 0,
+        assistedRevenue: 0,
+        influencedRevenue: 0,
+        conversionRate: 0,
+        assistedAov: 0,
+        baselineAov: 0,
+        aovUplift: 0,
+        currency: null,
+      };
+    }
+  }
+
+  /**
+   * Visitors reaching each step from opening the widget to an attributed order,
+   * compared with the previous period. Reads the analytics event log.
+   */
+  async getFunnel(shop: string, period: AnalyticsPeriod): Promise<FunnelStep[]> {
+    try {
+      const previous = AnalyticsService.getPreviousPeriod(period);
+      const [current, before] = await Promise.all([
+        this.countFunnelVisitors(shop, period),
+        this.countFunnelVisitors(shop, previous),
+      ]);
+
+      const opened = current.opened;
+      return FUNNEL_STEPS.map((step, index) => {
+        const reached = index > 0 ? current[FUNNEL_STEPS[index - 1]!] : 0;
+        return {
+          step,
+          visitors: current[step],
+          previousVisitors: before[step],
+          // Widgets that don't report every step can make a step exceed the previous one
+          stepRate: index === 0 ? 100 : toRate(current[step], reached),
+          overallRate: toRate(current[step], opened),
+          change: percentChange(current[step], before[step]),
+        };
+      });
+    } catch (error: any) {
+      logError(error, 'Error getting funnel');
+      return FUNNEL_STEPS.map(step => ({
+        step,
+        visitors: 0,
+        previousVisitors: 0,
+        stepRate: 0,
+        overallRate: 0,
+        change: 0,
+      }));
+    }
+  }
+
+  private async countFunnelVisitors(shop: string, period: AnalyticsPeriod): Promise<Record<FunnelStepName, number>> {
+    const [row]: Array<Record<FunnelStepName, bigint>> = await db.$queryRaw`
+      SELECT
+        COUNT(DISTINCT "visitorId") FILTER (WHERE "type" = 'widget_open') AS "opened",
+        COUNT(DISTINCT "visitorId") FILTER (WHERE "type" = 'message') AS "messaged",
+        COUNT(DISTINCT "visitorId") FILTER (WHERE "type" = 'message' AND "productsShown" > 0) AS "productShown",
+        COUNT(DISTINCT "visitorId") FILTER (WHERE "type" = 'click') AS "clicked",
+        COUNT(DISTINCT "visitorId") FILTER (WHERE "type" = 'add_to_cart') AS "addedToCart",
+        COUNT(DISTINCT "visitorId") FILTER (WHERE "type" = 'conversion') AS "ordered"
+      FROM "AnalyticsEvent"
+      WHERE "shop" = ${shop}
+        AND "occurredAt" >= ${period.startDate}
+        AND "occurredAt" <= ${period.endDate}
+    `;
+
+    return Object.fromEntries(
+      FUNNEL_STEPS.map(step => [step, Number(row?.[step] ?? 0)])
+    ) as Record<FunnelStepName, number>;
+  }
+
+  /**
+   * Conversations by how they started (typed question, quick-action or quick-reply button),
+   * compared with the previous period
+   */
+  async getEntryPointBreakdown(shop: string, period: AnalyticsPeriod): Promise<EntryPointBreakdown[]> {
+    try {
+      const previous = AnalyticsService.getPreviousPeriod(period);
+      const [current, before] = await Promise.all([
+        this.countEntryPoints(shop, period),
+        this.countEntryPoints(shop, previous),
+      ]);
+
+      const totalSessions = current.reduce((sum, row) => sum + row.sessions, 0);
+
+      return current
+        .map(row => {
+          const previousSessions = before.find(prev => prev.entryPoint === row.entryPoint)?.sessions ?? 0;
+          return {
+            entryPoint: row.entryPoint,
+            sessions: row.sessions,
+            previousSessions,
+            change: percentChange(row.sessions, previousSessions),
+            messages: row.messages,
+            share: toRate(row.sessions, totalSessions),
+            conversionRate: toRate(row.converted, row.sessions),
+          };
+        })
+        .sort((a, b) => b.sessions - a.sessions);
+    } catch (error: any) {
+      logError(error, 'Error getting entry point breakdown');
+      return [];
+    }
+  }
+
+  private async countEntryPoints(shop: string, period: AnalyticsPeriod): Promise<EntryPointCounts[]> {
+    const rows: Array<{ entryPoint: WidgetEntryPoint; sessions: bigint; messages: bigint; converted: bigint }> = await db.$queryRaw`
+      SELECT
+        m."entryPoint" AS "entryPoint",
+        COUNT(*) FILTER (WHERE m."isNewSession") AS "sessions",
+        COUNT(*) AS "messages",
+        COUNT(*) FILTER (WHERE m."isNewSession" AND c."chatSessionId" IS NOT NULL) AS "converted"
+      FROM "AnalyticsEvent" m
+      LEFT JOIN (
+        SELECT DISTINCT "chatSessionId" FROM "AnalyticsEvent"
+        WHERE "shop" = ${shop} AND "type" = 'conversion'
+      ) c ON c."chatSessionId" = m."chatSessionId"
+      WHERE m."shop" = ${shop}
+        AND m."type" = 'message'
+        AND m."entryPoint" IS NOT NULL
+        AND m."occurredAt" >= ${period.startDate}
+        AND m."occurredAt" <= ${period.endDate}
+      GROUP BY m."entryPoint"
+    `;
+
+    return rows.map(row => ({
+      entryPoint: row.entryPoint,
+      sessions: Number(row.sessions),
+      messages: Number(row.messages),
+      converted: Number(row.converted),
+    }));
+  }
+
+  /**
+   * Weekly cohorts of visitors (UserProfile) by the week they first chatted, with the share
+   * that started another conversation in each following week. Covers the ANALYTICS.COHORT_WEEKS
+   * weeks up to the end of the period.
+   */
+  async getWeeklyCohorts(shop: string, period: AnalyticsPeriod): Promise<WeeklyCohort[]> {
+    try {
+      const until = period.endDate;
+      const lastWeek = startOfUTCWeek(until);
+      const since = new Date(lastWeek.getTime() - (ANALYTICS.COHORT_WEEKS - 1) * WEEK_MS);
+
+      const [sizes, activity] = await Promise.all([
+        db.$queryRaw<Array<{ cohort: Date; visitors: bigint }>>`
+          SELECT date_trunc('week', "createdAt") AS "cohort", COUNT(*) AS "visitors"
+          FROM "UserProfile"
+          WHERE "shop" = ${shop} AND "createdAt" >= ${since} AND "createdAt" <= ${until}
+          GROUP BY 1
+        `,
+        db.$queryRaw<Array<{ cohort: Date; week: number; visitors: bigint }>>`
+          SELECT
+            date_trunc('week', p."createdAt") AS "cohort",
+            FLOOR(EXTRACT(EPOCH FROM (s."createdAt" - date_trunc('week', p."createdAt"))) / 604800)::int AS "week",
+            COUNT(DISTINCT p."id") AS "visitors"
+          FROM "UserProfile" p
+          JOIN "ChatSession" s ON s."userProfileId" = p."id"
+          WHERE p."shop" = ${shop}
+            AND p."createdAt" >= ${since} AND p."createdAt" <= ${until}
+            AND s."createdAt" <= ${until}
+          GROUP BY 1, 2
+        `,
+      ]);
+
+      return sizes
+        .map(({ cohort, visitors }) => {
+          const start = new Date(cohort);
+          const size = Number(visitors);
+          // Weeks of this cohort that have started by the end of the period
+          const weeks = Math.floor((lastWeek.getTime() - start.getTime()) / WEEK_MS) + 1;
+
+          return {
+            weekStart: start.toISOString().slice(0, 10),
+            visitors: size,
+            retention: Array.from({ length: weeks }, (_, week) => {
+              const active = activity.find(row => new Date(row.cohort).getTime() === start.getTime() && row.week === week);
+              return toRate(Number(active?.visitors ?? 0), size);
+            }),
+          };
+        })
+        .sort((a, b) => a.weekStart.localeCompare(b.weekStart));
+    } catch (error: any) {
+      logError(error, 'Error getting weekly cohorts');
+      return [];
+    }
+  }
+
+  /**
+   * User questions whose reply came from the fallback responder or had a confidence below
+   * AI.MIN_CONFIDENCE_THRESHOLD, most recent first
+   */
+  async getUnansweredQuestions(shop: string, period: AnalyticsPeriod, limit: number = 50): Promise<UnansweredQuestion[]> {
+    try {
+      const replies: Array<{ sessionId: string; timestamp: Date; confidence: number | null; metadata: string }> =
+        await db.chatMessage.findMany({
+          where: {
+            role: 'assistant',
+            session: { shop },
+            timestamp: { gte: period.startDate, lte: period.endDate },
+            OR: [
+              { confidence: { lt: AI.MIN_CONFIDENCE_THRESHOLD } },
+              { metadata: { contains: '"messageType":"fallback_mode"' } },
+            ],
+          },
+          orderBy: { timestamp: 'desc' },
+          take: limit,
+          select: { sessionId: true, timestamp: true, confidence: true, metadata: true },
+        });
+      if (replies.length === 0) return [];
+
+      const questions: Array<{ sessionId: string; timestamp: Date; content: string }> = await db.chatMessage.findMany({
+        where: {
+          role: 'user',
+          sessionId: { in: [...new Set(replies.map(reply => reply.sessionId))] },
+          timestamp: { lte: period.endDate },
+        },
+        orderBy: { timestamp: 'desc' },
+        select: { sessionId: true, timestamp: true, content: true },
+      });
+
+      const result: UnansweredQuestion[] = [];
+      for (const reply of replies) {
+        // The user message the assistant was replying to
+        const question = questions.find(q => q.sessionId === reply.sessionId && q.timestamp <= reply.timestamp);
+        if (!question) continue;
+
+        result.push({
+          question: question.content,
+          reason: reply.metadata.includes('"messageType":"fallback_mode"') ? 'fallback' : 'low_confidence',
+          confidence: reply.confidence,
+          askedAt: question.timestamp,
+          chatSessionId: reply.sessionId,
+        });
+      }
+      return result;
+    } catch (error: any) {
+      logError(error, 'Error getting unanswered questions');
+      return [];
+    }
+  }
+
+  /**
+   * Sessions, messages, product clicks and ratings of the period, for the JSON / XLSX exports.
+   * Each list is capped at ANALYTICS.EXPORT_MAX_ROWS.
+   */
+  async getExportData(shop: string, period: AnalyticsPeriod): Promise<AnalyticsExport> {
+    const range = { gte: period.startDate, lte: period.endDate };
+
+    const [overview, sessions, messages, products, ratings] = await Promise.all([
+      this.getOverview(shop, period),
+      db.chatSession.findMany({
+        where: { shop, createdAt: range },
+        orderBy: { createdAt: 'asc' },
+        take: ANALYTICS.EXPORT_MAX_ROWS,
+        select: {
+          id: true,
+          createdAt: true,
+          lastMessageAt: true,
+          status: true,
+          escalatedAt: true,
+          rating: true,
+          _count: { select: { messages: true, conversions: true } },
+        },
+      }),
+      db.chatMessage.findMany({
+        where: { session: { shop }, timestamp: range },
+        orderBy: { timestamp: 'asc' },
+        take: ANALYTICS.EXPORT_MAX_ROWS,
+        select: {
+          sessionId: true,
+          timestamp: true,
+          role: true,
+          content: true,
+          intent: true,
+          sentiment: true,
+          confidence: true,
+        },
+      }),
+      this.getTopProducts(shop, period, ANALYTICS.EXPORT_MAX_ROWS),
+      db.chatSession.findMany({
+        where: { shop, rating: { not: null }, ratedAt: range },
+        orderBy: { ratedAt: 'asc' },
+        take: ANALYTICS.EXPORT_MAX_ROWS,
+        select: { id: true, rating: true, ratingComment: true, ratedAt: true },
+      }),
+    ]);
+
+    return {
+      shop,
+      period: { startDate: period.startDate.toISOString(), endDate: period.endDate.toISOString() },
+      overview,
+      sessions: sessions.map((session: any) => ({
+        id: session.id,
+        createdAt: session.createdAt,
+        lastMessageAt: session.lastMessageAt,
+        messages: session._count.messages,
+        status: session.status,
+        escalatedAt: session.escalatedAt,
+        rating: session.rating,
+        orders: session._count.conversions,
+      })),
+      messages,
+      products,
+      ratings: ratings.map((session: any) => ({
+        sessionId: session.id,
+        rating: session.rating,
+        comment: session.ratingComment,
+        ratedAt: session.ratedAt,
+      })),
+    };
+  }
+
+  async exportToJSON(shop: string, period: AnalyticsPeriod): Promise<string> {
+    return JSON.stringify(await this.getExportData(shop, period), null, 2);
+  }
+
+  /**
+   * Export as an Excel workbook with a sheet each for sessions, messages, products and ratings
+   */
+  async exportToXLSX(shop: string, period: AnalyticsPeriod): Promise<Buffer> {
+    const data = await this.getExportData(shop, period);
+    const workbook = new ExcelJS.Workbook();
+    workbook.created = new Date();
+
+    const addSheet = (name: string, columns: Array<{ header: string; key: string; width?: number }>, rows: object[]) => {
+      const sheet = workbook.addWorksheet(name);
+      sheet.columns = columns.map(column => ({ width: 18, ...column }));
+      sheet.getRow(1).font = { bold: true };
+      sheet.addRows(rows);
+    };
+
+    addSheet('Sessions', [
+      { header: 'Session', key: 'id', width: 28 },
+      { header: 'Started', key: 'createdAt' },
+      { header: 'Last message', key: 'lastMessageAt' },
+      { header: 'Messages', key: 'messages' },
+      { header: 'Status', key: 'status' },
+      { header: 'Escalated', key: 'escalatedAt' },
+      { header: 'Rating', key: 'rating' },
+      { header: 'Orders', key: 'orders' },
+    ], data.sessions);
+
+    addSheet('Messages', [
+      { header: 'Session', key: 'sessionId', width: 28 },
+      { header: 'Time', key: 'timestamp' },
+      { header: 'Role', key: 'role' },
+      { header: 'Message', key: 'content', width: 80 },
+      { header: 'Intent', key: 'intent' },
+      { header: 'Sentiment', key: 'sentiment' },
+      { header: 'Confidence', key: 'confidence' },
+    ], data.messages);
+
+    addSheet('Products', [
+      { header: 'Product', key: 'productId', width: 36 },
+      { header: 'Title', key: 'title', width: 40 },
+      { header: 'Clicks', key: 'clicks' },
+    ], data.products);
+
+    addSheet('Ratings', [
+      { header: 'Session', key: 'sessionId', width: 28 },
+      { header: 'Rating', key: 'rating' },
+      { header: 'Comment', key: 'comment', width: 60 },
+      { header: 'Rated', key: 'ratedAt' },
+    ], data.ratings);
+
+    return Buffer.from(await workbook.xlsx.writeBuffer());
+  }
+
   /**
    * Export analytics data as CSV
    */
@@ -684,6 +1325,34 @@ export class AnalyticsService {
 
     return { startDate, endDate, days };
   }
+
+  /**
+   * Helper: The period of the same length right before this one
+   */
+  static getPreviousPeriod(period: AnalyticsPeriod): AnalyticsPeriod {
+    // endDate is inclusive (23:59:59.999)
+    const length = period.endDate.getTime() - period.startDate.getTime() + 1;
+    return {
+      startDate: new Date(period.startDate.getTime() - length),
+      endDate: new Date(period.startDate.getTime() - 1),
+      days: period.days,
+    };
+  }
+}
+
+function toRate(count: number, total: number): number {
+  return total > 0 ? Math.round((count / total) * 1000) / 10 : 0;
+}
+
+function percentChange(current: number, previous: number): number {
+  return previous > 0 ? Math.round(((current - previous) / previous) * 1000) / 10 : 0;
+}
+
+// Monday 00:00 UTC, like Postgres date_trunc('week', ...)
+function startOfUTCWeek(date: Date): Date {
+  const day = new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()));
+  day.setUTCDate(day.getUTCDate() - ((day.getUTCDay() + 6) % 7));
+  return day;
 }
 
 export const analyticsService = new AnalyticsService();
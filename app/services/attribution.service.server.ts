@@ -0,0 +1,201 @@
+/**
+ * Conversion Attribution Service
+ *
+ * Ties Shopify orders to chat sessions. The widgets write the chat session id to a cart
+ * attribute; the orders/create webhook hands the order to recordOrder(), which attributes
+ * it when the conversation started within the shop's attribution window, works out which
+ * line items the assistant recommended, and records `order` / `conversion` analytics events
+ * (every order counts towards the baseline used for conversion rate and AOV uplift).
+ */
+
+import { prisma as db } from "../db.server";
+import { createLogger } from '../lib/logger.server';
+import { CHAT_SESSION_CART_ATTRIBUTE, DEFAULT_ATTRIBUTION_WINDOW_DAYS } from '../lib/attribution';
+import { recordAnalyticsEvent } from '../lib/analytics-events.server';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+interface MoneySet {
+  shop_money?: { amount: string; currency_code: string };
+}
+
+/**
+ * Fields of the orders/create payload used for attribution
+ */
+export interface OrderWebhookPayload {
+  id: number | string;
+  admin_graphql_api_id?: string;
+  name?: string;
+  created_at?: string;
+  currency?: string;
+  total_price?: string;
+  total_price_set?: MoneySet;
+  note_attributes?: Array<{ name: string; value: string }>;
+  line_items?: Array<{
+    product_id: number | null;
+    quantity: number;
+    price: string;
+    price_set?: MoneySet;
+    total_discount?: string;
+    total_discount_set?: MoneySet;
+  }>;
+}
+
+/**
+ * The part of an order kept for attribution (queued as the job payload)
+ */
+export interface AttributableOrder {
+  orderId: string;
+  orderName: string | null;
+  createdAt: string;
+  // Shop currency
+  totalPrice: number;
+  currency: string;
+  chatSessionId: string | null;
+  lineItems: Array<{ productId: string; amount: number }>;
+}
+
+export type AttributionResult = 'attributed' | 'unattributed' | 'duplicate';
+
+function toAmount(set: MoneySet | undefined, fallback: string | undefined): number {
+  const amount = parseFloat(set?.shop_money?.amount ?? fallback ?? '0');
+  return isNaN(amount) ? 0 : amount;
+}
+
+function toProductGid(id: string | number): string {
+  const value = String(id);
+  return /^\d+$/.test(value) ? `gid://shopify/Product/${value}` : value;
+}
+
+export function toAttributableOrder(payload: OrderWebhookPayload): AttributableOrder {
+  const chatSessionId = payload.note_attributes
+    ?.find(attribute => attribute.name === CHAT_SESSION_CART_ATTRIBUTE)
+    ?.value?.trim();
+
+  return {
+    orderId: payload.admin_graphql_api_id || `gid://shopify/Order/${payload.id}`,
+    orderName: payload.name || null,
+    createdAt: payload.created_at || new Date().toISOString(),
+    totalPrice: toAmount(payload.total_price_set, payload.total_price),
+    currency: payload.total_price_set?.shop_money?.currency_code || payload.currency || 'USD',
+    // Session ids are cuids; anything else was not written by the widget
+    chatSessionId: chatSessionId && /^[a-z0-9]{20,40}$/i.test(chatSessionId) ? chatSessionId : null,
+    lineItems: (payload.line_items || [])
+      .filter(item => item.product_id)
+      .map(item => ({
+        productId: toProductGid(item.product_id!),
+        amount: toAmount(item.price_set, item.price) * item.quantity
+          - toAmount(item.total_discount_set, item.total_discount),
+      })),
+  };
+}
+
+class AttributionService {
+  private logger = createLogger({ service: 'AttributionService' });
+
+  async recordOrder(shop: string, order: AttributableOrder): Promise<AttributionResult> {
+    const orderDate = new Date(order.createdAt);
+    const match = order.chatSessionId ? await this.matchSession(shop, order, orderDate) : null;
+
+    if (match) {
+      try {
+        await db.chatConversion.create({
+          data: {
+            shop,
+            orderId: order.orderId,
+            orderName: order.orderName,
+            chatSessionId: match.chatSessionId,
+            totalPrice: order.totalPrice,
+            currency: order.currency,
+            influencedRevenue: match.influencedRevenue,
+            productIds: JSON.stringify(match.productIds),
+            clicked: match.clicked,
+            orderCreatedAt: orderDate,
+          },
+        });
+      } catch (error: any) {
+        // Unique (shop, orderId): this order was already counted
+        if (error?.code === 'P2002') return 'duplicate';
+        throw error;
+      }
+    }
+
+    // Every order feeds the baseline; attributed ones are also conversions
+    await recordAnalyticsEvent(shop, {
+      type: 'order',
+      orderId: order.orderId,
+      revenue: order.totalPrice,
+      occurredAt: orderDate,
+    });
+    if (match) {
+      await recordAnalyticsEvent(shop, {
+        type: 'conversion',
+        chatSessionId: match.chatSessionId,
+        visitorId: match.visitorId,
+        orderId: order.orderId,
+        revenue: order.totalPrice,
+        occurredAt: orderDate,
+      });
+      this.logger.info({
+        shop,
+        orderId: order.orderId,
+        chatSessionId: match.chatSessionId,
+        influencedProducts: match.productIds.length,
+      }, 'Order attributed to chat');
+    }
+
+    return match ? 'attributed' : 'unattributed';
+  }
+
+  /**
+   * The order's chat session, if it belongs to the shop and started within the attribution window
+   */
+  private async matchSession(shop: string, order: AttributableOrder, orderDate: Date) {
+    const [session, settings] = await Promise.all([
+      db.chatSession.findFirst({
+        where: { id: order.chatSessionId!, shop },
+        select: {
+          id: true,
+          createdAt: true,
+          userProfile: { select: { sessionId: true } },
+          messages: {
+            where: { role: 'assistant' },
+            select: { productsShown: true, productClicked: true },
+          },
+        },
+      }),
+      db.widgetSettings.findUnique({ where: { shop }, select: { attributionWindowDays: true } }),
+    ]);
+    if (!session) return null;
+
+    const windowDays = settings?.attributionWindowDays || DEFAULT_ATTRIBUTION_WINDOW_DAYS;
+    const elapsed = orderDate.getTime() - new Date(session.createdAt).getTime();
+    if (elapsed < 0 || elapsed > windowDays * DAY_MS) {
+      this.logger.debug({ shop, orderId: order.orderId, windowDays }, 'Order outside the attribution window');
+      return null;
+    }
+
+    const shown = new Set<string>();
+    const clicked = new Set<string>();
+    for (const message of session.messages as Array<{ productsShown: string | null; productClicked: string | null }>) {
+      try {
+        for (const id of JSON.parse(message.productsShown || '[]')) shown.add(toProductGid(id));
+      } catch {
+        // Skip malformed product lists
+      }
+      if (message.productClicked) clicked.add(toProductGid(message.productClicked));
+    }
+
+    const influenced = order.lineItems.filter(item => shown.has(item.productId));
+
+    return {
+      chatSessionId: session.id as string,
+      visitorId: (session.userProfile?.sessionId ?? null) as string | null,
+      productIds: [...new Set(influenced.map(item => item.productId))],
+      influencedRevenue: Math.round(influenced.reduce((sum, item) => sum + item.amount, 0) * 100) / 100,
+      clicked: influenced.some(item => clicked.has(item.productId)),
+    };
+  }
+}
+
+export const attributionService = new AttributionService();
@@ -0,0 +1,360 @@
+/**
+ * Catalog Sync Service
+ *
+ * Keeps product embeddings in step with the Shopify catalog:
+ * - products/create and products/update re-embed a product only when the text
+ *   built by EmbeddingService.createProductText changes (compared by content hash)
+ * - products/delete (and unpublished products) remove the stored embedding
+ * - on install, a bulk operation exports the catalog once; the
+ *   bulk_operations/finish webhook downloads the JSONL result and embeds it
+ */
+
+import type { AdminApiContext } from '@shopify/shopify-app-remix/server';
+import { prisma as db } from '../db.server';
+import { createLogger, logError } from '../lib/logger.server';
+import { readLines } from '../lib/stream-lines.server';
+import {
+  getEmbeddingService,
+  isEmbeddingServiceAvailable,
+  type Product,
+} from './embedding.service';
+
+/**
+ * Product payload as delivered by the products/* webhooks (REST shape)
+ */
+export interface ProductWebhookPayload {
+  id: number | string;
+  admin_graphql_api_id?: string;
+  title?: string;
+  handle?: string;
+  body_html?: string | null;
+  status?: string;
+}
+
+export type ProductSyncResult = 'embedded' | 'unchanged' | 'deleted' | 'skipped';
+
+export interface BackfillResult {
+  processed: number;
+  embedded: number;
+  removed: number;
+}
+
+// Products embedded per OpenAI request while processing the bulk export
+const BACKFILL_BATCH_SIZE = 50;
+
+const BULK_PRODUCTS_QUERY = `
+  {
+    products(query: "status:active") {
+      edges {
+        node {
+          id
+          title
+          handle
+          description
+        }
+      }
+    }
+  }
+`;
+
+/**
+ * Shopify product GID for a numeric webhook id
+ */
+export function toProductGid(id: number | string): string {
+  const value = String(id);
+  return value.startsWith('gid://') ? value : `gid://shopify/Product/${value}`;
+}
+
+/**
+ * Strip HTML from body_html so webhook products hash the same as the
+ * plain-text `description` returned by the GraphQL API
+ */
+export function htmlToText(html: string): string {
+  return html
+    .replace(/<(br|\/p|\/div|\/li|\/h[1-6])\s*\/?>/gi, ' ')
+    .replace(/<[^>]*>/g, '')
+    .replace(/&nbsp;/g, ' ')
+    .replace(/&amp;/g, '&')
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&#39;/g, "'")
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+export function productFromWebhook(payload: ProductWebhookPayload): Product {
+  return {
+    id: payload.admin_graphql_api_id || toProductGid(payload.id),
+    title: payload.title || '',
+    handle: payload.handle || '',
+    description: payload.body_html ? htmlToText(payload.body_html) : '',
+  };
+}
+
+export class CatalogSyncService {
+  private logger = createLogger({ service: 'CatalogSyncService' });
+
+  /**
+   * Handle a products/create or products/update webhook
+   */
+  async syncProduct(shop: string, payload: ProductWebhookPayload): Promise<ProductSyncResult> {
+    const product = productFromWebhook(payload);
+
+    // Only active products are searchable from the storefront
+    if (payload.status && payload.status !== 'active') {
+      await this.deleteProduct(shop, product.id);
+      return 'deleted';
+    }
+
+    if (!isEmbeddingServiceAvailable()) {
+      this.logger.debug({ shop, productId: product.id }, 'Embeddings unavailable, skipping product sync');
+      return 'skipped';
+    }
+
+    const embeddingService = getEmbeddingService();
+    const hash = embeddingService.getContentHash(product);
+    const stored = await embeddingService.getContentHashes(shop, [product.id]);
+
+    if (stored.get(product.id) === hash) {
+      this.logger.debug({ shop, productId: product.id }, 'Product text unchanged, skipping re-embed');
+      return 'unchanged';
+    }
+
+    const embedding = await embeddingService.generateProductEmbedding(product);
+    await embeddingService.storeProductEmbedding(shop, product, embedding);
+
+    this.logger.info({ shop, productId: product.id }, 'Product re-embedded');
+    return 'embedded';
+  }
+
+  /**
+   * Handle a products/delete webhook
+   */
+  async deleteProduct(shop: string, productId: string): Promise<void> {
+    if (!isEmbeddingServiceAvailable()) {
+      await db.productEmbedding.deleteMany({ where: { shop, productId } });
+      return;
+    }
+
+    const count = await getEmbeddingService().deleteProductEmbedding(shop, productId);
+    this.logger.info({ shop, productId, removed: count }, 'Product embedding removed');
+  }
+
+  /**
+   * Start the initial catalog backfill for a shop (runs once per install).
+   * Returns the bulk operation id, or null when skipped.
+   */
+  async startBulkBackfill(
+    shop: string,
+    admin: AdminApiContext,
+    options: { force?: boolean } = {}
+  ): Promise<string | null> {
+    if (!isEmbeddingServiceAvailable()) {
+      this.logger.debug({ shop }, 'Embeddings unavailable, skipping catalog backfill');
+      return null;
+    }
+
+    const existing = await db.catalogSync.findUnique({ where: { shop } });
+    if (!options.force && existing && ['running', 'completed'].includes(existing.status)) {
+      return null;
+    }
+
+    try {
+      const response = await admin.graphql(
+        `#graphql
+        mutation bulkOperationRunQuery($query: String!) {
+          bulkOperationRunQuery(query: $query) {
+            bulkOperation { id status }
+            userErrors { field message }
+          }
+        }`,
+        { variables: { query: BULK_PRODUCTS_QUERY } }
+      );
+      const data = await response.json();
+      const result = data.data?.bulkOperationRunQuery;
+      const userErrors = result?.userErrors || [];
+
+      if (userErrors.length > 0 || !result?.bulkOperation?.id) {
+        throw new Error(userErrors.map((e: { message: string }) => e.message).join(', ') || 'Bulk operation not created');
+      }
+
+      const bulkOperationId: string = result.bulkOperation.id;
+
+      await db.catalogSync.upsert({
+        where: { shop },
+        update: {
+          status: 'running',
+          bulkOperationId,
+          productsProcessed: 0,
+          productsEmbedded: 0,
+          error: null,
+          startedAt: new Date(),
+          completedAt: null,
+        },
+        create: { shop, status: 'running', bulkOperationId, startedAt: new Date() },
+      });
+
+      this.logger.info({ shop, bulkOperationId }, 'Catalog backfill started');
+      return bulkOperationId;
+    } catch (error) {
+      logError(error, 'Failed to start catalog backfill', { shop });
+      await this.markFailed(shop, error);
+      return null;
+    }
+  }
+
+  /**
+   * Handle a bulk_operations/finish webhook: download the export and embed it
+   */
+  async completeBulkBackfill(
+    shop: string,
+    admin: AdminApiContext,
+    bulkOperationId: string
+  ): Promise<BackfillResult | null> {
+    const sync = await db.catalogSync.findUnique({ where: { shop } });
+    if (!sync || sync.bulkOperationId !== bulkOperationId) {
+      // Not one of ours (another app feature or a superseded run)
+      return null;
+    }
+
+    try {
+      const response = await admin.graphql(
+        `#graphql
+        query bulkOperation($id: ID!) {
+          node(id: $id) {
+            ... on BulkOperation { id status errorCode url partialDataUrl }
+          }
+        }`,
+        { variables: { id: bulkOperationId } }
+      );
+      const data = await response.json();
+      const operation = data.data?.node;
+
+      if (!operation || operation.status !== 'COMPLETED') {
+        throw new Error(`Bulk operation ${operation?.status || 'missing'}${operation?.errorCode ? ` (${operation.errorCode})` : ''}`);
+      }
+
+      // An empty catalog produces no result file
+      const result = operation.url
+        ? await this.processBulkExport(shop, operation.url)
+        : { processed: 0, embedded: 0, removed: 0 };
+
+      await db.catalogSync.update({
+        where: { shop },
+        data: {
+          status: 'completed',
+          productsProcessed: result.processed,
+          productsEmbedded: result.embedded,
+          completedAt: new Date(),
+        },
+      });
+
+      this.logger.info({ shop, ...result }, 'Catalog backfill completed');
+      return result;
+    } catch (error) {
+      logError(error, 'Catalog backfill failed', { shop, bulkOperationId });
+      await this.markFailed(shop, error);
+      throw error;
+    }
+  }
+
+  /**
+   * Stream the JSONL export, embed new/changed products in batches and
+   * drop embeddings of products that are no longer in the catalog
+   */
+  private async processBulkExport(shop: string, url: string): Promise<BackfillResult> {
+    const response = await fetch(url);
+    if (!response.ok || !response.body) {
+      throw new Error(`Failed to download bulk export: ${response.status}`);
+    }
+
+    const seen = new Set<string>();
+    let processed = 0;
+    let embedded = 0;
+    let batch: Product[] = [];
+
+    const flush = async () => {
+      embedded += await this.embedBatch(shop, batch);
+      batch = [];
+    };
+
+    for await (const line of readLines(response.body)) {
+      if (!line.trim()) continue;
+
+      const node = JSON.parse(line) as { id: string; title?: string; handle?: string; description?: string | null };
+      const product: Product = {
+        id: node.id,
+        title: node.title || '',
+        handle: node.handle || '',
+        description: node.description || '',
+      };
+
+      seen.add(product.id);
+      processed++;
+      batch.push(product);
+
+      if (batch.length >= BACKFILL_BATCH_SIZE) {
+        await flush();
+      }
+    }
+    await flush();
+
+    const existing = await db.productEmbedding.findMany({
+      where: { shop },
+      select: { productId: true },
+    });
+    const stale = existing
+      .map((row: { productId: string }) => row.productId)
+      .filter((productId: string) => !seen.has(productId));
+
+    let removed = 0;
+    for (let i = 0; i < stale.length; i += 500) {
+      const result = await db.productEmbedding.deleteMany({
+        where: { shop, productId: { in: stale.slice(i, i + 500) } },
+      });
+      removed += result.count;
+    }
+
+    return { processed, embedded, removed };
+  }
+
+  /**
+   * Embed the products of a batch whose content hash changed (one API call)
+   */
+  private async embedBatch(shop: string, products: Product[]): Promise<number> {
+    if (products.length === 0) return 0;
+
+    const embeddingService = getEmbeddingService();
+    const stored = await embeddingService.getContentHashes(shop, products.map(p => p.id));
+    const changed = products.filter(
+      product => stored.get(product.id) !== embeddingService.getContentHash(product)
+    );
+
+    if (changed.length === 0) return 0;
+
+    const embeddings = await embeddingService.generateEmbeddings(
+      changed.map(product => embeddingService.createProductText(product))
+    );
+
+    for (let i = 0; i < changed.length; i++) {
+      const embedding = embeddings[i];
+      if (embedding) {
+        await embeddingService.storeProductEmbedding(shop, changed[i]!, embedding);
+      }
+    }
+
+    return changed.length;
+  }
+
+  private async markFailed(shop: string, error: unknown): Promise<void> {
+    const message = error instanceof Error ? error.message : String(error);
+    await db.catalogSync.upsert({
+      where: { shop },
+      update: { status: 'failed', error: message },
+      create: { shop, status: 'failed', error: message },
+    }).catch((dbError: unknown) => logError(dbError, 'Failed to record catalog sync failure', { shop }));
+  }
+}
+
+export const catalogSync = new CatalogSyncService();
@@ -0,0 +1,454 @@
+import { createLogger, logError } from '../lib/logger.server';
+import { AI } from '../config/limits';
+import type {
+  EnhancedProductRecommendation,
+  N8NRequest,
+  N8NWebhookResponse,
+  ProcessMessageOptions,
+  ShopPolicies,
+} from './n8n.service.server';
+import {
+  executeChatTool,
+  getChatToolDefinitions,
+  type ChatToolCall,
+  type ChatToolContext,
+  type ChatToolProduct,
+} from '../lib/chat-tools.server';
+import type { LLMMessage, LLMProvider, LLMToolCall, LLMUsage } from '../lib/llm-provider.server';
+import type { OrderCard } from '../lib/order-lookup.server';
+import type { KnowledgeCitation } from '../lib/knowledge';
+
+/**
+ * Built-in Chat Engine
+ *
+ * Answers shopper messages by calling the shop's LLM provider directly (OpenAI,
+ * Anthropic, Azure OpenAI or Ollama - lib/llm-provider.server.ts), so a shop can run the
+ * assistant without hosting an N8N workflow. It takes the same N8NRequest the
+ * webhook receives (products, policies, history, languageInstruction) and
+ * returns an N8NWebhookResponse, so the chat endpoint can use either one.
+ *
+ * With tools enabled (AI.CHAT_TOOLS_ENABLED), the model looks up products, stock,
+ * policies and orders itself (lib/chat-tools.server.ts) instead of relying on what the
+ * request carries; each call is returned in `toolCalls`.
+ *
+ * The model writes its reply first and then a metadata line after META_DELIMITER
+ * (recommended product IDs, quick replies, escalation flag, and the numbers of the FAQ
+ * entries / knowledge base passages it used, returned as `citations`). When streaming,
+ * only the reply text is forwarded to the shopper. Token usage of all rounds is
+ * returned in `usage`.
+ */
+
+// Anything that can answer a chat request (N8NService or ChatEngineService)
+export interface ChatResponder {
+  processUserMessage(request: N8NRequest, options?: ProcessMessageOptions): Promise<N8NWebhookResponse>;
+}
+
+export interface ChatEngineOptions {
+  model?: string;
+  // Answers the request when the provider call fails (normally the N8NService local fallback)
+  fallback?: ChatResponder;
+  // Enables tool calling against this shop's Admin API
+  tools?: ChatToolContext;
+}
+
+export interface PromptOptions {
+  tools?: boolean;
+}
+
+export const META_DELIMITER = '<<<META>>>';
+
+const MAX_HISTORY_MESSAGES = 10;
+const MAX_DESCRIPTION_LENGTH = 200;
+const MAX_QUICK_REPLIES = 4;
+
+function truncate(text: string, maxLength: number): string {
+  return text.length > maxLength ? `${text.substring(0, maxLength)}...` : text;
+}
+
+function formatPolicies(policies: ShopPolicies): string {
+  const sections: Array<[string, string | null | undefined]> = [
+    ['Returns / refunds', policies.returns],
+    ['Shipping', policies.shipping],
+    ['Privacy', policies.privacy],
+    ['Terms of service', policies.termsOfService],
+    ['Contact email', policies.contactEmail],
+    ['Contact phone', policies.contactPhone],
+  ];
+
+  return sections
+    .filter(([, value]) => !!value)
+    .map(([label, value]) => `${label}: ${truncate(String(value), 1500)}`)
+    .join('\n');
+}
+
+function formatProduct(product: any): string {
+  return JSON.stringify({
+    id: product.id,
+    title: product.title,
+    price: product.price,
+    compareAtPrice: product.compareAtPrice || undefined,
+    inStock: typeof product.inventory === 'number' ? product.inventory > 0 : undefined,
+    tags: Array.isArray(product.tags) ? product.tags.slice(0, 8) : undefined,
+    options: Array.isArray(product.options)
+      ? product.options.map((option: any) => `${option.name}: ${(option.values || []).join('/')}`)
+      : undefined,
+    description: product.description ? truncate(product.description, MAX_DESCRIPTION_LENGTH) : undefined,
+  });
+}
+
+interface PromptSource {
+  citation: KnowledgeCitation;
+  text: string;
+}
+
+/**
+ * Store knowledge sent with the request: FAQ entries, then knowledge base passages.
+ * Numbered [1..n] in the prompt so the model can say which ones it used.
+ */
+function listSources(context: NonNullable<N8NRequest['context']>): PromptSource[] {
+  return [
+    ...(context.customFaqs || []).map(faq => ({
+      citation: { type: 'faq' as const, title: faq.question },
+      text: `Q: ${faq.question}\nA: ${truncate(faq.answer, 1500)}`,
+    })),
+    ...(context.knowledge || []).map(passage => ({
+      citation: { type: passage.type, title: passage.title, ...(passage.url ? { url: passage.url } : {}) },
+      text: `From "${passage.title}": ${passage.content}`,
+    })),
+  ];
+}
+
+/**
+ * System prompt built from the request context
+ */
+export function buildSystemPrompt(request: N8NRequest, options: PromptOptions = {}): string {
+  const context = request.context || {};
+  const policies = context.storePolicies || context.shopPolicies;
+  const shopName = policies?.shopName || context.shopDomain || 'this store';
+
+  const parts: string[] = [
+    `You are the shopping assistant of the online store "${shopName}". Help customers find products and answer questions about the store.`,
+    'Be friendly and concise (a few sentences). Only recommend products from the product list below and never invent products, prices, stock or policies. If you do not know, say so and offer to connect the customer with the store team.',
+  ];
+
+  if (context.languageInstruction) {
+    parts.push(context.languageInstruction);
+  } else if (context.locale) {
+    parts.push(`Reply in the customer's language (store locale: ${context.locale}).`);
+  }
+
+  if (context.currency) {
+    parts.push(`Prices are in ${context.currency}.`);
+  }
+
+  if (context.isFirstMessage === false) {
+    parts.push('This is an ongoing conversation: do not greet the customer again.');
+  }
+
+  if (context.supportCategory) {
+    parts.push(`The customer is asking a support question (${context.supportCategory}). Answer from the store policies and do not recommend products.`);
+  }
+
+  if (options.tools) {
+    parts.push('Use the tools to look up products, stock, store policies and orders instead of guessing. Search before recommending products. Only look up an order when the customer gave the order number and, unless they are logged in, the email used for the order. When the customer wants to buy, offer an add-to-cart link.');
+  }
+
+  // With tools, the model fetches the policy it needs with get_policy
+  if (policies && !options.tools) {
+    const formatted = formatPolicies(policies);
+    if (formatted) {
+      parts.push(`Store policies:\n${formatted}`);
+    }
+  }
+
+  const sources = listSources(context);
+  if (sources.length > 0) {
+    parts.push(`Store knowledge (answers written by the store for similar questions and excerpts of its pages; use them when they answer the customer's question):\n${sources
+      .map((source, index) => `[${index + 1}] ${source.text}`)
+      .join('\n\n')}`);
+  }
+
+  if (context.searchFilters && Object.keys(context.searchFilters).length > 0) {
+    parts.push(`Filters understood from the customer's request: ${JSON.stringify(context.searchFilters)}`);
+  }
+
+  const products = (request.products || []).slice(0, AI.CHAT_MAX_PROMPT_PRODUCTS);
+  if (products.length > 0) {
+    parts.push(`Products (one JSON object per line):\n${products.map(formatProduct).join('\n')}`);
+  } else if (!context.supportCategory && !options.tools) {
+    parts.push('No products matched this request.');
+  }
+
+  parts.push(`After your reply, write a new line containing only ${META_DELIMITER} followed by one line of JSON:
+{"recommendedProductIds": [ids of the products you recommended, best first], "quickReplies": [up to ${MAX_QUICK_REPLIES} short follow-up questions the customer might ask, in their language], "requiresHumanEscalation": true if the customer asks for a human or you cannot help${sources.length > 0 ? ', "sources": [numbers of the store knowledge entries your reply is based on]' : ''}}`);
+
+  return parts.join('\n\n');
+}
+
+/**
+ * Chat messages sent to the model: system prompt, recent history, then the new message
+ */
+export function buildChatMessages(request: N8NRequest, options: PromptOptions = {}): LLMMessage[] {
+  const history = (request.context?.conversationHistory || [])
+    .filter(message => (message.role === 'user' || message.role === 'assistant') && message.content)
+    .slice(-MAX_HISTORY_MESSAGES)
+    .map(message => ({
+      role: message.role as 'user' | 'assistant',
+      content: message.content,
+    }));
+
+  return [
+    { role: 'system' as const, content: buildSystemPrompt(request, options) },
+    ...history,
+    { role: 'user' as const, content: request.userMessage },
+  ];
+}
+
+function toRecommendation(product: any, shopDomain?: string): EnhancedProductRecommendation {
+  return {
+    id: product.id,
+    title: product.title,
+    handle: product.handle,
+    price: product.price || '0.00',
+    originalPrice: product.compareAtPrice || undefined,
+    image: product.image,
+    description: product.description,
+    url: shopDomain && product.handle ? `https://${shopDomain}/products/${product.handle}` : undefined,
+    isAvailable: typeof product.inventory === 'number' ? product.inventory > 0 : undefined,
+  };
+}
+
+function parseMetadata(text: string): Record<string, unknown> {
+  const json = text.replace(/```(?:json)?/g, '').trim();
+  if (!json) return {};
+
+  try {
+    const parsed = JSON.parse(json);
+    return parsed && typeof parsed === 'object' ? parsed : {};
+  } catch {
+    return {};
+  }
+}
+
+/**
+ * Turn the raw model output into an N8NWebhookResponse.
+ * Recommended IDs are resolved against the request's products and those found by tools.
+ */
+export function parseEngineOutput(
+  text: string,
+  request: N8NRequest,
+  toolProducts: ChatToolProduct[] = []
+): N8NWebhookResponse {
+  const delimiterIndex = text.indexOf(META_DELIMITER);
+  const message = (delimiterIndex >= 0 ? text.substring(0, delimiterIndex) : text).trim();
+  const metadata = delimiterIndex >= 0
+    ? parseMetadata(text.substring(delimiterIndex + META_DELIMITER.length))
+    : {};
+
+  const isSupport = !!request.context?.supportCategory;
+  const productIds = Array.isArray(metadata.recommendedProductIds)
+    ? metadata.recommendedProductIds.map(String)
+    : [];
+
+  const candidates = [...(request.products || []), ...toolProducts];
+  const recommendations = isSupport ? [] : productIds
+    .map(id => candidates.find(product => product.id === id))
+    .filter(product => !!product)
+    .slice(0, AI.MAX_RECOMMENDATIONS)
+    .map(product => toRecommendation(product, request.context?.shopDomain));
+
+  const quickReplies = Array.isArray(metadata.quickReplies)
+    ? metadata.quickReplies.filter((reply): reply is string => typeof reply === 'string').slice(0, MAX_QUICK_REPLIES)
+    : [];
+
+  const sources = listSources(request.context || {});
+  // Several passages of the same document are cited once
+  const citations = new Map<string, KnowledgeCitation>();
+  for (const number of Array.isArray(metadata.sources) ? metadata.sources : []) {
+    const source = sources[Number(number) - 1];
+    if (source) {
+      citations.set(`${source.citation.type}:${source.citation.url || source.citation.title}`, source.citation);
+    }
+  }
+
+  return {
+    message,
+    messageType: isSupport ? 'support' : recommendations.length > 0 ? 'product_recommendation' : 'general',
+    recommendations,
+    quickReplies,
+    requiresHumanEscalation: metadata.requiresHumanEscalation === true,
+    citations: citations.size > 0 ? [...citations.values()] : undefined,
+    confidence: 0.8,
+    analytics: {
+      intentDetected: request.context?.intent,
+      productsShown: recommendations.length,
+    },
+    success: true,
+  };
+}
+
+/**
+ * Forward streamed text to `onToken`, holding back anything from META_DELIMITER on.
+ * Text that could be the start of the delimiter is buffered until the next chunk.
+ */
+export function createReplyStreamer(onToken: (token: string) => void) {
+  let text = '';
+  let emitted = 0;
+  let reachedMetadata = false;
+
+  return {
+    push(delta: string) {
+      text += delta;
+      if (reachedMetadata) return;
+
+      const delimiterIndex = text.indexOf(META_DELIMITER);
+      const safeEnd = delimiterIndex >= 0
+        ? delimiterIndex
+        : Math.max(emitted, text.length - (META_DELIMITER.length - 1));
+
+      if (safeEnd > emitted) {
+        onToken(text.substring(emitted, safeEnd));
+        emitted = safeEnd;
+      }
+      if (delimiterIndex >= 0) {
+        reachedMetadata = true;
+      }
+    },
+    end(): string {
+      if (!reachedMetadata && text.length > emitted) {
+        onToken(text.substring(emitted));
+        emitted = text.length;
+      }
+      return text;
+    },
+  };
+}
+
+export class ChatEngineService implements ChatResponder {
+  private provider: LLMProvider;
+  private model: string;
+  private fallback?: ChatResponder;
+  private tools?: ChatToolContext;
+  private logger = createLogger({ service: 'ChatEngine' });
+
+  constructor(provider: LLMProvider, options: ChatEngineOptions = {}) {
+    this.provider = provider;
+    this.model = options.model || provider.chatModel;
+    this.fallback = options.fallback;
+    this.tools = AI.CHAT_TOOLS_ENABLED ? options.tools : undefined;
+  }
+
+  async processUserMessage(
+    request: N8NRequest,
+    options: ProcessMessageOptions = {}
+  ): Promise<N8NWebhookResponse> {
+    const startTime = Date.now();
+
+    try {
+      const messages = buildChatMessages(request, { tools: !!this.tools });
+      const { text, toolCalls, toolProducts, orderCard, usage } = await this.run(messages, options.onToken);
+      const response = parseEngineOutput(text, request, toolProducts);
+
+      if (!response.message) {
+        throw new Error('Chat engine returned an empty reply');
+      }
+
+      response.analytics = { ...response.analytics, responseTime: Date.now() - startTime };
+      response.usage = { ...usage, model: this.model, provider: this.provider.name };
+      if (toolCalls.length > 0) {
+        response.toolCalls = toolCalls;
+      }
+      if (orderCard) {
+        response.orderCard = orderCard;
+        response.messageType = 'order_tracking';
+      }
+
+      this.logger.debug({
+        shop: request.context?.shopDomain,
+        provider: this.provider.name,
+        model: this.model,
+        recommendationsCount: response.recommendations?.length || 0,
+        toolCalls: toolCalls.map(call => call.name),
+        totalTokens: usage.totalTokens,
+        responseTime: response.analytics.responseTime,
+      }, 'Chat engine response generated');
+
+      return response;
+    } catch (error) {
+      logError(error, 'Built-in chat engine failed', {
+        shop: request.context?.shopDomain,
+        provider: this.provider.name,
+        model: this.model,
+      });
+
+      if (!this.fallback) throw error;
+      return this.fallback.processUserMessage(request);
+    }
+  }
+
+  /**
+   * Agent loop: let the model call tools until it answers (or runs out of rounds)
+   */
+  private async run(
+    messages: LLMMessage[],
+    onToken?: (token: string) => void
+  ): Promise<{ text: string; toolCalls: ChatToolCall[]; toolProducts: ChatToolProduct[]; orderCard?: OrderCard; usage: LLMUsage }> {
+    const toolCalls: ChatToolCall[] = [];
+    const toolProducts = new Map<string, ChatToolProduct>();
+    // Last order found by lookup_order, shown as an order card
+    let orderCard: OrderCard | undefined;
+    const usage: LLMUsage = { promptTokens: 0, completionTokens: 0, totalTokens: 0 };
+
+    for (let round = 0; ; round++) {
+      // The last round has no tools, so the model has to answer
+      const withTools = !!this.tools && round < AI.CHAT_MAX_TOOL_ROUNDS;
+      const { content, calls, usage: roundUsage } = await this.complete(messages, withTools, onToken);
+
+      usage.promptTokens += roundUsage.promptTokens;
+      usage.completionTokens += roundUsage.completionTokens;
+      usage.totalTokens += roundUsage.totalTokens;
+
+      if (calls.length === 0 || !this.tools) {
+        return { text: content, toolCalls, toolProducts: [...toolProducts.values()], orderCard, usage };
+      }
+
+      messages.push({ role: 'assistant', content, toolCalls: calls });
+
+      for (const toolCall of calls) {
+        const { result, call } = await executeChatTool(toolCall.name, toolCall.arguments, this.tools);
+        toolCalls.push(call);
+        for (const product of result.products || []) {
+          toolProducts.set(product.id, product);
+        }
+        if (result.order) orderCard = result.order;
+        messages.push({ role: 'tool', toolCallId: toolCall.id, content: JSON.stringify(result.output) });
+      }
+    }
+  }
+
+  /**
+   * One model call. Text is streamed to `onToken` (minus the metadata) when given.
+   */
+  private async complete(
+    messages: LLMMessage[],
+    withTools: boolean,
+    onToken?: (token: string) => void
+  ): Promise<{ content: string; calls: LLMToolCall[]; usage: LLMUsage }> {
+    const streamer = onToken ? createReplyStreamer(onToken) : null;
+
+    const result = await this.provider.chat({
+      model: this.model,
+      messages,
+      temperature: 0.4,
+      maxTokens: AI.CHAT_MAX_TOKENS,
+      tools: withTools ? getChatToolDefinitions() : undefined,
+      onToken: streamer ? token => streamer.push(token) : undefined,
+    });
+
+    return {
+      content: streamer ? streamer.end() : result.content,
+      calls: result.toolCalls,
+      usage: result.usage,
+    };
+  }
+}
@@ -0,0 +1,313 @@
+/**
+ * Customer Identity Service
+ *
+ * Recognizes logged-in storefront customers. The theme block renders a customer token,
+ * `<customer id>.<issued at>.<signature>`, where the signature is the HMAC-SHA256 of
+ * "<shop>:<customer id>:<issued at>" keyed with a per-shop secret. Liquid reads the secret from
+ * an app-data metafield (METAFIELD_NAMESPACE.METAFIELD_KEY) written when the shop authenticates;
+ * the secret itself never reaches the page, and the widget can't claim another customer.
+ *
+ * A chat request with a valid token attaches the customer to the visitor's profile and merges
+ * the customer's other profiles (earlier anonymous visits on other devices, previous logins)
+ * into it: preferences, browsing and purchase history, interactions and chat sessions. The
+ * profile is keyed by the widget session id, so it follows the customer to the device in use.
+ */
+
+import { createHmac, randomBytes, timingSafeEqual } from 'crypto';
+import type { AdminApiContext } from '@shopify/shopify-app-remix/server';
+import { prisma as db } from "../db.server";
+import { createLogger } from '../lib/logger.server';
+import { decryptShopSecret, encryptShopSecret } from '../lib/shop-keys.server';
+import { CUSTOMERS } from '../config/limits';
+import type { UserPreferences } from './personalization.service';
+
+export const METAFIELD_NAMESPACE = 'shopibot';
+export const METAFIELD_KEY = 'customer_token_secret';
+
+const MAX_AGE_MS = CUSTOMERS.TOKEN_MAX_AGE_HOURS * 60 * 60 * 1000;
+// Storefront pages are rendered by Shopify's clock
+const CLOCK_SKEW_MS = 5 * 60 * 1000;
+const TOKEN_PATTERN = /^(\d{1,20})\.(\d{1,12})\.([0-9a-f]{64})$/;
+
+const APP_INSTALLATION_QUERY = `#graphql
+  query currentAppInstallation {
+    currentAppInstallation { id }
+  }`;
+
+const METAFIELDS_SET_MUTATION = `#graphql
+  mutation setCustomerTokenSecret($metafields: [MetafieldsSetInput!]!) {
+    metafieldsSet(metafields: $metafields) {
+      userErrors { field message }
+    }
+  }`;
+
+interface StoredProfile {
+  id: string;
+  customerId: string | null;
+  sessionId: string;
+  preferences: string;
+  browsingHistory: string;
+  purchaseHistory: string;
+  interactions: string;
+}
+
+export interface IdentifyResult {
+  userProfileId: string;
+  mergedProfiles: number;
+  movedChatSessions: number;
+}
+
+/**
+ * The signature the theme block renders for a customer (hex HMAC-SHA256)
+ */
+export function signCustomerToken(secret: string, shop: string, customerId: string, issuedAt: number): string {
+  return createHmac('sha256', secret).update(`${shop}:${customerId}:${issuedAt}`).digest('hex');
+}
+
+/**
+ * The customer id of a token signed with the shop's secret, or null when it is malformed,
+ * forged, issued for another shop, or older than CUSTOMERS.TOKEN_MAX_AGE_HOURS
+ */
+export function verifyCustomerToken(
+  secret: string,
+  shop: string,
+  token: string | null | undefined,
+  now: Date = new Date()
+): string | null {
+  const match = token ? TOKEN_PATTERN.exec(token) : null;
+  if (!match) return null;
+
+  const [, customerId, issuedAtText, signature] = match;
+  const issuedAt = Number(issuedAtText);
+  const age = now.getTime() - issuedAt * 1000;
+  if (age > MAX_AGE_MS || age < -CLOCK_SKEW_MS) return null;
+
+  const expected = Buffer.from(signCustomerToken(secret, shop, customerId!, issuedAt), 'hex');
+  const actual = Buffer.from(signature!, 'hex');
+  return timingSafeEqual(expected, actual) ? customerId! : null;
+}
+
+function parseJson<T>(value: string, fallback: T): T {
+  try {
+    return JSON.parse(value) ?? fallback;
+  } catch {
+    return fallback;
+  }
+}
+
+function unique<T>(values: T[]): T[] {
+  return values.filter((value, index) => values.indexOf(value) === index);
+}
+
+/**
+ * Merge learned preferences; the target's price range wins
+ */
+export function mergePreferences(target: UserPreferences, sources: UserPreferences[]): UserPreferences {
+  const all = [target, ...sources];
+  const merged: UserPreferences = {};
+
+  for (const key of ['favoriteColors', 'favoriteCategories', 'styles', 'interests'] as const) {
+    const values = unique(all.flatMap((prefs) => prefs[key] || []));
+    if (values.length > 0) merged[key] = values;
+  }
+
+  const priceRange = all.find((prefs) => prefs.priceRange)?.priceRange;
+  if (priceRange) merged.priceRange = priceRange;
+
+  return merged;
+}
+
+/**
+ * Merge the stored JSON columns of profiles, the target first and then the sources in the
+ * order given (most recent first)
+ */
+export function mergeProfileData(target: StoredProfile, sources: StoredProfile[]) {
+  const all = [target, ...sources];
+
+  const browsingHistory = unique(all.flatMap((profile) => parseJson<string[]>(profile.browsingHistory, [])))
+    .slice(0, CUSTOMERS.BROWSING_HISTORY_MAX);
+
+  const purchases = all.flatMap((profile) => parseJson<unknown[]>(profile.purchaseHistory, []));
+  const purchaseKeys = purchases.map((purchase) => JSON.stringify(purchase));
+  const purchaseHistory = purchases.filter((_, index) => purchaseKeys.indexOf(purchaseKeys[index]!) === index);
+
+  // Interactions are kept in time order, like trackInteraction appends them
+  const interactions = all
+    .flatMap((profile) => parseJson<Array<{ timestamp?: number }>>(profile.interactions, []))
+    .sort((a, b) => (a.timestamp || 0) - (b.timestamp || 0))
+    .slice(-CUSTOMERS.INTERACTIONS_MAX);
+
+  return {
+    preferences: JSON.stringify(mergePreferences(
+      parseJson<UserPreferences>(target.preferences, {}),
+      sources.map((profile) => parseJson<UserPreferences>(profile.preferences, {}))
+    )),
+    browsingHistory: JSON.stringify(browsingHistory),
+    purchaseHistory: JSON.stringify(purchaseHistory),
+    interactions: JSON.stringify(interactions),
+  };
+}
+
+export class CustomerIdentityService {
+  private logger = createLogger({ service: 'CustomerIdentityService' });
+  // Shops whose secret was written to the metafield (per process)
+  private provisionedShops = new Set<string>();
+
+  /**
+   * Make sure the shop has a token secret and that the theme block can read it: generated once
+   * and stored encrypted, then (re)written to the app-data metafield, which is removed with the
+   * installation. Safe to call on every authentication.
+   */
+  async provisionSecret(shop: string, admin: AdminApiContext): Promise<void> {
+    const secret = await this.getSecret(shop) ?? await this.createSecret(shop);
+
+    const installationResponse: Response = await admin.graphql(APP_INSTALLATION_QUERY);
+    const installation = await installationResponse.json();
+    const ownerId: string | undefined = installation.data?.currentAppInstallation?.id;
+    if (!ownerId) {
+      throw new Error('Could not load the app installation');
+    }
+
+    const response: Response = await admin.graphql(METAFIELDS_SET_MUTATION, {
+      variables: {
+        metafields: [{
+          ownerId,
+          namespace: METAFIELD_NAMESPACE,
+          key: METAFIELD_KEY,
+          type: 'single_line_text_field',
+          value: secret,
+        }],
+      },
+    });
+    const result = await response.json();
+    const userErrors: Array<{ message: string }> = result.data?.metafieldsSet?.userErrors || [];
+    if (userErrors.length > 0) {
+      throw new Error(`Could not store the customer token secret: ${userErrors.map((error) => error.message).join(', ')}`);
+    }
+
+    this.provisionedShops.add(shop);
+    this.logger.debug({ shop }, 'Customer token secret provisioned');
+  }
+
+  /**
+   * Provision the secret of shops installed before customer tokens existed (their next
+   * authentication would too, but offline sessions rarely re-authenticate). The metafield is
+   * written again even when a secret is stored, since an earlier write may have failed; a shop
+   * only counts as provisioned once the write succeeded.
+   */
+  async ensureSecret(shop: string, admin: AdminApiContext): Promise<void> {
+    if (this.provisionedShops.has(shop)) return;
+
+    await this.provisionSecret(shop, admin);
+  }
+
+  /**
+   * The customer id of a valid token for the shop, or null (also when the shop has no secret yet)
+   */
+  async verifyToken(shop: string, token: string | null | undefined, now: Date = new Date()): Promise<string | null> {
+    if (!token) return null;
+
+    const secret = await this.getSecret(shop);
+    if (!secret) return null;
+
+    const customerId = verifyCustomerToken(secret, shop, token, now);
+    if (!customerId) {
+      this.logger.warn({ shop }, 'Rejected an invalid or expired customer token');
+    }
+    return customerId;
+  }
+
+  /**
+   * Attach a verified customer to the visitor's profile (created if needed) and merge the
+   * customer's other profiles into it. A profile on this device that belongs to a different
+   * customer (a shared computer) is set aside under a new session id rather than merged.
+   */
+  async identify(shop: string, sessionId: string, customerId: string): Promise<IdentifyResult> {
+    let target: StoredProfile | null = await db.userProfile.findUnique({
+      where: { shop_sessionId: { shop, sessionId } },
+    });
+
+    if (target && target.customerId && target.customerId !== customerId) {
+      await db.userProfile.update({
+        where: { id: target.id },
+        data: { sessionId: `customer_${target.customerId}_${target.id}` },
+      });
+      target = null;
+    }
+
+    const sources: StoredProfile[] = await db.userProfile.findMany({
+      where: { shop, customerId, sessionId: { not: sessionId } },
+      orderBy: { updatedAt: 'desc' },
+      take: CUSTOMERS.MERGE_MAX_PROFILES,
+    });
+
+    if (!target) {
+      // A concurrent request may have created it first
+      target = await db.userProfile.upsert({
+        where: { shop_sessionId: { shop, sessionId } },
+        create: { shop, sessionId, customerId },
+        update: {},
+      }) as StoredProfile;
+    }
+
+    if (sources.length === 0) {
+      if (target.customerId !== customerId) {
+        await db.userProfile.update({ where: { id: target.id }, data: { customerId } });
+      }
+      return { userProfileId: target.id, mergedProfiles: 0, movedChatSessions: 0 };
+    }
+
+    const sourceIds = sources.map((profile) => profile.id);
+    const [, moved] = await db.$transaction([
+      db.userProfile.update({
+        where: { id: target.id },
+        data: { customerId, ...mergeProfileData(target, sources) },
+      }),
+      db.chatSession.updateMany({
+        where: { userProfileId: { in: sourceIds } },
+        data: { userProfileId: target.id },
+      }),
+      db.userProfile.deleteMany({ where: { id: { in: sourceIds } } }),
+    ]);
+
+    this.logger.info({
+      shop,
+      userProfileId: target.id,
+      mergedProfiles: sources.length,
+      movedChatSessions: moved.count,
+    }, 'Merged customer profiles');
+
+    return { userProfileId: target.id, mergedProfiles: sources.length, movedChatSessions: moved.count };
+  }
+
+  private async getSecret(shop: string): Promise<string | null> {
+    const settings = await db.widgetSettings.findUnique({
+      where: { shop },
+      select: { customerTokenSecret: true },
+    });
+    return settings?.customerTokenSecret ? decryptShopSecret(shop, settings.customerTokenSecret) : null;
+  }
+
+  private async createSecret(shop: string): Promise<string> {
+    const encrypted = await encryptShopSecret(shop, randomBytes(32).toString('hex'));
+
+    await db.widgetSettings.upsert({
+      where: { shop },
+      create: { shop, customerTokenSecret: encrypted },
+      update: {},
+    });
+    // A concurrent call may have stored one first; keep that one
+    await db.widgetSettings.updateMany({
+      where: { shop, customerTokenSecret: null },
+      data: { customerTokenSecret: encrypted },
+    });
+
+    const secret = await this.getSecret(shop);
+    if (!secret) {
+      throw new Error('Could not store the customer token secret');
+    }
+    return secret;
+  }
+}
+
+export const customerIdentityService = new CustomerIdentityService();
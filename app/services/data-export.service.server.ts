@@ -0,0 +1,470 @@
+/**
+ * Customer Data Export Service
+ *
+ * Fulfills customers/data_request webhooks. The webhook records a DataExportRequest and queues a
+ * `gdpr.customer_export` job, which collects every record tied to the customer (profiles with
+ * the customer id, plus profiles and conversation logs whose messages mention the customer's
+ * email; matchCustomer in lib/gdpr.server.ts, which redaction uses too) and stores a versioned
+ * zip archive: data.json with everything and one CSV per record type. The merchant downloads it
+ * from the Data requests page through a signed link that expires after GDPR.EXPORT_LINK_HOURS,
+ * sends it to the customer and marks the request fulfilled.
+ * The archive itself is deleted GDPR.EXPORT_ARCHIVE_DAYS after it was built.
+ */
+
+import { createHmac, timingSafeEqual } from 'crypto';
+import JSZip from 'jszip';
+import { prisma as db } from "../db.server";
+import { createLogger } from '../lib/logger.server';
+import { enqueueJob } from '../lib/job-queue.server';
+import { matchCustomer, type CustomerIdentifiers } from '../lib/gdpr.server';
+import { GDPR } from '../config/limits';
+import type { DataExportCounts, DataRequestStatus } from '../lib/data-requests';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const HOUR_MS = 60 * 60 * 1000;
+
+// Layout of the archive (data.json `format_version`); bump when files or columns change
+export const DATA_EXPORT_FORMAT_VERSION = 1;
+
+// Analytics events that are a customer's own actions
+const CLICK_EVENT_TYPES = ['click', 'add_to_cart'];
+
+export interface DataExportRequestInput {
+  webhookId?: string | null;
+  customerId?: string | null;
+  customerEmail?: string | null;
+}
+
+export interface DataExportRequestRecord {
+  id: string;
+  customerId: string | null;
+  customerEmail: string | null;
+  status: DataRequestStatus;
+  error: string | null;
+  counts: DataExportCounts | null;
+  archiveSize: number | null;
+  dueAt: Date;
+  createdAt: Date;
+  readyAt: Date | null;
+  expiresAt: Date | null;
+  downloadedAt: Date | null;
+  fulfilledAt: Date | null;
+  // Signed download link, while the archive exists
+  downloadUrl: string | null;
+}
+
+type ExportRow = Record<string, unknown>;
+
+export interface CustomerDataExport {
+  profiles: ExportRow[];
+  chat_sessions: ExportRow[];
+  chat_messages: ExportRow[];
+  ratings: ExportRow[];
+  clicks: ExportRow[];
+  conversations: ExportRow[];
+  orders: ExportRow[];
+}
+
+// File name and columns of each CSV in the archive
+const CSV_FILES: Record<keyof CustomerDataExport, string[]> = {
+  profiles: ['profile_id', 'customer_id', 'session_id', 'preferences', 'browsing_history', 'purchase_history', 'interactions', 'created_at', 'updated_at'],
+  chat_sessions: ['session_id', 'profile_id', 'status', 'context', 'last_message_at', 'created_at'],
+  chat_messages: ['message_id', 'session_id', 'role', 'content', 'intent', 'sentiment', 'confidence', 'products_shown', 'product_clicked', 'metadata', 'timestamp'],
+  ratings: ['session_id', 'rating', 'comment', 'rated_at'],
+  clicks: ['type', 'product_id', 'product_title', 'session_id', 'visitor_id', 'occurred_at'],
+  conversations: ['conversation_id', 'session_id', 'message', 'response', 'timestamp'],
+  orders: ['order_id', 'order_name', 'session_id', 'total_price', 'currency', 'product_ids', 'order_created_at'],
+};
+
+function parseJson(value: string | null | undefined, fallback: unknown): unknown {
+  try {
+    return value ? JSON.parse(value) : fallback;
+  } catch {
+    return fallback;
+  }
+}
+
+function iso(date: Date | null | undefined): string | null {
+  return date ? date.toISOString() : null;
+}
+
+/**
+ * RFC 4180 CSV. Cells starting with = + - @, a tab or a carriage return are prefixed with ' so
+ * spreadsheets don't run customer-written text as a formula.
+ */
+export function toCsv(rows: ExportRow[], columns: string[]): string {
+  const cell = (value: unknown): string => {
+    if (value === null || value === undefined) return '';
+    let text = typeof value === 'string' ? value : typeof value === 'object' ? JSON.stringify(value) : String(value);
+    if (/^[=+\-@\t\r]/.test(text)) text = `'${text}`;
+    return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+  };
+
+  return [columns.join(','), ...rows.map(row => columns.map(column => cell(row[column])).join(','))].join('\r\n') + '\r\n';
+}
+
+function signingSecret(): string {
+  const secret = process.env.GDPR_EXPORT_SECRET || process.env.SHOPIFY_API_SECRET;
+  if (!secret) {
+    throw new Error('GDPR_EXPORT_SECRET or SHOPIFY_API_SECRET is required to sign download links');
+  }
+  return secret;
+}
+
+function sign(requestId: string, expires: number): string {
+  return createHmac('sha256', signingSecret()).update(`${requestId}:${expires}`).digest('hex');
+}
+
+/**
+ * Download link for a request's archive, valid until `expiresAt`
+ */
+export function createDownloadUrl(requestId: string, expiresAt: Date): string {
+  const expires = Math.floor(expiresAt.getTime() / 1000);
+  const params = new URLSearchParams({ expires: String(expires), signature: sign(requestId, expires) });
+  return `${process.env.SHOPIFY_APP_URL || ''}/data-exports/${requestId}?${params}`;
+}
+
+/**
+ * Whether a download link's signature matches and it has not expired
+ */
+export function verifyDownloadUrl(
+  requestId: string,
+  expires: string | null,
+  signature: string | null,
+  now: Date = new Date()
+): boolean {
+  const expiresAt = Number(expires);
+  if (!signature || !Number.isInteger(expiresAt) || expiresAt * 1000 <= now.getTime()) {
+    return false;
+  }
+
+  const expected = Buffer.from(sign(requestId, expiresAt));
+  const provided = Buffer.from(signature);
+  return expected.length === provided.length && timingSafeEqual(expected, provided);
+}
+
+class DataExportService {
+  private logger = createLogger({ service: 'DataExportService' });
+
+  /**
+   * Record a data request and queue its export. A redelivered webhook returns the same request.
+   */
+  async createRequest(shop: string, input: DataExportRequestInput): Promise<{ id: string }> {
+    const data = {
+      shop,
+      webhookId: input.webhookId ?? null,
+      customerId: input.customerId ?? null,
+      customerEmail: input.customerEmail?.trim().toLowerCase() || null,
+      dueAt: new Date(Date.now() + GDPR.DATA_EXPORT_DAYS * DAY_MS),
+    };
+
+    const request = input.webhookId
+      ? await db.dataExportRequest.upsert({
+          where: { webhookId: input.webhookId },
+          create: data,
+          update: {},
+          select: { id: true },
+        })
+      : await db.dataExportRequest.create({ data, select: { id: true } });
+
+    await enqueueJob('gdpr.customer_export', { requestId: request.id }, {
+      shop,
+      idempotencyKey: `gdpr.customer_export:${request.id}`,
+    });
+    return request;
+  }
+
+  /**
+   * Everything stored about a customer, matched by customer id and by email in chat messages
+   * and conversation logs
+   */
+  async collect(shop: string, customer: CustomerIdentifiers): Promise<CustomerDataExport> {
+    const { profiles: profileMatch, conversationSessionIds } = await matchCustomer(shop, customer);
+
+    const profiles = profileMatch
+      ? await db.userProfile.findMany({
+          where: profileMatch,
+          orderBy: { createdAt: 'asc' },
+        })
+      : [];
+
+    const profileIds = profiles.map(profile => profile.id);
+    const visitorIds = [...new Set([...profiles.map(profile => profile.sessionId), ...conversationSessionIds])];
+
+    const sessions = profileIds.length > 0
+      ? await db.chatSession.findMany({
+          where: { shop, userProfileId: { in: profileIds } },
+          include: { messages: { orderBy: { timestamp: 'asc' } }, conversions: true },
+          orderBy: { createdAt: 'asc' },
+        })
+      : [];
+    const sessionIds = sessions.map(session => session.id);
+
+    const hasVisits = visitorIds.length > 0 || sessionIds.length > 0;
+    const [events, conversations] = await Promise.all([
+      hasVisits
+        ? db.analyticsEvent.findMany({
+            where: {
+              shop,
+              type: { in: CLICK_EVENT_TYPES },
+              OR: [{ visitorId: { in: visitorIds } }, { chatSessionId: { in: sessionIds } }],
+            },
+            orderBy: { occurredAt: 'asc' },
+          })
+        : [],
+      hasVisits
+        ? db.conversation.findMany({
+            where: { shop, sessionId: { in: visitorIds } },
+            orderBy: { timestamp: 'asc' },
+          })
+        : [],
+    ]);
+
+    return {
+      profiles: profiles.map(profile => ({
+        profile_id: profile.id,
+        customer_id: profile.customerId,
+        session_id: profile.sessionId,
+        preferences: parseJson(profile.preferences, {}),
+        browsing_history: parseJson(profile.browsingHistory, []),
+        purchase_history: parseJson(profile.purchaseHistory, []),
+        interactions: parseJson(profile.interactions, []),
+        created_at: iso(profile.createdAt),
+        updated_at: iso(profile.updatedAt),
+      })),
+      chat_sessions: sessions.map(session => ({
+        session_id: session.id,
+        profile_id: session.userProfileId,
+        status: session.status,
+        context: parseJson(session.context, {}),
+        last_message_at: iso(session.lastMessageAt),
+        created_at: iso(session.createdAt),
+      })),
+      chat_messages: sessions.flatMap(session =>
+        session.messages.map(message => ({
+          message_id: message.id,
+          session_id: session.id,
+          role: message.role,
+          content: message.content,
+          intent: message.intent,
+          sentiment: message.sentiment,
+          confidence: message.confidence,
+          products_shown: parseJson(message.productsShown, []),
+          product_clicked: message.productClicked,
+          metadata: parseJson(message.metadata, {}),
+          timestamp: iso(message.timestamp),
+        }))
+      ),
+      ratings: sessions
+        .filter(session => session.rating !== null)
+        .map(session => ({
+          session_id: session.id,
+          rating: session.rating,
+          comment: session.ratingComment,
+          rated_at: iso(session.ratedAt),
+        })),
+      clicks: events.map(event => ({
+        type: event.type,
+        product_id: event.productId,
+        product_title: event.productTitle,
+        session_id: event.chatSessionId,
+        visitor_id: event.visitorId,
+        occurred_at: iso(event.occurredAt),
+      })),
+      conversations: conversations.map(conversation => ({
+        conversation_id: conversation.id,
+        session_id: conversation.sessionId,
+        message: conversation.message,
+        response: conversation.response,
+        timestamp: iso(conversation.timestamp),
+      })),
+      orders: sessions.flatMap(session =>
+        session.conversions.map(conversion => ({
+          order_id: conversion.orderId,
+          order_name: conversion.orderName,
+          session_id: session.id,
+          total_price: conversion.totalPrice,
+          currency: conversion.currency,
+          product_ids: parseJson(conversion.productIds, []),
+          order_created_at: iso(conversion.orderCreatedAt),
+        }))
+      ),
+    };
+  }
+
+  async buildArchive(
+    request: { id: string; shop: string; customerId: string | null; customerEmail: string | null; createdAt: Date },
+    data: CustomerDataExport,
+    generatedAt: Date = new Date()
+  ): Promise<Buffer> {
+    const zip = new JSZip();
+
+    zip.file('data.json', JSON.stringify({
+      format_version: DATA_EXPORT_FORMAT_VERSION,
+      generated_at: generatedAt.toISOString(),
+      shop_domain: request.shop,
+      request: {
+        id: request.id,
+        customer_id: request.customerId,
+        customer_email: request.customerEmail,
+        received_at: request.createdAt.toISOString(),
+      },
+      ...data,
+    }, null, 2));
+
+    for (const [name, columns] of Object.entries(CSV_FILES)) {
+      zip.file(`${name}.csv`, toCsv(data[name as keyof CustomerDataExport], columns));
+    }
+
+    return zip.generateAsync({ type: 'nodebuffer', compression: 'DEFLATE' });
+  }
+
+  /**
+   * Job handler: collect the customer's data and store the archive. On the last attempt a
+   * failure is recorded on the request.
+   */
+  async runExport(shop: string, requestId: string, finalAttempt: boolean = false): Promise<DataExportCounts | null> {
+    const request = await db.dataExportRequest.findFirst({ where: { id: requestId, shop } });
+    if (!request || request.status !== 'pending') {
+      this.logger.debug({ shop, requestId }, 'Skipping data export no longer pending');
+      return null;
+    }
+
+    try {
+      const data = await this.collect(shop, request);
+      const archive = await this.buildArchive(request, data);
+      const counts: DataExportCounts = {
+        profiles: data.profiles.length,
+        chatSessions: data.chat_sessions.length,
+        chatMessages: data.chat_messages.length,
+        ratings: data.ratings.length,
+        clicks: data.clicks.length,
+        conversations: data.conversations.length,
+        orders: data.orders.length,
+      };
+
+      const readyAt = new Date();
+      const expiresAt = new Date(readyAt.getTime() + GDPR.EXPORT_ARCHIVE_DAYS * DAY_MS);
+      await db.dataExportRequest.update({
+        where: { id: requestId },
+        data: {
+          status: 'ready',
+          error: null,
+          // Prisma's Bytes fields take a plain Uint8Array
+          archive: new Uint8Array(archive),
+          archiveVersion: DATA_EXPORT_FORMAT_VERSION,
+          archiveSize: archive.length,
+          recordCounts: JSON.stringify(counts),
+          readyAt,
+          expiresAt,
+        },
+      });
+
+      await enqueueJob('gdpr.export_expire', { requestId }, {
+        shop,
+        idempotencyKey: `gdpr.export_expire:${requestId}`,
+        runAt: expiresAt,
+      });
+
+      this.logger.info({ shop, requestId, ...counts }, 'Customer data export ready');
+      return counts;
+    } catch (error) {
+      if (finalAttempt) {
+        await db.dataExportRequest.update({
+          where: { id: requestId },
+          data: { status: 'failed', error: error instanceof Error ? error.message : String(error) },
+        });
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Job handler: delete the archive once it has expired
+   */
+  async expireArchive(shop: string, requestId: string): Promise<void> {
+    await db.dataExportRequest.updateMany({
+      where: { id: requestId, shop, expiresAt: { lte: new Date() } },
+      data: { archive: null },
+    });
+  }
+
+  async listRequests(shop: string, now: Date = new Date()): Promise<DataExportRequestRecord[]> {
+    const rows = await db.dataExportRequest.findMany({
+      where: { shop },
+      orderBy: { createdAt: 'desc' },
+      take: GDPR.REQUESTS_SHOWN,
+      // Everything but the archive itself
+      select: {
+        id: true,
+        customerId: true,
+        customerEmail: true,
+        status: true,
+        error: true,
+        recordCounts: true,
+        archiveSize: true,
+        dueAt: true,
+        createdAt: true,
+        readyAt: true,
+        expiresAt: true,
+        downloadedAt: true,
+        fulfilledAt: true,
+      },
+    });
+
+    const linkExpiresAt = new Date(now.getTime() + GDPR.EXPORT_LINK_HOURS * HOUR_MS);
+
+    return rows.map((row): DataExportRequestRecord => {
+      const availableUntil = row.readyAt && row.expiresAt && row.expiresAt > now ? row.expiresAt : null;
+      return {
+        id: row.id,
+        customerId: row.customerId,
+        customerEmail: row.customerEmail,
+        status: row.status as DataRequestStatus,
+        error: row.error,
+        counts: row.readyAt ? (parseJson(row.recordCounts, null) as DataExportCounts | null) : null,
+        archiveSize: row.archiveSize,
+        dueAt: row.dueAt,
+        createdAt: row.createdAt,
+        readyAt: row.readyAt,
+        expiresAt: row.expiresAt,
+        downloadedAt: row.downloadedAt,
+        fulfilledAt: row.fulfilledAt,
+        downloadUrl: availableUntil
+          ? createDownloadUrl(row.id, linkExpiresAt < availableUntil ? linkExpiresAt : availableUntil)
+          : null,
+      };
+    });
+  }
+
+  /**
+   * The archive behind a (verified) download link, or null once it is gone
+   */
+  async getArchive(requestId: string): Promise<{ shop: string; archive: Buffer } | null> {
+    const row = await db.dataExportRequest.findUnique({
+      where: { id: requestId },
+      select: { shop: true, archive: true, expiresAt: true },
+    });
+    if (!row?.archive || !row.expiresAt || row.expiresAt <= new Date()) {
+      return null;
+    }
+
+    await db.dataExportRequest.update({
+      where: { id: requestId },
+      data: { downloadedAt: new Date() },
+    });
+    return { shop: row.shop, archive: Buffer.from(row.archive) };
+  }
+
+  async markFulfilled(shop: string, requestId: string): Promise<void> {
+    const { count } = await db.dataExportRequest.updateMany({
+      where: { id: requestId, shop, status: 'ready' },
+      data: { status: 'fulfilled', fulfilledAt: new Date() },
+    });
+    if (count === 0) {
+      throw new Error('Only requests with a ready archive can be marked as fulfilled');
+    }
+  }
+}
+
+export const dataExportService = new DataExportService();
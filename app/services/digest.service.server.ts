@@ -0,0 +1,210 @@
+/**
+ * Analytics Digest Service
+ *
+ * Weekly and monthly summary emails: the KPIs of the Analytics overview plus the questions
+ * the assistant couldn't answer well. Each shop's next digest is an `analytics.digest` job
+ * scheduled for the following Monday / 1st of the month (EMAIL.DIGEST_HOUR_UTC); sending
+ * one schedules the next, and saving the settings (re)starts the chain.
+ */
+
+import { prisma as db } from "../db.server";
+import { createLogger } from '../lib/logger.server';
+import { enqueueJob } from '../lib/job-queue.server';
+import { sendMail, type MailMessage } from '../lib/mailer.server';
+import { EMAIL } from '../config/limits';
+import type { DigestFrequency } from '../lib/digests';
+import {
+  analyticsService,
+  type AnalyticsOverview,
+  type AnalyticsPeriod,
+  type UnansweredQuestion,
+} from './analytics.service';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export type ScheduledDigestFrequency = Exclude<DigestFrequency, 'off'>;
+
+export interface DigestContent {
+  shop: string;
+  frequency: ScheduledDigestFrequency;
+  period: AnalyticsPeriod;
+  overview: AnalyticsOverview;
+  questions: UnansweredQuestion[];
+}
+
+/**
+ * When the next digest is due: Monday (weekly) or the 1st (monthly) at EMAIL.DIGEST_HOUR_UTC
+ */
+export function nextDigestAt(frequency: ScheduledDigestFrequency, now: Date = new Date()): Date {
+  const next = new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate(), EMAIL.DIGEST_HOUR_UTC));
+
+  if (frequency === 'weekly') {
+    // Days until Monday (7 when today is Monday and the hour has passed)
+    const days = (8 - next.getUTCDay()) % 7;
+    next.setUTCDate(next.getUTCDate() + days);
+    if (next <= now) next.setUTCDate(next.getUTCDate() + 7);
+  } else {
+    next.setUTCDate(1);
+    if (next <= now) next.setUTCMonth(next.getUTCMonth() + 1);
+  }
+  return next;
+}
+
+/**
+ * The period a digest sent at `sentAt` covers: the previous Monday–Sunday, or the previous month
+ */
+export function getDigestPeriod(frequency: ScheduledDigestFrequency, sentAt: Date = new Date()): AnalyticsPeriod {
+  const today = new Date(Date.UTC(sentAt.getUTCFullYear(), sentAt.getUTCMonth(), sentAt.getUTCDate()));
+
+  let startDate: Date;
+  let endDate: Date;
+  if (frequency === 'weekly') {
+    // Monday of the current week, then back one week
+    endDate = new Date(today.getTime() - ((today.getUTCDay() + 6) % 7) * DAY_MS);
+    startDate = new Date(endDate.getTime() - 7 * DAY_MS);
+  } else {
+    endDate = new Date(Date.UTC(today.getUTCFullYear(), today.getUTCMonth(), 1));
+    startDate = new Date(Date.UTC(today.getUTCFullYear(), today.getUTCMonth() - 1, 1));
+  }
+
+  return {
+    startDate,
+    endDate: new Date(endDate.getTime() - 1),
+    days: Math.round((endDate.getTime() - startDate.getTime()) / DAY_MS),
+  };
+}
+
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+function formatChange(change: number): string {
+  if (!change) return '';
+  return ` (${change > 0 ? '+' : ''}${change.toFixed(1)}%)`;
+}
+
+function formatDate(date: Date): string {
+  return date.toISOString().slice(0, 10);
+}
+
+/**
+ * Subject, HTML and plain-text body of a digest
+ */
+export function renderDigest(content: DigestContent): Omit<MailMessage, 'to'> {
+  const { shop, frequency, period, overview, questions } = content;
+  const range = `${formatDate(period.startDate)} – ${formatDate(period.endDate)}`;
+  const subject = `Your ${frequency} assistant digest for ${shop} (${range})`;
+
+  const kpis: Array<[string, string]> = [
+    ['Conversations', `${overview.totalSessions}${formatChange(overview.periodComparison.sessionsChange)}`],
+    ['Messages', `${overview.totalMessages}${formatChange(overview.periodComparison.messagesChange)}`],
+    ['Average response time', `${(overview.avgResponseTime / 1000).toFixed(1)}s`],
+    ['Average confidence', `${overview.avgConfidence.toFixed(1)}%${formatChange(overview.periodComparison.confidenceChange)}`],
+    [
+      'Sentiment',
+      `${overview.sentimentBreakdown.positive} positive, ${overview.sentimentBreakdown.neutral} neutral, ${overview.sentimentBreakdown.negative} negative`,
+    ],
+  ];
+  if (overview.satisfactionRating) {
+    kpis.push([
+      'Customer rating',
+      `${overview.satisfactionRating.averageRating.toFixed(1)} / 5 (${overview.satisfactionRating.totalRatings} ratings)`,
+    ]);
+  }
+
+  const describe = (question: UnansweredQuestion) =>
+    question.reason === 'fallback'
+      ? 'no AI answer'
+      : `confidence ${Math.round((question.confidence ?? 0) * 100)}%`;
+
+  const text = [
+    subject,
+    '',
+    ...kpis.map(([label, value]) => `${label}: ${value}`),
+    '',
+    questions.length > 0 ? 'Questions the assistant struggled with:' : 'The assistant answered every question confidently.',
+    ...questions.map(question => `- ${question.question} (${describe(question)})`),
+  ].join('\n');
+
+  const html = `<!doctype html>
+<html>
+  <body style="font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif; color: #202223;">
+    <h2 style="margin-bottom: 4px;">${escapeHtml(shop)}</h2>
+    <p style="color: #6d7175; margin-top: 0;">${escapeHtml(range)}</p>
+    <table cellpadding="6" style="border-collapse: collapse;">
+      ${kpis.map(([label, value]) => `<tr><td style="color: #6d7175;">${escapeHtml(label)}</td><td><strong>${escapeHtml(value)}</strong></td></tr>`).join('\n      ')}
+    </table>
+    <h3>Questions the assistant struggled with</h3>
+    ${questions.length > 0
+      ? `<ul>\n      ${questions.map(question => `<li>${escapeHtml(question.question)} <span style="color: #6d7175;">(${escapeHtml(describe(question))})</span></li>`).join('\n      ')}\n    </ul>`
+      : '<p>The assistant answered every question confidently.</p>'}
+  </body>
+</html>`;
+
+  return { subject, html, text };
+}
+
+class DigestService {
+  private logger = createLogger({ service: 'DigestService' });
+
+  async buildDigest(shop: string, frequency: ScheduledDigestFrequency, sentAt: Date = new Date()): Promise<DigestContent> {
+    const period = getDigestPeriod(frequency, sentAt);
+    const [overview, questions] = await Promise.all([
+      analyticsService.getOverview(shop, period),
+      analyticsService.getUnansweredQuestions(shop, period, EMAIL.DIGEST_MAX_QUESTIONS),
+    ]);
+
+    return { shop, frequency, period, overview, questions };
+  }
+
+  async sendDigest(shop: string, frequency: ScheduledDigestFrequency, to: string): Promise<void> {
+    const content = await this.buildDigest(shop, frequency);
+    await sendMail({ to, ...renderDigest(content) });
+    this.logger.info({ shop, frequency }, 'Analytics digest sent');
+  }
+
+  /**
+   * Queue the shop's next digest. Safe to call repeatedly: one job per shop and due date.
+   */
+  async scheduleDigest(shop: string, frequency: DigestFrequency, now: Date = new Date()): Promise<void> {
+    if (frequency === 'off') return;
+
+    const runAt = nextDigestAt(frequency, now);
+    await enqueueJob('analytics.digest', { frequency }, {
+      shop,
+      idempotencyKey: `analytics.digest:${shop}:${frequency}:${formatDate(runAt)}`,
+      runAt,
+    });
+  }
+
+  /**
+   * Job handler: send the digest if the shop still wants this one, and schedule the next
+   */
+  async runScheduledDigest(shop: string, frequency: ScheduledDigestFrequency): Promise<void> {
+    const settings = await db.widgetSettings.findUnique({
+      where: { shop },
+      select: { digestFrequency: true, digestEmail: true },
+    });
+
+    // Frequency changed or digests turned off since this job was queued
+    if (settings?.digestFrequency !== frequency || !settings.digestEmail) {
+      this.logger.debug({ shop, frequency }, 'Skipping digest no longer enabled');
+      return;
+    }
+
+    // Schedule first so a failed send (retried by the queue) doesn't break the chain
+    await this.scheduleDigest(shop, frequency);
+    await this.sendDigest(shop, frequency, settings.digestEmail);
+
+    await db.widgetSettings.update({
+      where: { shop },
+      data: { digestLastSentAt: new Date() },
+    });
+  }
+}
+
+export const digestService = new DigestService();
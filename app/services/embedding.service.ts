@@ -1,6 +1,9 @@
-import { OpenAI } from 'openai';
+import { createHash } from 'crypto';
 import { prisma as db } from "../db.server";
 import { logger, logError, createLogger } from '../lib/logger.server';
+import { AI } from '../config/limits';
+import { getEmbeddingProvider, isEmbeddingProviderConfigured, type LLMProvider } from '../lib/llm-provider.server';
+import { enqueueJobSafe } from '../lib/job-queue.server';
 
 export interface Product {
   id: string;
@@ -22,21 +25,82 @@ export interface EmbeddingResult {
   product: Product;
 }
 
+export interface NearestEmbedding {
+  productId: string;
+  productHandle: string;
+  title: string;
+  similarity: number;
+}
+
+// Dimensions of the pgvector columns (text-embedding-3-small / ada-002)
+export const VECTOR_DIMENSIONS = 1536;
+
+// Tables with an "embeddingVector" pgvector column (created by migrations when pgvector is installed)
+export type VectorTable = 'ProductEmbedding' | 'KnowledgeChunk';
+
+/**
+ * Serialize an embedding to pgvector's text input format ("[0.1,0.2,...]")
+ */
+export function toVectorLiteral(embedding: number[]): string {
+  return `[${embedding.join(',')}]`;
+}
+
+/**
+ * Calculate cosine similarity between two vectors
+ */
+export function cosineSimilarity(vec1: number[], vec2: number[]): number {
+  if (vec1.length !== vec2.length) {
+    throw new Error('Vectors must have same dimensions');
+  }
+
+  let dotProduct = 0;
+  let norm1 = 0;
+  let norm2 = 0;
+
+  for (let i = 0; i < vec1.length; i++) {
+    const v1 = vec1[i];
+    const v2 = vec2[i];
+    if (v1 !== undefined && v2 !== undefined) {
+      dotProduct += v1 * v2;
+      norm1 += v1 * v1;
+      norm2 += v2 * v2;
+    }
+  }
+
+  const magnitude = Math.sqrt(norm1) * Math.sqrt(norm2);
+
+  if (magnitude === 0) {
+    return 0;
+  }
+
+  return dotProduct / magnitude;
+}
+
 export class EmbeddingService {
-  private openai: OpenAI;
-  private model: string = 'text-embedding-3-small'; // Fast and cost-effective
+  private provider: LLMProvider;
+  private model: string;
   private logger = createLogger({ service: 'EmbeddingService' });
+  // pgvector availability per table, checked once per process
+  private vectorSupport = new Map<VectorTable, Promise<boolean>>();
 
   constructor() {
-    const apiKey = process.env.OPENAI_API_KEY;
+    const provider = getEmbeddingProvider();
 
-    if (!apiKey) {
-      this.logger.warn('OPENAI_API_KEY not set - embedding features unavailable');
-      throw new Error('OpenAI API key required for embedding service');
+    if (!provider?.embeddingModel) {
+      this.logger.warn('Embedding provider not configured - embedding features unavailable');
+      throw new Error('An embedding provider is required for the embedding service');
     }
 
-    this.openai = new OpenAI({ apiKey });
-    this.logger.info({ model: this.model }, 'Initialized');
+    this.provider = provider;
+    this.model = provider.embeddingModel;
+    this.logger.info({ provider: provider.name, model: this.model }, 'Initialized');
+  }
+
+  /**
+   * Model embeddings are generated with (stored next to each embedding)
+   */
+  getModel(): string {
+    return this.model;
   }
 
   /**
@@ -53,17 +117,13 @@ export class EmbeddingService {
 
       this.logger.debug({ textPreview: cleanText.substring(0, 50) }, 'Generating embedding');
 
-      const response = await this.openai.embeddings.create({
-        model: this.model,
-        input: cleanText,
-      });
+      const response = await this.provider.embed([cleanText], this.model);
 
-      const embeddingData = response.data[0];
-      if (!embeddingData) {
-        throw new Error('No embedding data returned from OpenAI');
+      const embedding = response.embeddings[0];
+      if (!embedding) {
+        throw new Error('No embedding data returned by the embedding provider');
       }
 
-      const embedding = embeddingData.embedding;
       this.logger.debug({ dimensions: embedding.length }, 'Generated embedding');
 
       return embedding;
@@ -73,6 +133,16 @@ export class EmbeddingService {
     }
   }
 
+  /**
+   * Generate embeddings for several texts in a single API call
+   */
+  async generateEmbeddings(texts: string[]): Promise<number[][]> {
+    const cleanTexts = texts.map(text => this.prepareText(text) || ' ');
+
+    const response = await this.provider.embed(cleanTexts, this.model);
+    return response.embeddings;
+  }
+
   /**
    * Generate embedding for a product (title + description)
    */
@@ -98,10 +168,12 @@ export class EmbeddingService {
           },
         },
         update: {
+          productHandle: product.handle,
           title: product.title,
           description: product.description || '',
           embedding: JSON.stringify(embedding),
           embeddingModel: this.model,
+          contentHash: this.getContentHash(product),
           updatedAt: new Date(),
         },
         create: {
@@ -112,9 +184,12 @@ export class EmbeddingService {
           description: product.description || '',
           embedding: JSON.stringify(embedding),
           embeddingModel: this.model,
+          contentHash: this.getContentHash(product),
         },
       });
 
+      await this.storeVector(shop, product.id, embedding);
+
       this.logger.debug({ productId: product.id, title: product.title }, 'Stored embedding');
     } catch (error) {
       logError(error, 'Error storing embedding', { productId: product.id });
@@ -122,6 +197,168 @@ export class EmbeddingService {
     }
   }
 
+  /**
+   * Hash of the text a product is embedded from, used to skip re-embedding unchanged products
+   */
+  getContentHash(product: Product): string {
+    return createHash('sha256')
+      .update(`${this.model}:${this.prepareText(this.createProductText(product))}`)
+      .digest('hex');
+  }
+
+  /**
+   * Stored content hashes for a set of products (null for rows embedded before hashing existed)
+   */
+  async getContentHashes(shop: string, productIds: string[]): Promise<Map<string, string | null>> {
+    const hashes = new Map<string, string | null>();
+    if (productIds.length === 0) return hashes;
+
+    const rows = await db.productEmbedding.findMany({
+      where: { shop, productId: { in: productIds } },
+      select: { productId: true, contentHash: true },
+    });
+
+    for (const row of rows) {
+      hashes.set(row.productId, row.contentHash);
+    }
+    return hashes;
+  }
+
+  /**
+   * Remove a product's embedding (product deleted or unpublished)
+   */
+  async deleteProductEmbedding(shop: string, productId: string): Promise<number> {
+    const result = await db.productEmbedding.deleteMany({
+      where: { shop, productId },
+    });
+    return result.count;
+  }
+
+  /**
+   * Whether the table's pgvector column is available (extension installed and migration applied)
+   */
+  async hasVectorSupport(table: VectorTable = 'ProductEmbedding'): Promise<boolean> {
+    if (!AI.VECTOR_SEARCH_ENABLED) return false;
+
+    const cached = this.vectorSupport.get(table);
+    if (cached) return cached;
+
+    const support: Promise<boolean> = db.$queryRaw<Array<{ exists: boolean }>>`
+      SELECT EXISTS (
+        SELECT 1 FROM information_schema.columns
+        WHERE table_name = ${table} AND column_name = 'embeddingVector'
+      ) AS "exists"
+    `
+      .then((rows: Array<{ exists: boolean }>) => {
+        const supported = !!rows[0]?.exists;
+        if (supported) {
+          this.logger.info({ table }, 'pgvector support detected');
+        } else {
+          // The pgvector migrations skip the column when the extension can't be installed
+          this.logger.warn({ table }, 'pgvector column missing: semantic search falls back to in-memory similarity');
+        }
+        return supported;
+      })
+      .catch((error: unknown) => {
+        logError(error, 'Could not detect pgvector support, using in-memory search');
+        return false;
+      });
+
+    this.vectorSupport.set(table, support);
+    return support;
+  }
+
+  /**
+   * Write the pgvector copy of an embedding (no-op without pgvector)
+   */
+  private async storeVector(shop: string, productId: string, embedding: number[]): Promise<void> {
+    if (embedding.length !== VECTOR_DIMENSIONS || !(await this.hasVectorSupport())) {
+      return;
+    }
+
+    try {
+      await db.$executeRaw`
+        UPDATE "ProductEmbedding"
+        SET "embeddingVector" = ${toVectorLiteral(embedding)}::vector
+        WHERE "shop" = ${shop} AND "productId" = ${productId}
+      `;
+    } catch (error) {
+      // The JSON column is still written, so in-memory search keeps working
+      logError(error, 'Error storing vector embedding', { productId });
+    }
+  }
+
+  /**
+   * Top-K nearest products by cosine similarity, computed in the database.
+   * Without productIds the HNSW index answers; with them the candidates are ranked exactly:
+   * the index filters after its search (hnsw.ef_search rows), so a restricted candidate list
+   * would come back with fewer than topK rows, often none.
+   */
+  async findNearest(
+    shop: string,
+    embedding: number[],
+    topK: number,
+    options: { productIds?: string[]; excludeProductIds?: string[] } = {}
+  ): Promise<NearestEmbedding[]> {
+    const vector = toVectorLiteral(embedding);
+    const excludeProductIds = options.excludeProductIds ?? [];
+
+    // MATERIALIZED keeps the planner from ordering the candidates through the HNSW index
+    const rows = options.productIds
+      ? await db.$queryRaw<Array<NearestEmbedding>>`
+          WITH "candidates" AS MATERIALIZED (
+            SELECT "productId", "productHandle", "title", "embeddingVector"
+            FROM "ProductEmbedding"
+            WHERE "shop" = ${shop}
+              AND "productId" = ANY(${options.productIds}::text[])
+              AND NOT ("productId" = ANY(${excludeProductIds}::text[]))
+              AND "embeddingVector" IS NOT NULL
+          )
+          SELECT "productId", "productHandle", "title",
+                 1 - ("embeddingVector" <=> ${vector}::vector) AS "similarity"
+          FROM "candidates"
+          ORDER BY "embeddingVector" <=> ${vector}::vector
+          LIMIT ${topK}
+        `
+      : await db.$queryRaw<Array<NearestEmbedding>>`
+          SELECT "productId", "productHandle", "title",
+                 1 - ("embeddingVector" <=> ${vector}::vector) AS "similarity"
+          FROM "ProductEmbedding"
+          WHERE "shop" = ${shop}
+            AND "embeddingVector" IS NOT NULL
+            AND NOT ("productId" = ANY(${excludeProductIds}::text[]))
+          ORDER BY "embeddingVector" <=> ${vector}::vector
+          LIMIT ${topK}
+        `;
+
+    return rows.map((row: NearestEmbedding) => ({ ...row, similarity: Number(row.similarity) }));
+  }
+
+  /**
+   * Copy string-encoded embeddings into the pgvector column.
+   * Returns the number of rows converted in this batch (0 when done or unsupported).
+   */
+  async backfillVectorColumn(batchSize: number = 500): Promise<number> {
+    if (!(await this.hasVectorSupport())) {
+      return 0;
+    }
+
+    const converted = await db.$executeRaw`
+      UPDATE "ProductEmbedding"
+      SET "embeddingVector" = "embedding"::vector
+      WHERE "id" IN (
+        SELECT "id" FROM "ProductEmbedding"
+        WHERE "embeddingVector" IS NULL
+          AND "embedding" LIKE '[%'
+          AND "embeddingModel" IN ('text-embedding-3-small', 'text-embedding-ada-002')
+        LIMIT ${batchSize}
+      )
+    `;
+
+    this.logger.info({ converted }, 'Backfilled vector embeddings');
+    return converted;
+  }
+
   /**
    * Get stored embedding for a product
    */
@@ -145,34 +382,118 @@ export class EmbeddingService {
   }
 
   /**
-   * Calculate cosine similarity between two vectors
+   * Get stored embeddings for several products in one query
    */
-  cosineSimilarity(vec1: number[], vec2: number[]): number {
-    if (vec1.length !== vec2.length) {
-      throw new Error('Vectors must have same dimensions');
-    }
+  async getProductEmbeddings(shop: string, productIds: string[]): Promise<Map<string, number[]>> {
+    const embeddings = new Map<string, number[]>();
+    if (productIds.length === 0) return embeddings;
+
+    const rows = await db.productEmbedding.findMany({
+      where: { shop, productId: { in: productIds } },
+      select: { productId: true, embedding: true },
+    });
 
-    let dotProduct = 0;
-    let norm1 = 0;
-    let norm2 = 0;
-
-    for (let i = 0; i < vec1.length; i++) {
-      const v1 = vec1[i];
-      const v2 = vec2[i];
-      if (v1 !== undefined && v2 !== undefined) {
-        dotProduct += v1 * v2;
-        norm1 += v1 * v1;
-        norm2 += v2 * v2;
+    for (const row of rows) {
+      try {
+        embeddings.set(row.productId, JSON.parse(row.embedding));
+      } catch {
+        this.logger.warn({ productId: row.productId }, 'Skipping malformed embedding');
       }
     }
 
-    const magnitude = Math.sqrt(norm1) * Math.sqrt(norm2);
+    return embeddings;
+  }
+
+  /**
+   * Queue an embeddings.generate job for products that don't have an embedding yet. The
+   * search ranks what is stored; the missing products join once the worker embedded them.
+   */
+  private async queueMissingEmbeddings(shop: string, products: Product[]): Promise<void> {
+    if (products.length === 0) return;
+
+    const existing = await db.productEmbedding.findMany({
+      where: { shop, productId: { in: products.map(product => product.id) } },
+      select: { productId: true },
+    });
+    const existingIds = new Set(existing.map((row: { productId: string }) => row.productId));
+    const missing = products.filter(product => !existingIds.has(product.id));
+
+    if (missing.length === 0) return;
+
+    // Searches over the same products before the job ran share it
+    const idsHash = createHash('sha256')
+      .update(missing.map(product => product.id).sort().join(','))
+      .digest('hex')
+      .slice(0, 32);
+    await enqueueJobSafe('embeddings.generate', { products: missing }, {
+      shop,
+      idempotencyKey: `embeddings.generate:${shop}:${idsHash}`,
+    });
+    this.logger.debug({ count: missing.length }, 'Queued missing embeddings');
+  }
 
-    if (magnitude === 0) {
-      return 0;
+  /**
+   * In-memory fallback: cosine similarity over the candidates' stored embeddings
+   */
+  private async rankInMemory(
+    shop: string,
+    embedding: number[],
+    products: Product[],
+    topK: number
+  ): Promise<EmbeddingResult[]> {
+    const embeddings = await this.getProductEmbeddings(shop, products.map(product => product.id));
+    const results: EmbeddingResult[] = [];
+
+    for (const product of products) {
+      const productEmbedding = embeddings.get(product.id);
+      if (!productEmbedding || productEmbedding.length !== embedding.length) continue;
+
+      results.push({
+        productId: product.id,
+        similarity: this.cosineSimilarity(embedding, productEmbedding),
+        product,
+      });
+    }
+
+    return results
+      .sort((a, b) => b.similarity - a.similarity)
+      .slice(0, topK);
+  }
+
+  /**
+   * Rank candidate products against an embedding: pgvector when available, in-memory otherwise
+   */
+  private async rankProducts(
+    shop: string,
+    embedding: number[],
+    products: Product[],
+    topK: number
+  ): Promise<EmbeddingResult[]> {
+    if (await this.hasVectorSupport()) {
+      try {
+        const byId = new Map(products.map(product => [product.id, product]));
+        const nearest = await this.findNearest(shop, embedding, topK, { productIds: Array.from(byId.keys()) });
+
+        return nearest
+          .filter(row => byId.has(row.productId))
+          .map(row => ({
+            productId: row.productId,
+            similarity: row.similarity,
+            product: byId.get(row.productId)!,
+          }));
+      } catch (error) {
+        logError(error, 'Vector search failed, falling back to in-memory search');
+      }
     }
 
-    return dotProduct / magnitude;
+    return this.rankInMemory(shop, embedding, products, topK);
+  }
+
+  /**
+   * Calculate cosine similarity between two vectors
+   */
+  cosineSimilarity(vec1: number[], vec2: number[]): number {
+    return cosineSimilarity(vec1, vec2);
   }
 
   /**
@@ -190,39 +511,9 @@ export class EmbeddingService {
       // Generate embedding for query
       const queryEmbedding = await this.generateEmbedding(query);
 
-      // Get or generate embeddings for all products
-      const productResults: EmbeddingResult[] = [];
-
-      for (const product of products) {
-        try {
-          // Try to get cached embedding
-          let productEmbedding = await this.getProductEmbedding(shop, product.id);
-
-          // Generate if not cached
-          if (!productEmbedding) {
-            this.logger.debug({ productTitle: product.title }, 'Generating missing embedding');
-            productEmbedding = await this.generateProductEmbedding(product);
-            await this.storeProductEmbedding(shop, product, productEmbedding);
-          }
-
-          // Calculate similarity
-          const similarity = this.cosineSimilarity(queryEmbedding, productEmbedding);
-
-          productResults.push({
-            productId: product.id,
-            similarity,
-            product,
-          });
-        } catch (error) {
-          this.logger.warn({ productId: product.id }, 'Skipping product');
-          continue;
-        }
-      }
-
-      // Sort by similarity (highest first) and return top K
-      const topResults = productResults
-        .sort((a, b) => b.similarity - a.similarity)
-        .slice(0, topK);
+      // Rank the stored embeddings in the database; missing ones are generated in the background
+      await this.queueMissingEmbeddings(shop, products);
+      const topResults = await this.rankProducts(shop, queryEmbedding, products, topK);
 
       this.logger.info({ count: topResults.length, topSimilarity: topResults[0]?.similarity }, 'Found semantic search results');
 
@@ -298,32 +589,10 @@ export class EmbeddingService {
         await this.storeProductEmbedding(shop, sourceProduct, sourceEmbedding);
       }
 
-      // Compare with other products
-      const similarities: EmbeddingResult[] = [];
-
-      for (const product of allProducts) {
-        // Skip the source product itself
-        if (product.id === sourceProduct.id) continue;
-
-        let productEmbedding = await this.getProductEmbedding(shop, product.id);
-
-        if (!productEmbedding) {
-          productEmbedding = await this.generateProductEmbedding(product);
-          await this.storeProductEmbedding(shop, product, productEmbedding);
-        }
-
-        const similarity = this.cosineSimilarity(sourceEmbedding, productEmbedding);
-
-        similarities.push({
-          productId: product.id,
-          similarity,
-          product,
-        });
-      }
+      const candidates = allProducts.filter(product => product.id !== sourceProduct.id);
+      await this.queueMissingEmbeddings(shop, candidates);
 
-      return similarities
-        .sort((a, b) => b.similarity - a.similarity)
-        .slice(0, topK);
+      return this.rankProducts(shop, sourceEmbedding, candidates, topK);
     } catch (error) {
       logError(error, 'Error finding similar products');
       throw error;
@@ -344,7 +613,7 @@ export class EmbeddingService {
   /**
    * Helper: Create searchable text from product
    */
-  private createProductText(product: Product): string {
+  createProductText(product: Product): string {
     const parts = [
       product.title,
       product.description || '',
@@ -414,5 +683,5 @@ export function getEmbeddingService(): EmbeddingService {
 
 // Check if embedding service is available
 export function isEmbeddingServiceAvailable(): boolean {
-  return !!process.env.OPENAI_API_KEY;
+  return isEmbeddingProviderConfigured();
 }
@@ -0,0 +1,264 @@
+/**
+ * FAQ Service
+ *
+ * Merchant-written question/answer pairs, most of them created by answering a cluster of the
+ * Unanswered questions report (knowledge-gap.service.server.ts). For each chat message the
+ * closest enabled entries are sent to the assistant in `context.customFaqs`; the local
+ * fallback replies with a close match's answer as-is.
+ *
+ * Questions are compared by embedding similarity, or by word overlap when no embedding
+ * provider is configured (or the entry was saved without one).
+ */
+
+import { prisma as db } from "../db.server";
+import { createLogger, logError } from '../lib/logger.server';
+import { FAQ } from '../config/limits';
+import { cosineSimilarity, getEmbeddingService, isEmbeddingServiceAvailable } from './embedding.service';
+
+const CACHE_TTL_MS = 60 * 1000;
+const MAX_QUESTION_LENGTH = 500;
+const MAX_ANSWER_LENGTH = 4000;
+const MAX_VARIANTS = 10;
+
+// Ignored by the word-overlap similarity
+const STOP_WORDS = new Set([
+  'the', 'and', 'for', 'you', 'your', 'are', 'can', 'does', 'did', 'how', 'what', 'when', 'where', 'which', 'who',
+  'why', 'with', 'have', 'has', 'this', 'that', 'there', 'from', 'about', 'any', 'our', 'les', 'des', 'une', 'est',
+  'pour', 'que', 'qui', 'vous', 'los', 'las', 'una', 'por', 'para', 'con', 'der', 'die', 'das', 'und', 'ist',
+]);
+
+export type FaqSource = 'manual' | 'knowledge_gap';
+
+export interface FaqEntryInput {
+  question: string;
+  answer: string;
+  variants?: string[];
+  source?: FaqSource;
+}
+
+export interface FaqMatch {
+  id: string;
+  question: string;
+  answer: string;
+  similarity: number;
+}
+
+interface CachedFaqEntry {
+  id: string;
+  question: string;
+  answer: string;
+  variants: string[];
+  embedding: number[] | null;
+}
+
+/**
+ * Distinct words of a text that carry meaning (lowercase, accents and stop words removed)
+ */
+export function significantWords(text: string): Set<string> {
+  return new Set(
+    text
+      .toLowerCase()
+      .normalize('NFKD')
+      .replace(/[\u0300-\u036f]/g, '')
+      .split(/[^\p{L}\p{N}]+/u)
+      .filter(word => word.length > 2 && !STOP_WORDS.has(word))
+  );
+}
+
+/**
+ * Word overlap of two texts (Dice coefficient, 0-1)
+ */
+export function textSimilarity(a: string, b: string): number {
+  const wordsA = significantWords(a);
+  const wordsB = significantWords(b);
+  if (wordsA.size === 0 || wordsB.size === 0) return 0;
+
+  let shared = 0;
+  for (const word of wordsA) {
+    if (wordsB.has(word)) shared++;
+  }
+  return (2 * shared) / (wordsA.size + wordsB.size);
+}
+
+/**
+ * Similarity of two questions: cosine of their embeddings when both have one, word overlap otherwise
+ */
+export function questionSimilarity(
+  a: { text: string; embedding: number[] | null },
+  b: { text: string; embedding: number[] | null }
+): number {
+  if (a.embedding && b.embedding && a.embedding.length === b.embedding.length) {
+    return cosineSimilarity(a.embedding, b.embedding);
+  }
+  return textSimilarity(a.text, b.text);
+}
+
+function parseEmbedding(value: string | null): number[] | null {
+  if (!value) return null;
+  try {
+    const parsed = JSON.parse(value);
+    return Array.isArray(parsed) ? parsed : null;
+  } catch {
+    return null;
+  }
+}
+
+function parseVariants(value: string): string[] {
+  try {
+    const parsed = JSON.parse(value);
+    return Array.isArray(parsed) ? parsed.filter((variant): variant is string => typeof variant === 'string') : [];
+  } catch {
+    return [];
+  }
+}
+
+export class FaqService {
+  private logger = createLogger({ service: 'FaqService' });
+  private entryCache = new Map<string, { entries: CachedFaqEntry[]; expiresAt: number }>();
+
+  /**
+   * List a shop's entries (including disabled ones), newest first
+   */
+  async listEntries(shop: string) {
+    return db.faqEntry.findMany({
+      where: { shop },
+      orderBy: { createdAt: 'desc' },
+    });
+  }
+
+  async createEntry(shop: string, input: FaqEntryInput) {
+    const question = input.question.trim();
+    const answer = input.answer.trim();
+
+    if (!question || !answer) {
+      throw new Error('Both the question and the answer are required');
+    }
+    if (question.length > MAX_QUESTION_LENGTH) {
+      throw new Error(`The question must be at most ${MAX_QUESTION_LENGTH} characters`);
+    }
+    if (answer.length > MAX_ANSWER_LENGTH) {
+      throw new Error(`The answer must be at most ${MAX_ANSWER_LENGTH} characters`);
+    }
+
+    const variants = [...new Set((input.variants || []).map(variant => variant.trim()))]
+      .filter(variant => variant && variant !== question)
+      .slice(0, MAX_VARIANTS);
+
+    const embedding = await this.embed(question);
+    const entry = await db.faqEntry.create({
+      data: {
+        shop,
+        question,
+        answer,
+        variants: JSON.stringify(variants),
+        embedding: embedding ? JSON.stringify(embedding) : null,
+        source: input.source || 'manual',
+      },
+    });
+    this.invalidateEntries(shop);
+    this.logger.info({ shop, source: entry.source }, 'FAQ entry created');
+    return entry;
+  }
+
+  async setEnabled(shop: string, id: string, enabled: boolean) {
+    const result = await db.faqEntry.updateMany({ where: { id, shop }, data: { enabled } });
+    this.invalidateEntries(shop);
+    return result.count > 0;
+  }
+
+  async deleteEntry(shop: string, id: string) {
+    const result = await db.faqEntry.deleteMany({ where: { id, shop } });
+    this.invalidateEntries(shop);
+    return result.count > 0;
+  }
+
+  /**
+   * Whether any enabled entry has an embedding (worth embedding the message for)
+   */
+  async hasEmbeddedEntries(shop: string): Promise<boolean> {
+    const entries = await this.getEntries(shop);
+    return entries.some(entry => entry.embedding);
+  }
+
+  /**
+   * Enabled entries whose question (or one of its variants) is close to the message, best first
+   */
+  async findRelevant(shop: string, message: string, limit: number = FAQ.MAX_PROMPT_ENTRIES): Promise<FaqMatch[]> {
+    const entries = await this.getEntries(shop);
+    if (entries.length === 0) return [];
+
+    const embedding = entries.some(entry => entry.embedding) ? await this.embed(message) : null;
+    return this.rank(shop, message, embedding, limit);
+  }
+
+  /**
+   * Rank enabled entries against a question whose embedding is already known
+   */
+  async rank(shop: string, text: string, embedding: number[] | null, limit: number = FAQ.MAX_PROMPT_ENTRIES): Promise<FaqMatch[]> {
+    const entries = await this.getEntries(shop);
+
+    return entries
+      .map(entry => ({
+        id: entry.id,
+        question: entry.question,
+        answer: entry.answer,
+        similarity: Math.max(
+          questionSimilarity({ text, embedding }, { text: entry.question, embedding: entry.embedding }),
+          ...entry.variants.map(variant => textSimilarity(text, variant))
+        ),
+      }))
+      .filter(match => match.similarity >= FAQ.MATCH_SIMILARITY)
+      .sort((a, b) => b.similarity - a.similarity)
+      .slice(0, limit);
+  }
+
+  /**
+   * Drop cached entries for a shop (or all shops)
+   */
+  invalidateEntries(shop?: string) {
+    if (shop) {
+      this.entryCache.delete(shop);
+    } else {
+      this.entryCache.clear();
+    }
+  }
+
+  /**
+   * Embedding of a question, or null without an embedding provider (or when the call fails)
+   */
+  async embed(text: string): Promise<number[] | null> {
+    if (!isEmbeddingServiceAvailable()) return null;
+
+    try {
+      return await getEmbeddingService().generateEmbedding(text);
+    } catch (error) {
+      logError(error, 'Could not embed FAQ question, using word overlap');
+      return null;
+    }
+  }
+
+  private async getEntries(shop: string): Promise<CachedFaqEntry[]> {
+    const cached = this.entryCache.get(shop);
+    if (cached && cached.expiresAt > Date.now()) {
+      return cached.entries;
+    }
+
+    const rows = await db.faqEntry.findMany({
+      where: { shop, enabled: true },
+      select: { id: true, question: true, answer: true, variants: true, embedding: true },
+    });
+
+    const entries: CachedFaqEntry[] = rows.map((row: any) => ({
+      id: row.id,
+      question: row.question,
+      answer: row.answer,
+      variants: parseVariants(row.variants),
+      embedding: parseEmbedding(row.embedding),
+    }));
+
+    this.entryCache.set(shop, { entries, expiresAt: Date.now() + CACHE_TTL_MS });
+    return entries;
+  }
+}
+
+export const faqService = new FaqService();
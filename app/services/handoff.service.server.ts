@@ -0,0 +1,209 @@
+/**
+ * Human Handoff Service
+ *
+ * Moves escalated conversations from the assistant to the merchant's team.
+ * The customer asks for a person from the widget (status "waiting"), an agent picks the
+ * conversation up in the admin inbox (/app/inbox) and replies there ("agent"), and the
+ * widget polls /api/chat-handoff for the replies. While an agent owns a conversation
+ * the chat route stores customer messages without asking the assistant.
+ */
+
+import { prisma as db } from "../db.server";
+import { createLogger } from '../lib/logger.server';
+import type { ChatSessionStatus } from '../lib/handoff';
+import { recordAnalyticsEvent } from '../lib/analytics-events.server';
+
+export const MAX_AGENT_MESSAGE_LENGTH = 2000;
+
+// Most recent messages shown in the inbox transcript
+const TRANSCRIPT_LIMIT = 100;
+// Agent replies returned per widget poll
+const UPDATES_LIMIT = 20;
+// Conversations idle for longer start over (same window as the chat route)
+const ACTIVE_SESSION_WINDOW_MS = 24 * 60 * 60 * 1000;
+
+export interface HandoffUpdates {
+  status: ChatSessionStatus;
+  messages: Array<{ id: string; content: string; timestamp: Date }>;
+}
+
+class HandoffService {
+  private logger = createLogger({ service: 'HandoffService' });
+
+  /**
+   * Customer asked for a person. Returns the new status, or null if the session doesn't exist.
+   */
+  async requestHandoff(shop: string, chatSessionId: string): Promise<ChatSessionStatus | null> {
+    const result = await db.chatSession.updateMany({
+      where: { id: chatSessionId, shop, status: { in: ['bot', 'closed'] } },
+      data: { status: 'waiting', escalatedAt: new Date() },
+    });
+
+    if (result.count > 0) {
+      this.logger.info({ shop, chatSessionId }, 'Conversation escalated to the store team');
+      await recordAnalyticsEvent(shop, { type: 'escalation', chatSessionId }).catch(error =>
+        this.logger.warn({ error: (error as Error).message, shop }, 'Failed to record escalation event')
+      );
+      return 'waiting';
+    }
+
+    // Already waiting or with an agent
+    const session = await db.chatSession.findFirst({ where: { id: chatSessionId, shop }, select: { status: true } });
+    return (session?.status as ChatSessionStatus) || null;
+  }
+
+  /**
+   * Agent takes over the conversation (the assistant stops answering)
+   */
+  async claim(shop: string, chatSessionId: string) {
+    return this.setStatus(shop, chatSessionId, 'agent');
+  }
+
+  /**
+   * Hand the conversation back to the assistant
+   */
+  async release(shop: string, chatSessionId: string) {
+    return this.setStatus(shop, chatSessionId, 'bot');
+  }
+
+  async close(shop: string, chatSessionId: string) {
+    return this.setStatus(shop, chatSessionId, 'closed');
+  }
+
+  /**
+   * Reply from the inbox. Replying claims the conversation. Throws on an empty or too long message.
+   */
+  async sendAgentMessage(shop: string, chatSessionId: string, content: string) {
+    const text = content.trim();
+    if (!text) {
+      throw new Error('Message is empty');
+    }
+    if (text.length > MAX_AGENT_MESSAGE_LENGTH) {
+      throw new Error(`Message is longer than ${MAX_AGENT_MESSAGE_LENGTH} characters`);
+    }
+
+    const session = await db.chatSession.findFirst({ where: { id: chatSessionId, shop }, select: { id: true } });
+    if (!session) {
+      throw new Error('Conversation not found');
+    }
+
+    const [message] = await db.$transaction([
+      db.chatMessage.create({
+        data: {
+          sessionId: chatSessionId,
+          role: 'agent',
+          content: text,
+          metadata: JSON.stringify({ messageType: 'agent_reply', timestamp: new Date().toISOString() }),
+        },
+      }),
+      db.chatSession.update({
+        where: { id: chatSessionId },
+        data: { status: 'agent', lastMessageAt: new Date() },
+      }),
+    ]);
+
+    return message;
+  }
+
+  /**
+   * The visitor's current conversation, found like the chat route does (unrated, active in the last 24 hours)
+   */
+  async findActiveSession(shop: string, visitorSessionId: string) {
+    return db.chatSession.findFirst({
+      where: {
+        shop,
+        userProfile: { shop, sessionId: visitorSessionId },
+        rating: null,
+        lastMessageAt: { gte: new Date(Date.now() - ACTIVE_SESSION_WINDOW_MS) },
+      },
+      orderBy: { lastMessageAt: 'desc' },
+      select: { id: true, status: true },
+    });
+  }
+
+  /**
+   * Store a customer message while the assistant is quiet
+   */
+  async addCustomerMessage(chatSessionId: string, content: string) {
+    await db.$transaction([
+      db.chatMessage.create({
+        data: {
+          sessionId: chatSessionId,
+          role: 'user',
+          content,
+          metadata: JSON.stringify({ handoff: true, timestamp: new Date().toISOString() }),
+        },
+      }),
+      db.chatSession.update({
+        where: { id: chatSessionId },
+        data: { lastMessageAt: new Date() },
+      }),
+    ]);
+  }
+
+  /**
+   * Status and agent replies after `since`, polled by the widget
+   */
+  async getUpdates(shop: string, chatSessionId: string, since?: Date): Promise<HandoffUpdates | null> {
+    const session = await db.chatSession.findFirst({ where: { id: chatSessionId, shop }, select: { status: true } });
+    if (!session) return null;
+
+    const messages = await db.chatMessage.findMany({
+      where: {
+        sessionId: chatSessionId,
+        role: 'agent',
+        ...(since ? { timestamp: { gt: since } } : {}),
+      },
+      orderBy: { timestamp: 'asc' },
+      take: UPDATES_LIMIT,
+      select: { id: true, content: true, timestamp: true },
+    });
+
+    return { status: session.status as ChatSessionStatus, messages };
+  }
+
+  /**
+   * Inbox list: conversations in the given statuses, most recent first, with the last message
+   */
+  async listConversations(shop: string, statuses: ChatSessionStatus[], limit = 50) {
+    return db.chatSession.findMany({
+      where: { shop, status: { in: statuses } },
+      orderBy: { lastMessageAt: 'desc' },
+      take: limit,
+      include: {
+        messages: { orderBy: { timestamp: 'desc' }, take: 1 },
+      },
+    });
+  }
+
+  /**
+   * Count of conversations waiting for an agent (inbox badge)
+   */
+  async countWaiting(shop: string): Promise<number> {
+    return db.chatSession.count({ where: { shop, status: 'waiting' } });
+  }
+
+  async getConversation(shop: string, chatSessionId: string) {
+    const session = await db.chatSession.findFirst({
+      where: { id: chatSessionId, shop },
+      include: {
+        messages: { orderBy: { timestamp: 'desc' }, take: TRANSCRIPT_LIMIT },
+      },
+    });
+    if (!session) return null;
+
+    return { ...session, messages: [...session.messages].reverse() };
+  }
+
+  private async setStatus(shop: string, chatSessionId: string, status: ChatSessionStatus): Promise<boolean> {
+    const result = await db.chatSession.updateMany({
+      where: { id: chatSessionId, shop },
+      data: { status },
+    });
+
+    this.logger.info({ shop, chatSessionId, status }, 'Conversation status changed');
+    return result.count > 0;
+  }
+}
+
+export const handoffService = new HandoffService();
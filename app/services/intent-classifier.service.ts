@@ -0,0 +1,526 @@
+import { prisma as db } from "../db.server";
+import { logError, createLogger } from '../lib/logger.server';
+import { AI } from '../config/limits';
+import { getDefaultLLMProvider } from '../lib/llm-provider.server';
+import {
+  INTENT_TYPES,
+  isIntentType,
+  normalizeIntent,
+  type Intent,
+  type IntentType,
+} from '../lib/intents';
+
+/**
+ * Intent Classification Service
+ *
+ * Classifies shopper messages into the shared intent taxonomy (app/lib/intents.ts).
+ * Classification runs through a chain of layers, first confident answer wins:
+ *
+ * 1. Merchant rules  - per-shop keyword/regex rules stored in IntentRule
+ * 2. Built-in rules  - multilingual regexes (EN, FR, ES, DE, JA, IT, PT, ZH)
+ * 3. LLM             - optional LLM classification for messages no rule matched
+ *
+ * Additional layers can be passed to the constructor.
+ */
+
+export interface IntentLayerContext {
+  shop?: string;
+  /** The previous reply asked for the order number / email (order tracking flow) */
+  awaitingOrderDetails?: boolean;
+  /** Force the LLM layer on/off (defaults to AI.INTENT_LLM_ENABLED) */
+  useLLM?: boolean;
+}
+
+export interface IntentLayer {
+  name: string;
+  classify(message: string, context: IntentLayerContext): Promise<Intent | null>;
+}
+
+export interface IntentRuleInput {
+  intent: string;
+  pattern: string;
+  matchType?: 'keyword' | 'regex';
+  query?: string | null;
+  priority?: number;
+  enabled?: boolean;
+}
+
+interface CompiledRule {
+  id?: string;
+  intent: IntentType;
+  pattern: RegExp;
+  confidence: number;
+  query?: string;
+}
+
+const MERCHANT_RULE_CONFIDENCE = 0.95;
+const DEFAULT_CONFIDENCE = 0.3;
+const RULE_CACHE_TTL_MS = 5 * 60 * 1000;
+const MAX_PATTERN_LENGTH = 500;
+// Merchant and built-in rules only look at the start of long messages
+const MAX_MATCH_LENGTH = 1000;
+
+/**
+ * Built-in rules, evaluated in order.
+ * Support intents come first so "where is my order" never turns into a product search.
+ */
+const BUILT_IN_RULES: CompiledRule[] = [
+  // ========================================
+  // CUSTOMER SUPPORT INTENTS (NO PRODUCTS)
+  // ========================================
+  {
+    intent: 'SHIPPING_INFO',
+    confidence: 0.9,
+    pattern: /(shipping|delivery|livraison|expédition|délai.*livraison|frais.*port|envío|entrega|enviar|versand|lieferung|spedizione|consegna|envio|配送|配达|发货|物流|配送について|配達)/i,
+  },
+  {
+    intent: 'RETURNS',
+    confidence: 0.9,
+    pattern: /(return|refund|exchange|money back|warranty|retour|remboursement|échange|politique.*retour|devoluciones?|reembolso|cambio|rücksendung|erstattung|umtausch|resi|rimborso|devolução|troca|退货|退款|换货|返品|返金|返品ポリシー)/i,
+  },
+  {
+    intent: 'TRACK_ORDER',
+    confidence: 0.9,
+    pattern: /(track|tracking|where.*is.*my.*order|order.*status|suivre.*commande|suivi.*colis|rastrear|seguimiento|pedido|verfolgen|sendungsverfolgung|bestellung|traccia.*ordine|stato.*ordine|acompanhar|追踪|订单状态|查询|追跡|注文.*追跡|注文状況)/i,
+  },
+  {
+    intent: 'HELP_FAQ',
+    confidence: 0.8,
+    pattern: /(help|faq|question|support|assistance|aide|besoin.*aide|customer.*service|service.*client|talk.*to.*someone|speak.*to.*someone|contact.*you|reach.*you|parler.*avec|parler.*quelqu'un|contacter|joindre|comment.*vous.*contacter|ayuda|asistencia|soporte|servicio.*cliente|preguntas?|hilfe|unterstützung|kundendienst|fragen?|aiuto|supporto|assistenza|servizio.*clienti|domande?|ajuda|suporte|atendimento|perguntas?|帮助|支持|客服|联系|咨询|ヘルプ|サポート|助け|お問い合わせ)/i,
+  },
+
+  // ========================================
+  // PRODUCT DISCOVERY INTENTS
+  // ========================================
+  {
+    intent: 'BESTSELLERS',
+    confidence: 0.9,
+    pattern: /(best[-\s]?selling|best[-\s]?seller|top[-\s]?seller|most[-\s]?popular|popular.*product|meilleur.*vente|plus.*vendus|más.*vendido|populares?|producto.*popular|bestseller|beliebte.*produkte?|più.*venduti|popolari|mais.*vendidos|畅销|热门|人気|ベストセラー|人気商品)/i,
+  },
+  {
+    intent: 'NEW_ARRIVALS',
+    confidence: 0.9,
+    pattern: /(new[-\s]?arrival|latest|recent|just[-\s]?added|nouveauté|nouveau.*produit|dernier.*ajout|novedades?|nuevo.*producto|neuheiten?|neue.*produkte?|novità|nuovi.*prodotti|novidades?|novo.*produto|新品|新上市|新着|新商品|新製品)/i,
+  },
+  {
+    intent: 'ON_SALE',
+    confidence: 0.9,
+    pattern: /(on[-\s]?sale|discount|promo|deal|solde|réduction|promotion|rabais|oferta|descuento|rebaja|angebot|rabatt|reduziert|offerta|sconto|promoção|desconto|促销|打折|优惠|特价|セール|割引|特売)/i,
+  },
+  {
+    intent: 'RECOMMENDATIONS',
+    confidence: 0.9,
+    pattern: /(recommendation|recommend.*for.*me|suggest.*for.*me|for[-\s]?you|personnalisé|recommandation|recomendaciones?|recomendado|sugerencias?|empfehlungen?|empfohlen|vorschläge|raccomandazioni?|consigliato|suggerimenti|recomendações?|sugestões|推荐|建议|おすすめ|推奨|お勧め)/i,
+  },
+
+  // ========================================
+  // PRODUCT QUESTIONS
+  // ========================================
+  {
+    intent: 'PRICE_INQUIRY',
+    confidence: 0.8,
+    pattern: /(how much|cost|price|expensive|cheap|budget|afford|combien|prix|cuánto|precio|wie viel|preis|quanto|prezzo|preço|价格|多少钱|値段|価格|いくら)/i,
+  },
+  {
+    intent: 'SIZE_FIT',
+    confidence: 0.8,
+    pattern: /(size|sizing|\bfits?\b|measurements|dimensions|how big|how small|taille|pointure|talla|größe|taglia|tamanho|尺码|尺寸|サイズ)/i,
+  },
+  {
+    intent: 'COMPARISON',
+    confidence: 0.8,
+    pattern: /(compare|comparison|difference|better|\bvs\b|versus|which one|comparer|différence|comparar|diferencia|vergleich|unterschied|confronta|differenza|diferença|比较|区别|比較|違い)/i,
+  },
+  {
+    intent: 'AVAILABILITY',
+    confidence: 0.8,
+    pattern: /(in stock|out of stock|back in stock|available|availability|sold out|inventory|en stock|disponible|rupture|agotado|verfügbar|lieferbar|disponibile|esaurito|disponível|esgotado|有货|库存|在庫)/i,
+  },
+
+  // ========================================
+  // FALLBACK: Generic Product Search
+  // ========================================
+  {
+    intent: 'PRODUCT_SEARCH',
+    confidence: 0.85,
+    query: 't-shirt',
+    pattern: /(t[-\s]?shirt)/i,
+  },
+  {
+    intent: 'PRODUCT_SEARCH',
+    confidence: 0.85,
+    query: 'shoe',
+    pattern: /(shoe|chaussure|sneaker|boot|basket)/i,
+  },
+  {
+    intent: 'PRODUCT_SEARCH',
+    confidence: 0.6,
+    query: 'product',
+    pattern: /(show|see|display|browse|view|product|item|all.*product|categor|looking for|search|find|montre|affiche|voir|parcour|vêtement|produit|collection)/i,
+  },
+
+  // ========================================
+  // CONVERSATIONAL
+  // ========================================
+  {
+    intent: 'THANKS',
+    confidence: 0.85,
+    pattern: /(thank|thanks|appreciate|grateful|merci|gracias|danke|grazie|obrigad|谢谢|ありがとう)/i,
+  },
+  {
+    intent: 'GREETING',
+    confidence: 0.85,
+    pattern: /^(hi|hello|hey|good morning|good afternoon|good evening|bonjour|salut|hola|hallo|guten tag|ciao|olá|oi|你好|こんにちは)(?![a-z])/i,
+  },
+];
+
+function matchRules(message: string, rules: CompiledRule[], source: Intent['source']): Intent | null {
+  const text = message.slice(0, MAX_MATCH_LENGTH);
+  for (const rule of rules) {
+    if (rule.pattern.test(text)) {
+      return {
+        type: rule.intent,
+        confidence: rule.confidence,
+        source,
+        ...(rule.query ? { query: rule.query } : {}),
+        ...(rule.id ? { ruleId: rule.id } : {}),
+      };
+    }
+  }
+  return null;
+}
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/**
+ * Reject regexes that can backtrack exponentially: a repeated group that itself contains a
+ * repetition or an alternation (`(a+)+`, `(a|aa)*`), and backreferences. Rules run against
+ * every shopper message in a process shared by all shops, so one slow pattern stalls them all.
+ */
+export function assertSafePattern(pattern: string): void {
+  // One entry per open group: whether it contains a repetition or an alternation
+  const groups: Array<{ repeats: boolean; alternates: boolean }> = [{ repeats: false, alternates: false }];
+  // What a quantifier right here would repeat: a group's contents, a single token, or nothing
+  let last: { repeats: boolean; alternates: boolean } | null = null;
+
+  for (let i = 0; i < pattern.length; i++) {
+    const char = pattern[i]!;
+    const group = groups[groups.length - 1]!;
+
+    if (char === '\\') {
+      const next = pattern[i + 1] || '';
+      if (/[1-9]/.test(next) || next === 'k') {
+        throw new Error('Rule patterns cannot use backreferences');
+      }
+      i++;
+      last = { repeats: false, alternates: false };
+    } else if (char === '[') {
+      // Skip the character class
+      i++;
+      if (pattern[i] === '^') i++;
+      if (pattern[i] === ']') i++;
+      while (i < pattern.length && pattern[i] !== ']') {
+        if (pattern[i] === '\\') i++;
+        i++;
+      }
+      last = { repeats: false, alternates: false };
+    } else if (char === '(') {
+      groups.push({ repeats: false, alternates: false });
+      last = null;
+    } else if (char === ')') {
+      const closed = groups.length > 1 ? groups.pop()! : group;
+      last = closed;
+      const parent = groups[groups.length - 1]!;
+      parent.repeats = parent.repeats || closed.repeats;
+    } else if (char === '|') {
+      group.alternates = true;
+      last = null;
+    } else if (char === '*' || char === '+' || char === '{') {
+      let bounded = false;
+      if (char === '{') {
+        const match = /^\{(\d+)(,(\d*))?\}/.exec(pattern.slice(i));
+        if (!match) {
+          last = { repeats: false, alternates: false };
+          continue;
+        }
+        // {n} and {0,1} repeat at most once more, like ?
+        bounded = match[2] === undefined ? Number(match[1]) <= 1 : match[3] !== '' && Number(match[3]) <= 1;
+        i += match[0].length - 1;
+      }
+      if (!bounded) {
+        if (last && (last.repeats || last.alternates)) {
+          throw new Error('Rule patterns cannot repeat a group that contains a repetition or an alternation');
+        }
+        group.repeats = true;
+      }
+      last = null;
+    } else if (char === '?') {
+      // Optional token, or a lazy quantifier / group modifier: repeats nothing
+      last = null;
+    } else {
+      last = { repeats: false, alternates: false };
+    }
+  }
+}
+
+/**
+ * Compile a merchant rule pattern.
+ * Keyword rules are a comma-separated list of words/phrases; regex rules are used as-is once
+ * assertSafePattern() accepted them.
+ */
+export function compileRulePattern(pattern: string, matchType: string = 'keyword'): RegExp {
+  if (!pattern.trim()) {
+    throw new Error('Rule pattern cannot be empty');
+  }
+  if (pattern.length > MAX_PATTERN_LENGTH) {
+    throw new Error(`Rule pattern must be at most ${MAX_PATTERN_LENGTH} characters`);
+  }
+
+  if (matchType === 'regex') {
+    assertSafePattern(pattern);
+    return new RegExp(pattern, 'i');
+  }
+
+  const keywords = pattern
+    .split(',')
+    .map(keyword => keyword.trim())
+    .filter(Boolean)
+    .map(escapeRegExp);
+
+  if (keywords.length === 0) {
+    throw new Error('Rule pattern must contain at least one keyword');
+  }
+
+  return new RegExp(`(${keywords.join('|')})`, 'i');
+}
+
+/**
+ * Follow-up with the order number / email asked for by the order tracking flow. Only applied
+ * right after that request: on its own an email or "#123" says nothing about order tracking.
+ */
+const ORDER_DETAILS_RULE: CompiledRule = {
+  intent: 'TRACK_ORDER',
+  confidence: 0.85,
+  pattern: /(#\s*\d{3,12}\b|[\w.%+-]+@[\w.-]+\.[a-z]{2,})/i,
+};
+
+/**
+ * Layer 1: per-shop merchant rules
+ */
+class MerchantRuleLayer implements IntentLayer {
+  name = 'merchant_rule';
+  private loadRules: (shop: string) => Promise<CompiledRule[]>;
+
+  constructor(loadRules: (shop: string) => Promise<CompiledRule[]>) {
+    this.loadRules = loadRules;
+  }
+
+  async classify(message: string, context: IntentLayerContext): Promise<Intent | null> {
+    if (!context.shop) return null;
+    const rules = await this.loadRules(context.shop);
+    return matchRules(message, rules, 'merchant_rule');
+  }
+}
+
+/**
+ * Layer 2: built-in multilingual rules
+ */
+class BuiltInRuleLayer implements IntentLayer {
+  name = 'rule';
+
+  async classify(message: string, context: IntentLayerContext): Promise<Intent | null> {
+    const rules = context.awaitingOrderDetails ? [ORDER_DETAILS_RULE, ...BUILT_IN_RULES] : BUILT_IN_RULES;
+    return matchRules(message, rules, 'rule');
+  }
+}
+
+/**
+ * Layer 3: LLM classification (only when enabled and an LLM provider is configured)
+ */
+class LLMLayer implements IntentLayer {
+  name = 'llm';
+  private logger = createLogger({ service: 'IntentClassifier.LLM' });
+
+  async classify(message: string, context: IntentLayerContext): Promise<Intent | null> {
+    const enabled = context.useLLM ?? AI.INTENT_LLM_ENABLED;
+    const llm = enabled ? getDefaultLLMProvider() : null;
+    if (!llm) return null;
+
+    try {
+      const response = await llm.chat({
+        messages: [
+          {
+            role: 'system',
+            content: `Classify the customer's message for an online store assistant.
+Valid intents: ${INTENT_TYPES.join(', ')}.
+Respond with JSON: {"intent": "<one of the valid intents>", "confidence": <number between 0 and 1>}`,
+          },
+          { role: 'user', content: message },
+        ],
+        temperature: 0,
+        json: true,
+      });
+
+      const parsed = JSON.parse(response.content || '{}');
+      if (!isIntentType(parsed.intent)) {
+        this.logger.debug({ intent: parsed.intent }, 'LLM returned unknown intent');
+        return null;
+      }
+
+      const confidence = typeof parsed.confidence === 'number'
+        ? Math.min(Math.max(parsed.confidence, 0), 1)
+        : 0.7;
+
+      return { type: parsed.intent, confidence, source: 'llm' };
+    } catch (error) {
+      logError(error, 'LLM intent classification failed');
+      return null;
+    }
+  }
+}
+
+export class IntentClassifierService {
+  private logger = createLogger({ service: 'IntentClassifierService' });
+  private ruleCache = new Map<string, { rules: CompiledRule[]; expiresAt: number }>();
+  private layers: IntentLayer[];
+
+  constructor(layers?: IntentLayer[]) {
+    this.layers = layers || [
+      new MerchantRuleLayer(shop => this.getCompiledRules(shop)),
+      new BuiltInRuleLayer(),
+      new LLMLayer(),
+    ];
+  }
+
+  /**
+   * Classify a message.
+   * Layers run in order; the first result at or above AI.INTENT_CONFIDENCE_THRESHOLD wins,
+   * otherwise the most confident result is returned (GENERAL_CHAT if nothing matched).
+   */
+  async classify(message: string, context: IntentLayerContext = {}): Promise<Intent> {
+    const text = message.toLowerCase().trim();
+    let best: Intent = { type: 'GENERAL_CHAT', confidence: DEFAULT_CONFIDENCE, source: 'default' };
+
+    for (const layer of this.layers) {
+      try {
+        const result = await layer.classify(text, context);
+        if (!result) continue;
+
+        if (result.confidence > best.confidence) {
+          best = result;
+        }
+        if (result.confidence >= AI.INTENT_CONFIDENCE_THRESHOLD) {
+          break;
+        }
+      } catch (error) {
+        logError(error, 'Intent layer failed', { layer: layer.name });
+      }
+    }
+
+    this.logger.debug({ intent: best.type, confidence: best.confidence, source: best.source }, 'Intent classified');
+    return best;
+  }
+
+  /**
+   * List a shop's merchant rules (including disabled ones)
+   */
+  async listRules(shop: string) {
+    return db.intentRule.findMany({
+      where: { shop },
+      orderBy: [{ priority: 'desc' }, { createdAt: 'asc' }],
+    });
+  }
+
+  /**
+   * Create a merchant rule. Throws if the intent or pattern is invalid.
+   */
+  async createRule(shop: string, input: IntentRuleInput) {
+    const data = this.validateRuleInput(input);
+    const rule = await db.intentRule.create({ data: { shop, ...data } });
+    this.invalidateRules(shop);
+    return rule;
+  }
+
+  /**
+   * Update a merchant rule. Throws if the intent or pattern is invalid.
+   */
+  async updateRule(shop: string, id: string, input: IntentRuleInput) {
+    const data = this.validateRuleInput(input);
+    const result = await db.intentRule.updateMany({ where: { id, shop }, data });
+    this.invalidateRules(shop);
+    return result.count > 0;
+  }
+
+  /**
+   * Delete a merchant rule
+   */
+  async deleteRule(shop: string, id: string) {
+    const result = await db.intentRule.deleteMany({ where: { id, shop } });
+    this.invalidateRules(shop);
+    return result.count > 0;
+  }
+
+  /**
+   * Drop cached rules for a shop (or all shops)
+   */
+  invalidateRules(shop?: string) {
+    if (shop) {
+      this.ruleCache.delete(shop);
+    } else {
+      this.ruleCache.clear();
+    }
+  }
+
+  private validateRuleInput(input: IntentRuleInput) {
+    if (!isIntentType(input.intent)) {
+      throw new Error(`Unknown intent: ${input.intent}`);
+    }
+
+    const matchType = input.matchType === 'regex' ? 'regex' : 'keyword';
+    // Throws on invalid patterns
+    compileRulePattern(input.pattern, matchType);
+
+    return {
+      intent: input.intent,
+      pattern: input.pattern.trim(),
+      matchType,
+      query: input.query?.trim() || null,
+      priority: input.priority ?? 0,
+      enabled: input.enabled ?? true,
+    };
+  }
+
+  private async getCompiledRules(shop: string): Promise<CompiledRule[]> {
+    const cached = this.ruleCache.get(shop);
+    if (cached && cached.expiresAt > Date.now()) {
+      return cached.rules;
+    }
+
+    const rows = await db.intentRule.findMany({
+      where: { shop, enabled: true },
+      orderBy: [{ priority: 'desc' }, { createdAt: 'asc' }],
+    });
+
+    const rules: CompiledRule[] = [];
+    for (const row of rows) {
+      try {
+        rules.push({
+          id: row.id,
+          intent: normalizeIntent(row.intent),
+          pattern: compileRulePattern(row.pattern, row.matchType),
+          confidence: MERCHANT_RULE_CONFIDENCE,
+          query: row.query || undefined,
+        });
+      } catch (error) {
+        this.logger.warn({ ruleId: row.id, error: (error as Error).message }, 'Skipping invalid intent rule');
+      }
+    }
+
+    this.ruleCache.set(shop, { rules, expiresAt: Date.now() + RULE_CACHE_TTL_MS });
+    return rules;
+  }
+}
+
+export const intentClassifier = new IntentClassifierService();
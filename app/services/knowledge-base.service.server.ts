@@ -0,0 +1,589 @@
+/**
+ * Knowledge Base Service
+ *
+ * Store knowledge the assistant answers from besides the product catalog: long-form text
+ * pasted by the merchant, the store's Pages and Blog articles imported through the Admin
+ * API, and its policies (kept in sync by shop-policies.service.server.ts). Documents are split into overlapping chunks and embedded in the background
+ * ("knowledge.index" job); for each chat message the closest chunks are sent to the
+ * assistant in `context.knowledge` next to the custom FAQ entries (faq.service.server.ts),
+ * and the reply cites the ones it used.
+ *
+ * Chunks are searched with pgvector when the KnowledgeChunk.embeddingVector column exists,
+ * in memory otherwise; without an embedding provider they are ranked by word overlap.
+ */
+
+import { createHash } from 'crypto';
+import type { AdminApiContext } from '@shopify/shopify-app-remix/server';
+import { prisma as db } from "../db.server";
+import { createLogger, logError } from '../lib/logger.server';
+import { enqueueJob } from '../lib/job-queue.server';
+import { KNOWLEDGE } from '../config/limits';
+import type {
+  KnowledgeDocumentType,
+  KnowledgeImportKind,
+  KnowledgePassage,
+} from '../lib/knowledge';
+import {
+  VECTOR_DIMENSIONS,
+  cosineSimilarity,
+  getEmbeddingService,
+  isEmbeddingServiceAvailable,
+  toVectorLiteral,
+} from './embedding.service';
+import { htmlToText } from './catalog-sync.service.server';
+import { faqService, significantWords, type FaqMatch } from './faq.service.server';
+
+const CACHE_TTL_MS = 60 * 1000;
+const MAX_TITLE_LENGTH = 200;
+
+// Chunks per embedding API call
+const EMBEDDING_BATCH_SIZE = 100;
+
+// Admin API page size of the import queries
+const IMPORT_PAGE_SIZE = 50;
+
+const IMPORT_DOCUMENT_TYPES: Record<KnowledgeImportKind, KnowledgeDocumentType> = {
+  pages: 'page',
+  articles: 'article',
+};
+
+const IMPORT_QUERIES: Record<KnowledgeImportKind, string> = {
+  pages: `#graphql
+    query knowledgePages($first: Int!, $after: String) {
+      pages(first: $first, after: $after) {
+        nodes { id title handle body isPublished }
+        pageInfo { hasNextPage endCursor }
+      }
+    }`,
+  articles: `#graphql
+    query knowledgeArticles($first: Int!, $after: String) {
+      articles(first: $first, after: $after) {
+        nodes { id title handle body isPublished blog { handle } }
+        pageInfo { hasNextPage endCursor }
+      }
+    }`,
+};
+
+export interface KnowledgeRetrieval {
+  faqs: FaqMatch[];
+  passages: KnowledgePassage[];
+}
+
+export interface KnowledgeImportResult {
+  created: number;
+  updated: number;
+  unchanged: number;
+  removed: number;
+}
+
+// Store content mirrored into the knowledge base, identified by its Admin API GID
+export interface StoreDocument {
+  externalId: string;
+  title: string;
+  url: string;
+  content: string;
+}
+
+interface StoreContentConnection {
+  nodes: Array<{ id: string; title: string; handle: string; body: string | null; isPublished: boolean; blog?: { handle: string } }>;
+  pageInfo: { hasNextPage: boolean; endCursor: string | null };
+}
+
+interface CachedChunk {
+  documentId: string;
+  type: KnowledgeDocumentType;
+  title: string;
+  url: string | null;
+  content: string;
+  embedding: number[] | null;
+}
+
+interface ChunkIndex {
+  // Whether embedded chunks are searched in the database
+  vector: boolean;
+  // Whether the shop has embedded chunks (worth embedding the message for)
+  embedded: boolean;
+  // Chunks ranked in memory: all of them, or only those without an embedding when searching with pgvector
+  chunks: CachedChunk[];
+}
+
+function contentHash(title: string, url: string | null, content: string): string {
+  return createHash('sha256').update(`${title}\n${url || ''}\n${content}`).digest('hex');
+}
+
+function parseEmbedding(value: string | null): number[] | null {
+  if (!value) return null;
+  try {
+    const parsed = JSON.parse(value);
+    return Array.isArray(parsed) ? parsed : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Split a segment longer than `size` at word boundaries
+ */
+function splitLongSegment(segment: string, size: number): string[] {
+  const pieces: string[] = [];
+  let rest = segment;
+
+  while (rest.length > size) {
+    const space = rest.lastIndexOf(' ', size);
+    const cut = space > size / 2 ? space : size;
+    pieces.push(rest.slice(0, cut).trim());
+    rest = rest.slice(cut).trim();
+  }
+  if (rest) pieces.push(rest);
+  return pieces;
+}
+
+/**
+ * Last `overlap` characters of a chunk, starting at a word boundary
+ */
+function overlapTail(chunk: string, overlap: number): string {
+  if (overlap <= 0 || chunk.length <= overlap) return '';
+  const tail = chunk.slice(-overlap);
+  const space = tail.indexOf(' ');
+  return space >= 0 ? tail.slice(space + 1) : tail;
+}
+
+/**
+ * Split a document into chunks of about `size` characters: paragraphs and sentences are kept
+ * whole when they fit, and each chunk starts with the last `overlap` characters of the previous one
+ */
+export function chunkText(
+  text: string,
+  size: number = KNOWLEDGE.CHUNK_SIZE,
+  overlap: number = KNOWLEDGE.CHUNK_OVERLAP
+): string[] {
+  const segments = text
+    .split(/\n\s*\n/)
+    .map(paragraph => paragraph.replace(/\s+/g, ' ').trim())
+    .filter(Boolean)
+    .flatMap(paragraph => paragraph.length <= size
+      ? [paragraph]
+      : (paragraph.match(/[^.!?]+(?:[.!?]+["')\]]*|$)/g) || [paragraph])
+        .map(sentence => sentence.trim())
+        .filter(Boolean)
+        .flatMap(sentence => splitLongSegment(sentence, size)));
+
+  const chunks: string[] = [];
+  let current = '';
+
+  for (const segment of segments) {
+    if (current && current.length + 1 + segment.length > size) {
+      chunks.push(current);
+      const tail = overlapTail(current, overlap);
+      current = tail && tail.length + 1 + segment.length <= size ? `${tail} ${segment}` : segment;
+    } else {
+      current = current ? `${current} ${segment}` : segment;
+    }
+  }
+  if (current) chunks.push(current);
+
+  return chunks;
+}
+
+/**
+ * Relevance of a chunk to a message: cosine of their embeddings when both have one,
+ * otherwise the share of the message's words found in the chunk
+ */
+export function passageSimilarity(
+  message: { text: string; embedding: number[] | null },
+  chunk: { text: string; embedding: number[] | null }
+): number {
+  if (message.embedding && chunk.embedding && message.embedding.length === chunk.embedding.length) {
+    return cosineSimilarity(message.embedding, chunk.embedding);
+  }
+
+  const messageWords = significantWords(message.text);
+  if (messageWords.size === 0) return 0;
+
+  const chunkWords = significantWords(chunk.text);
+  let found = 0;
+  for (const word of messageWords) {
+    if (chunkWords.has(word)) found++;
+  }
+  return found / messageWords.size;
+}
+
+export class KnowledgeBaseService {
+  private logger = createLogger({ service: 'KnowledgeBaseService' });
+  private chunkCache = new Map<string, { index: ChunkIndex; expiresAt: number }>();
+
+  /**
+   * List a shop's documents (without their content), most recently updated first
+   */
+  async listDocuments(shop: string) {
+    return db.knowledgeDocument.findMany({
+      where: { shop },
+      orderBy: { updatedAt: 'desc' },
+      select: {
+        id: true,
+        type: true,
+        title: true,
+        url: true,
+        status: true,
+        error: true,
+        chunkCount: true,
+        indexedAt: true,
+        updatedAt: true,
+      },
+    });
+  }
+
+  /**
+   * Add pasted text to the knowledge base; it is indexed in the background
+   */
+  async createTextDocument(shop: string, input: { title: string; content: string }) {
+    const title = input.title.trim();
+    const content = input.content.trim();
+
+    if (!title || !content) {
+      throw new Error('Both the title and the text are required');
+    }
+    if (title.length > MAX_TITLE_LENGTH) {
+      throw new Error(`The title must be at most ${MAX_TITLE_LENGTH} characters`);
+    }
+    if (content.length > KNOWLEDGE.MAX_DOCUMENT_LENGTH) {
+      throw new Error(`The text must be at most ${KNOWLEDGE.MAX_DOCUMENT_LENGTH} characters`);
+    }
+
+    const document = await db.knowledgeDocument.create({
+      data: {
+        shop,
+        type: 'text',
+        title,
+        content,
+        contentHash: contentHash(title, null, content),
+      },
+    });
+    await enqueueJob('knowledge.index', { documentId: document.id }, { shop });
+
+    this.logger.info({ shop, documentId: document.id, length: content.length }, 'Knowledge document created');
+    return document;
+  }
+
+  /**
+   * Index a document again (e.g. after it failed, or the embedding model changed)
+   */
+  async reindexDocument(shop: string, id: string): Promise<boolean> {
+    const result = await db.knowledgeDocument.updateMany({
+      where: { id, shop },
+      data: { status: 'pending', error: null },
+    });
+    if (result.count === 0) return false;
+
+    await enqueueJob('knowledge.index', { documentId: id }, { shop });
+    return true;
+  }
+
+  async deleteDocument(shop: string, id: string): Promise<boolean> {
+    // Chunks are removed by the foreign key cascade
+    const result = await db.knowledgeDocument.deleteMany({ where: { id, shop } });
+    this.invalidateChunks(shop);
+    return result.count > 0;
+  }
+
+  /**
+   * Import the store's pages or blog articles in the background
+   */
+  async enqueueImport(shop: string, kind: KnowledgeImportKind) {
+    return enqueueJob('knowledge.import', { kind }, { shop });
+  }
+
+  /**
+   * Replace a document's chunks: split it, embed the chunks and store them.
+   * Returns the number of chunks, or null when the document no longer exists.
+   */
+  async indexDocument(shop: string, documentId: string): Promise<number | null> {
+    const document = await db.knowledgeDocument.findFirst({ where: { id: documentId, shop } });
+    if (!document) {
+      this.logger.debug({ shop, documentId }, 'Knowledge document deleted before indexing');
+      return null;
+    }
+
+    try {
+      const chunks = chunkText(document.content);
+      // The title gives each chunk's embedding the document's context
+      const embeddings = await this.embedChunks(chunks.map(chunk => `${document.title}\n${chunk}`));
+      const embeddingModel = embeddings ? getEmbeddingService().getModel() : null;
+
+      await db.$transaction([
+        db.knowledgeChunk.deleteMany({ where: { documentId } }),
+        db.knowledgeChunk.createMany({
+          data: chunks.map((content, position) => ({
+            shop,
+            documentId,
+            position,
+            content,
+            embedding: embeddings ? JSON.stringify(embeddings[position]) : null,
+            embeddingModel,
+          })),
+        }),
+        db.knowledgeDocument.update({
+          where: { id: documentId },
+          data: { status: 'ready', error: null, chunkCount: chunks.length, indexedAt: new Date() },
+        }),
+      ]);
+
+      if (embeddings?.[0]?.length === VECTOR_DIMENSIONS) {
+        await this.storeVectors(documentId);
+      }
+
+      this.invalidateChunks(shop);
+      this.logger.info({ shop, documentId, chunks: chunks.length, embedded: !!embeddings }, 'Knowledge document indexed');
+      return chunks.length;
+    } catch (error) {
+      logError(error, 'Failed to index knowledge document', { shop, documentId });
+      await db.knowledgeDocument.update({
+        where: { id: documentId },
+        data: { status: 'failed', error: error instanceof Error ? error.message : String(error) },
+      }).catch(() => undefined);
+      throw error;
+    }
+  }
+
+  /**
+   * Sync the store's published pages or blog articles: new and changed ones are (re-)indexed,
+   * the ones no longer published are removed
+   */
+  async importFromStore(shop: string, admin: AdminApiContext, kind: KnowledgeImportKind): Promise<KnowledgeImportResult> {
+    const items = await this.fetchStoreDocuments(shop, admin, kind);
+    const result = await this.syncStoreDocuments(shop, IMPORT_DOCUMENT_TYPES[kind], items);
+
+    this.logger.info({ shop, kind, ...result }, 'Store content imported into the knowledge base');
+    return result;
+  }
+
+  /**
+   * Make the shop's documents of a type match `items`: only new and changed documents
+   * (by content hash) are indexed, documents missing from `items` are removed
+   */
+  async syncStoreDocuments(shop: string, type: KnowledgeDocumentType, items: StoreDocument[]): Promise<KnowledgeImportResult> {
+    const existing: Array<{ id: string; externalId: string | null; contentHash: string }> = await db.knowledgeDocument.findMany({
+      where: { shop, type },
+      select: { id: true, externalId: true, contentHash: true },
+    });
+    const existingByExternalId = new Map(existing.map(document => [document.externalId, document]));
+
+    const result: KnowledgeImportResult = { created: 0, updated: 0, unchanged: 0, removed: 0 };
+
+    for (const item of items) {
+      const hash = contentHash(item.title, item.url, item.content);
+      const current = existingByExternalId.get(item.externalId);
+      if (current?.contentHash === hash) {
+        result.unchanged++;
+        continue;
+      }
+
+      const document = await db.knowledgeDocument.upsert({
+        where: { shop_externalId: { shop, externalId: item.externalId } },
+        update: { title: item.title, url: item.url, content: item.content, contentHash: hash, status: 'pending', error: null },
+        create: { shop, type, externalId: item.externalId, title: item.title, url: item.url, content: item.content, contentHash: hash },
+      });
+      await enqueueJob('knowledge.index', { documentId: document.id }, { shop });
+
+      if (current) {
+        result.updated++;
+      } else {
+        result.created++;
+      }
+    }
+
+    const syncedIds = new Set(items.map(item => item.externalId));
+    const removedIds = existing
+      .filter(document => !document.externalId || !syncedIds.has(document.externalId))
+      .map(document => document.id);
+    if (removedIds.length > 0) {
+      const removed = await db.knowledgeDocument.deleteMany({ where: { shop, id: { in: removedIds } } });
+      result.removed = removed.count;
+      this.invalidateChunks(shop);
+    }
+
+    return result;
+  }
+
+  /**
+   * FAQ entries and knowledge base passages relevant to a chat message, best first.
+   * The message is embedded once for both.
+   */
+  async retrieve(shop: string, message: string): Promise<KnowledgeRetrieval> {
+    const index = await this.getChunkIndex(shop);
+    const embedding = index.embedded || (await faqService.hasEmbeddedEntries(shop))
+      ? await faqService.embed(message)
+      : null;
+
+    const faqs = await faqService.rank(shop, message, embedding);
+
+    const passages: KnowledgePassage[] = index.chunks.map(chunk => ({
+      documentId: chunk.documentId,
+      type: chunk.type,
+      title: chunk.title,
+      url: chunk.url,
+      content: chunk.content,
+      similarity: passageSimilarity({ text: message, embedding }, { text: chunk.content, embedding: chunk.embedding }),
+    }));
+
+    if (index.vector && index.embedded && embedding?.length === VECTOR_DIMENSIONS) {
+      try {
+        passages.push(...await this.findNearest(shop, embedding, KNOWLEDGE.MAX_PROMPT_PASSAGES));
+      } catch (error) {
+        logError(error, 'Knowledge base vector search failed', { shop });
+      }
+    }
+
+    return {
+      faqs,
+      passages: passages
+        .filter(passage => passage.similarity >= KNOWLEDGE.MATCH_SIMILARITY)
+        .sort((a, b) => b.similarity - a.similarity)
+        .slice(0, KNOWLEDGE.MAX_PROMPT_PASSAGES),
+    };
+  }
+
+  /**
+   * Drop cached chunks for a shop (or all shops)
+   */
+  invalidateChunks(shop?: string) {
+    if (shop) {
+      this.chunkCache.delete(shop);
+    } else {
+      this.chunkCache.clear();
+    }
+  }
+
+  /**
+   * Published pages / articles of the store as plain text, up to KNOWLEDGE.MAX_IMPORT_DOCUMENTS
+   */
+  private async fetchStoreDocuments(shop: string, admin: AdminApiContext, kind: KnowledgeImportKind): Promise<StoreDocument[]> {
+    const documents: StoreDocument[] = [];
+    let after: string | null = null;
+
+    do {
+      const response: Response = await admin.graphql(IMPORT_QUERIES[kind], {
+        variables: { first: IMPORT_PAGE_SIZE, after },
+      });
+      const data: { data?: Partial<Record<KnowledgeImportKind, StoreContentConnection>>; errors?: unknown } = await response.json();
+      const connection = data.data?.[kind];
+      if (!connection) {
+        throw new Error(`Could not load ${kind}${data.errors ? `: ${JSON.stringify(data.errors)}` : ''}`);
+      }
+
+      for (const node of connection.nodes || []) {
+        if (!node.isPublished) continue;
+
+        const content = htmlToText(node.body || '').slice(0, KNOWLEDGE.MAX_DOCUMENT_LENGTH);
+        if (!content) continue;
+
+        documents.push({
+          externalId: node.id,
+          title: node.title || node.handle,
+          url: kind === 'articles'
+            ? `https://${shop}/blogs/${node.blog?.handle}/${node.handle}`
+            : `https://${shop}/pages/${node.handle}`,
+          content,
+        });
+      }
+
+      after = connection.pageInfo?.hasNextPage ? connection.pageInfo.endCursor : null;
+    } while (after && documents.length < KNOWLEDGE.MAX_IMPORT_DOCUMENTS);
+
+    return documents.slice(0, KNOWLEDGE.MAX_IMPORT_DOCUMENTS);
+  }
+
+  /**
+   * Embeddings of the chunks, or null without an embedding provider (ranked by word overlap)
+   */
+  private async embedChunks(texts: string[]): Promise<number[][] | null> {
+    if (!isEmbeddingServiceAvailable() || texts.length === 0) {
+      return null;
+    }
+
+    const embeddingService = getEmbeddingService();
+    const embeddings: number[][] = [];
+    for (let i = 0; i < texts.length; i += EMBEDDING_BATCH_SIZE) {
+      embeddings.push(...await embeddingService.generateEmbeddings(texts.slice(i, i + EMBEDDING_BATCH_SIZE)));
+    }
+    return embeddings;
+  }
+
+  /**
+   * Copy a document's chunk embeddings into the pgvector column (no-op without pgvector)
+   */
+  private async storeVectors(documentId: string): Promise<void> {
+    if (!(await getEmbeddingService().hasVectorSupport('KnowledgeChunk'))) {
+      return;
+    }
+
+    try {
+      await db.$executeRaw`
+        UPDATE "KnowledgeChunk"
+        SET "embeddingVector" = "embedding"::vector
+        WHERE "documentId" = ${documentId} AND "embedding" IS NOT NULL
+      `;
+    } catch (error) {
+      // The JSON column is still written, so in-memory search keeps working
+      logError(error, 'Error storing knowledge chunk vectors', { documentId });
+    }
+  }
+
+  /**
+   * Top-K nearest chunks by cosine similarity, computed in the database (HNSW index)
+   */
+  private async findNearest(shop: string, embedding: number[], topK: number): Promise<KnowledgePassage[]> {
+    const vector = toVectorLiteral(embedding);
+
+    const rows: KnowledgePassage[] = await db.$queryRaw<KnowledgePassage[]>`
+      SELECT c."documentId", d."type", d."title", d."url", c."content",
+             1 - (c."embeddingVector" <=> ${vector}::vector) AS "similarity"
+      FROM "KnowledgeChunk" c
+      JOIN "KnowledgeDocument" d ON d."id" = c."documentId"
+      WHERE c."shop" = ${shop} AND c."embeddingVector" IS NOT NULL
+      ORDER BY c."embeddingVector" <=> ${vector}::vector
+      LIMIT ${topK}
+    `;
+
+    return rows.map(row => ({ ...row, similarity: Number(row.similarity) }));
+  }
+
+  private async getChunkIndex(shop: string): Promise<ChunkIndex> {
+    const cached = this.chunkCache.get(shop);
+    if (cached && cached.expiresAt > Date.now()) {
+      return cached.index;
+    }
+
+    const vector = isEmbeddingServiceAvailable() && (await getEmbeddingService().hasVectorSupport('KnowledgeChunk'));
+
+    const rows = await db.knowledgeChunk.findMany({
+      // With pgvector only the chunks without an embedding are ranked in memory
+      where: vector ? { shop, embedding: null } : { shop },
+      select: {
+        documentId: true,
+        content: true,
+        embedding: true,
+        document: { select: { type: true, title: true, url: true } },
+      },
+    });
+
+    const chunks: CachedChunk[] = rows.map((row: any) => ({
+      documentId: row.documentId,
+      type: row.document.type,
+      title: row.document.title,
+      url: row.document.url,
+      content: row.content,
+      embedding: parseEmbedding(row.embedding),
+    }));
+
+    const embedded = vector
+      ? (await db.knowledgeChunk.count({ where: { shop, embedding: { not: null } } })) > 0
+      : chunks.some(chunk => chunk.embedding);
+
+    const index: ChunkIndex = { vector, embedded, chunks };
+    this.chunkCache.set(shop, { index, expiresAt: Date.now() + CACHE_TTL_MS });
+    return index;
+  }
+}
+
+export const knowledgeBaseService = new KnowledgeBaseService();
@@ -0,0 +1,245 @@
+/**
+ * Knowledge Gap Service
+ *
+ * The Unanswered questions report: user questions the assistant couldn't answer well
+ * (fallback replies, replies below AI.MIN_CONFIDENCE_THRESHOLD, and questions of sessions
+ * rated KNOWLEDGE_GAPS.MAX_RATING stars or less), grouped into clusters of similar
+ * questions with the embedding service and ranked by how often they were asked.
+ *
+ * Answering a cluster saves the answer as a custom FAQ entry (faq.service.server.ts), which
+ * the assistant uses from then on; clusters an FAQ entry already covers are left out.
+ */
+
+import { createHash } from 'crypto';
+import { prisma as db } from "../db.server";
+import { createLogger, logError } from '../lib/logger.server';
+import { KNOWLEDGE_GAPS } from '../config/limits';
+import { analyticsService, type AnalyticsPeriod } from './analytics.service';
+import { getEmbeddingService, isEmbeddingServiceAvailable } from './embedding.service';
+import { faqService, questionSimilarity } from './faq.service.server';
+
+// Texts per embedding API call
+const EMBEDDING_BATCH_SIZE = 100;
+
+// Shorter messages ("hi", "thanks", "ok?") aren't questions worth an FAQ entry
+const MIN_QUESTION_LENGTH = 8;
+
+export type KnowledgeGapReason = 'fallback' | 'low_confidence' | 'low_rating';
+
+export interface KnowledgeGapQuestion {
+  question: string;
+  reason: KnowledgeGapReason;
+  askedAt: Date;
+  chatSessionId: string;
+}
+
+export interface KnowledgeGapCluster {
+  // Stable across reports as long as the representative question doesn't change
+  id: string;
+  // The most common phrasing in the cluster
+  question: string;
+  count: number;
+  sessions: number;
+  reasons: Record<KnowledgeGapReason, number>;
+  // Other phrasings, most recent first (up to KNOWLEDGE_GAPS.CLUSTER_SAMPLES)
+  samples: string[];
+  lastAskedAt: Date;
+}
+
+interface EmbeddedQuestion extends KnowledgeGapQuestion {
+  embedding: number[] | null;
+}
+
+interface ClusterWithLeader extends KnowledgeGapCluster {
+  // Embedding of the first question of the cluster, which new questions are compared with
+  embedding: number[] | null;
+}
+
+function normalizeQuestion(question: string): string {
+  return question.toLowerCase().replace(/\s+/g, ' ').replace(/[?!.\s]+$/, '').trim();
+}
+
+function clusterId(question: string): string {
+  return createHash('sha256').update(normalizeQuestion(question)).digest('hex').slice(0, 16);
+}
+
+/**
+ * Group questions (most recent first) into clusters: each question joins the first cluster whose
+ * leading question is at least `threshold` similar, or starts a new one. Ranked by frequency.
+ */
+export function clusterQuestions(
+  questions: EmbeddedQuestion[],
+  threshold: number = KNOWLEDGE_GAPS.CLUSTER_SIMILARITY
+): ClusterWithLeader[] {
+  const clusters: Array<{ leader: EmbeddedQuestion; members: EmbeddedQuestion[] }> = [];
+
+  for (const question of questions) {
+    const cluster = clusters.find(candidate => questionSimilarity(
+      { text: candidate.leader.question, embedding: candidate.leader.embedding },
+      { text: question.question, embedding: question.embedding }
+    ) >= threshold);
+
+    if (cluster) {
+      cluster.members.push(question);
+    } else {
+      clusters.push({ leader: question, members: [question] });
+    }
+  }
+
+  return clusters
+    .map(({ leader, members }) => {
+      // Count each phrasing once per normalized form, keeping the most recent wording
+      const phrasings = new Map<string, { text: string; count: number }>();
+      const reasons: Record<KnowledgeGapReason, number> = { fallback: 0, low_confidence: 0, low_rating: 0 };
+
+      for (const member of members) {
+        const key = normalizeQuestion(member.question);
+        const phrasing = phrasings.get(key);
+        if (phrasing) {
+          phrasing.count++;
+        } else {
+          phrasings.set(key, { text: member.question.trim(), count: 1 });
+        }
+        reasons[member.reason]++;
+      }
+
+      const ranked = [...phrasings.values()];
+      const representative = ranked.reduce((best, phrasing) => (phrasing.count > best.count ? phrasing : best));
+
+      return {
+        id: clusterId(representative.text),
+        question: representative.text,
+        count: members.length,
+        sessions: new Set(members.map(member => member.chatSessionId)).size,
+        reasons,
+        samples: ranked
+          .filter(phrasing => phrasing !== representative)
+          .slice(0, KNOWLEDGE_GAPS.CLUSTER_SAMPLES)
+          .map(phrasing => phrasing.text),
+        lastAskedAt: members.reduce((latest, member) => (member.askedAt > latest ? member.askedAt : latest), leader.askedAt),
+        embedding: leader.embedding,
+      };
+    })
+    .sort((a, b) => b.count - a.count || b.lastAskedAt.getTime() - a.lastAskedAt.getTime());
+}
+
+export class KnowledgeGapService {
+  private logger = createLogger({ service: 'KnowledgeGapService' });
+
+  /**
+   * Unanswered questions of the period, most recent first (one per session and phrasing)
+   */
+  async getQuestions(shop: string, period: AnalyticsPeriod): Promise<KnowledgeGapQuestion[]> {
+    const [unanswered, lowRated] = await Promise.all([
+      analyticsService.getUnansweredQuestions(shop, period, KNOWLEDGE_GAPS.MAX_QUESTIONS),
+      this.getLowRatedQuestions(shop, period),
+    ]);
+
+    const seen = new Set<string>();
+    const questions: KnowledgeGapQuestion[] = [];
+
+    for (const question of [...unanswered, ...lowRated].sort((a, b) => b.askedAt.getTime() - a.askedAt.getTime())) {
+      const key = `${question.chatSessionId}:${normalizeQuestion(question.question)}`;
+      if (seen.has(key) || normalizeQuestion(question.question).length < MIN_QUESTION_LENGTH) continue;
+      seen.add(key);
+
+      questions.push({
+        question: question.question,
+        reason: question.reason,
+        askedAt: question.askedAt,
+        chatSessionId: question.chatSessionId,
+      });
+    }
+
+    return questions.slice(0, KNOWLEDGE_GAPS.MAX_QUESTIONS);
+  }
+
+  /**
+   * Clusters of similar unanswered questions, most frequent first, without the ones an
+   * enabled FAQ entry already answers
+   */
+  async getClusters(shop: string, period: AnalyticsPeriod): Promise<KnowledgeGapCluster[]> {
+    const questions = await this.getQuestions(shop, period);
+    if (questions.length === 0) return [];
+
+    const embeddings = await this.embedQuestions(questions.map(question => question.question));
+    const clusters = clusterQuestions(questions.map((question, index) => ({
+      ...question,
+      embedding: embeddings[index] ?? null,
+    })));
+
+    const open: KnowledgeGapCluster[] = [];
+    for (const { embedding, ...cluster } of clusters) {
+      const [covered] = await faqService.rank(shop, cluster.question, embedding, 1);
+      if (!covered) {
+        open.push(cluster);
+      }
+    }
+
+    this.logger.debug({ shop, questions: questions.length, clusters: clusters.length, open: open.length }, 'Clustered unanswered questions');
+    return open;
+  }
+
+  /**
+   * Answer a cluster once: the answer becomes an FAQ entry matched by all of its phrasings
+   */
+  async answerCluster(shop: string, input: { question: string; answer: string; samples?: string[] }) {
+    return faqService.createEntry(shop, {
+      question: input.question,
+      answer: input.answer,
+      variants: input.samples,
+      source: 'knowledge_gap',
+    });
+  }
+
+  /**
+   * User questions of sessions rated KNOWLEDGE_GAPS.MAX_RATING stars or less
+   */
+  private async getLowRatedQuestions(shop: string, period: AnalyticsPeriod): Promise<KnowledgeGapQuestion[]> {
+    try {
+      const messages: Array<{ sessionId: string; timestamp: Date; content: string }> = await db.chatMessage.findMany({
+        where: {
+          role: 'user',
+          timestamp: { gte: period.startDate, lte: period.endDate },
+          session: { shop, rating: { lte: KNOWLEDGE_GAPS.MAX_RATING } },
+        },
+        orderBy: { timestamp: 'desc' },
+        take: KNOWLEDGE_GAPS.MAX_QUESTIONS,
+        select: { sessionId: true, timestamp: true, content: true },
+      });
+
+      return messages.map(message => ({
+        question: message.content,
+        reason: 'low_rating' as const,
+        askedAt: message.timestamp,
+        chatSessionId: message.sessionId,
+      }));
+    } catch (error) {
+      logError(error, 'Error getting questions of low-rated sessions');
+      return [];
+    }
+  }
+
+  /**
+   * Embeddings of the questions (nulls without an embedding provider: clusters by word overlap)
+   */
+  private async embedQuestions(texts: string[]): Promise<Array<number[] | null>> {
+    if (!isEmbeddingServiceAvailable()) {
+      return texts.map(() => null);
+    }
+
+    try {
+      const embeddingService = getEmbeddingService();
+      const embeddings: number[][] = [];
+      for (let i = 0; i < texts.length; i += EMBEDDING_BATCH_SIZE) {
+        embeddings.push(...await embeddingService.generateEmbeddings(texts.slice(i, i + EMBEDDING_BATCH_SIZE)));
+      }
+      return embeddings;
+    } catch (error) {
+      logError(error, 'Could not embed unanswered questions, clustering by word overlap');
+      return texts.map(() => null);
+    }
+  }
+}
+
+export const knowledgeGapService = new KnowledgeGapService();
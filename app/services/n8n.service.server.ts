@@ -2,7 +2,15 @@ import axios from 'axios';
 import { getEmbeddingService, isEmbeddingServiceAvailable } from './embedding.service';
 import { personalizationService, type UserPreferences } from './personalization.service';
 import { logger, logError, createLogger } from '../lib/logger.server';
-import { TIMEOUTS } from '../config/limits';
+import { FAQ, TIMEOUTS } from '../config/limits';
+import type { ProductSearchFilters } from '../lib/product-search.server';
+import { readLines } from '../lib/stream-lines.server';
+import type { ChatToolCall } from '../lib/chat-tools.server';
+import type { LLMUsage } from '../lib/llm-provider.server';
+import type { LLMProviderName } from '../lib/llm-providers';
+import type { OrderCard } from '../lib/order-lookup.server';
+import type { FaqMatch } from './faq.service.server';
+import type { KnowledgeCitation, KnowledgePassage } from '../lib/knowledge';
 // import db from '../db.server';
 
 // Enhanced N8N Response with rich features
@@ -22,6 +30,16 @@ export interface N8NWebhookResponse {
     productsShown?: number;
   };
   success?: boolean;
+  // Tools called by the built-in chat engine (logged in ChatMessage.metadata)
+  toolCalls?: ChatToolCall[];
+  // Token usage of the built-in chat engine (recorded for BYOK shops)
+  usage?: LLMUsage & { model: string; provider: LLMProviderName };
+  // Order found for the shopper (TRACK_ORDER flow / lookup_order tool), shown as an order card
+  orderCard?: OrderCard;
+  // The TRACK_ORDER flow asked for the order number / email; the next message may answer it
+  awaitingOrderDetails?: boolean;
+  // FAQ entries and knowledge base documents the reply is based on, shown as sources
+  citations?: KnowledgeCitation[];
 }
 
 // Enhanced Product Recommendation with rich metadata
@@ -102,6 +120,19 @@ export interface N8NRequest {
     // ✅ NEW: Shop policies for dynamic merchant-specific responses
     shopPolicies?: ShopPolicies;
 
+    // Support intents: the policies to answer from and the support intent (SHIPPING_INFO, RETURNS, ...)
+    storePolicies?: ShopPolicies;
+    supportCategory?: string;
+
+    // Merchant FAQ entries close to the message, best first (see services/faq.service.server.ts)
+    customFaqs?: FaqMatch[];
+
+    // Knowledge base passages close to the message, best first (see services/knowledge-base.service.server.ts)
+    knowledge?: KnowledgePassage[];
+
+    // Structured filters extracted from the message (see lib/product-search.server.ts)
+    searchFilters?: ProductSearchFilters;
+
     // Legacy fields (for backward compatibility)
     timestamp?: string;
     userAgent?: string;
@@ -110,6 +141,22 @@ export interface N8NRequest {
   };
 }
 
+export interface ProcessMessageOptions {
+  // Called with each text chunk when the workflow streams its reply (SSE chat endpoint)
+  onToken?: (token: string) => void;
+}
+
+// Chunk types emitted by N8N webhooks in "Streaming" response mode (one JSON object per line)
+const N8N_STREAM_CHUNK_TYPES = ['begin', 'item', 'end', 'error'];
+
+function parseJSON(text: string): any {
+  try {
+    return JSON.parse(text);
+  } catch {
+    return null;
+  }
+}
+
 export class N8NService {
   private webhookUrl: string;
   private apiKey?: string;
@@ -165,7 +212,10 @@ export class N8NService {
     }
   }
 
-  async processUserMessage(request: N8NRequest): Promise<N8NWebhookResponse> {
+  async processUserMessage(
+    request: N8NRequest,
+    options: ProcessMessageOptions = {}
+  ): Promise<N8NWebhookResponse> {
     try {
       // Check if webhook URL is configured
       if (this.webhookUrl === 'MISSING_N8N_WEBHOOK_URL') {
@@ -184,6 +234,10 @@ export class N8NService {
         headers['Authorization'] = `Bearer ${this.apiKey}`;
       }
 
+      if (options.onToken) {
+        return await this.callWebhookStreaming(request, headers, options.onToken);
+      }
+
       const response = await axios.post(this.webhookUrl, request, {
         headers,
         timeout: TIMEOUTS.N8N_WEBHOOK_MS,
@@ -231,6 +285,97 @@ export class N8NService {
     }
   }
 
+  /**
+   * Call the webhook and forward streamed text chunks as they arrive.
+   * Works with both streaming workflows (NDJSON chunks) and regular JSON responses,
+   * so merchants don't need to change their workflow to use the streaming endpoint.
+   */
+  private async callWebhookStreaming(
+    request: N8NRequest,
+    headers: Record<string, string>,
+    onToken: (token: string) => void
+  ): Promise<N8NWebhookResponse> {
+    const controller = new AbortController();
+    // Idle timeout: reset whenever a chunk arrives, so long streamed replies aren't cut off
+    let timer = setTimeout(() => controller.abort(), TIMEOUTS.N8N_WEBHOOK_MS);
+    const resetTimer = () => {
+      clearTimeout(timer);
+      timer = setTimeout(() => controller.abort(), TIMEOUTS.N8N_WEBHOOK_MS);
+    };
+
+    try {
+      const response = await fetch(this.webhookUrl, {
+        method: 'POST',
+        headers: { ...headers, Accept: 'application/x-ndjson, application/json' },
+        body: JSON.stringify(request),
+        signal: controller.signal,
+      });
+
+      if (!response.ok || !response.body) {
+        throw Object.assign(new Error(`N8N webhook responded with ${response.status}`), {
+          response: { status: response.status },
+        });
+      }
+
+      let raw = '';
+      let streamed = '';
+      let isChunked: boolean | null = null;
+
+      for await (const line of readLines(response.body)) {
+        resetTimer();
+        raw += line + '\n';
+        if (isChunked === false) continue;
+
+        const trimmed = line.trim().replace(/^data:\s*/, '');
+        if (!trimmed) continue;
+
+        const chunk = parseJSON(trimmed);
+        if (chunk && N8N_STREAM_CHUNK_TYPES.includes(chunk.type)) {
+          isChunked = true;
+          if (chunk.type === 'error') {
+            throw new Error(`N8N stream error: ${chunk.content || 'unknown'}`);
+          }
+          if (chunk.type === 'item' && typeof chunk.content === 'string' && chunk.content) {
+            streamed += chunk.content;
+            onToken(chunk.content);
+          }
+        } else if (isChunked === null) {
+          // Regular (non-streaming) workflow response
+          isChunked = false;
+        }
+      }
+
+      if (isChunked) {
+        // A workflow may stream its structured JSON reply instead of plain text
+        const structured = parseJSON(streamed.trim());
+        if (structured?.message) {
+          return structured;
+        }
+        if (!streamed.trim()) {
+          throw new Error('N8N stream ended without content');
+        }
+
+        this.logger.debug({ length: streamed.length }, 'N8N streamed response received');
+        return { message: streamed.trim(), recommendations: [], messageType: 'general' };
+      }
+
+      const data = parseJSON(raw);
+      if (!data?.message) {
+        this.logger.warn({ responseKeys: Object.keys(data || {}) }, 'Unexpected response format - missing message field');
+        throw new Error('N8N response missing required message field');
+      }
+
+      return data;
+    } catch (error: any) {
+      if (error?.name === 'AbortError') {
+        throw Object.assign(new Error('N8N request timeout'), { code: 'ETIMEDOUT' });
+      }
+      throw error;
+    } finally {
+      clearTimeout(timer);
+    }
+  }
+
   /**
    * Enhanced fallback processing with semantic search and personalization
    * ✅ Now uses dynamic shop policies for merchant-specific responses
@@ -246,7 +391,7 @@ export class N8NService {
       const msgs = this.getFallbackMessages(lang, shopPolicies);
 
       // Classify intent and sentiment
-      const intent = await personalizationService.classifyIntent(userMessage);
+      const intent = await personalizationService.classifyIntent(userMessage, shop || undefined);
       const sentiment = await personalizationService.analyzeSentiment(userMessage);
 
       this.logger.debug({ intent, sentiment, language: lang }, 'Analyzed message');
@@ -261,7 +406,7 @@ export class N8NService {
       // Use semantic search if available and it's a product search
       if (
         isEmbeddingServiceAvailable() &&
-        ['PRODUCT_SEARCH', 'COMPARISON', 'OTHER'].includes(intent)
+        ['PRODUCT_SEARCH', 'COMPARISON', 'GENERAL_CHAT'].includes(intent)
       ) {
         try {
           this.logger.debug('Using semantic search with embeddings');
@@ -591,10 +736,10 @@ export class N8NService {
 
     const responses: Record<string, string> = {
       PRICE_INQUIRY: "I can help you find products within your budget. What price range are you looking for?",
-      SHIPPING: getShippingResponse(),
+      SHIPPING_INFO: getShippingResponse(),
       RETURNS: getReturnResponse(),
       SIZE_FIT: "I can help you find the right size. What type of product are you looking for, and what are your measurements?",
-      SUPPORT: "I'm here to help with any issues you're experiencing. Can you tell me more about what you need assistance with?",
+      HELP_FAQ: "I'm here to help with any issues you're experiencing. Can you tell me more about what you need assistance with?",
       GREETING: "Hello! I'm your AI shopping assistant. I can help you find products, answer questions about pricing and shipping, and provide personalized recommendations. What are you looking for today?",
       THANKS: "You're welcome! Is there anything else I can help you with?",
       COMPARISON: "I'd be happy to help you compare products. Which products would you like to compare?",
@@ -605,6 +750,19 @@ export class N8NService {
   }
 
   private fallbackProcessing(request: N8NRequest): Promise<N8NWebhookResponse> {
+    // The merchant already answered this question
+    const faq = request.context?.customFaqs?.[0];
+    if (faq && faq.similarity >= FAQ.ANSWER_SIMILARITY) {
+      this.logger.debug({ faqId: faq.id, similarity: faq.similarity }, 'Answering from custom FAQ');
+      return Promise.resolve({
+        message: faq.answer,
+        recommendations: [],
+        confidence: faq.similarity,
+        messageType: 'faq_answer',
+        citations: [{ type: 'faq', title: faq.question }],
+      });
+    }
+
     // Use enhanced fallback with AI features if available
     return this.enhancedFallbackProcessing(request);
   }
@@ -0,0 +1,201 @@
+/**
+ * Order Tracking Service
+ *
+ * Answers TRACK_ORDER messages with the shopper's real order: the order number and
+ * email are read from the conversation, the order is looked up in the Admin API
+ * (lib/order-lookup.server.ts) and returned as an order card for the widget.
+ *
+ * ✅ Features:
+ * - Asks for the order number / email when they are missing
+ * - Fulfillment status, tracking numbers and carrier links
+ * - Localized replies
+ */
+
+import type { AdminApiContext } from '@shopify/shopify-app-remix/server';
+import { prisma as db } from '../db.server';
+import { createLogger } from '../lib/logger.server';
+import { extractOrderReference, lookupOrder, type OrderCard } from '../lib/order-lookup.server';
+import type { N8NWebhookResponse } from './n8n.service.server';
+
+export interface OrderTrackingContext {
+  shop: string;
+  admin: AdminApiContext;
+  lang: string;
+  // Rate limit key of the shopper (chat session or IP)
+  visitorId: string;
+  // Earlier user messages, oldest first (the order number and email may be spread over several)
+  history?: string[];
+  // Verified storefront customer id only, never one sent by the widget
+  customerId?: string | null;
+}
+
+// Order details sent later than this start a new conversation
+const AWAITING_DETAILS_WINDOW_MS = 30 * 60 * 1000;
+
+type ReplyKey = 'askDetails' | 'askEmail' | 'found' | 'shipped' | 'cancelled' | 'notFound' | 'rateLimited';
+
+const REPLIES: Record<ReplyKey, Record<string, string>> = {
+  askDetails: {
+    en: "I can check your order! Please send me your order number (e.g. #1001) and the email address used for the order.",
+    fr: "Je peux vérifier votre commande ! Envoyez-moi votre numéro de commande (ex. #1001) et l'adresse e-mail utilisée pour la commande.",
+    es: "¡Puedo revisar su pedido! Envíeme su número de pedido (p. ej. #1001) y el correo electrónico usado para el pedido.",
+    de: "Ich kann Ihre Bestellung prüfen! Senden Sie mir Ihre Bestellnummer (z. B. #1001) und die bei der Bestellung verwendete E-Mail-Adresse.",
+    pt: "Posso verificar seu pedido! Envie o número do pedido (ex. #1001) e o e-mail usado no pedido.",
+    it: "Posso controllare il tuo ordine! Inviami il numero d'ordine (es. #1001) e l'indirizzo email usato per l'ordine.",
+    zh: "我可以帮您查询订单！请发送您的订单号（例如 #1001）以及下单时使用的电子邮件地址。",
+    ja: "ご注文をお調べします！注文番号（例：#1001）とご注文時のメールアドレスをお送りください。",
+  },
+  askEmail: {
+    en: "Thanks! To protect your privacy, please also send the email address used for order {order}.",
+    fr: "Merci ! Pour protéger vos données, envoyez-moi aussi l'adresse e-mail utilisée pour la commande {order}.",
+    es: "¡Gracias! Para proteger su privacidad, envíe también el correo electrónico usado para el pedido {order}.",
+    de: "Danke! Zum Schutz Ihrer Daten senden Sie bitte auch die E-Mail-Adresse der Bestellung {order}.",
+    pt: "Obrigado! Para proteger sua privacidade, envie também o e-mail usado no pedido {order}.",
+    it: "Grazie! Per proteggere la tua privacy, inviami anche l'email usata per l'ordine {order}.",
+    zh: "谢谢！为保护您的隐私，请同时发送订单 {order} 使用的电子邮件地址。",
+    ja: "ありがとうございます！プライバシー保護のため、注文 {order} のメールアドレスもお送りください。",
+  },
+  found: {
+    en: "Here is the status of your order {order}: {status}.",
+    fr: "Voici le statut de votre commande {order} : {status}.",
+    es: "Este es el estado de su pedido {order}: {status}.",
+    de: "Hier ist der Status Ihrer Bestellung {order}: {status}.",
+    pt: "Este é o status do seu pedido {order}: {status}.",
+    it: "Ecco lo stato del tuo ordine {order}: {status}.",
+    zh: "这是您的订单 {order} 的状态：{status}。",
+    ja: "ご注文 {order} の状況：{status}",
+  },
+  shipped: {
+    en: "Good news, your order {order} has shipped! You can follow the delivery with the tracking link below.",
+    fr: "Bonne nouvelle, votre commande {order} a été expédiée ! Suivez la livraison avec le lien de suivi ci-dessous.",
+    es: "¡Buenas noticias, su pedido {order} ha sido enviado! Puede seguir la entrega con el enlace de seguimiento.",
+    de: "Gute Nachrichten, Ihre Bestellung {order} wurde versendet! Verfolgen Sie die Lieferung über den Link unten.",
+    pt: "Boa notícia, seu pedido {order} foi enviado! Acompanhe a entrega pelo link de rastreio abaixo.",
+    it: "Buone notizie, il tuo ordine {order} è stato spedito! Segui la consegna con il link di tracciamento qui sotto.",
+    zh: "好消息，您的订单 {order} 已发货！您可以通过下方的追踪链接查看物流。",
+    ja: "ご注文 {order} は発送済みです！下の追跡リンクから配送状況をご確認いただけます。",
+  },
+  cancelled: {
+    en: "Your order {order} was cancelled. Contact us if you have any questions about it.",
+    fr: "Votre commande {order} a été annulée. Contactez-nous si vous avez des questions.",
+    es: "Su pedido {order} fue cancelado. Contáctenos si tiene alguna pregunta.",
+    de: "Ihre Bestellung {order} wurde storniert. Kontaktieren Sie uns bei Fragen.",
+    pt: "Seu pedido {order} foi cancelado. Entre em contato se tiver dúvidas.",
+    it: "Il tuo ordine {order} è stato annullato. Contattaci per qualsiasi domanda.",
+    zh: "您的订单 {order} 已取消。如有疑问请联系我们。",
+    ja: "ご注文 {order} はキャンセルされました。ご不明な点はお問い合わせください。",
+  },
+  notFound: {
+    en: "I couldn't find an order matching this order number and email. Please check both and try again.",
+    fr: "Je n'ai trouvé aucune commande correspondant à ce numéro et à cet e-mail. Vérifiez-les et réessayez.",
+    es: "No encontré ningún pedido con ese número y correo electrónico. Verifique ambos e inténtelo de nuevo.",
+    de: "Ich habe keine Bestellung mit dieser Nummer und E-Mail-Adresse gefunden. Bitte prüfen Sie beide Angaben.",
+    pt: "Não encontrei nenhum pedido com esse número e e-mail. Verifique os dois e tente novamente.",
+    it: "Non ho trovato alcun ordine con questo numero ed email. Controllali e riprova.",
+    zh: "未找到与此订单号和电子邮件匹配的订单。请检查后重试。",
+    ja: "この注文番号とメールアドレスに一致する注文が見つかりませんでした。ご確認のうえ再度お試しください。",
+  },
+  rateLimited: {
+    en: "Too many order lookups. Please try again in a few minutes.",
+    fr: "Trop de recherches de commande. Veuillez réessayer dans quelques minutes.",
+    es: "Demasiadas consultas de pedidos. Inténtelo de nuevo en unos minutos.",
+    de: "Zu viele Bestellabfragen. Bitte versuchen Sie es in einigen Minuten erneut.",
+    pt: "Muitas consultas de pedidos. Tente novamente em alguns minutos.",
+    it: "Troppe ricerche di ordini. Riprova tra qualche minuto.",
+    zh: "订单查询次数过多，请几分钟后再试。",
+    ja: "注文の照会が多すぎます。数分後にもう一度お試しください。",
+  },
+};
+
+const QUICK_REPLIES: Record<string, string[]> = {
+  en: ["Shipping info", "Return policy", "Browse products"],
+  fr: ["Infos livraison", "Politique de retour", "Voir les produits"],
+  es: ["Información de envío", "Política de devoluciones", "Ver productos"],
+  de: ["Versandinfos", "Rückgaberichtlinie", "Produkte ansehen"],
+  pt: ["Informações de envio", "Política de devolução", "Ver produtos"],
+  it: ["Info spedizione", "Politica di reso", "Vedi prodotti"],
+  zh: ["配送信息", "退货政策", "浏览商品"],
+  ja: ["配送について", "返品ポリシー", "商品を見る"],
+};
+
+function reply(key: ReplyKey, lang: string, values: Record<string, string> = {}): string {
+  const template = REPLIES[key][lang] || REPLIES[key].en!;
+  return template.replace(/\{(\w+)\}/g, (_, name: string) => values[name] ?? '');
+}
+
+function hasTracking(order: OrderCard): boolean {
+  return order.shipments.some(shipment => shipment.tracking.some(info => !!info.url || !!info.number));
+}
+
+class OrderTrackingService {
+  private logger = createLogger({ service: 'OrderTrackingService' });
+
+  /**
+   * Reply to a TRACK_ORDER message. Admin API errors are thrown so the caller can fall back.
+   */
+  async handle(message: string, context: OrderTrackingContext): Promise<N8NWebhookResponse> {
+    const { lang } = context;
+    const quickReplies = QUICK_REPLIES[lang] || QUICK_REPLIES.en;
+    const { orderNumber, email } = extractOrderReference([...(context.history || []), message]);
+
+    if (!orderNumber) {
+      return { message: reply('askDetails', lang), messageType: 'order_tracking', quickReplies: [], confidence: 0.9, awaitingOrderDetails: true };
+    }
+
+    const result = await lookupOrder(context.admin, context.shop, {
+      orderNumber,
+      email,
+      customerId: context.customerId,
+      visitorId: context.visitorId,
+    });
+
+    this.logger.info({ shop: context.shop, status: result.status }, 'Order lookup');
+
+    switch (result.status) {
+      case 'needs_verification':
+        return { message: reply('askEmail', lang, { order: `#${orderNumber}` }), messageType: 'order_tracking', quickReplies: [], confidence: 0.9, awaitingOrderDetails: true };
+      case 'rate_limited':
+        return { message: reply('rateLimited', lang), messageType: 'order_tracking', quickReplies, confidence: 0.9 };
+      case 'not_found':
+        return { message: reply('notFound', lang), messageType: 'order_tracking', quickReplies, confidence: 0.8, awaitingOrderDetails: true };
+      case 'found': {
+        const { order } = result;
+        const key: ReplyKey = order.cancelled ? 'cancelled' : hasTracking(order) ? 'shipped' : 'found';
+        const status = order.fulfillmentStatus || order.financialStatus || '';
+
+        return {
+          message: reply(key, lang, { order: order.name, status: status.toLowerCase().replace(/_/g, ' ') }),
+          messageType: 'order_tracking',
+          orderCard: order,
+          quickReplies,
+          confidence: 0.95,
+        };
+      }
+    }
+  }
+
+  /**
+   * Whether the last reply in the visitor's chat asked for the order number / email, so the
+   * next message is classified as its answer (ChatMessage.metadata.awaitingOrderDetails)
+   */
+  async isAwaitingOrderDetails(shop: string, visitorSessionId: string): Promise<boolean> {
+    const lastReply = await db.chatMessage.findFirst({
+      where: {
+        role: 'assistant',
+        timestamp: { gte: new Date(Date.now() - AWAITING_DETAILS_WINDOW_MS) },
+        session: { shop, userProfile: { shop, sessionId: visitorSessionId } },
+      },
+      orderBy: { timestamp: 'desc' },
+      select: { metadata: true },
+    });
+    if (!lastReply) return false;
+
+    try {
+      return JSON.parse(lastReply.metadata).awaitingOrderDetails === true;
+    } catch {
+      return false;
+    }
+  }
+}
+
+export const orderTrackingService = new OrderTrackingService();
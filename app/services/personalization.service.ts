@@ -1,6 +1,10 @@
-import { OpenAI } from 'openai';
 import { prisma as db } from "../db.server";
 import { logError, createLogger } from '../lib/logger.server';
+import { normalizeIntent, type IntentType } from '../lib/intents';
+import { recordAnalyticsEvent } from '../lib/analytics-events.server';
+import type { WidgetEntryPoint } from '../lib/widget-events';
+import { intentClassifier } from './intent-classifier.service';
+import { getDefaultLLMProvider, type LLMProvider } from '../lib/llm-provider.server';
 
 export interface UserPreferences {
   favoriteColors?: string[];
@@ -25,18 +29,32 @@ export interface PersonalizationContext {
   intent?: string;
 }
 
+export interface AnalyticsUpdate {
+  intent?: string;
+  sentiment?: string;
+  productClicked?: string;
+  productTitle?: string; // ✅ FIX: Add product title for analytics display
+  responseTime?: number;
+  confidence?: number;
+  workflowType?: 'default' | 'custom' | 'builtin';
+  isNewSession?: boolean; // Track if this is a new session
+  chatSessionId?: string;
+  visitorId?: string; // Widget session id (UserProfile.sessionId)
+  entryPoint?: WidgetEntryPoint;
+  productsShown?: number;
+}
+
 export class PersonalizationService {
-  private openai: OpenAI | null = null;
+  private llm: LLMProvider | null;
   private logger = createLogger({ service: 'PersonalizationService' });
 
   constructor() {
-    const apiKey = process.env.OPENAI_API_KEY;
+    this.llm = getDefaultLLMProvider();
 
-    if (apiKey) {
-      this.openai = new OpenAI({ apiKey });
-      this.logger.info('Initialized with OpenAI');
+    if (this.llm) {
+      this.logger.info({ provider: this.llm.name }, 'Initialized with LLM provider');
     } else {
-      this.logger.warn('OPENAI_API_KEY not set - advanced features disabled');
+      this.logger.warn('LLM provider not configured - advanced features disabled');
     }
   }
 
@@ -221,8 +239,8 @@ export class PersonalizationService {
     _productsShown: string[] // Reserved for future use - will help correlate preferences with shown products
   ): Promise<void> {
     try {
-      if (!this.openai) {
-        this.logger.debug('Skipping preference learning - no OpenAI key');
+      if (!this.llm) {
+        this.logger.debug('Skipping preference learning - no LLM provider');
         return;
       }
 
@@ -234,7 +252,7 @@ export class PersonalizationService {
 
       const currentPrefs = JSON.parse(profile.preferences) as UserPreferences;
 
-      // Use OpenAI to extract preferences from message
+      // Use the LLM to extract preferences from message
       const extractionPrompt = `
 Analyze this customer message and extract shopping preferences:
 
@@ -259,14 +277,13 @@ Return as JSON with these optional fields:
 If no preferences are mentioned, return empty object {}.
 `;
 
-      const response = await this.openai.chat.completions.create({
-        model: 'gpt-4o-mini', // Fast and cheap for extraction
+      const response = await this.llm.chat({
         messages: [{ role: 'user', content: extractionPrompt }],
         temperature: 0.3,
-        response_format: { type: 'json_object' },
+        json: true,
       });
 
-      const messageContent = response.choices[0]?.message?.content || '{}';
+      const messageContent = response.content || '{}';
       const extracted = JSON.parse(messageContent);
 
       // Merge with existing preferences
@@ -308,70 +325,15 @@ If no preferences are mentioned, return empty object {}.
   }
 
   /**
-   * Classify user intent from message
+   * Classify user intent from message using the shared intent classifier
    */
-  async classifyIntent(message: string): Promise<string> {
+  async classifyIntent(message: string, shop?: string): Promise<IntentType> {
     try {
-      // Simple regex-based classification (fast fallback)
-      const patterns = {
-        PRODUCT_SEARCH: /(?:looking for|need|want|show me|find|search|recommend)/i,
-        PRICE_INQUIRY: /(?:how much|cost|price|expensive|cheap|budget|afford)/i,
-        COMPARISON: /(?:compare|difference|better|vs|versus|which one)/i,
-        AVAILABILITY: /(?:in stock|available|when|sold out|inventory)/i,
-        SHIPPING: /(?:shipping|delivery|ship|arrive|tracking|when will)/i,
-        RETURNS: /(?:return|refund|exchange|money back|warranty)/i,
-        SIZE_FIT: /(?:size|fit|measurements|dimensions|how big|how small)/i,
-        SUPPORT: /(?:help|problem|issue|broken|not working|support)/i,
-        GREETING: /^(?:hi|hello|hey|good morning|good afternoon|good evening)/i,
-        THANKS: /(?:thank|thanks|appreciate|grateful)/i,
-      };
-
-      for (const [intent, pattern] of Object.entries(patterns)) {
-        if (pattern.test(message)) {
-          this.logger.debug({ intent }, 'Intent classified');
-          return intent;
-        }
-      }
-
-      // If OpenAI available, use advanced classification
-      if (this.openai) {
-        const response = await this.openai.chat.completions.create({
-          model: 'gpt-4o-mini',
-          messages: [
-            {
-              role: 'system',
-              content: `Classify the customer's intent into one of these categories:
-- PRODUCT_SEARCH: Looking for products
-- PRICE_INQUIRY: Asking about pricing
-- COMPARISON: Comparing products
-- AVAILABILITY: Checking stock/availability
-- SHIPPING: Asking about delivery
-- RETURNS: Return/refund questions
-- SIZE_FIT: Size or fit questions
-- SUPPORT: Technical support
-- GREETING: Greeting/starting conversation
-- THANKS: Expressing gratitude
-- OTHER: None of the above
-
-Respond with just the category name.`,
-            },
-            {
-              role: 'user',
-              content: message,
-            },
-          ],
-          temperature: 0,
-        });
-
-        const intent = response.choices[0]?.message?.content?.trim() || 'OTHER';
-        this.logger.debug({ intent }, 'Intent classified by AI');
-        return intent;
-      }
-
-      return 'OTHER';
+      const intent = await intentClassifier.classify(message, { shop, useLLM: !!this.llm });
+      return intent.type;
     } catch (error) {
       logError(error, 'Error classifying intent');
-      return 'OTHER';
+      return 'GENERAL_CHAT';
     }
   }
 
@@ -387,10 +349,9 @@ Respond with just the category name.`,
       if (positiveWords.test(message)) return 'positive';
       if (negativeWords.test(message)) return 'negative';
 
-      // Use OpenAI for better accuracy
-      if (this.openai) {
-        const response = await this.openai.chat.completions.create({
-          model: 'gpt-4o-mini',
+      // Use the LLM for better accuracy
+      if (this.llm) {
+        const response = await this.llm.chat({
           messages: [
             {
               role: 'system',
@@ -404,7 +365,7 @@ Respond with just the category name.`,
           temperature: 0,
         });
 
-        const sentiment = (response.choices[0]?.message?.content?.trim()?.toLowerCase() || 'neutral') as
+        const sentiment = (response.content.trim().toLowerCase() || 'neutral') as
           | 'positive'
           | 'neutral'
           | 'negative';
@@ -510,6 +471,10 @@ Respond with just the category name.`,
         },
       });
 
+      await recordAnalyticsEvent(shop, { type: 'rating', chatSessionId: chatSession.id, rating }).catch(error =>
+        logError(error, 'Failed to record rating event', { shop })
+      );
+
       this.logger.info({
         shop,
         chatSessionId: chatSession.id.substring(0, 10) + '...',
@@ -522,6 +487,29 @@ Respond with just the category name.`,
     }
   }
 
+  /**
+   * Mark a recommended product as clicked on the latest assistant message of the visitor that showed it
+   * (`ChatMessage.productClicked`, shown in the transcript browser)
+   */
+  async recordProductClick(shop: string, visitorSessionId: string, productId: string): Promise<boolean> {
+    const message = await db.chatMessage.findFirst({
+      where: {
+        role: 'assistant',
+        productsShown: { contains: JSON.stringify(productId) },
+        session: { shop, userProfile: { shop, sessionId: visitorSessionId } },
+      },
+      orderBy: { timestamp: 'desc' },
+      select: { id: true },
+    });
+    if (!message) return false;
+
+    await db.chatMessage.update({
+      where: { id: message.id },
+      data: { productClicked: productId },
+    });
+    return true;
+  }
+
   /**
    * Get personalization context for a user
    */
@@ -555,150 +543,38 @@ Respond with just the category name.`,
   }
 
   /**
-   * Update analytics
+   * Record a chat message or product click in the analytics event log.
+   * The day's ChatAnalytics row is rebuilt from the events by the analytics.rollup job.
+   * occurredAt defaults to now; pass the original time when recording from a queued job.
    */
-  async updateAnalytics(
-    shop: string,
-    data: {
-      intent?: string;
-      sentiment?: string;
-      productClicked?: string;
-      productTitle?: string; // ✅ FIX: Add product title for analytics display
-      responseTime?: number;
-      confidence?: number;
-      workflowType?: 'default' | 'custom';
-      isNewSession?: boolean; // Track if this is a new session
-    }
-  ): Promise<void> {
+  async updateAnalytics(shop: string, data: AnalyticsUpdate, occurredAt?: Date): Promise<void> {
     try {
-      const today = new Date();
-      today.setHours(0, 0, 0, 0);
-
-      // Enhanced logging for debugging
-      this.logger.debug({
-        shop,
-        date: today.toISOString().split('T')[0],
-        isNewSession: data.isNewSession,
-        intent: data.intent,
-        sentiment: data.sentiment,
-        workflowType: data.workflowType,
-      }, 'Updating analytics');
-
-      // Get or create analytics entry for today
-      // FIX: Build update object conditionally to avoid undefined fields
-      const updateData: any = {
-        totalMessages: { increment: 1 },
-      };
-
-      // Only increment sessions if this is a new session
-      if (data.isNewSession) {
-        updateData.totalSessions = { increment: 1 };
-      }
-
-      const analytics = await db.chatAnalytics.upsert({
-        where: {
-          shop_date: { shop, date: today },
-        },
-        update: updateData,
-        create: {
-          shop,
-          date: today,
-          totalSessions: data.isNewSession ? 1 : 0, // Start with 1 if new session
-          totalMessages: 1,
-          avgResponseTime: 0,
-          avgConfidence: 0,
-          topIntents: '{}',
-          topProducts: '{}',
-          sentimentBreakdown: '{}',
-          workflowUsage: '{}',
-        } as any,
-      });
-
-      // FIX: Calculate proper averages instead of summing
-      if (data.responseTime !== undefined) {
-        const currentTotal = analytics.avgResponseTime * (analytics.totalMessages - 1);
-        const newAvg = (currentTotal + data.responseTime) / analytics.totalMessages;
-
-        await db.chatAnalytics.update({
-          where: { id: analytics.id },
-          data: { avgResponseTime: newAvg },
-        });
-      }
-
-      if (data.confidence !== undefined) {
-        const currentTotal = analytics.avgConfidence * (analytics.totalMessages - 1);
-        const newAvg = (currentTotal + data.confidence) / analytics.totalMessages;
-
-        await db.chatAnalytics.update({
-          where: { id: analytics.id },
-          data: { avgConfidence: newAvg },
-        });
-      }
-
-      // Update top intents
-      if (data.intent) {
-        const intents = JSON.parse(analytics.topIntents);
-        intents[data.intent] = (intents[data.intent] || 0) + 1;
-
-        await db.chatAnalytics.update({
-          where: { id: analytics.id },
-          data: { topIntents: JSON.stringify(intents) },
-        });
-      }
-
-      // Update sentiment breakdown
-      if (data.sentiment) {
-        const sentiments = JSON.parse(analytics.sentimentBreakdown);
-        sentiments[data.sentiment] = (sentiments[data.sentiment] || 0) + 1;
-
-        await db.chatAnalytics.update({
-          where: { id: analytics.id },
-          data: { sentimentBreakdown: JSON.stringify(sentiments) },
-        });
-      }
-
-      // Update top products
-      // ✅ FIX: Store product title along with ID for better analytics display
       if (data.productClicked) {
-        const products = JSON.parse(analytics.topProducts);
-
-        // Use format: "productId|||productTitle" to store both ID and title
-        // This allows displaying product names in analytics dashboard
-        const productKey = data.productTitle
-          ? `${data.productClicked}|||${data.productTitle}`
-          : data.productClicked; // Fallback for backward compatibility
-
-        products[productKey] = (products[productKey] || 0) + 1;
-
-        await db.chatAnalytics.update({
-          where: { id: analytics.id },
-          data: { topProducts: JSON.stringify(products) },
+        await recordAnalyticsEvent(shop, {
+          type: 'click',
+          chatSessionId: data.chatSessionId,
+          visitorId: data.visitorId,
+          productId: data.productClicked,
+          productTitle: data.productTitle,
+          occurredAt,
         });
+        return;
       }
 
-      // Update workflow usage tracking (safe mode: handle missing field)
-      if (data.workflowType) {
-        try {
-          const workflowUsage = JSON.parse((analytics as any).workflowUsage || '{}');
-          workflowUsage[data.workflowType] = (workflowUsage[data.workflowType] || 0) + 1;
-
-          await db.chatAnalytics.update({
-            where: { id: analytics.id },
-            data: { workflowUsage: JSON.stringify(workflowUsage) } as any,
-          });
-        } catch (error) {
-          // Ignore if workflowUsage field doesn't exist (migration not run yet)
-          this.logger.debug('Workflow tracking skipped (database migration pending)');
-        }
-      }
-
-      this.logger.debug({
-        shop,
+      await recordAnalyticsEvent(shop, {
+        type: 'message',
+        chatSessionId: data.chatSessionId,
+        visitorId: data.visitorId,
+        isNewSession: !!data.isNewSession,
+        entryPoint: data.entryPoint,
+        productsShown: data.productsShown,
+        intent: data.intent ? normalizeIntent(data.intent) : undefined,
+        sentiment: data.sentiment,
+        confidence: data.confidence,
+        responseTimeMs: data.responseTime,
         workflowType: data.workflowType,
-        isNewSession: data.isNewSession,
-        totalMessages: analytics.totalMessages,
-        totalSessions: analytics.totalSessions,
-      }, 'Analytics updated successfully');
+        occurredAt,
+      });
     } catch (error) {
       logError(error, 'Error updating analytics', {
         shop,
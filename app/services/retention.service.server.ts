@@ -0,0 +1,380 @@
+/**
+ * Data Retention Service
+ *
+ * Enforces how long each class of chat data is kept (RETENTION in config/limits.ts, overridable
+ * per shop on the Data retention page). Once a day a `retention.schedule` job queues one
+ * `retention.purge` job per shop, which deletes expired rows in batches of RETENTION.BATCH_SIZE:
+ *
+ * - chats: sessions whose last message is older than the window, with their messages. Sessions
+ *   an order was attributed to are kept for the revenue figures, without messages or comments.
+ * - conversations: the Conversation log
+ * - profileActivity: the browsing history and interactions of profiles not updated since
+ * - analytics: daily ChatAnalytics rows and the AnalyticsEvent log
+ *
+ * Every run is recorded as a RetentionRun with a report of what it removed; a dry run only
+ * counts what would be removed.
+ */
+
+import { prisma as db } from "../db.server";
+import { createLogger } from '../lib/logger.server';
+import { enqueueJob } from '../lib/job-queue.server';
+import { recordAuditEvent } from '../lib/audit.server';
+import { RETENTION } from '../config/limits';
+import {
+  RETENTION_DATA_CLASSES,
+  parseRetentionPolicy,
+  type RetentionDataClass,
+  type RetentionPolicy,
+  type RetentionReport,
+  type RetentionRunStatus,
+  type RetentionRunTrigger,
+} from '../lib/retention';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export const RETENTION_DEFAULTS: Record<RetentionDataClass, number> = {
+  chats: RETENTION.CHATS_DAYS,
+  conversations: RETENTION.CONVERSATIONS_DAYS,
+  profileActivity: RETENTION.PROFILE_ACTIVITY_DAYS,
+  analytics: RETENTION.ANALYTICS_DAYS,
+};
+
+export interface ShopRetention {
+  // The shop's overrides
+  policy: RetentionPolicy;
+  // Window applied to each data class
+  days: Record<RetentionDataClass, number>;
+}
+
+export interface RetentionRunRecord {
+  id: string;
+  trigger: RetentionRunTrigger;
+  dryRun: boolean;
+  status: RetentionRunStatus;
+  report: RetentionReport | null;
+  error: string | null;
+  startedAt: Date;
+  finishedAt: Date | null;
+}
+
+function clampDays(days: number): number {
+  return Math.min(RETENTION.MAX_DAYS, Math.max(RETENTION.MIN_DAYS, days));
+}
+
+function formatDay(date: Date): string {
+  return date.toISOString().slice(0, 10);
+}
+
+/**
+ * When the next daily purge is due: today at RETENTION.PURGE_HOUR_UTC, or tomorrow once it has passed
+ */
+export function nextPurgeAt(now: Date = new Date()): Date {
+  const next = new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate(), RETENTION.PURGE_HOUR_UTC));
+  if (next <= now) next.setUTCDate(next.getUTCDate() + 1);
+  return next;
+}
+
+/**
+ * Cutoff per data class: rows older than this are expired
+ */
+export function getRetentionCutoffs(
+  days: Record<RetentionDataClass, number>,
+  now: Date = new Date()
+): Record<RetentionDataClass, Date> {
+  const cutoffs = {} as Record<RetentionDataClass, Date>;
+  for (const dataClass of RETENTION_DATA_CLASSES) {
+    cutoffs[dataClass] = new Date(now.getTime() - days[dataClass] * DAY_MS);
+  }
+  return cutoffs;
+}
+
+function emptyReport(dryRun: boolean, days: Record<RetentionDataClass, number>, cutoffs: Record<RetentionDataClass, Date>): RetentionReport {
+  return {
+    dryRun,
+    days,
+    cutoffs: Object.fromEntries(
+      RETENTION_DATA_CLASSES.map(dataClass => [dataClass, cutoffs[dataClass].toISOString()])
+    ) as Record<RetentionDataClass, string>,
+    deleted: { chatSessions: 0, chatMessages: 0, conversations: 0, chatAnalytics: 0, analyticsEvents: 0 },
+    anonymized: { chatSessions: 0, userProfiles: 0 },
+  };
+}
+
+class RetentionService {
+  private logger = createLogger({ service: 'RetentionService' });
+
+  // Day whose fan-out job this process already queued (saves an insert per maintenance tick)
+  private scheduledDay: string | null = null;
+
+  async getRetention(shop: string): Promise<ShopRetention> {
+    const settings = await db.widgetSettings.findUnique({
+      where: { shop },
+      select: { retentionPolicy: true },
+    });
+    const policy = parseRetentionPolicy(settings?.retentionPolicy);
+
+    const days = {} as Record<RetentionDataClass, number>;
+    for (const dataClass of RETENTION_DATA_CLASSES) {
+      days[dataClass] = clampDays(policy[dataClass] ?? RETENTION_DEFAULTS[dataClass]);
+    }
+    return { policy, days };
+  }
+
+  /**
+   * Replace the shop's overrides; classes left out go back to the default
+   */
+  async savePolicy(shop: string, policy: RetentionPolicy): Promise<void> {
+    for (const days of Object.values(policy)) {
+      if (!Number.isInteger(days) || days! < RETENTION.MIN_DAYS || days! > RETENTION.MAX_DAYS) {
+        throw new Error(`Retention periods must be between ${RETENTION.MIN_DAYS} and ${RETENTION.MAX_DAYS} days`);
+      }
+    }
+
+    const retentionPolicy = JSON.stringify(policy);
+    await db.widgetSettings.upsert({
+      where: { shop },
+      create: { shop, retentionPolicy },
+      update: { retentionPolicy },
+    });
+  }
+
+  async listRuns(shop: string): Promise<RetentionRunRecord[]> {
+    const rows = await db.retentionRun.findMany({
+      where: { shop },
+      orderBy: { startedAt: 'desc' },
+      take: RETENTION.REPORTS_SHOWN,
+    });
+
+    return rows.map((row): RetentionRunRecord => ({
+      id: row.id,
+      trigger: row.trigger as RetentionRunTrigger,
+      dryRun: row.dryRun,
+      status: row.status as RetentionRunStatus,
+      report: row.report ? JSON.parse(row.report) : null,
+      error: row.error,
+      startedAt: row.startedAt,
+      finishedAt: row.finishedAt,
+    }));
+  }
+
+  /**
+   * Queue today's (or tomorrow's) fan-out job. Called on every worker maintenance tick and job
+   * runner call; one job per day.
+   */
+  async schedulePurges(now: Date = new Date()): Promise<void> {
+    const runAt = nextPurgeAt(now);
+    const day = formatDay(runAt);
+    if (this.scheduledDay === day) return;
+
+    await enqueueJob('retention.schedule', { day }, {
+      idempotencyKey: `retention.schedule:${day}`,
+      runAt,
+    });
+    this.scheduledDay = day;
+  }
+
+  /**
+   * Job handler: queue a purge for every installed shop
+   */
+  async enqueueShopPurges(day: string): Promise<number> {
+    const shops: Array<{ shop: string }> = await db.widgetSettings.findMany({ select: { shop: true } });
+
+    for (const { shop } of shops) {
+      await enqueueJob('retention.purge', { trigger: 'scheduled' }, {
+        shop,
+        idempotencyKey: `retention.purge:${shop}:${day}`,
+      });
+    }
+
+    this.logger.info({ day, shops: shops.length }, 'Retention purges queued');
+    return shops.length;
+  }
+
+  async enqueuePurge(shop: string): Promise<void> {
+    await enqueueJob('retention.purge', { trigger: 'manual' }, { shop });
+  }
+
+  /**
+   * Delete (or, with dryRun, count) the shop's expired data and record the run
+   */
+  async purgeShop(
+    shop: string,
+    options: { dryRun?: boolean; trigger?: RetentionRunTrigger; now?: Date } = {}
+  ): Promise<{ runId: string; report: RetentionReport }> {
+    const dryRun = options.dryRun ?? false;
+    const trigger = options.trigger ?? 'manual';
+    const { days } = await this.getRetention(shop);
+    const cutoffs = getRetentionCutoffs(days, options.now);
+
+    const run = await db.retentionRun.create({
+      data: { shop, trigger, dryRun },
+      select: { id: true },
+    });
+
+    try {
+      const report = emptyReport(dryRun, days, cutoffs);
+      if (dryRun) {
+        await this.countExpired(shop, cutoffs, report);
+      } else {
+        await this.purgeExpired(shop, cutoffs, report);
+      }
+
+      await db.retentionRun.update({
+        where: { id: run.id },
+        data: { status: 'completed', report: JSON.stringify(report), finishedAt: new Date() },
+      });
+
+      const rowsDeleted = Object.values(report.deleted).reduce((sum, count) => sum + count, 0);
+      const rowsAnonymized = Object.values(report.anonymized).reduce((sum, count) => sum + count, 0);
+      this.logger.info({ shop, runId: run.id, dryRun, trigger, rowsDeleted, rowsAnonymized }, 'Retention purge finished');
+
+      if (!dryRun && rowsDeleted + rowsAnonymized > 0) {
+        await recordAuditEvent({
+          shop,
+          actor: { type: 'system', id: 'retention.purge' },
+          action: 'retention.purged',
+          targetType: 'RetentionRun',
+          targetId: run.id,
+          metadata: { trigger, rowsDeleted, rowsAnonymized },
+        });
+      }
+
+      return { runId: run.id, report };
+    } catch (error) {
+      await db.retentionRun.update({
+        where: { id: run.id },
+        data: {
+          status: 'failed',
+          error: error instanceof Error ? error.message : String(error),
+          finishedAt: new Date(),
+        },
+      });
+      throw error;
+    }
+  }
+
+  private async countExpired(
+    shop: string,
+    cutoffs: Record<RetentionDataClass, Date>,
+    report: RetentionReport
+  ): Promise<void> {
+    const expiredSessions = { shop, lastMessageAt: { lt: cutoffs.chats } };
+
+    const [chatSessions, attributedSessions, chatMessages, conversations, userProfiles, chatAnalytics, analyticsEvents] =
+      await Promise.all([
+        db.chatSession.count({ where: { ...expiredSessions, conversions: { none: {} } } }),
+        db.chatSession.count({ where: this.attributedSessionsWhere(expiredSessions) }),
+        db.chatMessage.count({ where: { session: expiredSessions } }),
+        db.conversation.count({ where: { shop, timestamp: { lt: cutoffs.conversations } } }),
+        db.userProfile.count({ where: this.staleProfilesWhere(shop, cutoffs.profileActivity) }),
+        db.chatAnalytics.count({ where: { shop, date: { lt: cutoffs.analytics } } }),
+        db.analyticsEvent.count({ where: { shop, occurredAt: { lt: cutoffs.analytics } } }),
+      ]);
+
+    report.deleted = { chatSessions, chatMessages, conversations, chatAnalytics, analyticsEvents };
+    report.anonymized = { chatSessions: attributedSessions, userProfiles };
+  }
+
+  private async purgeExpired(
+    shop: string,
+    cutoffs: Record<RetentionDataClass, Date>,
+    report: RetentionReport
+  ): Promise<void> {
+    const expiredSessions = { shop, lastMessageAt: { lt: cutoffs.chats } };
+
+    await this.inBatches(
+      take => db.chatSession.findMany({ where: { ...expiredSessions, conversions: { none: {} } }, select: { id: true }, take }),
+      async ids => {
+        const [messages, sessions] = await db.$transaction([
+          db.chatMessage.deleteMany({ where: { sessionId: { in: ids } } }),
+          db.chatSession.deleteMany({ where: { id: { in: ids } } }),
+        ]);
+        report.deleted.chatMessages += messages.count;
+        report.deleted.chatSessions += sessions.count;
+      }
+    );
+
+    await this.inBatches(
+      take => db.chatSession.findMany({ where: this.attributedSessionsWhere(expiredSessions), select: { id: true }, take }),
+      async ids => {
+        const [messages, sessions] = await db.$transaction([
+          db.chatMessage.deleteMany({ where: { sessionId: { in: ids } } }),
+          db.chatSession.updateMany({ where: { id: { in: ids } }, data: { context: '{}', ratingComment: null } }),
+        ]);
+        report.deleted.chatMessages += messages.count;
+        report.anonymized.chatSessions += sessions.count;
+      }
+    );
+
+    await this.inBatches(
+      take => db.conversation.findMany({ where: { shop, timestamp: { lt: cutoffs.conversations } }, select: { id: true }, take }),
+      async ids => {
+        const { count } = await db.conversation.deleteMany({ where: { id: { in: ids } } });
+        report.deleted.conversations += count;
+      }
+    );
+
+    await this.inBatches(
+      take => db.userProfile.findMany({ where: this.staleProfilesWhere(shop, cutoffs.profileActivity), select: { id: true }, take }),
+      async ids => {
+        const { count } = await db.userProfile.updateMany({
+          where: { id: { in: ids } },
+          data: { browsingHistory: '[]', interactions: '[]' },
+        });
+        report.anonymized.userProfiles += count;
+      }
+    );
+
+    await this.inBatches(
+      take => db.chatAnalytics.findMany({ where: { shop, date: { lt: cutoffs.analytics } }, select: { id: true }, take }),
+      async ids => {
+        const { count } = await db.chatAnalytics.deleteMany({ where: { id: { in: ids } } });
+        report.deleted.chatAnalytics += count;
+      }
+    );
+
+    await this.inBatches(
+      take => db.analyticsEvent.findMany({ where: { shop, occurredAt: { lt: cutoffs.analytics } }, select: { id: true }, take }),
+      async ids => {
+        const { count } = await db.analyticsEvent.deleteMany({ where: { id: { in: ids } } });
+        report.deleted.analyticsEvents += count;
+      }
+    );
+  }
+
+  // Expired sessions kept for attribution that still hold messages, a comment or context
+  private attributedSessionsWhere(expiredSessions: { shop: string; lastMessageAt: { lt: Date } }) {
+    return {
+      ...expiredSessions,
+      conversions: { some: {} },
+      OR: [{ messages: { some: {} } }, { ratingComment: { not: null } }, { context: { not: '{}' } }],
+    };
+  }
+
+  private staleProfilesWhere(shop: string, cutoff: Date) {
+    return {
+      shop,
+      updatedAt: { lt: cutoff },
+      OR: [{ browsingHistory: { not: '[]' } }, { interactions: { not: '[]' } }],
+    };
+  }
+
+  /**
+   * Process matching rows a batch at a time until none are left. Each batch must remove its
+   * rows from the match (delete or anonymize them).
+   */
+  private async inBatches(
+    findBatch: (take: number) => Promise<Array<{ id: string }>>,
+    processBatch: (ids: string[]) => Promise<void>
+  ): Promise<void> {
+    for (;;) {
+      const rows = await findBatch(RETENTION.BATCH_SIZE);
+      if (rows.length === 0) return;
+
+      await processBatch(rows.map(row => row.id));
+      if (rows.length < RETENTION.BATCH_SIZE) return;
+    }
+  }
+}
+
+export const retentionService = new RetentionService();
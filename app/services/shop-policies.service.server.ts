@@ -0,0 +1,178 @@
+/**
+ * Shop Policies Service
+ *
+ * The store's policies (refund, shipping, privacy, terms of service) and contact details,
+ * read from the Admin API (`shop.shopPolicies`, `shop.contactEmail`, the billing address
+ * phone) and stored per shop in Postgres, so every instance and cold start shares them.
+ *
+ * Policies older than POLICIES.REFRESH_HOURS are served as stored while the "policies.refresh"
+ * job fetches them again; the shop/update webhook triggers a refresh too. A refresh only
+ * rewrites the row when the content hash changed, and then re-indexes the changed policies
+ * in the knowledge base (type "policy").
+ */
+
+import { createHash } from 'crypto';
+import type { AdminApiContext } from '@shopify/shopify-app-remix/server';
+import { prisma as db } from "../db.server";
+import { createLogger, logError } from '../lib/logger.server';
+import { enqueueJob } from '../lib/job-queue.server';
+import { KNOWLEDGE, POLICIES } from '../config/limits';
+import type { ShopPolicies } from './n8n.service.server';
+import { htmlToText } from './catalog-sync.service.server';
+import { knowledgeBaseService } from './knowledge-base.service.server';
+
+const REFRESH_INTERVAL_MS = POLICIES.REFRESH_HOURS * 60 * 60 * 1000;
+
+const SHOP_POLICIES_QUERY = `#graphql
+  query shopPolicies {
+    shop {
+      name
+      contactEmail
+      billingAddress { phone }
+      shopPolicies { id type title body url updatedAt }
+    }
+  }`;
+
+export interface StorePolicy {
+  id: string;
+  type: string;
+  title: string;
+  body: string;
+  url: string;
+  updatedAt: string;
+}
+
+interface ShopPoliciesQuery {
+  data?: {
+    shop?: {
+      name: string;
+      contactEmail: string | null;
+      billingAddress: { phone: string | null } | null;
+      shopPolicies: StorePolicy[];
+    };
+  };
+  errors?: unknown;
+}
+
+type StoredPolicies = Required<Omit<ShopPolicies, 'shopName'>> & { shopName: string | null };
+
+function toShopPolicies(stored: StoredPolicies): ShopPolicies {
+  return {
+    shopName: stored.shopName || undefined,
+    returns: stored.returns,
+    shipping: stored.shipping,
+    privacy: stored.privacy,
+    termsOfService: stored.termsOfService,
+    contactEmail: stored.contactEmail,
+    contactPhone: stored.contactPhone,
+  };
+}
+
+export class ShopPoliciesService {
+  private logger = createLogger({ service: 'ShopPoliciesService' });
+
+  /**
+   * A shop's policies: the stored ones (refreshed in the background once stale), or fetched
+   * right away the first time. Null when they can't be fetched.
+   */
+  async getPolicies(shop: string, admin: AdminApiContext): Promise<ShopPolicies | null> {
+    const stored = await db.shopPolicies.findUnique({ where: { shop } });
+
+    if (stored) {
+      if (Date.now() - stored.fetchedAt.getTime() > REFRESH_INTERVAL_MS) {
+        // Stored policies keep being served if the refresh can't be scheduled
+        await this.scheduleRefresh(shop).catch((error: unknown) => {
+          logError(error, 'Failed to schedule shop policies refresh', { shop });
+        });
+      }
+      return toShopPolicies(stored);
+    }
+
+    try {
+      return await this.refresh(shop, admin);
+    } catch (error) {
+      logError(error, 'Failed to fetch shop policies', { shop });
+      return null;
+    }
+  }
+
+  /**
+   * Fetch the policies again in the background (deduplicated per refresh interval)
+   */
+  async scheduleRefresh(shop: string, idempotencyKey?: string) {
+    return enqueueJob('policies.refresh', {}, {
+      shop,
+      idempotencyKey: idempotencyKey ?? `policies:${shop}:${Math.floor(Date.now() / REFRESH_INTERVAL_MS)}`,
+    });
+  }
+
+  /**
+   * Fetch policies and contact details from the Admin API and store them. Changed policies
+   * are re-indexed in the knowledge base; unchanged ones only bump fetchedAt.
+   */
+  async refresh(shop: string, admin: AdminApiContext): Promise<ShopPolicies> {
+    const response: Response = await admin.graphql(SHOP_POLICIES_QUERY);
+    const data: ShopPoliciesQuery = await response.json();
+    const shopData = data.data?.shop;
+    if (!shopData) {
+      throw new Error(`Could not load shop policies${data.errors ? `: ${JSON.stringify(data.errors)}` : ''}`);
+    }
+
+    const policies = (shopData.shopPolicies || []).filter(policy => policy.body?.trim());
+    const bodies = new Map(policies.map(policy => [policy.type, policy.body]));
+
+    // Policy types the prompt and the get_policy tool use get their own column
+    const fields: StoredPolicies = {
+      shopName: shopData.name || null,
+      returns: bodies.get('REFUND_POLICY') || null,
+      shipping: bodies.get('SHIPPING_POLICY') || null,
+      privacy: bodies.get('PRIVACY_POLICY') || null,
+      termsOfService: bodies.get('TERMS_OF_SERVICE') || null,
+      contactEmail: shopData.contactEmail || null,
+      contactPhone: shopData.billingAddress?.phone || null,
+    };
+
+    const contentHash = createHash('sha256')
+      .update(JSON.stringify({ fields, policies: policies.map(({ id, title, body, url }) => ({ id, title, body, url })) }))
+      .digest('hex');
+    const policiesUpdatedAt = policies.reduce<Date | null>((latest, policy) => {
+      const updatedAt = new Date(policy.updatedAt);
+      return !latest || updatedAt > latest ? updatedAt : latest;
+    }, null);
+    const fetchedAt = new Date();
+
+    const stored = await db.shopPolicies.findUnique({ where: { shop }, select: { contentHash: true } });
+    if (stored?.contentHash === contentHash) {
+      await db.shopPolicies.update({ where: { shop }, data: { fetchedAt } });
+      this.logger.debug({ shop }, 'Shop policies unchanged');
+      return toShopPolicies(fields);
+    }
+
+    await db.shopPolicies.upsert({
+      where: { shop },
+      update: { ...fields, contentHash, policiesUpdatedAt, fetchedAt },
+      create: { shop, ...fields, contentHash, policiesUpdatedAt, fetchedAt },
+    });
+
+    const indexed = await knowledgeBaseService.syncStoreDocuments(shop, 'policy', policies.map(policy => ({
+      externalId: policy.id,
+      title: policy.title,
+      url: policy.url,
+      content: htmlToText(policy.body).slice(0, KNOWLEDGE.MAX_DOCUMENT_LENGTH),
+    })));
+
+    this.logger.info({
+      shop,
+      policies: policies.length,
+      hasReturns: !!fields.returns,
+      hasShipping: !!fields.shipping,
+      hasContactEmail: !!fields.contactEmail,
+      hasContactPhone: !!fields.contactPhone,
+      indexed,
+    }, 'Shop policies updated');
+
+    return toShopPolicies(fields);
+  }
+}
+
+export const shopPoliciesService = new ShopPoliciesService();
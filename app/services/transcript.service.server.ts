@@ -0,0 +1,332 @@
+/**
+ * Transcript Service
+ *
+ * Lets merchants browse stored conversations (`ChatSession` / `ChatMessage`): a filtered,
+ * searchable session list and the full transcript of one session, with the product cards
+ * and metadata each assistant turn returned.
+ */
+
+import type { AdminApiContext } from '@shopify/shopify-app-remix/server';
+import { prisma as db } from "../db.server";
+import { createLogger } from '../lib/logger.server';
+import { isIntentType, type IntentType } from '../lib/intents';
+
+export const TRANSCRIPTS_PAGE_SIZE = 25;
+// Longest transcript shown at once
+const TRANSCRIPT_MESSAGE_LIMIT = 500;
+const MAX_QUERY_LENGTH = 200;
+
+const SENTIMENTS = ['positive', 'neutral', 'negative'] as const;
+const RATING_FILTERS = ['rated', 'unrated', 'low', 'high', '1', '2', '3', '4', '5'] as const;
+
+export type RatingFilter = (typeof RATING_FILTERS)[number];
+
+export interface TranscriptFilters {
+  from?: Date;
+  to?: Date;
+  // rated / unrated, low (1-2), high (4-5) or an exact number of stars
+  rating?: RatingFilter;
+  // Sentiment of at least one customer message
+  sentiment?: (typeof SENTIMENTS)[number];
+  // Intent of at least one message
+  intent?: IntentType;
+  // The customer asked for a person (human handoff)
+  escalated?: boolean;
+  // An order was attributed to the conversation (see AttributionService)
+  converted?: boolean;
+  // Two-letter language code of the conversation
+  language?: string;
+  // Case-insensitive search over message content
+  query?: string;
+}
+
+export interface TranscriptSessionRow {
+  id: string;
+  createdAt: Date;
+  lastMessageAt: Date;
+  messageCount: number;
+  preview: string;
+  language: string | null;
+  rating: number | null;
+  status: string;
+  escalated: boolean;
+  converted: boolean;
+}
+
+export interface TranscriptMessage {
+  id: string;
+  role: string;
+  content: string;
+  timestamp: Date;
+  intent: string | null;
+  sentiment: string | null;
+  confidence: number | null;
+  productsShown: string[];
+  productClicked: string | null;
+  metadata: Record<string, unknown>;
+}
+
+export interface TranscriptDetail {
+  id: string;
+  createdAt: Date;
+  lastMessageAt: Date;
+  status: string;
+  escalatedAt: Date | null;
+  rating: number | null;
+  ratingComment: string | null;
+  language: string | null;
+  messages: TranscriptMessage[];
+  // Orders attributed to the conversation
+  orders: Array<{ orderName: string | null; totalPrice: number; currency: string; orderCreatedAt: Date }>;
+}
+
+export interface TranscriptProduct {
+  id: string;
+  title: string;
+  handle: string;
+  image: string | null;
+  price: string | null;
+}
+
+const PRODUCT_CARDS_QUERY = `#graphql
+  query transcriptProducts($ids: [ID!]!) {
+    nodes(ids: $ids) {
+      ... on Product {
+        id
+        title
+        handle
+        featuredImage { url }
+        priceRangeV2 { minVariantPrice { amount currencyCode } }
+      }
+    }
+  }`;
+
+function parseDate(value: string | null, endOfDay = false): Date | undefined {
+  if (!value || !/^\d{4}-\d{2}-\d{2}$/.test(value)) return undefined;
+  const date = new Date(`${value}T${endOfDay ? '23:59:59.999' : '00:00:00.000'}Z`);
+  return isNaN(date.getTime()) ? undefined : date;
+}
+
+function parseBoolean(value: string | null): boolean | undefined {
+  if (value === 'yes') return true;
+  if (value === 'no') return false;
+  return undefined;
+}
+
+function parseJSON<T>(value: string | null | undefined, fallback: T): T {
+  try {
+    return value ? JSON.parse(value) : fallback;
+  } catch {
+    return fallback;
+  }
+}
+
+/**
+ * Filters from the transcript browser's query string; unknown values are ignored
+ */
+export function parseTranscriptFilters(params: URLSearchParams): TranscriptFilters {
+  const rating = params.get('rating');
+  const sentiment = params.get('sentiment');
+  const intent = params.get('intent');
+  const language = params.get('language')?.toLowerCase();
+  const query = params.get('q')?.trim().slice(0, MAX_QUERY_LENGTH);
+
+  return {
+    from: parseDate(params.get('from')),
+    to: parseDate(params.get('to'), true),
+    rating: (RATING_FILTERS as readonly string[]).includes(rating || '') ? rating as RatingFilter : undefined,
+    sentiment: (SENTIMENTS as readonly string[]).includes(sentiment || '') ? sentiment as TranscriptFilters['sentiment'] : undefined,
+    intent: isIntentType(intent) ? intent : undefined,
+    escalated: parseBoolean(params.get('escalated')),
+    converted: parseBoolean(params.get('converted')),
+    language: language && /^[a-z]{2}$/.test(language) ? language : undefined,
+    query: query || undefined,
+  };
+}
+
+/**
+ * Prisma `where` for a shop's sessions matching the filters
+ */
+export function buildTranscriptWhere(shop: string, filters: TranscriptFilters) {
+  const where: Record<string, unknown> = { shop };
+  const and: Record<string, unknown>[] = [];
+
+  if (filters.from || filters.to) {
+    where.createdAt = {
+      ...(filters.from ? { gte: filters.from } : {}),
+      ...(filters.to ? { lte: filters.to } : {}),
+    };
+  }
+
+  switch (filters.rating) {
+    case undefined:
+      break;
+    case 'rated':
+      where.rating = { not: null };
+      break;
+    case 'unrated':
+      where.rating = null;
+      break;
+    case 'low':
+      where.rating = { lte: 2 };
+      break;
+    case 'high':
+      where.rating = { gte: 4 };
+      break;
+    default:
+      where.rating = parseInt(filters.rating, 10);
+  }
+
+  if (filters.escalated !== undefined) {
+    where.escalatedAt = filters.escalated ? { not: null } : null;
+  }
+
+  if (filters.converted !== undefined) {
+    where.conversions = filters.converted ? { some: {} } : { none: {} };
+  }
+
+  // The chat route stores the latest language in the session context
+  if (filters.language) {
+    where.context = { contains: `"language":"${filters.language}"` };
+  }
+
+  if (filters.sentiment) {
+    and.push({ messages: { some: { role: 'user', sentiment: filters.sentiment } } });
+  }
+
+  if (filters.intent) {
+    and.push({ messages: { some: { intent: filters.intent } } });
+  }
+
+  if (filters.query) {
+    and.push({ messages: { some: { content: { contains: filters.query, mode: 'insensitive' } } } });
+  }
+
+  if (and.length > 0) {
+    where.AND = and;
+  }
+
+  return where;
+}
+
+class TranscriptService {
+  private logger = createLogger({ service: 'TranscriptService' });
+
+  /**
+   * One page of sessions matching the filters, most recent first
+   */
+  async listSessions(
+    shop: string,
+    filters: TranscriptFilters,
+    page = 1
+  ): Promise<{ sessions: TranscriptSessionRow[]; total: number }> {
+    const where = buildTranscriptWhere(shop, filters);
+
+    const [total, sessions] = await Promise.all([
+      db.chatSession.count({ where }),
+      db.chatSession.findMany({
+        where,
+        orderBy: { lastMessageAt: 'desc' },
+        skip: (Math.max(1, page) - 1) * TRANSCRIPTS_PAGE_SIZE,
+        take: TRANSCRIPTS_PAGE_SIZE,
+        include: {
+          _count: { select: { messages: true, conversions: true } },
+          messages: {
+            where: { role: 'user' },
+            orderBy: { timestamp: 'asc' },
+            take: 1,
+            select: { content: true },
+          },
+        },
+      }),
+    ]);
+
+    return {
+      total,
+      sessions: sessions.map((session: any): TranscriptSessionRow => ({
+        id: session.id,
+        createdAt: session.createdAt,
+        lastMessageAt: session.lastMessageAt,
+        messageCount: session._count?.messages || 0,
+        preview: session.messages[0]?.content?.slice(0, 140) || '',
+        language: parseJSON<{ language?: string }>(session.context, {}).language || null,
+        rating: session.rating,
+        status: session.status,
+        escalated: !!session.escalatedAt,
+        converted: (session._count?.conversions || 0) > 0,
+      })),
+    };
+  }
+
+  /**
+   * Full transcript of a session, or null if it doesn't belong to the shop
+   */
+  async getTranscript(shop: string, chatSessionId: string): Promise<TranscriptDetail | null> {
+    const session = await db.chatSession.findFirst({
+      where: { id: chatSessionId, shop },
+      include: {
+        messages: { orderBy: { timestamp: 'asc' }, take: TRANSCRIPT_MESSAGE_LIMIT },
+        conversions: {
+          orderBy: { orderCreatedAt: 'asc' },
+          select: { orderName: true, totalPrice: true, currency: true, orderCreatedAt: true },
+        },
+      },
+    });
+    if (!session) return null;
+
+    return {
+      id: session.id,
+      createdAt: session.createdAt,
+      lastMessageAt: session.lastMessageAt,
+      status: session.status,
+      escalatedAt: session.escalatedAt,
+      rating: session.rating,
+      ratingComment: session.ratingComment,
+      language: parseJSON<{ language?: string }>(session.context, {}).language || null,
+      messages: session.messages.map((message: any): TranscriptMessage => ({
+        id: message.id,
+        role: message.role,
+        content: message.content,
+        timestamp: message.timestamp,
+        intent: message.intent,
+        sentiment: message.sentiment,
+        confidence: message.confidence,
+        productsShown: parseJSON<unknown[]>(message.productsShown, []).map(String),
+        productClicked: message.productClicked,
+        metadata: parseJSON<Record<string, unknown>>(message.metadata, {}),
+      })),
+      orders: session.conversions,
+    };
+  }
+
+  /**
+   * Current title, image and price of the products shown in a transcript.
+   * Deleted products are left out; Admin API errors return what could be loaded (nothing).
+   */
+  async getProductCards(admin: AdminApiContext, productIds: string[]): Promise<TranscriptProduct[]> {
+    const ids = [...new Set(productIds.filter(id => id.startsWith('gid://shopify/Product/')))].slice(0, 250);
+    if (ids.length === 0) return [];
+
+    try {
+      const response = await admin.graphql(PRODUCT_CARDS_QUERY, { variables: { ids } });
+      const body = await response.json();
+
+      return (body.data?.nodes || [])
+        .filter((node: any) => node?.id)
+        .map((node: any): TranscriptProduct => ({
+          id: node.id,
+          title: node.title,
+          handle: node.handle,
+          image: node.featuredImage?.url || null,
+          price: node.priceRangeV2?.minVariantPrice
+            ? `${node.priceRangeV2.minVariantPrice.amount} ${node.priceRangeV2.minVariantPrice.currencyCode}`
+            : null,
+        }));
+    } catch (error) {
+      this.logger.warn({ error: (error as Error).message, count: ids.length }, 'Failed to load transcript products');
+      return [];
+    }
+  }
+}
+
+export const transcriptService = new TranscriptService();
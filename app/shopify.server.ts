@@ -10,6 +10,9 @@ import {
 import { PrismaSessionStorage } from "@shopify/shopify-app-session-storage-prisma";
 import { prisma } from "./db.server";
 import { BILLING_PLANS } from "./config/billing";
+import { catalogSync } from "./services/catalog-sync.service.server";
+import { customerIdentityService } from "./services/customer-identity.service.server";
+import { logError } from "./lib/logger.server";
 
 const shopify = shopifyApp({
   apiKey: process.env.SHOPIFY_API_KEY,
@@ -47,6 +50,49 @@ const shopify = shopifyApp({
       deliveryMethod: DeliveryMethod.Http,
       callbackUrl: "/webhooks/app/scopes_update",
     },
+    // Catalog sync: keep product embeddings up to date
+    PRODUCTS_CREATE: {
+      deliveryMethod: DeliveryMethod.Http,
+      callbackUrl: "/webhooks/products/create",
+    },
+    PRODUCTS_UPDATE: {
+      deliveryMethod: DeliveryMethod.Http,
+      callbackUrl: "/webhooks/products/update",
+    },
+    PRODUCTS_DELETE: {
+      deliveryMethod: DeliveryMethod.Http,
+      callbackUrl: "/webhooks/products/delete",
+    },
+    // Conversion attribution: orders placed after a chat
+    ORDERS_CREATE: {
+      deliveryMethod: DeliveryMethod.Http,
+      callbackUrl: "/webhooks/orders/create",
+    },
+    BULK_OPERATIONS_FINISH: {
+      deliveryMethod: DeliveryMethod.Http,
+      callbackUrl: "/webhooks/bulk_operations/finish",
+    },
+    // Stored shop policies and contact details
+    SHOP_UPDATE: {
+      deliveryMethod: DeliveryMethod.Http,
+      callbackUrl: "/webhooks/shop/update",
+    },
+  },
+  hooks: {
+    afterAuth: async ({ session, admin }) => {
+      await shopify.registerWebhooks({ session });
+
+      // Initial catalog backfill (no-op once it has run for this shop).
+      // Not awaited: the bulk operation result arrives via webhook.
+      catalogSync.startBulkBackfill(session.shop, admin).catch((error) => {
+        logError(error, "Failed to start catalog backfill", { shop: session.shop });
+      });
+
+      // Lets the theme block sign the logged-in customer's id
+      customerIdentityService.provisionSecret(session.shop, admin).catch((error) => {
+        logError(error, "Failed to provision customer token secret", { shop: session.shop });
+      });
+    },
   },
   future: {
     unstable_newEmbeddedAuthStrategy: true, // ✅ enables token-based auth
@@ -11,6 +11,9 @@ let messageQueue = [];
 let isOnline = navigator.onLine;
 let translations = null; // Store loaded translations
 let currentChatSessionId = null; // Track current chat session for rating
+let handoffPollTimer = null; // Polls for store team replies during a human handoff
+let handoffSince = null; // Timestamp of the last store team reply shown
+let cartAttributedSessionId = null; // Chat session last written to the cart attributes
 let conversationId = null; // Unique ID per conversation for rating tracking (resets on chat open)
 
 // Track page load time for welcome popup timing
@@ -79,7 +82,15 @@ async function loadTranslations(lang) {
       newArrivalsPrompt: 'Show me new arrivals',
       onSalePrompt: 'What products are on sale?',
       recommendedPrompt: 'Show me recommendations for me',
-      typeYourQuestion: 'Type your question below to get started'
+      typeYourQuestion: 'Type your question below to get started',
+      handoffWaiting: 'A member of our team will join this chat shortly. You can keep writing here.',
+      handoffEnded: 'Our team has left the chat. The assistant is back to help you.',
+      storeTeam: 'Store team',
+      trackPackage: 'Track package',
+      orderStatusPage: 'Order status',
+      estimatedDelivery: 'Estimated delivery',
+      orderCancelled: 'Cancelled',
+      sources: 'Sources'
     };
     return translations;
   }
@@ -271,16 +282,45 @@ async function fetchWithRetry(url, options = {}, maxRetries = 3) {
   throw lastError;
 }
 
+// Parse a text/event-stream response, calling onEvent(event, data) for each frame
+async function readEventStream(response, onEvent) {
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+
+  const dispatch = (frame) => {
+    let event = 'message';
+    const dataLines = [];
+    frame.split('\n').forEach(line => {
+      if (line.startsWith('event:')) event = line.slice(6).trim();
+      else if (line.startsWith('data:')) dataLines.push(line.slice(5).trim());
+    });
+    if (!dataLines.length) return; // comment / heartbeat
+    try {
+      onEvent(event, JSON.parse(dataLines.join('\n')));
+    } catch (e) {}
+  };
+
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    buffer += decoder.decode(value, { stream: true });
+    let boundary = buffer.indexOf('\n\n');
+    while (boundary !== -1) {
+      dispatch(buffer.slice(0, boundary));
+      buffer = buffer.slice(boundary + 2);
+      boundary = buffer.indexOf('\n\n');
+    }
+  }
+  if (buffer.trim()) dispatch(buffer);
+}
+
 // ======================
 // UI Helpers
 // ======================
 
-function addMessageToChat(sender, message) {
-  if (!elements.messagesContainer) return;
-  const messageDiv = document.createElement('div');
-  messageDiv.className = `ai-message ${sender}-message`;
-  const messageContent = document.createElement('div');
-  messageContent.className = 'message-content';
+function setMessageText(messageContent, message) {
+  messageContent.textContent = '';
   const cleanMessage = message.trim();
   const lines = cleanMessage.split('\n');
   lines.forEach((line, index) => {
@@ -288,9 +328,19 @@ function addMessageToChat(sender, message) {
     messageContent.appendChild(textNode);
     if (index < lines.length - 1) messageContent.appendChild(document.createElement('br'));
   });
+}
+
+function addMessageToChat(sender, message) {
+  if (!elements.messagesContainer) return null;
+  const messageDiv = document.createElement('div');
+  messageDiv.className = `ai-message ${sender}-message`;
+  const messageContent = document.createElement('div');
+  messageContent.className = 'message-content';
+  setMessageText(messageContent, message);
   messageDiv.appendChild(messageContent);
   elements.messagesContainer.appendChild(messageDiv);
   scrollToBottom();
+  return messageContent;
 }
 
 function scrollToBottom() {
@@ -990,17 +1040,19 @@ function getProductIdFromPage() {
   return match ? match[1] : null;
 }
 
-async function sendMessageToServer(message) {
+async function sendMessageToServer(message, entryPoint = 'typed') {
   showLoading(true);
   try {
     const contextData = {
       sessionId: sessionId, // ✅ FIX: Include sessionId to maintain conversation
+      entryPoint,
       page: window.location.pathname,
       productId: getProductIdFromPage(),
       conversationHistory,
       shopDomain: widgetSettings.shopDomain,
       locale: navigator.language || 'en',
-      currency: widgetSettings.currency
+      currency: widgetSettings.currency,
+      customerToken: widgetSettings.customerToken || null
     };
 
     // ✅ CORRECT - Public API endpoint
@@ -1008,22 +1060,53 @@ async function sendMessageToServer(message) {
     const response = await fetchWithRetry(url, {
       method: 'POST',
       headers: {
-        'Content-Type': 'application/json'
+        'Content-Type': 'application/json',
+        'Accept': 'text/event-stream, application/json' // Stream the reply as it is generated
       },
       body: JSON.stringify({ userMessage: message, products: [], context: contextData })
     });
 
-    const data = await response.json();
+    let data = null;
+    let streamingMessage = null;
+
+    if (response.body && (response.headers.get('Content-Type') || '').includes('text/event-stream')) {
+      let streamedText = '';
+      await readEventStream(response, (event, payload) => {
+        if (event === 'token' && payload.text) {
+          if (!streamingMessage) {
+            showLoading(false);
+            streamingMessage = addMessageToChat('assistant', '');
+          }
+          streamedText += payload.text;
+          setMessageText(streamingMessage, streamedText);
+          scrollToBottom();
+        } else if (event === 'final' || event === 'error') {
+          data = payload;
+        }
+      });
+    } else {
+      data = await response.json();
+    }
     showLoading(false);
+    data = data || {};
+
+    // ✅ FIX: Capture chatSessionId for rating tracking (and handoff polling)
+    if (data.chatSessionId) currentChatSessionId = data.chatSessionId;
+    if (data.handoff) startHandoffPolling();
+    attributeCartToChat();
+
+    // A store team member owns the conversation: the assistant stays quiet
+    if (data.handoff?.status === 'agent' && !data.message) {
+      conversationHistory.push({ role: 'user', content: message });
+      saveConversationHistory();
+      return;
+    }
 
     if (data.response || data.message) {
       const responseMessage = data.response || data.message;
-      addMessageToChat('assistant', responseMessage);
-
-      // ✅ FIX: Capture chatSessionId for rating tracking
-      if (data.chatSessionId) {
-        currentChatSessionId = data.chatSessionId;
-      }
+      // The final frame is authoritative (e.g. the server fell back after a failed stream)
+      if (streamingMessage) setMessageText(streamingMessage, responseMessage);
+      else addMessageToChat('assistant', responseMessage);
 
       // Show product recommendations when backend sends them
       // Backend already filters when to send recommendations
@@ -1031,6 +1114,10 @@ async function sendMessageToServer(message) {
         displayProductRecommendations(data.recommendations);
       }
 
+      if (data.orderCard) displayOrderCard(data.orderCard);
+
+      if (data.citations?.length) displayCitations(data.citations);
+
       // Quick replies removed - no longer displaying quick action buttons
 
       if (data.suggestedActions?.length) displaySuggestedActions(data.suggestedActions);
@@ -1154,7 +1241,7 @@ function displayQuickReplies(quickReplies) {
       const inputField = document.getElementById('ai-chat-input-field');
       if (inputField) {
         inputField.value = reply;
-        sendAIMessage();
+        sendAIMessage('quick_reply');
       }
     };
     container.appendChild(button);
@@ -1296,7 +1383,12 @@ function displayHumanEscalationPrompt() {
     connectBtn.style.transform = 'translateY(0)';
     connectBtn.style.boxShadow = 'none';
   };
-  connectBtn.onclick = () => {
+  connectBtn.onclick = async () => {
+    if (await requestHumanHandoff()) {
+      escalationPrompt.remove();
+      return;
+    }
+    // No live handoff available: fall back to the contact page
     const safeUrl = sanitizeUrl('/pages/contact');
     if (safeUrl) window.open(safeUrl, '_blank', 'noopener,noreferrer');
   };
@@ -1335,6 +1427,76 @@ function displayHumanEscalationPrompt() {
   messagesContainer.scrollTop = messagesContainer.scrollHeight;
 }
 
+// ======================
+// Human Handoff
+// ======================
+
+const HANDOFF_POLL_INTERVAL_MS = 5000;
+
+// Ask for a person: the conversation shows up in the merchant's inbox
+async function requestHumanHandoff() {
+  if (!currentChatSessionId) return false;
+  try {
+    const response = await fetch('https://shopibot.vercel.app/api/chat-handoff', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ shop: widgetSettings.shopDomain, chatSessionId: currentChatSessionId })
+    });
+    if (!response.ok) return false;
+    addMessageToChat('assistant', t('handoffWaiting'));
+    startHandoffPolling();
+    return true;
+  } catch (error) {
+    console.debug('Handoff request failed:', error);
+    return false;
+  }
+}
+
+function startHandoffPolling() {
+  if (handoffPollTimer || !currentChatSessionId) return;
+  handoffPollTimer = setInterval(pollHandoffUpdates, HANDOFF_POLL_INTERVAL_MS);
+}
+
+function stopHandoffPolling() {
+  if (handoffPollTimer) clearInterval(handoffPollTimer);
+  handoffPollTimer = null;
+}
+
+async function pollHandoffUpdates() {
+  if (!currentChatSessionId) return stopHandoffPolling();
+  try {
+    const params = new URLSearchParams({ shop: widgetSettings.shopDomain, chatSessionId: currentChatSessionId });
+    if (handoffSince) params.set('since', handoffSince);
+    const response = await fetch(`https://shopibot.vercel.app/api/chat-handoff?${params.toString()}`);
+    if (!response.ok) {
+      if (response.status === 404) stopHandoffPolling();
+      return;
+    }
+    const data = await response.json();
+
+    (data.messages || []).forEach(agentMessage => {
+      const content = addMessageToChat('assistant', agentMessage.content);
+      if (content && content.parentElement) {
+        content.parentElement.classList.add('agent-message');
+        const label = document.createElement('div');
+        label.className = 'agent-message-label';
+        label.textContent = t('storeTeam');
+        content.parentElement.insertBefore(label, content);
+      }
+      conversationHistory.push({ role: 'assistant', content: agentMessage.content });
+      handoffSince = agentMessage.timestamp;
+    });
+    if (data.messages?.length) saveConversationHistory();
+
+    if (data.status === 'bot' || data.status === 'closed') {
+      stopHandoffPolling();
+      addMessageToChat('assistant', t('handoffEnded'));
+    }
+  } catch (error) {
+    console.debug('Handoff poll failed:', error);
+  }
+}
+
 function applySentimentStyling(sentiment) {
   const chatHeader = document.querySelector('.ai-chat-header');
   const messagesContainer = document.getElementById('ai-chat-messages');
@@ -1663,6 +1825,137 @@ function displayProductRecommendations(recommendations) {
   scrollToBottom();
 }
 
+function formatOrderStatus(status) {
+  if (!status) return '';
+  const text = String(status).toLowerCase().replace(/_/g, ' ');
+  return text.charAt(0).toUpperCase() + text.slice(1);
+}
+
+// FAQ entries and store pages the answer is based on
+function displayCitations(citations) {
+  const messagesContainer = document.getElementById('ai-chat-messages');
+  if (!messagesContainer) return;
+
+  const sources = document.createElement('div');
+  sources.className = 'ai-message-sources';
+  sources.appendChild(document.createTextNode(`${t('sources')}: `));
+
+  citations.forEach((citation, index) => {
+    if (index > 0) sources.appendChild(document.createTextNode(' · '));
+    // Store pages only: never relative or script URLs
+    const url = citation.url && /^https:\/\//i.test(citation.url) ? sanitizeUrl(citation.url) : '';
+    const item = document.createElement(url ? 'a' : 'span');
+    if (url) {
+      item.href = url;
+      item.target = '_blank';
+      item.rel = 'noopener noreferrer';
+    }
+    item.textContent = citation.title;
+    sources.appendChild(item);
+  });
+
+  messagesContainer.appendChild(sources);
+  scrollToBottom();
+}
+
+// Order found by the order tracking flow: status, items and tracking links
+function displayOrderCard(order) {
+  const messagesContainer = document.getElementById('ai-chat-messages');
+  if (!messagesContainer || !order) return;
+
+  const locale = navigator.language || 'en';
+  const card = document.createElement('div');
+  card.className = 'ai-message assistant-message ai-order-card';
+
+  const header = document.createElement('div');
+  header.className = 'ai-order-card-header';
+  const name = document.createElement('strong');
+  name.textContent = order.name;
+  const status = document.createElement('span');
+  status.className = 'ai-order-card-status' + (order.cancelled ? ' is-cancelled' : '');
+  status.textContent = order.cancelled ? t('orderCancelled') : formatOrderStatus(order.fulfillmentStatus || order.financialStatus);
+  header.appendChild(name);
+  header.appendChild(status);
+  card.appendChild(header);
+
+  const meta = document.createElement('div');
+  meta.className = 'ai-order-card-meta';
+  const parts = [];
+  if (order.createdAt) parts.push(new Date(order.createdAt).toLocaleDateString(locale));
+  if (order.total) {
+    try {
+      parts.push(new Intl.NumberFormat(locale, { style: 'currency', currency: order.total.currencyCode }).format(Number(order.total.amount)));
+    } catch (error) {
+      parts.push(`${order.total.amount} ${order.total.currencyCode}`);
+    }
+  }
+  meta.textContent = parts.join(' · ');
+  card.appendChild(meta);
+
+  (order.items || []).forEach(item => {
+    const row = document.createElement('div');
+    row.className = 'ai-order-card-item';
+    const imageUrl = item.image ? sanitizeUrl(item.image) : '';
+    if (imageUrl) {
+      const img = document.createElement('img');
+      img.src = imageUrl;
+      img.alt = '';
+      img.loading = 'lazy';
+      row.appendChild(img);
+    }
+    const title = document.createElement('span');
+    title.textContent = `${item.quantity} × ${item.title}`;
+    row.appendChild(title);
+    card.appendChild(row);
+  });
+
+  (order.shipments || []).forEach(shipment => {
+    const shipmentDiv = document.createElement('div');
+    shipmentDiv.className = 'ai-order-card-shipment';
+
+    const shipmentStatus = document.createElement('div');
+    shipmentStatus.textContent = formatOrderStatus(shipment.status);
+    if (shipment.estimatedDeliveryAt) {
+      shipmentStatus.textContent += ` · ${t('estimatedDelivery')}: ${new Date(shipment.estimatedDeliveryAt).toLocaleDateString(locale)}`;
+    }
+    shipmentDiv.appendChild(shipmentStatus);
+
+    (shipment.tracking || []).forEach(info => {
+      const label = [info.company, info.number].filter(Boolean).join(' ');
+      // Carrier links only: never relative or script URLs
+      const trackingUrl = info.url && /^https?:\/\//i.test(info.url) ? sanitizeUrl(info.url) : '';
+      if (trackingUrl) {
+        const link = document.createElement('a');
+        link.href = trackingUrl;
+        link.target = '_blank';
+        link.rel = 'noopener noreferrer';
+        link.textContent = `${t('trackPackage')}${label ? ` (${label})` : ''}`;
+        shipmentDiv.appendChild(link);
+      } else if (label) {
+        const number = document.createElement('div');
+        number.textContent = label;
+        shipmentDiv.appendChild(number);
+      }
+    });
+
+    card.appendChild(shipmentDiv);
+  });
+
+  const statusUrl = order.statusUrl && /^https:\/\//i.test(order.statusUrl) ? sanitizeUrl(order.statusUrl) : '';
+  if (statusUrl) {
+    const link = document.createElement('a');
+    link.className = 'ai-order-card-link';
+    link.href = statusUrl;
+    link.target = '_blank';
+    link.rel = 'noopener noreferrer';
+    link.textContent = `${t('orderStatusPage')} →`;
+    card.appendChild(link);
+  }
+
+  messagesContainer.appendChild(card);
+  scrollToBottom();
+}
+
 // ======================
 // Cart Integration
 // ======================
@@ -1680,6 +1973,7 @@ async function addToCart(productHandle, variantId, quantity = 1) {
       const data = await response.json();
       showNotification('Added to cart! 🛒', 'success');
       updateCartCount();
+      trackWidgetEvent('add_to_cart', { productId: productHandle });
       return true;
     } else {
       const productResponse = await fetch(`/products/${productHandle}.js`);
@@ -1695,6 +1989,7 @@ async function addToCart(productHandle, variantId, quantity = 1) {
       if (!addResponse.ok) throw new Error('Failed to add to cart');
       showNotification('Added to cart! 🛒', 'success');
       updateCartCount();
+      trackWidgetEvent('add_to_cart', { productId: product.id ? String(product.id) : productHandle });
       return true;
     }
   } catch (error) {
@@ -1703,6 +1998,35 @@ async function addToCart(productHandle, variantId, quantity = 1) {
   }
 }
 
+// Report a funnel step to the app (chat opened / product added to the cart)
+function trackWidgetEvent(event, data = {}) {
+  fetch('https://shopibot.vercel.app/api/track-widget-event', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({
+      shop: widgetSettings.shopDomain,
+      event,
+      sessionId,
+      chatSessionId: currentChatSessionId,
+      ...data
+    })
+  }).catch(() => {}); // Analytics only
+}
+
+// Store the chat session on the cart so the order can be attributed to the conversation
+// (the leading underscore hides the attribute at checkout)
+function attributeCartToChat() {
+  if (!currentChatSessionId || currentChatSessionId === cartAttributedSessionId) return;
+  cartAttributedSessionId = currentChatSessionId;
+  fetch('/cart/update.js', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ attributes: { _shopibot_chat_session: currentChatSessionId } })
+  }).catch(() => {
+    cartAttributedSessionId = null; // Retry with the next reply
+  });
+}
+
 function updateCartCount() {
   fetch('/cart.js')
     .then(res => res.json())
@@ -1764,6 +2088,8 @@ function toggleAIChat() {
     }
   );
 
+  if (chatOpen) trackWidgetEvent('widget_open');
+
   // Mark chat as opened in sessionStorage to prevent welcome popup
   if (chatOpen) {
     try {
@@ -1817,7 +2143,7 @@ function handleChatKeyPress(event) {
   }
 }
 
-function sendAIMessage() {
+function sendAIMessage(entryPoint = 'typed') {
   if (!elements.inputField) return;
   const message = elements.inputField.value.trim();
   if (!message) return;
@@ -1839,7 +2165,7 @@ function sendAIMessage() {
   hideWelcomeScreen();
   addMessageToChat('user', message);
   elements.inputField.value = '';
-  sendMessageToServer(message);
+  sendMessageToServer(message, entryPoint);
 }
 
 // ======================
@@ -2038,7 +2364,7 @@ function cacheDOMElements() {
 function setupEventListeners() {
   if (elements.toggleBtn) elements.toggleBtn.addEventListener('click', toggleAIChat);
   if (elements.closeBtn) elements.closeBtn.addEventListener('click', toggleAIChat);
-  if (elements.sendBtn) elements.sendBtn.addEventListener('click', sendAIMessage);  // ✅ Correct!
+  if (elements.sendBtn) elements.sendBtn.addEventListener('click', () => sendAIMessage());
   if (elements.inputField) elements.inputField.addEventListener('keypress', handleChatKeyPress);
 
   document.querySelectorAll('.quick-action-btn').forEach(btn => {
@@ -2046,7 +2372,7 @@ function setupEventListeners() {
       const prompt = e.currentTarget.dataset.prompt;
       if (prompt && elements.inputField) {
         elements.inputField.value = prompt;
-        sendAIMessage();
+        sendAIMessage('quick_action');
       }
     });
   });
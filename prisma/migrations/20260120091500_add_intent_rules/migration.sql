@@ -0,0 +1,18 @@
+-- CreateTable
+CREATE TABLE "IntentRule" (
+    "id" TEXT NOT NULL,
+    "shop" TEXT NOT NULL,
+    "intent" TEXT NOT NULL,
+    "pattern" TEXT NOT NULL,
+    "matchType" TEXT NOT NULL DEFAULT 'keyword',
+    "query" TEXT,
+    "priority" INTEGER NOT NULL DEFAULT 0,
+    "enabled" BOOLEAN NOT NULL DEFAULT true,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "IntentRule_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "IntentRule_shop_enabled_idx" ON "IntentRule"("shop", "enabled");
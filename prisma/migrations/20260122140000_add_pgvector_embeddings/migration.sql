@@ -0,0 +1,27 @@
+-- Native vector column + ANN index for ProductEmbedding.
+--
+-- Requires the pgvector extension (available on Neon, Supabase, RDS, Cloud SQL).
+-- If the extension cannot be installed this migration only raises a WARNING and the app
+-- keeps using the JSON-string "embedding" column with in-memory cosine similarity (and logs
+-- a warning when it detects the missing column).
+DO $$
+BEGIN
+    CREATE EXTENSION IF NOT EXISTS vector;
+
+    -- AlterTable
+    ALTER TABLE "ProductEmbedding" ADD COLUMN IF NOT EXISTS "embeddingVector" vector(1536);
+
+    -- Backfill existing string-encoded rows (JSON arrays are valid pgvector input)
+    UPDATE "ProductEmbedding"
+    SET "embeddingVector" = "embedding"::vector
+    WHERE "embeddingVector" IS NULL
+      AND "embedding" LIKE '[%'
+      AND "embeddingModel" IN ('text-embedding-3-small', 'text-embedding-ada-002');
+
+    -- CreateIndex
+    CREATE INDEX IF NOT EXISTS "ProductEmbedding_embeddingVector_idx"
+    ON "ProductEmbedding" USING hnsw ("embeddingVector" vector_cosine_ops);
+EXCEPTION
+    WHEN OTHERS THEN
+        RAISE WARNING 'pgvector unavailable (%): semantic search falls back to in-memory similarity', SQLERRM;
+END $$;
@@ -0,0 +1,22 @@
+-- AlterTable
+ALTER TABLE "ProductEmbedding" ADD COLUMN "contentHash" TEXT;
+
+-- CreateTable
+CREATE TABLE "CatalogSync" (
+    "id" TEXT NOT NULL,
+    "shop" TEXT NOT NULL,
+    "status" TEXT NOT NULL DEFAULT 'pending',
+    "bulkOperationId" TEXT,
+    "productsProcessed" INTEGER NOT NULL DEFAULT 0,
+    "productsEmbedded" INTEGER NOT NULL DEFAULT 0,
+    "error" TEXT,
+    "startedAt" TIMESTAMP(3),
+    "completedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "CatalogSync_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "CatalogSync_shop_key" ON "CatalogSync"("shop");
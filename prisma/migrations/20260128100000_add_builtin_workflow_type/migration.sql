@@ -0,0 +1,2 @@
+-- AlterEnum
+ALTER TYPE "WorkflowType" ADD VALUE 'BUILTIN';
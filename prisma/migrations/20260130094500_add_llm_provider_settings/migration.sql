@@ -0,0 +1,4 @@
+-- AlterTable
+ALTER TABLE "WidgetSettings" ADD COLUMN "llmProvider" TEXT NOT NULL DEFAULT 'openai',
+ADD COLUMN "llmModel" TEXT,
+ADD COLUMN "llmBaseUrl" TEXT;
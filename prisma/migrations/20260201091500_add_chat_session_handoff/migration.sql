@@ -0,0 +1,6 @@
+-- AlterTable
+ALTER TABLE "ChatSession" ADD COLUMN "status" TEXT NOT NULL DEFAULT 'bot',
+ADD COLUMN "escalatedAt" TIMESTAMP(3);
+
+-- CreateIndex
+CREATE INDEX "ChatSession_shop_status_lastMessageAt_idx" ON "ChatSession"("shop", "status", "lastMessageAt");
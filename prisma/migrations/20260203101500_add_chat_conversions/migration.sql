@@ -0,0 +1,37 @@
+-- AlterTable
+ALTER TABLE "WidgetSettings" ADD COLUMN "attributionWindowDays" INTEGER NOT NULL DEFAULT 7;
+
+-- AlterTable
+ALTER TABLE "ChatAnalytics" ADD COLUMN "assistedRevenue" DOUBLE PRECISION NOT NULL DEFAULT 0,
+ADD COLUMN "ordersCount" INTEGER NOT NULL DEFAULT 0,
+ADD COLUMN "ordersRevenue" DOUBLE PRECISION NOT NULL DEFAULT 0;
+
+-- CreateTable
+CREATE TABLE "ChatConversion" (
+    "id" TEXT NOT NULL,
+    "shop" TEXT NOT NULL,
+    "orderId" TEXT NOT NULL,
+    "orderName" TEXT,
+    "chatSessionId" TEXT NOT NULL,
+    "totalPrice" DOUBLE PRECISION NOT NULL,
+    "currency" TEXT NOT NULL,
+    "influencedRevenue" DOUBLE PRECISION NOT NULL DEFAULT 0,
+    "productIds" TEXT NOT NULL DEFAULT '[]',
+    "clicked" BOOLEAN NOT NULL DEFAULT false,
+    "orderCreatedAt" TIMESTAMP(3) NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "ChatConversion_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "ChatConversion_shop_orderId_key" ON "ChatConversion"("shop", "orderId");
+
+-- CreateIndex
+CREATE INDEX "ChatConversion_shop_orderCreatedAt_idx" ON "ChatConversion"("shop", "orderCreatedAt");
+
+-- CreateIndex
+CREATE INDEX "ChatConversion_chatSessionId_idx" ON "ChatConversion"("chatSessionId");
+
+-- AddForeignKey
+ALTER TABLE "ChatConversion" ADD CONSTRAINT "ChatConversion_chatSessionId_fkey" FOREIGN KEY ("chatSessionId") REFERENCES "ChatSession"("id") ON DELETE CASCADE ON UPDATE CASCADE;
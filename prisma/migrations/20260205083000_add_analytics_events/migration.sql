@@ -0,0 +1,27 @@
+-- CreateTable
+CREATE TABLE "AnalyticsEvent" (
+    "id" TEXT NOT NULL,
+    "shop" TEXT NOT NULL,
+    "type" TEXT NOT NULL,
+    "occurredAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "chatSessionId" TEXT,
+    "isNewSession" BOOLEAN NOT NULL DEFAULT false,
+    "intent" TEXT,
+    "sentiment" TEXT,
+    "confidence" DOUBLE PRECISION,
+    "responseTimeMs" INTEGER,
+    "workflowType" TEXT,
+    "productId" TEXT,
+    "productTitle" TEXT,
+    "rating" INTEGER,
+    "orderId" TEXT,
+    "revenue" DOUBLE PRECISION,
+
+    CONSTRAINT "AnalyticsEvent_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "AnalyticsEvent_shop_occurredAt_idx" ON "AnalyticsEvent"("shop", "occurredAt");
+
+-- CreateIndex
+CREATE INDEX "AnalyticsEvent_shop_type_occurredAt_idx" ON "AnalyticsEvent"("shop", "type", "occurredAt");
@@ -0,0 +1,4 @@
+-- AlterTable
+ALTER TABLE "AnalyticsEvent" ADD COLUMN     "entryPoint" TEXT,
+ADD COLUMN     "productsShown" INTEGER NOT NULL DEFAULT 0,
+ADD COLUMN     "visitorId" TEXT;
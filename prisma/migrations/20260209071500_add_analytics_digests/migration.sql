@@ -0,0 +1,4 @@
+-- AlterTable
+ALTER TABLE "WidgetSettings" ADD COLUMN     "digestEmail" TEXT,
+ADD COLUMN     "digestFrequency" TEXT NOT NULL DEFAULT 'off',
+ADD COLUMN     "digestLastSentAt" TIMESTAMP(3);
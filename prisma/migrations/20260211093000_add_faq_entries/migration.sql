@@ -0,0 +1,18 @@
+-- CreateTable
+CREATE TABLE "FaqEntry" (
+    "id" TEXT NOT NULL,
+    "shop" TEXT NOT NULL,
+    "question" TEXT NOT NULL,
+    "answer" TEXT NOT NULL,
+    "variants" TEXT NOT NULL DEFAULT '[]',
+    "embedding" TEXT,
+    "source" TEXT NOT NULL DEFAULT 'manual',
+    "enabled" BOOLEAN NOT NULL DEFAULT true,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "FaqEntry_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "FaqEntry_shop_enabled_idx" ON "FaqEntry"("shop", "enabled");
@@ -0,0 +1,65 @@
+-- CreateTable
+CREATE TABLE "KnowledgeDocument" (
+    "id" TEXT NOT NULL,
+    "shop" TEXT NOT NULL,
+    "type" TEXT NOT NULL,
+    "title" TEXT NOT NULL,
+    "url" TEXT,
+    "externalId" TEXT,
+    "content" TEXT NOT NULL,
+    "contentHash" TEXT NOT NULL,
+    "status" TEXT NOT NULL DEFAULT 'pending',
+    "error" TEXT,
+    "chunkCount" INTEGER NOT NULL DEFAULT 0,
+    "indexedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "KnowledgeDocument_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "KnowledgeChunk" (
+    "id" TEXT NOT NULL,
+    "shop" TEXT NOT NULL,
+    "documentId" TEXT NOT NULL,
+    "position" INTEGER NOT NULL,
+    "content" TEXT NOT NULL,
+    "embedding" TEXT,
+    "embeddingModel" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "KnowledgeChunk_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "KnowledgeDocument_shop_externalId_key" ON "KnowledgeDocument"("shop", "externalId");
+
+-- CreateIndex
+CREATE INDEX "KnowledgeDocument_shop_type_idx" ON "KnowledgeDocument"("shop", "type");
+
+-- CreateIndex
+CREATE INDEX "KnowledgeChunk_shop_idx" ON "KnowledgeChunk"("shop");
+
+-- CreateIndex
+CREATE INDEX "KnowledgeChunk_documentId_position_idx" ON "KnowledgeChunk"("documentId", "position");
+
+-- AddForeignKey
+ALTER TABLE "KnowledgeChunk" ADD CONSTRAINT "KnowledgeChunk_documentId_fkey" FOREIGN KEY ("documentId") REFERENCES "KnowledgeDocument"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- Native vector column + ANN index, as for ProductEmbedding (no-op without pgvector:
+-- retrieval then ranks the JSON-string "embedding" column in memory)
+DO $$
+BEGIN
+    CREATE EXTENSION IF NOT EXISTS vector;
+
+    -- AlterTable
+    ALTER TABLE "KnowledgeChunk" ADD COLUMN IF NOT EXISTS "embeddingVector" vector(1536);
+
+    -- CreateIndex
+    CREATE INDEX IF NOT EXISTS "KnowledgeChunk_embeddingVector_idx"
+    ON "KnowledgeChunk" USING hnsw ("embeddingVector" vector_cosine_ops);
+EXCEPTION
+    WHEN OTHERS THEN
+        RAISE WARNING 'pgvector unavailable (%): knowledge base search falls back to in-memory similarity', SQLERRM;
+END $$;
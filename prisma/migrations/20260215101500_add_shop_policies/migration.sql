@@ -0,0 +1,22 @@
+-- CreateTable
+CREATE TABLE "ShopPolicies" (
+    "id" TEXT NOT NULL,
+    "shop" TEXT NOT NULL,
+    "shopName" TEXT,
+    "returns" TEXT,
+    "shipping" TEXT,
+    "privacy" TEXT,
+    "termsOfService" TEXT,
+    "contactEmail" TEXT,
+    "contactPhone" TEXT,
+    "contentHash" TEXT NOT NULL,
+    "policiesUpdatedAt" TIMESTAMP(3),
+    "fetchedAt" TIMESTAMP(3) NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "ShopPolicies_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "ShopPolicies_shop_key" ON "ShopPolicies"("shop");
@@ -0,0 +1,17 @@
+-- CreateTable
+CREATE TABLE "ShopDataKey" (
+    "id" TEXT NOT NULL,
+    "shop" TEXT NOT NULL,
+    "wrappedKey" TEXT NOT NULL,
+    "keyId" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "ShopDataKey_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "ShopDataKey_shop_key" ON "ShopDataKey"("shop");
+
+-- CreateIndex
+CREATE INDEX "ShopDataKey_keyId_idx" ON "ShopDataKey"("keyId");
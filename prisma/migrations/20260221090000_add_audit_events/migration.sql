@@ -0,0 +1,32 @@
+-- CreateTable
+CREATE TABLE "AuditEvent" (
+    "id" TEXT NOT NULL,
+    "shop" TEXT,
+    "actorType" TEXT NOT NULL,
+    "actorId" TEXT,
+    "action" TEXT NOT NULL,
+    "targetType" TEXT,
+    "targetId" TEXT,
+    "changes" TEXT,
+    "metadata" TEXT NOT NULL DEFAULT '{}',
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "AuditEvent_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "AuditEvent_shop_createdAt_idx" ON "AuditEvent"("shop", "createdAt");
+
+-- CreateIndex
+CREATE INDEX "AuditEvent_shop_action_createdAt_idx" ON "AuditEvent"("shop", "action", "createdAt");
+
+-- Append-only: events can be deleted (retention, shop redaction) but never changed
+CREATE FUNCTION "audit_event_prevent_update"() RETURNS trigger AS $$
+BEGIN
+    RAISE EXCEPTION 'AuditEvent rows are append-only';
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER "AuditEvent_prevent_update"
+    BEFORE UPDATE ON "AuditEvent"
+    FOR EACH ROW EXECUTE FUNCTION "audit_event_prevent_update"();
@@ -0,0 +1,20 @@
+-- AlterTable
+ALTER TABLE "WidgetSettings" ADD COLUMN     "retentionPolicy" TEXT NOT NULL DEFAULT '{}';
+
+-- CreateTable
+CREATE TABLE "RetentionRun" (
+    "id" TEXT NOT NULL,
+    "shop" TEXT NOT NULL,
+    "trigger" TEXT NOT NULL,
+    "dryRun" BOOLEAN NOT NULL DEFAULT false,
+    "status" TEXT NOT NULL DEFAULT 'running',
+    "report" TEXT,
+    "error" TEXT,
+    "startedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "finishedAt" TIMESTAMP(3),
+
+    CONSTRAINT "RetentionRun_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "RetentionRun_shop_startedAt_idx" ON "RetentionRun"("shop", "startedAt");
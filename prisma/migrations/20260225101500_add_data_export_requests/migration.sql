@@ -0,0 +1,32 @@
+-- CreateTable
+CREATE TABLE "DataExportRequest" (
+    "id" TEXT NOT NULL,
+    "shop" TEXT NOT NULL,
+    "webhookId" TEXT,
+    "customerId" TEXT,
+    "customerEmail" TEXT,
+    "status" TEXT NOT NULL DEFAULT 'pending',
+    "error" TEXT,
+    "archive" BYTEA,
+    "archiveVersion" INTEGER,
+    "archiveSize" INTEGER,
+    "recordCounts" TEXT NOT NULL DEFAULT '{}',
+    "dueAt" TIMESTAMP(3) NOT NULL,
+    "readyAt" TIMESTAMP(3),
+    "expiresAt" TIMESTAMP(3),
+    "downloadedAt" TIMESTAMP(3),
+    "fulfilledAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "DataExportRequest_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "DataExportRequest_webhookId_key" ON "DataExportRequest"("webhookId");
+
+-- CreateIndex
+CREATE INDEX "DataExportRequest_shop_createdAt_idx" ON "DataExportRequest"("shop", "createdAt");
+
+-- CreateIndex
+CREATE INDEX "DataExportRequest_shop_customerId_idx" ON "DataExportRequest"("shop", "customerId");
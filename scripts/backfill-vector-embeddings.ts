@@ -0,0 +1,51 @@
+/**
+ * Backfill pgvector Embeddings
+ *
+ * Copies string-encoded embeddings (ProductEmbedding.embedding) into the native
+ * pgvector column (ProductEmbedding.embeddingVector) so semantic search can run
+ * top-K queries in the database. Safe to re-run: only rows without a vector are touched.
+ *
+ * Usage:
+ *   npm run backfill-vector-embeddings -- --batch-size=500
+ */
+
+import { getEmbeddingService, isEmbeddingServiceAvailable } from '../app/services/embedding.service';
+
+async function main() {
+  const batchArg = process.argv.find(arg => arg.startsWith('--batch-size='));
+  const batchSize = batchArg ? parseInt(batchArg.split('=')[1] || '500', 10) : 500;
+
+  if (!isEmbeddingServiceAvailable()) {
+    console.error('❌ Error: OPENAI_API_KEY not found in environment variables');
+    process.exit(1);
+  }
+
+  const embeddingService = getEmbeddingService();
+
+  if (!(await embeddingService.hasVectorSupport())) {
+    console.log('⚠️  pgvector column not found. Run `prisma migrate deploy` on a database with the vector extension.');
+    console.log('   Semantic search keeps using the in-memory fallback.');
+    return;
+  }
+
+  console.log(`🚀 Backfilling vector embeddings (batch size: ${batchSize})...`);
+
+  let total = 0;
+  let converted = 0;
+  do {
+    converted = await embeddingService.backfillVectorColumn(batchSize);
+    total += converted;
+    if (converted > 0) {
+      console.log(`  Converted ${total} embeddings so far...`);
+    }
+  } while (converted === batchSize);
+
+  console.log(`✅ Done. ${total} embeddings converted.`);
+}
+
+main()
+  .then(() => process.exit(0))
+  .catch((error) => {
+    console.error('❌ Backfill failed:', error instanceof Error ? error.message : String(error));
+    process.exit(1);
+  });
@@ -0,0 +1,89 @@
+/**
+ * Background Job Worker
+ *
+ * Polls the Postgres job queue (see app/lib/job-queue.server.ts) and runs due jobs.
+ * Several workers can run at once; jobs are claimed with SKIP LOCKED.
+ *
+ * Usage:
+ *   npm run worker            # run until SIGINT/SIGTERM
+ *   npm run worker -- --once  # process due jobs once and exit (cron)
+ */
+
+import { hostname } from 'os';
+import { JOBS } from '../app/config/limits';
+import { registerJobHandlers } from '../app/lib/job-handlers.server';
+import {
+  processJobs,
+  recoverStaleJobs,
+  purgeCompletedJobs,
+} from '../app/lib/job-queue.server';
+import { logger } from '../app/lib/logger.server';
+import { retentionService } from '../app/services/retention.service.server';
+
+// Housekeeping (stale locks, completed job cleanup, the daily retention purge) runs at most once a minute
+const MAINTENANCE_INTERVAL_MS = 60 * 1000;
+
+const workerId = `${hostname()}:${process.pid}`;
+let stopping = false;
+
+function sleep(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+async function runMaintenance() {
+  await recoverStaleJobs();
+  const purged = await purgeCompletedJobs();
+  if (purged > 0) {
+    logger.info({ purged }, 'Purged completed jobs');
+  }
+  await retentionService.schedulePurges();
+}
+
+async function main() {
+  const once = process.argv.includes('--once');
+
+  registerJobHandlers();
+  logger.info({ workerId, once }, 'Job worker started');
+
+  process.on('SIGINT', () => { stopping = true; });
+  process.on('SIGTERM', () => { stopping = true; });
+
+  let lastMaintenance = 0;
+
+  while (!stopping) {
+    let processed = 0;
+
+    try {
+      if (Date.now() - lastMaintenance > MAINTENANCE_INTERVAL_MS) {
+        await runMaintenance();
+        lastMaintenance = Date.now();
+      }
+
+      const result = await processJobs(workerId);
+      processed = result.processed;
+      if (processed > 0) {
+        logger.info(result, 'Processed jobs');
+      }
+    } catch (error) {
+      // Database unavailable etc. - back off and keep polling
+      logger.error({ error: error instanceof Error ? error.message : String(error) }, 'Job polling failed');
+      if (once) throw error;
+    }
+
+    if (once && processed < JOBS.BATCH_SIZE) break;
+
+    // Keep draining while there is a backlog
+    if (processed === 0) {
+      await sleep(JOBS.POLL_INTERVAL_MS);
+    }
+  }
+
+  logger.info({ workerId }, 'Job worker stopped');
+}
+
+main()
+  .then(() => process.exit(0))
+  .catch((error) => {
+    logger.error({ error: error instanceof Error ? error.message : String(error) }, 'Job worker crashed');
+    process.exit(1);
+  });
@@ -0,0 +1,42 @@
+/**
+ * Re-encrypt Stored Secrets
+ *
+ * Moves stored secrets (BYOK provider keys, customer token secrets) and per-shop data keys to
+ * the current encryption key after a rotation. Run it after adding the new key to ENCRYPTION_KEYS
+ * and pointing ENCRYPTION_KEY_ID at it; remove the old key once it reports nothing left to do.
+ * Safe to re-run: values already on the current key are skipped.
+ *
+ * Usage:
+ *   npm run reencrypt-secrets
+ */
+
+import { getKeyring } from '../app/lib/encryption.server';
+import { reencryptSecrets, shopKeysEnabled } from '../app/lib/shop-keys.server';
+
+async function main() {
+  const { currentKeyId, keys } = getKeyring();
+
+  console.log(
+    `🔐 Re-encrypting secrets with key "${currentKeyId}" ` +
+    `(keyring: ${[...keys.keys()].join(', ')}; per-shop data keys: ${shopKeysEnabled() ? 'on' : 'off'})...`
+  );
+
+  const result = await reencryptSecrets();
+
+  console.log(`  Data keys re-wrapped: ${result.dataKeysRewrapped}`);
+  console.log(`  Secrets re-encrypted: ${result.secretsReencrypted}`);
+
+  if (result.failed > 0) {
+    console.error(`❌ ${result.failed} values could not be re-encrypted (see logs). Keep the old keys until they are fixed.`);
+    process.exit(1);
+  }
+
+  console.log('✅ Done. Keys not named by ENCRYPTION_KEY_ID can be removed from the keyring.');
+}
+
+main()
+  .then(() => process.exit(0))
+  .catch((error) => {
+    console.error('❌ Re-encryption failed:', error instanceof Error ? error.message : String(error));
+    process.exit(1);
+  });
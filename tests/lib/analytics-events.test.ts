@@ -0,0 +1,85 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { recordAnalyticsEvent, rebuildDailyAnalytics } from '../../app/lib/analytics-events.server';
+
+const { db, enqueueJob } = vi.hoisted(() => ({
+  db: {
+    analyticsEvent: { create: vi.fn(), count: vi.fn(), aggregate: vi.fn(), groupBy: vi.fn() },
+    chatAnalytics: { upsert: vi.fn() },
+  },
+  enqueueJob: vi.fn(),
+}));
+
+vi.mock('../../app/db.server', () => ({ prisma: db }));
+vi.mock('../../app/lib/job-queue.server', () => ({ enqueueJob }));
+
+const SHOP = 'test.myshopify.com';
+
+describe('Analytics events', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('should append the event and queue one rollup per day and slot', async () => {
+    const occurredAt = new Date(2026, 1, 5, 14, 30);
+    vi.useFakeTimers({ toFake: ['Date'] });
+    vi.setSystemTime(new Date(2026, 1, 5, 14, 30, 1));
+
+    await recordAnalyticsEvent(SHOP, { type: 'message', intent: 'PRODUCT_SEARCH', responseTimeMs: 812.4, occurredAt });
+    await recordAnalyticsEvent(SHOP, { type: 'rating', rating: 5, occurredAt });
+
+    expect(db.analyticsEvent.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({ shop: SHOP, type: 'message', responseTimeMs: 812, occurredAt }),
+    });
+    expect(enqueueJob).toHaveBeenCalledWith('analytics.rollup', { day: '2026-02-05' }, expect.objectContaining({ shop: SHOP }));
+    const [first, second] = enqueueJob.mock.calls.map(call => call[2].idempotencyKey);
+    expect(first).toMatch(/^analytics\.rollup:test\.myshopify\.com:2026-02-05:\d+$/);
+    expect(second).toBe(first);
+
+    vi.useRealTimers();
+  });
+
+  it('should overwrite the day with totals computed from its events', async () => {
+    db.analyticsEvent.count.mockImplementation(({ where }: any) => Promise.resolve(where.isNewSession ? 2 : 9));
+    db.analyticsEvent.aggregate.mockImplementation(({ where }: any) => Promise.resolve(
+      where.type === 'message'
+        ? { _count: { _all: 5 }, _avg: { responseTimeMs: 900, confidence: 0.8 } }
+        : where.type === 'conversion'
+          ? { _count: { _all: 1 }, _sum: { revenue: 120 } }
+          : { _count: { _all: 3 }, _sum: { revenue: 300 } }
+    ));
+    db.analyticsEvent.groupBy.mockImplementation(({ by }: any) => Promise.resolve(
+      by[0] === 'intent'
+        ? [{ intent: 'PRODUCT_SEARCH', _count: { _all: 4 } }, { intent: null, _count: { _all: 1 } }]
+        : by[0] === 'productId'
+          ? [{ productId: 'gid://shopify/Product/11', productTitle: 'Tee', _count: { _all: 2 } }]
+          : []
+    ));
+
+    expect(await rebuildDailyAnalytics(SHOP, new Date(2026, 1, 5, 14, 30))).toBe(true);
+
+    const date = new Date(2026, 1, 5);
+    expect(db.chatAnalytics.upsert).toHaveBeenCalledWith(expect.objectContaining({
+      where: { shop_date: { shop: SHOP, date } },
+      update: expect.objectContaining({
+        totalSessions: 2,
+        totalMessages: 5,
+        avgResponseTime: 900,
+        topIntents: JSON.stringify({ PRODUCT_SEARCH: 4 }),
+        topProducts: JSON.stringify({ 'gid://shopify/Product/11|||Tee': 2 }),
+        conversionsTracked: 1,
+        assistedRevenue: 120,
+        ordersCount: 3,
+        ordersRevenue: 300,
+      }),
+    }));
+  });
+
+  it('should leave days without events alone', async () => {
+    db.analyticsEvent.count.mockResolvedValue(0);
+    db.analyticsEvent.aggregate.mockResolvedValue({ _count: { _all: 0 }, _avg: {}, _sum: {} });
+    db.analyticsEvent.groupBy.mockResolvedValue([]);
+
+    expect(await rebuildDailyAnalytics(SHOP, new Date(2026, 1, 1))).toBe(false);
+    expect(db.chatAnalytics.upsert).not.toHaveBeenCalled();
+  });
+});
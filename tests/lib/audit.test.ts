@@ -0,0 +1,61 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { diffChanges, recordAuditEvent } from '../../app/lib/audit.server';
+
+const { db } = vi.hoisted(() => ({
+  db: {
+    auditEvent: { create: vi.fn() },
+  },
+}));
+
+vi.mock('../../app/db.server', () => ({ prisma: db }));
+
+describe('Audit Log', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('should diff changed fields and mask secrets', () => {
+    const changes = diffChanges(
+      { plan: 'STARTER', webhookUrl: null, openaiApiKey: 'sk-old-key-aaaa1111', chatTitle: 'Help', updatedAt: new Date() },
+      { plan: 'BYOK', webhookUrl: '', openaiApiKey: 'sk-new-key-bbbb2222', chatTitle: 'Help' },
+      ['openaiApiKey']
+    );
+
+    expect(changes).toEqual({
+      plan: { from: 'STARTER', to: 'BYOK' },
+      openaiApiKey: { from: '••••1111', to: '••••2222' },
+    });
+    expect(diffChanges(null, { openaiApiKey: 'short' }, ['openaiApiKey'])).toEqual({
+      openaiApiKey: { from: null, to: '••••' },
+    });
+  });
+
+  it('should store the actor, changes and request metadata', async () => {
+    const request = new Request('https://app.test/app/settings', {
+      headers: { 'x-forwarded-for': '203.0.113.7, 10.0.0.1', 'user-agent': 'Mozilla/5.0' },
+    });
+
+    await recordAuditEvent({
+      shop: 'test.myshopify.com',
+      actor: { type: 'merchant', id: '42' },
+      action: 'settings.updated',
+      changes: { plan: { from: 'STARTER', to: 'BYOK' } },
+      request,
+    });
+
+    const { data } = db.auditEvent.create.mock.calls[0]![0];
+    expect(data).toMatchObject({ shop: 'test.myshopify.com', actorType: 'merchant', actorId: '42', action: 'settings.updated' });
+    expect(JSON.parse(data.changes)).toEqual({ plan: { from: 'STARTER', to: 'BYOK' } });
+    expect(JSON.parse(data.metadata)).toMatchObject({ ip: '203.0.113.7', userAgent: 'Mozilla/5.0', path: '/app/settings' });
+  });
+
+  it('should not fail the audited action when the write fails', async () => {
+    db.auditEvent.create.mockRejectedValue(new Error('connection lost'));
+
+    await expect(recordAuditEvent({
+      shop: 'test.myshopify.com',
+      actor: { type: 'api' },
+      action: 'apiKey.tested',
+    })).resolves.toBeUndefined();
+  });
+});
@@ -0,0 +1,73 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { executeChatTool, getChatToolDefinitions, type ChatToolContext } from '../../app/lib/chat-tools.server';
+
+const graphql = vi.fn();
+const context = { shop: 'test.myshopify.com', admin: { graphql } } as unknown as ChatToolContext;
+
+function respondWith(data: unknown) {
+  graphql.mockResolvedValue({ json: async () => ({ data }) });
+}
+
+const order = {
+  name: '#1001',
+  email: 'jane@example.com',
+  createdAt: '2026-01-10T10:00:00Z',
+  cancelledAt: null,
+  displayFinancialStatus: 'PAID',
+  displayFulfillmentStatus: 'FULFILLED',
+  customer: { id: 'gid://shopify/Customer/42' },
+  lineItems: { edges: [{ node: { title: 'Trail Runner', quantity: 1 } }] },
+  fulfillments: [{ status: 'SUCCESS', trackingInfo: [{ company: 'UPS', number: '1Z999', url: null }] }],
+};
+
+describe('Chat Tools', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('should expose a definition for every tool', () => {
+    expect(getChatToolDefinitions().map(tool => tool.name)).toEqual([
+      'search_products',
+      'get_product_details',
+      'get_variant_availability',
+      'get_policy',
+      'lookup_order',
+      'add_to_cart_link',
+    ]);
+  });
+
+  it('should return an order only when the email matches, and redact the email in the log', async () => {
+    respondWith({ orders: { edges: [{ node: order }] } });
+
+    const match = await executeChatTool('lookup_order', JSON.stringify({ orderNumber: '#1001', email: 'JANE@example.com' }), context);
+    expect(match.result.output).toMatchObject({ found: true, fulfillmentStatus: 'FULFILLED' });
+    expect(match.call).toMatchObject({ name: 'lookup_order', success: true, arguments: { email: '[redacted]' } });
+
+    const mismatch = await executeChatTool('lookup_order', JSON.stringify({ orderNumber: '1001', email: 'someone@else.com' }), context);
+    expect(mismatch.result.output).toEqual({ found: false, note: 'No order matches this order number and email' });
+  });
+
+  it('should not query orders without an email or a verified customer', async () => {
+    const result = await executeChatTool('lookup_order', JSON.stringify({ orderNumber: '1001' }), context);
+
+    expect(result.result.output).toMatchObject({ found: false });
+    expect(graphql).not.toHaveBeenCalled();
+  });
+
+  it('should build cart permalinks from variant ids', async () => {
+    const { result } = await executeChatTool('add_to_cart_link', JSON.stringify({
+      items: [{ variantId: 'gid://shopify/ProductVariant/111', quantity: 2 }, { variantId: '222' }],
+    }), context);
+
+    expect(result.output).toEqual({ url: 'https://test.myshopify.com/cart/111:2,222:1' });
+  });
+
+  it('should report invalid arguments and unknown tools to the model', async () => {
+    const invalid = await executeChatTool('add_to_cart_link', '{"items": []}', context);
+    expect(invalid.call.success).toBe(false);
+    expect(invalid.result.output).toHaveProperty('error');
+
+    const unknown = await executeChatTool('delete_everything', '{}', context);
+    expect(unknown.result.output).toEqual({ error: 'Unknown tool: delete_everything' });
+  });
+});
@@ -0,0 +1,94 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { createCipheriv, randomBytes } from 'crypto';
+import { decryptApiKey, encryptApiKey, needsReencryption } from '../../app/lib/encryption.server';
+import { decryptShopSecret, encryptShopSecret, reencryptSecrets } from '../../app/lib/shop-keys.server';
+
+const { db } = vi.hoisted(() => ({
+  db: {
+    shopDataKey: { findUnique: vi.fn(), findMany: vi.fn(), upsert: vi.fn(), update: vi.fn() },
+    widgetSettings: { findMany: vi.fn(), updateMany: vi.fn() },
+  },
+}));
+
+vi.mock('../../app/db.server', () => ({ prisma: db }));
+
+const OLD_KEY = randomBytes(32).toString('hex');
+const NEW_KEY = randomBytes(32).toString('hex');
+
+function useKeys(env: Record<string, string | undefined>) {
+  for (const name of ['ENCRYPTION_KEY', 'ENCRYPTION_KEYS', 'ENCRYPTION_KEY_ID', 'ENCRYPTION_SHOP_KEYS']) {
+    if (env[name] === undefined) delete process.env[name];
+    else process.env[name] = env[name];
+  }
+}
+
+describe('Encryption', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  afterEach(() => {
+    useKeys({});
+  });
+
+  it('should decrypt values from before the keyring and older keys after a rotation', () => {
+    // iv:authTag:data with the single ENCRYPTION_KEY, as stored before key ids existed
+    const iv = randomBytes(16);
+    const cipher = createCipheriv('aes-256-gcm', Buffer.from(OLD_KEY, 'hex'), iv);
+    const data = cipher.update('sk-legacy-key-000000', 'utf8', 'hex') + cipher.final('hex');
+    const legacy = `${iv.toString('hex')}:${cipher.getAuthTag().toString('hex')}:${data}`;
+
+    useKeys({ ENCRYPTION_KEY: OLD_KEY });
+    const beforeRotation = encryptApiKey('sk-test-key-1234567890');
+    expect(beforeRotation.startsWith('v2:default:')).toBe(true);
+
+    useKeys({ ENCRYPTION_KEYS: `2026-02:${NEW_KEY}`, ENCRYPTION_KEY: OLD_KEY });
+    const afterRotation = encryptApiKey('sk-test-key-1234567890');
+
+    expect(afterRotation.startsWith('v2:2026-02:')).toBe(true);
+    expect(decryptApiKey(beforeRotation)).toBe('sk-test-key-1234567890');
+    expect(decryptApiKey(legacy)).toBe('sk-legacy-key-000000');
+    expect([legacy, beforeRotation, afterRotation].map(value => needsReencryption(value))).toEqual([true, true, false]);
+
+    useKeys({ ENCRYPTION_KEYS: `2026-02:${NEW_KEY}` });
+    expect(() => decryptApiKey(beforeRotation)).toThrow('Key "default" is not in the keyring');
+  });
+
+  it('should encrypt with a wrapped per-shop data key', async () => {
+    useKeys({ ENCRYPTION_KEYS: `k1:${NEW_KEY}`, ENCRYPTION_SHOP_KEYS: 'true' });
+    db.shopDataKey.findUnique.mockResolvedValue(null);
+    db.shopDataKey.upsert.mockImplementation(async ({ create }: any) => ({ id: 'dk1', ...create }));
+
+    const encrypted = await encryptShopSecret('a.myshopify.com', 'sk-shop-key-1234567890');
+
+    expect(encrypted.startsWith('v2d:dk1:')).toBe(true);
+    expect(db.shopDataKey.upsert.mock.calls[0]![0].create).toMatchObject({ shop: 'a.myshopify.com', keyId: 'k1' });
+    expect(await decryptShopSecret('a.myshopify.com', encrypted)).toBe('sk-shop-key-1234567890');
+    await expect(decryptShopSecret('b.myshopify.com', encrypted)).rejects.toThrow("data key no longer exists");
+  });
+
+  it('should re-wrap data keys and re-encrypt secrets with the current key', async () => {
+    useKeys({ ENCRYPTION_KEYS: `old:${OLD_KEY}` });
+    const wrappedKey = encryptApiKey(randomBytes(32).toString('hex'));
+    const secret = encryptApiKey('sk-rotate-me-1234567890');
+
+    useKeys({ ENCRYPTION_KEYS: `new:${NEW_KEY},old:${OLD_KEY}` });
+    db.shopDataKey.findMany.mockResolvedValue([{ id: 'dk1', shop: 'a.myshopify.com', wrappedKey }]);
+    db.widgetSettings.findMany.mockResolvedValue([
+      { shop: 'a.myshopify.com', openaiApiKey: secret },
+      { shop: 'b.myshopify.com', openaiApiKey: encryptApiKey('sk-already-current-123') },
+    ]);
+    db.widgetSettings.updateMany.mockResolvedValue({ count: 1 });
+
+    const result = await reencryptSecrets();
+
+    expect(result).toEqual({ dataKeysRewrapped: 1, secretsReencrypted: 1, failed: 0 });
+    expect(db.shopDataKey.findMany).toHaveBeenCalledWith(expect.objectContaining({ where: { keyId: { not: 'new' } } }));
+    expect(db.shopDataKey.update.mock.calls[0]![0].data.wrappedKey.startsWith('v2:new:')).toBe(true);
+
+    const { where, data } = db.widgetSettings.updateMany.mock.calls[0]![0];
+    expect(where).toEqual({ shop: 'a.myshopify.com', openaiApiKey: secret });
+    expect(data.openaiApiKey.startsWith('v2:new:')).toBe(true);
+    expect(decryptApiKey(data.openaiApiKey)).toBe('sk-rotate-me-1234567890');
+  });
+});
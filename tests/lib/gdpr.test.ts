@@ -0,0 +1,107 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { redactCustomerData, redactShopData } from '../../app/lib/gdpr.server';
+
+const { db } = vi.hoisted(() => {
+  const model = () => ({ findMany: vi.fn(), deleteMany: vi.fn() });
+  const db: Record<string, any> = {
+    session: model(),
+    widgetSettings: model(),
+    shopDataKey: model(),
+    productEmbedding: model(),
+    catalogSync: model(),
+    chatMessage: model(),
+    chatSession: model(),
+    chatConversion: model(),
+    userProfile: model(),
+    chatAnalytics: model(),
+    analyticsEvent: model(),
+    conversation: model(),
+    byokUsage: model(),
+    auditEvent: model(),
+    retentionRun: model(),
+    dataExportRequest: model(),
+    faqEntry: model(),
+    knowledgeChunk: model(),
+    knowledgeDocument: model(),
+    shopPolicies: model(),
+    intentRule: model(),
+  };
+  db.$transaction = vi.fn((callback: (tx: unknown) => Promise<unknown>) => callback(db));
+  return { db };
+});
+
+vi.mock('../../app/db.server', () => ({ prisma: db }));
+
+const SHOP = 'test.myshopify.com';
+
+describe('GDPR redaction', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    for (const [name, model] of Object.entries(db)) {
+      if (name.startsWith('$')) continue;
+      model.findMany.mockResolvedValue([]);
+      model.deleteMany.mockResolvedValue({ count: 0 });
+    }
+  });
+
+  it('should delete the analytics events of the customer\'s visits and chats', async () => {
+    db.userProfile.findMany.mockResolvedValue([{ id: 'p1', sessionId: 'visitor-1' }]);
+    db.chatSession.findMany.mockResolvedValue([{ id: 's1' }]);
+    db.analyticsEvent.deleteMany.mockResolvedValue({ count: 4 });
+
+    const result = await redactCustomerData(SHOP, { customerId: '42' });
+
+    expect(db.analyticsEvent.deleteMany).toHaveBeenCalledWith({
+      where: {
+        shop: SHOP,
+        OR: [{ visitorId: { in: ['visitor-1'] } }, { chatSessionId: { in: ['s1'] } }],
+      },
+    });
+    expect(result.analyticsEvents).toBe(4);
+  });
+
+  it('should delete the same records a data export of the customer contains', async () => {
+    db.chatMessage.findMany.mockResolvedValue([
+      { content: 'Reach me at Jane@example.com.', session: { userProfileId: 'p2' } },
+      { content: 'I am jimjane@example.com', session: { userProfileId: 'p3' } },
+    ]);
+    db.conversation.findMany.mockResolvedValue([{ sessionId: 'visitor-3', message: 'Hi', response: 'We emailed jane@example.com' }]);
+    db.userProfile.findMany.mockResolvedValue([
+      { id: 'p1', sessionId: 'visitor-1' },
+      { id: 'p2', sessionId: 'visitor-2' },
+    ]);
+    db.conversation.deleteMany.mockResolvedValue({ count: 2 });
+
+    const result = await redactCustomerData(SHOP, { customerId: '42', customerEmail: ' Jane@Example.com' });
+
+    expect(db.dataExportRequest.deleteMany).toHaveBeenCalledWith({
+      where: { shop: SHOP, OR: [{ customerId: '42' }, { customerEmail: 'jane@example.com' }] },
+    });
+    expect(db.userProfile.findMany.mock.calls[0]![0].where).toEqual({
+      shop: SHOP,
+      OR: [{ customerId: '42' }, { id: { in: ['p2'] } }, { sessionId: { in: ['visitor-3'] } }],
+    });
+    expect(db.conversation.deleteMany).toHaveBeenCalledWith({
+      where: { shop: SHOP, sessionId: { in: ['visitor-1', 'visitor-2', 'visitor-3'] } },
+    });
+    expect(db.userProfile.deleteMany).toHaveBeenCalledWith({ where: { id: { in: ['p1', 'p2'] } } });
+    expect(result.conversations).toBe(2);
+  });
+
+  it('should delete the merchant\'s content of the shop', async () => {
+    await redactShopData(SHOP);
+
+    for (const model of ['faqEntry', 'knowledgeChunk', 'knowledgeDocument', 'shopPolicies', 'intentRule']) {
+      expect(db[model].deleteMany).toHaveBeenCalledWith({ where: { shop: SHOP } });
+    }
+  });
+
+  it('should delete the shop\'s analytics events', async () => {
+    db.analyticsEvent.deleteMany.mockResolvedValue({ count: 12 });
+
+    const result = await redactShopData(SHOP);
+
+    expect(db.analyticsEvent.deleteMany).toHaveBeenCalledWith({ where: { shop: SHOP } });
+    expect(result.analyticsEvents).toBe(12);
+  });
+});
@@ -0,0 +1,129 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import {
+  computeBackoffMs,
+  enqueueJob,
+  processJobs,
+  registerJobHandler,
+} from '../../app/lib/job-queue.server';
+
+const { job, queryRaw } = vi.hoisted(() => ({
+  job: {
+    create: vi.fn(),
+    findUnique: vi.fn(),
+    update: vi.fn(),
+  },
+  queryRaw: vi.fn(),
+}));
+
+vi.mock('../../app/db.server', () => ({
+  prisma: {
+    job,
+    $queryRaw: queryRaw,
+  },
+}));
+
+function claimed(overrides: Record<string, unknown> = {}) {
+  return {
+    id: 'job_1',
+    type: 'catalog.product_delete',
+    shop: 'test.myshopify.com',
+    payload: JSON.stringify({ productId: 'gid://shopify/Product/1' }),
+    attempts: 1,
+    maxAttempts: 3,
+    ...overrides,
+  };
+}
+
+describe('Job Queue', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    job.update.mockResolvedValue({});
+  });
+
+  describe('computeBackoffMs', () => {
+    it('should grow exponentially up to the cap', () => {
+      expect(computeBackoffMs(1, 1000, 60000)).toBe(1000);
+      expect(computeBackoffMs(2, 1000, 60000)).toBe(2000);
+      expect(computeBackoffMs(4, 1000, 60000)).toBe(8000);
+      expect(computeBackoffMs(20, 1000, 60000)).toBe(60000);
+    });
+  });
+
+  describe('enqueueJob', () => {
+    it('should return the existing job for a duplicate idempotency key', async () => {
+      job.create.mockRejectedValue(Object.assign(new Error('Unique constraint'), { code: 'P2002' }));
+      job.findUnique.mockResolvedValue({ id: 'job_existing', status: 'completed' });
+
+      const result = await enqueueJob(
+        'gdpr.shop_redact',
+        {},
+        { shop: 'test.myshopify.com', idempotencyKey: 'webhook:abc' }
+      );
+
+      expect(result).toEqual({ id: 'job_existing', status: 'completed', deduplicated: true });
+    });
+  });
+
+  describe('processJobs', () => {
+    it('should mark successful jobs completed', async () => {
+      const handler = vi.fn().mockResolvedValue(undefined);
+      registerJobHandler('catalog.product_delete', handler);
+      queryRaw.mockResolvedValue([claimed()]);
+
+      const result = await processJobs('worker-1');
+
+      expect(result).toEqual({ processed: 1, failed: 0 });
+      expect(handler).toHaveBeenCalledWith(
+        { productId: 'gid://shopify/Product/1' },
+        expect.objectContaining({ id: 'job_1', shop: 'test.myshopify.com' })
+      );
+      expect(job.update).toHaveBeenCalledWith(expect.objectContaining({
+        data: expect.objectContaining({ status: 'completed' }),
+      }));
+    });
+
+    it('should reschedule failed jobs with backoff', async () => {
+      registerJobHandler('catalog.product_delete', vi.fn().mockRejectedValue(new Error('timeout')));
+      queryRaw.mockResolvedValue([claimed({ attempts: 1 })]);
+
+      const result = await processJobs('worker-1');
+
+      expect(result.failed).toBe(1);
+      const data = job.update.mock.calls[0]![0].data;
+      expect(data.status).toBe('pending');
+      expect(data.lastError).toBe('timeout');
+      expect(data.runAt.getTime()).toBeGreaterThan(Date.now());
+    });
+
+    it('should dead-letter jobs that ran out of attempts or have no handler', async () => {
+      registerJobHandler('catalog.product_delete', vi.fn().mockRejectedValue(new Error('boom')));
+      queryRaw.mockResolvedValue([
+        claimed({ attempts: 3 }),
+        claimed({ id: 'job_2', type: 'unknown.type' }),
+      ]);
+
+      await processJobs('worker-1');
+
+      expect(job.update.mock.calls.map(call => call[0].data.status)).toEqual(['dead', 'dead']);
+    });
+
+    it('should clear the payload of GDPR jobs once they completed or went dead', async () => {
+      registerJobHandler('gdpr.customer_redact', vi.fn().mockResolvedValue(undefined));
+      registerJobHandler('catalog.product_delete', vi.fn().mockRejectedValue(new Error('boom')));
+      queryRaw.mockResolvedValue([
+        claimed({ type: 'gdpr.customer_redact', payload: JSON.stringify({ customerId: '42' }) }),
+        claimed({ id: 'job_2', type: 'gdpr.customer_export', attempts: 3, payload: JSON.stringify({ requestId: 'r1' }) }),
+        claimed({ id: 'job_3', attempts: 3 }),
+      ]);
+
+      await processJobs('worker-1');
+
+      const updates = job.update.mock.calls.map(call => call[0].data);
+      expect(updates.map(data => [data.status, data.payload])).toEqual([
+        ['completed', '{}'],
+        ['dead', '{}'],
+        ['dead', undefined],
+      ]);
+    });
+  });
+});
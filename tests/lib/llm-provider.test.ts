@@ -0,0 +1,72 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import {
+  AnthropicProvider,
+  resolveShopLLMConfig,
+  toAnthropicMessages,
+} from '../../app/lib/llm-provider.server';
+import { estimateLLMCost, isValidProviderBaseUrl } from '../../app/lib/llm-providers';
+
+vi.mock('../../app/db.server', () => ({
+  prisma: { byokUsage: { upsert: vi.fn() } },
+}));
+
+describe('LLM Providers', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('should price dated model versions by prefix and local models at zero', () => {
+    expect(estimateLLMCost('gpt-4o-mini-2024-07-18', 1_000_000, 1_000_000)).toBeCloseTo(0.75);
+    expect(estimateLLMCost('gpt-4o', 1_000_000, 0)).toBeCloseTo(2.5);
+    expect(estimateLLMCost('llama3.1', 1_000_000, 1_000_000, 'ollama')).toBe(0);
+  });
+
+  it('should convert tool calls and results to Anthropic content blocks', () => {
+    const { system, messages } = toAnthropicMessages([
+      { role: 'system', content: 'You are a shop assistant.' },
+      { role: 'user', content: 'Where is order #1001?' },
+      { role: 'assistant', content: '', toolCalls: [{ id: 'toolu_1', name: 'lookup_order', arguments: '{"orderNumber":"1001"}' }] },
+      { role: 'tool', toolCallId: 'toolu_1', content: '{"status":"shipped"}' },
+      { role: 'user', content: 'Thanks!' },
+    ]);
+
+    expect(system).toBe('You are a shop assistant.');
+    expect(messages.map(message => message.role)).toEqual(['user', 'assistant', 'user']);
+    expect(messages[1]!.content).toEqual([
+      { type: 'tool_use', id: 'toolu_1', name: 'lookup_order', input: { orderNumber: '1001' } },
+    ]);
+    // The tool result and the next user message share one user turn
+    expect(messages[2]!.content).toEqual([
+      { type: 'tool_result', tool_use_id: 'toolu_1', content: '{"status":"shipped"}' },
+      { type: 'text', text: 'Thanks!' },
+    ]);
+  });
+
+  it('should return Anthropic text, tool calls and usage', async () => {
+    const fetchMock = vi.fn().mockResolvedValue(new Response(JSON.stringify({
+      content: [
+        { type: 'text', text: 'Let me check.' },
+        { type: 'tool_use', id: 'toolu_2', name: 'get_policy', input: { type: 'returns' } },
+      ],
+      usage: { input_tokens: 50, output_tokens: 10 },
+    }), { status: 200 }));
+    vi.stubGlobal('fetch', fetchMock);
+
+    const provider = new AnthropicProvider({ provider: 'anthropic', apiKey: 'sk-ant-test', chatModel: 'claude-3-5-haiku-latest' });
+    const result = await provider.chat({ messages: [{ role: 'user', content: 'Can I return this?' }] });
+
+    expect(fetchMock.mock.calls[0]![1].headers['x-api-key']).toBe('sk-ant-test');
+    expect(result.content).toBe('Let me check.');
+    expect(result.toolCalls).toEqual([{ id: 'toolu_2', name: 'get_policy', arguments: '{"type":"returns"}' }]);
+    expect(result.usage).toEqual({ promptTokens: 50, completionTokens: 10, totalTokens: 60 });
+  });
+
+  it('should require a key and a public endpoint for BYOK shops', () => {
+    expect(resolveShopLLMConfig({ plan: 'BYOK', llmProvider: 'anthropic' }, null)).toBeNull();
+    expect(resolveShopLLMConfig({ plan: 'BYOK', llmProvider: 'anthropic', llmModel: 'claude-3-5-sonnet-latest' }, 'sk-ant-key'))
+      .toMatchObject({ provider: 'anthropic', apiKey: 'sk-ant-key', chatModel: 'claude-3-5-sonnet-latest' });
+    expect(isValidProviderBaseUrl('https://my-resource.openai.azure.com')).toBe(true);
+    expect(isValidProviderBaseUrl('http://localhost:11434/v1')).toBe(false);
+    expect(isValidProviderBaseUrl('https://192.168.1.10/v1')).toBe(false);
+  });
+});
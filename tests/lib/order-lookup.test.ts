@@ -0,0 +1,73 @@
+import { describe, it, expect, vi } from 'vitest';
+
+import { extractOrderReference, lookupOrder } from '../../app/lib/order-lookup.server';
+
+const order = {
+  name: '#1001',
+  email: 'Jane@Example.com',
+  createdAt: '2026-01-10T10:00:00Z',
+  cancelledAt: null,
+  statusPageUrl: 'https://shop.example.com/orders/abc',
+  displayFinancialStatus: 'PAID',
+  displayFulfillmentStatus: 'FULFILLED',
+  customer: { id: 'gid://shopify/Customer/42' },
+  totalPriceSet: { shopMoney: { amount: '59.00', currencyCode: 'EUR' } },
+  lineItems: { edges: [{ node: { title: 'Linen Shirt', quantity: 1, image: null } }] },
+  fulfillments: [{
+    displayStatus: 'IN_TRANSIT',
+    status: 'SUCCESS',
+    estimatedDeliveryAt: null,
+    trackingInfo: [{ company: 'UPS', number: '1Z999', url: 'https://ups.com/track?1Z999' }],
+  }],
+};
+
+function adminReturning(node: unknown) {
+  const graphql = vi.fn().mockResolvedValue({
+    json: async () => ({ data: { orders: { edges: node ? [{ node }] : [] } } }),
+  });
+  return { graphql } as any;
+}
+
+describe('Order Lookup', () => {
+  it('should find the order number and email across messages', () => {
+    expect(extractOrderReference(['Where is my order #1001?', 'It was jane@example.com'])).toEqual({
+      orderNumber: '1001',
+      email: 'jane@example.com',
+    });
+    expect(extractOrderReference(['Ma commande n° 2045 est en retard'])).toEqual({ orderNumber: '2045', email: null });
+    // Digits in the email are not an order number
+    expect(extractOrderReference(['john1234@example.com'])).toEqual({ orderNumber: null, email: 'john1234@example.com' });
+  });
+
+  it('should return the order card only when the email matches', async () => {
+    const admin = adminReturning(order);
+
+    const found = await lookupOrder(admin, 'match.myshopify.com', { orderNumber: '#1001', email: 'jane@example.com' });
+    expect(found).toMatchObject({
+      status: 'found',
+      order: {
+        name: '#1001',
+        shipments: [{ status: 'IN_TRANSIT', tracking: [{ company: 'UPS', number: '1Z999' }] }],
+      },
+    });
+
+    // Someone else's order looks exactly like a missing one
+    const other = await lookupOrder(admin, 'match.myshopify.com', { orderNumber: '1001', email: 'eve@example.com' });
+    const missing = await lookupOrder(adminReturning(null), 'match.myshopify.com', { orderNumber: '1002', email: 'eve@example.com' });
+    expect(other).toEqual({ status: 'not_found' });
+    expect(missing).toEqual(other);
+  });
+
+  it('should ask for verification and rate limit repeated lookups', async () => {
+    const admin = adminReturning(order);
+
+    expect(await lookupOrder(admin, 'limit.myshopify.com', { orderNumber: '1001' })).toEqual({ status: 'needs_verification' });
+    expect(admin.graphql).not.toHaveBeenCalled();
+
+    const results = [];
+    for (let i = 0; i < 6; i++) {
+      results.push(await lookupOrder(admin, 'limit.myshopify.com', { orderNumber: `10${i}0`, email: 'eve@example.com', visitorId: 'ip:1.2.3.4' }));
+    }
+    expect(results.at(-1)).toMatchObject({ status: 'rate_limited' });
+  });
+});
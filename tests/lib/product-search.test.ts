@@ -0,0 +1,88 @@
+import { describe, it, expect } from 'vitest';
+import {
+  extractProductFilters,
+  buildProductSearchQuery,
+  hasProductFilters,
+  relaxProductSearchFilters,
+  rankProductsByOptions,
+} from '../../app/lib/product-search.server';
+
+describe('Product Search', () => {
+  describe('extractProductFilters', () => {
+    it('should extract type, color, terms and price ceiling', () => {
+      const filters = extractProductFilters('blue linen dress under $80');
+
+      expect(filters.productType).toBe('dress');
+      expect(filters.colors).toEqual(['blue']);
+      expect(filters.terms).toEqual(['linen']);
+      expect(filters.maxPrice).toBe(80);
+      expect(filters.minPrice).toBeUndefined();
+    });
+
+    it('should extract price ranges', () => {
+      expect(extractProductFilters('shoes between $20 and $50')).toMatchObject({ minPrice: 20, maxPrice: 50 });
+      expect(extractProductFilters('bags $30-$60')).toMatchObject({ minPrice: 30, maxPrice: 60 });
+      expect(extractProductFilters('montre moins de 100€')).toMatchObject({ maxPrice: 100 });
+    });
+
+    it('should extract availability, sizes and tags', () => {
+      const filters = extractProductFilters('Black hoodies in stock size XL #summer');
+
+      expect(filters.available).toBe(true);
+      expect(filters.sizes).toEqual(['XL']);
+      expect(filters.tags).toEqual(['summer']);
+      expect(filters.colors).toEqual(['black']);
+      expect(filters.productType).toBe('hoodie');
+    });
+
+    it('should detect vendors', () => {
+      expect(extractProductFilters('sneakers by Nike').vendor).toBe('Nike');
+      expect(extractProductFilters('anything from acme?', { knownVendors: ['Acme'] }).vendor).toBe('Acme');
+    });
+
+    it('should prefer the shop\'s own product types', () => {
+      const filters = extractProductFilters('show me your gift boxes', { knownProductTypes: ['Gift Box'] });
+      expect(filters.productType).toBe('Gift Box');
+    });
+
+    it('should return no filters for generic browsing', () => {
+      expect(hasProductFilters(extractProductFilters('show me some products'))).toBe(false);
+    });
+  });
+
+  describe('buildProductSearchQuery', () => {
+    it('should build an Admin search query', () => {
+      const query = buildProductSearchQuery(extractProductFilters('blue linen dress under $80 in stock'));
+
+      expect(query).toBe(
+        'status:active AND (product_type:dress OR title:dress*) AND price:<=80 AND inventory_total:>0 AND linen'
+      );
+    });
+
+    it('should quote values with spaces', () => {
+      const query = buildProductSearchQuery({ terms: [], tags: [], colors: [], sizes: [], vendor: 'Blue Bird' });
+      expect(query).toContain('vendor:"Blue Bird"');
+    });
+  });
+
+  describe('relaxProductSearchFilters', () => {
+    it('should drop terms and vendor but keep structured filters', () => {
+      const relaxed = relaxProductSearchFilters(extractProductFilters('linen dress by Zara under 80'));
+
+      expect(relaxed).toMatchObject({ terms: [], vendor: undefined, productType: 'dress', maxPrice: 80 });
+      expect(relaxProductSearchFilters(relaxed!)).toBeNull();
+    });
+  });
+
+  describe('rankProductsByOptions', () => {
+    it('should move products with matching options first', () => {
+      const products = [
+        { title: 'Dress A', options: [{ name: 'Color', values: ['Red'] }] },
+        { title: 'Dress B', options: [{ name: 'Color', values: ['Blue', 'Green'] }] },
+      ];
+
+      const ranked = rankProductsByOptions(products, extractProductFilters('blue dress'));
+      expect(ranked.map(p => p.title)).toEqual(['Dress B', 'Dress A']);
+    });
+  });
+});
@@ -0,0 +1,38 @@
+import { describe, it, expect } from 'vitest';
+import { createEventStreamResponse, formatSSE, wantsEventStream } from '../../app/lib/sse.server';
+
+describe('Server-Sent Events', () => {
+  it('should detect streaming requests', () => {
+    expect(wantsEventStream(new Request('https://app.test/api', { headers: { Accept: 'text/event-stream' } }))).toBe(true);
+    expect(wantsEventStream(new Request('https://app.test/api?stream=1'))).toBe(true);
+    expect(wantsEventStream(new Request('https://app.test/api', { headers: { Accept: 'application/json' } }))).toBe(false);
+  });
+
+  it('should format frames', () => {
+    expect(formatSSE('token', { text: 'Hi' })).toBe('event: token\ndata: {"text":"Hi"}\n\n');
+  });
+
+  it('should stream frames and close when done', async () => {
+    const response = createEventStreamResponse(new Request('https://app.test/api'), async (send) => {
+      send('token', { text: 'Hel' });
+      send('token', { text: 'lo' });
+      send('final', { message: 'Hello', status: 200 });
+    });
+
+    expect(response.headers.get('Content-Type')).toContain('text/event-stream');
+    const body = await response.text();
+    expect(body.split('\n\n').filter(Boolean)).toEqual([
+      'event: token\ndata: {"text":"Hel"}',
+      'event: token\ndata: {"text":"lo"}',
+      'event: final\ndata: {"message":"Hello","status":200}',
+    ]);
+  });
+
+  it('should send an error frame when the handler fails', async () => {
+    const response = createEventStreamResponse(new Request('https://app.test/api'), async () => {
+      throw new Error('boom');
+    });
+
+    expect(await response.text()).toContain('event: error');
+  });
+});
@@ -0,0 +1,43 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { analyticsService, AnalyticsService } from '../../app/services/analytics.service';
+
+const { db } = vi.hoisted(() => ({
+  db: { $queryRaw: vi.fn() },
+}));
+
+vi.mock('../../app/db.server', () => ({ prisma: db }));
+vi.mock('../../app/lib/analytics-events.server', () => ({ analyticsDay: (date: Date) => date }));
+
+const period = {
+  startDate: new Date('2026-02-01T00:00:00Z'),
+  endDate: new Date('2026-02-07T23:59:59.999Z'),
+  days: 7,
+};
+
+describe('Analytics Service', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('should compare with the period of the same length right before', () => {
+    expect(AnalyticsService.getPreviousPeriod(period)).toEqual({
+      startDate: new Date('2026-01-25T00:00:00.000Z'),
+      endDate: new Date('2026-01-31T23:59:59.999Z'),
+      days: 7,
+    });
+  });
+
+  it('should rate each funnel step against the previous one and the previous period', async () => {
+    db.$queryRaw
+      .mockResolvedValueOnce([{ opened: 200n, messaged: 100n, productShown: 80n, clicked: 20n, addedToCart: 10n, ordered: 4n }])
+      .mockResolvedValueOnce([{ opened: 100n, messaged: 50n, productShown: 40n, clicked: 25n, addedToCart: 0n, ordered: 2n }]);
+
+    const funnel = await analyticsService.getFunnel('test.myshopify.com', period);
+
+    expect(funnel.map(step => step.step)).toEqual(['opened', 'messaged', 'productShown', 'clicked', 'addedToCart', 'ordered']);
+    expect(funnel[0]).toEqual({ step: 'opened', visitors: 200, previousVisitors: 100, stepRate: 100, overallRate: 100, change: 100 });
+    expect(funnel[3]).toEqual({ step: 'clicked', visitors: 20, previousVisitors: 25, stepRate: 25, overallRate: 10, change: -20 });
+    expect(funnel[4]!.change).toBe(0);
+    expect(funnel[5]).toMatchObject({ visitors: 4, stepRate: 40, overallRate: 2 });
+  });
+});
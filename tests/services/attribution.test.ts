@@ -0,0 +1,95 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { attributionService, toAttributableOrder } from '../../app/services/attribution.service.server';
+
+const { db, recordAnalyticsEvent } = vi.hoisted(() => ({
+  db: {
+    chatSession: { findFirst: vi.fn() },
+    widgetSettings: { findUnique: vi.fn() },
+    chatConversion: { create: vi.fn() },
+  },
+  recordAnalyticsEvent: vi.fn(),
+}));
+
+vi.mock('../../app/db.server', () => ({ prisma: db }));
+vi.mock('../../app/lib/analytics-events.server', () => ({ recordAnalyticsEvent }));
+
+const SESSION_ID = 'clx1chatsession00000000001';
+
+const order = toAttributableOrder({
+  id: 1001,
+  admin_graphql_api_id: 'gid://shopify/Order/1001',
+  name: '#1001',
+  created_at: '2026-02-05T12:00:00Z',
+  total_price_set: { shop_money: { amount: '120.00', currency_code: 'EUR' } },
+  note_attributes: [{ name: '_shopibot_chat_session', value: SESSION_ID }],
+  line_items: [
+    { product_id: 11, quantity: 2, price: '40.00', total_discount: '10.00' },
+    { product_id: 22, quantity: 1, price: '50.00' },
+  ],
+});
+
+describe('Attribution Service', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    db.widgetSettings.findUnique.mockResolvedValue({ attributionWindowDays: 7 });
+    db.chatSession.findFirst.mockResolvedValue({
+      id: SESSION_ID,
+      createdAt: new Date('2026-02-03T09:00:00Z'),
+      messages: [{ productsShown: JSON.stringify(['gid://shopify/Product/11']), productClicked: 'gid://shopify/Product/11' }],
+    });
+  });
+
+  it('should read the chat session and line items from the order payload', () => {
+    expect(order).toEqual({
+      orderId: 'gid://shopify/Order/1001',
+      orderName: '#1001',
+      createdAt: '2026-02-05T12:00:00Z',
+      totalPrice: 120,
+      currency: 'EUR',
+      chatSessionId: SESSION_ID,
+      lineItems: [
+        { productId: 'gid://shopify/Product/11', amount: 70 },
+        { productId: 'gid://shopify/Product/22', amount: 50 },
+      ],
+    });
+  });
+
+  it('should attribute orders within the window to the recommended products', async () => {
+    expect(await attributionService.recordOrder('test.myshopify.com', order)).toBe('attributed');
+
+    expect(db.chatConversion.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({
+        chatSessionId: SESSION_ID,
+        totalPrice: 120,
+        influencedRevenue: 70,
+        productIds: JSON.stringify(['gid://shopify/Product/11']),
+        clicked: true,
+      }),
+    });
+    expect(recordAnalyticsEvent).toHaveBeenCalledWith('test.myshopify.com', expect.objectContaining({
+      type: 'conversion',
+      chatSessionId: SESSION_ID,
+      revenue: 120,
+    }));
+  });
+
+  it('should only count orders outside the window towards the baseline', async () => {
+    db.widgetSettings.findUnique.mockResolvedValue({ attributionWindowDays: 1 });
+
+    expect(await attributionService.recordOrder('test.myshopify.com', order)).toBe('unattributed');
+
+    expect(db.chatConversion.create).not.toHaveBeenCalled();
+    expect(recordAnalyticsEvent).toHaveBeenCalledTimes(1);
+    expect(recordAnalyticsEvent).toHaveBeenCalledWith('test.myshopify.com', expect.objectContaining({
+      type: 'order',
+      revenue: 120,
+    }));
+  });
+
+  it('should not count a redelivered order twice', async () => {
+    db.chatConversion.create.mockRejectedValueOnce(Object.assign(new Error('Unique constraint'), { code: 'P2002' }));
+
+    expect(await attributionService.recordOrder('test.myshopify.com', order)).toBe('duplicate');
+    expect(recordAnalyticsEvent).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,180 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+import {
+  ChatEngineService,
+  META_DELIMITER,
+  buildChatMessages,
+  createReplyStreamer,
+  parseEngineOutput,
+} from '../../app/services/chat-engine.service.server';
+import type { N8NRequest } from '../../app/services/n8n.service.server';
+import type { LLMProvider } from '../../app/lib/llm-provider.server';
+
+const chat = vi.fn();
+const provider: LLMProvider = {
+  name: 'openai',
+  chatModel: 'gpt-4o-mini',
+  embeddingModel: null,
+  chat,
+  embed: vi.fn(),
+};
+const usage = { promptTokens: 100, completionTokens: 20, totalTokens: 120 };
+
+const request: N8NRequest = {
+  userMessage: 'Do you have running shoes?',
+  products: [
+    { id: 'gid://shopify/Product/1', title: 'Trail Runner', handle: 'trail-runner', price: '89.00', inventory: 4 },
+    { id: 'gid://shopify/Product/2', title: 'Road Racer', handle: 'road-racer', price: '120.00', inventory: 0 },
+  ],
+  context: {
+    shopDomain: 'test.myshopify.com',
+    languageInstruction: 'Respond in French.',
+    conversationHistory: [
+      { role: 'user', content: 'Hello' },
+      { role: 'assistant', content: 'Hi! How can I help?' },
+    ],
+  },
+};
+
+describe('Chat Engine', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('should build the prompt from products, history and language instruction', () => {
+    const messages = buildChatMessages(request);
+
+    expect(messages.map(m => m.role)).toEqual(['system', 'user', 'assistant', 'user']);
+    const system = messages[0]!.content as string;
+    expect(system).toContain('Respond in French.');
+    expect(system).toContain('Trail Runner');
+    expect(system).toContain(META_DELIMITER);
+    expect(messages[3]!.content).toBe('Do you have running shoes?');
+  });
+
+  it('should give the model the store answers to similar questions', () => {
+    const messages = buildChatMessages({
+      ...request,
+      context: {
+        ...request.context,
+        customFaqs: [{ id: 'faq1', question: 'Do you ship to Canada?', answer: 'Yes, in 5-7 business days.', similarity: 0.91 }],
+      },
+    });
+
+    expect(messages[0]!.content).toContain('Q: Do you ship to Canada?\nA: Yes, in 5-7 business days.');
+  });
+
+  it('should cite the FAQ entries and knowledge base documents the model used', () => {
+    const withKnowledge: N8NRequest = {
+      ...request,
+      context: {
+        ...request.context,
+        customFaqs: [{ id: 'faq1', question: 'Do you ship to Canada?', answer: 'Yes.', similarity: 0.8 }],
+        knowledge: [
+          { documentId: 'd1', type: 'page', title: 'Shipping', url: 'https://test.myshopify.com/pages/shipping', content: 'Canada: 5-7 days.', similarity: 0.7 },
+          { documentId: 'd1', type: 'page', title: 'Shipping', url: 'https://test.myshopify.com/pages/shipping', content: 'Duties are included.', similarity: 0.6 },
+          { documentId: 'd2', type: 'text', title: 'Care guide', content: 'Hand wash only.', similarity: 0.5 },
+        ],
+      },
+    };
+
+    const system = buildChatMessages(withKnowledge)[0]!.content as string;
+    expect(system).toContain('[2] From "Shipping": Canada: 5-7 days.');
+    expect(system).toContain('"sources"');
+
+    const output = `Yes, in 5-7 days with duties included.\n${META_DELIMITER}\n{"recommendedProductIds": [], "sources": [2, 3, 9]}`;
+    const response = parseEngineOutput(output, withKnowledge);
+
+    expect(response.citations).toEqual([
+      { type: 'page', title: 'Shipping', url: 'https://test.myshopify.com/pages/shipping' },
+    ]);
+    expect(parseEngineOutput('Hello!', request).citations).toBeUndefined();
+  });
+
+  it('should map recommended IDs to request products and ignore unknown ones', () => {
+    const output = `Try the Trail Runner!\n${META_DELIMITER}\n{"recommendedProductIds": ["gid://shopify/Product/1", "gid://shopify/Product/99"], "quickReplies": ["Sizes?"], "requiresHumanEscalation": false}`;
+
+    const response = parseEngineOutput(output, request);
+
+    expect(response.message).toBe('Try the Trail Runner!');
+    expect(response.recommendations).toHaveLength(1);
+    expect(response.recommendations![0]).toMatchObject({
+      id: 'gid://shopify/Product/1',
+      url: 'https://test.myshopify.com/products/trail-runner',
+      isAvailable: true,
+    });
+    expect(response.quickReplies).toEqual(['Sizes?']);
+    expect(response.messageType).toBe('product_recommendation');
+  });
+
+  it('should never stream the metadata, even when the delimiter is split across chunks', () => {
+    const tokens: string[] = [];
+    const streamer = createReplyStreamer(token => tokens.push(token));
+
+    for (const chunk of ['Here you', ' go!\n<<<ME', 'TA>>>\n{"quickReplies": []}']) {
+      streamer.push(chunk);
+    }
+    const text = streamer.end();
+
+    expect(tokens.join('')).toBe('Here you go!\n');
+    expect(text).toContain(META_DELIMITER);
+  });
+
+  it('should run tool calls and recommend products found by tools', async () => {
+    const graphql = vi.fn().mockResolvedValue({
+      json: async () => ({
+        data: {
+          products: {
+            edges: [{
+              node: {
+                id: 'gid://shopify/Product/7',
+                title: 'Linen Shirt',
+                handle: 'linen-shirt',
+                totalInventory: 3,
+                variants: { edges: [{ node: { price: '45.00', compareAtPrice: null } }] },
+              },
+            }],
+          },
+        },
+      }),
+    });
+    chat
+      .mockResolvedValueOnce({
+        content: '',
+        toolCalls: [{ id: 'call_1', name: 'search_products', arguments: '{"query":"linen shirt"}' }],
+        usage,
+        model: 'gpt-4o-mini',
+      })
+      .mockResolvedValueOnce({
+        content: `The Linen Shirt is perfect for summer.\n${META_DELIMITER}\n{"recommendedProductIds": ["gid://shopify/Product/7"]}`,
+        toolCalls: [],
+        usage,
+        model: 'gpt-4o-mini',
+      });
+
+    const engine = new ChatEngineService(provider, {
+      tools: { shop: 'test.myshopify.com', admin: { graphql } as any },
+    });
+    const response = await engine.processUserMessage({ ...request, products: [] });
+
+    expect(chat).toHaveBeenCalledTimes(2);
+    expect(chat.mock.calls[0]![0].tools).toHaveLength(6);
+    expect(chat.mock.calls[1]![0].messages.at(-1)).toMatchObject({ role: 'tool', toolCallId: 'call_1' });
+    expect(response.recommendations!.map(r => r.title)).toEqual(['Linen Shirt']);
+    expect(response.toolCalls).toEqual([
+      expect.objectContaining({ name: 'search_products', success: true, arguments: { query: 'linen shirt' } }),
+    ]);
+    expect(response.usage).toMatchObject({ totalTokens: 240, model: 'gpt-4o-mini', provider: 'openai' });
+  });
+
+  it('should use the fallback responder when the provider fails', async () => {
+    chat.mockRejectedValue(new Error('401 Incorrect API key'));
+    const fallback = { processUserMessage: vi.fn().mockResolvedValue({ message: 'Fallback reply' }) };
+
+    const engine = new ChatEngineService(provider, { fallback });
+    const response = await engine.processUserMessage(request);
+
+    expect(response.message).toBe('Fallback reply');
+    expect(fallback.processUserMessage).toHaveBeenCalledWith(request);
+  });
+});
@@ -0,0 +1,138 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { CUSTOMERS } from '../../app/config/limits';
+import {
+  customerIdentityService,
+  signCustomerToken,
+  verifyCustomerToken,
+} from '../../app/services/customer-identity.service.server';
+
+const { db } = vi.hoisted(() => ({
+  db: {
+    userProfile: { findUnique: vi.fn(), findMany: vi.fn(), update: vi.fn(), upsert: vi.fn(), deleteMany: vi.fn() },
+    chatSession: { updateMany: vi.fn() },
+    widgetSettings: { findUnique: vi.fn() },
+    $transaction: vi.fn((operations: Promise<unknown>[]) => Promise.all(operations)),
+  },
+}));
+
+vi.mock('../../app/db.server', () => ({ prisma: db }));
+vi.mock('../../app/lib/shop-keys.server', () => ({
+  decryptShopSecret: vi.fn(async (_shop: string, encrypted: string) => encrypted.replace('enc:', '')),
+  encryptShopSecret: vi.fn(async (_shop: string, plaintext: string) => `enc:${plaintext}`),
+}));
+
+const SHOP = 'test.myshopify.com';
+const SECRET = 'a'.repeat(64);
+const NOW = new Date('2026-03-01T12:00:00Z');
+
+function token(customerId: string, issuedAt: number, shop = SHOP) {
+  return `${customerId}.${issuedAt}.${signCustomerToken(SECRET, shop, customerId, issuedAt)}`;
+}
+
+function profile(id: string, fields: Record<string, unknown> = {}) {
+  return {
+    id, customerId: null, sessionId: `session_${id}`,
+    preferences: '{}', browsingHistory: '[]', purchaseHistory: '[]', interactions: '[]',
+    ...fields,
+  };
+}
+
+describe('Customer Identity Service', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    db.userProfile.update.mockImplementation(({ where, data }) => Promise.resolve({ id: where.id, ...data }));
+    db.chatSession.updateMany.mockResolvedValue({ count: 3 });
+    db.userProfile.deleteMany.mockResolvedValue({ count: 2 });
+  });
+
+  it('should only accept recent tokens signed for the shop', () => {
+    const issuedAt = Math.floor(NOW.getTime() / 1000) - 60;
+
+    expect(verifyCustomerToken(SECRET, SHOP, token('7001', issuedAt), NOW)).toBe('7001');
+    expect(verifyCustomerToken(SECRET, 'other.myshopify.com', token('7001', issuedAt), NOW)).toBeNull();
+    expect(verifyCustomerToken('b'.repeat(64), SHOP, token('7001', issuedAt), NOW)).toBeNull();
+    expect(verifyCustomerToken(SECRET, SHOP, token('7001', issuedAt).replace('7001.', '7002.'), NOW)).toBeNull();
+    expect(verifyCustomerToken(SECRET, SHOP, token('7001', issuedAt - CUSTOMERS.TOKEN_MAX_AGE_HOURS * 3600), NOW)).toBeNull();
+    expect(verifyCustomerToken(SECRET, SHOP, '7001', NOW)).toBeNull();
+    expect(verifyCustomerToken(SECRET, SHOP, null, NOW)).toBeNull();
+  });
+
+  it('should merge the customer\'s other profiles into the visitor\'s profile', async () => {
+    db.userProfile.findUnique.mockResolvedValue(profile('device', {
+      sessionId: 'session_device',
+      preferences: JSON.stringify({ styles: ['casual'] }),
+      browsingHistory: '["p3"]',
+      interactions: JSON.stringify([{ type: 'message', timestamp: 300 }]),
+    }));
+    db.userProfile.findMany.mockResolvedValue([
+      profile('laptop', {
+        customerId: '7001',
+        preferences: JSON.stringify({ styles: ['casual', 'vintage'], priceRange: { min: 0, max: 50 } }),
+        browsingHistory: '["p1","p3"]',
+        purchaseHistory: '[{"orderId":"1"}]',
+        interactions: JSON.stringify([{ type: 'click', timestamp: 100 }]),
+      }),
+      profile('phone', { customerId: '7001', browsingHistory: '["p2"]', purchaseHistory: '[{"orderId":"1"}]' }),
+    ]);
+
+    const result = await customerIdentityService.identify(SHOP, 'session_device', '7001');
+
+    expect(db.userProfile.findMany.mock.calls[0]![0].where).toEqual({
+      shop: SHOP, customerId: '7001', sessionId: { not: 'session_device' },
+    });
+    const { where, data } = db.userProfile.update.mock.calls[0]![0];
+    expect(where).toEqual({ id: 'device' });
+    expect(data.customerId).toBe('7001');
+    expect(JSON.parse(data.preferences)).toEqual({ styles: ['casual', 'vintage'], priceRange: { min: 0, max: 50 } });
+    expect(JSON.parse(data.browsingHistory)).toEqual(['p3', 'p1', 'p2']);
+    expect(JSON.parse(data.purchaseHistory)).toEqual([{ orderId: '1' }]);
+    expect(JSON.parse(data.interactions).map((item: { timestamp: number }) => item.timestamp)).toEqual([100, 300]);
+    expect(db.chatSession.updateMany).toHaveBeenCalledWith({
+      where: { userProfileId: { in: ['laptop', 'phone'] } },
+      data: { userProfileId: 'device' },
+    });
+    expect(db.userProfile.deleteMany).toHaveBeenCalledWith({ where: { id: { in: ['laptop', 'phone'] } } });
+    expect(result).toEqual({ userProfileId: 'device', mergedProfiles: 2, movedChatSessions: 3 });
+  });
+
+  it('should set aside another customer\'s profile on a shared device instead of merging it', async () => {
+    db.userProfile.findUnique.mockResolvedValue(profile('shared', { customerId: '5005', sessionId: 'session_shared' }));
+    db.userProfile.findMany.mockResolvedValue([]);
+    db.userProfile.upsert.mockResolvedValue(profile('fresh', { customerId: '7001', sessionId: 'session_shared' }));
+
+    const result = await customerIdentityService.identify(SHOP, 'session_shared', '7001');
+
+    expect(db.userProfile.update).toHaveBeenCalledTimes(1);
+    expect(db.userProfile.update).toHaveBeenCalledWith({
+      where: { id: 'shared' },
+      data: { sessionId: 'customer_5005_shared' },
+    });
+    expect(db.userProfile.upsert).toHaveBeenCalledWith(expect.objectContaining({
+      where: { shop_sessionId: { shop: SHOP, sessionId: 'session_shared' } },
+      create: { shop: SHOP, sessionId: 'session_shared', customerId: '7001' },
+    }));
+    expect(db.chatSession.updateMany).not.toHaveBeenCalled();
+    expect(result).toEqual({ userProfileId: 'fresh', mergedProfiles: 0, movedChatSessions: 0 });
+  });
+
+  it('should write the metafield again when an earlier write failed', async () => {
+    db.widgetSettings.findUnique.mockResolvedValue({ customerTokenSecret: `enc:${SECRET}` });
+    const graphqlResponse = (body: unknown) => Promise.resolve(new Response(JSON.stringify(body)));
+    const installation = { data: { currentAppInstallation: { id: 'gid://shopify/AppInstallation/1' } } };
+    const graphql = vi.fn()
+      .mockImplementationOnce(() => graphqlResponse(installation))
+      .mockImplementationOnce(() => graphqlResponse({ data: { metafieldsSet: { userErrors: [{ message: 'Throttled' }] } } }))
+      .mockImplementation((query: string) => graphqlResponse(
+        query.includes('metafieldsSet') ? { data: { metafieldsSet: { userErrors: [] } } } : installation
+      ));
+    const admin = { graphql } as any;
+
+    await expect(customerIdentityService.ensureSecret('retry.myshopify.com', admin)).rejects.toThrow('Throttled');
+    await customerIdentityService.ensureSecret('retry.myshopify.com', admin);
+    await customerIdentityService.ensureSecret('retry.myshopify.com', admin);
+
+    const writes = graphql.mock.calls.filter(([query]) => query.includes('metafieldsSet'));
+    expect(writes).toHaveLength(2);
+    expect(writes[1]![1].variables.metafields[0]).toMatchObject({ namespace: 'shopibot', key: 'customer_token_secret', value: SECRET });
+  });
+});
@@ -0,0 +1,126 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import JSZip from 'jszip';
+import {
+  createDownloadUrl,
+  dataExportService,
+  toCsv,
+  verifyDownloadUrl,
+} from '../../app/services/data-export.service.server';
+
+const { db, enqueueJob } = vi.hoisted(() => ({
+  db: {
+    userProfile: { findMany: vi.fn() },
+    chatSession: { findMany: vi.fn() },
+    chatMessage: { findMany: vi.fn() },
+    conversation: { findMany: vi.fn() },
+    analyticsEvent: { findMany: vi.fn() },
+    dataExportRequest: { findFirst: vi.fn(), update: vi.fn() },
+  },
+  enqueueJob: vi.fn(),
+}));
+
+vi.mock('../../app/db.server', () => ({ prisma: db }));
+vi.mock('../../app/lib/job-queue.server', () => ({ enqueueJob }));
+
+const SHOP = 'test.myshopify.com';
+const CREATED = new Date('2026-02-01T10:00:00Z');
+
+describe('Data Export Service', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    process.env.SHOPIFY_API_SECRET = 'test-secret';
+    process.env.SHOPIFY_APP_URL = 'https://app.example.com';
+  });
+
+  it('should match profiles by customer id and email and store a versioned archive', async () => {
+    db.dataExportRequest.findFirst.mockResolvedValue({
+      id: 'req1', shop: SHOP, status: 'pending', customerId: '42', customerEmail: 'jane@example.com', createdAt: CREATED,
+    });
+    db.chatMessage.findMany.mockResolvedValue([{ content: 'Reach me at Jane@example.com.', session: { userProfileId: 'p2' } }]);
+    db.conversation.findMany
+      .mockResolvedValueOnce([{ sessionId: 'visitor-3', message: 'Hi', response: 'We emailed jane@example.com' }])
+      .mockResolvedValueOnce([{ id: 'c1', sessionId: 'visitor-3', message: 'I am jane@example.com', response: 'Thanks', timestamp: CREATED }]);
+    db.userProfile.findMany.mockResolvedValue([
+      { id: 'p1', customerId: '42', sessionId: 'visitor-1', preferences: '{}', browsingHistory: '["gid://shopify/Product/1"]', purchaseHistory: '[]', interactions: '[]', createdAt: CREATED, updatedAt: CREATED },
+      { id: 'p2', customerId: null, sessionId: 'visitor-2', preferences: '{}', browsingHistory: '[]', purchaseHistory: '[]', interactions: '[]', createdAt: CREATED, updatedAt: CREATED },
+    ]);
+    db.chatSession.findMany.mockResolvedValue([{
+      id: 's1', userProfileId: 'p2', status: 'bot', context: '{}', lastMessageAt: CREATED, createdAt: CREATED,
+      rating: 5, ratingComment: 'Great, "fast" help', ratedAt: CREATED,
+      messages: [{ id: 'm1', role: 'user', content: 'Email me at jane@example.com', intent: null, sentiment: null, confidence: null, productsShown: '[]', productClicked: null, metadata: '{}', timestamp: CREATED }],
+      conversions: [{ orderId: 'gid://shopify/Order/9', orderName: '#1009', totalPrice: 25, currency: 'EUR', productIds: '[]', orderCreatedAt: CREATED }],
+    }]);
+    db.analyticsEvent.findMany.mockResolvedValue([
+      { type: 'click', productId: 'gid://shopify/Product/1', productTitle: 'Mug', chatSessionId: 's1', visitorId: 'visitor-2', occurredAt: CREATED },
+    ]);
+
+    const counts = await dataExportService.runExport(SHOP, 'req1');
+
+    expect(db.userProfile.findMany.mock.calls[0]![0].where).toEqual({
+      shop: SHOP,
+      OR: [{ customerId: '42' }, { id: { in: ['p2'] } }, { sessionId: { in: ['visitor-3'] } }],
+    });
+    expect(db.conversation.findMany.mock.calls[1]![0].where).toEqual({
+      shop: SHOP,
+      sessionId: { in: ['visitor-1', 'visitor-2', 'visitor-3'] },
+    });
+    expect(counts).toEqual({ profiles: 2, chatSessions: 1, chatMessages: 1, ratings: 1, clicks: 1, conversations: 1, orders: 1 });
+
+    const { data } = db.dataExportRequest.update.mock.calls[0]![0];
+    expect(data).toMatchObject({ status: 'ready', archiveVersion: 1 });
+    expect(enqueueJob).toHaveBeenCalledWith('gdpr.export_expire', { requestId: 'req1' }, expect.objectContaining({ runAt: data.expiresAt }));
+
+    const zip = await JSZip.loadAsync(data.archive);
+    expect(Object.keys(zip.files).sort()).toEqual([
+      'chat_messages.csv', 'chat_sessions.csv', 'clicks.csv', 'conversations.csv', 'data.json', 'orders.csv', 'profiles.csv', 'ratings.csv',
+    ]);
+    const json = JSON.parse(await zip.file('data.json')!.async('string'));
+    expect(json).toMatchObject({ format_version: 1, shop_domain: SHOP, request: { id: 'req1', customer_id: '42' } });
+    expect(await zip.file('ratings.csv')!.async('string')).toBe(
+      'session_id,rating,comment,rated_at\r\ns1,5,"Great, ""fast"" help",2026-02-01T10:00:00.000Z\r\n'
+    );
+  });
+
+  it('should not export data of customers whose email only contains the address', async () => {
+    db.chatMessage.findMany.mockResolvedValue([
+      { content: 'I am jimbob@x.com', session: { userProfileId: 'p1' } },
+      { content: 'Write to bob@x.com.au', session: { userProfileId: 'p2' } },
+      { content: 'My email: BOB@x.com, thanks', session: { userProfileId: 'p3' } },
+    ]);
+    db.conversation.findMany.mockResolvedValue([
+      { sessionId: 'visitor-1', message: 'bob@x.community', response: null },
+    ]);
+    db.userProfile.findMany.mockResolvedValue([]);
+
+    await dataExportService.collect(SHOP, { customerEmail: 'bob@x.com' });
+
+    expect(db.userProfile.findMany.mock.calls[0]![0].where).toEqual({
+      shop: SHOP,
+      OR: [{ id: { in: ['p3'] } }, { sessionId: { in: [] } }],
+    });
+  });
+
+  it('should only accept download links with a valid signature before they expire', () => {
+    const now = new Date('2026-02-10T00:00:00Z');
+    const url = new URL(createDownloadUrl('req1', new Date(now.getTime() + 60 * 60 * 1000)));
+    const expires = url.searchParams.get('expires');
+    const signature = url.searchParams.get('signature');
+
+    expect(url.origin + url.pathname).toBe('https://app.example.com/data-exports/req1');
+    expect(verifyDownloadUrl('req1', expires, signature, now)).toBe(true);
+    expect(verifyDownloadUrl('req2', expires, signature, now)).toBe(false);
+    expect(verifyDownloadUrl('req1', String(Number(expires) + 3600), signature, now)).toBe(false);
+    expect(verifyDownloadUrl('req1', expires, signature, new Date(now.getTime() + 2 * 60 * 60 * 1000))).toBe(false);
+    expect(verifyDownloadUrl('req1', expires, null, now)).toBe(false);
+  });
+
+  it('should write CSV cells that spreadsheets will not run as formulas', () => {
+    const csv = toCsv(
+      [{ content: '=HYPERLINK("http://evil")', products: ['a', 'b'], note: null, lines: 'one\ntwo' }],
+      ['content', 'products', 'note', 'lines']
+    );
+
+    expect(csv).toBe('content,products,note,lines\r\n"\'=HYPERLINK(""http://evil"")","[""a"",""b""]",,"one\ntwo"\r\n');
+    expect(toCsv([{ a: '\t=1+2', b: '\r=cmd' }], ['a', 'b'])).toBe('a,b\r\n\'\t=1+2,"\'\r=cmd"\r\n');
+  });
+});
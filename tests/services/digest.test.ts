@@ -0,0 +1,59 @@
+import { describe, it, expect, vi } from 'vitest';
+import { nextDigestAt, getDigestPeriod, renderDigest } from '../../app/services/digest.service.server';
+
+vi.mock('../../app/db.server', () => ({ prisma: {} }));
+vi.mock('../../app/lib/job-queue.server', () => ({ enqueueJob: vi.fn() }));
+vi.mock('../../app/services/analytics.service', () => ({ analyticsService: {} }));
+
+describe('Digest Service', () => {
+  it('should schedule weekly digests on the next Monday and monthly ones on the 1st', () => {
+    // Wednesday
+    const now = new Date('2026-02-11T12:00:00Z');
+
+    expect(nextDigestAt('weekly', now)).toEqual(new Date('2026-02-16T08:00:00Z'));
+    expect(nextDigestAt('monthly', now)).toEqual(new Date('2026-03-01T08:00:00Z'));
+    // Monday before and after the hour
+    expect(nextDigestAt('weekly', new Date('2026-02-16T07:00:00Z'))).toEqual(new Date('2026-02-16T08:00:00Z'));
+    expect(nextDigestAt('weekly', new Date('2026-02-16T08:00:00Z'))).toEqual(new Date('2026-02-23T08:00:00Z'));
+  });
+
+  it('should cover the previous week or month', () => {
+    const sentAt = new Date('2026-03-02T08:00:00Z');
+
+    expect(getDigestPeriod('weekly', sentAt)).toEqual({
+      startDate: new Date('2026-02-23T00:00:00Z'),
+      endDate: new Date('2026-03-01T23:59:59.999Z'),
+      days: 7,
+    });
+    expect(getDigestPeriod('monthly', sentAt)).toEqual({
+      startDate: new Date('2026-02-01T00:00:00Z'),
+      endDate: new Date('2026-02-28T23:59:59.999Z'),
+      days: 28,
+    });
+  });
+
+  it('should escape questions in the HTML body', () => {
+    const { subject, text, html } = renderDigest({
+      shop: 'test.myshopify.com',
+      frequency: 'weekly',
+      period: getDigestPeriod('weekly', new Date('2026-03-02T08:00:00Z')),
+      overview: {
+        totalSessions: 12,
+        totalMessages: 40,
+        avgResponseTime: 1500,
+        avgConfidence: 82,
+        sentimentBreakdown: { positive: 5, neutral: 6, negative: 1 },
+        periodComparison: { sessionsChange: 20, messagesChange: 0, confidenceChange: -2.5 },
+      } as any,
+      questions: [
+        { question: 'Do you ship <script>alert(1)</script>?', reason: 'fallback', confidence: null, askedAt: new Date(), chatSessionId: 's1' },
+      ],
+    });
+
+    expect(subject).toBe('Your weekly assistant digest for test.myshopify.com (2026-02-23 – 2026-03-01)');
+    expect(text).toContain('Conversations: 12 (+20.0%)');
+    expect(text).toContain('- Do you ship <script>alert(1)</script>? (no AI answer)');
+    expect(html).toContain('Do you ship &lt;script&gt;alert(1)&lt;/script&gt;?');
+    expect(html).not.toContain('<script>');
+  });
+});
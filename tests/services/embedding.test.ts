@@ -0,0 +1,100 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { EmbeddingService } from '../../app/services/embedding.service';
+
+const { db, embed, enqueueJobSafe } = vi.hoisted(() => ({
+  db: { $queryRaw: vi.fn(), productEmbedding: { findMany: vi.fn() } },
+  embed: vi.fn(),
+  enqueueJobSafe: vi.fn(),
+}));
+
+vi.mock('../../app/db.server', () => ({ prisma: db }));
+vi.mock('../../app/lib/job-queue.server', () => ({ enqueueJobSafe }));
+vi.mock('../../app/lib/llm-provider.server', () => ({
+  getEmbeddingProvider: () => ({ name: 'openai', embeddingModel: 'text-embedding-3-small', embed }),
+  isEmbeddingProviderConfigured: () => true,
+}));
+
+const SHOP = 'test.myshopify.com';
+// Catalog of 500 products; product-N is closer to the query the smaller N is
+const catalog = Array.from({ length: 500 }, (_, index) => ({
+  productId: `product-${index}`,
+  productHandle: `handle-${index}`,
+  title: `Product ${index}`,
+  similarity: 1 - index / 1000,
+}));
+// Rows the HNSW index visits before filtering (hnsw.ef_search)
+const EF_SEARCH = 40;
+
+/**
+ * Stand-in for Postgres: queries ordered through the HNSW index only see its first EF_SEARCH
+ * rows before the WHERE clause filters them; the candidates CTE is ranked exactly
+ */
+function fakeQuery(strings: TemplateStringsArray, ...values: unknown[]) {
+  const lists = values.filter(Array.isArray) as string[][];
+  const topK = values[values.length - 1] as number;
+
+  if (strings.join('?').includes('MATERIALIZED')) {
+    const [productIds, excludeIds] = lists;
+    return Promise.resolve(catalog
+      .filter(row => productIds!.includes(row.productId) && !excludeIds!.includes(row.productId))
+      .slice(0, topK));
+  }
+
+  const [excludeIds] = lists;
+  return Promise.resolve(catalog
+    .slice(0, EF_SEARCH)
+    .filter(row => !excludeIds!.includes(row.productId))
+    .slice(0, topK));
+}
+
+describe('EmbeddingService', () => {
+  let service: EmbeddingService;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    db.$queryRaw.mockImplementation(fakeQuery);
+    service = new EmbeddingService();
+  });
+
+  describe('findNearest', () => {
+    it('should return topK results for a small candidate set outside the index\'s first rows', async () => {
+      const productIds = ['product-120', 'product-300', 'product-450', 'product-499'];
+
+      const nearest = await service.findNearest(SHOP, [0.1, 0.2], 3, { productIds });
+
+      expect(nearest.map(row => row.productId)).toEqual(['product-120', 'product-300', 'product-450']);
+    });
+
+    it('should use the index without a candidate set', async () => {
+      const nearest = await service.findNearest(SHOP, [0.1, 0.2], 2, { excludeProductIds: ['product-0'] });
+
+      expect(nearest.map(row => row.productId)).toEqual(['product-1', 'product-2']);
+      expect(db.$queryRaw.mock.calls[0]![0].join('?')).not.toContain('MATERIALIZED');
+    });
+  });
+
+  describe('semanticSearch', () => {
+    it('should queue missing embeddings instead of generating them during the search', async () => {
+      const products = [
+        { id: 'p1', title: 'Linen shirt', handle: 'linen-shirt' },
+        { id: 'p2', title: 'Wool coat', handle: 'wool-coat' },
+      ];
+      embed.mockResolvedValue({ embeddings: [[1, 0]] });
+      // No pgvector column: ranked in memory
+      db.$queryRaw.mockResolvedValue([{ exists: false }]);
+      db.productEmbedding.findMany.mockImplementation(({ select }: any) => Promise.resolve(
+        select.embedding ? [{ productId: 'p1', embedding: '[1,0]' }] : [{ productId: 'p1' }]
+      ));
+
+      const results = await service.semanticSearch(SHOP, 'shirt', products);
+
+      expect(embed).toHaveBeenCalledTimes(1);
+      expect(enqueueJobSafe).toHaveBeenCalledWith(
+        'embeddings.generate',
+        { products: [products[1]] },
+        expect.objectContaining({ shop: SHOP, idempotencyKey: expect.stringMatching(/^embeddings\.generate:test\.myshopify\.com:/) })
+      );
+      expect(results.map(result => result.productId)).toEqual(['p1']);
+    });
+  });
+});
@@ -0,0 +1,73 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { handoffService } from '../../app/services/handoff.service.server';
+
+const { db } = vi.hoisted(() => ({
+  db: {
+    chatSession: {
+      updateMany: vi.fn(),
+      findFirst: vi.fn(),
+      update: vi.fn(),
+    },
+    chatMessage: {
+      create: vi.fn(),
+      findMany: vi.fn(),
+    },
+    $transaction: vi.fn(),
+  },
+}));
+
+vi.mock('../../app/db.server', () => ({ prisma: db }));
+vi.mock('../../app/lib/analytics-events.server', () => ({ recordAnalyticsEvent: vi.fn().mockResolvedValue(undefined) }));
+
+describe('Handoff Service', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    db.$transaction.mockImplementation(async (operations: unknown[]) => Promise.all(operations));
+  });
+
+  it('should move a bot conversation to waiting and leave agent conversations alone', async () => {
+    db.chatSession.updateMany.mockResolvedValueOnce({ count: 1 });
+    expect(await handoffService.requestHandoff('test.myshopify.com', 'cs_1')).toBe('waiting');
+    expect(db.chatSession.updateMany).toHaveBeenCalledWith(expect.objectContaining({
+      where: { id: 'cs_1', shop: 'test.myshopify.com', status: { in: ['bot', 'closed'] } },
+    }));
+
+    db.chatSession.updateMany.mockResolvedValueOnce({ count: 0 });
+    db.chatSession.findFirst.mockResolvedValueOnce({ status: 'agent' });
+    expect(await handoffService.requestHandoff('test.myshopify.com', 'cs_1')).toBe('agent');
+
+    // Another shop's session is never found
+    db.chatSession.updateMany.mockResolvedValueOnce({ count: 0 });
+    db.chatSession.findFirst.mockResolvedValueOnce(null);
+    expect(await handoffService.requestHandoff('other.myshopify.com', 'cs_1')).toBeNull();
+  });
+
+  it('should store agent replies and claim the conversation', async () => {
+    db.chatSession.findFirst.mockResolvedValue({ id: 'cs_1' });
+    db.chatMessage.create.mockResolvedValue({ id: 'msg_1' });
+
+    await handoffService.sendAgentMessage('test.myshopify.com', 'cs_1', '  Your parcel left today.  ');
+
+    expect(db.chatMessage.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({ sessionId: 'cs_1', role: 'agent', content: 'Your parcel left today.' }),
+    });
+    expect(db.chatSession.update).toHaveBeenCalledWith(expect.objectContaining({
+      data: expect.objectContaining({ status: 'agent' }),
+    }));
+
+    await expect(handoffService.sendAgentMessage('test.myshopify.com', 'cs_1', '   ')).rejects.toThrow('empty');
+  });
+
+  it('should return only agent replies after the given time', async () => {
+    const since = new Date('2026-02-01T10:00:00Z');
+    db.chatSession.findFirst.mockResolvedValue({ status: 'agent' });
+    db.chatMessage.findMany.mockResolvedValue([{ id: 'msg_2', content: 'Hi!', timestamp: new Date('2026-02-01T10:01:00Z') }]);
+
+    const updates = await handoffService.getUpdates('test.myshopify.com', 'cs_1', since);
+
+    expect(updates).toEqual({ status: 'agent', messages: [expect.objectContaining({ id: 'msg_2' })] });
+    expect(db.chatMessage.findMany).toHaveBeenCalledWith(expect.objectContaining({
+      where: { sessionId: 'cs_1', role: 'agent', timestamp: { gt: since } },
+    }));
+  });
+});
@@ -0,0 +1,160 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import {
+  IntentClassifierService,
+  assertSafePattern,
+  compileRulePattern,
+} from '../../app/services/intent-classifier.service';
+import { normalizeIntent, isSupportIntent, isProductIntent } from '../../app/lib/intents';
+
+const { findMany } = vi.hoisted(() => ({ findMany: vi.fn() }));
+
+vi.mock('../../app/db.server', () => ({
+  prisma: {
+    intentRule: {
+      findMany,
+      create: vi.fn(),
+      updateMany: vi.fn(),
+      deleteMany: vi.fn(),
+    },
+  },
+}));
+
+describe('IntentClassifierService', () => {
+  let classifier: IntentClassifierService;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    findMany.mockResolvedValue([]);
+    classifier = new IntentClassifierService();
+  });
+
+  describe('built-in rules', () => {
+    it('should classify support intents before product intents', async () => {
+      const intent = await classifier.classify('Where is my order? I want to track it');
+      expect(intent.type).toBe('TRACK_ORDER');
+      expect(intent.source).toBe('rule');
+      expect(isSupportIntent(intent.type)).toBe(true);
+    });
+
+    it('should classify multilingual messages', async () => {
+      expect((await classifier.classify('Quels sont les délais de livraison ?')).type).toBe('SHIPPING_INFO');
+      expect((await classifier.classify('¿Tienen productos en oferta?')).type).toBe('ON_SALE');
+    });
+
+    it('should include the search hint for product searches', async () => {
+      const intent = await classifier.classify('Show me your t-shirts');
+      expect(intent).toMatchObject({ type: 'PRODUCT_SEARCH', query: 't-shirt' });
+      expect(isProductIntent(intent.type)).toBe(true);
+    });
+
+    it('should classify intents formerly only known to the personalization service', async () => {
+      expect((await classifier.classify('How much is it?')).type).toBe('PRICE_INQUIRY');
+      expect((await classifier.classify('Hello there')).type).toBe('GREETING');
+    });
+
+    it('should only read an order number or email as order tracking when it was asked for', async () => {
+      const message = 'Can you send the invoice to jane@example.com? Order #1001';
+
+      expect((await classifier.classify(message)).type).not.toBe('TRACK_ORDER');
+      expect((await classifier.classify('Is #1234 in stock?')).type).toBe('AVAILABILITY');
+      expect(await classifier.classify(message, { awaitingOrderDetails: true })).toMatchObject({ type: 'TRACK_ORDER', source: 'rule' });
+      expect((await classifier.classify('#1001 jane@example.com', { awaitingOrderDetails: true })).type).toBe('TRACK_ORDER');
+    });
+
+    it('should fall back to GENERAL_CHAT with low confidence', async () => {
+      const intent = await classifier.classify('lorem ipsum');
+      expect(intent).toMatchObject({ type: 'GENERAL_CHAT', source: 'default' });
+      expect(intent.confidence).toBeLessThan(0.5);
+    });
+  });
+
+  describe('merchant rules', () => {
+    it('should apply shop rules before built-in rules', async () => {
+      findMany.mockResolvedValue([
+        { id: 'rule_1', intent: 'PRODUCT_SEARCH', pattern: 'gift card, voucher', matchType: 'keyword', query: 'gift-card' },
+      ]);
+
+      const intent = await classifier.classify('Can I get help buying a gift card?', { shop: 'test.myshopify.com' });
+
+      expect(intent).toMatchObject({
+        type: 'PRODUCT_SEARCH',
+        source: 'merchant_rule',
+        query: 'gift-card',
+        ruleId: 'rule_1',
+      });
+    });
+
+    it('should cache rules per shop', async () => {
+      await classifier.classify('hello', { shop: 'test.myshopify.com' });
+      await classifier.classify('hello again', { shop: 'test.myshopify.com' });
+
+      expect(findMany).toHaveBeenCalledTimes(1);
+    });
+
+    it('should skip invalid stored rules', async () => {
+      findMany.mockResolvedValue([
+        { id: 'bad', intent: 'RETURNS', pattern: '([', matchType: 'regex', query: null },
+      ]);
+
+      const intent = await classifier.classify('show me shoes', { shop: 'test.myshopify.com' });
+      expect(intent).toMatchObject({ type: 'PRODUCT_SEARCH', source: 'rule' });
+    });
+
+    it('should only test rules against the start of long messages', async () => {
+      findMany.mockResolvedValue([{ id: 'tail', intent: 'RETURNS', pattern: 'refund me', matchType: 'keyword', query: null }]);
+
+      const intent = await classifier.classify(`${'lorem ipsum '.repeat(100)}refund me`, { shop: 'test.myshopify.com' });
+
+      expect(intent).toMatchObject({ type: 'GENERAL_CHAT', source: 'default' });
+    });
+
+    it('should reject rules with unknown intents', async () => {
+      await expect(
+        classifier.createRule('test.myshopify.com', { intent: 'NOT_AN_INTENT', pattern: 'foo' })
+      ).rejects.toThrow('Unknown intent');
+    });
+  });
+
+  describe('custom layers', () => {
+    it('should use the most confident result when no layer passes the threshold', async () => {
+      const custom = new IntentClassifierService([
+        { name: 'weak', classify: async () => ({ type: 'COMPARISON', confidence: 0.4, source: 'llm' }) },
+      ]);
+
+      const intent = await custom.classify('anything');
+      expect(intent).toMatchObject({ type: 'COMPARISON', confidence: 0.4 });
+    });
+  });
+});
+
+describe('compileRulePattern', () => {
+  it('should escape keywords', () => {
+    const pattern = compileRulePattern('c++, 1.5L');
+    expect(pattern.test('do you sell c++ books')).toBe(true);
+    expect(pattern.test('15l bottle')).toBe(false);
+  });
+
+  it('should reject empty patterns', () => {
+    expect(() => compileRulePattern('  ')).toThrow();
+    expect(() => compileRulePattern(' , ')).toThrow();
+  });
+
+  it('should reject regexes that can backtrack exponentially', () => {
+    for (const pattern of ['(a+)+$', '(\\w+\\s?)*!', '(gift|gifts)*', '((ab)*c)+', '(x+){2,}', '(a)\\1']) {
+      expect(() => compileRulePattern(pattern, 'regex'), pattern).toThrow();
+    }
+    for (const pattern of ['gift\\s*card', '(gift|present)s?', '^(size|fit)\\b', '[(+*]+', '(?:a+)?b', 'x{2}y+']) {
+      expect(() => assertSafePattern(pattern), pattern).not.toThrow();
+    }
+  });
+});
+
+describe('normalizeIntent', () => {
+  it('should map legacy intent names to the shared taxonomy', () => {
+    expect(normalizeIntent('OTHER')).toBe('GENERAL_CHAT');
+    expect(normalizeIntent('SHIPPING')).toBe('SHIPPING_INFO');
+    expect(normalizeIntent('SUPPORT')).toBe('HELP_FAQ');
+    expect(normalizeIntent('price inquiry')).toBe('PRICE_INQUIRY');
+    expect(normalizeIntent(null)).toBe('GENERAL_CHAT');
+  });
+});
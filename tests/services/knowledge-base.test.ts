@@ -0,0 +1,119 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { chunkText, knowledgeBaseService } from '../../app/services/knowledge-base.service.server';
+import { faqService } from '../../app/services/faq.service.server';
+import type * as EmbeddingServiceModule from '../../app/services/embedding.service';
+
+const { db, enqueueJob } = vi.hoisted(() => ({
+  db: {
+    knowledgeDocument: { findMany: vi.fn(), upsert: vi.fn(), deleteMany: vi.fn() },
+    knowledgeChunk: { findMany: vi.fn() },
+    faqEntry: { findMany: vi.fn() },
+  },
+  enqueueJob: vi.fn(),
+}));
+
+vi.mock('../../app/db.server', () => ({ prisma: db }));
+vi.mock('../../app/lib/job-queue.server', () => ({ enqueueJob }));
+vi.mock('../../app/services/embedding.service', async (importOriginal) => ({
+  ...(await importOriginal<typeof EmbeddingServiceModule>()),
+  isEmbeddingServiceAvailable: () => false,
+}));
+
+const SHOP = 'test.myshopify.com';
+
+function adminReturning(...pages: unknown[]) {
+  const graphql = vi.fn();
+  for (const page of pages) {
+    graphql.mockResolvedValueOnce({ json: () => Promise.resolve({ data: { pages: page } }) });
+  }
+  return { graphql } as any;
+}
+
+describe('Knowledge Base Service', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    knowledgeBaseService.invalidateChunks();
+    faqService.invalidateEntries();
+  });
+
+  it('should split long text into overlapping chunks at sentence boundaries', () => {
+    const sentence = (n: number) => `Sentence number ${n} talks about washing wool at thirty degrees.`;
+    const text = `${Array.from({ length: 6 }, (_, i) => sentence(i + 1)).join(' ')}\n\nShort paragraph.`;
+
+    const chunks = chunkText(text, 200, 40);
+
+    expect(chunks.length).toBeGreaterThan(1);
+    for (const chunk of chunks) {
+      expect(chunk.length).toBeLessThanOrEqual(200);
+    }
+    // Sentences are kept whole
+    expect(chunks[0]).toBe(`${sentence(1)} ${sentence(2)} ${sentence(3)}`);
+    // Each chunk starts with the end of the previous one
+    expect(chunks[1]).toMatch(/^.+thirty degrees\. Sentence number 4/);
+    expect(chunks.at(-1)).toMatch(/Short paragraph\.$/);
+    expect(chunkText('Just one line.', 200, 40)).toEqual(['Just one line.']);
+  });
+
+  it('should import published pages, re-index changed ones and remove unpublished ones', async () => {
+    const admin = adminReturning(
+      {
+        nodes: [
+          { id: 'gid://shopify/Page/1', title: 'Shipping', handle: 'shipping', body: '<p>We ship <b>worldwide</b>.</p>', isPublished: true },
+          { id: 'gid://shopify/Page/2', title: 'Draft', handle: 'draft', body: '<p>Soon</p>', isPublished: false },
+        ],
+        pageInfo: { hasNextPage: true, endCursor: 'c1' },
+      },
+      {
+        nodes: [{ id: 'gid://shopify/Page/3', title: 'About', handle: 'about', body: '<p>Family business.</p>', isPublished: true }],
+        pageInfo: { hasNextPage: false, endCursor: null },
+      },
+    );
+    db.knowledgeDocument.findMany.mockResolvedValue([
+      { id: 'd1', externalId: 'gid://shopify/Page/1', contentHash: 'outdated' },
+      { id: 'd4', externalId: 'gid://shopify/Page/4', contentHash: 'whatever' },
+    ]);
+    db.knowledgeDocument.upsert.mockImplementation(({ where }: any) =>
+      Promise.resolve({ id: where.shop_externalId.externalId === 'gid://shopify/Page/1' ? 'd1' : 'd3' }));
+    db.knowledgeDocument.deleteMany.mockResolvedValue({ count: 1 });
+
+    const result = await knowledgeBaseService.importFromStore(SHOP, admin, 'pages');
+
+    expect(result).toEqual({ created: 1, updated: 1, unchanged: 0, removed: 1 });
+    expect(admin.graphql).toHaveBeenLastCalledWith(expect.any(String), { variables: { first: 50, after: 'c1' } });
+    expect(db.knowledgeDocument.upsert).toHaveBeenCalledWith(expect.objectContaining({
+      create: expect.objectContaining({
+        shop: SHOP,
+        type: 'page',
+        title: 'Shipping',
+        url: 'https://test.myshopify.com/pages/shipping',
+        content: 'We ship worldwide.',
+      }),
+    }));
+    expect(enqueueJob.mock.calls.map(call => call[1])).toEqual([{ documentId: 'd1' }, { documentId: 'd3' }]);
+    expect(db.knowledgeDocument.deleteMany).toHaveBeenCalledWith({ where: { shop: SHOP, id: { in: ['d4'] } } });
+  });
+
+  it('should rank passages by word overlap without an embedding provider', async () => {
+    db.faqEntry.findMany.mockResolvedValue([]);
+    db.knowledgeChunk.findMany.mockResolvedValue([
+      {
+        documentId: 'd1',
+        content: 'Wool sweaters should be washed by hand in cold water.',
+        embedding: null,
+        document: { type: 'text', title: 'Care guide', url: null },
+      },
+      {
+        documentId: 'd2',
+        content: 'We ship worldwide within 5 business days.',
+        embedding: null,
+        document: { type: 'page', title: 'Shipping', url: 'https://test.myshopify.com/pages/shipping' },
+      },
+    ]);
+
+    const { faqs, passages } = await knowledgeBaseService.retrieve(SHOP, 'Can wool sweaters be washed?');
+
+    expect(faqs).toEqual([]);
+    expect(passages).toHaveLength(1);
+    expect(passages[0]).toMatchObject({ documentId: 'd1', title: 'Care guide', type: 'text' });
+  });
+});
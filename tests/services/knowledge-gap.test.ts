@@ -0,0 +1,118 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { clusterQuestions, knowledgeGapService } from '../../app/services/knowledge-gap.service.server';
+import { faqService } from '../../app/services/faq.service.server';
+import type * as EmbeddingServiceModule from '../../app/services/embedding.service';
+
+const { db, analyticsService, embeddingService } = vi.hoisted(() => ({
+  db: {
+    chatMessage: { findMany: vi.fn() },
+    faqEntry: { findMany: vi.fn(), create: vi.fn() },
+  },
+  analyticsService: { getUnansweredQuestions: vi.fn() },
+  embeddingService: { generateEmbedding: vi.fn(), generateEmbeddings: vi.fn() },
+}));
+
+vi.mock('../../app/db.server', () => ({ prisma: db }));
+vi.mock('../../app/services/analytics.service', () => ({ analyticsService }));
+vi.mock('../../app/services/embedding.service', async (importOriginal) => ({
+  ...(await importOriginal<typeof EmbeddingServiceModule>()),
+  isEmbeddingServiceAvailable: () => true,
+  getEmbeddingService: () => embeddingService,
+}));
+
+const SHOP = 'test.myshopify.com';
+const period = {
+  startDate: new Date('2026-02-01T00:00:00Z'),
+  endDate: new Date('2026-02-28T23:59:59.999Z'),
+  days: 28,
+};
+
+// Toy embeddings: shipping questions point one way, gift card questions the other
+const SHIPPING = [1, 0.1, 0];
+const GIFT_CARD = [0, 0.1, 1];
+
+function question(text: string, embedding: number[] | null, chatSessionId: string, day: number, reason: 'fallback' | 'low_confidence' | 'low_rating' = 'fallback') {
+  return { question: text, reason, askedAt: new Date(Date.UTC(2026, 1, day)), chatSessionId, embedding };
+}
+
+describe('Knowledge Gap Service', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    faqService.invalidateEntries();
+  });
+
+  it('should cluster similar questions and rank clusters by frequency', () => {
+    const clusters = clusterQuestions([
+      question('Do you sell gift cards?', GIFT_CARD, 's1', 20),
+      question('Do you ship to Canada?', SHIPPING, 's2', 19),
+      question('Can you ship to Canada', [0.9, 0.2, 0], 's3', 18, 'low_confidence'),
+      question('do you ship to canada?', SHIPPING, 's4', 17, 'low_rating'),
+    ], 0.8);
+
+    expect(clusters).toHaveLength(2);
+    expect(clusters[0]).toMatchObject({
+      question: 'Do you ship to Canada?',
+      count: 3,
+      sessions: 3,
+      reasons: { fallback: 1, low_confidence: 1, low_rating: 1 },
+      samples: ['Can you ship to Canada'],
+      lastAskedAt: new Date(Date.UTC(2026, 1, 19)),
+    });
+    expect(clusters[1]).toMatchObject({ question: 'Do you sell gift cards?', count: 1, samples: [] });
+  });
+
+  it('should fall back to word overlap without embeddings', () => {
+    const clusters = clusterQuestions([
+      question('Is the leather jacket waterproof?', null, 's1', 20),
+      question('leather jacket waterproof or not', null, 's2', 19),
+      question('When will my order arrive?', null, 's3', 18),
+    ], 0.6);
+
+    expect(clusters.map(cluster => cluster.count)).toEqual([2, 1]);
+  });
+
+  it('should leave out clusters an FAQ entry already answers', async () => {
+    analyticsService.getUnansweredQuestions.mockResolvedValue([
+      question('Do you ship to Canada?', null, 's1', 20),
+      question('Do you sell gift cards?', null, 's2', 19),
+    ]);
+    db.chatMessage.findMany.mockResolvedValue([
+      { sessionId: 's3', timestamp: new Date(Date.UTC(2026, 1, 18)), content: 'ok' },
+    ]);
+    embeddingService.generateEmbeddings.mockResolvedValue([SHIPPING, GIFT_CARD]);
+    db.faqEntry.findMany.mockResolvedValue([
+      { id: 'faq1', question: 'Shipping to Canada?', answer: 'Yes', variants: '[]', embedding: JSON.stringify(SHIPPING) },
+    ]);
+
+    const clusters = await knowledgeGapService.getClusters(SHOP, period);
+
+    expect(db.chatMessage.findMany).toHaveBeenCalledWith(expect.objectContaining({
+      where: expect.objectContaining({ role: 'user', session: { shop: SHOP, rating: { lte: 2 } } }),
+    }));
+    // "ok" is too short to be a question
+    expect(embeddingService.generateEmbeddings).toHaveBeenCalledWith(['Do you ship to Canada?', 'Do you sell gift cards?']);
+    expect(clusters.map(cluster => cluster.question)).toEqual(['Do you sell gift cards?']);
+  });
+
+  it('should save the answer as an FAQ entry matched by every phrasing', async () => {
+    embeddingService.generateEmbedding.mockResolvedValue(SHIPPING);
+    db.faqEntry.create.mockImplementation(({ data }: any) => Promise.resolve({ id: 'faq1', ...data }));
+
+    await knowledgeGapService.answerCluster(SHOP, {
+      question: ' Do you ship to Canada? ',
+      answer: 'Yes, in 5-7 business days.',
+      samples: ['Can you ship to Canada', 'Do you ship to Canada?'],
+    });
+
+    expect(db.faqEntry.create).toHaveBeenCalledWith({
+      data: {
+        shop: SHOP,
+        question: 'Do you ship to Canada?',
+        answer: 'Yes, in 5-7 business days.',
+        variants: JSON.stringify(['Can you ship to Canada']),
+        embedding: JSON.stringify(SHIPPING),
+        source: 'knowledge_gap',
+      },
+    });
+  });
+});
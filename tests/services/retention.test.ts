@@ -0,0 +1,124 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { RETENTION } from '../../app/config/limits';
+import { nextPurgeAt, retentionService } from '../../app/services/retention.service.server';
+
+const { db, enqueueJob, recordAuditEvent } = vi.hoisted(() => ({
+  db: {
+    widgetSettings: { findUnique: vi.fn(), findMany: vi.fn(), upsert: vi.fn() },
+    retentionRun: { create: vi.fn(), update: vi.fn() },
+    chatSession: { count: vi.fn(), findMany: vi.fn(), deleteMany: vi.fn(), updateMany: vi.fn() },
+    chatMessage: { count: vi.fn(), deleteMany: vi.fn() },
+    conversation: { count: vi.fn(), findMany: vi.fn(), deleteMany: vi.fn() },
+    userProfile: { count: vi.fn(), findMany: vi.fn(), updateMany: vi.fn() },
+    chatAnalytics: { count: vi.fn(), findMany: vi.fn(), deleteMany: vi.fn() },
+    analyticsEvent: { count: vi.fn(), findMany: vi.fn(), deleteMany: vi.fn() },
+    $transaction: vi.fn((operations: Promise<unknown>[]) => Promise.all(operations)),
+  },
+  enqueueJob: vi.fn(),
+  recordAuditEvent: vi.fn(),
+}));
+
+vi.mock('../../app/db.server', () => ({ prisma: db }));
+vi.mock('../../app/lib/job-queue.server', () => ({ enqueueJob }));
+vi.mock('../../app/lib/audit.server', () => ({ recordAuditEvent }));
+
+const SHOP = 'test.myshopify.com';
+const NOW = new Date('2026-03-01T12:00:00Z');
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function ids(prefix: string, count: number) {
+  return Array.from({ length: count }, (_, index) => ({ id: `${prefix}${index}` }));
+}
+
+describe('Retention Service', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    db.widgetSettings.findUnique.mockResolvedValue({ retentionPolicy: JSON.stringify({ chats: 60, analytics: 5 }) });
+    db.retentionRun.create.mockResolvedValue({ id: 'run1' });
+    for (const model of [db.chatSession, db.conversation, db.userProfile, db.chatAnalytics, db.analyticsEvent]) {
+      model.findMany.mockResolvedValue([]);
+    }
+  });
+
+  it('should apply shop overrides within bounds and count expired rows in a dry run', async () => {
+    db.chatSession.count.mockResolvedValueOnce(4).mockResolvedValueOnce(1);
+    db.chatMessage.count.mockResolvedValue(30);
+    db.conversation.count.mockResolvedValue(12);
+    db.userProfile.count.mockResolvedValue(3);
+    db.chatAnalytics.count.mockResolvedValue(0);
+    db.analyticsEvent.count.mockResolvedValue(200);
+
+    const { report } = await retentionService.purgeShop(SHOP, { dryRun: true, now: NOW });
+
+    expect(report.days).toEqual({
+      chats: 60,
+      conversations: RETENTION.CONVERSATIONS_DAYS,
+      profileActivity: RETENTION.PROFILE_ACTIVITY_DAYS,
+      analytics: RETENTION.MIN_DAYS,
+    });
+    expect(report.cutoffs.chats).toBe(new Date(NOW.getTime() - 60 * DAY_MS).toISOString());
+    expect(report.deleted).toEqual({ chatSessions: 4, chatMessages: 30, conversations: 12, chatAnalytics: 0, analyticsEvents: 200 });
+    expect(report.anonymized).toEqual({ chatSessions: 1, userProfiles: 3 });
+
+    expect(db.chatSession.deleteMany).not.toHaveBeenCalled();
+    expect(db.analyticsEvent.deleteMany).not.toHaveBeenCalled();
+    expect(db.retentionRun.create).toHaveBeenCalledWith(expect.objectContaining({ data: { shop: SHOP, trigger: 'manual', dryRun: true } }));
+    expect(db.retentionRun.update.mock.calls[0]![0].data.status).toBe('completed');
+    expect(recordAuditEvent).not.toHaveBeenCalled();
+  });
+
+  it('should delete expired rows in batches and keep attributed sessions without their messages', async () => {
+    const batch = RETENTION.BATCH_SIZE;
+    db.chatSession.findMany
+      .mockResolvedValueOnce(ids('s', batch))
+      .mockResolvedValueOnce(ids('t', 2))
+      .mockResolvedValueOnce(ids('a', 1));
+    db.chatMessage.deleteMany.mockResolvedValueOnce({ count: 40 }).mockResolvedValueOnce({ count: 5 }).mockResolvedValueOnce({ count: 3 });
+    db.chatSession.deleteMany.mockResolvedValueOnce({ count: batch }).mockResolvedValueOnce({ count: 2 });
+    db.chatSession.updateMany.mockResolvedValue({ count: 1 });
+    db.userProfile.findMany.mockResolvedValueOnce(ids('p', 2));
+    db.userProfile.updateMany.mockResolvedValue({ count: 2 });
+
+    const { report } = await retentionService.purgeShop(SHOP, { trigger: 'scheduled', now: NOW });
+
+    // A full batch is followed by another query; a short one ends the class
+    expect(db.chatSession.findMany).toHaveBeenCalledTimes(3);
+    expect(db.chatSession.findMany.mock.calls[0]![0]).toMatchObject({
+      where: { shop: SHOP, lastMessageAt: { lt: new Date(NOW.getTime() - 60 * DAY_MS) }, conversions: { none: {} } },
+      take: batch,
+    });
+    expect(db.chatSession.updateMany).toHaveBeenCalledWith({
+      where: { id: { in: ['a0'] } },
+      data: { context: '{}', ratingComment: null },
+    });
+    expect(db.userProfile.updateMany).toHaveBeenCalledWith({
+      where: { id: { in: ['p0', 'p1'] } },
+      data: { browsingHistory: '[]', interactions: '[]' },
+    });
+
+    expect(report.deleted).toMatchObject({ chatSessions: batch + 2, chatMessages: 48, conversations: 0 });
+    expect(report.anonymized).toEqual({ chatSessions: 1, userProfiles: 2 });
+    expect(recordAuditEvent).toHaveBeenCalledWith(expect.objectContaining({
+      action: 'retention.purged',
+      targetId: 'run1',
+      metadata: { trigger: 'scheduled', rowsDeleted: batch + 50, rowsAnonymized: 3 },
+    }));
+  });
+
+  it('should reject periods out of bounds and queue one purge job per day', async () => {
+    await expect(retentionService.savePolicy(SHOP, { chats: 1 })).rejects.toThrow('between');
+    expect(db.widgetSettings.upsert).not.toHaveBeenCalled();
+
+    const runAt = nextPurgeAt(NOW);
+    expect(runAt.getTime()).toBeGreaterThan(NOW.getTime());
+    expect(runAt.getUTCHours()).toBe(RETENTION.PURGE_HOUR_UTC);
+
+    await retentionService.schedulePurges(NOW);
+    await retentionService.schedulePurges(new Date(NOW.getTime() + 60 * 1000));
+    expect(enqueueJob).toHaveBeenCalledTimes(1);
+    expect(enqueueJob.mock.calls[0]![2]).toEqual({
+      idempotencyKey: `retention.schedule:${runAt.toISOString().slice(0, 10)}`,
+      runAt,
+    });
+  });
+});
@@ -0,0 +1,108 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { shopPoliciesService } from '../../app/services/shop-policies.service.server';
+
+const { db, enqueueJob, knowledgeBaseService } = vi.hoisted(() => ({
+  db: {
+    shopPolicies: { findUnique: vi.fn(), update: vi.fn(), upsert: vi.fn() },
+  },
+  enqueueJob: vi.fn(),
+  knowledgeBaseService: { syncStoreDocuments: vi.fn() },
+}));
+
+vi.mock('../../app/db.server', () => ({ prisma: db }));
+vi.mock('../../app/lib/job-queue.server', () => ({ enqueueJob }));
+vi.mock('../../app/services/knowledge-base.service.server', () => ({ knowledgeBaseService }));
+
+const SHOP = 'test.myshopify.com';
+
+const shopResponse = {
+  data: {
+    shop: {
+      name: 'Test Store',
+      contactEmail: 'help@test.com',
+      billingAddress: { phone: '+1 555 0100' },
+      shopPolicies: [
+        {
+          id: 'gid://shopify/ShopPolicy/1',
+          type: 'REFUND_POLICY',
+          title: 'Refund policy',
+          body: '<p>30 days.</p>',
+          url: 'https://test.myshopify.com/policies/refund-policy',
+          updatedAt: '2026-02-10T10:00:00Z',
+        },
+        { id: 'gid://shopify/ShopPolicy/2', type: 'PRIVACY_POLICY', title: 'Privacy policy', body: '', url: '', updatedAt: '2026-01-01T00:00:00Z' },
+      ],
+    },
+  },
+};
+
+const admin = { graphql: vi.fn(() => Promise.resolve({ json: () => Promise.resolve(shopResponse) })) } as any;
+
+describe('Shop Policies Service', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('should store policies and contact details and index the published policies', async () => {
+    db.shopPolicies.findUnique.mockResolvedValue(null);
+
+    const policies = await shopPoliciesService.getPolicies(SHOP, admin);
+
+    expect(policies).toEqual({
+      shopName: 'Test Store',
+      returns: '<p>30 days.</p>',
+      shipping: null,
+      privacy: null,
+      termsOfService: null,
+      contactEmail: 'help@test.com',
+      contactPhone: '+1 555 0100',
+    });
+    expect(db.shopPolicies.upsert).toHaveBeenCalledWith(expect.objectContaining({
+      create: expect.objectContaining({
+        shop: SHOP,
+        returns: '<p>30 days.</p>',
+        contactPhone: '+1 555 0100',
+        policiesUpdatedAt: new Date('2026-02-10T10:00:00Z'),
+      }),
+    }));
+    expect(knowledgeBaseService.syncStoreDocuments).toHaveBeenCalledWith(SHOP, 'policy', [{
+      externalId: 'gid://shopify/ShopPolicy/1',
+      title: 'Refund policy',
+      url: 'https://test.myshopify.com/policies/refund-policy',
+      content: '30 days.',
+    }]);
+  });
+
+  it('should only bump fetchedAt when nothing changed', async () => {
+    db.shopPolicies.findUnique.mockResolvedValue(null);
+    await shopPoliciesService.refresh(SHOP, admin);
+    const { contentHash } = db.shopPolicies.upsert.mock.calls[0]![0].create;
+    vi.clearAllMocks();
+
+    db.shopPolicies.findUnique.mockResolvedValue({ contentHash });
+    await shopPoliciesService.refresh(SHOP, admin);
+
+    expect(db.shopPolicies.update).toHaveBeenCalledWith({ where: { shop: SHOP }, data: { fetchedAt: expect.any(Date) } });
+    expect(db.shopPolicies.upsert).not.toHaveBeenCalled();
+    expect(knowledgeBaseService.syncStoreDocuments).not.toHaveBeenCalled();
+  });
+
+  it('should serve stale policies and refresh them in the background', async () => {
+    db.shopPolicies.findUnique.mockResolvedValue({
+      shopName: 'Test Store',
+      returns: 'Old policy',
+      shipping: null,
+      privacy: null,
+      termsOfService: null,
+      contactEmail: null,
+      contactPhone: null,
+      fetchedAt: new Date(Date.now() - 7 * 60 * 60 * 1000),
+    });
+
+    const policies = await shopPoliciesService.getPolicies(SHOP, admin);
+
+    expect(policies?.returns).toBe('Old policy');
+    expect(admin.graphql).not.toHaveBeenCalled();
+    expect(enqueueJob).toHaveBeenCalledWith('policies.refresh', {}, expect.objectContaining({ shop: SHOP }));
+  });
+});
@@ -0,0 +1,45 @@
+import { describe, it, expect, vi } from 'vitest';
+import { parseTranscriptFilters, buildTranscriptWhere } from '../../app/services/transcript.service.server';
+
+vi.mock('../../app/db.server', () => ({ prisma: {} }));
+
+describe('Transcript filters', () => {
+  it('should parse known filters and ignore unknown values', () => {
+    const filters = parseTranscriptFilters(new URLSearchParams(
+      'from=2026-02-01&to=2026-02-07&rating=low&sentiment=angry&intent=RETURNS&escalated=yes&converted=maybe&language=FR&q=%20refund%20'
+    ));
+
+    expect(filters).toEqual({
+      from: new Date('2026-02-01T00:00:00.000Z'),
+      to: new Date('2026-02-07T23:59:59.999Z'),
+      rating: 'low',
+      sentiment: undefined,
+      intent: 'RETURNS',
+      escalated: true,
+      converted: undefined,
+      language: 'fr',
+      query: 'refund',
+    });
+  });
+
+  it('should scope the query to the shop and combine message conditions', () => {
+    const where = buildTranscriptWhere('test.myshopify.com', {
+      rating: '5',
+      escalated: false,
+      converted: true,
+      sentiment: 'negative',
+      query: 'refund',
+    });
+
+    expect(where).toEqual({
+      shop: 'test.myshopify.com',
+      rating: 5,
+      escalatedAt: null,
+      conversions: { some: {} },
+      AND: [
+        { messages: { some: { role: 'user', sentiment: 'negative' } } },
+        { messages: { some: { content: { contains: 'refund', mode: 'insensitive' } } } },
+      ],
+    });
+  });
+});